@@ -7,6 +7,16 @@
 
 // Import jest-dom for extended DOM matchers
 import '@testing-library/jest-dom'
+import { TextDecoder, TextEncoder as NodeTextEncoder } from 'util'
+
+// Provide the text codecs jsdom lacks, which libraries such as jsPDF need.
+// Encoded bytes are copied so they are Uint8Arrays of the test environment.
+class TextEncoder extends NodeTextEncoder {
+  encode(input?: string) {
+    return new Uint8Array(super.encode(input))
+  }
+}
+Object.assign(global, { TextEncoder, TextDecoder })
 
 // Mock window.matchMedia for components that use media queries
 Object.defineProperty(window, 'matchMedia', {
@@ -8,19 +8,55 @@
  * - Viewport transformations (zoom, pan)
  * - Grid overlay support
  * - Multi-select with selection box
+ * - Text autofit applied when editing and resizing text elements
+ * - Grouped elements selected, moved, resized and rotated as a unit
+ * - Table insertion, cell selection and inline cell editing
+ * - Chart insertion
+ * - Connector drawing, with ends snapping to connection points of other elements
+ * - Shape library previews and freeform drawing with the pen tool
  */
 
 import { useRef, useCallback, useEffect, useState } from 'react'
-import { usePresentationStore } from '@stores/presentationStore'
+import { Loader2 } from 'lucide-react'
+import { usePresentationStore, usePresentationsLoaded } from '@stores/presentationStore'
 import { useEditorStore } from '@stores/editorStore'
 import { useHistoryStore } from '@stores/historyStore'
 import { useCanvasRenderer } from '@/hooks/useCanvasRenderer'
 import { TextInputOverlay } from './TextInputOverlay'
 import { ImageUploadDialog } from './ImageUploadDialog'
 import { LayoutSelectorDialog } from './LayoutSelectorDialog'
-import type { SlideElement, Position, TextElement, ImageElement, ShapeElement } from '@/types/presentation'
+import { TableCellEditor } from './TableCellEditor'
+import type { SlideElement, Position, TextElement, TextRun, TextParagraph, ImageElement, ShapeElement, TableElement, ElementFrame, ConnectorEndpoint } from '@/types/presentation'
+import { DEFAULT_THEME, THEME_FONT_TOKEN } from '@/types/presentation'
+import { themeColorRef, resolveThemeColor, resolveThemeFont } from '@/utils/themeUtils'
+import { getTextRuns, hasRunFormatting } from '@/utils/richText'
+import { getTextParagraphs, hasParagraphFormatting } from '@/utils/textLists'
+import { DEFAULT_LINE_SPACING, getAutofitHeight } from '@/utils/textLayout'
+import { SlideCanvasRenderer } from '@/utils/SlideCanvasRenderer'
+import { expandToGroups, resizeGroup, rotateGroup } from '@/utils/groupUtils'
+import {
+  createTableElement,
+  getCellAtPoint,
+  getCellRects,
+  getCellTextElement,
+  getCellFillColor,
+  setCellContent,
+} from '@/utils/tableUtils'
+import { createChartElement } from '@/utils/chartUtils'
+import {
+  SHAPE_TYPE_LABELS,
+  createFreeformShape,
+  getShapeOutline,
+  serializePathData,
+} from '@/utils/shapeGeometry'
+import {
+  CONNECTION_SNAP_DISTANCE,
+  createConnectorElement,
+  getNearestConnectionPoint,
+} from '@/utils/connectorUtils'
+import { panCrop, resizeCrop } from '@/utils/imageUtils'
 import type { SlideLayoutType } from '@/types/layout'
-import type { ResizeHandle } from '@/types/editor'
+import type { ResizeHandle, TableCellPosition } from '@/types/editor'
 
 /**
  * Slide dimensions (16:9 aspect ratio)
@@ -28,6 +64,31 @@ import type { ResizeHandle } from '@/types/editor'
 const SLIDE_WIDTH = 960
 const SLIDE_HEIGHT = 540
 
+/**
+ * Create a text element with the defaults of the text tool.
+ * New text boxes grow to fit their text.
+ */
+function createDefaultTextElement(id: string, position: Position, zIndex: number): TextElement {
+  return {
+    id,
+    type: 'text',
+    position,
+    dimensions: { width: 200, height: 50 },
+    rotation: 0,
+    zIndex,
+    opacity: 1,
+    locked: false,
+    content: '',
+    fontSize: 24,
+    fontFamily: THEME_FONT_TOKEN,
+    fontWeight: 'normal',
+    fontStyle: 'normal',
+    textAlign: 'left',
+    color: themeColorRef('text'),
+    autofit: 'resize',
+  }
+}
+
 /**
  * Props for CanvasArea component
  */
@@ -50,7 +111,12 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
   const updateElements = usePresentationStore((state) => state.updateElements)
   const addElement = usePresentationStore((state) => state.addElement)
   const createPresentation = usePresentationStore((state) => state.createPresentation)
+  const presentationsLoaded = usePresentationsLoaded()
   const addSlideWithLayout = usePresentationStore((state) => state.addSlideWithLayout)
+  const theme = usePresentationStore(
+    (state) =>
+      state.presentations.find((p) => p.id === state.currentPresentationId)?.theme ?? DEFAULT_THEME
+  )
 
   // Get editor state
   const currentSlideId = useEditorStore((state) => state.currentSlideId)
@@ -60,6 +126,7 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
   const activeShapeType = useEditorStore((state) => state.activeShapeType)
   const selectedElementIds = useEditorStore((state) => state.selectedElementIds)
   const interactionMode = useEditorStore((state) => state.interactionMode)
+  const croppingElementId = useEditorStore((state) => state.croppingElementId)
 
   // Editor actions
   const selectElement = useEditorStore((state) => state.selectElement)
@@ -78,11 +145,18 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
   const zoomIn = useEditorStore((state) => state.zoomIn)
   const zoomOut = useEditorStore((state) => state.zoomOut)
   const setActiveTool = useEditorStore((state) => state.setActiveTool)
+  const selectTableCell = useEditorStore((state) => state.selectTableCell)
+  const startCropping = useEditorStore((state) => state.startCropping)
+  const stopCropping = useEditorStore((state) => state.stopCropping)
 
   // Text editing state (declared before useCanvasRenderer so it can use editingTextElementId)
   const [isTextEditing, setIsTextEditing] = useState(false)
   const [textEditPosition, setTextEditPosition] = useState<Position | null>(null)
   const [editingTextElementId, setEditingTextElementId] = useState<string | null>(null)
+  // Table cell being edited in the cell editor
+  const [editingCell, setEditingCell] = useState<
+    ({ elementId: string } & TableCellPosition) | null
+  >(null)
 
   // Use canvas renderer hook
   const {
@@ -91,6 +165,9 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
     forceRender,
     getElementAtPoint,
     getResizeHandleAtPoint,
+    getSelectionHandleAtPoint,
+    getConnectorHandleAtPoint,
+    getCropHandleAtPoint,
     canvasToSlideCoords,
   } = useCanvasRenderer({
     width: SLIDE_WIDTH,
@@ -111,10 +188,13 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
     new Map()
   )
   const [activeHandle, setActiveHandle] = useState<ResizeHandle | 'rotation' | null>(null)
+  // Frame being resized or rotated: a single element, or a group with its members
   const [resizeStart, setResizeStart] = useState<{
     mouseX: number
     mouseY: number
-    element: SlideElement
+    frame: ElementFrame
+    elements: SlideElement[]
+    isGroup: boolean
   } | null>(null)
   // Track if any changes were made during interaction (used by setHasInteractionChanges)
   const [, setHasInteractionChanges] = useState(false)
@@ -131,6 +211,28 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
   const [shapeDrawStart, setShapeDrawStart] = useState<Position | null>(null)
   const [shapeDrawCurrent, setShapeDrawCurrent] = useState<Position | null>(null)
 
+  // Points of the stroke being drawn with the pen tool
+  const [penStroke, setPenStroke] = useState<Position[] | null>(null)
+
+  // Connector being drawn with the connector tool
+  const [connectorDraft, setConnectorDraft] = useState<{
+    start: ConnectorEndpoint
+    end: ConnectorEndpoint
+  } | null>(null)
+  // End of the selected connector being dragged
+  const [draggedConnectorEnd, setDraggedConnectorEnd] = useState<{
+    connectorId: string
+    end: 'start' | 'end'
+  } | null>(null)
+
+  // Crop handle (or the image under the crop) being dragged in crop mode,
+  // with the image as it was when the drag started
+  const [cropDrag, setCropDrag] = useState<{
+    mode: ResizeHandle | 'pan'
+    start: Position
+    image: ImageElement
+  } | null>(null)
+
   // Track if Shift was held when starting selection box (for additive selection)
   const selectionBoxAdditive = useRef(false)
 
@@ -138,6 +240,32 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
   const presentation = presentations.find((p) => p.id === currentPresentationId) ?? null
   const currentSlide = presentation?.slides.find((s) => s.id === currentSlideId) ?? null
 
+  /**
+   * Generate a unique ID for new elements
+   */
+  const generateId = useCallback(() => {
+    return `${String(Date.now())}-${Math.random().toString(36).slice(2, 11)}`
+  }, [])
+
+  /**
+   * Get a connector end at a slide point, attached to the nearest connection point in snapping range
+   */
+  const getSnappedEndpoint = useCallback(
+    (point: Position): ConnectorEndpoint => {
+      const snap = currentSlide
+        ? getNearestConnectionPoint(
+            currentSlide.elements,
+            point,
+            CONNECTION_SNAP_DISTANCE / viewport.zoom
+          )
+        : null
+      return snap
+        ? { position: snap.position, attachment: { elementId: snap.elementId, side: snap.side } }
+        : { position: point }
+    },
+    [currentSlide, viewport.zoom]
+  )
+
   /**
    * Get mouse position relative to canvas
    */
@@ -166,6 +294,20 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
       const canvasPos = getCanvasMousePosition(event)
       const slidePos = canvasToSlideCoords(canvasPos.x, canvasPos.y)
 
+      // In crop mode, drag the crop handles or the image under the crop;
+      // clicking anywhere else finishes cropping
+      if (croppingElementId) {
+        const cropHit = getCropHandleAtPoint(canvasPos.x, canvasPos.y)
+        const onImage = getElementAtPoint(canvasPos.x, canvasPos.y)?.id === croppingElementId
+        if (cropHit && (cropHit.handle || onImage)) {
+          recordSnapshot('Before crop')
+          setCropDrag({ mode: cropHit.handle ?? 'pan', start: slidePos, image: cropHit.image })
+          setInteractionMode('resizing')
+          return
+        }
+        stopCropping()
+      }
+
       // Check for pan tool
       if (activeTool === 'pan') {
         setInteractionMode('dragging')
@@ -202,6 +344,41 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
         return
       }
 
+      // Check for table tool - insert a table at the click position
+      if (activeTool === 'table') {
+        recordSnapshot('Add table')
+        const table = createTableElement(generateId(), slidePos, currentSlide.elements.length)
+        addElement(currentPresentationId, currentSlide.id, table)
+        setActiveTool('select')
+        selectElement(table.id)
+        return
+      }
+
+      // Check for chart tool - insert a bar chart at the click position
+      if (activeTool === 'chart') {
+        recordSnapshot('Add chart')
+        const chart = createChartElement(generateId(), slidePos, currentSlide.elements.length)
+        addElement(currentPresentationId, currentSlide.id, chart)
+        setActiveTool('select')
+        selectElement(chart.id)
+        return
+      }
+
+      // Check for pen tool - start a freeform stroke
+      if (activeTool === 'pen') {
+        setPenStroke([slidePos])
+        setInteractionMode('drawing')
+        return
+      }
+
+      // Check for connector tool - start drawing a connector
+      if (activeTool === 'connector') {
+        const start = getSnappedEndpoint(slidePos)
+        setConnectorDraft({ start, end: start })
+        setInteractionMode('drawing')
+        return
+      }
+
       // Check for shape tool - start drawing a shape
       if (activeTool === 'shape') {
         setShapeDrawStart(slidePos)
@@ -213,10 +390,21 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
       // Record snapshot before any element modifications start
       // This ensures we capture the state before the drag/resize operation
 
-      // Check for resize/rotation handles on selected elements
+      // Check for the endpoint handles of a selected connector
+      const connectorHit = getConnectorHandleAtPoint(canvasPos.x, canvasPos.y)
+      if (connectorHit) {
+        recordSnapshot('Before move connector end')
+        setHasInteractionChanges(false)
+        setInteractionMode('resizing')
+        setDraggedConnectorEnd({ connectorId: connectorHit.connector.id, end: connectorHit.end })
+        return
+      }
+
+      // Check for resize/rotation handles on selected elements and groups
       if (selectedElementIds.length > 0) {
-        const handle = getResizeHandleAtPoint(canvasPos.x, canvasPos.y)
-        if (handle) {
+        const hit = getSelectionHandleAtPoint(canvasPos.x, canvasPos.y)
+        if (hit) {
+          const { handle, selection } = hit
           // Record snapshot before resize/rotate begins
           recordSnapshot('Before resize/rotate')
           setHasInteractionChanges(false)
@@ -230,17 +418,16 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
             setActiveResizeHandle(handle)
           }
 
-          // Get the first selected element for resize reference
-          const element = currentSlide.elements.find(
-            (el) => el.id === selectedElementIds[0]
-          )
-          if (element) {
-            setResizeStart({
-              mouseX: canvasPos.x,
-              mouseY: canvasPos.y,
-              element: { ...element },
-            })
-          }
+          // Snapshot the frame and the elements it transforms
+          setResizeStart({
+            mouseX: canvasPos.x,
+            mouseY: canvasPos.y,
+            frame: selection.frame,
+            elements: currentSlide.elements
+              .filter((el) => selection.elementIds.includes(el.id))
+              .map((el) => ({ ...el })),
+            isGroup: selection.isGroup,
+          })
           setDragStart(canvasPos)
           return
         }
@@ -257,20 +444,40 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
         // Check for modifier keys for multi-select behavior
         const isCtrlOrMeta = event.ctrlKey || event.metaKey
 
+        // Clicking any member of a group acts on the whole group
+        const clickedIds = expandToGroups(currentSlide.elements, [clickedElement.id])
+
         if (isCtrlOrMeta) {
           // Ctrl/Cmd+Click: Toggle selection (add if not selected, remove if selected)
-          toggleSelection(clickedElement.id)
+          for (const id of clickedIds) {
+            toggleSelection(id)
+          }
           // Don't start dragging when just toggling selection
           return
         } else if (event.shiftKey) {
           // Shift+Click: Add to selection (range-style, always adds)
-          addToSelection(clickedElement.id)
+          for (const id of clickedIds) {
+            addToSelection(id)
+          }
         } else if (!selectedElementIds.includes(clickedElement.id)) {
-          // Regular click on unselected element: Select only this element
-          selectElement(clickedElement.id)
+          // Regular click on unselected element: Select only this element (or its group)
+          selectElements(clickedIds)
         }
         // If regular click on already selected element, keep selection (for dragging)
 
+        // Clicking a table selects the cell under the pointer;
+        // Shift+Click on a selected table extends the cell selection
+        if (clickedElement.type === 'table') {
+          const cell = getCellAtPoint(clickedElement, slidePos)
+          if (cell) {
+            selectTableCell(
+              clickedElement.id,
+              cell,
+              event.shiftKey && selectedElementIds.includes(clickedElement.id)
+            )
+          }
+        }
+
         // Start dragging
         setInteractionMode('dragging')
         setDragStart(slidePos)
@@ -278,8 +485,8 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
         // Store initial positions of all selected elements
         const positions = new Map<string, Position>()
         const idsToTrack = selectedElementIds.includes(clickedElement.id)
-          ? selectedElementIds
-          : [clickedElement.id]
+          ? expandToGroups(currentSlide.elements, selectedElementIds)
+          : clickedIds
 
         for (const id of idsToTrack) {
           const element = currentSlide.elements.find((el) => el.id === id)
@@ -311,15 +518,25 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
       getCanvasMousePosition,
       canvasToSlideCoords,
       getElementAtPoint,
-      getResizeHandleAtPoint,
+      getSelectionHandleAtPoint,
+      getConnectorHandleAtPoint,
+      getCropHandleAtPoint,
+      getSnappedEndpoint,
+      croppingElementId,
+      stopCropping,
       selectElement,
+      selectElements,
       addToSelection,
       toggleSelection,
       clearSelection,
+      selectTableCell,
       setInteractionMode,
       setActiveResizeHandle,
       startSelectionBox,
       recordSnapshot,
+      generateId,
+      addElement,
+      setActiveTool,
     ]
   )
 
@@ -341,8 +558,12 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
         // Update cursor based on hover
         if (canvasRef.current) {
           if (selectedElementIds.length > 0) {
-            const handle = getResizeHandleAtPoint(canvasPos.x, canvasPos.y)
-            if (handle === 'rotation') {
+            const handle =
+              getCropHandleAtPoint(canvasPos.x, canvasPos.y)?.handle ??
+              getResizeHandleAtPoint(canvasPos.x, canvasPos.y)
+            if (getConnectorHandleAtPoint(canvasPos.x, canvasPos.y)) {
+              canvasRef.current.style.cursor = 'crosshair'
+            } else if (handle === 'rotation') {
               canvasRef.current.style.cursor = 'crosshair'
             } else if (handle) {
               const cursorMap: Record<ResizeHandle, string> = {
@@ -370,6 +591,10 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
               text: 'text',
               shape: 'crosshair',
               image: 'copy',
+              table: 'crosshair',
+              chart: 'crosshair',
+              connector: 'crosshair',
+              pen: 'crosshair',
               pan: 'grab',
             }
             canvasRef.current.style.cursor = toolCursors[activeTool] || 'default'
@@ -414,6 +639,37 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
         }
       }
 
+      // Handle cropping: move the edges of the crop, or the image under it
+      if (interactionMode === 'resizing' && cropDrag && currentSlideId) {
+        const deltaX = slidePos.x - cropDrag.start.x
+        const deltaY = slidePos.y - cropDrag.start.y
+        updateElement(
+          currentPresentationId,
+          currentSlideId,
+          cropDrag.image.id,
+          {
+            // Images are cropped as drawn with 'fill' (see getCroppableImage)
+            position: cropDrag.image.position,
+            dimensions: cropDrag.image.dimensions,
+            objectFit: 'fill',
+            ...(cropDrag.mode === 'pan'
+              ? panCrop(cropDrag.image, deltaX, deltaY)
+              : resizeCrop(cropDrag.image, cropDrag.mode, deltaX, deltaY)),
+          }
+        )
+        setHasInteractionChanges(true)
+        return
+      }
+
+      // Handle dragging a connector end, attaching it to connection points it snaps to
+      if (interactionMode === 'resizing' && draggedConnectorEnd && currentSlideId) {
+        updateElement(currentPresentationId, currentSlideId, draggedConnectorEnd.connectorId, {
+          [draggedConnectorEnd.end]: getSnappedEndpoint(slidePos),
+        })
+        setHasInteractionChanges(true)
+        return
+      }
+
       // Handle resizing
       if (
         interactionMode === 'resizing' &&
@@ -424,73 +680,109 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
         const deltaX = (canvasPos.x - resizeStart.mouseX) / viewport.zoom
         const deltaY = (canvasPos.y - resizeStart.mouseY) / viewport.zoom
 
-        const { element } = resizeStart
-        let newX = element.position.x
-        let newY = element.position.y
-        let newWidth = element.dimensions.width
-        let newHeight = element.dimensions.height
+        const { frame, elements, isGroup } = resizeStart
+        let newX = frame.position.x
+        let newY = frame.position.y
+        let newWidth = frame.dimensions.width
+        let newHeight = frame.dimensions.height
 
         switch (activeHandle) {
           case 'top-left':
-            newX = element.position.x + deltaX
-            newY = element.position.y + deltaY
-            newWidth = element.dimensions.width - deltaX
-            newHeight = element.dimensions.height - deltaY
+            newX = frame.position.x + deltaX
+            newY = frame.position.y + deltaY
+            newWidth = frame.dimensions.width - deltaX
+            newHeight = frame.dimensions.height - deltaY
             break
           case 'top':
-            newY = element.position.y + deltaY
-            newHeight = element.dimensions.height - deltaY
+            newY = frame.position.y + deltaY
+            newHeight = frame.dimensions.height - deltaY
             break
           case 'top-right':
-            newY = element.position.y + deltaY
-            newWidth = element.dimensions.width + deltaX
-            newHeight = element.dimensions.height - deltaY
+            newY = frame.position.y + deltaY
+            newWidth = frame.dimensions.width + deltaX
+            newHeight = frame.dimensions.height - deltaY
             break
           case 'right':
-            newWidth = element.dimensions.width + deltaX
+            newWidth = frame.dimensions.width + deltaX
             break
           case 'bottom-right':
-            newWidth = element.dimensions.width + deltaX
-            newHeight = element.dimensions.height + deltaY
+            newWidth = frame.dimensions.width + deltaX
+            newHeight = frame.dimensions.height + deltaY
             break
           case 'bottom':
-            newHeight = element.dimensions.height + deltaY
+            newHeight = frame.dimensions.height + deltaY
             break
           case 'bottom-left':
-            newX = element.position.x + deltaX
-            newWidth = element.dimensions.width - deltaX
-            newHeight = element.dimensions.height + deltaY
+            newX = frame.position.x + deltaX
+            newWidth = frame.dimensions.width - deltaX
+            newHeight = frame.dimensions.height + deltaY
             break
           case 'left':
-            newX = element.position.x + deltaX
-            newWidth = element.dimensions.width - deltaX
+            newX = frame.position.x + deltaX
+            newWidth = frame.dimensions.width - deltaX
             break
         }
 
+        // Text boxes that resize to fit take their height from the text at the new width
+        const [element] = elements
+        if (!isGroup && element?.type === 'text' && element.autofit === 'resize') {
+          const resized: TextElement = {
+            ...element,
+            dimensions: { width: newWidth, height: newHeight },
+          }
+          newY = frame.position.y
+          newHeight = getAutofitHeight(resized, SlideCanvasRenderer.fitText(resized, theme))
+        }
+
         // Ensure minimum size
         if (newWidth >= 20 && newHeight >= 20 && currentSlideId) {
-          updateElement(currentPresentationId, currentSlideId, element.id, {
-            position: { x: newX, y: newY },
-            dimensions: { width: newWidth, height: newHeight },
-          })
-          setHasInteractionChanges(true)
+          if (isGroup) {
+            // Scale every member of the group with the group frame
+            const newFrame: ElementFrame = {
+              position: { x: newX, y: newY },
+              dimensions: { width: newWidth, height: newHeight },
+              rotation: 0,
+            }
+            updateElements(
+              currentPresentationId,
+              currentSlideId,
+              resizeGroup(elements, frame, newFrame)
+            )
+            setHasInteractionChanges(true)
+          } else if (element) {
+            updateElement(currentPresentationId, currentSlideId, element.id, {
+              position: { x: newX, y: newY },
+              dimensions: { width: newWidth, height: newHeight },
+            })
+            setHasInteractionChanges(true)
+          }
         }
       }
 
       // Handle rotation
       if (interactionMode === 'rotating' && resizeStart && currentSlideId) {
-        const { element } = resizeStart
+        const { frame, elements, isGroup } = resizeStart
         const centerX =
-          element.position.x + element.dimensions.width / 2
+          frame.position.x + frame.dimensions.width / 2
         const centerY =
-          element.position.y + element.dimensions.height / 2
+          frame.position.y + frame.dimensions.height / 2
 
         const angle = Math.atan2(slidePos.y - centerY, slidePos.x - centerX)
         const degrees = (angle * 180) / Math.PI + 90 // Offset by 90 to align with top handle
 
-        updateElement(currentPresentationId, currentSlideId, element.id, {
-          rotation: Math.round(degrees),
-        })
+        const [element] = elements
+        if (isGroup) {
+          // Turn the whole group around its center, from where it was when rotation started
+          updateElements(
+            currentPresentationId,
+            currentSlideId,
+            rotateGroup(elements, frame, Math.round(degrees))
+          )
+        } else if (element) {
+          updateElement(currentPresentationId, currentSlideId, element.id, {
+            rotation: Math.round(degrees),
+          })
+        }
         setHasInteractionChanges(true)
       }
 
@@ -503,6 +795,19 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
       if (interactionMode === 'drawing' && shapeDrawStart) {
         setShapeDrawCurrent(slidePos)
       }
+
+      // Handle connector drawing preview
+      if (interactionMode === 'drawing' && connectorDraft) {
+        setConnectorDraft({ start: connectorDraft.start, end: getSnappedEndpoint(slidePos) })
+      }
+
+      // Extend the pen stroke, skipping points too close to the last one
+      if (interactionMode === 'drawing' && penStroke) {
+        const last = penStroke[penStroke.length - 1]
+        if (!last || Math.hypot(slidePos.x - last.x, slidePos.y - last.y) >= 2 / viewport.zoom) {
+          setPenStroke([...penStroke, slidePos])
+        }
+      }
     },
     [
       currentSlide,
@@ -517,26 +822,27 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
       viewport.zoom,
       selectedElementIds,
       shapeDrawStart,
+      connectorDraft,
+      draggedConnectorEnd,
+      cropDrag,
+      penStroke,
       getCanvasMousePosition,
       canvasToSlideCoords,
       getElementAtPoint,
       getResizeHandleAtPoint,
+      getConnectorHandleAtPoint,
+      getCropHandleAtPoint,
+      getSnappedEndpoint,
       setHoveredElement,
       pan,
       updateElement,
       updateElements,
       updateSelectionBox,
       canvasRef,
+      theme,
     ]
   )
 
-  /**
-   * Generate a unique ID for new elements
-   */
-  const generateId = useCallback(() => {
-    return `${String(Date.now())}-${Math.random().toString(36).slice(2, 11)}`
-  }, [])
-
   /**
    * Handle mouse up on canvas
    */
@@ -550,7 +856,7 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
         const minY = Math.min(selectionBox.startY, selectionBox.endY)
         const maxY = Math.max(selectionBox.startY, selectionBox.endY)
 
-        const boxSelectedIds = currentSlide.elements
+        const intersectingIds = currentSlide.elements
           .filter((element) => {
             const elX = element.position.x
             const elY = element.position.y
@@ -561,6 +867,8 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
             return elX < maxX && elMaxX > minX && elY < maxY && elMaxY > minY
           })
           .map((el) => el.id)
+        // Touching any member of a group selects the whole group
+        const boxSelectedIds = expandToGroups(currentSlide.elements, intersectingIds)
 
         if (boxSelectedIds.length > 0) {
           if (selectionBoxAdditive.current) {
@@ -600,8 +908,8 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
           opacity: 1,
           locked: false,
           shapeType: activeShapeType,
-          fillColor: '#f97316',
-          strokeColor: '#ea580c',
+          fillColor: themeColorRef('primary'),
+          strokeColor: themeColorRef('secondary'),
           strokeWidth: 2,
           cornerRadius: 0,
         }
@@ -618,6 +926,49 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
       setShapeDrawCurrent(null)
     }
 
+    // Handle connector drawing completion
+    if (interactionMode === 'drawing' && connectorDraft && currentPresentationId && currentSlideId) {
+      const { start, end } = connectorDraft
+      const length = Math.hypot(
+        end.position.x - start.position.x,
+        end.position.y - start.position.y
+      )
+
+      // Only create a connector with meaningful length (at least 10px)
+      if (length >= 10) {
+        recordSnapshot('Add connector')
+        const connector = createConnectorElement(
+          generateId(),
+          start,
+          end,
+          currentSlide?.elements.length ?? 0,
+          currentSlide?.elements
+        )
+        addElement(currentPresentationId, currentSlideId, connector)
+        setActiveTool('select')
+        selectElement(connector.id)
+      }
+
+      setConnectorDraft(null)
+    }
+
+    // Handle freeform stroke completion
+    if (interactionMode === 'drawing' && penStroke && currentPresentationId && currentSlideId) {
+      const freeform = createFreeformShape(
+        generateId(),
+        penStroke,
+        currentSlide?.elements.length ?? 0
+      )
+      if (freeform) {
+        recordSnapshot('Add freeform shape')
+        addElement(currentPresentationId, currentSlideId, freeform)
+        setActiveTool('select')
+        selectElement(freeform.id)
+      }
+
+      setPenStroke(null)
+    }
+
     // Reset interaction state
     setInteractionMode('idle')
     setActiveResizeHandle(null)
@@ -625,6 +976,8 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
     setElementStartPositions(new Map())
     setActiveHandle(null)
     setResizeStart(null)
+    setDraggedConnectorEnd(null)
+    setCropDrag(null)
     setHasInteractionChanges(false)
 
     if (canvasRef.current) {
@@ -647,6 +1000,8 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
     activeShapeType,
     shapeDrawStart,
     shapeDrawCurrent,
+    connectorDraft,
+    penStroke,
     selectElement,
     selectElements,
     clearSelectionBox,
@@ -681,10 +1036,12 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
    */
   const handleMouseLeave = useCallback(() => {
     setHoveredElement(null)
-    // Cancel shape drawing on mouse leave
+    // Cancel shape, connector and pen drawing on mouse leave
     if (interactionMode === 'drawing') {
       setShapeDrawStart(null)
       setShapeDrawCurrent(null)
+      setConnectorDraft(null)
+      setPenStroke(null)
       setInteractionMode('idle')
     } else if (interactionMode !== 'idle') {
       handleMouseUp()
@@ -692,7 +1049,8 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
   }, [setHoveredElement, interactionMode, handleMouseUp, setInteractionMode])
 
   /**
-   * Handle double-click on canvas - enter text edit mode for text elements
+   * Handle double-click on canvas - enter text edit mode for text elements,
+   * edit the clicked cell of a table, or crop an image
    */
   const handleDoubleClick = useCallback(
     (event: React.MouseEvent<HTMLCanvasElement>) => {
@@ -701,6 +1059,22 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
       const canvasPos = getCanvasMousePosition(event)
       const clickedElement = getElementAtPoint(canvasPos.x, canvasPos.y)
 
+      // Double-clicking an image crops it
+      if (clickedElement?.type === 'image' && !clickedElement.locked) {
+        startCropping(clickedElement.id)
+        return
+      }
+
+      if (clickedElement?.type === 'table' && !clickedElement.locked) {
+        const slidePos = canvasToSlideCoords(canvasPos.x, canvasPos.y)
+        const cell = getCellAtPoint(clickedElement, slidePos)
+        if (cell) {
+          setEditingCell({ elementId: clickedElement.id, ...cell })
+          selectTableCell(clickedElement.id, cell)
+        }
+        return
+      }
+
       // If double-clicking on a text element, enter edit mode
       if (clickedElement?.type === 'text') {
         setEditingTextElementId(clickedElement.id)
@@ -717,15 +1091,104 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
       currentPresentationId,
       getCanvasMousePosition,
       getElementAtPoint,
+      canvasToSlideCoords,
       selectElement,
+      selectTableCell,
+      startCropping,
     ]
   )
 
+  /**
+   * Get the table being edited in the cell editor, with the placement of the edited cell
+   */
+  const getEditingCell = useCallback(() => {
+    if (!editingCell || !currentSlide) return null
+    const table = currentSlide.elements.find(
+      (el): el is TableElement => el.id === editingCell.elementId && el.type === 'table'
+    )
+    const rects = table ? getCellRects(table) : []
+    const index = rects.findIndex(
+      (rect) => rect.row === editingCell.row && rect.col === editingCell.col
+    )
+    const rect = rects[index]
+    return table && rect ? { table, rect, rects, index } : null
+  }, [editingCell, currentSlide])
+
+  /**
+   * Save the text of the edited cell, recording history only when it changed
+   */
+  const saveEditedCell = useCallback(
+    (content: string) => {
+      const editing = getEditingCell()
+      if (!editing || !currentPresentationId || !currentSlideId) return
+      const { table, rect } = editing
+      if (rect.cell.content === content) return
+      recordSnapshot('Edit table cell')
+      updateElement(
+        currentPresentationId,
+        currentSlideId,
+        table.id,
+        setCellContent(table, rect.row, rect.col, content)
+      )
+    },
+    [getEditingCell, currentPresentationId, currentSlideId, recordSnapshot, updateElement]
+  )
+
+  /**
+   * Handle cell editing complete
+   */
+  const handleCellComplete = useCallback(
+    (content: string) => {
+      saveEditedCell(content)
+      setEditingCell(null)
+    },
+    [saveEditedCell]
+  )
+
+  /**
+   * Handle Tab navigation from the cell editor: save, then edit the next or previous cell
+   */
+  const handleCellNavigate = useCallback(
+    (content: string, direction: 1 | -1) => {
+      const editing = getEditingCell()
+      saveEditedCell(content)
+      const next = editing?.rects[editing.index + direction]
+      if (editing && next) {
+        setEditingCell({ elementId: editing.table.id, row: next.row, col: next.col })
+        selectTableCell(editing.table.id, { row: next.row, col: next.col })
+      } else {
+        setEditingCell(null)
+      }
+    },
+    [getEditingCell, saveEditedCell, selectTableCell]
+  )
+
+  /**
+   * Handle cell editing cancel
+   */
+  const handleCellCancel = useCallback(() => {
+    setEditingCell(null)
+  }, [])
+
+  // Cell shown in the cell editor, with the text style of its cell
+  const editedCell = getEditingCell()
+  const editedCellText = editedCell ? getCellTextElement(editedCell.table, editedCell.rect) : null
+
+  /**
+   * Get the current editing text element
+   */
+  const getEditingTextElement = useCallback(() => {
+    if (!editingTextElementId || !currentSlide) return null
+    return currentSlide.elements.find(
+      (el) => el.id === editingTextElementId && el.type === 'text'
+    ) as TextElement | undefined
+  }, [editingTextElementId, currentSlide])
+
   /**
    * Handle text editing complete - create or update text element
    */
   const handleTextComplete = useCallback(
-    (content: string) => {
+    (content: string, runs: TextRun[], paragraphs: TextParagraph[]) => {
       if (!currentPresentationId || !currentSlideId || !textEditPosition) {
         setIsTextEditing(false)
         setTextEditPosition(null)
@@ -735,31 +1198,35 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
 
       if (editingTextElementId) {
         // Update existing text element
+        const element = getEditingTextElement()
+        const updates: Partial<TextElement> = { content, runs, paragraphs }
+        if (element?.autofit === 'resize') {
+          const edited: TextElement = { ...element, content, runs, paragraphs }
+          updates.dimensions = {
+            ...element.dimensions,
+            height: getAutofitHeight(edited, SlideCanvasRenderer.fitText(edited, theme)),
+          }
+        }
         recordSnapshot('Edit text')
-        updateElement(currentPresentationId, currentSlideId, editingTextElementId, {
-          content,
-        })
+        updateElement(currentPresentationId, currentSlideId, editingTextElementId, updates)
         selectElement(editingTextElementId)
       } else {
         // Create new text element
         recordSnapshot('Add text')
         const newTextElement: TextElement = {
-          id: generateId(),
-          type: 'text',
-          position: textEditPosition,
-          dimensions: { width: 200, height: 50 },
-          rotation: 0,
-          zIndex: currentSlide?.elements.length ?? 0,
-          opacity: 1,
-          locked: false,
+          ...createDefaultTextElement(
+            generateId(),
+            textEditPosition,
+            currentSlide?.elements.length ?? 0
+          ),
           content,
-          fontSize: 24,
-          fontFamily: 'Inter, system-ui, sans-serif',
-          fontWeight: 'normal',
-          fontStyle: 'normal',
-          textAlign: 'left',
-          color: '#1e293b',
+          ...(hasRunFormatting(runs) && { runs }),
+          ...(hasParagraphFormatting(paragraphs) && { paragraphs }),
         }
+        newTextElement.dimensions.height = getAutofitHeight(
+          newTextElement,
+          SlideCanvasRenderer.fitText(newTextElement, theme)
+        )
         addElement(currentPresentationId, currentSlideId, newTextElement)
         selectElement(newTextElement.id)
       }
@@ -782,9 +1249,24 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
       recordSnapshot,
       generateId,
       setActiveTool,
+      getEditingTextElement,
+      theme,
     ]
   )
 
+  /**
+   * Measure how the text in the overlay fits the box being edited,
+   * for the overlay's autofit preview
+   */
+  const fitEditedText = useCallback(
+    (content: string, runs: TextRun[], paragraphs: TextParagraph[]) => {
+      const element =
+        getEditingTextElement() ?? createDefaultTextElement('', textEditPosition ?? { x: 0, y: 0 }, 0)
+      return SlideCanvasRenderer.fitText({ ...element, content, runs, paragraphs }, theme)
+    },
+    [getEditingTextElement, textEditPosition, theme]
+  )
+
   /**
    * Handle text editing cancel
    */
@@ -979,16 +1461,6 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
     ]
   )
 
-  /**
-   * Get the current editing text element
-   */
-  const getEditingTextElement = useCallback(() => {
-    if (!editingTextElementId || !currentSlide) return null
-    return currentSlide.elements.find(
-      (el) => el.id === editingTextElementId && el.type === 'text'
-    ) as TextElement | undefined
-  }, [editingTextElementId, currentSlide])
-
   // Re-render when slide or slide elements change
   useEffect(() => {
     if (isReady && currentSlide) {
@@ -1115,7 +1587,13 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
       onDragOver={handleDragOverEvent}
       onDrop={handleDrop}
     >
-      {!presentation ? (
+      {!presentation && !presentationsLoaded ? (
+        // Stored presentations are still loading
+        <div className="text-center text-secondary-500" role="status" data-testid="presentations-loading">
+          <Loader2 className="w-8 h-8 mx-auto mb-4 animate-spin text-secondary-400" aria-hidden="true" />
+          <p className="text-sm">Loading presentations…</p>
+        </div>
+      ) : !presentation ? (
         // No presentation selected
         <div className="text-center text-secondary-500" role="status">
           <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-secondary-200 flex items-center justify-center" aria-hidden="true">
@@ -1246,16 +1724,53 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
               canvasWidth={SLIDE_WIDTH}
               canvasHeight={SLIDE_HEIGHT}
               initialContent={getEditingTextElement()?.content ?? ''}
+              initialRuns={getTextRuns(getEditingTextElement() ?? { content: '' })}
+              initialParagraphs={getTextParagraphs(getEditingTextElement() ?? { content: '' })}
               fontSize={getEditingTextElement()?.fontSize ?? 24}
-              fontFamily={
-                getEditingTextElement()?.fontFamily ?? 'Inter, system-ui, sans-serif'
-              }
-              color={getEditingTextElement()?.color ?? '#1e293b'}
+              fontFamily={resolveThemeFont(
+                getEditingTextElement()?.fontFamily ?? THEME_FONT_TOKEN,
+                theme
+              )}
+              fontWeight={getEditingTextElement()?.fontWeight ?? 'normal'}
+              fontStyle={getEditingTextElement()?.fontStyle ?? 'normal'}
+              color={resolveThemeColor(getEditingTextElement()?.color ?? themeColorRef('text'), theme)}
               textAlign={getEditingTextElement()?.textAlign ?? 'left'}
+              lineSpacing={getEditingTextElement()?.lineSpacing ?? DEFAULT_LINE_SPACING}
+              autofit={
+                editingTextElementId ? (getEditingTextElement()?.autofit ?? 'none') : 'resize'
+              }
+              fitText={fitEditedText}
               onComplete={handleTextComplete}
               onCancel={handleTextCancel}
             />
           )}
+          {/* Cell editor for editing table cells */}
+          {editedCell && editedCellText && (
+            <TableCellEditor
+              key={`${editedCell.table.id}-${String(editedCell.rect.row)}-${String(editedCell.rect.col)}`}
+              position={{
+                x: editedCell.table.position.x + editedCell.rect.x,
+                y: editedCell.table.position.y + editedCell.rect.y,
+              }}
+              dimensions={{ width: editedCell.rect.width, height: editedCell.rect.height }}
+              viewport={viewport}
+              canvasWidth={SLIDE_WIDTH}
+              canvasHeight={SLIDE_HEIGHT}
+              initialContent={editedCell.rect.cell.content}
+              fontSize={editedCellText.fontSize}
+              fontFamily={resolveThemeFont(editedCellText.fontFamily, theme)}
+              fontWeight={editedCellText.fontWeight}
+              color={resolveThemeColor(editedCellText.color, theme)}
+              backgroundColor={resolveThemeColor(
+                getCellFillColor(editedCell.table, editedCell.rect),
+                theme
+              )}
+              textAlign={editedCellText.textAlign}
+              onComplete={handleCellComplete}
+              onNavigate={handleCellNavigate}
+              onCancel={handleCellCancel}
+            />
+          )}
           {/* Shape drawing preview overlay */}
           {shapeDrawStart && shapeDrawCurrent && interactionMode === 'drawing' && (
             <svg
@@ -1320,11 +1835,74 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
                       />
                     )
                   default:
-                    return null
+                    // Shape library outlines
+                    return (
+                      <path
+                        d={serializePathData(
+                          getShapeOutline({
+                            position: { x, y },
+                            dimensions: { width, height },
+                            shapeType: activeShapeType,
+                          })
+                        )}
+                        fill="rgba(249, 115, 22, 0.3)"
+                        stroke="#f97316"
+                        strokeWidth="2"
+                        strokeDasharray="5,5"
+                      />
+                    )
                 }
               })()}
             </svg>
           )}
+          {/* Pen stroke preview overlay */}
+          {penStroke && interactionMode === 'drawing' && (
+            <svg
+              className="absolute top-0 left-0 pointer-events-none"
+              width={SLIDE_WIDTH}
+              height={SLIDE_HEIGHT}
+              data-testid="pen-preview"
+            >
+              <polyline
+                points={penStroke.map((p) => `${String(p.x)},${String(p.y)}`).join(' ')}
+                fill="none"
+                stroke="#f97316"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          )}
+          {/* Connector drawing preview overlay, marking ends attached to connection points */}
+          {connectorDraft && interactionMode === 'drawing' && (
+            <svg
+              className="absolute top-0 left-0 pointer-events-none"
+              width={SLIDE_WIDTH}
+              height={SLIDE_HEIGHT}
+              data-testid="connector-preview"
+            >
+              <line
+                x1={connectorDraft.start.position.x}
+                y1={connectorDraft.start.position.y}
+                x2={connectorDraft.end.position.x}
+                y2={connectorDraft.end.position.y}
+                stroke="#f97316"
+                strokeWidth="2"
+                strokeDasharray="5,5"
+              />
+              {[connectorDraft.start, connectorDraft.end]
+                .filter((endpoint) => endpoint.attachment)
+                .map((endpoint, index) => (
+                  <circle
+                    key={index}
+                    cx={endpoint.position.x}
+                    cy={endpoint.position.y}
+                    r={5}
+                    fill="#f97316"
+                  />
+                ))}
+            </svg>
+          )}
         </div>
       )}
 
@@ -1377,6 +1955,10 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
             activeTool === 'text' ? 'bg-primary-100 text-primary-600' :
             activeTool === 'shape' ? 'bg-purple-100 text-purple-600' :
             activeTool === 'image' ? 'bg-green-100 text-green-600' :
+            activeTool === 'table' ? 'bg-sky-100 text-sky-600' :
+            activeTool === 'chart' ? 'bg-rose-100 text-rose-600' :
+            activeTool === 'connector' ? 'bg-teal-100 text-teal-600' :
+            activeTool === 'pen' ? 'bg-indigo-100 text-indigo-600' :
             activeTool === 'pan' ? 'bg-amber-100 text-amber-600' :
             'bg-secondary-100 text-secondary-600'
           }`}>
@@ -1407,6 +1989,21 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
                     <line x1="5" y1="19" x2="19" y2="5" strokeWidth={2} strokeLinecap="round" />
                   </svg>
                 )}
+                {!['rectangle', 'circle', 'triangle', 'line'].includes(activeShapeType) && (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d={serializePathData(
+                        getShapeOutline({
+                          position: { x: 3, y: 4 },
+                          dimensions: { width: 18, height: 16 },
+                          shapeType: activeShapeType,
+                        })
+                      )}
+                    />
+                  </svg>
+                )}
               </>
             )}
             {activeTool === 'image' && (
@@ -1414,6 +2011,27 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
               </svg>
             )}
+            {activeTool === 'table' && (
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <rect x="3" y="4" width="18" height="16" rx="2" strokeWidth={2} />
+                <path strokeLinecap="round" strokeWidth={2} d="M3 10h18M3 15h18M9 4v16M15 4v16" />
+              </svg>
+            )}
+            {activeTool === 'chart' && (
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 20h16M7 16v-5M12 16V6M17 16v-8" />
+              </svg>
+            )}
+            {activeTool === 'connector' && (
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 19L19 5m0 0h-8m8 0v8" />
+              </svg>
+            )}
+            {activeTool === 'pen' && (
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 18c3-6 6 2 9-4s4-6 7-8" />
+              </svg>
+            )}
             {activeTool === 'pan' && (
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 11.5V14m0-2.5v-6a1.5 1.5 0 113 0m-3 6a1.5 1.5 0 00-3 0v2a7.5 7.5 0 0015 0v-5a1.5 1.5 0 00-3 0m-6-3V11m0-5.5v-1a1.5 1.5 0 013 0v1m0 0V11m0-5.5a1.5 1.5 0 013 0v3m0 0V11" />
@@ -1424,20 +2042,51 @@ export function CanvasArea({ className = '', isTablet = false }: CanvasAreaProps
           <div className="flex flex-col">
             <span className="text-sm font-semibold text-secondary-800">
               {activeTool === 'text' && 'Text Tool'}
-              {activeTool === 'shape' && `${activeShapeType.charAt(0).toUpperCase() + activeShapeType.slice(1)} Shape`}
+              {activeTool === 'shape' && `${SHAPE_TYPE_LABELS[activeShapeType]} Shape`}
               {activeTool === 'image' && 'Image Tool'}
+              {activeTool === 'table' && 'Table Tool'}
+              {activeTool === 'chart' && 'Chart Tool'}
+              {activeTool === 'connector' && 'Connector Tool'}
+              {activeTool === 'pen' && 'Pen Tool'}
               {activeTool === 'pan' && 'Pan Tool'}
             </span>
             <span className="text-xs text-secondary-500">
               {activeTool === 'text' && 'Click to add text'}
               {activeTool === 'shape' && 'Click and drag to draw'}
               {activeTool === 'image' && 'Click to add image'}
+              {activeTool === 'table' && 'Click to add table'}
+              {activeTool === 'chart' && 'Click to add chart'}
+              {activeTool === 'connector' && 'Drag between shapes to connect them'}
+              {activeTool === 'pen' && 'Drag to draw; end at the start to close'}
               {activeTool === 'pan' && 'Drag to pan canvas'}
             </span>
           </div>
         </div>
       )}
 
+      {/* Crop mode indicator */}
+      {croppingElementId && currentSlide && (
+        <div
+          className="absolute top-4 right-4 bg-white/95 backdrop-blur-sm rounded-lg px-3 py-2 shadow-md border border-secondary-200 flex items-center gap-2"
+          style={{ animation: 'slideIn 0.2s ease-out' }}
+          role="status"
+          aria-live="polite"
+          data-testid="crop-mode-indicator"
+        >
+          <div className="w-8 h-8 rounded-md flex items-center justify-center bg-emerald-100 text-emerald-600">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 2v14a2 2 0 002 2h14M2 6h14a2 2 0 012 2v14" />
+            </svg>
+          </div>
+          <div className="flex flex-col">
+            <span className="text-sm font-semibold text-secondary-800">Crop Image</span>
+            <span className="text-xs text-secondary-500">
+              Drag the handles or the image; press Enter to finish
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Drag overlay indicator */}
       {isDragOver && (
         <div
@@ -0,0 +1,232 @@
+/**
+ * ExportHtmlDialog Component
+ * Dialog for exporting presentations as a single-file web slideshow, with options
+ * for speaker notes and embedded fonts.
+ *
+ * WCAG 2.1 AA Compliant:
+ * - Focus trap keeps focus within modal when open
+ * - Focus returns to trigger element on close
+ * - Escape key closes the dialog
+ * - Proper ARIA attributes for dialog pattern
+ * - Progress updates announced to screen readers
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@components/ui/dialog'
+import { Button } from '@components/ui/button'
+import { Label } from '@components/ui/label'
+import { Globe, Loader2 } from 'lucide-react'
+import type { Presentation } from '@/types/presentation'
+import { exportToHtml, DEFAULT_HTML_OPTIONS } from '@utils/htmlExporter'
+
+/**
+ * Props for the ExportHtmlDialog component
+ */
+interface ExportHtmlDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean
+  /** Callback when the dialog is closed */
+  onClose: () => void
+  /** The presentation to export */
+  presentation: Presentation | null
+  /** Callback when export is complete */
+  onExportComplete?: (success: boolean, error?: string) => void
+}
+
+/**
+ * Dialog component for exporting presentations as a web slideshow.
+ * Allows the user to choose whether notes and fonts are included.
+ */
+export function ExportHtmlDialog({
+  isOpen,
+  onClose,
+  presentation,
+  onExportComplete,
+}: ExportHtmlDialogProps) {
+  const [includeNotes, setIncludeNotes] = useState(DEFAULT_HTML_OPTIONS.includeNotes)
+  const [embedFonts, setEmbedFonts] = useState(DEFAULT_HTML_OPTIONS.embedFonts)
+  const [isExporting, setIsExporting] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState('')
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setIncludeNotes(DEFAULT_HTML_OPTIONS.includeNotes)
+      setEmbedFonts(DEFAULT_HTML_OPTIONS.embedFonts)
+      setIsExporting(false)
+      setProgress(0)
+      setError('')
+    }
+  }, [isOpen])
+
+  // Handle export
+  const handleExport = useCallback(async () => {
+    if (!presentation) {
+      setError('No presentation selected')
+      return
+    }
+
+    setIsExporting(true)
+    setProgress(0)
+    setError('')
+
+    const result = await exportToHtml(presentation, {
+      includeNotes,
+      embedFonts,
+      onProgress: setProgress,
+    })
+
+    setIsExporting(false)
+
+    if (result.success) {
+      onExportComplete?.(true)
+      onClose()
+    } else {
+      setError(result.error || 'Export failed')
+      onExportComplete?.(false, result.error)
+    }
+  }, [presentation, includeNotes, embedFonts, onClose, onExportComplete])
+
+  const slideCount = presentation?.slides.length ?? 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isExporting && onClose()}>
+      <DialogContent
+        data-testid="export-html-dialog"
+        aria-describedby="export-html-description"
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5" aria-hidden="true" />
+            Export as Web Slideshow
+          </DialogTitle>
+          <DialogDescription id="export-html-description">
+            Export your presentation as a single HTML file that plays in any web browser,
+            with the same keyboard navigation and transitions as presentation mode.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          {/* Presentation Info */}
+          <div className="rounded-md bg-secondary-50 p-3">
+            <p className="text-sm text-secondary-700">
+              <span className="font-medium">Presentation:</span>{' '}
+              {presentation?.name ?? 'None selected'}
+            </p>
+            <p className="text-sm text-secondary-600 mt-1">
+              {slideCount} slide{slideCount !== 1 ? 's' : ''}
+            </p>
+          </div>
+
+          {/* Content Options */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="html-include-notes"
+                checked={includeNotes}
+                onChange={(e) => { setIncludeNotes(e.target.checked); }}
+                disabled={isExporting}
+                className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                data-testid="html-include-notes-checkbox"
+              />
+              <Label htmlFor="html-include-notes" className="text-sm font-normal cursor-pointer">
+                Include speaker notes
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="html-embed-fonts"
+                checked={embedFonts}
+                onChange={(e) => { setEmbedFonts(e.target.checked); }}
+                disabled={isExporting}
+                className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                data-testid="html-embed-fonts-checkbox"
+              />
+              <Label htmlFor="html-embed-fonts" className="text-sm font-normal cursor-pointer">
+                Embed fonts (larger file, text looks the same everywhere)
+              </Label>
+            </div>
+          </div>
+
+          {/* Progress Bar */}
+          {isExporting && (
+            <div className="space-y-2" role="status" aria-live="polite">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-secondary-600">Exporting...</span>
+                <span className="text-secondary-700 font-medium">{progress}%</span>
+              </div>
+              <div className="h-2 w-full rounded-full bg-secondary-200 overflow-hidden">
+                <div
+                  className="h-full bg-primary-500 transition-all duration-300 ease-out"
+                  style={{ width: `${progress}%` }}
+                  role="progressbar"
+                  aria-valuenow={progress}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-label="Export progress"
+                />
+              </div>
+              <p className="text-xs text-secondary-500 sr-only">
+                Export progress: {progress} percent complete
+              </p>
+            </div>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div
+              className="rounded-md bg-error-50 border border-error-200 p-3"
+              role="alert"
+              aria-live="assertive"
+              data-testid="export-error"
+            >
+              <p className="text-sm text-error-700">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={isExporting}
+            data-testid="export-cancel-button"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting || !presentation || slideCount === 0}
+            data-testid="export-html-button"
+          >
+            {isExporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                Exporting...
+              </>
+            ) : (
+              <>
+                <Globe className="mr-2 h-4 w-4" aria-hidden="true" />
+                Export HTML
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ExportHtmlDialog
@@ -1,6 +1,6 @@
 /**
  * ExportImageDialog Component
- * Dialog for exporting slides as PNG/JPG images with format and resolution options.
+ * Dialog for exporting slides as PNG/JPG/SVG images with format and resolution options.
  *
  * WCAG 2.1 AA Compliant:
  * - Focus trap keeps focus within modal when open
@@ -33,6 +33,8 @@ import type { Presentation } from '@/types/presentation'
 import {
   exportToImages,
   estimateImageSize,
+  DEFAULT_IMAGE_OPTIONS,
+  FORMAT_DESCRIPTIONS,
   FORMAT_LABELS,
   RANGE_LABELS,
   RESOLUTION_SETTINGS,
@@ -72,6 +74,7 @@ export function ExportImageDialog({
   const [resolution, setResolution] = useState<ResolutionPreset>('high')
   const [range, setRange] = useState<ExportRange>('current')
   const [jpegQuality, setJpegQuality] = useState(90)
+  const [includeManifest, setIncludeManifest] = useState(DEFAULT_IMAGE_OPTIONS.includeManifest)
   const [isExporting, setIsExporting] = useState(false)
   const [progress, setProgress] = useState(0)
   const [error, setError] = useState('')
@@ -83,6 +86,7 @@ export function ExportImageDialog({
       setResolution('high')
       setRange('current')
       setJpegQuality(90)
+      setIncludeManifest(DEFAULT_IMAGE_OPTIONS.includeManifest)
       setIsExporting(false)
       setProgress(0)
       setError('')
@@ -106,6 +110,7 @@ export function ExportImageDialog({
       resolution,
       range,
       jpegQuality,
+      includeManifest,
       onProgress: setProgress,
     }
     if (currentSlideId) {
@@ -123,7 +128,7 @@ export function ExportImageDialog({
       setError(result.error || 'Export failed')
       onExportComplete?.(false, 0, result.error)
     }
-  }, [presentation, format, resolution, range, jpegQuality, currentSlideId, onClose, onExportComplete])
+  }, [presentation, format, resolution, range, jpegQuality, includeManifest, currentSlideId, onClose, onExportComplete])
 
   // Calculate estimated file size
   const slideCount = range === 'current' ? 1 : (presentation?.slides.length ?? 0)
@@ -147,7 +152,7 @@ export function ExportImageDialog({
             Export as Image
           </DialogTitle>
           <DialogDescription id="export-image-description">
-            Export your slides as PNG or JPG images. Configure format and resolution settings below.
+            Export your slides as PNG, JPG or SVG images. Configure format and resolution settings below.
           </DialogDescription>
         </DialogHeader>
 
@@ -185,7 +190,7 @@ export function ExportImageDialog({
             <p className="text-xs text-secondary-500">
               {range === 'current'
                 ? `Will export ${currentSlideName}`
-                : `Will export all ${totalSlideCount} slides as separate files`}
+                : `Will export all ${totalSlideCount} slides as a single ZIP file`}
             </p>
           </div>
 
@@ -209,35 +214,35 @@ export function ExportImageDialog({
               </SelectContent>
             </Select>
             <p className="text-xs text-secondary-500">
-              {format === 'png'
-                ? 'Lossless quality, best for graphics and text'
-                : 'Smaller file size, best for photos'}
+              {FORMAT_DESCRIPTIONS[format]}
             </p>
           </div>
 
-          {/* Resolution Selection */}
-          <div className="space-y-2">
-            <Label htmlFor="image-resolution">Resolution</Label>
-            <Select
-              value={resolution}
-              onValueChange={(value) => { setResolution(value as ResolutionPreset); }}
-              disabled={isExporting}
-            >
-              <SelectTrigger id="image-resolution" data-testid="image-resolution-select">
-                <SelectValue placeholder="Select resolution" />
-              </SelectTrigger>
-              <SelectContent>
-                {(Object.keys(RESOLUTION_SETTINGS) as ResolutionPreset[]).map((key) => (
-                  <SelectItem key={key} value={key} data-testid={`resolution-${key}`}>
-                    {RESOLUTION_SETTINGS[key].label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            <p className="text-xs text-secondary-500">
-              {RESOLUTION_SETTINGS[resolution].description}
-            </p>
-          </div>
+          {/* Resolution Selection (only for raster formats) */}
+          {format !== 'svg' && (
+            <div className="space-y-2">
+              <Label htmlFor="image-resolution">Resolution</Label>
+              <Select
+                value={resolution}
+                onValueChange={(value) => { setResolution(value as ResolutionPreset); }}
+                disabled={isExporting}
+              >
+                <SelectTrigger id="image-resolution" data-testid="image-resolution-select">
+                  <SelectValue placeholder="Select resolution" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RESOLUTION_SETTINGS) as ResolutionPreset[]).map((key) => (
+                    <SelectItem key={key} value={key} data-testid={`resolution-${key}`}>
+                      {RESOLUTION_SETTINGS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-secondary-500">
+                {RESOLUTION_SETTINGS[resolution].description}
+              </p>
+            </div>
+          )}
 
           {/* JPEG Quality Slider (only for JPEG format) */}
           {format === 'jpg' && (
@@ -260,6 +265,24 @@ export function ExportImageDialog({
             </div>
           )}
 
+          {/* Manifest Option (only for all slides) */}
+          {range === 'all' && (
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="image-include-manifest"
+                checked={includeManifest}
+                onChange={(e) => { setIncludeManifest(e.target.checked); }}
+                disabled={isExporting}
+                className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                data-testid="image-include-manifest-checkbox"
+              />
+              <Label htmlFor="image-include-manifest" className="text-sm font-normal cursor-pointer">
+                Include a manifest of slide titles and notes
+              </Label>
+            </div>
+          )}
+
           {/* Progress Bar */}
           {isExporting && (
             <div className="space-y-2" role="status" aria-live="polite">
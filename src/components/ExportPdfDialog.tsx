@@ -1,6 +1,10 @@
 /**
  * ExportPdfDialog Component
- * Dialog for exporting presentations to PDF format with layout and quality options.
+ * Dialog for exporting presentations to PDF format with layout and output options.
+ * Pages hold full slides, handouts or notes pages on A4, Letter or 16:9 paper, with
+ * optional headers, footers and page numbers. Slides are exported as vectors with
+ * selectable text, or as images at a chosen quality. Embedding web fonts needs a
+ * connection to the font CDN, which the dialog points out.
  *
  * WCAG 2.1 AA Compliant:
  * - Focus trap keeps focus within modal when open
@@ -20,6 +24,7 @@ import {
   DialogTitle,
 } from '@components/ui/dialog'
 import { Button } from '@components/ui/button'
+import { Input } from '@components/ui/input'
 import { Label } from '@components/ui/label'
 import {
   Select,
@@ -35,8 +40,15 @@ import {
   estimatePdfSize,
   QUALITY_LABELS,
   LAYOUT_LABELS,
+  PAPER_SIZE_LABELS,
+  PRINT_LAYOUT_LABELS,
+  RENDER_MODE_LABELS,
+  DEFAULT_PDF_OPTIONS,
   type PageLayout,
+  type PaperSize,
+  type PrintLayout,
   type QualitySetting,
+  type RenderMode,
 } from '@utils/pdfExporter'
 
 /**
@@ -55,7 +67,7 @@ interface ExportPdfDialogProps {
 
 /**
  * Dialog component for exporting presentations to PDF.
- * Allows the user to configure layout and quality settings.
+ * Allows the user to configure page layout, paper, output and quality settings.
  */
 export function ExportPdfDialog({
   isOpen,
@@ -63,9 +75,15 @@ export function ExportPdfDialog({
   presentation,
   onExportComplete,
 }: ExportPdfDialogProps) {
+  const [printLayout, setPrintLayout] = useState<PrintLayout>(DEFAULT_PDF_OPTIONS.printLayout)
   const [layout, setLayout] = useState<PageLayout>('landscape')
+  const [paperSize, setPaperSize] = useState<PaperSize>(DEFAULT_PDF_OPTIONS.paperSize)
+  const [renderMode, setRenderMode] = useState<RenderMode>(DEFAULT_PDF_OPTIONS.renderMode)
   const [quality, setQuality] = useState<QualitySetting>('high')
   const [includeNotes, setIncludeNotes] = useState(false)
+  const [header, setHeader] = useState('')
+  const [footer, setFooter] = useState('')
+  const [pageNumbers, setPageNumbers] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
   const [progress, setProgress] = useState(0)
   const [error, setError] = useState('')
@@ -73,15 +91,27 @@ export function ExportPdfDialog({
   // Reset form when dialog opens
   useEffect(() => {
     if (isOpen) {
+      setPrintLayout(DEFAULT_PDF_OPTIONS.printLayout)
       setLayout('landscape')
+      setPaperSize(DEFAULT_PDF_OPTIONS.paperSize)
+      setRenderMode(DEFAULT_PDF_OPTIONS.renderMode)
       setQuality('high')
       setIncludeNotes(false)
+      setHeader('')
+      setFooter('')
+      setPageNumbers(false)
       setIsExporting(false)
       setProgress(0)
       setError('')
     }
   }, [isOpen])
 
+  // Handouts and notes pages read best upright, full page slides sideways
+  const handlePrintLayoutChange = useCallback((value: PrintLayout) => {
+    setPrintLayout(value)
+    setLayout(value === 'slides' ? 'landscape' : 'portrait')
+  }, [])
+
   // Handle export
   const handleExport = useCallback(async () => {
     if (!presentation) {
@@ -95,8 +125,14 @@ export function ExportPdfDialog({
 
     const result = await exportToPdf(presentation, {
       layout,
+      paperSize,
+      printLayout,
+      renderMode,
       quality,
       includeNotes,
+      header,
+      footer,
+      pageNumbers,
       onProgress: setProgress,
     })
 
@@ -109,11 +145,24 @@ export function ExportPdfDialog({
       setError(result.error || 'Export failed')
       onExportComplete?.(false, result.error)
     }
-  }, [presentation, layout, quality, includeNotes, onClose, onExportComplete])
+  }, [
+    presentation,
+    layout,
+    paperSize,
+    printLayout,
+    renderMode,
+    quality,
+    includeNotes,
+    header,
+    footer,
+    pageNumbers,
+    onClose,
+    onExportComplete,
+  ])
 
   // Calculate estimated file size
   const estimatedSize = presentation
-    ? estimatePdfSize(presentation.slides.length, quality)
+    ? estimatePdfSize(presentation.slides.length, quality, renderMode)
     : '0 KB'
 
   const slideCount = presentation?.slides.length ?? 0
@@ -121,6 +170,7 @@ export function ExportPdfDialog({
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && !isExporting && onClose()}>
       <DialogContent
+        className="max-h-[90vh] overflow-y-auto"
         data-testid="export-pdf-dialog"
         aria-describedby="export-pdf-description"
       >
@@ -130,7 +180,7 @@ export function ExportPdfDialog({
             Export to PDF
           </DialogTitle>
           <DialogDescription id="export-pdf-description">
-            Export your presentation as a PDF document. Configure layout and quality settings below.
+            Export your presentation as a PDF document. Configure layout and output settings below.
           </DialogDescription>
         </DialogHeader>
 
@@ -146,76 +196,198 @@ export function ExportPdfDialog({
             </p>
           </div>
 
-          {/* Layout Selection */}
+          {/* Print Layout Selection */}
           <div className="space-y-2">
-            <Label htmlFor="pdf-layout">Page Layout</Label>
+            <Label htmlFor="pdf-print-layout">Print Layout</Label>
             <Select
-              value={layout}
-              onValueChange={(value) => { setLayout(value as PageLayout); }}
+              value={printLayout}
+              onValueChange={(value) => { handlePrintLayoutChange(value as PrintLayout); }}
               disabled={isExporting}
             >
-              <SelectTrigger id="pdf-layout" data-testid="pdf-layout-select">
-                <SelectValue placeholder="Select layout" />
+              <SelectTrigger id="pdf-print-layout" data-testid="pdf-print-layout-select">
+                <SelectValue placeholder="Select print layout" />
               </SelectTrigger>
               <SelectContent>
-                {(Object.keys(LAYOUT_LABELS) as PageLayout[]).map((key) => (
-                  <SelectItem key={key} value={key} data-testid={`layout-${key}`}>
-                    {LAYOUT_LABELS[key]}
+                {(Object.keys(PRINT_LAYOUT_LABELS) as PrintLayout[]).map((key) => (
+                  <SelectItem key={key} value={key} data-testid={`print-layout-${key}`}>
+                    {PRINT_LAYOUT_LABELS[key]}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
-            <p className="text-xs text-secondary-500">
-              {layout === 'landscape'
-                ? 'Best for standard 16:9 presentations'
-                : 'Better for printing on standard paper'}
-            </p>
           </div>
 
-          {/* Quality Selection */}
+          <div className="grid grid-cols-2 gap-3">
+            {/* Paper Size Selection */}
+            <div className="space-y-2">
+              <Label htmlFor="pdf-paper-size">Paper Size</Label>
+              <Select
+                value={paperSize}
+                onValueChange={(value) => { setPaperSize(value as PaperSize); }}
+                disabled={isExporting}
+              >
+                <SelectTrigger id="pdf-paper-size" data-testid="pdf-paper-size-select">
+                  <SelectValue placeholder="Select paper size" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PAPER_SIZE_LABELS) as PaperSize[]).map((key) => (
+                    <SelectItem key={key} value={key} data-testid={`paper-size-${key}`}>
+                      {PAPER_SIZE_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Layout Selection */}
+            <div className="space-y-2">
+              <Label htmlFor="pdf-layout">Orientation</Label>
+              <Select
+                value={layout}
+                onValueChange={(value) => { setLayout(value as PageLayout); }}
+                disabled={isExporting}
+              >
+                <SelectTrigger id="pdf-layout" data-testid="pdf-layout-select">
+                  <SelectValue placeholder="Select layout" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LAYOUT_LABELS) as PageLayout[]).map((key) => (
+                    <SelectItem key={key} value={key} data-testid={`layout-${key}`}>
+                      {LAYOUT_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-secondary-500">
+                {layout === 'landscape'
+                  ? 'Best for full page 16:9 slides'
+                  : 'Best for handouts and notes pages'}
+              </p>
+            </div>
+          </div>
+
+          {/* Output Selection */}
           <div className="space-y-2">
-            <Label htmlFor="pdf-quality">Export Quality</Label>
+            <Label htmlFor="pdf-render-mode">Output</Label>
             <Select
-              value={quality}
-              onValueChange={(value) => { setQuality(value as QualitySetting); }}
+              value={renderMode}
+              onValueChange={(value) => { setRenderMode(value as RenderMode); }}
               disabled={isExporting}
             >
-              <SelectTrigger id="pdf-quality" data-testid="pdf-quality-select">
-                <SelectValue placeholder="Select quality" />
+              <SelectTrigger id="pdf-render-mode" data-testid="pdf-render-mode-select">
+                <SelectValue placeholder="Select output" />
               </SelectTrigger>
               <SelectContent>
-                {(Object.keys(QUALITY_LABELS) as QualitySetting[]).map((key) => (
-                  <SelectItem key={key} value={key} data-testid={`quality-${key}`}>
-                    {QUALITY_LABELS[key]}
+                {(Object.keys(RENDER_MODE_LABELS) as RenderMode[]).map((key) => (
+                  <SelectItem key={key} value={key} data-testid={`render-mode-${key}`}>
+                    {RENDER_MODE_LABELS[key]}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
             <p className="text-xs text-secondary-500">
-              {quality === 'high'
-                ? 'Best for printing, larger file size'
-                : quality === 'medium'
-                  ? 'Good balance of quality and file size'
-                  : 'Smallest file size, lower image quality'}
+              {renderMode === 'vector'
+                ? 'Searchable text and sharp shapes in small files'
+                : 'Each slide as a picture, matching the editor exactly'}
+            </p>
+            <p className="text-xs text-secondary-500">
+              Web fonts such as Inter and DM Sans are downloaded from the jsDelivr CDN
+              to embed them. Without a connection, their text uses standard fonts.
             </p>
           </div>
 
-          {/* Include Notes Checkbox */}
+          {/* Quality Selection */}
+          {renderMode === 'raster' && (
+            <div className="space-y-2">
+              <Label htmlFor="pdf-quality">Export Quality</Label>
+              <Select
+                value={quality}
+                onValueChange={(value) => { setQuality(value as QualitySetting); }}
+                disabled={isExporting}
+              >
+                <SelectTrigger id="pdf-quality" data-testid="pdf-quality-select">
+                  <SelectValue placeholder="Select quality" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(QUALITY_LABELS) as QualitySetting[]).map((key) => (
+                    <SelectItem key={key} value={key} data-testid={`quality-${key}`}>
+                      {QUALITY_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-secondary-500">
+                {quality === 'high'
+                  ? 'Best for printing, larger file size'
+                  : quality === 'medium'
+                    ? 'Good balance of quality and file size'
+                    : 'Smallest file size, lower image quality'}
+              </p>
+            </div>
+          )}
+
+          {/* Header and Footer */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="pdf-header">Header</Label>
+              <Input
+                type="text"
+                id="pdf-header"
+                placeholder="Optional"
+                value={header}
+                onChange={(e) => { setHeader(e.target.value); }}
+                disabled={isExporting}
+                data-testid="pdf-header-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pdf-footer">Footer</Label>
+              <Input
+                type="text"
+                id="pdf-footer"
+                placeholder="Optional"
+                value={footer}
+                onChange={(e) => { setFooter(e.target.value); }}
+                disabled={isExporting}
+                data-testid="pdf-footer-input"
+              />
+            </div>
+          </div>
+
+          {/* Page Numbers Checkbox */}
           <div className="flex items-center gap-2">
             <input
               type="checkbox"
-              id="include-notes"
-              checked={includeNotes}
-              onChange={(e) => { setIncludeNotes(e.target.checked); }}
+              id="page-numbers"
+              checked={pageNumbers}
+              onChange={(e) => { setPageNumbers(e.target.checked); }}
               disabled={isExporting}
               className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
-              data-testid="include-notes-checkbox"
+              data-testid="page-numbers-checkbox"
             />
-            <Label htmlFor="include-notes" className="text-sm font-normal cursor-pointer">
-              Include slide notes
+            <Label htmlFor="page-numbers" className="text-sm font-normal cursor-pointer">
+              Number pages
             </Label>
           </div>
 
+          {/* Include Notes Checkbox */}
+          {printLayout === 'slides' && (
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="include-notes"
+                checked={includeNotes}
+                onChange={(e) => { setIncludeNotes(e.target.checked); }}
+                disabled={isExporting}
+                className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                data-testid="include-notes-checkbox"
+              />
+              <Label htmlFor="include-notes" className="text-sm font-normal cursor-pointer">
+                Include slide notes
+              </Label>
+            </div>
+          )}
+
           {/* Progress Bar */}
           {isExporting && (
             <div className="space-y-2" role="status" aria-live="polite">
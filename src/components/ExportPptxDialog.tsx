@@ -0,0 +1,234 @@
+/**
+ * ExportPptxDialog Component
+ * Dialog for exporting presentations to PowerPoint format, with options for
+ * speaker notes and slide transitions.
+ *
+ * WCAG 2.1 AA Compliant:
+ * - Focus trap keeps focus within modal when open
+ * - Focus returns to trigger element on close
+ * - Escape key closes the dialog
+ * - Proper ARIA attributes for dialog pattern
+ * - Progress updates announced to screen readers
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@components/ui/dialog'
+import { Button } from '@components/ui/button'
+import { Label } from '@components/ui/label'
+import { Presentation as PresentationIcon, Loader2 } from 'lucide-react'
+import type { Presentation } from '@/types/presentation'
+import { exportToPptx, DEFAULT_PPTX_OPTIONS } from '@utils/pptxExporter'
+
+/**
+ * Props for the ExportPptxDialog component
+ */
+interface ExportPptxDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean
+  /** Callback when the dialog is closed */
+  onClose: () => void
+  /** The presentation to export */
+  presentation: Presentation | null
+  /** Callback when export is complete, with the number of images that couldn't be included */
+  onExportComplete?: (success: boolean, error?: string, skippedImageCount?: number) => void
+}
+
+/**
+ * Dialog component for exporting presentations to PPTX.
+ * Allows the user to choose whether notes and transitions are included.
+ */
+export function ExportPptxDialog({
+  isOpen,
+  onClose,
+  presentation,
+  onExportComplete,
+}: ExportPptxDialogProps) {
+  const [includeNotes, setIncludeNotes] = useState(DEFAULT_PPTX_OPTIONS.includeNotes)
+  const [includeTransitions, setIncludeTransitions] = useState(
+    DEFAULT_PPTX_OPTIONS.includeTransitions
+  )
+  const [isExporting, setIsExporting] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState('')
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setIncludeNotes(DEFAULT_PPTX_OPTIONS.includeNotes)
+      setIncludeTransitions(DEFAULT_PPTX_OPTIONS.includeTransitions)
+      setIsExporting(false)
+      setProgress(0)
+      setError('')
+    }
+  }, [isOpen])
+
+  // Handle export
+  const handleExport = useCallback(async () => {
+    if (!presentation) {
+      setError('No presentation selected')
+      return
+    }
+
+    setIsExporting(true)
+    setProgress(0)
+    setError('')
+
+    const result = await exportToPptx(presentation, {
+      includeNotes,
+      includeTransitions,
+      onProgress: setProgress,
+    })
+
+    setIsExporting(false)
+
+    if (result.success) {
+      onExportComplete?.(true, undefined, result.skippedImageCount)
+      onClose()
+    } else {
+      setError(result.error || 'Export failed')
+      onExportComplete?.(false, result.error)
+    }
+  }, [presentation, includeNotes, includeTransitions, onClose, onExportComplete])
+
+  const slideCount = presentation?.slides.length ?? 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isExporting && onClose()}>
+      <DialogContent
+        data-testid="export-pptx-dialog"
+        aria-describedby="export-pptx-description"
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PresentationIcon className="h-5 w-5" aria-hidden="true" />
+            Export to PowerPoint
+          </DialogTitle>
+          <DialogDescription id="export-pptx-description">
+            Export your presentation as a PowerPoint file. Text, shapes, images, tables and
+            charts stay editable in PowerPoint.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          {/* Presentation Info */}
+          <div className="rounded-md bg-secondary-50 p-3">
+            <p className="text-sm text-secondary-700">
+              <span className="font-medium">Presentation:</span>{' '}
+              {presentation?.name ?? 'None selected'}
+            </p>
+            <p className="text-sm text-secondary-600 mt-1">
+              {slideCount} slide{slideCount !== 1 ? 's' : ''}
+            </p>
+          </div>
+
+          {/* Content Options */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="pptx-include-notes"
+                checked={includeNotes}
+                onChange={(e) => { setIncludeNotes(e.target.checked); }}
+                disabled={isExporting}
+                className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                data-testid="pptx-include-notes-checkbox"
+              />
+              <Label htmlFor="pptx-include-notes" className="text-sm font-normal cursor-pointer">
+                Include speaker notes
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="pptx-include-transitions"
+                checked={includeTransitions}
+                onChange={(e) => { setIncludeTransitions(e.target.checked); }}
+                disabled={isExporting}
+                className="h-4 w-4 rounded border-secondary-300 text-primary-600 focus:ring-primary-500"
+                data-testid="pptx-include-transitions-checkbox"
+              />
+              <Label htmlFor="pptx-include-transitions" className="text-sm font-normal cursor-pointer">
+                Include slide transitions
+              </Label>
+            </div>
+          </div>
+
+          {/* Progress Bar */}
+          {isExporting && (
+            <div className="space-y-2" role="status" aria-live="polite">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-secondary-600">Exporting...</span>
+                <span className="text-secondary-700 font-medium">{progress}%</span>
+              </div>
+              <div className="h-2 w-full rounded-full bg-secondary-200 overflow-hidden">
+                <div
+                  className="h-full bg-primary-500 transition-all duration-300 ease-out"
+                  style={{ width: `${progress}%` }}
+                  role="progressbar"
+                  aria-valuenow={progress}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-label="Export progress"
+                />
+              </div>
+              <p className="text-xs text-secondary-500 sr-only">
+                Export progress: {progress} percent complete
+              </p>
+            </div>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div
+              className="rounded-md bg-error-50 border border-error-200 p-3"
+              role="alert"
+              aria-live="assertive"
+              data-testid="export-error"
+            >
+              <p className="text-sm text-error-700">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={isExporting}
+            data-testid="export-cancel-button"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting || !presentation || slideCount === 0}
+            data-testid="export-pptx-button"
+          >
+            {isExporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                Exporting...
+              </>
+            ) : (
+              <>
+                <PresentationIcon className="mr-2 h-4 w-4" aria-hidden="true" />
+                Export PPTX
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ExportPptxDialog
@@ -0,0 +1,240 @@
+/**
+ * ImportPresentationsDialog Component
+ * Previews the presentations of an import file before they are added, showing which
+ * are new and which conflict with existing presentations, and lets the user choose
+ * per presentation whether to overwrite the existing one, keep both, or skip it.
+ * Content of the file that couldn't be converted, as from PowerPoint files, is listed.
+ *
+ * WCAG 2.1 AA Compliant:
+ * - Focus trap keeps focus within modal when open
+ * - Focus returns to trigger element on close
+ * - Escape key closes the dialog
+ * - Proper ARIA attributes for dialog pattern
+ * - Every choice has a label naming its presentation
+ */
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@components/ui/dialog'
+import { Button } from '@components/ui/button'
+import { Label } from '@components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@components/ui/select'
+import { AlertTriangle, Upload } from 'lucide-react'
+import {
+  getDefaultResolution,
+  getResolutionLabel,
+  getResolutionOptions,
+  RESOLUTION_LABELS,
+  type ImportPreviewItem,
+  type ImportResolution,
+} from '@utils/importConflicts'
+import type { UnsupportedFeature } from '@utils/pptxImporter'
+
+/**
+ * Props for the ImportPresentationsDialog component
+ */
+interface ImportPresentationsDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean
+  /** Presentations read from the import file */
+  items: ImportPreviewItem[]
+  /** Content of the file that couldn't be converted and will be left out */
+  unsupported?: UnsupportedFeature[]
+  /** Callback when the dialog is closed */
+  onClose: () => void
+  /** Callback with the resolution chosen for each item when the import is confirmed */
+  onConfirm: (resolutions: ImportResolution[]) => void
+}
+
+/**
+ * Format a timestamp as a date for display
+ */
+function formatDate(timestamp: string): string {
+  const date = new Date(timestamp)
+  return Number.isNaN(date.getTime()) ? 'unknown date' : date.toLocaleDateString()
+}
+
+/**
+ * Dialog component for resolving conflicts before importing presentations.
+ */
+export function ImportPresentationsDialog({
+  isOpen,
+  items,
+  unsupported = [],
+  onClose,
+  onConfirm,
+}: ImportPresentationsDialogProps) {
+  const [resolutions, setResolutions] = useState<ImportResolution[]>([])
+
+  // Reset choices when the dialog opens with new items
+  useEffect(() => {
+    if (isOpen) {
+      setResolutions(items.map(getDefaultResolution))
+    }
+  }, [isOpen, items])
+
+  const conflictCount = items.filter((item) => item.match).length
+  const newCount = items.length - conflictCount
+  const importCount = items.filter(
+    (item, index) => (resolutions[index] ?? getDefaultResolution(item)) !== 'skip'
+  ).length
+
+  const setResolution = (index: number, resolution: ImportResolution) => {
+    setResolutions((current) => current.map((r, i) => (i === index ? resolution : r)))
+  }
+
+  // Apply the same choice to every conflicting item
+  const resolveAllConflicts = (resolution: ImportResolution) => {
+    setResolutions((current) => current.map((r, i) => (items[i]?.match ? resolution : r)))
+  }
+
+  const handleConfirm = () => {
+    onConfirm(items.map((item, index) => resolutions[index] ?? getDefaultResolution(item)))
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        data-testid="import-presentations-dialog"
+        aria-describedby="import-presentations-description"
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" aria-hidden="true" />
+            Import Presentations
+          </DialogTitle>
+          <DialogDescription id="import-presentations-description">
+            {newCount} new presentation{newCount !== 1 ? 's' : ''}
+            {conflictCount > 0 &&
+              `, ${String(conflictCount)} matching existing presentation${conflictCount !== 1 ? 's' : ''}. Choose what to do with each match.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* Content left out of the import */}
+          {unsupported.length > 0 && (
+            <div
+              className="rounded-md bg-warning-50 border border-warning-200 p-3"
+              role="status"
+              data-testid="import-unsupported"
+            >
+              <p className="flex items-center gap-2 text-sm font-medium text-warning-700">
+                <AlertTriangle className="h-4 w-4" aria-hidden="true" />
+                Some content can&apos;t be imported and will be left out:
+              </p>
+              <ul className="mt-2 max-h-32 list-disc space-y-1 overflow-y-auto pl-6 text-xs text-warning-700">
+                {unsupported.map(({ feature, count, slides }) => (
+                  <li key={feature}>
+                    {feature} ({count} on slide{slides.length !== 1 ? 's' : ''} {slides.join(', ')})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Bulk choices for conflicts */}
+          {conflictCount > 1 && (
+            <div className="flex items-center gap-2 text-sm text-secondary-600">
+              <span>All matches:</span>
+              {(['overwrite', 'add', 'skip'] as const).map((resolution) => (
+                <Button
+                  key={resolution}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => { resolveAllConflicts(resolution); }}
+                  data-testid={`import-resolve-all-${resolution}`}
+                >
+                  {RESOLUTION_LABELS[resolution]}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {/* Presentations in the file */}
+          <ul className="max-h-80 space-y-2 overflow-y-auto" data-testid="import-preview-list">
+            {items.map((item, index) => {
+              const selectId = `import-resolution-${String(index)}`
+              const slideCount = item.presentation.slides.length
+              return (
+                <li
+                  key={`${item.presentation.id}-${String(index)}`}
+                  className="flex items-center justify-between gap-3 rounded-md bg-secondary-50 p-3"
+                  data-testid={`import-preview-item-${String(index)}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <Label htmlFor={selectId} className="block truncate">
+                      {item.presentation.name}
+                    </Label>
+                    <p className="text-xs text-secondary-500">
+                      {slideCount} slide{slideCount !== 1 ? 's' : ''}
+                      {item.match ? (
+                        <span className="text-warning-700">
+                          {' '}
+                          | Matches {item.matchedBy === 'id' ? 'the original of' : 'the name of'}{' '}
+                          &ldquo;{item.match.name}&rdquo;, last edited {formatDate(item.match.updatedAt)}
+                        </span>
+                      ) : (
+                        <span> | New</span>
+                      )}
+                    </p>
+                  </div>
+                  <Select
+                    value={resolutions[index] ?? getDefaultResolution(item)}
+                    onValueChange={(value) => { setResolution(index, value as ImportResolution); }}
+                  >
+                    <SelectTrigger id={selectId} className="w-32" data-testid={selectId}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getResolutionOptions(item).map((resolution) => (
+                        <SelectItem key={resolution} value={resolution}>
+                          {getResolutionLabel(item, resolution)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            data-testid="import-cancel-button"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleConfirm}
+            disabled={importCount === 0}
+            data-testid="import-confirm-button"
+          >
+            <Upload className="mr-2 h-4 w-4" aria-hidden="true" />
+            Import {importCount} Presentation{importCount !== 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ImportPresentationsDialog
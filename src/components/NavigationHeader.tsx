@@ -27,6 +27,11 @@ import {
 } from '@components/ui/dropdown-menu'
 import { ExportPdfDialog } from '@components/ExportPdfDialog'
 import { ExportImageDialog } from '@components/ExportImageDialog'
+import { ExportPptxDialog } from '@components/ExportPptxDialog'
+import { ExportHtmlDialog } from '@components/ExportHtmlDialog'
+import { ImportPresentationsDialog } from '@components/ImportPresentationsDialog'
+import type { StorageResult } from '@utils/localStorage'
+import type { ImportPreviewItem, ImportResolution } from '@utils/importConflicts'
 import { Save, Undo2, Redo2, Play } from 'lucide-react'
 import { cn } from '@lib/utils'
 
@@ -67,6 +72,12 @@ export function NavigationHeader({ className = '' }: NavigationHeaderProps) {
   const [isPdfDialogOpen, setIsPdfDialogOpen] = useState(false)
   // Local state for Image export dialog
   const [isImageDialogOpen, setIsImageDialogOpen] = useState(false)
+  // Local state for PowerPoint export dialog
+  const [isPptxDialogOpen, setIsPptxDialogOpen] = useState(false)
+  // Local state for web slideshow export dialog
+  const [isHtmlDialogOpen, setIsHtmlDialogOpen] = useState(false)
+  // Local state for the import preview, shown while it is set
+  const [importPreview, setImportPreview] = useState<StorageResult<ImportPreviewItem[]> | null>(null)
 
   // Get presentation data
   const presentations = usePresentationStore((state) => state.presentations)
@@ -75,6 +86,8 @@ export function NavigationHeader({ className = '' }: NavigationHeaderProps) {
   const saveToStorage = usePresentationStore((state) => state.saveToStorage)
   const exportCurrentPresentation = usePresentationStore((state) => state.exportCurrentPresentation)
   const importPresentations = usePresentationStore((state) => state.importPresentations)
+  const importPptx = usePresentationStore((state) => state.importPptx)
+  const applyImport = usePresentationStore((state) => state.applyImport)
 
   // Get editor state
   const canUndo = useEditorStore((state) => state.canUndo)
@@ -99,7 +112,7 @@ export function NavigationHeader({ className = '' }: NavigationHeaderProps) {
   const historyCanRedo = useHistoryStore((state) => state.canRedo)
 
   // Get toast notifications
-  const { success, info } = useToast()
+  const { success, info, warning } = useToast()
 
   // Get current presentation
   const currentPresentation = presentations.find((p) => p.id === currentPresentationId)
@@ -157,13 +170,74 @@ export function NavigationHeader({ className = '' }: NavigationHeaderProps) {
     }
   }
 
+  // Handle export to PowerPoint
+  const handleExportPptx = () => {
+    setIsPptxDialogOpen(true)
+  }
+
+  // Handle PowerPoint export completion
+  const handlePptxExportComplete = (exportSuccess: boolean, error?: string, skippedImageCount = 0) => {
+    if (exportSuccess && skippedImageCount > 0) {
+      const imageText = skippedImageCount === 1 ? 'image' : 'images'
+      warning('PowerPoint Exported', `${String(skippedImageCount)} ${imageText} couldn't be loaded and were left out.`)
+    } else if (exportSuccess) {
+      success('PowerPoint Exported', 'Presentation exported to PowerPoint successfully.')
+    } else {
+      // Error is handled by the dialog
+      console.error('PowerPoint export failed:', error)
+    }
+  }
+
+  // Handle export as web slideshow
+  const handleExportHtml = () => {
+    setIsHtmlDialogOpen(true)
+  }
+
+  // Handle web slideshow export completion
+  const handleHtmlExportComplete = (exportSuccess: boolean, error?: string) => {
+    if (exportSuccess) {
+      success('Slideshow Exported', 'Presentation exported as a web slideshow successfully.')
+    } else {
+      // Error is handled by the dialog
+      console.error('HTML export failed:', error)
+    }
+  }
+
   // Handle import
   const handleImport = () => {
     importPresentations((result) => {
-      operationHandlers.import(result)
+      if (result.success && result.data) {
+        setImportPreview(result)
+      } else {
+        operationHandlers.import(result)
+      }
     })
   }
 
+  // Handle import from PowerPoint
+  const handleImportPptx = () => {
+    importPptx((result) => {
+      if (result.success && result.data) {
+        setImportPreview(result)
+      } else {
+        operationHandlers.import(result)
+      }
+    })
+  }
+
+  // Handle confirming the import preview
+  const handleImportConfirm = (resolutions: ImportResolution[]) => {
+    if (!importPreview?.data) return
+    const imported = applyImport(importPreview.data, resolutions)
+    operationHandlers.import({ ...importPreview, data: imported })
+
+    // The slides of an overwritten current presentation were replaced
+    const current = imported.find((p) => p.id === currentPresentationId)
+    if (current) {
+      setCurrentSlide(current.slides[0]?.id ?? null)
+    }
+  }
+
   // Handle start presentation
   const handleStartPresentation = () => {
     toggleFullscreen()
@@ -193,7 +267,10 @@ export function NavigationHeader({ className = '' }: NavigationHeaderProps) {
         { label: 'Export', shortcut: 'Ctrl+E', action: handleExport, disabled: !currentPresentationId },
         { label: 'Export to PDF', shortcut: 'Ctrl+P', action: handleExportPdf, disabled: !currentPresentationId },
         { label: 'Export as Image', action: handleExportImages, disabled: !currentPresentationId },
+        { label: 'Export to PowerPoint', action: handleExportPptx, disabled: !currentPresentationId },
+        { label: 'Export as Web Slideshow', action: handleExportHtml, disabled: !currentPresentationId },
         { label: 'Import', action: handleImport },
+        { label: 'Import PowerPoint', action: handleImportPptx },
       ],
     },
     {
@@ -239,7 +316,7 @@ export function NavigationHeader({ className = '' }: NavigationHeaderProps) {
         {
           label: 'Keyboard Shortcuts',
           action: () => {
-            info('Keyboard Shortcuts', 'Ctrl+S: Save | Ctrl+Z: Undo | Ctrl+Y: Redo | Ctrl+C: Copy | Ctrl+V: Paste | Delete: Remove')
+            info('Keyboard Shortcuts', 'Ctrl+S: Save | Ctrl+Z: Undo | Ctrl+Y: Redo | Ctrl+C: Copy | Ctrl+V: Paste | Ctrl+G: Group | Ctrl+Shift+G: Ungroup | Delete: Remove')
           },
         },
       ],
@@ -387,6 +464,31 @@ export function NavigationHeader({ className = '' }: NavigationHeaderProps) {
         currentSlideId={currentSlideId}
         onExportComplete={handleImageExportComplete}
       />
+
+      {/* PowerPoint Export Dialog */}
+      <ExportPptxDialog
+        isOpen={isPptxDialogOpen}
+        onClose={() => { setIsPptxDialogOpen(false); }}
+        presentation={currentPresentation ?? null}
+        onExportComplete={handlePptxExportComplete}
+      />
+
+      {/* Web Slideshow Export Dialog */}
+      <ExportHtmlDialog
+        isOpen={isHtmlDialogOpen}
+        onClose={() => { setIsHtmlDialogOpen(false); }}
+        presentation={currentPresentation ?? null}
+        onExportComplete={handleHtmlExportComplete}
+      />
+
+      {/* Import Preview Dialog */}
+      <ImportPresentationsDialog
+        isOpen={importPreview !== null}
+        items={importPreview?.data ?? []}
+        unsupported={importPreview?.unsupported ?? []}
+        onClose={() => { setImportPreview(null); }}
+        onConfirm={handleImportConfirm}
+      />
     </header>
   )
 }
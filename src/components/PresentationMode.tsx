@@ -353,8 +353,9 @@ export function PresentationMode({ onExit }: PresentationModeProps) {
       hoveredElementId: null,
       showGrid: false,
       showSelectionHandles: false,
+      ...(currentPresentation && { theme: currentPresentation.theme }),
     })
-  }, [slides, currentSlideIndex, rendererReady])
+  }, [slides, currentSlideIndex, rendererReady, currentPresentation])
 
   // Preload images for current and adjacent slides
   useEffect(() => {
@@ -11,6 +11,7 @@
 
 import { usePresentationStore } from '@stores/presentationStore'
 import { useEditorStore } from '@stores/editorStore'
+import { useAssetStore } from '@stores/assetStore'
 import { useId, useCallback, useMemo, useState } from 'react'
 import { Input } from '@components/ui/input'
 import { Label } from '@components/ui/label'
@@ -46,8 +47,70 @@ import {
   X,
   Image,
   Trash2,
+  List,
+  ListOrdered,
 } from 'lucide-react'
-import type { TextElement, SlideElement, ImageElement, ShapeElement, SlideBackground, BackgroundImageFillMode, SlideTransition, SlideTransitionType } from '@/types/presentation'
+import type { TextElement, SlideElement, ImageElement, ImageMask, ShapeElement, ShapeDirection, ShapeFillType, GradientDirection, StrokeDashStyle, StrokeLineCap, StrokeLineJoin, ShapeShadow, TableElement, TableBorderStyle, ChartElement, ChartType, ConnectorElement, ConnectorRouting, ArrowheadStyle, SlideBackground, BackgroundImageFillMode, SlideTransition, SlideTransitionType, PresentationTheme, ListType, TextVerticalAlign, TextOverflow, TextAutofit } from '@/types/presentation'
+import { DEFAULT_THEME, THEME_FONT_TOKEN } from '@/types/presentation'
+import {
+  THEME_COLOR_TOKENS,
+  themeColorRef,
+  getThemeColorToken,
+  resolveThemeColor,
+  resolveThemeFont,
+} from '@/utils/themeUtils'
+import { updateTextContent } from '@/utils/richText'
+import { isAssetRef, isDataUrl, resolveAssetSrc } from '@/utils/assetLibrary'
+import { getTextParagraphs, toggleListType } from '@/utils/textLists'
+import { DEFAULT_LINE_SPACING, DEFAULT_VERTICAL_ALIGN, getAutofitHeight } from '@/utils/textLayout'
+import { SlideCanvasRenderer } from '@/utils/SlideCanvasRenderer'
+import {
+  getRowCount,
+  getColumnCount,
+  getCellRange,
+  insertRow,
+  deleteRow,
+  insertColumn,
+  deleteColumn,
+  canMergeCells,
+  mergeCells,
+  unmergeCell,
+  isMergedCell,
+  type TableCellRange,
+} from '@/utils/tableUtils'
+import {
+  getSeriesColor,
+  setChartValue,
+  setCategoryName,
+  setSeriesName,
+  addCategory,
+  removeCategory,
+  addSeries,
+  removeSeries,
+} from '@/utils/chartUtils'
+import {
+  SHAPE_TYPE_LABELS,
+  DEFAULT_STAR_POINTS,
+  DEFAULT_POLYGON_SIDES,
+  DEFAULT_INNER_RADIUS_RATIO,
+} from '@/utils/shapeGeometry'
+import {
+  DEFAULT_GRADIENT_DIRECTION,
+  DEFAULT_SHAPE_SHADOW,
+  MIN_GRADIENT_STOPS,
+  getShapeGradientStops,
+  getShapeLineCap,
+  getShapeLineJoin,
+  addGradientStop,
+  updateGradientStop,
+  removeGradientStop,
+} from '@/utils/shapeStyles'
+import {
+  DEFAULT_IMAGE_ADJUSTMENTS,
+  DEFAULT_MASK_CORNER_RADIUS,
+  isImageCropped,
+  resetCrop,
+} from '@/utils/imageUtils'
 import { useHistoryStore } from '@stores/historyStore'
 import {
   calculateAlignmentPositions,
@@ -58,6 +121,7 @@ import {
   type DistributionType,
 } from '@/utils/alignmentUtils'
 import { LayoutSelectorDialog } from './LayoutSelectorDialog'
+import { ThemeGalleryDialog } from './ThemeGalleryDialog'
 import type { SlideLayoutType } from '@/types/layout'
 
 /**
@@ -71,8 +135,99 @@ const FONT_FAMILIES = [
   { value: 'Verdana', label: 'Verdana' },
   { value: 'Courier New', label: 'Courier New' },
   { value: 'Inter, system-ui, sans-serif', label: 'Inter (System)' },
+  { value: THEME_FONT_TOKEN, label: 'Theme Font' },
 ] as const
 
+/**
+ * Check whether every paragraph of a text element has the given list type
+ */
+function isListType(element: TextElement, listType: ListType): boolean {
+  return getTextParagraphs(element).every((p) => p.listType === listType)
+}
+
+/**
+ * Row of swatches for picking one of the presentation theme colors.
+ * Picking a swatch stores a theme reference rather than the literal color.
+ */
+interface ThemeColorSwatchesProps {
+  theme: PresentationTheme
+  value: string | undefined
+  onSelect: (value: string) => void
+  label: string
+  testIdPrefix: string
+}
+
+function ThemeColorSwatches({ theme, value, onSelect, label, testIdPrefix }: ThemeColorSwatchesProps) {
+  const activeToken = getThemeColorToken(value)
+  return (
+    <div className="flex items-center gap-1" role="group" aria-label={`${label} theme colors`}>
+      {THEME_COLOR_TOKENS.map(({ token, label: tokenLabel }) => (
+        <button
+          key={token}
+          type="button"
+          className={cn(
+            'w-6 h-6 rounded border border-secondary-300 transition-shadow',
+            'focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500',
+            activeToken === token && 'ring-2 ring-primary-500 ring-offset-1'
+          )}
+          style={{ backgroundColor: resolveThemeColor(themeColorRef(token), theme) }}
+          onClick={() => { onSelect(themeColorRef(token)); }}
+          title={`Theme ${tokenLabel.toLowerCase()} color`}
+          aria-label={`Use theme ${tokenLabel.toLowerCase()} color`}
+          aria-pressed={activeToken === token}
+          data-testid={`${testIdPrefix}-theme-${token}`}
+        />
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Color picker with a hex field and theme swatches
+ */
+interface ColorFieldProps {
+  id: string
+  label: string
+  theme: PresentationTheme
+  value: string
+  onChange: (value: string) => void
+  testIdPrefix: string
+}
+
+function ColorField({ id, label, theme, value, onChange, testIdPrefix }: ColorFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex items-center gap-2">
+        <input
+          id={id}
+          type="color"
+          className="w-8 h-9 p-0 border border-secondary-300 rounded cursor-pointer"
+          value={resolveThemeColor(value, theme)}
+          onChange={(e) => { onChange(e.target.value); }}
+          aria-label={`${label} picker`}
+          data-testid={`${testIdPrefix}-input`}
+        />
+        <Input
+          type="text"
+          className="flex-1"
+          value={value}
+          onChange={(e) => { onChange(e.target.value); }}
+          placeholder="#000000"
+          data-testid={`${testIdPrefix}-text`}
+        />
+      </div>
+      <ThemeColorSwatches
+        theme={theme}
+        value={value}
+        onSelect={onChange}
+        label={label}
+        testIdPrefix={testIdPrefix}
+      />
+    </div>
+  )
+}
+
 /**
  * Props for PropertiesPanel component
  */
@@ -111,6 +266,11 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
     content: `${baseId}-content`,
     fontSize: `${baseId}-fontSize`,
     fontFamily: `${baseId}-fontFamily`,
+    lineSpacing: `${baseId}-lineSpacing`,
+    paragraphSpacing: `${baseId}-paragraphSpacing`,
+    verticalAlign: `${baseId}-verticalAlign`,
+    textOverflow: `${baseId}-textOverflow`,
+    textAutofit: `${baseId}-textAutofit`,
     color: `${baseId}-color`,
     shapeType: `${baseId}-shapeType`,
     fill: `${baseId}-fill`,
@@ -118,8 +278,47 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
     strokeWidth: `${baseId}-strokeWidth`,
     cornerRadius: `${baseId}-cornerRadius`,
     shapeRotation: `${baseId}-shapeRotation`,
+    shapePointCount: `${baseId}-shapePointCount`,
+    shapeInnerRadius: `${baseId}-shapeInnerRadius`,
+    shapeDirection: `${baseId}-shapeDirection`,
+    shapeFillType: `${baseId}-shapeFillType`,
+    shapeGradientDirection: `${baseId}-shapeGradientDirection`,
+    shapeStrokeDash: `${baseId}-shapeStrokeDash`,
+    shapeLineCap: `${baseId}-shapeLineCap`,
+    shapeLineJoin: `${baseId}-shapeLineJoin`,
+    shapeShadow: `${baseId}-shapeShadow`,
+    shapeShadowColor: `${baseId}-shapeShadowColor`,
+    shapeShadowOpacity: `${baseId}-shapeShadowOpacity`,
+    shapeShadowBlur: `${baseId}-shapeShadowBlur`,
+    shapeShadowOffsetX: `${baseId}-shapeShadowOffsetX`,
+    shapeShadowOffsetY: `${baseId}-shapeShadowOffsetY`,
+    imageMask: `${baseId}-imageMask`,
+    imageMaskRadius: `${baseId}-imageMaskRadius`,
+    imageBrightness: `${baseId}-imageBrightness`,
+    imageContrast: `${baseId}-imageContrast`,
+    imageGrayscale: `${baseId}-imageGrayscale`,
+    imageBlur: `${baseId}-imageBlur`,
     src: `${baseId}-src`,
     alt: `${baseId}-alt`,
+    tableFill: `${baseId}-tableFill`,
+    tableText: `${baseId}-tableText`,
+    tableHeaderFill: `${baseId}-tableHeaderFill`,
+    tableHeaderText: `${baseId}-tableHeaderText`,
+    tableBorderColor: `${baseId}-tableBorderColor`,
+    tableBorderStyle: `${baseId}-tableBorderStyle`,
+    tableBorderWidth: `${baseId}-tableBorderWidth`,
+    tableFontSize: `${baseId}-tableFontSize`,
+    tableHeaderRow: `${baseId}-tableHeaderRow`,
+    chartType: `${baseId}-chartType`,
+    chartTitle: `${baseId}-chartTitle`,
+    chartLegend: `${baseId}-chartLegend`,
+    chartText: `${baseId}-chartText`,
+    chartFontSize: `${baseId}-chartFontSize`,
+    connectorRouting: `${baseId}-connectorRouting`,
+    connectorStartArrowhead: `${baseId}-connectorStartArrowhead`,
+    connectorEndArrowhead: `${baseId}-connectorEndArrowhead`,
+    connectorStroke: `${baseId}-connectorStroke`,
+    connectorStrokeWidth: `${baseId}-connectorStrokeWidth`,
   }
 
   // Get presentation data - subscribe to presentations directly for proper reactivity
@@ -143,20 +342,35 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
   // Layout function
   const applyLayout = usePresentationStore((state) => state.applyLayout)
 
+  // Theme function
+  const updatePresentationTheme = usePresentationStore((state) => state.updatePresentationTheme)
+
   // Get history store for undo support
   const recordSnapshot = useHistoryStore((state) => state.recordSnapshot)
 
+  // Asset library, for previews of images stored in it
+  const assets = useAssetStore((state) => state.assets)
+
   // Get updateSlide function for notes
   const updateSlide = usePresentationStore((state) => state.updateSlide)
 
   // Layout selector dialog state
   const [isLayoutSelectorOpen, setIsLayoutSelectorOpen] = useState(false)
 
+  // Theme gallery dialog state
+  const [isThemeGalleryOpen, setIsThemeGalleryOpen] = useState(false)
+
   // Get editor state
   const currentSlideId = useEditorStore((state) => state.currentSlideId)
   const selectedElementIds = useEditorStore((state) => state.selectedElementIds)
   const isPropertiesPanelOpen = useEditorStore((state) => state.isPropertiesPanelOpen)
   const togglePropertiesPanel = useEditorStore((state) => state.togglePropertiesPanel)
+  const tableCellSelection = useEditorStore((state) => state.tableCellSelection)
+  const selectTableCell = useEditorStore((state) => state.selectTableCell)
+  const clearTableCellSelection = useEditorStore((state) => state.clearTableCellSelection)
+  const croppingElementId = useEditorStore((state) => state.croppingElementId)
+  const startCropping = useEditorStore((state) => state.startCropping)
+  const stopCropping = useEditorStore((state) => state.stopCropping)
 
   // Derive presentation and slide from subscribed data for proper reactivity
   const presentation = useMemo(
@@ -167,6 +381,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
     () => presentation?.slides.find((s) => s.id === currentSlideId) ?? null,
     [presentation, currentSlideId]
   )
+  const theme = presentation?.theme ?? DEFAULT_THEME
 
   // Derive selected element from currentSlide for proper reactivity
   const firstSelectedId = selectedElementIds[0]
@@ -175,14 +390,48 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
     return currentSlide.elements.find((e) => e.id === firstSelectedId) ?? null
   }, [selectedElementIds.length, currentSlide, firstSelectedId])
 
-  // Handler for updating text element properties
+  // Gradient stops of the selected shape in their stored order, so edited stops don't jump around
+  const shapeGradientStops = useMemo(
+    () =>
+      selectedElement?.type === 'shape'
+        ? (selectedElement.gradientStops ?? getShapeGradientStops(selectedElement))
+        : [],
+    [selectedElement]
+  )
+
+  // Handler for updating text element properties.
+  // Boxes that resize to fit their text get the height of the updated text.
   const handleTextPropertyUpdate = useCallback(
     (updates: Partial<TextElement>) => {
       if (currentPresentationId && currentSlideId && firstSelectedId) {
+        if (selectedElement?.type === 'text') {
+          const updated: TextElement = { ...selectedElement, ...updates }
+          if (updated.autofit === 'resize') {
+            updates = {
+              ...updates,
+              dimensions: {
+                ...updated.dimensions,
+                height: getAutofitHeight(updated, SlideCanvasRenderer.fitText(updated, theme)),
+              },
+            }
+          }
+        }
         updateElement(currentPresentationId, currentSlideId, firstSelectedId, updates)
       }
     },
-    [currentPresentationId, currentSlideId, firstSelectedId, updateElement]
+    [currentPresentationId, currentSlideId, firstSelectedId, selectedElement, theme, updateElement]
+  )
+
+  // Handler for turning every paragraph of a text element into a list, or back
+  const handleListToggle = useCallback(
+    (element: TextElement, listType: 'bullet' | 'numbered') => {
+      const paragraphs = getTextParagraphs(element)
+      recordSnapshot('Toggle list')
+      handleTextPropertyUpdate({
+        paragraphs: toggleListType(paragraphs, 0, paragraphs.length - 1, listType),
+      })
+    },
+    [handleTextPropertyUpdate, recordSnapshot]
   )
 
   // Handler for updating image element properties
@@ -205,6 +454,162 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
     [currentPresentationId, currentSlideId, firstSelectedId, updateElement]
   )
 
+  // Handler for shape style changes that should be undoable as one step
+  const handleShapeStyleChange = useCallback(
+    (description: string, updates: Partial<ShapeElement>) => {
+      recordSnapshot(description)
+      handleShapePropertyUpdate(updates)
+    },
+    [recordSnapshot, handleShapePropertyUpdate]
+  )
+
+  // Handler for updating the selected shape's drop shadow settings
+  const handleShapeShadowUpdate = useCallback(
+    (updates: Partial<ShapeShadow>) => {
+      if (selectedElement?.type === 'shape') {
+        handleShapePropertyUpdate({
+          shadow: { ...(selectedElement.shadow ?? DEFAULT_SHAPE_SHADOW), ...updates },
+        })
+      }
+    },
+    [selectedElement, handleShapePropertyUpdate]
+  )
+
+  // Handler for image changes that should be undoable as one step
+  const handleImageStyleChange = useCallback(
+    (description: string, updates: Partial<ImageElement>) => {
+      recordSnapshot(description)
+      handleImagePropertyUpdate(updates)
+    },
+    [recordSnapshot, handleImagePropertyUpdate]
+  )
+
+  // Handler for updating table element properties
+  const handleTablePropertyUpdate = useCallback(
+    (updates: Partial<TableElement>) => {
+      if (currentPresentationId && currentSlideId && firstSelectedId) {
+        updateElement(currentPresentationId, currentSlideId, firstSelectedId, updates)
+      }
+    },
+    [currentPresentationId, currentSlideId, firstSelectedId, updateElement]
+  )
+
+  // Cells targeted by table row, column and merge actions: the selected cells,
+  // or the last cell of the table when no cells are selected
+  const getTargetCellRange = useCallback(
+    (table: TableElement): TableCellRange => {
+      if (tableCellSelection?.elementId === table.id) {
+        return getCellRange(table, tableCellSelection.anchor, tableCellSelection.focus)
+      }
+      const row = getRowCount(table) - 1
+      const col = getColumnCount(table) - 1
+      return { top: row, left: col, bottom: row, right: col }
+    },
+    [tableCellSelection]
+  )
+
+  // Handler for changing the rows, columns or merged cells of a table
+  const handleTableStructureChange = useCallback(
+    (
+      table: TableElement,
+      description: string,
+      change: (table: TableElement, range: TableCellRange) => Partial<TableElement>
+    ) => {
+      recordSnapshot(description)
+      handleTablePropertyUpdate(change(table, getTargetCellRange(table)))
+    },
+    [recordSnapshot, handleTablePropertyUpdate, getTargetCellRange]
+  )
+
+  // Handler for deleting the targeted rows or columns, keeping at least one of each
+  const handleTableDelete = useCallback(
+    (table: TableElement, axis: 'row' | 'column') => {
+      handleTableStructureChange(
+        table,
+        axis === 'row' ? 'Delete table row' : 'Delete table column',
+        (current, range) => {
+          let updated = current
+          const [first, last] =
+            axis === 'row' ? [range.top, range.bottom] : [range.left, range.right]
+          for (let index = last; index >= first; index--) {
+            updated = {
+              ...updated,
+              ...(axis === 'row' ? deleteRow(updated, index) : deleteColumn(updated, index)),
+            }
+          }
+          return axis === 'row'
+            ? { cells: updated.cells, rowHeights: updated.rowHeights, dimensions: updated.dimensions }
+            : {
+                cells: updated.cells,
+                columnWidths: updated.columnWidths,
+                dimensions: updated.dimensions,
+              }
+        }
+      )
+      clearTableCellSelection()
+    },
+    [handleTableStructureChange, clearTableCellSelection]
+  )
+
+  // Handler for merging the selected cells, or splitting a selected merged cell
+  const handleTableMergeToggle = useCallback(
+    (table: TableElement) => {
+      const range = getTargetCellRange(table)
+      if (canMergeCells(table, range)) {
+        handleTableStructureChange(table, 'Merge table cells', (current) =>
+          mergeCells(current, range)
+        )
+      } else {
+        handleTableStructureChange(table, 'Unmerge table cells', (current) =>
+          unmergeCell(current, range.top, range.left)
+        )
+      }
+      selectTableCell(table.id, { row: range.top, col: range.left })
+    },
+    [getTargetCellRange, handleTableStructureChange, selectTableCell]
+  )
+
+  // Handler for updating chart element properties
+  const handleChartPropertyUpdate = useCallback(
+    (updates: Partial<ChartElement>) => {
+      if (currentPresentationId && currentSlideId && firstSelectedId) {
+        updateElement(currentPresentationId, currentSlideId, firstSelectedId, updates)
+      }
+    },
+    [currentPresentationId, currentSlideId, firstSelectedId, updateElement]
+  )
+
+  // Handler for adding or removing rows and columns of the chart data grid
+  const handleChartDataChange = useCallback(
+    (description: string, updates: Partial<ChartElement>) => {
+      recordSnapshot(description)
+      handleChartPropertyUpdate(updates)
+    },
+    [recordSnapshot, handleChartPropertyUpdate]
+  )
+
+  // Handler for updating connector element properties
+  const handleConnectorPropertyUpdate = useCallback(
+    (updates: Partial<ConnectorElement>) => {
+      if (currentPresentationId && currentSlideId && firstSelectedId) {
+        updateElement(currentPresentationId, currentSlideId, firstSelectedId, updates)
+      }
+    },
+    [currentPresentationId, currentSlideId, firstSelectedId, updateElement]
+  )
+
+  // Cells targeted by table actions and what can be done with them, when a table is selected
+  const tableTargetRange =
+    selectedElement?.type === 'table' ? getTargetCellRange(selectedElement) : null
+  const canMergeTableCells =
+    selectedElement?.type === 'table' && tableTargetRange !== null
+      ? canMergeCells(selectedElement, tableTargetRange)
+      : false
+  const canUnmergeTableCells =
+    selectedElement?.type === 'table' && tableTargetRange !== null && !canMergeTableCells
+      ? isMergedCell(selectedElement, tableTargetRange.top, tableTargetRange.left)
+      : false
+
   // Handler for updating slide background
   const handleBackgroundUpdate = useCallback(
     (updates: Partial<SlideBackground>) => {
@@ -297,6 +702,18 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
     [currentPresentationId, currentSlideId, applyLayout, recordSnapshot]
   )
 
+  // Handler for applying a theme to the whole presentation
+  const handleApplyTheme = useCallback(
+    (newTheme: PresentationTheme) => {
+      if (currentPresentationId) {
+        recordSnapshot('Apply theme')
+        updatePresentationTheme(currentPresentationId, newTheme)
+      }
+      setIsThemeGalleryOpen(false)
+    },
+    [currentPresentationId, updatePresentationTheme, recordSnapshot]
+  )
+
   // Get selected elements for alignment operations
   const getSelectedElements = useCallback((): SlideElement[] => {
     if (!currentSlide || selectedElementIds.length < 2) return []
@@ -504,6 +921,22 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                   Apply a different layout template to this slide
                 </p>
               </div>
+
+              {/* Change Theme Button */}
+              <div className="mt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => { setIsThemeGalleryOpen(true); }}
+                  data-testid="change-theme-button"
+                >
+                  Change Theme
+                </Button>
+                <p className="text-xs text-secondary-500 mt-1">
+                  Apply or save a theme for the whole presentation
+                </p>
+              </div>
             </fieldset>
 
             {/* Background Settings */}
@@ -554,7 +987,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                       id={ids.bgColor}
                       type="color"
                       className="w-10 h-10 p-0 border border-secondary-300 rounded cursor-pointer"
-                      value={currentSlide.background.color ?? '#ffffff'}
+                      value={resolveThemeColor(currentSlide.background.color ?? theme.backgroundColor, theme)}
                       onChange={(e) => { handleBackgroundUpdate({ color: e.target.value }); }}
                       aria-label="Background color picker"
                       data-testid="background-color-picker"
@@ -568,6 +1001,13 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                       data-testid="background-color-input"
                     />
                   </div>
+                  <ThemeColorSwatches
+                    theme={theme}
+                    value={currentSlide.background.color}
+                    onSelect={(color) => { handleBackgroundUpdate({ color }); }}
+                    label="Background"
+                    testIdPrefix="background-color"
+                  />
                 </div>
               )}
 
@@ -602,7 +1042,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                         id={ids.bgGradientStart}
                         type="color"
                         className="w-10 h-10 p-0 border border-secondary-300 rounded cursor-pointer"
-                        value={currentSlide.background.gradientStart ?? '#ffffff'}
+                        value={resolveThemeColor(currentSlide.background.gradientStart ?? '#ffffff', theme)}
                         onChange={(e) => { handleBackgroundUpdate({ gradientStart: e.target.value }); }}
                         aria-label="Gradient start color picker"
                         data-testid="gradient-start-color-picker"
@@ -626,7 +1066,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                         id={ids.bgGradientEnd}
                         type="color"
                         className="w-10 h-10 p-0 border border-secondary-300 rounded cursor-pointer"
-                        value={currentSlide.background.gradientEnd ?? '#f97316'}
+                        value={resolveThemeColor(currentSlide.background.gradientEnd ?? '#f97316', theme)}
                         onChange={(e) => { handleBackgroundUpdate({ gradientEnd: e.target.value }); }}
                         aria-label="Gradient end color picker"
                         data-testid="gradient-end-color-picker"
@@ -651,7 +1091,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                   {currentSlide.background.imageSrc && (
                     <div className="relative w-full aspect-video bg-secondary-100 rounded-lg overflow-hidden">
                       <img
-                        src={currentSlide.background.imageSrc}
+                        src={resolveAssetSrc(currentSlide.background.imageSrc, assets)}
                         alt="Background preview"
                         className="w-full h-full object-cover"
                         data-testid="background-image-preview"
@@ -1020,7 +1460,9 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                         id={ids.content}
                         className="min-h-[60px] resize-none"
                         value={selectedElement.content}
-                        onChange={(e) => { handleTextPropertyUpdate({ content: e.target.value }); }}
+                        onChange={(e) => {
+                          handleTextPropertyUpdate(updateTextContent(selectedElement, e.target.value))
+                        }}
                         data-testid="text-content-input"
                       />
                     </div>
@@ -1040,7 +1482,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                             <SelectItem
                               key={font.value}
                               value={font.value}
-                              style={{ fontFamily: font.value }}
+                              style={{ fontFamily: resolveThemeFont(font.value, theme) }}
                             >
                               {font.label}
                             </SelectItem>
@@ -1075,7 +1517,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                             id={ids.color}
                             type="color"
                             className="w-8 h-9 p-0 border border-secondary-300 rounded cursor-pointer"
-                            value={selectedElement.color}
+                            value={resolveThemeColor(selectedElement.color, theme)}
                             onChange={(e) => { handleTextPropertyUpdate({ color: e.target.value }); }}
                             aria-label="Text color picker"
                             data-testid="text-color-input"
@@ -1091,6 +1533,13 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                         </div>
                       </div>
                     </div>
+                    <ThemeColorSwatches
+                      theme={theme}
+                      value={selectedElement.color}
+                      onSelect={(color) => { handleTextPropertyUpdate({ color }); }}
+                      label="Text"
+                      testIdPrefix="text-color"
+                    />
 
                     {/* Bold and Italic Toggles */}
                     <div className="space-y-2">
@@ -1168,6 +1617,133 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                         </Button>
                       </div>
                     </div>
+
+                    {/* Lists */}
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium text-secondary-700">List</Label>
+                      <div className="flex gap-1" role="group" aria-label="List options">
+                        <Button
+                          type="button"
+                          variant={isListType(selectedElement, 'bullet') ? 'secondary' : 'ghost'}
+                          size="icon"
+                          onClick={() => { handleListToggle(selectedElement, 'bullet'); }}
+                          aria-label="Toggle bulleted list"
+                          aria-pressed={isListType(selectedElement, 'bullet')}
+                          data-testid="bullet-list-toggle"
+                        >
+                          <List className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant={isListType(selectedElement, 'numbered') ? 'secondary' : 'ghost'}
+                          size="icon"
+                          onClick={() => { handleListToggle(selectedElement, 'numbered'); }}
+                          aria-label="Toggle numbered list"
+                          aria-pressed={isListType(selectedElement, 'numbered')}
+                          data-testid="numbered-list-toggle"
+                        >
+                          <ListOrdered className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {/* Line and Paragraph Spacing Row */}
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.lineSpacing}>Line Spacing</Label>
+                        <Input
+                          id={ids.lineSpacing}
+                          type="number"
+                          min={0.5}
+                          max={3}
+                          step={0.1}
+                          value={selectedElement.lineSpacing ?? DEFAULT_LINE_SPACING}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value)
+                            if (!isNaN(value) && value >= 0.5 && value <= 3) {
+                              handleTextPropertyUpdate({ lineSpacing: value })
+                            }
+                          }}
+                          data-testid="line-spacing-input"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.paragraphSpacing}>Paragraph Spacing</Label>
+                        <Input
+                          id={ids.paragraphSpacing}
+                          type="number"
+                          min={0}
+                          max={200}
+                          value={selectedElement.paragraphSpacing ?? 0}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10)
+                            if (!isNaN(value) && value >= 0 && value <= 200) {
+                              handleTextPropertyUpdate({ paragraphSpacing: value })
+                            }
+                          }}
+                          data-testid="paragraph-spacing-input"
+                        />
+                      </div>
+                    </div>
+
+                    {/* Vertical Anchor and Overflow Row */}
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.verticalAlign}>Vertical Align</Label>
+                        <Select
+                          value={selectedElement.verticalAlign ?? DEFAULT_VERTICAL_ALIGN}
+                          onValueChange={(value: TextVerticalAlign) => {
+                            handleTextPropertyUpdate({ verticalAlign: value })
+                          }}
+                        >
+                          <SelectTrigger id={ids.verticalAlign} data-testid="vertical-align-select">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="top">Top</SelectItem>
+                            <SelectItem value="middle">Middle</SelectItem>
+                            <SelectItem value="bottom">Bottom</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.textOverflow}>Overflow</Label>
+                        <Select
+                          value={selectedElement.overflow ?? 'visible'}
+                          onValueChange={(value: TextOverflow) => {
+                            handleTextPropertyUpdate({ overflow: value })
+                          }}
+                        >
+                          <SelectTrigger id={ids.textOverflow} data-testid="text-overflow-select">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="visible">Show</SelectItem>
+                            <SelectItem value="clip">Clip</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    {/* Autofit */}
+                    <div className="space-y-2">
+                      <Label htmlFor={ids.textAutofit}>Autofit</Label>
+                      <Select
+                        value={selectedElement.autofit ?? 'none'}
+                        onValueChange={(value: TextAutofit) => {
+                          handleTextPropertyUpdate({ autofit: value })
+                        }}
+                      >
+                        <SelectTrigger id={ids.textAutofit} data-testid="text-autofit-select">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Do not autofit</SelectItem>
+                          <SelectItem value="shrink">Shrink text on overflow</SelectItem>
+                          <SelectItem value="resize">Resize box to fit text</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
                 </fieldset>
               )}
@@ -1184,8 +1760,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                       <Input
                         id={ids.shapeType}
                         type="text"
-                        className="capitalize"
-                        value={selectedElement.shapeType}
+                        value={SHAPE_TYPE_LABELS[selectedElement.shapeType]}
                         readOnly
                         aria-readonly="true"
                         data-testid="shape-type-input"
@@ -1200,7 +1775,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                           id={ids.fill}
                           type="color"
                           className="w-8 h-9 p-0 border border-secondary-300 rounded cursor-pointer"
-                          value={selectedElement.fillColor}
+                          value={resolveThemeColor(selectedElement.fillColor, theme)}
                           onChange={(e) => { handleShapePropertyUpdate({ fillColor: e.target.value }); }}
                           aria-label="Fill color picker"
                           data-testid="shape-fill-color-input"
@@ -1214,8 +1789,149 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                           data-testid="shape-fill-color-text"
                         />
                       </div>
+                      <ThemeColorSwatches
+                        theme={theme}
+                        value={selectedElement.fillColor}
+                        onSelect={(fillColor) => { handleShapePropertyUpdate({ fillColor }); }}
+                        label="Fill"
+                        testIdPrefix="shape-fill"
+                      />
                     </div>
 
+                    {/* Fill Type */}
+                    <div className="space-y-2">
+                      <Label htmlFor={ids.shapeFillType}>Fill Type</Label>
+                      <Select
+                        value={selectedElement.fillType ?? 'solid'}
+                        onValueChange={(value: ShapeFillType) => {
+                          handleShapeStyleChange('Change fill type', {
+                            fillType: value,
+                            ...(value !== 'solid' && {
+                              gradientStops: getShapeGradientStops(selectedElement),
+                            }),
+                          })
+                        }}
+                      >
+                        <SelectTrigger id={ids.shapeFillType} data-testid="shape-fill-type-select">
+                          <SelectValue placeholder="Select fill type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="solid">Solid</SelectItem>
+                          <SelectItem value="linearGradient">Linear gradient</SelectItem>
+                          <SelectItem value="radialGradient">Radial gradient</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* Gradient Settings */}
+                    {selectedElement.fillType && selectedElement.fillType !== 'solid' && (
+                      <div className="space-y-4" data-testid="shape-gradient-settings">
+                        {selectedElement.fillType === 'linearGradient' && (
+                          <div className="space-y-2">
+                            <Label htmlFor={ids.shapeGradientDirection}>Gradient Direction</Label>
+                            <Select
+                              value={selectedElement.gradientDirection ?? DEFAULT_GRADIENT_DIRECTION}
+                              onValueChange={(value: GradientDirection) => {
+                                handleShapePropertyUpdate({ gradientDirection: value })
+                              }}
+                            >
+                              <SelectTrigger
+                                id={ids.shapeGradientDirection}
+                                data-testid="shape-gradient-direction-select"
+                              >
+                                <SelectValue placeholder="Select direction" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="horizontal">Horizontal</SelectItem>
+                                <SelectItem value="vertical">Vertical</SelectItem>
+                                <SelectItem value="diagonal">Diagonal</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+
+                        {/* Gradient Stops */}
+                        <div className="space-y-2">
+                          <Label>Gradient Stops</Label>
+                          {shapeGradientStops.map((stop, stopIndex) => (
+                                <div key={stopIndex} className="flex items-center gap-1">
+                                  <input
+                                    type="color"
+                                    className="w-8 h-7 p-0 border border-secondary-300 rounded cursor-pointer"
+                                    value={resolveThemeColor(stop.color, theme)}
+                                    onChange={(e) => {
+                                      handleShapePropertyUpdate({
+                                        gradientStops: updateGradientStop(
+                                          shapeGradientStops,
+                                          stopIndex,
+                                          { color: e.target.value }
+                                        ),
+                                      })
+                                    }}
+                                    aria-label={`Stop ${String(stopIndex + 1)} color`}
+                                    data-testid={`shape-gradient-stop-color-${String(stopIndex)}`}
+                                  />
+                                  <Input
+                                    type="number"
+                                    className="h-7 flex-1 px-1 text-xs"
+                                    min={0}
+                                    max={100}
+                                    value={Math.round(stop.offset * 100)}
+                                    onChange={(e) => {
+                                      const value = parseInt(e.target.value, 10)
+                                      if (!isNaN(value) && value >= 0 && value <= 100) {
+                                        handleShapePropertyUpdate({
+                                          gradientStops: updateGradientStop(
+                                            shapeGradientStops,
+                                            stopIndex,
+                                            { offset: value / 100 }
+                                          ),
+                                        })
+                                      }
+                                    }}
+                                    aria-label={`Stop ${String(stopIndex + 1)} position`}
+                                    data-testid={`shape-gradient-stop-offset-${String(stopIndex)}`}
+                                  />
+                                  <span className="text-sm text-secondary-500">%</span>
+                                  <button
+                                    type="button"
+                                    className="text-secondary-400 hover:text-secondary-700 disabled:opacity-30"
+                                    onClick={() => {
+                                      handleShapeStyleChange('Remove gradient stop', {
+                                        gradientStops: removeGradientStop(
+                                          shapeGradientStops,
+                                          stopIndex
+                                        ),
+                                      })
+                                    }}
+                                    disabled={shapeGradientStops.length <= MIN_GRADIENT_STOPS}
+                                    aria-label={`Remove stop ${String(stopIndex + 1)}`}
+                                    data-testid={`shape-gradient-remove-stop-${String(stopIndex)}`}
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                </div>
+                          ))}
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              handleShapeStyleChange('Add gradient stop', {
+                                gradientStops: addGradientStop(getShapeGradientStops(selectedElement), theme),
+                              })
+                            }}
+                            data-testid="shape-gradient-add-stop-button"
+                          >
+                            Add stop
+                          </Button>
+                          <p className="text-xs text-secondary-500">
+                            Stop positions run from the start (0%) to the end (100%) of the gradient
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
                     {/* Stroke Color */}
                     <div className="space-y-2">
                       <Label htmlFor={ids.stroke}>Stroke Color</Label>
@@ -1224,7 +1940,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                           id={ids.stroke}
                           type="color"
                           className="w-8 h-9 p-0 border border-secondary-300 rounded cursor-pointer"
-                          value={selectedElement.strokeColor}
+                          value={resolveThemeColor(selectedElement.strokeColor, theme)}
                           onChange={(e) => { handleShapePropertyUpdate({ strokeColor: e.target.value }); }}
                           aria-label="Stroke color picker"
                           data-testid="shape-stroke-color-input"
@@ -1238,6 +1954,13 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                           data-testid="shape-stroke-color-text"
                         />
                       </div>
+                      <ThemeColorSwatches
+                        theme={theme}
+                        value={selectedElement.strokeColor}
+                        onSelect={(strokeColor) => { handleShapePropertyUpdate({ strokeColor }); }}
+                        label="Stroke"
+                        testIdPrefix="shape-stroke"
+                      />
                     </div>
 
                     {/* Stroke Width */}
@@ -1262,6 +1985,67 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                       </p>
                     </div>
 
+                    {/* Stroke Style */}
+                    <div className="space-y-2">
+                      <Label htmlFor={ids.shapeStrokeDash}>Stroke Style</Label>
+                      <Select
+                        value={selectedElement.strokeDash ?? 'solid'}
+                        onValueChange={(value: StrokeDashStyle) => {
+                          handleShapePropertyUpdate({ strokeDash: value })
+                        }}
+                      >
+                        <SelectTrigger id={ids.shapeStrokeDash} data-testid="shape-stroke-dash-select">
+                          <SelectValue placeholder="Select stroke style" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="solid">Solid</SelectItem>
+                          <SelectItem value="dash">Dashed</SelectItem>
+                          <SelectItem value="dot">Dotted</SelectItem>
+                          <SelectItem value="dashDot">Dash-dot</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* Line Cap and Join */}
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.shapeLineCap}>Line Cap</Label>
+                        <Select
+                          value={getShapeLineCap(selectedElement)}
+                          onValueChange={(value: StrokeLineCap) => {
+                            handleShapePropertyUpdate({ strokeLineCap: value })
+                          }}
+                        >
+                          <SelectTrigger id={ids.shapeLineCap} data-testid="shape-line-cap-select">
+                            <SelectValue placeholder="Select cap" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="butt">Flat</SelectItem>
+                            <SelectItem value="round">Round</SelectItem>
+                            <SelectItem value="square">Square</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.shapeLineJoin}>Line Join</Label>
+                        <Select
+                          value={getShapeLineJoin(selectedElement)}
+                          onValueChange={(value: StrokeLineJoin) => {
+                            handleShapePropertyUpdate({ strokeLineJoin: value })
+                          }}
+                        >
+                          <SelectTrigger id={ids.shapeLineJoin} data-testid="shape-line-join-select">
+                            <SelectValue placeholder="Select join" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="miter">Miter</SelectItem>
+                            <SelectItem value="round">Round</SelectItem>
+                            <SelectItem value="bevel">Bevel</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
                     {/* Rotation */}
                     <div className="space-y-2">
                       <Label htmlFor={ids.shapeRotation}>Rotation</Label>
@@ -1311,6 +2095,702 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                         </p>
                       </div>
                     )}
+
+                    {/* Points or sides (stars and polygons) */}
+                    {(selectedElement.shapeType === 'star' || selectedElement.shapeType === 'polygon') && (
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.shapePointCount}>
+                          {selectedElement.shapeType === 'star' ? 'Points' : 'Sides'}
+                        </Label>
+                        <Input
+                          id={ids.shapePointCount}
+                          type="number"
+                          min={3}
+                          max={24}
+                          value={
+                            selectedElement.pointCount ??
+                            (selectedElement.shapeType === 'star'
+                              ? DEFAULT_STAR_POINTS
+                              : DEFAULT_POLYGON_SIDES)
+                          }
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10)
+                            if (!isNaN(value) && value >= 3 && value <= 24) {
+                              handleShapePropertyUpdate({ pointCount: value })
+                            }
+                          }}
+                          data-testid="shape-point-count-input"
+                        />
+                      </div>
+                    )}
+
+                    {/* Inner radius (stars only) */}
+                    {selectedElement.shapeType === 'star' && (
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.shapeInnerRadius}>Inner Radius</Label>
+                        <Input
+                          id={ids.shapeInnerRadius}
+                          type="number"
+                          min={10}
+                          max={90}
+                          value={Math.round(
+                            (selectedElement.innerRadiusRatio ?? DEFAULT_INNER_RADIUS_RATIO) * 100
+                          )}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10)
+                            if (!isNaN(value) && value >= 10 && value <= 90) {
+                              handleShapePropertyUpdate({ innerRadiusRatio: value / 100 })
+                            }
+                          }}
+                          data-testid="shape-inner-radius-input"
+                        />
+                        <p className="text-xs text-secondary-500">
+                          Depth of the star's points, as a percentage of its size (10-90%)
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Direction (arrows and chevrons) */}
+                    {(selectedElement.shapeType === 'arrow' || selectedElement.shapeType === 'chevron') && (
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.shapeDirection}>Direction</Label>
+                        <Select
+                          value={selectedElement.direction ?? 'right'}
+                          onValueChange={(value: ShapeDirection) => {
+                            handleShapePropertyUpdate({ direction: value })
+                          }}
+                        >
+                          <SelectTrigger id={ids.shapeDirection} data-testid="shape-direction-select">
+                            <SelectValue placeholder="Select direction" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="right">Right</SelectItem>
+                            <SelectItem value="left">Left</SelectItem>
+                            <SelectItem value="up">Up</SelectItem>
+                            <SelectItem value="down">Down</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    {/* Drop Shadow */}
+                    <div className="flex items-center gap-2">
+                      <input
+                        id={ids.shapeShadow}
+                        type="checkbox"
+                        className="h-4 w-4 rounded border-secondary-300"
+                        checked={selectedElement.shadow?.enabled ?? false}
+                        onChange={(e) => {
+                          handleShapeStyleChange(e.target.checked ? 'Add shadow' : 'Remove shadow', {
+                            shadow: { ...(selectedElement.shadow ?? DEFAULT_SHAPE_SHADOW), enabled: e.target.checked },
+                          })
+                        }}
+                        data-testid="shape-shadow-checkbox"
+                      />
+                      <Label htmlFor={ids.shapeShadow}>Drop shadow</Label>
+                    </div>
+
+                    {selectedElement.shadow?.enabled && (
+                      <div className="space-y-4" data-testid="shape-shadow-settings">
+                        <ColorField
+                          id={ids.shapeShadowColor}
+                          label="Shadow Color"
+                          theme={theme}
+                          value={selectedElement.shadow.color}
+                          onChange={(color) => {
+                            handleShapeShadowUpdate({ color })
+                          }}
+                          testIdPrefix="shape-shadow-color"
+                        />
+                        <div className="grid grid-cols-2 gap-2">
+                          {([
+                            ['opacity', ids.shapeShadowOpacity, 'Opacity (%)', 0, 100, Math.round(selectedElement.shadow.opacity * 100)],
+                            ['blur', ids.shapeShadowBlur, 'Blur', 0, 50, selectedElement.shadow.blur],
+                            ['offsetX', ids.shapeShadowOffsetX, 'Offset X', -50, 50, selectedElement.shadow.offsetX],
+                            ['offsetY', ids.shapeShadowOffsetY, 'Offset Y', -50, 50, selectedElement.shadow.offsetY],
+                          ] as const).map(([key, id, label, min, max, value]) => (
+                            <div key={key} className="space-y-2">
+                              <Label htmlFor={id}>{label}</Label>
+                              <Input
+                                id={id}
+                                type="number"
+                                min={min}
+                                max={max}
+                                value={value}
+                                onChange={(e) => {
+                                  const next = parseInt(e.target.value, 10)
+                                  if (!isNaN(next) && next >= min && next <= max) {
+                                    handleShapeShadowUpdate({ [key]: key === 'opacity' ? next / 100 : next })
+                                  }
+                                }}
+                                data-testid={`shape-shadow-${key}-input`}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </fieldset>
+              )}
+
+              {selectedElement.type === 'table' && tableTargetRange && (
+                <fieldset className="mt-4 pt-4 border-t border-secondary-200" data-testid="table-formatting-panel">
+                  <legend className="text-xs font-semibold text-secondary-500 uppercase tracking-wide mb-3">
+                    Table Formatting
+                  </legend>
+                  <div className="space-y-4">
+                    {/* Rows and columns */}
+                    <div className="space-y-2">
+                      <Label>Rows and Columns</Label>
+                      <p className="text-xs text-secondary-500" data-testid="table-size-label">
+                        {getRowCount(selectedElement)} rows × {getColumnCount(selectedElement)} columns
+                      </p>
+                      <div className="grid grid-cols-3 gap-1">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            handleTableStructureChange(selectedElement, 'Insert table row', (table, cells) =>
+                              insertRow(table, cells.top)
+                            )
+                          }}
+                          data-testid="table-insert-row-above-button"
+                        >
+                          Row above
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            handleTableStructureChange(selectedElement, 'Insert table row', (table, cells) =>
+                              insertRow(table, cells.bottom + 1)
+                            )
+                          }}
+                          data-testid="table-insert-row-below-button"
+                        >
+                          Row below
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => { handleTableDelete(selectedElement, 'row'); }}
+                          disabled={getRowCount(selectedElement) <= tableTargetRange.bottom - tableTargetRange.top + 1}
+                          data-testid="table-delete-row-button"
+                        >
+                          Delete row
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            handleTableStructureChange(selectedElement, 'Insert table column', (table, cells) =>
+                              insertColumn(table, cells.left)
+                            )
+                          }}
+                          data-testid="table-insert-column-left-button"
+                        >
+                          Column left
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            handleTableStructureChange(selectedElement, 'Insert table column', (table, cells) =>
+                              insertColumn(table, cells.right + 1)
+                            )
+                          }}
+                          data-testid="table-insert-column-right-button"
+                        >
+                          Column right
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => { handleTableDelete(selectedElement, 'column'); }}
+                          disabled={getColumnCount(selectedElement) <= tableTargetRange.right - tableTargetRange.left + 1}
+                          data-testid="table-delete-column-button"
+                        >
+                          Delete column
+                        </Button>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => { handleTableMergeToggle(selectedElement); }}
+                        disabled={!canMergeTableCells && !canUnmergeTableCells}
+                        data-testid="table-merge-cells-button"
+                      >
+                        {canUnmergeTableCells ? 'Unmerge cells' : 'Merge cells'}
+                      </Button>
+                      <p className="text-xs text-secondary-500">
+                        Click a cell to select it, Shift+Click to select a range; double-click to edit
+                      </p>
+                    </div>
+
+                    {/* Header Row */}
+                    <div className="flex items-center gap-2">
+                      <input
+                        id={ids.tableHeaderRow}
+                        type="checkbox"
+                        className="h-4 w-4 rounded border-secondary-300"
+                        checked={selectedElement.headerRow}
+                        onChange={(e) => { handleTablePropertyUpdate({ headerRow: e.target.checked }); }}
+                        data-testid="table-header-row-checkbox"
+                      />
+                      <Label htmlFor={ids.tableHeaderRow}>Header row</Label>
+                    </div>
+
+                    {selectedElement.headerRow && (
+                      <>
+                        <ColorField
+                          id={ids.tableHeaderFill}
+                          label="Header Fill"
+                          theme={theme}
+                          value={selectedElement.headerFillColor}
+                          onChange={(headerFillColor) => { handleTablePropertyUpdate({ headerFillColor }); }}
+                          testIdPrefix="table-header-fill"
+                        />
+                        <ColorField
+                          id={ids.tableHeaderText}
+                          label="Header Text"
+                          theme={theme}
+                          value={selectedElement.headerTextColor}
+                          onChange={(headerTextColor) => { handleTablePropertyUpdate({ headerTextColor }); }}
+                          testIdPrefix="table-header-text"
+                        />
+                      </>
+                    )}
+
+                    <ColorField
+                      id={ids.tableFill}
+                      label="Cell Fill"
+                      theme={theme}
+                      value={selectedElement.fillColor}
+                      onChange={(fillColor) => { handleTablePropertyUpdate({ fillColor }); }}
+                      testIdPrefix="table-fill"
+                    />
+                    <ColorField
+                      id={ids.tableText}
+                      label="Text Color"
+                      theme={theme}
+                      value={selectedElement.textColor}
+                      onChange={(textColor) => { handleTablePropertyUpdate({ textColor }); }}
+                      testIdPrefix="table-text"
+                    />
+
+                    {/* Font Size */}
+                    <div className="space-y-2">
+                      <Label htmlFor={ids.tableFontSize}>Font Size</Label>
+                      <Input
+                        id={ids.tableFontSize}
+                        type="number"
+                        min={8}
+                        max={96}
+                        value={selectedElement.fontSize}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value, 10)
+                          if (!isNaN(value) && value >= 8 && value <= 96) {
+                            handleTablePropertyUpdate({ fontSize: value })
+                          }
+                        }}
+                        data-testid="table-font-size-input"
+                      />
+                    </div>
+
+                    {/* Borders */}
+                    <div className="space-y-2">
+                      <Label htmlFor={ids.tableBorderStyle}>Borders</Label>
+                      <Select
+                        value={selectedElement.borderStyle}
+                        onValueChange={(value: TableBorderStyle) => {
+                          handleTablePropertyUpdate({ borderStyle: value })
+                        }}
+                      >
+                        <SelectTrigger id={ids.tableBorderStyle} data-testid="table-border-style-select">
+                          <SelectValue placeholder="Select borders" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All borders</SelectItem>
+                          <SelectItem value="outer">Outside borders</SelectItem>
+                          <SelectItem value="horizontal">Horizontal lines</SelectItem>
+                          <SelectItem value="none">No borders</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {selectedElement.borderStyle !== 'none' && (
+                      <>
+                        <ColorField
+                          id={ids.tableBorderColor}
+                          label="Border Color"
+                          theme={theme}
+                          value={selectedElement.borderColor}
+                          onChange={(borderColor) => { handleTablePropertyUpdate({ borderColor }); }}
+                          testIdPrefix="table-border"
+                        />
+                        <div className="space-y-2">
+                          <Label htmlFor={ids.tableBorderWidth}>Border Width</Label>
+                          <Input
+                            id={ids.tableBorderWidth}
+                            type="number"
+                            min={0}
+                            max={20}
+                            value={selectedElement.borderWidth}
+                            onChange={(e) => {
+                              const value = parseInt(e.target.value, 10)
+                              if (!isNaN(value) && value >= 0 && value <= 20) {
+                                handleTablePropertyUpdate({ borderWidth: value })
+                              }
+                            }}
+                            data-testid="table-border-width-input"
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </fieldset>
+              )}
+
+              {selectedElement.type === 'chart' && (
+                <fieldset className="mt-4 pt-4 border-t border-secondary-200" data-testid="chart-properties-panel">
+                  <legend className="text-xs font-semibold text-secondary-500 uppercase tracking-wide mb-3">
+                    Chart
+                  </legend>
+                  <div className="space-y-4">
+                    {/* Chart Type */}
+                    <div className="space-y-2">
+                      <Label htmlFor={ids.chartType}>Chart Type</Label>
+                      <Select
+                        value={selectedElement.chartType}
+                        onValueChange={(value: ChartType) => {
+                          handleChartPropertyUpdate({ chartType: value })
+                        }}
+                      >
+                        <SelectTrigger id={ids.chartType} data-testid="chart-type-select">
+                          <SelectValue placeholder="Select chart type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="bar">Bar</SelectItem>
+                          <SelectItem value="line">Line</SelectItem>
+                          <SelectItem value="area">Area</SelectItem>
+                          <SelectItem value="pie">Pie</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* Title */}
+                    <div>
+                      <Label htmlFor={ids.chartTitle}>Title</Label>
+                      <Input
+                        id={ids.chartTitle}
+                        type="text"
+                        value={selectedElement.title ?? ''}
+                        onChange={(e) => { handleChartPropertyUpdate({ title: e.target.value }); }}
+                        placeholder="No title"
+                        data-testid="chart-title-input"
+                      />
+                    </div>
+
+                    {/* Legend */}
+                    <div className="flex items-center gap-2">
+                      <input
+                        id={ids.chartLegend}
+                        type="checkbox"
+                        className="h-4 w-4 rounded border-secondary-300"
+                        checked={selectedElement.showLegend}
+                        onChange={(e) => { handleChartPropertyUpdate({ showLegend: e.target.checked }); }}
+                        data-testid="chart-legend-checkbox"
+                      />
+                      <Label htmlFor={ids.chartLegend}>Show legend</Label>
+                    </div>
+
+                    {/* Data grid: one row per category, one column per series */}
+                    <div className="space-y-2">
+                      <Label>Data</Label>
+                      <div className="overflow-x-auto">
+                        <table className="text-xs border-collapse" data-testid="chart-data-grid">
+                          <thead>
+                            <tr>
+                              <th className="p-0.5" />
+                              {selectedElement.series.map((series, seriesIndex) => (
+                                <th key={seriesIndex} className="p-0.5 font-normal">
+                                  <div className="flex items-center gap-1">
+                                    <input
+                                      type="color"
+                                      className="w-5 h-7 p-0 border border-secondary-300 rounded cursor-pointer shrink-0"
+                                      value={getSeriesColor(selectedElement, seriesIndex, theme)}
+                                      onChange={(e) => {
+                                        handleChartPropertyUpdate({
+                                          series: selectedElement.series.map((s, i) =>
+                                            i === seriesIndex ? { ...s, color: e.target.value } : s
+                                          ),
+                                        })
+                                      }}
+                                      aria-label={`${series.name} color`}
+                                      data-testid={`chart-series-color-${String(seriesIndex)}`}
+                                    />
+                                    <Input
+                                      type="text"
+                                      className="h-7 w-20 px-1 text-xs"
+                                      value={series.name}
+                                      onChange={(e) => {
+                                        handleChartPropertyUpdate(
+                                          setSeriesName(selectedElement, seriesIndex, e.target.value)
+                                        )
+                                      }}
+                                      aria-label={`Series ${String(seriesIndex + 1)} name`}
+                                      data-testid={`chart-series-name-${String(seriesIndex)}`}
+                                    />
+                                    <button
+                                      type="button"
+                                      className="text-secondary-400 hover:text-secondary-700 disabled:opacity-30"
+                                      onClick={() => {
+                                        handleChartDataChange(
+                                          'Remove chart series',
+                                          removeSeries(selectedElement, seriesIndex)
+                                        )
+                                      }}
+                                      disabled={selectedElement.series.length <= 1}
+                                      aria-label={`Remove ${series.name}`}
+                                      data-testid={`chart-remove-series-${String(seriesIndex)}`}
+                                    >
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                  </div>
+                                </th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {selectedElement.categories.map((category, categoryIndex) => (
+                              <tr key={categoryIndex}>
+                                <td className="p-0.5">
+                                  <div className="flex items-center gap-1">
+                                    <button
+                                      type="button"
+                                      className="text-secondary-400 hover:text-secondary-700 disabled:opacity-30"
+                                      onClick={() => {
+                                        handleChartDataChange(
+                                          'Remove chart category',
+                                          removeCategory(selectedElement, categoryIndex)
+                                        )
+                                      }}
+                                      disabled={selectedElement.categories.length <= 1}
+                                      aria-label={`Remove ${category}`}
+                                      data-testid={`chart-remove-category-${String(categoryIndex)}`}
+                                    >
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                    <Input
+                                      type="text"
+                                      className="h-7 w-20 px-1 text-xs"
+                                      value={category}
+                                      onChange={(e) => {
+                                        handleChartPropertyUpdate(
+                                          setCategoryName(selectedElement, categoryIndex, e.target.value)
+                                        )
+                                      }}
+                                      aria-label={`Category ${String(categoryIndex + 1)} name`}
+                                      data-testid={`chart-category-name-${String(categoryIndex)}`}
+                                    />
+                                  </div>
+                                </td>
+                                {selectedElement.series.map((series, seriesIndex) => (
+                                  <td key={seriesIndex} className="p-0.5">
+                                    <Input
+                                      type="number"
+                                      className="h-7 w-20 px-1 text-xs"
+                                      value={series.values[categoryIndex] ?? 0}
+                                      onChange={(e) => {
+                                        const value = parseFloat(e.target.value)
+                                        if (!isNaN(value)) {
+                                          handleChartPropertyUpdate(
+                                            setChartValue(selectedElement, seriesIndex, categoryIndex, value)
+                                          )
+                                        }
+                                      }}
+                                      aria-label={`${series.name}, ${category}`}
+                                      data-testid={`chart-value-${String(seriesIndex)}-${String(categoryIndex)}`}
+                                    />
+                                  </td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      <div className="grid grid-cols-2 gap-1">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            handleChartDataChange('Add chart category', addCategory(selectedElement))
+                          }}
+                          data-testid="chart-add-category-button"
+                        >
+                          Add category
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            handleChartDataChange('Add chart series', addSeries(selectedElement))
+                          }}
+                          data-testid="chart-add-series-button"
+                        >
+                          Add series
+                        </Button>
+                      </div>
+                      {selectedElement.chartType === 'pie' && (
+                        <p className="text-xs text-secondary-500">
+                          Pie charts show the first series
+                        </p>
+                      )}
+                    </div>
+
+                    <ColorField
+                      id={ids.chartText}
+                      label="Text Color"
+                      theme={theme}
+                      value={selectedElement.textColor}
+                      onChange={(textColor) => { handleChartPropertyUpdate({ textColor }); }}
+                      testIdPrefix="chart-text"
+                    />
+
+                    {/* Font Size */}
+                    <div className="space-y-2">
+                      <Label htmlFor={ids.chartFontSize}>Font Size</Label>
+                      <Input
+                        id={ids.chartFontSize}
+                        type="number"
+                        min={8}
+                        max={48}
+                        value={selectedElement.fontSize}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value, 10)
+                          if (!isNaN(value) && value >= 8 && value <= 48) {
+                            handleChartPropertyUpdate({ fontSize: value })
+                          }
+                        }}
+                        data-testid="chart-font-size-input"
+                      />
+                    </div>
+                  </div>
+                </fieldset>
+              )}
+
+              {selectedElement.type === 'connector' && (
+                <fieldset className="mt-4 pt-4 border-t border-secondary-200" data-testid="connector-properties-panel">
+                  <legend className="text-xs font-semibold text-secondary-500 uppercase tracking-wide mb-3">
+                    Connector
+                  </legend>
+                  <div className="space-y-4">
+                    {/* Routing */}
+                    <div className="space-y-2">
+                      <Label htmlFor={ids.connectorRouting}>Routing</Label>
+                      <Select
+                        value={selectedElement.routing}
+                        onValueChange={(value: ConnectorRouting) => {
+                          handleConnectorPropertyUpdate({ routing: value })
+                        }}
+                      >
+                        <SelectTrigger id={ids.connectorRouting} data-testid="connector-routing-select">
+                          <SelectValue placeholder="Select routing" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="straight">Straight</SelectItem>
+                          <SelectItem value="elbow">Elbow</SelectItem>
+                          <SelectItem value="curved">Curved</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {/* Arrowheads */}
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.connectorStartArrowhead}>Start</Label>
+                        <Select
+                          value={selectedElement.startArrowhead}
+                          onValueChange={(value: ArrowheadStyle) => {
+                            handleConnectorPropertyUpdate({ startArrowhead: value })
+                          }}
+                        >
+                          <SelectTrigger
+                            id={ids.connectorStartArrowhead}
+                            data-testid="connector-start-arrowhead-select"
+                          >
+                            <SelectValue placeholder="Arrowhead" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">None</SelectItem>
+                            <SelectItem value="arrow">Arrow</SelectItem>
+                            <SelectItem value="triangle">Triangle</SelectItem>
+                            <SelectItem value="circle">Circle</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.connectorEndArrowhead}>End</Label>
+                        <Select
+                          value={selectedElement.endArrowhead}
+                          onValueChange={(value: ArrowheadStyle) => {
+                            handleConnectorPropertyUpdate({ endArrowhead: value })
+                          }}
+                        >
+                          <SelectTrigger
+                            id={ids.connectorEndArrowhead}
+                            data-testid="connector-end-arrowhead-select"
+                          >
+                            <SelectValue placeholder="Arrowhead" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">None</SelectItem>
+                            <SelectItem value="arrow">Arrow</SelectItem>
+                            <SelectItem value="triangle">Triangle</SelectItem>
+                            <SelectItem value="circle">Circle</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <ColorField
+                      id={ids.connectorStroke}
+                      label="Line Color"
+                      theme={theme}
+                      value={selectedElement.strokeColor}
+                      onChange={(strokeColor) => { handleConnectorPropertyUpdate({ strokeColor }); }}
+                      testIdPrefix="connector-stroke"
+                    />
+
+                    {/* Line Width */}
+                    <div className="space-y-2">
+                      <Label htmlFor={ids.connectorStrokeWidth}>Line Width</Label>
+                      <Input
+                        id={ids.connectorStrokeWidth}
+                        type="number"
+                        min={1}
+                        max={20}
+                        value={selectedElement.strokeWidth}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value, 10)
+                          if (!isNaN(value) && value >= 1 && value <= 20) {
+                            handleConnectorPropertyUpdate({ strokeWidth: value })
+                          }
+                        }}
+                        data-testid="connector-stroke-width-input"
+                      />
+                    </div>
                   </div>
                 </fieldset>
               )}
@@ -1326,7 +2806,7 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                       {selectedElement.src ? (
                         <img
                           loading="lazy"
-                          src={selectedElement.src}
+                          src={resolveAssetSrc(selectedElement.src, assets)}
                           alt={selectedElement.alt || 'Preview'}
                           className="max-w-full max-h-full object-contain"
                           width="200"
@@ -1344,11 +2824,17 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                       <Input
                         id={ids.src}
                         type="text"
-                        value={selectedElement.src.startsWith('data:') ? '(Embedded image)' : selectedElement.src}
+                        value={isDataUrl(selectedElement.src) || isAssetRef(selectedElement.src) ? '(Embedded image)' : selectedElement.src}
                         readOnly
                         aria-readonly="true"
                         className="text-xs"
-                        title={selectedElement.src.startsWith('data:') ? 'This image is embedded as a data URL' : selectedElement.src}
+                        title={
+                          isAssetRef(selectedElement.src)
+                            ? 'This image is stored in the presentation asset library'
+                            : isDataUrl(selectedElement.src)
+                              ? 'This image is embedded as a data URL'
+                              : selectedElement.src
+                        }
                         data-testid="image-src-input"
                       />
                     </div>
@@ -1392,6 +2878,134 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
                         Controls how the image fits within its bounding box
                       </p>
                     </div>
+
+                    {/* Crop */}
+                    <div className="space-y-2">
+                      <Label>Crop</Label>
+                      <div className="grid grid-cols-2 gap-1">
+                        <Button
+                          type="button"
+                          variant={croppingElementId === selectedElement.id ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => {
+                            if (croppingElementId === selectedElement.id) {
+                              stopCropping()
+                            } else {
+                              startCropping(selectedElement.id)
+                            }
+                          }}
+                          data-testid="image-crop-button"
+                        >
+                          {croppingElementId === selectedElement.id ? 'Done' : 'Crop'}
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={!isImageCropped(selectedElement)}
+                          onClick={() => {
+                            handleImageStyleChange('Reset crop', resetCrop(selectedElement))
+                          }}
+                          data-testid="image-reset-crop-button"
+                        >
+                          Reset crop
+                        </Button>
+                      </div>
+                      <p className="text-xs text-secondary-500">
+                        Drag the crop handles on the canvas, or double-click the image
+                      </p>
+                    </div>
+
+                    {/* Mask */}
+                    <div className="space-y-2">
+                      <Label htmlFor={ids.imageMask}>Mask</Label>
+                      <Select
+                        value={selectedElement.mask ?? 'none'}
+                        onValueChange={(value: ImageMask) => {
+                          handleImagePropertyUpdate({ mask: value })
+                        }}
+                      >
+                        <SelectTrigger id={ids.imageMask} data-testid="image-mask-select">
+                          <SelectValue placeholder="Select mask" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="circle">Circle</SelectItem>
+                          <SelectItem value="roundedRect">Rounded rectangle</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {selectedElement.mask === 'roundedRect' && (
+                      <div className="space-y-2">
+                        <Label htmlFor={ids.imageMaskRadius}>Corner Radius</Label>
+                        <Input
+                          id={ids.imageMaskRadius}
+                          type="number"
+                          min={0}
+                          max={200}
+                          value={selectedElement.maskCornerRadius ?? DEFAULT_MASK_CORNER_RADIUS}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10)
+                            if (!isNaN(value) && value >= 0 && value <= 200) {
+                              handleImagePropertyUpdate({ maskCornerRadius: value })
+                            }
+                          }}
+                          data-testid="image-mask-radius-input"
+                        />
+                      </div>
+                    )}
+
+                    {/* Adjustments */}
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label>Adjustments</Label>
+                        <button
+                          type="button"
+                          className="text-xs text-primary-600 hover:underline disabled:opacity-30 disabled:no-underline"
+                          disabled={!selectedElement.adjustments}
+                          onClick={() => {
+                            handleImageStyleChange('Reset image adjustments', {
+                              adjustments: DEFAULT_IMAGE_ADJUSTMENTS,
+                            })
+                          }}
+                          data-testid="image-reset-adjustments-button"
+                        >
+                          Reset
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        {([
+                          ['brightness', ids.imageBrightness, 'Brightness (%)', 0, 200],
+                          ['contrast', ids.imageContrast, 'Contrast (%)', 0, 200],
+                          ['grayscale', ids.imageGrayscale, 'Grayscale (%)', 0, 100],
+                          ['blur', ids.imageBlur, 'Blur (px)', 0, 20],
+                        ] as const).map(([key, id, label, min, max]) => (
+                          <div key={key} className="space-y-1">
+                            <Label htmlFor={id} className="text-xs">{label}</Label>
+                            <Input
+                              id={id}
+                              type="number"
+                              min={min}
+                              max={max}
+                              value={(selectedElement.adjustments ?? DEFAULT_IMAGE_ADJUSTMENTS)[key]}
+                              onChange={(e) => {
+                                const value = parseInt(e.target.value, 10)
+                                if (!isNaN(value) && value >= min && value <= max) {
+                                  handleImagePropertyUpdate({
+                                    adjustments: {
+                                      ...(selectedElement.adjustments ?? DEFAULT_IMAGE_ADJUSTMENTS),
+                                      [key]: value,
+                                    },
+                                  })
+                                }
+                              }}
+                              data-testid={`image-${key}-input`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
                   </div>
                 </fieldset>
               )}
@@ -1556,6 +3170,14 @@ export function PropertiesPanel({ className = '', isTablet = false }: Properties
         title="Change Slide Layout"
         description="Select a new layout for this slide. This will replace the current elements."
       />
+
+      {/* Theme gallery dialog for changing the presentation theme */}
+      <ThemeGalleryDialog
+        isOpen={isThemeGalleryOpen}
+        onClose={() => { setIsThemeGalleryOpen(false); }}
+        currentTheme={theme}
+        onApplyTheme={handleApplyTheme}
+      />
     </aside>
   )
 }
@@ -26,7 +26,8 @@ import { LayoutSelectorDialog } from './LayoutSelectorDialog'
 import { Button } from '@components/ui/button'
 import { Plus, Trash2, GripVertical, X } from 'lucide-react'
 import { cn } from '@lib/utils'
-import type { Slide } from '../types/presentation'
+import type { Slide, PresentationTheme } from '../types/presentation'
+import { DEFAULT_THEME } from '../types/presentation'
 import type { SlideLayoutType } from '../types/layout'
 
 /**
@@ -58,6 +59,7 @@ interface SlidePanelProps {
  */
 interface SlideThumbnailProps {
   slide: Slide
+  theme: PresentationTheme
   index: number
   isSelected: boolean
   isDragging: boolean
@@ -73,6 +75,7 @@ interface SlideThumbnailProps {
 
 const SlideThumbnail = memo(function SlideThumbnail({
   slide,
+  theme,
   index,
   isSelected,
   isDragging,
@@ -162,7 +165,7 @@ const SlideThumbnail = memo(function SlideThumbnail({
               aria-hidden="true"
             >
               {/* Canvas-based slide preview */}
-              <SlideThumbnailCanvas slide={slide} width={160} height={90} className="w-full h-full object-contain" />
+              <SlideThumbnailCanvas slide={slide} theme={theme} width={160} height={90} className="w-full h-full object-contain" />
 
               {/* Selection indicator overlay */}
               {isSelected && <div className="absolute inset-0 bg-primary-500/10 pointer-events-none" />}
@@ -597,6 +600,7 @@ export function SlidePanel({ className = '', isTablet = false }: SlidePanelProps
               >
                 <SlideThumbnail
                   slide={slide}
+                  theme={presentation?.theme ?? DEFAULT_THEME}
                   index={index}
                   isSelected={slide.id === currentSlideId}
                   isDragging={slide.id === dragState.draggedSlideId}
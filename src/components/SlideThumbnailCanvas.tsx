@@ -11,7 +11,7 @@
 
 import { useRef, useEffect, useCallback } from 'react'
 import { SlideCanvasRenderer } from '@/utils/SlideCanvasRenderer'
-import type { Slide } from '@/types/presentation'
+import type { Slide, PresentationTheme } from '@/types/presentation'
 
 /**
  * Default slide dimensions (16:9 aspect ratio)
@@ -31,6 +31,8 @@ const THUMBNAIL_HEIGHT = 90
 interface SlideThumbnailCanvasProps {
   /** The slide to render as a thumbnail */
   slide: Slide
+  /** Theme used to resolve theme-referenced colors and fonts */
+  theme?: PresentationTheme
   /** Optional width override for the thumbnail */
   width?: number
   /** Optional height override for the thumbnail */
@@ -45,6 +47,7 @@ interface SlideThumbnailCanvasProps {
  */
 export function SlideThumbnailCanvas({
   slide,
+  theme,
   width = THUMBNAIL_WIDTH,
   height = THUMBNAIL_HEIGHT,
   className = ''
@@ -81,13 +84,14 @@ export function SlideThumbnailCanvas({
       hoveredElementId: null,
       showGrid: false,
       showSelectionHandles: false,
+      ...(theme && { theme }),
     })
 
     // Override the canvas display size to thumbnail dimensions
     // (the renderer sets it to full size, but we want it scaled down)
     canvasRef.current.style.width = `${width}px`
     canvasRef.current.style.height = `${height}px`
-  }, [slide, width, height])
+  }, [slide, theme, width, height])
 
   // Initialize renderer and render on mount
   useEffect(() => {
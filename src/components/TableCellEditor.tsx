@@ -0,0 +1,140 @@
+/**
+ * TableCellEditor Component
+ * Provides inline editing of a table cell's text on the canvas
+ *
+ * Features:
+ * - Textarea positioned over the edited cell, matching its font and fill
+ * - Enter adds a line; Ctrl/Cmd+Enter or clicking away commits the text
+ * - Tab and Shift+Tab commit and move to the next or previous cell
+ * - Escape cancels editing
+ */
+
+import { useRef, useEffect, useCallback } from 'react'
+import type { Position, Dimensions } from '@/types/presentation'
+import type { ViewportState } from '@/types/editor'
+
+/**
+ * Props for TableCellEditor component
+ */
+interface TableCellEditorProps {
+  /** Position of the cell on the slide (slide coordinates) */
+  position: Position
+  /** Size of the cell */
+  dimensions: Dimensions
+  /** Viewport state for coordinate transformation */
+  viewport: ViewportState
+  /** Canvas dimensions */
+  canvasWidth: number
+  canvasHeight: number
+  /** Text of the cell when editing starts */
+  initialContent: string
+  /** Font size in pixels */
+  fontSize: number
+  /** Resolved font family */
+  fontFamily: string
+  /** Font weight of the cell (bold in header rows) */
+  fontWeight: 'normal' | 'bold'
+  /** Resolved text color */
+  color: string
+  /** Resolved cell fill color */
+  backgroundColor: string
+  /** Text alignment */
+  textAlign: 'left' | 'center' | 'right'
+  /** Callback when editing is committed */
+  onComplete: (content: string) => void
+  /** Callback when Tab or Shift+Tab commits and moves to another cell */
+  onNavigate: (content: string, direction: 1 | -1) => void
+  /** Callback when editing is cancelled */
+  onCancel: () => void
+}
+
+/**
+ * TableCellEditor displays an editable textarea over a table cell
+ */
+export function TableCellEditor({
+  position,
+  dimensions,
+  viewport,
+  canvasWidth,
+  canvasHeight,
+  initialContent,
+  fontSize,
+  fontFamily,
+  fontWeight,
+  color,
+  backgroundColor,
+  textAlign,
+  onComplete,
+  onNavigate,
+  onCancel,
+}: TableCellEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  // Set once the edit is committed or cancelled, so the following blur is ignored
+  const isDoneRef = useRef(false)
+
+  // Calculate screen position from slide coordinates
+  const { zoom, panX, panY } = viewport
+  const left = (position.x - canvasWidth / 2 + panX) * zoom + canvasWidth / 2
+  const top = (position.y - canvasHeight / 2 + panY) * zoom + canvasHeight / 2
+
+  // Focus the textarea and select the cell text on mount
+  useEffect(() => {
+    textareaRef.current?.focus()
+    textareaRef.current?.select()
+  }, [])
+
+  const commit = useCallback(() => {
+    if (isDoneRef.current) return
+    isDoneRef.current = true
+    onComplete(textareaRef.current?.value ?? initialContent)
+  }, [onComplete, initialContent])
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        isDoneRef.current = true
+        onCancel()
+      } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault()
+        commit()
+      } else if (e.key === 'Tab') {
+        e.preventDefault()
+        isDoneRef.current = true
+        onNavigate(e.currentTarget.value, e.shiftKey ? -1 : 1)
+      }
+    },
+    [commit, onCancel, onNavigate]
+  )
+
+  return (
+    <textarea
+      ref={textareaRef}
+      defaultValue={initialContent}
+      onKeyDown={handleKeyDown}
+      onBlur={commit}
+      className="absolute resize-none border-2 border-primary-500 outline-none"
+      style={{
+        left,
+        top,
+        width: dimensions.width * zoom,
+        height: dimensions.height * zoom,
+        zIndex: 1000,
+        fontSize: fontSize * zoom,
+        fontFamily,
+        fontWeight,
+        color,
+        backgroundColor,
+        textAlign,
+        lineHeight: 1.2,
+        padding: '4px',
+        boxSizing: 'border-box',
+        overflow: 'hidden',
+      }}
+      aria-label="Table cell text"
+      data-testid="table-cell-editor"
+    />
+  )
+}
+
+export default TableCellEditor
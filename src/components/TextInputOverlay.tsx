@@ -6,12 +6,54 @@
  * - Positioned overlay that matches text element location
  * - Auto-resizing textarea for text input
  * - Handles text creation and editing
+ * - Formatting bar for bold, italic, underline, color and links on the selection
+ * - Bulleted and numbered lists, with Tab/Shift+Tab to change the indent level
+ * - Preserves run and paragraph formatting while the text is edited
+ * - Live autofit preview: shrinks the text or grows the box as text is typed
  * - Accessibility support with proper ARIA attributes
  */
 
-import { useRef, useEffect, useCallback, useState } from 'react'
-import type { Position, Dimensions } from '@/types/presentation'
+import { useRef, useEffect, useCallback, useMemo, useState } from 'react'
+import {
+  Bold,
+  Italic,
+  Underline,
+  Link,
+  List,
+  ListOrdered,
+  IndentDecrease,
+  IndentIncrease,
+} from 'lucide-react'
+import { cn } from '@lib/utils'
+import type {
+  Position,
+  Dimensions,
+  TextRun,
+  TextParagraph,
+  TextAutofit,
+} from '@/types/presentation'
 import type { ViewportState } from '@/types/editor'
+import {
+  applyFormatToRange,
+  getFormatInRange,
+  sanitizeLink,
+  spliceRunsText,
+  trimRuns,
+  type TextRunFormatPatch,
+} from '@/utils/richText'
+import {
+  changeIndentLevel,
+  getParagraphRange,
+  getTextParagraphs,
+  spliceParagraphsText,
+  toggleListType,
+} from '@/utils/textLists'
+import { DEFAULT_LINE_SPACING, MIN_AUTOFIT_HEIGHT, type TextFit } from '@/utils/textLayout'
+
+/**
+ * Space taken by the textarea's padding and border, in screen pixels
+ */
+const TEXTAREA_INSET = 12
 
 /**
  * Props for TextInputOverlay component
@@ -28,20 +70,80 @@ interface TextInputOverlayProps {
   canvasHeight: number
   /** Initial text content */
   initialContent?: string
+  /** Initial formatted runs; defaults to a single run of the initial content */
+  initialRuns?: TextRun[]
+  /** Initial paragraph formatting; defaults to plain paragraphs */
+  initialParagraphs?: TextParagraph[]
   /** Font size in pixels */
   fontSize?: number
   /** Font family */
   fontFamily?: string
+  /** Element font weight, used where runs don't override it */
+  fontWeight?: 'normal' | 'bold'
+  /** Element font style, used where runs don't override it */
+  fontStyle?: 'normal' | 'italic'
   /** Text color */
   color?: string
   /** Text alignment */
   textAlign?: 'left' | 'center' | 'right'
+  /** Line height as a multiple of the font size */
+  lineSpacing?: number
+  /** Autofit mode of the element, previewed while typing */
+  autofit?: TextAutofit
+  /** Measure how the edited text fits the element's box; required for autofit previews */
+  fitText?: (content: string, runs: TextRun[], paragraphs: TextParagraph[]) => TextFit | null
   /** Callback when text editing is complete */
-  onComplete: (content: string) => void
+  onComplete: (content: string, runs: TextRun[], paragraphs: TextParagraph[]) => void
   /** Callback when editing is cancelled */
   onCancel: () => void
 }
 
+/**
+ * Button in the formatting bar.
+ * Uses mousedown prevention so the textarea keeps focus and its selection.
+ */
+interface FormatButtonProps {
+  label: string
+  shortcutKey?: string
+  isActive: boolean
+  disabled?: boolean
+  onClick: () => void
+  testId: string
+  children: React.ReactNode
+}
+
+function FormatButton({
+  label,
+  shortcutKey,
+  isActive,
+  disabled = false,
+  onClick,
+  testId,
+  children,
+}: FormatButtonProps) {
+  return (
+    <button
+      type="button"
+      onMouseDown={(e) => { e.preventDefault(); }}
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        'h-7 w-7 flex items-center justify-center rounded text-secondary-700',
+        'hover:bg-secondary-100 disabled:opacity-40 disabled:pointer-events-none',
+        'focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500',
+        isActive && 'bg-primary-100 text-primary-700 hover:bg-primary-100'
+      )}
+      title={shortcutKey ? `${label} (${shortcutKey})` : label}
+      aria-label={label}
+      aria-keyshortcuts={shortcutKey}
+      aria-pressed={isActive}
+      data-testid={testId}
+    >
+      {children}
+    </button>
+  )
+}
+
 /**
  * TextInputOverlay displays an editable text input over the canvas
  */
@@ -52,15 +154,37 @@ export function TextInputOverlay({
   canvasWidth,
   canvasHeight,
   initialContent = '',
+  initialRuns,
+  initialParagraphs,
   fontSize = 24,
   fontFamily = 'Inter, system-ui, sans-serif',
+  fontWeight = 'normal',
+  fontStyle = 'normal',
   color = '#1e293b',
   textAlign = 'left',
+  lineSpacing = DEFAULT_LINE_SPACING,
+  autofit = 'none',
+  fitText,
   onComplete,
   onCancel,
 }: TextInputOverlayProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
   const [content, setContent] = useState(initialContent)
+  const [runs, setRuns] = useState<TextRun[]>(
+    () => initialRuns ?? [{ text: initialContent }]
+  )
+  const [paragraphs, setParagraphs] = useState<TextParagraph[]>(() =>
+    getTextParagraphs({
+      content: initialContent,
+      ...(initialParagraphs && { paragraphs: initialParagraphs }),
+    })
+  )
+  // Formatting chosen with a collapsed selection, applied to the next typed text
+  const [pendingFormat, setPendingFormat] = useState<TextRunFormatPatch | null>(null)
+  const [selection, setSelection] = useState({ start: 0, end: 0 })
+  // URL being edited in the link field; null when the field is hidden
+  const [linkDraft, setLinkDraft] = useState<string | null>(null)
   // Track if we've been mounted long enough to allow blur cancellation
   // This prevents immediate cancellation from mouseup events
   const mountedTimeRef = useRef<number>(0)
@@ -71,6 +195,13 @@ export function TextInputOverlay({
     mountedTimeRef.current = Date.now()
   }, [])
 
+  // Measure the edited text for the autofit preview
+  const fit = useMemo(
+    () => (autofit !== 'none' && fitText ? fitText(content, runs, paragraphs) : null),
+    [autofit, fitText, content, runs, paragraphs]
+  )
+  const displayFontSize = autofit === 'shrink' && fit ? fit.fontSize : fontSize
+
   // Calculate screen position from slide coordinates
   const calculateScreenPosition = useCallback(() => {
     const { zoom, panX, panY } = viewport
@@ -83,9 +214,12 @@ export function TextInputOverlay({
       left: screenX,
       top: screenY,
       width: dimensions.width * zoom,
-      height: dimensions.height * zoom,
+      height:
+        autofit === 'resize' && fit
+          ? Math.max(MIN_AUTOFIT_HEIGHT, fit.height) * zoom + TEXTAREA_INSET
+          : dimensions.height * zoom,
     }
-  }, [position, dimensions, viewport, canvasWidth, canvasHeight])
+  }, [position, dimensions, viewport, canvasWidth, canvasHeight, autofit, fit])
 
   const screenPos = calculateScreenPosition()
 
@@ -100,6 +234,133 @@ export function TextInputOverlay({
     }
   }, [initialContent])
 
+  // Formatting in effect at the current selection, including pending formatting
+  const selectionFormat = { ...getFormatInRange(runs, selection.start, selection.end) }
+  if (pendingFormat) {
+    for (const [key, value] of Object.entries(pendingFormat)) {
+      Object.assign(selectionFormat, { [key]: value ?? undefined })
+    }
+  }
+  const isBold = (selectionFormat.fontWeight ?? fontWeight) === 'bold'
+  const isItalic = (selectionFormat.fontStyle ?? fontStyle) === 'italic'
+  const isUnderline = selectionFormat.underline ?? false
+  const selectionColor = selectionFormat.color?.startsWith('#') ? selectionFormat.color : color
+  const hasSelection = selection.start < selection.end
+
+  /**
+   * Apply formatting to the selected text, or to the next typed text
+   * when the selection is collapsed
+   */
+  const applyFormat = useCallback(
+    (patch: TextRunFormatPatch) => {
+      const textarea = textareaRef.current
+      if (!textarea) return
+      hasInteractedRef.current = true
+      const { selectionStart, selectionEnd } = textarea
+      if (selectionStart < selectionEnd) {
+        setRuns((current) => applyFormatToRange(current, selectionStart, selectionEnd, patch))
+      } else {
+        setPendingFormat((current) => ({ ...current, ...patch }))
+      }
+    },
+    []
+  )
+
+  const toggleBold = useCallback(() => {
+    const next = isBold ? 'normal' : 'bold'
+    applyFormat({ fontWeight: next === fontWeight ? null : next })
+  }, [isBold, fontWeight, applyFormat])
+
+  const toggleItalic = useCallback(() => {
+    const next = isItalic ? 'normal' : 'italic'
+    applyFormat({ fontStyle: next === fontStyle ? null : next })
+  }, [isItalic, fontStyle, applyFormat])
+
+  const toggleUnderline = useCallback(() => {
+    applyFormat({ underline: isUnderline ? null : true })
+  }, [isUnderline, applyFormat])
+
+  // Apply the link being edited to the selection and return focus to the text.
+  // Only web and mail links are kept.
+  const commitLink = useCallback(() => {
+    if (linkDraft !== null) {
+      applyFormat({ link: sanitizeLink(linkDraft) })
+    }
+    setLinkDraft(null)
+    textareaRef.current?.focus()
+  }, [linkDraft, applyFormat])
+
+  // Track the selection so the formatting bar reflects it.
+  // Moving the caret discards formatting that was waiting for typed text.
+  const updateSelection = useCallback(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    const { selectionStart: start, selectionEnd: end } = textarea
+    if (start !== selection.start || end !== selection.end) {
+      setSelection({ start, end })
+      setPendingFormat(null)
+    }
+  }, [selection])
+
+  // Finish editing, keeping formatting of the trimmed text
+  const complete = useCallback(() => {
+    const trimmedContent = content.trim()
+    if (trimmedContent) {
+      const start = content.length - content.trimStart().length
+      const { first, last } = getParagraphRange(content, start, start + trimmedContent.length)
+      onComplete(trimmedContent, trimRuns(runs), paragraphs.slice(first, last + 1))
+      return true
+    }
+    return false
+  }, [content, runs, paragraphs, onComplete])
+
+  // Paragraphs touched by the current selection
+  const selectedParagraphs = getParagraphRange(content, selection.start, selection.end)
+  const selectedListTypes = paragraphs
+    .slice(selectedParagraphs.first, selectedParagraphs.last + 1)
+    .map((p) => p.listType)
+  const isBulletList = selectedListTypes.every((type) => type === 'bullet')
+  const isNumberedList = selectedListTypes.every((type) => type === 'numbered')
+
+  /**
+   * Apply a paragraph change to the paragraphs touched by the textarea selection
+   */
+  const updateSelectedParagraphs = useCallback(
+    (update: (current: TextParagraph[], first: number, last: number) => TextParagraph[]) => {
+      const textarea = textareaRef.current
+      if (!textarea) return
+      hasInteractedRef.current = true
+      const { first, last } = getParagraphRange(
+        textarea.value,
+        textarea.selectionStart,
+        textarea.selectionEnd
+      )
+      setParagraphs((current) => update(current, first, last))
+    },
+    []
+  )
+
+  const toggleBulletList = useCallback(() => {
+    updateSelectedParagraphs((current, first, last) =>
+      toggleListType(current, first, last, 'bullet')
+    )
+  }, [updateSelectedParagraphs])
+
+  const toggleNumberedList = useCallback(() => {
+    updateSelectedParagraphs((current, first, last) =>
+      toggleListType(current, first, last, 'numbered')
+    )
+  }, [updateSelectedParagraphs])
+
+  const changeIndent = useCallback(
+    (delta: number) => {
+      updateSelectedParagraphs((current, first, last) =>
+        changeIndentLevel(current, first, last, delta)
+      )
+    },
+    [updateSelectedParagraphs]
+  )
+
   // Handle keyboard events
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -110,37 +371,54 @@ export function TextInputOverlay({
         // Enter without shift completes editing
         // Shift+Enter creates a new line
         e.preventDefault()
-        const trimmedContent = content.trim()
-        if (trimmedContent) {
-          onComplete(trimmedContent)
-        } else {
+        if (!complete()) {
           onCancel()
         }
+      } else if (e.key === 'Tab') {
+        // Tab indents and Shift+Tab outdents the selected paragraphs
+        e.preventDefault()
+        changeIndent(e.shiftKey ? -1 : 1)
+      } else if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+        const key = e.key.toLowerCase()
+        if (key === 'b') {
+          e.preventDefault()
+          toggleBold()
+        } else if (key === 'i') {
+          e.preventDefault()
+          toggleItalic()
+        } else if (key === 'u') {
+          e.preventDefault()
+          toggleUnderline()
+        }
       }
     },
-    [content, onComplete, onCancel]
+    [complete, onCancel, changeIndent, toggleBold, toggleItalic, toggleUnderline]
   )
 
-  // Handle blur (click outside)
-  const handleBlur = useCallback(() => {
-    const trimmedContent = content.trim()
-    if (trimmedContent) {
-      onComplete(trimmedContent)
-    } else {
-      // Only cancel if we've been mounted for at least 100ms or user has interacted
-      // This prevents immediate cancellation from mouseup events during initial click
-      const timeSinceMount = Date.now() - mountedTimeRef.current
-      if (timeSinceMount > 100 || hasInteractedRef.current) {
-        onCancel()
-      } else {
-        // Re-focus the textarea if blur happened too quickly
-        textareaRef.current?.focus()
+  // Handle blur (click outside); focus moving within the overlay is ignored
+  const handleBlur = useCallback(
+    (e: React.FocusEvent) => {
+      if (e.relatedTarget instanceof Node && containerRef.current?.contains(e.relatedTarget)) {
+        return
       }
-    }
-  }, [content, onComplete, onCancel])
+      if (!complete()) {
+        // Only cancel if we've been mounted for at least 100ms or user has interacted
+        // This prevents immediate cancellation from mouseup events during initial click
+        const timeSinceMount = Date.now() - mountedTimeRef.current
+        if (timeSinceMount > 100 || hasInteractedRef.current) {
+          onCancel()
+        } else {
+          // Re-focus the textarea if blur happened too quickly
+          textareaRef.current?.focus()
+        }
+      }
+    },
+    [complete, onCancel]
+  )
 
   return (
     <div
+      ref={containerRef}
       className="text-input-overlay absolute pointer-events-none"
       style={{
         left: 0,
@@ -149,17 +427,136 @@ export function TextInputOverlay({
         height: '100%',
         zIndex: 1000,
       }}
+      onBlur={handleBlur}
       data-testid="text-input-overlay"
     >
+      {/* Formatting bar */}
+      <div
+        className="absolute pointer-events-auto flex items-center gap-0.5 p-0.5 bg-white border border-secondary-200 rounded-md shadow-sm"
+        style={{ left: screenPos.left, top: Math.max(0, screenPos.top - 36) }}
+        role="toolbar"
+        aria-label="Text formatting"
+        data-testid="text-format-bar"
+      >
+        <FormatButton
+          label="Bold"
+          shortcutKey="Ctrl+B"
+          isActive={isBold}
+          onClick={toggleBold}
+          testId="text-format-bold"
+        >
+          <Bold className="w-4 h-4" aria-hidden="true" />
+        </FormatButton>
+        <FormatButton
+          label="Italic"
+          shortcutKey="Ctrl+I"
+          isActive={isItalic}
+          onClick={toggleItalic}
+          testId="text-format-italic"
+        >
+          <Italic className="w-4 h-4" aria-hidden="true" />
+        </FormatButton>
+        <FormatButton
+          label="Underline"
+          shortcutKey="Ctrl+U"
+          isActive={isUnderline}
+          onClick={toggleUnderline}
+          testId="text-format-underline"
+        >
+          <Underline className="w-4 h-4" aria-hidden="true" />
+        </FormatButton>
+        <input
+          type="color"
+          value={selectionColor}
+          onChange={(e) => { applyFormat({ color: e.target.value }); }}
+          className="h-7 w-7 p-0.5 rounded cursor-pointer border-0 bg-transparent"
+          title="Text color"
+          aria-label="Text color"
+          data-testid="text-format-color"
+        />
+        <FormatButton
+          label="Link"
+          isActive={Boolean(selectionFormat.link)}
+          disabled={!hasSelection}
+          onClick={() => { setLinkDraft(selectionFormat.link ?? ''); }}
+          testId="text-format-link"
+        >
+          <Link className="w-4 h-4" aria-hidden="true" />
+        </FormatButton>
+        <div className="w-px h-5 mx-0.5 bg-secondary-200" aria-hidden="true" />
+        <FormatButton
+          label="Bulleted list"
+          isActive={isBulletList}
+          onClick={toggleBulletList}
+          testId="text-format-bullet-list"
+        >
+          <List className="w-4 h-4" aria-hidden="true" />
+        </FormatButton>
+        <FormatButton
+          label="Numbered list"
+          isActive={isNumberedList}
+          onClick={toggleNumberedList}
+          testId="text-format-numbered-list"
+        >
+          <ListOrdered className="w-4 h-4" aria-hidden="true" />
+        </FormatButton>
+        <FormatButton
+          label="Decrease indent"
+          shortcutKey="Shift+Tab"
+          isActive={false}
+          onClick={() => { changeIndent(-1); }}
+          testId="text-format-outdent"
+        >
+          <IndentDecrease className="w-4 h-4" aria-hidden="true" />
+        </FormatButton>
+        <FormatButton
+          label="Increase indent"
+          shortcutKey="Tab"
+          isActive={false}
+          onClick={() => { changeIndent(1); }}
+          testId="text-format-indent"
+        >
+          <IndentIncrease className="w-4 h-4" aria-hidden="true" />
+        </FormatButton>
+        {linkDraft !== null && (
+          <input
+            type="url"
+            value={linkDraft}
+            autoFocus
+            onChange={(e) => { setLinkDraft(e.target.value); }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                commitLink()
+              } else if (e.key === 'Escape') {
+                e.preventDefault()
+                setLinkDraft(null)
+                textareaRef.current?.focus()
+              }
+            }}
+            className="h-7 w-44 px-2 text-sm border border-secondary-300 rounded outline-none focus:border-primary-500"
+            placeholder="https://example.com"
+            aria-label="Link URL"
+            data-testid="text-format-link-input"
+          />
+        )}
+      </div>
+
       <textarea
         ref={textareaRef}
         value={content}
         onChange={(e) => {
           hasInteractedRef.current = true
-          setContent(e.target.value)
+          const newContent = e.target.value
+          setRuns((current) =>
+            spliceRunsText(current, content, newContent, pendingFormat ?? undefined)
+          )
+          setParagraphs((current) => spliceParagraphsText(current, content, newContent))
+          setPendingFormat(null)
+          setContent(newContent)
         }}
+        onSelect={updateSelection}
         onKeyDown={handleKeyDown}
-        onBlur={handleBlur}
         className="absolute pointer-events-auto resize-none border-2 border-primary-500 bg-transparent outline-none"
         style={{
           left: screenPos.left,
@@ -167,12 +564,14 @@ export function TextInputOverlay({
           width: screenPos.width,
           height: screenPos.height,
           minWidth: 100,
-          minHeight: fontSize * 1.5 * viewport.zoom,
-          fontSize: fontSize * viewport.zoom,
+          minHeight: displayFontSize * 1.5 * viewport.zoom,
+          fontSize: displayFontSize * viewport.zoom,
           fontFamily,
+          fontWeight,
+          fontStyle,
           color,
           textAlign,
-          lineHeight: 1.2,
+          lineHeight: lineSpacing,
           padding: '4px',
           boxSizing: 'border-box',
           overflow: 'hidden',
@@ -0,0 +1,392 @@
+/**
+ * ThemeGalleryDialog Component
+ * Dialog for choosing a presentation theme from built-in and user-saved themes,
+ * customizing its colors and font, and saving the result as a new theme
+ *
+ * WCAG 2.1 AA Compliant:
+ * - Focus trap within dialog
+ * - Listbox semantics for theme options
+ * - Accessible labels for icon-only buttons
+ */
+
+import { useState, useCallback, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@components/ui/dialog'
+import { Button } from '@components/ui/button'
+import { Input } from '@components/ui/input'
+import { Label } from '@components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@components/ui/select'
+import { useToast } from '@hooks/useToast'
+import { cn } from '@lib/utils'
+import { Trash2 } from 'lucide-react'
+import type { PresentationTheme, ThemePreset } from '@/types/presentation'
+import {
+  BUILT_IN_THEMES,
+  THEME_COLOR_TOKENS,
+  THEME_FONT_FAMILIES,
+  TOKEN_TO_THEME_KEY,
+  createCustomTheme,
+  themesEqual,
+} from '@/utils/themeUtils'
+import { loadCustomThemes, saveCustomThemes } from '@/utils/localStorage'
+
+/**
+ * Props for ThemeGalleryDialog
+ */
+interface ThemeGalleryDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean
+  /** Callback when dialog closes */
+  onClose: () => void
+  /** Theme currently applied to the presentation */
+  currentTheme: PresentationTheme
+  /** Callback when a theme is applied */
+  onApplyTheme: (theme: PresentationTheme) => void
+}
+
+/**
+ * Render a miniature slide using the theme's colors and font
+ */
+function ThemePreview({ theme }: { theme: PresentationTheme }) {
+  return (
+    <div
+      className="w-full aspect-[16/9] border border-secondary-200 rounded-sm overflow-hidden flex flex-col justify-center gap-1 p-2"
+      style={{ backgroundColor: theme.backgroundColor, fontFamily: theme.fontFamily }}
+    >
+      <span className="text-sm font-semibold leading-none" style={{ color: theme.textColor }}>
+        Aa
+      </span>
+      <div className="flex gap-1">
+        <div className="h-2 w-6 rounded" style={{ backgroundColor: theme.primaryColor }} />
+        <div className="h-2 w-4 rounded" style={{ backgroundColor: theme.secondaryColor }} />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Individual theme option card
+ */
+interface ThemeCardProps {
+  preset: ThemePreset
+  isSelected: boolean
+  onSelect: () => void
+  onDelete?: () => void
+}
+
+function ThemeCard({ preset, isSelected, onSelect, onDelete }: ThemeCardProps) {
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={onSelect}
+        className={cn(
+          'w-full flex flex-col items-center p-2 rounded-lg border-2 transition-all duration-200',
+          'focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2',
+          'hover:border-primary-400 hover:bg-primary-50',
+          isSelected
+            ? 'border-primary-500 bg-primary-50 shadow-sm'
+            : 'border-secondary-200 bg-white'
+        )}
+        role="option"
+        aria-selected={isSelected}
+        data-testid={`theme-option-${preset.id}`}
+      >
+        <ThemePreview theme={preset.theme} />
+        <div
+          className={cn(
+            'mt-2 font-medium text-sm truncate max-w-full',
+            isSelected ? 'text-primary-700' : 'text-secondary-900'
+          )}
+        >
+          {preset.name}
+        </div>
+      </button>
+      {onDelete && (
+        <button
+          type="button"
+          onClick={onDelete}
+          className="absolute top-1 right-1 p-1 rounded bg-white/90 text-secondary-500 hover:text-red-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+          aria-label={`Delete theme ${preset.name}`}
+          data-testid={`theme-delete-${preset.id}`}
+        >
+          <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Get the font families to offer for a theme: the standard ones, plus the theme's
+ * own when it's another, such as one from an imported file
+ */
+function getFontOptions(fontFamily: string): { value: string; label: string }[] {
+  if (THEME_FONT_FAMILIES.some((font) => font.value === fontFamily)) {
+    return THEME_FONT_FAMILIES
+  }
+  const label = fontFamily.split(',')[0]?.trim().replace(/^["']|["']$/g, '') ?? fontFamily
+  return [...THEME_FONT_FAMILIES, { value: fontFamily, label }]
+}
+
+/**
+ * ThemeGalleryDialog lets users pick a theme, adjust its colors and font,
+ * apply it to the presentation and save it for reuse in other presentations
+ */
+export function ThemeGalleryDialog({
+  isOpen,
+  onClose,
+  currentTheme,
+  onApplyTheme,
+}: ThemeGalleryDialogProps) {
+  const { success, error } = useToast()
+  const [customThemes, setCustomThemes] = useState<ThemePreset[]>([])
+  // Theme being edited; picking a preset starts from its values
+  const [draft, setDraft] = useState<PresentationTheme>(currentTheme)
+  const [newThemeName, setNewThemeName] = useState('')
+
+  // The preset the edited theme matches, if any
+  const selectedId =
+    [...BUILT_IN_THEMES, ...customThemes].find((preset) => themesEqual(preset.theme, draft))
+      ?.id ?? null
+
+  // Load saved themes and start from the current theme when dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      const result = loadCustomThemes()
+      setCustomThemes(result.success && result.data ? result.data : [])
+      setDraft(currentTheme)
+      setNewThemeName('')
+    }
+  }, [isOpen, currentTheme])
+
+  const updateDraft = useCallback((patch: Partial<PresentationTheme>) => {
+    setDraft((current) => ({ ...current, ...patch }))
+  }, [])
+
+  const persistCustomThemes = useCallback(
+    (themes: ThemePreset[]): boolean => {
+      const result = saveCustomThemes(themes)
+      if (!result.success) {
+        error('Theme not saved', result.error)
+        return false
+      }
+      setCustomThemes(themes)
+      return true
+    },
+    [error]
+  )
+
+  const handleSaveDraft = useCallback(() => {
+    const preset = createCustomTheme(newThemeName, draft)
+    if (persistCustomThemes([...customThemes, preset])) {
+      setNewThemeName('')
+      success('Theme saved', `"${preset.name}" was added to your themes.`)
+    }
+  }, [newThemeName, draft, customThemes, persistCustomThemes, success])
+
+  const handleDelete = useCallback(
+    (id: string) => {
+      persistCustomThemes(customThemes.filter((preset) => preset.id !== id))
+    },
+    [customThemes, persistCustomThemes]
+  )
+
+  const handleApply = useCallback(() => {
+    onApplyTheme({ ...draft })
+    onClose()
+  }, [draft, onApplyTheme, onClose])
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        className="max-w-2xl"
+        data-testid="theme-gallery-dialog"
+        aria-labelledby="theme-dialog-title"
+        aria-describedby="theme-dialog-description"
+      >
+        <DialogHeader>
+          <DialogTitle id="theme-dialog-title">Themes</DialogTitle>
+          <DialogDescription id="theme-dialog-description">
+            Choose a theme for every slide in this presentation
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 my-2">
+          <section aria-labelledby="built-in-themes-heading">
+            <h3
+              id="built-in-themes-heading"
+              className="text-xs font-semibold text-secondary-500 uppercase tracking-wide mb-2"
+            >
+              Built-in
+            </h3>
+            <div
+              className="grid grid-cols-3 md:grid-cols-5 gap-3"
+              role="listbox"
+              aria-labelledby="built-in-themes-heading"
+            >
+              {BUILT_IN_THEMES.map((preset) => (
+                <ThemeCard
+                  key={preset.id}
+                  preset={preset}
+                  isSelected={selectedId === preset.id}
+                  onSelect={() => { setDraft(preset.theme); }}
+                />
+              ))}
+            </div>
+          </section>
+
+          <section aria-labelledby="custom-themes-heading">
+            <h3
+              id="custom-themes-heading"
+              className="text-xs font-semibold text-secondary-500 uppercase tracking-wide mb-2"
+            >
+              My Themes
+            </h3>
+            {customThemes.length === 0 ? (
+              <p className="text-sm text-secondary-500" data-testid="custom-themes-empty">
+                Customize a theme below and save it to reuse it in other presentations.
+              </p>
+            ) : (
+              <div
+                className="grid grid-cols-3 md:grid-cols-5 gap-3"
+                role="listbox"
+                aria-labelledby="custom-themes-heading"
+              >
+                {customThemes.map((preset) => (
+                  <ThemeCard
+                    key={preset.id}
+                    preset={preset}
+                    isSelected={selectedId === preset.id}
+                    onSelect={() => { setDraft(preset.theme); }}
+                    onDelete={() => { handleDelete(preset.id); }}
+                  />
+                ))}
+              </div>
+            )}
+
+          </section>
+
+          <section aria-labelledby="customize-theme-heading">
+            <h3
+              id="customize-theme-heading"
+              className="text-xs font-semibold text-secondary-500 uppercase tracking-wide mb-2"
+            >
+              Customize
+            </h3>
+            <div className="flex gap-4">
+              <div className="flex-1 grid grid-cols-2 gap-3">
+                {THEME_COLOR_TOKENS.map(({ token, label }) => {
+                  const key = TOKEN_TO_THEME_KEY[token]
+                  return (
+                    <div key={token} className="space-y-1">
+                      <Label htmlFor={`theme-color-${token}`}>{label}</Label>
+                      <div className="flex items-center gap-2">
+                        <input
+                          id={`theme-color-${token}`}
+                          type="color"
+                          className="w-8 h-9 p-0 border border-secondary-300 rounded cursor-pointer"
+                          value={draft[key]}
+                          onChange={(e) => { updateDraft({ [key]: e.target.value }); }}
+                          data-testid={`theme-color-${token}-input`}
+                        />
+                        <Input
+                          type="text"
+                          className="flex-1"
+                          value={draft[key]}
+                          onChange={(e) => { updateDraft({ [key]: e.target.value }); }}
+                          placeholder="#000000"
+                          aria-label={`${label} color value`}
+                          data-testid={`theme-color-${token}-text`}
+                        />
+                      </div>
+                    </div>
+                  )
+                })}
+                <div className="col-span-2 space-y-1">
+                  <Label htmlFor="theme-font-select">Font</Label>
+                  <Select
+                    value={draft.fontFamily}
+                    onValueChange={(value) => { updateDraft({ fontFamily: value }); }}
+                  >
+                    <SelectTrigger id="theme-font-select" data-testid="theme-font-select">
+                      <SelectValue placeholder="Select font" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getFontOptions(draft.fontFamily).map((font) => (
+                        <SelectItem
+                          key={font.value}
+                          value={font.value}
+                          style={{ fontFamily: font.value }}
+                        >
+                          {font.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="w-40" data-testid="theme-draft-preview">
+                <ThemePreview theme={draft} />
+              </div>
+            </div>
+
+            <div className="flex items-end gap-2 mt-3">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="theme-name-input">Save as new theme</Label>
+                <Input
+                  id="theme-name-input"
+                  type="text"
+                  value={newThemeName}
+                  placeholder="Custom Theme"
+                  onChange={(e) => { setNewThemeName(e.target.value); }}
+                  data-testid="theme-name-input"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleSaveDraft}
+                data-testid="theme-save-button"
+              >
+                Save Theme
+              </Button>
+            </div>
+          </section>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end gap-2 mt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            data-testid="theme-cancel-button"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleApply}
+            data-testid="theme-apply-button"
+          >
+            Apply Theme
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ThemeGalleryDialog
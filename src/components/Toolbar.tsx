@@ -34,7 +34,17 @@ import {
   Circle,
   Triangle,
   Minus,
+  Star,
+  Hexagon,
+  ArrowBigRight,
+  ChevronRight,
+  MessageSquare,
+  MessageCircle,
+  PenTool,
   Image,
+  Table,
+  BarChart3,
+  ArrowUpRight,
   Hand,
   Grid3X3,
   PanelLeft,
@@ -45,8 +55,26 @@ import {
   ChevronDown,
 } from 'lucide-react'
 import { cn } from '@lib/utils'
+import { SHAPE_TYPE_LABELS } from '@/utils/shapeGeometry'
 import type { EditorTool, ShapeToolType } from '../types/editor'
 
+/**
+ * Shapes offered by the shape tool dropdown, in menu order
+ */
+const SHAPE_TOOL_TYPES: ShapeToolType[] = [
+  'rectangle',
+  'circle',
+  'ellipse',
+  'triangle',
+  'line',
+  'polygon',
+  'star',
+  'arrow',
+  'chevron',
+  'callout',
+  'speechBubble',
+]
+
 /**
  * Props for Toolbar component
  */
@@ -123,6 +151,7 @@ export function Toolbar({ className = '' }: ToolbarProps) {
   const currentPresentationId = usePresentationStore((state) => state.currentPresentationId)
   const createPresentation = usePresentationStore((state) => state.createPresentation)
   const setCurrentPresentation = usePresentationStore((state) => state.setCurrentPresentation)
+  const loadPresentation = usePresentationStore((state) => state.loadPresentation)
 
   // Get editor state
   const activeTool = useEditorStore((state) => state.activeTool)
@@ -147,6 +176,10 @@ export function Toolbar({ className = '' }: ToolbarProps) {
     { tool: 'text', label: 'Text tool', shortcut: 'T' },
     { tool: 'shape', label: 'Shape tool', shortcut: 'S' },
     { tool: 'image', label: 'Image tool', shortcut: 'I' },
+    { tool: 'table', label: 'Table tool', shortcut: 'B' },
+    { tool: 'chart', label: 'Chart tool', shortcut: 'C' },
+    { tool: 'connector', label: 'Connector tool', shortcut: 'L' },
+    { tool: 'pen', label: 'Pen tool', shortcut: 'P' },
     { tool: 'pan', label: 'Pan tool', shortcut: 'H' },
   ]) as { tool: EditorTool; label: string; shortcut: string }[], [])
 
@@ -200,13 +233,10 @@ export function Toolbar({ className = '' }: ToolbarProps) {
 
   const handleSelectPresentation = (id: string) => {
     setCurrentPresentation(id)
-    // Auto-select the first slide
-    const presentation = presentations.find((p) => p.id === id)
-    if (presentation && presentation.slides.length > 0 && presentation.slides[0]) {
-      setCurrentSlide(presentation.slides[0].id)
-    } else {
-      setCurrentSlide(null)
-    }
+    // Auto-select the first slide once the slides are loaded
+    void loadPresentation(id).then((presentation) => {
+      setCurrentSlide(presentation?.slides[0]?.id ?? null)
+    })
   }
 
   // Tool icons with Lucide
@@ -215,6 +245,10 @@ export function Toolbar({ className = '' }: ToolbarProps) {
     text: <Type className="h-5 w-5" />,
     shape: <Square className="h-5 w-5" />,
     image: <Image className="h-5 w-5" />,
+    table: <Table className="h-5 w-5" />,
+    chart: <BarChart3 className="h-5 w-5" />,
+    connector: <ArrowUpRight className="h-5 w-5" />,
+    pen: <PenTool className="h-5 w-5" />,
     pan: <Hand className="h-5 w-5" />,
   }) as Record<EditorTool, React.ReactNode>, [])
 
@@ -224,15 +258,17 @@ export function Toolbar({ className = '' }: ToolbarProps) {
     circle: <Circle className="h-4 w-4" />,
     triangle: <Triangle className="h-4 w-4" />,
     line: <Minus className="h-4 w-4" />,
+    ellipse: <Circle className="h-4 w-4 scale-x-125 scale-y-75" />,
+    star: <Star className="h-4 w-4" />,
+    polygon: <Hexagon className="h-4 w-4" />,
+    arrow: <ArrowBigRight className="h-4 w-4" />,
+    chevron: <ChevronRight className="h-4 w-4" />,
+    callout: <MessageSquare className="h-4 w-4" />,
+    speechBubble: <MessageCircle className="h-4 w-4" />,
   }) as Record<ShapeToolType, React.ReactNode>, [])
 
   // Shape type labels for dropdown
-  const shapeTypeLabels: Record<ShapeToolType, string> = {
-    rectangle: 'Rectangle',
-    circle: 'Circle',
-    triangle: 'Triangle',
-    line: 'Line',
-  }
+  const shapeTypeLabels: Record<ShapeToolType, string> = SHAPE_TYPE_LABELS
 
   return (
     <>
@@ -320,7 +356,7 @@ export function Toolbar({ className = '' }: ToolbarProps) {
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="start">
-                      {(['rectangle', 'circle', 'triangle', 'line'] as ShapeToolType[]).map((shapeType) => (
+                      {SHAPE_TOOL_TYPES.map((shapeType) => (
                         <DropdownMenuItem
                           key={shapeType}
                           onClick={() => {
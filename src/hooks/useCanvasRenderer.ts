@@ -14,6 +14,8 @@ import type { CanvasRendererConfig } from '@/utils/SlideCanvasRenderer'
 import { useEditorStore } from '@/stores/editorStore'
 import { usePresentationStore } from '@/stores/presentationStore'
 import type { ResizeHandle } from '@/types/editor'
+import type { ConnectorElement, ImageElement } from '@/types/presentation'
+import { getSelectionFrames, type SelectionFrame } from '@/utils/groupUtils'
 
 /**
  * Options for the useCanvasRenderer hook
@@ -43,6 +45,24 @@ export interface UseCanvasRendererReturn {
   getElementAtPoint: (x: number, y: number) => ReturnType<SlideCanvasRenderer['getElementAtPoint']>
   /** Get resize handle at a canvas point */
   getResizeHandleAtPoint: (x: number, y: number) => ResizeHandle | 'rotation' | null
+  /** Get the resize handle at a canvas point along with the selected element or group it belongs to */
+  getSelectionHandleAtPoint: (
+    x: number,
+    y: number
+  ) => { handle: ResizeHandle | 'rotation'; selection: SelectionFrame } | null
+  /** Get the endpoint handle of the selected connector at a canvas point */
+  getConnectorHandleAtPoint: (
+    x: number,
+    y: number
+  ) => { connector: ConnectorElement; end: 'start' | 'end' } | null
+  /**
+   * Get the crop handle at a canvas point, if any, with the image being cropped
+   * as crop mode edits it. Returns null when no image is being cropped.
+   */
+  getCropHandleAtPoint: (
+    x: number,
+    y: number
+  ) => { image: ImageElement; handle: ResizeHandle | null } | null
   /** Convert canvas coordinates to slide coordinates */
   canvasToSlideCoords: (x: number, y: number) => { x: number; y: number }
   /** Export canvas to data URL */
@@ -70,17 +90,22 @@ export function useCanvasRenderer(
   const showGrid = useEditorStore((state) => state.showGrid)
   const currentSlideId = useEditorStore((state) => state.currentSlideId)
   const selectionBox = useEditorStore((state) => state.selectionBox)
+  const tableCellSelection = useEditorStore((state) => state.tableCellSelection)
+  const croppingElementId = useEditorStore((state) => state.croppingElementId)
 
   const currentPresentationId = usePresentationStore((state) => state.currentPresentationId)
   // Subscribe to presentations array to detect changes when slides are added/modified
   const presentations = usePresentationStore((state) => state.presentations)
 
-  // Get current slide - computed from presentations subscription
+  // Get current presentation and slide - computed from presentations subscription
+  const currentPresentation = currentPresentationId
+    ? presentations.find((p) => p.id === currentPresentationId) ?? null
+    : null
   const currentSlide = (() => {
-    if (!currentPresentationId || !currentSlideId) return null
-    const presentation = presentations.find((p) => p.id === currentPresentationId)
-    return presentation?.slides.find((s) => s.id === currentSlideId) ?? null
+    if (!currentPresentation || !currentSlideId) return null
+    return currentPresentation.slides.find((s) => s.id === currentSlideId) ?? null
   })()
+  const theme = currentPresentation?.theme
 
   // Keep a ref to the current slide so render function always has latest value
   const currentSlideRef = useRef(currentSlide)
@@ -156,6 +181,9 @@ export function useCanvasRenderer(
       showGrid,
       showSelectionHandles: true,
       editingElementId,
+      tableCellSelection,
+      croppingElementId,
+      ...(theme && { theme }),
     })
 
     // Render selection box if active
@@ -167,7 +195,17 @@ export function useCanvasRenderer(
         selectionBox.endY
       )
     }
-  }, [viewport, selectedElementIds, hoveredElementId, showGrid, selectionBox, editingElementId])
+  }, [
+    viewport,
+    selectedElementIds,
+    hoveredElementId,
+    showGrid,
+    selectionBox,
+    editingElementId,
+    tableCellSelection,
+    croppingElementId,
+    theme,
+  ])
 
   // Re-render when dependencies change (using useLayoutEffect for synchronous rendering)
   useLayoutEffect(() => {
@@ -204,19 +242,41 @@ export function useCanvasRenderer(
     [currentSlide, viewport]
   )
 
-  // Get resize handle at point
-  const getResizeHandleAtPoint = useCallback(
-    (x: number, y: number): ResizeHandle | 'rotation' | null => {
+  // Get resize handle at point, with the selected element or group it belongs to
+  const getSelectionHandleAtPoint = useCallback(
+    (x: number, y: number) => {
       const renderer = rendererRef.current
       if (!renderer || !currentSlide) return null
 
-      // Check selected elements for resize handles
-      for (const elementId of selectedElementIds) {
-        const element = currentSlide.elements.find((el) => el.id === elementId)
-        if (element) {
-          const handle = renderer.getResizeHandleAtPoint(element, viewport, x, y)
-          if (handle) return handle
-        }
+      // Check the frames of selected elements and groups for resize handles
+      for (const selection of getSelectionFrames(currentSlide.elements, selectedElementIds)) {
+        // A single connector has endpoint handles instead of a frame,
+        // and an image being cropped has crop handles
+        const [firstId] = selection.elementIds
+        const element = currentSlide.elements.find((el) => el.id === firstId)
+        if (!selection.isGroup && element?.type === 'connector') continue
+        if (!selection.isGroup && firstId === croppingElementId) continue
+
+        const handle = renderer.getResizeHandleAtPoint(selection.frame, viewport, x, y)
+        if (handle) return { handle, selection }
+      }
+
+      return null
+    },
+    [currentSlide, selectedElementIds, croppingElementId, viewport]
+  )
+
+  // Get the endpoint handle of a selected connector at point
+  const getConnectorHandleAtPoint = useCallback(
+    (x: number, y: number) => {
+      const renderer = rendererRef.current
+      if (!renderer || !currentSlide) return null
+
+      for (const id of selectedElementIds) {
+        const connector = currentSlide.elements.find((el) => el.id === id)
+        if (connector?.type !== 'connector' || connector.groupId) continue
+        const end = renderer.getConnectorHandleAtPoint(connector, currentSlide.elements, viewport, x, y)
+        if (end) return { connector, end }
       }
 
       return null
@@ -224,6 +284,28 @@ export function useCanvasRenderer(
     [currentSlide, selectedElementIds, viewport]
   )
 
+  // Get the image being cropped and its crop handle at point
+  const getCropHandleAtPoint = useCallback(
+    (x: number, y: number) => {
+      const renderer = rendererRef.current
+      if (!renderer || !currentSlide || !croppingElementId) return null
+
+      const element = currentSlide.elements.find((el) => el.id === croppingElementId)
+      if (element?.type !== 'image') return null
+      const image = renderer.getCroppableImage(element)
+      const handle = renderer.getResizeHandleAtPoint(image, viewport, x, y)
+      return { image, handle: handle && handle !== 'rotation' ? handle : null }
+    },
+    [currentSlide, croppingElementId, viewport]
+  )
+
+  // Get resize handle at point
+  const getResizeHandleAtPoint = useCallback(
+    (x: number, y: number): ResizeHandle | 'rotation' | null =>
+      getSelectionHandleAtPoint(x, y)?.handle ?? null,
+    [getSelectionHandleAtPoint]
+  )
+
   // Canvas to slide coordinates
   const canvasToSlideCoords = useCallback(
     (x: number, y: number) => {
@@ -250,9 +332,12 @@ export function useCanvasRenderer(
     forceRender,
     getElementAtPoint,
     getResizeHandleAtPoint,
+    getSelectionHandleAtPoint,
+    getConnectorHandleAtPoint,
+    getCropHandleAtPoint,
     canvasToSlideCoords,
     exportToDataURL,
-  }), [canvasRef, isReady, forceRender, getElementAtPoint, getResizeHandleAtPoint, canvasToSlideCoords, exportToDataURL])
+  }), [canvasRef, isReady, forceRender, getElementAtPoint, getResizeHandleAtPoint, getSelectionHandleAtPoint, getConnectorHandleAtPoint, getCropHandleAtPoint, canvasToSlideCoords, exportToDataURL])
 }
 
 export default useCanvasRenderer
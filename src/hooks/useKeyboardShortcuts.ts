@@ -15,6 +15,8 @@ import {
   type AlignmentType,
   type DistributionType,
 } from '@/utils/alignmentUtils'
+import { canGroup, canUngroup, remapGroupIds } from '@/utils/groupUtils'
+import { copyConnector } from '@/utils/connectorUtils'
 
 // Note: KeyboardShortcut interface reserved for future use when implementing
 // a configurable keyboard shortcuts system
@@ -54,6 +56,8 @@ export function useKeyboardShortcuts() {
   const clipboard = useEditorStore((state) => state.clipboard)
   const copyElements = useEditorStore((state) => state.copyElements)
   const selectElements = useEditorStore((state) => state.selectElements)
+  const croppingElementId = useEditorStore((state) => state.croppingElementId)
+  const stopCropping = useEditorStore((state) => state.stopCropping)
 
   // Zoom actions
   const zoomIn = useEditorStore((state) => state.zoomIn)
@@ -66,6 +70,8 @@ export function useKeyboardShortcuts() {
   const addElement = usePresentationStore((state) => state.addElement)
   const getSlide = usePresentationStore((state) => state.getSlide)
   const updateElements = usePresentationStore((state) => state.updateElements)
+  const groupElements = usePresentationStore((state) => state.groupElements)
+  const ungroupElements = usePresentationStore((state) => state.ungroupElements)
 
   /**
    * Handle delete key for selected elements
@@ -143,21 +149,30 @@ export function useKeyboardShortcuts() {
     const newElementIds: string[] = []
     const isSameSlide = clipboard.sourceSlideId === currentSlideId
 
-    elementsToCopy.forEach((element) => {
-      const newId = generateId()
+    // Apply offset only when pasting to the same slide
+    // This makes pasted elements visible instead of exactly overlapping
+    const offset = isSameSlide ? PASTE_OFFSET : 0
+    // New IDs up front, so pasted connectors can attach to the pasted copies
+    const idMap = new Map(elementsToCopy.map((element) => [element.id, generateId()]))
+
+    // Copied groups become new groups instead of joining the originals
+    remapGroupIds(elementsToCopy, generateId).forEach((element) => {
+      const newId = idMap.get(element.id) ?? generateId()
       newElementIds.push(newId)
 
       // Deep copy the element and assign new ID
-      const duplicatedElement: SlideElement = {
-        ...(JSON.parse(JSON.stringify(element)) as SlideElement),
-        id: newId,
-        position: {
-          // Apply offset only when pasting to the same slide
-          // This makes pasted elements visible instead of exactly overlapping
-          x: element.position.x + (isSameSlide ? PASTE_OFFSET : 0),
-          y: element.position.y + (isSameSlide ? PASTE_OFFSET : 0),
-        },
-      }
+      const copy = JSON.parse(JSON.stringify(element)) as SlideElement
+      const duplicatedElement: SlideElement =
+        copy.type === 'connector'
+          ? { ...copyConnector(copy, idMap, { x: offset, y: offset }), id: newId }
+          : {
+              ...copy,
+              id: newId,
+              position: {
+                x: element.position.x + offset,
+                y: element.position.y + offset,
+              },
+            }
 
       // Add the duplicated element to the current slide
       addElement(currentPresentationId, currentSlideId, duplicatedElement)
@@ -287,6 +302,30 @@ export function useKeyboardShortcuts() {
     [currentPresentationId, currentSlideId, getSelectedElements, updateElements]
   )
 
+  /**
+   * Handle group shortcut (Ctrl+G / Cmd+G)
+   * Groups the selected elements so they move, resize and rotate as a unit
+   */
+  const handleGroup = useCallback(() => {
+    if (!currentPresentationId || !currentSlideId) return
+    if (!canGroup(getSelectedElements())) return
+
+    useHistoryStore.getState().recordSnapshot('Group elements')
+    groupElements(currentPresentationId, currentSlideId, selectedElementIds)
+  }, [currentPresentationId, currentSlideId, getSelectedElements, groupElements, selectedElementIds])
+
+  /**
+   * Handle ungroup shortcut (Ctrl+Shift+G / Cmd+Shift+G)
+   * Dissolves the groups of the selected elements, keeping the elements selected
+   */
+  const handleUngroup = useCallback(() => {
+    if (!currentPresentationId || !currentSlideId) return
+    if (!canUngroup(getSelectedElements())) return
+
+    useHistoryStore.getState().recordSnapshot('Ungroup elements')
+    ungroupElements(currentPresentationId, currentSlideId, selectedElementIds)
+  }, [currentPresentationId, currentSlideId, getSelectedElements, ungroupElements, selectedElementIds])
+
   /**
    * Handle arrow key movement for selected elements
    * @param direction - The direction to move ('up' | 'down' | 'left' | 'right')
@@ -423,6 +462,20 @@ export function useKeyboardShortcuts() {
         return
       }
 
+      // Ctrl+Shift+G or Cmd+Shift+G - Ungroup selected elements
+      if (isCtrlOrMeta && event.shiftKey && event.key.toLowerCase() === 'g') {
+        event.preventDefault()
+        handleUngroup()
+        return
+      }
+
+      // Ctrl+G or Cmd+G - Group selected elements
+      if (isCtrlOrMeta && event.key === 'g') {
+        event.preventDefault()
+        handleGroup()
+        return
+      }
+
       // Delete or Backspace - Delete selected elements
       if (event.key === 'Delete' || event.key === 'Backspace') {
         // Don't delete if no elements are selected
@@ -433,6 +486,13 @@ export function useKeyboardShortcuts() {
         return
       }
 
+      // Enter or Escape - Finish cropping, keeping the image selected
+      if (croppingElementId && (event.key === 'Enter' || event.key === 'Escape')) {
+        event.preventDefault()
+        stopCropping()
+        return
+      }
+
       // Escape - Clear selection
       if (event.key === 'Escape') {
         clearSelection()
@@ -508,7 +568,7 @@ export function useKeyboardShortcuts() {
         }
       }
     },
-    [handleUndo, handleRedo, handleSave, handleCopy, handlePaste, handleDelete, handleAlign, handleDistribute, handleArrowMove, handleZoomIn, handleZoomOut, handleResetZoom, handleZoomToFit, selectedElementIds, clearSelection]
+    [handleUndo, handleRedo, handleSave, handleCopy, handlePaste, handleDelete, handleGroup, handleUngroup, handleAlign, handleDistribute, handleArrowMove, handleZoomIn, handleZoomOut, handleResetZoom, handleZoomToFit, selectedElementIds, clearSelection, croppingElementId, stopCropping]
   )
 
   /**
@@ -528,6 +588,8 @@ export function useKeyboardShortcuts() {
     deleteSelected: handleDelete,
     copy: handleCopy,
     paste: handlePaste,
+    group: handleGroup,
+    ungroup: handleUngroup,
     alignLeft: () => { handleAlign('left'); },
     alignCenter: () => { handleAlign('center'); },
     alignRight: () => { handleAlign('right'); },
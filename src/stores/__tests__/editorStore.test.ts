@@ -255,6 +255,77 @@ describe('editorStore', () => {
         expect(useEditorStore.getState().hoveredElementId).toBeNull()
       })
     })
+
+    describe('selectTableCell', () => {
+      it('should select a single cell', () => {
+        act(() => {
+          useEditorStore.getState().selectTableCell('table-1', { row: 1, col: 2 })
+        })
+
+        expect(useEditorStore.getState().tableCellSelection).toEqual({
+          elementId: 'table-1',
+          anchor: { row: 1, col: 2 },
+          focus: { row: 1, col: 2 },
+        })
+      })
+
+      it('should extend the selection from its anchor in the same table', () => {
+        act(() => {
+          useEditorStore.getState().selectTableCell('table-1', { row: 0, col: 0 })
+          useEditorStore.getState().selectTableCell('table-1', { row: 2, col: 1 }, true)
+        })
+
+        expect(useEditorStore.getState().tableCellSelection).toEqual({
+          elementId: 'table-1',
+          anchor: { row: 0, col: 0 },
+          focus: { row: 2, col: 1 },
+        })
+
+        act(() => {
+          useEditorStore.getState().selectTableCell('table-2', { row: 1, col: 1 }, true)
+        })
+
+        expect(useEditorStore.getState().tableCellSelection?.anchor).toEqual({ row: 1, col: 1 })
+      })
+
+      it('should be cleared when the element selection changes', () => {
+        act(() => {
+          useEditorStore.getState().selectTableCell('table-1', { row: 0, col: 0 })
+          useEditorStore.getState().selectElement('element-1')
+        })
+
+        expect(useEditorStore.getState().tableCellSelection).toBeNull()
+      })
+    })
+
+    describe('startCropping', () => {
+      it('should select the image and start cropping it', () => {
+        act(() => {
+          useEditorStore.getState().selectElements(['element-1', 'image-1'])
+          useEditorStore.getState().startCropping('image-1')
+        })
+
+        expect(useEditorStore.getState().selectedElementIds).toEqual(['image-1'])
+        expect(useEditorStore.getState().croppingElementId).toBe('image-1')
+      })
+
+      it('should stop when asked or when the selection changes', () => {
+        act(() => {
+          useEditorStore.getState().startCropping('image-1')
+          useEditorStore.getState().stopCropping()
+        })
+
+        expect(useEditorStore.getState().croppingElementId).toBeNull()
+        expect(useEditorStore.getState().selectedElementIds).toEqual(['image-1'])
+
+        act(() => {
+          useEditorStore.getState().startCropping('image-1')
+          useEditorStore.getState().clearSelection()
+        })
+
+        expect(useEditorStore.getState().croppingElementId).toBeNull()
+      })
+    })
   })
 
   describe('Tool Actions', () => {
@@ -5,7 +5,13 @@
 
 import { act } from '@testing-library/react'
 import { usePresentationStore } from '../presentationStore'
-import type { TextElement, ShapeElement } from '../../types/presentation'
+import { useAssetStore } from '../assetStore'
+import { useHistoryStore } from '../historyStore'
+import type { TextElement, ShapeElement, ImageElement } from '../../types/presentation'
+import { createBlankPresentation } from '../../types/presentation'
+import { createConnectorElement } from '../../utils/connectorUtils'
+import { createLocalStorageAdapter } from '../../utils/storageAdapters'
+import { exportAllPresentationsToJson } from '../../utils/localStorage'
 
 // Helper to reset the store between tests
 const resetStore = () => {
@@ -13,7 +19,9 @@ const resetStore = () => {
     usePresentationStore.setState({
       presentations: [],
       currentPresentationId: null,
+      unloadedPresentationIds: [],
     })
+    useAssetStore.setState({ assets: {} })
   })
 }
 
@@ -972,6 +980,349 @@ describe('presentationStore', () => {
         expect(el3?.zIndex).toBe(0) // Lowest zIndex
       })
     })
+
+    describe('groupElements', () => {
+      it('should give the elements a shared group id', () => {
+        const { addElement, groupElements } = usePresentationStore.getState()
+
+        act(() => {
+          addElement(presentationId, slideId, createTestTextElement('element-1'))
+          addElement(presentationId, slideId, createTestShapeElement('element-2'))
+          addElement(presentationId, slideId, createTestShapeElement('element-3'))
+        })
+
+        let groupId: string | null = null
+        act(() => {
+          groupId = groupElements(presentationId, slideId, ['element-1', 'element-2'])
+        })
+
+        expect(groupId).not.toBeNull()
+        const elements = getFirstSlide().elements
+        expect(elements.map((e) => e.groupId)).toEqual([groupId, groupId, undefined])
+      })
+
+      it('should not group a single element', () => {
+        const { addElement, groupElements } = usePresentationStore.getState()
+
+        act(() => {
+          addElement(presentationId, slideId, createTestTextElement('element-1'))
+        })
+
+        expect(groupElements(presentationId, slideId, ['element-1'])).toBeNull()
+        expect(getFirstSlide().elements[0]?.groupId).toBeUndefined()
+      })
+    })
+
+    describe('ungroupElements', () => {
+      it('should remove the group from all of its members', () => {
+        const { addElement, groupElements, ungroupElements } = usePresentationStore.getState()
+
+        act(() => {
+          addElement(presentationId, slideId, createTestTextElement('element-1'))
+          addElement(presentationId, slideId, createTestShapeElement('element-2'))
+          groupElements(presentationId, slideId, ['element-1', 'element-2'])
+        })
+
+        act(() => {
+          ungroupElements(presentationId, slideId, ['element-1'])
+        })
+
+        expect(getFirstSlide().elements.every((e) => e.groupId === undefined)).toBe(true)
+      })
+    })
+
+    describe('connectors', () => {
+      // Shape at (50, 50) 100x100 has its right connection point at (150, 100)
+      const addConnectedShapes = () => {
+        const { addElement } = usePresentationStore.getState()
+        const target: ShapeElement = {
+          ...createTestShapeElement('target'),
+          position: { x: 300, y: 50 },
+        }
+        act(() => {
+          addElement(presentationId, slideId, createTestShapeElement('source'))
+          addElement(presentationId, slideId, target)
+          addElement(
+            presentationId,
+            slideId,
+            createConnectorElement(
+              'connector',
+              { position: { x: 150, y: 100 }, attachment: { elementId: 'source', side: 'right' } },
+              { position: { x: 300, y: 100 }, attachment: { elementId: 'target', side: 'left' } },
+              2
+            )
+          )
+        })
+      }
+
+      const getConnector = () => {
+        const connector = getFirstSlide().elements.find((e) => e.id === 'connector')
+        if (connector?.type !== 'connector') throw new Error('No connector found')
+        return connector
+      }
+
+      it('should re-route attached connectors when an element moves', () => {
+        addConnectedShapes()
+
+        act(() => {
+          usePresentationStore
+            .getState()
+            .updateElement(presentationId, slideId, 'target', { position: { x: 300, y: 150 } })
+        })
+
+        const connector = getConnector()
+        expect(connector.end.position).toEqual({ x: 300, y: 200 })
+        expect(connector.end.attachment?.elementId).toBe('target')
+        expect(connector.position).toEqual({ x: 150, y: 100 })
+        expect(connector.dimensions).toEqual({ width: 150, height: 100 })
+      })
+
+      it('should keep attachments when a connector moves with its elements', () => {
+        addConnectedShapes()
+
+        act(() => {
+          usePresentationStore.getState().updateElements(presentationId, slideId, [
+            { id: 'source', changes: { position: { x: 60, y: 50 } } },
+            { id: 'target', changes: { position: { x: 310, y: 50 } } },
+            { id: 'connector', changes: { position: { x: 160, y: 100 } } },
+          ])
+        })
+
+        const connector = getConnector()
+        expect(connector.start).toEqual({
+          position: { x: 160, y: 100 },
+          attachment: { elementId: 'source', side: 'right' },
+        })
+        expect(connector.end.attachment?.elementId).toBe('target')
+      })
+
+      it('should detach a connector that is moved on its own', () => {
+        addConnectedShapes()
+
+        act(() => {
+          usePresentationStore
+            .getState()
+            .updateElement(presentationId, slideId, 'connector', { position: { x: 150, y: 120 } })
+        })
+
+        const connector = getConnector()
+        expect(connector.start).toEqual({ position: { x: 150, y: 120 } })
+        expect(connector.end).toEqual({ position: { x: 300, y: 120 } })
+      })
+
+      it('should detach connectors from deleted elements', () => {
+        addConnectedShapes()
+
+        act(() => {
+          usePresentationStore.getState().deleteElements(presentationId, slideId, ['target'])
+        })
+
+        const connector = getConnector()
+        expect(connector.end).toEqual({ position: { x: 300, y: 100 } })
+        expect(connector.start.attachment?.elementId).toBe('source')
+      })
+    })
+  })
+
+  describe('Asset Library', () => {
+    const DATA_URL = 'data:image/png;base64,aW1hZ2U='
+    let presentationId: string
+    let slideId: string
+
+    const image: ImageElement = {
+      id: 'image',
+      type: 'image',
+      position: { x: 0, y: 0 },
+      dimensions: { width: 100, height: 100 },
+      rotation: 0,
+      zIndex: 0,
+      opacity: 1,
+      locked: false,
+      src: DATA_URL,
+      alt: 'Image',
+      objectFit: 'contain',
+    }
+
+    beforeEach(() => {
+      act(() => {
+        presentationId = usePresentationStore.getState().createPresentation('Assets')
+      })
+      slideId = getFirstSlide().id
+      act(() => {
+        usePresentationStore.getState().addElement(presentationId, slideId, image)
+      })
+    })
+
+    it('should store embedded images in the asset library', () => {
+      const element = getFirstSlide().elements[0]
+      const src = element?.type === 'image' ? element.src : ''
+      expect(src).toMatch(/^asset:/)
+      expect(useAssetStore.getState().getAssetUrl(src)).toBe(DATA_URL)
+    })
+
+    it('should share assets between duplicates', () => {
+      act(() => {
+        usePresentationStore.getState().duplicatePresentation(presentationId)
+        usePresentationStore.getState().updateSlideBackground(presentationId, slideId, {
+          type: 'image',
+          imageSrc: DATA_URL,
+        })
+      })
+      expect(Object.keys(useAssetStore.getState().assets)).toHaveLength(1)
+    })
+
+    it('should collect assets when the last reference is deleted', () => {
+      act(() => {
+        usePresentationStore.getState().duplicateSlide(presentationId, slideId)
+        usePresentationStore.getState().deleteElement(presentationId, slideId, 'image')
+      })
+      expect(Object.keys(useAssetStore.getState().assets)).toHaveLength(1)
+
+      act(() => {
+        usePresentationStore.getState().deletePresentation(presentationId)
+      })
+      expect(useAssetStore.getState().assets).toEqual({})
+    })
+
+    it('should restore collected assets on undo', () => {
+      act(() => {
+        useHistoryStore.getState().clearHistory()
+        useHistoryStore.getState().recordSnapshot('Before delete')
+        usePresentationStore.getState().deleteElement(presentationId, slideId, 'image')
+      })
+      expect(useAssetStore.getState().assets).toEqual({})
+
+      act(() => {
+        useHistoryStore.getState().undo()
+      })
+      const element = getFirstSlide().elements[0]
+      const src = element?.type === 'image' ? element.src : ''
+      expect(useAssetStore.getState().getAssetUrl(src)).toBe(DATA_URL)
+    })
+  })
+
+  describe('Import', () => {
+    const brokenExport = () => {
+      const presentation = createBlankPresentation('imported', 'Imported')
+      const [slide] = presentation.slides
+      return JSON.stringify({
+        version: 3,
+        presentations: [
+          { ...presentation, slides: [{ ...slide, elements: [{ id: 'broken', type: 'shape' }] }] },
+        ],
+      })
+    }
+
+    it('should not import presentations with invalid content', () => {
+      const result = usePresentationStore.getState().importPresentationsFromJson(brokenExport())
+
+      expect(result.success).toBe(false)
+      expect(usePresentationStore.getState().presentations).toHaveLength(0)
+    })
+
+    it('should import repaired presentations', () => {
+      let result
+      act(() => {
+        result = usePresentationStore
+          .getState()
+          .importPresentationsFromJson(brokenExport(), { repair: true })
+      })
+
+      expect(result).toMatchObject({ success: true })
+      const [imported] = usePresentationStore.getState().presentations
+      expect(imported?.name).toBe('Imported')
+      expect(imported?.slides[0]?.elements).toEqual([])
+    })
+
+    it('should preview conflicts without importing', () => {
+      const existing = createBlankPresentation('existing', 'Existing')
+      act(() => {
+        usePresentationStore.setState({ presentations: [existing] })
+      })
+
+      const result = usePresentationStore
+        .getState()
+        .previewImportFromJson(exportAllPresentationsToJson([{ ...existing, name: 'Backup' }]))
+
+      expect(result.data?.[0]).toMatchObject({ match: existing, matchedBy: 'id' })
+      expect(usePresentationStore.getState().presentations).toEqual([existing])
+    })
+
+    it('should overwrite, keep both or skip conflicting presentations', () => {
+      const first = createBlankPresentation('first', 'First')
+      const second = createBlankPresentation('second', 'Second')
+      act(() => {
+        usePresentationStore.setState({
+          presentations: [first, second],
+          unloadedPresentationIds: ['first'],
+        })
+      })
+      const { data: items = [] } = usePresentationStore
+        .getState()
+        .previewImportFromJson(
+          exportAllPresentationsToJson([
+            { ...first, name: 'First (backup)', slides: [...first.slides, ...first.slides] },
+            second,
+            createBlankPresentation('third', 'Second'),
+          ])
+        )
+
+      act(() => {
+        usePresentationStore.getState().applyImport(items, ['overwrite', 'skip', 'add'])
+      })
+
+      const state = usePresentationStore.getState()
+      expect(state.presentations.map((p) => [p.id, p.name])).toEqual([
+        ['first', 'First (backup)'],
+        ['second', 'Second'],
+        [expect.any(String), 'Second'],
+      ])
+      expect(state.presentations[0]?.slides).toHaveLength(2)
+      expect(state.presentations[0]?.createdAt).toBe(first.createdAt)
+      expect(state.presentations[2]?.id).not.toBe('third')
+      expect(state.unloadedPresentationIds).toEqual([])
+    })
+  })
+
+  describe('Lazy Loading', () => {
+    // Helper to store a presentation and list it in the store without its slides
+    const storeUnloadedPresentation = async () => {
+      const stored = createBlankPresentation('stored', 'Stored')
+      await createLocalStorageAdapter().savePresentation(stored)
+      act(() => {
+        usePresentationStore.setState({
+          presentations: [{ ...stored, slides: [] }],
+          unloadedPresentationIds: [stored.id],
+        })
+      })
+      return stored
+    }
+
+    it('should load the slides of a presentation listed without them', async () => {
+      const stored = await storeUnloadedPresentation()
+
+      const loaded = await usePresentationStore.getState().loadPresentation(stored.id)
+
+      expect(loaded?.slides).toEqual(stored.slides)
+      expect(usePresentationStore.getState().unloadedPresentationIds).toEqual([])
+    })
+
+    it('should not duplicate a presentation whose slides are not loaded', async () => {
+      const stored = await storeUnloadedPresentation()
+
+      expect(usePresentationStore.getState().duplicatePresentation(stored.id)).toBeNull()
+    })
+
+    it('should keep assets while some presentations are not loaded', async () => {
+      await storeUnloadedPresentation()
+      const ref = useAssetStore.getState().addAsset('data:image/png;base64,cmVk')
+
+      act(() => {
+        usePresentationStore.getState().deletePresentation('missing')
+      })
+
+      expect(useAssetStore.getState().getAssetUrl(ref)).not.toBe('')
+    })
   })
 
   describe('Selector Methods', () => {
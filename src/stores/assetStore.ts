@@ -0,0 +1,106 @@
+/**
+ * Zustand store for the shared asset library.
+ * Images are stored once per content and referenced by id from image elements
+ * and slide backgrounds, so duplicating slides or presentations doesn't copy them.
+ *
+ * Assets are collected when no presentation references them anymore. Undo history
+ * keeps the library of each snapshot, so undoing a delete restores its images.
+ */
+
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import type { Presentation } from '../types/presentation'
+import {
+  addAsset,
+  assetRef,
+  internAssets,
+  resolveAssetSrc,
+  removeUnusedAssets,
+  type AssetLibrary,
+} from '../utils/assetLibrary'
+import { createAssetStorage } from '../utils/presentationPersistence'
+import { useNotificationStore } from './notificationStore'
+
+/**
+ * Asset store state interface
+ */
+interface AssetState {
+  assets: AssetLibrary
+
+  // Actions
+  /** Store image data, returning the asset reference to use as an image source */
+  addAsset: (dataUrl: string) => string
+  /** Move the embedded images of a presentation into the library */
+  internAssets: (presentation: Presentation) => Presentation
+  /** Add back the assets of a library that are missing, e.g. when restoring a history snapshot */
+  restoreAssets: (assets: AssetLibrary) => void
+  /** Remove the assets none of the presentations reference, returning how many were removed */
+  collectGarbage: (presentations: Presentation[]) => number
+  /** Get the URL an image source is loaded from */
+  getAssetUrl: (src: string) => string
+}
+
+/**
+ * Asset store for managing shared image data
+ */
+export const useAssetStore = create<AssetState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        assets: {},
+
+        addAsset: (dataUrl) => {
+          const { library, id } = addAsset(get().assets, dataUrl)
+          if (library !== get().assets) {
+            set({ assets: library }, undefined, 'addAsset')
+          }
+          return assetRef(id)
+        },
+
+        internAssets: (presentation) => {
+          const result = internAssets(presentation, get().assets)
+          if (result.library !== get().assets) {
+            set({ assets: result.library }, undefined, 'internAssets')
+          }
+          return result.presentation
+        },
+
+        restoreAssets: (assets) => {
+          const current = get().assets
+          const missing = Object.keys(assets).filter((id) => !current[id])
+          if (missing.length === 0) return
+          set({ assets: { ...assets, ...current } }, undefined, 'restoreAssets')
+        },
+
+        collectGarbage: (presentations) => {
+          const current = get().assets
+          const library = removeUnusedAssets(current, presentations)
+          if (library === current) return 0
+          set({ assets: library }, undefined, 'collectGarbage')
+          return Object.keys(current).length - Object.keys(library).length
+        },
+
+        getAssetUrl: (src) => resolveAssetSrc(src, get().assets),
+      }),
+      {
+        name: 'presentation-assets',
+        storage: createAssetStorage({
+          onError: (message) => {
+            useNotificationStore.getState().error('Images not saved', message)
+          },
+        }),
+        partialize: (state) => ({ assets: state.assets }),
+      }
+    ),
+    { name: 'AssetStore' }
+  )
+)
+
+/**
+ * Get the URL an image source is loaded from, outside of React components
+ */
+export function resolveAssetUrl(src: string): string {
+  return useAssetStore.getState().getAssetUrl(src)
+}
+
+export default useAssetStore
@@ -12,6 +12,7 @@ import type {
   InteractionMode,
   ResizeHandle,
   ViewportState,
+  TableCellPosition,
 } from '../types/editor'
 import { DEFAULT_EDITOR_STATE, ZOOM_MIN, ZOOM_MAX, ZOOM_STEP } from '../types/editor'
 
@@ -31,6 +32,11 @@ interface EditorStoreState extends EditorState {
   removeFromSelection: (id: string) => void
   clearSelection: () => void
   setHoveredElement: (id: string | null) => void
+  selectTableCell: (elementId: string, cell: TableCellPosition, extend?: boolean) => void
+  clearTableCellSelection: () => void
+  /** Select an image and edit its crop on the canvas; any selection change ends cropping */
+  startCropping: (elementId: string) => void
+  stopCropping: () => void
 
   // Tool actions
   setActiveTool: (tool: EditorTool) => void
@@ -91,6 +97,8 @@ export const useEditorStore = create<EditorStoreState>()(
             currentSlideId: id,
             selectedElementIds: [],
             hoveredElementId: null,
+            tableCellSelection: null,
+            croppingElementId: null,
           },
           undefined,
           'setCurrentSlide'
@@ -99,11 +107,19 @@ export const useEditorStore = create<EditorStoreState>()(
 
       // Selection actions
       selectElement: (id) => {
-        set({ selectedElementIds: [id] }, undefined, 'selectElement')
+        set(
+          { selectedElementIds: [id], tableCellSelection: null, croppingElementId: null },
+          undefined,
+          'selectElement'
+        )
       },
 
       selectElements: (ids) => {
-        set({ selectedElementIds: ids }, undefined, 'selectElements')
+        set(
+          { selectedElementIds: ids, tableCellSelection: null, croppingElementId: null },
+          undefined,
+          'selectElements'
+        )
       },
 
       addToSelection: (id) => {
@@ -147,19 +163,54 @@ export const useEditorStore = create<EditorStoreState>()(
       },
 
       clearSelection: () => {
-        set({ selectedElementIds: [] }, undefined, 'clearSelection')
+        set(
+          { selectedElementIds: [], tableCellSelection: null, croppingElementId: null },
+          undefined,
+          'clearSelection'
+        )
       },
 
       setHoveredElement: (id) => {
         set({ hoveredElementId: id }, undefined, 'setHoveredElement')
       },
 
+      selectTableCell: (elementId, cell, extend = false) => {
+        set(
+          (state) => {
+            const current = state.tableCellSelection
+            // Extending keeps the anchor of a selection in the same table
+            const anchor = extend && current?.elementId === elementId ? current.anchor : cell
+            return { tableCellSelection: { elementId, anchor, focus: cell } }
+          },
+          undefined,
+          'selectTableCell'
+        )
+      },
+
+      clearTableCellSelection: () => {
+        set({ tableCellSelection: null }, undefined, 'clearTableCellSelection')
+      },
+
+      startCropping: (elementId) => {
+        set(
+          { selectedElementIds: [elementId], tableCellSelection: null, croppingElementId: elementId },
+          undefined,
+          'startCropping'
+        )
+      },
+
+      stopCropping: () => {
+        set({ croppingElementId: null }, undefined, 'stopCropping')
+      },
+
       // Tool actions
       setActiveTool: (tool) => {
         set(
           {
             activeTool: tool,
             selectedElementIds: [],
+            tableCellSelection: null,
+            croppingElementId: null,
             interactionMode: 'idle',
           },
           undefined,
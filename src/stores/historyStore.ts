@@ -6,8 +6,10 @@
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
 import type { Presentation } from '../types/presentation'
+import type { AssetLibrary } from '../utils/assetLibrary'
 import { usePresentationStore } from './presentationStore'
 import { useEditorStore } from './editorStore'
+import { useAssetStore } from './assetStore'
 
 /**
  * Maximum number of history entries to keep
@@ -23,6 +25,33 @@ export interface HistorySnapshot {
   description: string
   presentations: Presentation[]
   currentPresentationId: string | null
+  /** Presentations whose slides weren't loaded, so the snapshot holds them without slides */
+  unloadedPresentationIds: string[]
+  /** Asset library at the time, so restoring the snapshot can bring back collected images */
+  assets: AssetLibrary
+}
+
+/**
+ * Restore the presentations of a snapshot, with the images they reference.
+ * Presentations that were listed without slides in the snapshot but have been loaded
+ * since keep their current slides, so restoring never replaces slides with nothing.
+ */
+function restoreSnapshot(snapshot: HistorySnapshot): void {
+  const { presentations: current, unloadedPresentationIds } = usePresentationStore.getState()
+  const loaded = new Map(
+    current.filter((p) => !unloadedPresentationIds.includes(p.id)).map((p) => [p.id, p])
+  )
+  const presentations: Presentation[] = JSON.parse(JSON.stringify(snapshot.presentations))
+
+  useAssetStore.getState().restoreAssets(snapshot.assets)
+  usePresentationStore.setState({
+    presentations: presentations.map((p) => {
+      const slides = snapshot.unloadedPresentationIds.includes(p.id) && loaded.get(p.id)?.slides
+      return slides ? { ...p, slides } : p
+    }),
+    currentPresentationId: snapshot.currentPresentationId,
+    unloadedPresentationIds: snapshot.unloadedPresentationIds.filter((id) => !loaded.has(id)),
+  })
 }
 
 /**
@@ -102,6 +131,8 @@ export const useHistoryStore = create<HistoryState>()(
           description,
           presentations: JSON.parse(JSON.stringify(presentationState.presentations)),
           currentPresentationId: presentationState.currentPresentationId,
+          unloadedPresentationIds: presentationState.unloadedPresentationIds,
+          assets: useAssetStore.getState().assets,
         }
 
         set(
@@ -145,6 +176,8 @@ export const useHistoryStore = create<HistoryState>()(
           description: 'Current state',
           presentations: JSON.parse(JSON.stringify(presentationState.presentations)),
           currentPresentationId: presentationState.currentPresentationId,
+          unloadedPresentationIds: presentationState.unloadedPresentationIds,
+          assets: useAssetStore.getState().assets,
         }
 
         // Get the previous state
@@ -155,10 +188,7 @@ export const useHistoryStore = create<HistoryState>()(
         set({ isUndoRedoAction: true }, undefined, 'setUndoRedoFlag')
 
         // Restore the previous presentation state
-        usePresentationStore.setState({
-          presentations: JSON.parse(JSON.stringify(previousSnapshot.presentations)),
-          currentPresentationId: previousSnapshot.currentPresentationId,
-        })
+        restoreSnapshot(previousSnapshot)
 
         set(
           (state) => {
@@ -198,6 +228,8 @@ export const useHistoryStore = create<HistoryState>()(
           description: 'Current state',
           presentations: JSON.parse(JSON.stringify(presentationState.presentations)),
           currentPresentationId: presentationState.currentPresentationId,
+          unloadedPresentationIds: presentationState.unloadedPresentationIds,
+          assets: useAssetStore.getState().assets,
         }
 
         // Get the next state
@@ -208,10 +240,7 @@ export const useHistoryStore = create<HistoryState>()(
         set({ isUndoRedoAction: true }, undefined, 'setUndoRedoFlag')
 
         // Restore the next presentation state
-        usePresentationStore.setState({
-          presentations: JSON.parse(JSON.stringify(nextSnapshot.presentations)),
-          currentPresentationId: nextSnapshot.currentPresentationId,
-        })
+        restoreSnapshot(nextSnapshot)
 
         set(
           (state) => {
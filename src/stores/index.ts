@@ -5,6 +5,7 @@
 
 export { usePresentationStore, default as presentationStore } from './presentationStore'
 export { useEditorStore, default as editorStore } from './editorStore'
+export { useAssetStore, resolveAssetUrl, default as assetStore } from './assetStore'
 export {
   useNotificationStore,
   default as notificationStore,
@@ -24,9 +25,10 @@ export {
   importAllPresentationsFromJson,
   downloadFile,
   triggerFileImport,
+  triggerBinaryFileImport,
   isLocalStorageAvailable,
-  getStorageInfo,
   STORAGE_KEYS,
   CURRENT_STORAGE_VERSION,
   type StorageResult,
 } from '../utils/localStorage'
+export { getStorageInfo, type StorageInfo } from '../utils/storageAdapters'
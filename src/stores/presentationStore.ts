@@ -3,6 +3,7 @@
  * This store handles all data operations for the presentation editor.
  */
 
+import { useSyncExternalStore } from 'react'
 import { create } from 'zustand'
 import { devtools, persist } from 'zustand/middleware'
 import type {
@@ -13,11 +14,25 @@ import type {
   SlideTransition,
   PresentationTheme,
 } from '../types/presentation'
-import { createBlankPresentation, createBlankSlide } from '../types/presentation'
+import {
+  createBlankPresentation,
+  createBlankSlide,
+  THEMED_SLIDE_BACKGROUND,
+} from '../types/presentation'
 import type { SlideLayoutType } from '../types/layout'
 import { createSlideWithLayout, applyLayoutToSlide } from '../types/layout'
+import { canGroup, groupElements, ungroupElements } from '../utils/groupUtils'
+import { remapElementIds, updateConnectors } from '../utils/connectorUtils'
+import { inlineAssets, isDataUrl } from '../utils/assetLibrary'
+import { useAssetStore } from './assetStore'
+import { useNotificationStore } from './notificationStore'
+import {
+  createPresentationStorage,
+  mergePersistedPresentations,
+  type PersistedPresentationState,
+} from '../utils/presentationPersistence'
+import { describeMigration } from '../utils/storageMigrations'
 import {
-  saveToLocalStorage,
   loadFromLocalStorage,
   clearLocalStorage,
   exportPresentationToJson,
@@ -25,8 +40,18 @@ import {
   importAllPresentationsFromJson,
   downloadFile,
   triggerFileImport,
+  triggerBinaryFileImport,
+  type ImportOptions,
   type StorageResult,
 } from '../utils/localStorage'
+import { formatValidationIssues } from '../utils/presentationSchema'
+import {
+  matchImportedPresentations,
+  planImport,
+  type ImportPreviewItem,
+  type ImportResolution,
+} from '../utils/importConflicts'
+import { importPresentationFromPptx, PPTX_FILE_ACCEPT } from '../utils/pptxImporter'
 
 /**
  * Generate a unique ID for entities
@@ -35,6 +60,57 @@ function generateId(): string {
   return `${String(Date.now())}-${Math.random().toString(36).slice(2, 11)}`
 }
 
+/**
+ * Move an embedded image of an element (or of changes to one) into the asset library,
+ * so the store only holds a reference to it
+ */
+function internElementImage<T extends Partial<SlideElement>>(element: T): T {
+  if (!('src' in element) || typeof element.src !== 'string' || !isDataUrl(element.src)) {
+    return element
+  }
+  return { ...element, src: useAssetStore.getState().addAsset(element.src) }
+}
+
+/**
+ * Remove the assets that no presentation references anymore.
+ * Skipped while some presentations' slides aren't loaded, since their references are unknown.
+ */
+function collectAssetGarbage(
+  presentations: Presentation[],
+  unloadedPresentationIds: string[] = []
+): void {
+  if (unloadedPresentationIds.length > 0) return
+  useAssetStore.getState().collectGarbage(presentations)
+}
+
+/**
+ * Storage of the store: one record per presentation, through the storage adapter
+ */
+const presentationStorage = createPresentationStorage({
+  onError: (message) => {
+    useNotificationStore.getState().error('Changes not saved', message)
+  },
+  onMigrate: (report) => {
+    useNotificationStore.getState().info('Presentations upgraded', describeMigration(report) ?? undefined)
+  },
+})
+
+/**
+ * Name the store is persisted under
+ */
+const STORE_NAME = 'presentation-storage'
+
+/**
+ * Get the persisted part of the store state
+ */
+function getPersistedState(state: PersistedPresentationState): PersistedPresentationState {
+  return {
+    presentations: state.presentations,
+    currentPresentationId: state.currentPresentationId,
+    unloadedPresentationIds: state.unloadedPresentationIds,
+  }
+}
+
 /**
  * Presentation store state interface
  */
@@ -42,12 +118,16 @@ interface PresentationState {
   // Data
   presentations: Presentation[]
   currentPresentationId: string | null
+  /** Presentations listed without their slides, which are loaded when the presentation is opened */
+  unloadedPresentationIds: string[]
 
   // Presentation actions
   createPresentation: (name?: string) => string
   deletePresentation: (id: string) => void
   updatePresentation: (id: string, updates: Partial<Omit<Presentation, 'id'>>) => void
   setCurrentPresentation: (id: string | null) => void
+  /** Load the slides of a presentation from storage if they aren't loaded yet */
+  loadPresentation: (id: string) => Promise<Presentation | undefined>
   duplicatePresentation: (id: string) => string | null
   updatePresentationTheme: (id: string, theme: Partial<PresentationTheme>) => void
 
@@ -98,6 +178,8 @@ interface PresentationState {
   sendElementBackward: (presentationId: string, slideId: string, elementId: string) => void
   bringElementToFront: (presentationId: string, slideId: string, elementId: string) => void
   sendElementToBack: (presentationId: string, slideId: string, elementId: string) => void
+  groupElements: (presentationId: string, slideId: string, elementIds: string[]) => string | null
+  ungroupElements: (presentationId: string, slideId: string, elementIds: string[]) => void
 
   // Selectors (computed helpers)
   getCurrentPresentation: () => Presentation | null
@@ -115,7 +197,39 @@ interface PresentationState {
   clearStorage: () => StorageResult<void>
   exportCurrentPresentation: () => void
   exportAllPresentations: () => void
-  importPresentations: (onComplete?: (result: StorageResult<Presentation[]>) => void) => void
+  /**
+   * Read the presentations of an export file without importing them, matching each
+   * against the existing presentation it conflicts with
+   */
+  previewImportFromJson: (
+    content: string,
+    options?: ImportOptions
+  ) => StorageResult<ImportPreviewItem[]>
+  /**
+   * Import previewed presentations with the resolution chosen for each item,
+   * returning the presentations added or overwritten
+   */
+  applyImport: (
+    items: ImportPreviewItem[],
+    resolutions: (ImportResolution | undefined)[]
+  ) => Presentation[]
+  /** Import presentations from the content of an export file, keeping both copies of conflicts */
+  importPresentationsFromJson: (
+    content: string,
+    options?: ImportOptions
+  ) => StorageResult<Presentation[]>
+  /**
+   * Let the user select a file to import and preview its presentations. When the file has
+   * invalid content, the user is offered to repair it, and `onPreview` is only called if they do.
+   */
+  importPresentations: (onPreview?: (result: StorageResult<ImportPreviewItem[]>) => void) => void
+  /** Preview a presentation converted from the data of a PowerPoint file */
+  previewImportFromPptx: (data: Uint8Array, fileName?: string) => StorageResult<ImportPreviewItem[]>
+  /**
+   * Let the user select a PowerPoint file to import and preview the presentation converted
+   * from it. The result lists the content that couldn't be converted.
+   */
+  importPptx: (onPreview?: (result: StorageResult<ImportPreviewItem[]>) => void) => void
 }
 
 /**
@@ -128,6 +242,7 @@ export const usePresentationStore = create<PresentationState>()(
         // Initial state
         presentations: [],
         currentPresentationId: null,
+        unloadedPresentationIds: [],
 
         // Presentation actions
         createPresentation: (name) => {
@@ -150,10 +265,12 @@ export const usePresentationStore = create<PresentationState>()(
               presentations: state.presentations.filter((p) => p.id !== id),
               currentPresentationId:
                 state.currentPresentationId === id ? null : state.currentPresentationId,
+              unloadedPresentationIds: state.unloadedPresentationIds.filter((u) => u !== id),
             }),
             undefined,
             'deletePresentation'
           )
+          collectAssetGarbage(get().presentations, get().unloadedPresentationIds)
         },
 
         updatePresentation: (id, updates) => {
@@ -172,10 +289,38 @@ export const usePresentationStore = create<PresentationState>()(
           set({ currentPresentationId: id }, undefined, 'setCurrentPresentation')
         },
 
+        loadPresentation: async (id) => {
+          if (!get().unloadedPresentationIds.includes(id)) return get().getPresentation(id)
+
+          try {
+            const slides = await presentationStorage.loadSlides(id)
+            // Another load may have finished first, or the presentation was deleted meanwhile
+            if (get().unloadedPresentationIds.includes(id)) {
+              set(
+                (state) => ({
+                  presentations: state.presentations.map((p) => (p.id === id ? { ...p, slides } : p)),
+                  unloadedPresentationIds: state.unloadedPresentationIds.filter((u) => u !== id),
+                }),
+                undefined,
+                'loadPresentation'
+              )
+            }
+          } catch (error) {
+            useNotificationStore
+              .getState()
+              .error(
+                'Failed to load presentation',
+                error instanceof Error ? error.message : 'Unknown error'
+              )
+          }
+          return get().getPresentation(id)
+        },
+
         duplicatePresentation: (id) => {
           const state = get()
           const original = state.presentations.find((p) => p.id === id)
-          if (!original) return null
+          // Duplicating a presentation whose slides aren't loaded would copy it without them
+          if (!original || state.unloadedPresentationIds.includes(id)) return null
 
           const newId = generateId()
           const now = new Date().toISOString()
@@ -186,7 +331,7 @@ export const usePresentationStore = create<PresentationState>()(
             slides: original.slides.map((slide) => ({
               ...slide,
               id: generateId(),
-              elements: slide.elements.map((el) => ({ ...el, id: generateId() })),
+              elements: remapElementIds(slide.elements, generateId),
             })),
             createdAt: now,
             updatedAt: now,
@@ -227,7 +372,7 @@ export const usePresentationStore = create<PresentationState>()(
           if (!presentation) return null
 
           const newSlideId = generateId()
-          const newSlide = createBlankSlide(newSlideId)
+          const newSlide = createBlankSlide(newSlideId, undefined, THEMED_SLIDE_BACKGROUND)
 
           set(
             (state) => ({
@@ -341,6 +486,7 @@ export const usePresentationStore = create<PresentationState>()(
             undefined,
             'deleteSlide'
           )
+          collectAssetGarbage(get().presentations, get().unloadedPresentationIds)
         },
 
         updateSlide: (presentationId, slideId, updates) => {
@@ -402,7 +548,7 @@ export const usePresentationStore = create<PresentationState>()(
             ...original,
             id: newId,
             title: `${original.title} (Copy)`,
-            elements: original.elements.map((el) => ({ ...el, id: generateId() })),
+            elements: remapElementIds(original.elements, generateId),
             createdAt: now,
             updatedAt: now,
           }
@@ -433,6 +579,10 @@ export const usePresentationStore = create<PresentationState>()(
         },
 
         updateSlideBackground: (presentationId, slideId, background) => {
+          const { imageSrc } = background
+          if (imageSrc && isDataUrl(imageSrc)) {
+            background = { ...background, imageSrc: useAssetStore.getState().addAsset(imageSrc) }
+          }
           set(
             (state) => ({
               presentations: state.presentations.map((p) =>
@@ -456,6 +606,7 @@ export const usePresentationStore = create<PresentationState>()(
             undefined,
             'updateSlideBackground'
           )
+          collectAssetGarbage(get().presentations, get().unloadedPresentationIds)
         },
 
         updateSlideTransition: (presentationId, slideId, transition) => {
@@ -486,6 +637,7 @@ export const usePresentationStore = create<PresentationState>()(
 
         // Element actions
         addElement: (presentationId, slideId, element) => {
+          element = internElementImage(element)
           set(
             (state) => ({
               presentations: state.presentations.map((p) =>
@@ -496,7 +648,12 @@ export const usePresentationStore = create<PresentationState>()(
                         s.id === slideId
                           ? {
                               ...s,
-                              elements: [...s.elements, element],
+                              // Connectors attached to the new element (or added with it) resolve their ends
+                              elements: updateConnectors(
+                                s.elements,
+                                [...s.elements, element],
+                                new Set([element.id])
+                              ),
                               updatedAt: new Date().toISOString(),
                             }
                           : s
@@ -522,7 +679,12 @@ export const usePresentationStore = create<PresentationState>()(
                         s.id === slideId
                           ? {
                               ...s,
-                              elements: s.elements.filter((e) => e.id !== elementId),
+                              // Connectors attached to the deleted element are detached from it
+                              elements: updateConnectors(
+                                s.elements,
+                                s.elements.filter((e) => e.id !== elementId),
+                                new Set([elementId])
+                              ),
                               updatedAt: new Date().toISOString(),
                             }
                           : s
@@ -535,6 +697,7 @@ export const usePresentationStore = create<PresentationState>()(
             undefined,
             'deleteElement'
           )
+          collectAssetGarbage(get().presentations, get().unloadedPresentationIds)
         },
 
         deleteElements: (presentationId, slideId, elementIds) => {
@@ -549,7 +712,11 @@ export const usePresentationStore = create<PresentationState>()(
                         s.id === slideId
                           ? {
                               ...s,
-                              elements: s.elements.filter((e) => !idsToDelete.has(e.id)),
+                              elements: updateConnectors(
+                                s.elements,
+                                s.elements.filter((e) => !idsToDelete.has(e.id)),
+                                idsToDelete
+                              ),
                               updatedAt: new Date().toISOString(),
                             }
                           : s
@@ -562,9 +729,11 @@ export const usePresentationStore = create<PresentationState>()(
             undefined,
             'deleteElements'
           )
+          collectAssetGarbage(get().presentations, get().unloadedPresentationIds)
         },
 
         updateElement: (presentationId, slideId, elementId, updates) => {
+          updates = internElementImage(updates)
           set(
             (state) => ({
               presentations: state.presentations.map((p) =>
@@ -575,8 +744,13 @@ export const usePresentationStore = create<PresentationState>()(
                         s.id === slideId
                           ? {
                               ...s,
-                              elements: s.elements.map((e) =>
-                                e.id === elementId ? ({ ...e, ...updates } as SlideElement) : e
+                              // Connectors attached to the element re-route to follow it
+                              elements: updateConnectors(
+                                s.elements,
+                                s.elements.map((e) =>
+                                  e.id === elementId ? ({ ...e, ...updates } as SlideElement) : e
+                                ),
+                                new Set([elementId])
                               ),
                               updatedAt: new Date().toISOString(),
                             }
@@ -593,7 +767,7 @@ export const usePresentationStore = create<PresentationState>()(
         },
 
         updateElements: (presentationId, slideId, updates) => {
-          const updatesMap = new Map(updates.map((u) => [u.id, u.changes]))
+          const updatesMap = new Map(updates.map((u) => [u.id, internElementImage(u.changes)]))
           set(
             (state) => ({
               presentations: state.presentations.map((p) =>
@@ -604,10 +778,14 @@ export const usePresentationStore = create<PresentationState>()(
                         s.id === slideId
                           ? {
                               ...s,
-                              elements: s.elements.map((e) => {
-                                const changes = updatesMap.get(e.id)
-                                return changes ? ({ ...e, ...changes } as SlideElement) : e
-                              }),
+                              elements: updateConnectors(
+                                s.elements,
+                                s.elements.map((e) => {
+                                  const changes = updatesMap.get(e.id)
+                                  return changes ? ({ ...e, ...changes } as SlideElement) : e
+                                }),
+                                new Set(updatesMap.keys())
+                              ),
                               updatedAt: new Date().toISOString(),
                             }
                           : s
@@ -796,6 +974,66 @@ export const usePresentationStore = create<PresentationState>()(
           )
         },
 
+        groupElements: (presentationId, slideId, elementIds) => {
+          const slide = get().getSlide(presentationId, slideId)
+          if (!slide) return null
+
+          const selected = slide.elements.filter((e) => elementIds.includes(e.id))
+          if (!canGroup(selected)) return null
+
+          const groupId = generateId()
+          set(
+            (state) => ({
+              presentations: state.presentations.map((p) =>
+                p.id === presentationId
+                  ? {
+                      ...p,
+                      slides: p.slides.map((s) =>
+                        s.id === slideId
+                          ? {
+                              ...s,
+                              elements: groupElements(s.elements, elementIds, groupId),
+                              updatedAt: new Date().toISOString(),
+                            }
+                          : s
+                      ),
+                      updatedAt: new Date().toISOString(),
+                    }
+                  : p
+              ),
+            }),
+            undefined,
+            'groupElements'
+          )
+          return groupId
+        },
+
+        ungroupElements: (presentationId, slideId, elementIds) => {
+          set(
+            (state) => ({
+              presentations: state.presentations.map((p) =>
+                p.id === presentationId
+                  ? {
+                      ...p,
+                      slides: p.slides.map((s) =>
+                        s.id === slideId
+                          ? {
+                              ...s,
+                              elements: ungroupElements(s.elements, elementIds),
+                              updatedAt: new Date().toISOString(),
+                            }
+                          : s
+                      ),
+                      updatedAt: new Date().toISOString(),
+                    }
+                  : p
+              ),
+            }),
+            undefined,
+            'ungroupElements'
+          )
+        },
+
         // Selectors
         getCurrentPresentation: () => {
           const state = get()
@@ -819,17 +1057,20 @@ export const usePresentationStore = create<PresentationState>()(
 
         // Storage actions
         saveToStorage: () => {
-          const state = get()
-          return saveToLocalStorage(state.presentations, state.currentPresentationId)
+          // Changes are written as they are made; report whether the last write succeeded
+          const error = presentationStorage.getLastError()
+          return error === null ? { success: true } : { success: false, error }
         },
 
         loadFromStorage: () => {
           const result = loadFromLocalStorage()
           if (result.success && result.data) {
+            const { internAssets } = useAssetStore.getState()
             set(
               {
-                presentations: result.data.presentations,
+                presentations: result.data.presentations.map(internAssets),
                 currentPresentationId: result.data.currentPresentationId,
+                unloadedPresentationIds: [],
               },
               undefined,
               'loadFromStorage'
@@ -845,10 +1086,12 @@ export const usePresentationStore = create<PresentationState>()(
               {
                 presentations: [],
                 currentPresentationId: null,
+                unloadedPresentationIds: [],
               },
               undefined,
               'clearStorage'
             )
+            collectAssetGarbage([])
           }
           return result
         },
@@ -857,61 +1100,156 @@ export const usePresentationStore = create<PresentationState>()(
           const state = get()
           const presentation = state.getCurrentPresentation()
           if (presentation) {
-            const json = exportPresentationToJson(presentation)
+            const json = exportPresentationToJson(
+              inlineAssets(presentation, useAssetStore.getState().assets)
+            )
             const filename = `${presentation.name.replace(/[^a-z0-9]/gi, '_')}_${new Date().toISOString().split('T')[0]}.json`
             downloadFile(json, filename)
           }
         },
 
         exportAllPresentations: () => {
-          const state = get()
-          if (state.presentations.length > 0) {
-            const json = exportAllPresentationsToJson(state.presentations)
-            const filename = `presentations_backup_${new Date().toISOString().split('T')[0]}.json`
-            downloadFile(json, filename)
+          const { unloadedPresentationIds } = get()
+          void Promise.all(unloadedPresentationIds.map((id) => get().loadPresentation(id))).then(
+            () => {
+              const state = get()
+              if (state.presentations.length > 0) {
+                const { assets } = useAssetStore.getState()
+                const json = exportAllPresentationsToJson(
+                  state.presentations.map((p) => inlineAssets(p, assets))
+                )
+                const filename = `presentations_backup_${new Date().toISOString().split('T')[0]}.json`
+                downloadFile(json, filename)
+              }
+            }
+          )
+        },
+
+        previewImportFromJson: (content, options) => {
+          const { data, ...result } = importAllPresentationsFromJson(content, options)
+          return data
+            ? { ...result, data: matchImportedPresentations(data, get().presentations) }
+            : result
+        },
+
+        applyImport: (items, resolutions) => {
+          const plan = planImport(items, resolutions)
+          const now = new Date().toISOString()
+          const { internAssets } = useAssetStore.getState()
+          // Imported slides and elements get new IDs, so they never collide with existing ones
+          const withNewIds = (presentation: Presentation, id: string, createdAt: string) => {
+            const interned = internAssets(presentation)
+            return {
+              ...interned,
+              id,
+              slides: interned.slides.map((s) => ({
+                ...s,
+                id: generateId(),
+                elements: remapElementIds(s.elements, generateId),
+              })),
+              createdAt,
+              updatedAt: now,
+            }
           }
+
+          const replacements = new Map(
+            plan.overwritten.map(({ targetId, presentation }) => {
+              const target = get().getPresentation(targetId)
+              return [targetId, withNewIds(presentation, targetId, target?.createdAt ?? now)]
+            })
+          )
+          const added = plan.added.map((p) => withNewIds(p, generateId(), now))
+
+          set(
+            (state) => ({
+              presentations: [
+                ...state.presentations.map((p) => replacements.get(p.id) ?? p),
+                ...added,
+              ],
+              // Overwritten presentations now have all their slides
+              unloadedPresentationIds: state.unloadedPresentationIds.filter(
+                (id) => !replacements.has(id)
+              ),
+            }),
+            undefined,
+            'importPresentations'
+          )
+          if (replacements.size > 0) {
+            collectAssetGarbage(get().presentations, get().unloadedPresentationIds)
+          }
+          return [...replacements.values(), ...added]
+        },
+
+        importPresentationsFromJson: (content, options) => {
+          const { data, ...result } = get().previewImportFromJson(content, options)
+          if (!data) return result
+          const imported = get().applyImport(data, data.map(() => 'add'))
+          return { ...result, data: imported }
         },
 
-        importPresentations: (onComplete) => {
+        importPresentations: (onPreview) => {
           triggerFileImport((content) => {
-            const result = importAllPresentationsFromJson(content)
-            if (result.success && result.data) {
-              // Generate new IDs to avoid conflicts
-              const now = new Date().toISOString()
-              const importedPresentations = result.data.map((p) => ({
-                ...p,
-                id: generateId(),
-                slides: p.slides.map((s) => ({
-                  ...s,
-                  id: generateId(),
-                  elements: s.elements.map((e) => ({ ...e, id: generateId() })),
-                })),
-                createdAt: now,
-                updatedAt: now,
-              }))
+            const result = get().previewImportFromJson(content)
+            if (result.success || !result.issues?.length) {
+              onPreview?.(result)
+              return
+            }
 
-              set(
-                (state) => ({
-                  presentations: [...state.presentations, ...importedPresentations],
-                }),
-                undefined,
-                'importPresentations'
+            // Offer to repair files with invalid content instead of failing the import
+            useNotificationStore
+              .getState()
+              .warning(
+                result.error ?? 'Invalid presentations',
+                formatValidationIssues(result.issues),
+                {
+                  duration: 0,
+                  action: {
+                    label: 'Repair and import',
+                    onClick: () => {
+                      onPreview?.(get().previewImportFromJson(content, { repair: true }))
+                    },
+                  },
+                }
               )
-            }
-            onComplete?.(result)
+          })
+        },
+
+        previewImportFromPptx: (data, fileName) => {
+          const { data: presentation, ...result } = importPresentationFromPptx(data, fileName)
+          return presentation
+            ? { ...result, data: matchImportedPresentations([presentation], get().presentations) }
+            : result
+        },
+
+        importPptx: (onPreview) => {
+          triggerBinaryFileImport(PPTX_FILE_ACCEPT, (data, fileName) => {
+            onPreview?.(get().previewImportFromPptx(data, fileName))
           })
         },
       }),
       {
-        name: 'presentation-storage',
-        partialize: (state) => ({
-          presentations: state.presentations,
-          currentPresentationId: state.currentPresentationId,
-        }),
+        name: STORE_NAME,
+        storage: presentationStorage,
+        partialize: (state) => getPersistedState(state),
+        merge: (persisted, current) => mergePersistedPresentations(persisted, current),
+        // Changes made while loading weren't written, as the stored state wasn't known yet
+        onRehydrateStorage: () => (state) => {
+          if (state) presentationStorage.setItem(STORE_NAME, { state: getPersistedState(state), version: 0 })
+        },
       }
     ),
     { name: 'PresentationStore' }
   )
 )
 
+/**
+ * Whether the stored presentations have finished loading
+ */
+export function usePresentationsLoaded(): boolean {
+  return useSyncExternalStore(
+    (onChange) => usePresentationStore.persist.onFinishHydration(onChange),
+    () => usePresentationStore.persist.hasHydrated()
+  )
+}
+
 export default usePresentationStore
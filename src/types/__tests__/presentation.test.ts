@@ -8,6 +8,7 @@ import {
   createBlankPresentation,
   DEFAULT_THEME,
   DEFAULT_SLIDE_BACKGROUND,
+  THEMED_SLIDE_BACKGROUND,
 } from '../presentation'
 
 describe('presentation type utilities', () => {
@@ -151,6 +152,13 @@ describe('presentation type utilities', () => {
       expect(presentation.theme.fontFamily).toBe(DEFAULT_THEME.fontFamily)
     })
 
+    it('should create first slide with a theme-referenced background', () => {
+      const presentation = createBlankPresentation('test-pres-1')
+      const firstSlide = presentation.slides[0]
+      expect(firstSlide?.background).toEqual(THEMED_SLIDE_BACKGROUND)
+      expect(firstSlide?.background).not.toBe(THEMED_SLIDE_BACKGROUND)
+    })
+
     it('should create a presentation with valid timestamps', () => {
       const before = new Date().toISOString()
       const presentation = createBlankPresentation('test-pres-1')
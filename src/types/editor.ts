@@ -6,12 +6,23 @@
 /**
  * Available tools in the editor
  */
-export type EditorTool = 'select' | 'text' | 'shape' | 'image' | 'pan'
+export type EditorTool = 'select' | 'text' | 'shape' | 'image' | 'table' | 'chart' | 'connector' | 'pen' | 'pan'
 
 /**
  * Shape tool subtypes
  */
-export type ShapeToolType = 'rectangle' | 'circle' | 'line' | 'triangle'
+export type ShapeToolType =
+  | 'rectangle'
+  | 'circle'
+  | 'line'
+  | 'triangle'
+  | 'ellipse'
+  | 'star'
+  | 'polygon'
+  | 'arrow'
+  | 'chevron'
+  | 'callout'
+  | 'speechBubble'
 
 /**
  * Current interaction mode of the editor
@@ -47,6 +58,24 @@ export interface SelectionBox {
   endY: number
 }
 
+/**
+ * Position of a cell in a table's grid
+ */
+export interface TableCellPosition {
+  row: number
+  col: number
+}
+
+/**
+ * Selected block of cells in a table, from the cell where selection started
+ * to the cell where it currently ends
+ */
+export interface TableCellSelection {
+  elementId: string
+  anchor: TableCellPosition
+  focus: TableCellPosition
+}
+
 /**
  * Zoom and pan state for the canvas
  */
@@ -84,6 +113,9 @@ export interface EditorState {
   // Selection state
   selectedElementIds: string[]
   hoveredElementId: string | null
+  tableCellSelection: TableCellSelection | null
+  /** Image whose crop is being edited on the canvas */
+  croppingElementId: string | null
 
   // Tool state
   activeTool: EditorTool
@@ -122,6 +154,8 @@ export const DEFAULT_EDITOR_STATE: EditorState = {
   currentSlideId: null,
   selectedElementIds: [],
   hoveredElementId: null,
+  tableCellSelection: null,
+  croppingElementId: null,
   activeTool: 'select',
   activeShapeType: 'rectangle',
   interactionMode: 'idle',
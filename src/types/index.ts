@@ -9,20 +9,57 @@ export type {
   Dimensions,
   ElementType,
   ShapeType,
+  ShapeDirection,
+  GradientDirection,
+  GradientStop,
+  ShapeFillType,
+  StrokeDashStyle,
+  StrokeLineCap,
+  StrokeLineJoin,
+  ShapeShadow,
   BaseElement,
+  ElementFrame,
   TextElement,
+  TextRun,
+  TextRunFormat,
+  ListType,
+  TextParagraph,
+  TextVerticalAlign,
+  TextOverflow,
+  TextAutofit,
   ShapeElement,
   ImageElement,
+  ImageCrop,
+  ImageMask,
+  ImageAdjustments,
+  TableCell,
+  TableBorderStyle,
+  TableElement,
+  ChartType,
+  ChartSeries,
+  ChartElement,
+  ArrowheadStyle,
+  ConnectorRouting,
+  ConnectionSide,
+  ConnectorEndpoint,
+  ConnectorElement,
   SlideElement,
   SlideBackground,
   Slide,
   PresentationTheme,
+  ThemePreset,
+  ThemeColorToken,
+  Asset,
   Presentation,
 } from './presentation'
 
 export {
   DEFAULT_THEME,
   DEFAULT_SLIDE_BACKGROUND,
+  THEMED_SLIDE_BACKGROUND,
+  THEME_TOKEN_PREFIX,
+  THEME_FONT_TOKEN,
+  ASSET_REF_PREFIX,
   createBlankSlide,
   createBlankPresentation,
 } from './presentation'
@@ -34,6 +71,8 @@ export type {
   InteractionMode,
   ResizeHandle,
   SelectionBox,
+  TableCellPosition,
+  TableCellSelection,
   ViewportState,
   HistoryEntry,
   ClipboardState,
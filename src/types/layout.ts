@@ -4,7 +4,12 @@
  */
 
 import type { Slide, SlideElement, TextElement, SlideBackground } from './presentation'
-import { DEFAULT_SLIDE_BACKGROUND, DEFAULT_SLIDE_TRANSITION } from './presentation'
+import {
+  DEFAULT_SLIDE_TRANSITION,
+  THEMED_SLIDE_BACKGROUND,
+  THEME_FONT_TOKEN,
+  THEME_TOKEN_PREFIX,
+} from './presentation'
 
 /**
  * Available slide layout types
@@ -54,7 +59,8 @@ function generateElementId(): string {
 }
 
 /**
- * Create a text element with default properties
+ * Create a text element with default properties.
+ * Colors and font default to theme references so layouts follow the presentation theme.
  */
 function createTextElement(
   content: string,
@@ -81,11 +87,11 @@ function createTextElement(
     opacity: 1,
     locked: false,
     fontSize: options.fontSize ?? 24,
-    fontFamily: 'Inter, system-ui, sans-serif',
+    fontFamily: THEME_FONT_TOKEN,
     fontWeight: options.fontWeight ?? 'normal',
     fontStyle: 'normal',
     textAlign: options.textAlign ?? 'left',
-    color: options.color ?? '#1e293b',
+    color: options.color ?? `${THEME_TOKEN_PREFIX}text`,
   }
 }
 
@@ -119,7 +125,7 @@ function createTitleLayoutElements(): SlideElement[] {
       fontSize: 24,
       fontWeight: 'normal',
       textAlign: 'center',
-      color: '#64748b',
+      color: `${THEME_TOKEN_PREFIX}secondary`,
       zIndex: 1,
     }),
   ]
@@ -148,7 +154,7 @@ function createTitleContentLayoutElements(): SlideElement[] {
       fontSize: 20,
       fontWeight: 'normal',
       textAlign: 'left',
-      color: '#475569',
+      color: `${THEME_TOKEN_PREFIX}text`,
       zIndex: 1,
     }),
   ]
@@ -177,7 +183,7 @@ function createTwoColumnLayoutElements(): SlideElement[] {
       fontSize: 18,
       fontWeight: 'normal',
       textAlign: 'left',
-      color: '#475569',
+      color: `${THEME_TOKEN_PREFIX}text`,
       zIndex: 1,
     }),
     createTextElement('Right column content', {
@@ -188,7 +194,7 @@ function createTwoColumnLayoutElements(): SlideElement[] {
       fontSize: 18,
       fontWeight: 'normal',
       textAlign: 'left',
-      color: '#475569',
+      color: `${THEME_TOKEN_PREFIX}text`,
       zIndex: 2,
     }),
   ]
@@ -236,7 +242,7 @@ export function getLayoutDefaultTitle(layoutType: SlideLayoutType): string {
 export function createSlideWithLayout(
   id: string,
   layoutType: SlideLayoutType,
-  background: SlideBackground = { ...DEFAULT_SLIDE_BACKGROUND }
+  background: SlideBackground = { ...THEMED_SLIDE_BACKGROUND }
 ): Slide {
   const now = new Date().toISOString()
   return {
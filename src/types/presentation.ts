@@ -22,12 +22,78 @@ export interface Dimensions {
 /**
  * Element types that can be placed on a slide
  */
-export type ElementType = 'text' | 'shape' | 'image'
+export type ElementType = 'text' | 'shape' | 'image' | 'table' | 'chart' | 'connector'
 
 /**
- * Shape types for shape elements
+ * Shape types for shape elements.
+ * 'path' shapes are freeform outlines drawn with the pen tool.
  */
-export type ShapeType = 'rectangle' | 'circle' | 'line' | 'triangle'
+export type ShapeType =
+  | 'rectangle'
+  | 'circle'
+  | 'line'
+  | 'triangle'
+  | 'ellipse'
+  | 'star'
+  | 'polygon'
+  | 'arrow'
+  | 'chevron'
+  | 'callout'
+  | 'speechBubble'
+  | 'path'
+
+/**
+ * Direction an arrow block or chevron points in
+ */
+export type ShapeDirection = 'right' | 'left' | 'up' | 'down'
+
+/**
+ * Direction of a linear gradient, shared by slide backgrounds and shape fills
+ */
+export type GradientDirection = 'horizontal' | 'vertical' | 'diagonal'
+
+/**
+ * A color stop of a gradient
+ */
+export interface GradientStop {
+  /** Position along the gradient (0-1) */
+  offset: number
+  color: string
+}
+
+/**
+ * How a shape is filled: with its fill color, or with a linear or radial gradient
+ */
+export type ShapeFillType = 'solid' | 'linearGradient' | 'radialGradient'
+
+/**
+ * Dash pattern of a shape's stroke
+ */
+export type StrokeDashStyle = 'solid' | 'dash' | 'dot' | 'dashDot'
+
+/**
+ * Shape of the ends of an open stroke
+ */
+export type StrokeLineCap = 'butt' | 'round' | 'square'
+
+/**
+ * Shape of the corners of a stroke
+ */
+export type StrokeLineJoin = 'miter' | 'round' | 'bevel'
+
+/**
+ * Drop shadow of a shape. Settings are kept when the shadow is turned off.
+ */
+export interface ShapeShadow {
+  enabled: boolean
+  color: string
+  /** Opacity of the shadow color (0-1) */
+  opacity: number
+  /** Blur radius in pixels */
+  blur: number
+  offsetX: number
+  offsetY: number
+}
 
 /**
  * Base properties shared by all elements
@@ -41,20 +107,98 @@ export interface BaseElement {
   zIndex: number
   opacity: number
   locked: boolean
+  /** Group the element belongs to; elements sharing a group id move and resize together */
+  groupId?: string
+}
+
+/**
+ * Placement of an element or a group of elements on the slide
+ */
+export type ElementFrame = Pick<BaseElement, 'position' | 'dimensions' | 'rotation'>
+
+/**
+ * Character formatting that a text run can override.
+ * Any property left undefined falls back to the owning TextElement.
+ */
+export interface TextRunFormat {
+  fontWeight?: 'normal' | 'bold'
+  fontStyle?: 'normal' | 'italic'
+  underline?: boolean
+  color?: string
+  /** Hyperlink target for the run */
+  link?: string
+}
+
+/**
+ * A span of text sharing the same formatting
+ */
+export interface TextRun extends TextRunFormat {
+  text: string
+}
+
+/**
+ * List style of a paragraph
+ */
+export type ListType = 'none' | 'bullet' | 'numbered'
+
+/**
+ * Paragraph-level formatting. Paragraphs are the newline-separated parts of content.
+ */
+export interface TextParagraph {
+  listType: ListType
+  /** Nesting depth, starting at 0 */
+  indentLevel: number
 }
 
+/**
+ * Vertical placement of text within its box
+ */
+export type TextVerticalAlign = 'top' | 'middle' | 'bottom'
+
+/**
+ * How text that doesn't fit its box is displayed
+ */
+export type TextOverflow = 'visible' | 'clip'
+
+/**
+ * How a text element adapts when its text doesn't fit:
+ * keep everything as is, shrink the text, or resize the box to the text
+ */
+export type TextAutofit = 'none' | 'shrink' | 'resize'
+
 /**
  * Text element with text-specific properties
  */
 export interface TextElement extends BaseElement {
   type: 'text'
+  /** Plain text of the element; always equals the concatenated run text */
   content: string
+  /**
+   * Formatted runs. Elements saved before runs existed omit this and are
+   * treated as a single unformatted run of `content`.
+   */
+  runs?: TextRun[]
+  /**
+   * Formatting for each paragraph of `content`, in order.
+   * Missing entries are plain paragraphs with no indent.
+   */
+  paragraphs?: TextParagraph[]
   fontSize: number
   fontFamily: string
   fontWeight: 'normal' | 'bold'
   fontStyle: 'normal' | 'italic'
   textAlign: 'left' | 'center' | 'right'
   color: string
+  /** Line height as a multiple of the font size (default 1.2) */
+  lineSpacing?: number
+  /** Extra space between paragraphs in pixels (default 0) */
+  paragraphSpacing?: number
+  /** Vertical placement of the text (default middle) */
+  verticalAlign?: TextVerticalAlign
+  /** Handling of text that doesn't fit the box (default visible) */
+  overflow?: TextOverflow
+  /** Automatic fitting of text and box (default none) */
+  autofit?: TextAutofit
 }
 
 /**
@@ -67,22 +211,212 @@ export interface ShapeElement extends BaseElement {
   strokeColor: string
   strokeWidth: number
   cornerRadius?: number
+  /** Number of points of a star or sides of a polygon (default 5 for stars, 6 for polygons) */
+  pointCount?: number
+  /** Inner radius of a star as a fraction of its outer radius (default 0.5) */
+  innerRadiusRatio?: number
+  /** Direction of an arrow block or chevron (default right) */
+  direction?: ShapeDirection
+  /**
+   * Tip of the tail of a callout or speech bubble, as fractions of the shape's
+   * width and height (default { x: 0.25, y: 1 })
+   */
+  tailPosition?: Position
+  /** SVG path data of a freeform shape, in the coordinates of `pathViewBox` */
+  pathData?: string
+  /** Size of the box the path data was drawn in; the path is scaled from it to the shape's dimensions */
+  pathViewBox?: Dimensions
+  /** Fill type (default solid); gradient settings are kept when switching back to solid */
+  fillType?: ShapeFillType
+  /** Color stops of a gradient fill (default from the fill color to white) */
+  gradientStops?: GradientStop[]
+  /** Direction of a linear gradient fill (default diagonal) */
+  gradientDirection?: GradientDirection
+  /** Dash pattern of the stroke (default solid) */
+  strokeDash?: StrokeDashStyle
+  /** Line cap of the stroke (default butt, round for library and freeform shapes) */
+  strokeLineCap?: StrokeLineCap
+  /** Line join of the stroke (default miter, round for library and freeform shapes) */
+  strokeLineJoin?: StrokeLineJoin
+  shadow?: ShapeShadow
 }
 
 /**
- * Image element with image-specific properties
+ * Visible part of an image, as fractions (0-1) of the source image's width and height
+ */
+export interface ImageCrop {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Shape an image is clipped to
+ */
+export type ImageMask = 'none' | 'circle' | 'roundedRect'
+
+/**
+ * Color and focus adjustments applied to an image when it is drawn
+ */
+export interface ImageAdjustments {
+  /** Brightness in percent (0-200, 100 is unchanged) */
+  brightness: number
+  /** Contrast in percent (0-200, 100 is unchanged) */
+  contrast: number
+  /** Grayscale amount in percent (0-100) */
+  grayscale: number
+  /** Blur radius in pixels (0-20) */
+  blur: number
+}
+
+/**
+ * Image element with image-specific properties.
+ * Crops, masks and adjustments are non-destructive: the source image is kept as is.
  */
 export interface ImageElement extends BaseElement {
   type: 'image'
   src: string
   alt: string
   objectFit: 'cover' | 'contain' | 'fill' | 'none'
+  /** Part of the source image that is shown (default the whole image) */
+  crop?: ImageCrop
+  /** Shape the image is clipped to (default none) */
+  mask?: ImageMask
+  /** Corner radius of a rounded rectangle mask in pixels (default 16) */
+  maskCornerRadius?: number
+  adjustments?: ImageAdjustments
+}
+
+/**
+ * A cell of a table. A merged cell spans several rows and/or columns
+ * from its top-left position; the cells it covers keep their entries but are hidden.
+ */
+export interface TableCell {
+  content: string
+  /** Number of rows the cell spans (default 1) */
+  rowSpan?: number
+  /** Number of columns the cell spans (default 1) */
+  colSpan?: number
+  /** Background color overriding the table fill */
+  fillColor?: string
+}
+
+/**
+ * Which cell borders of a table are drawn
+ */
+export type TableBorderStyle = 'all' | 'outer' | 'horizontal' | 'none'
+
+/**
+ * Table element with a grid of text cells
+ */
+export interface TableElement extends BaseElement {
+  type: 'table'
+  /** Cells by row; every row has one entry per column */
+  cells: TableCell[][]
+  /** Relative column widths, as fractions of the table width */
+  columnWidths: number[]
+  /** Relative row heights, as fractions of the table height */
+  rowHeights: number[]
+  /** Whether the first row is styled as a header */
+  headerRow: boolean
+  headerFillColor: string
+  headerTextColor: string
+  fillColor: string
+  textColor: string
+  fontSize: number
+  fontFamily: string
+  textAlign: 'left' | 'center' | 'right'
+  borderStyle: TableBorderStyle
+  borderColor: string
+  borderWidth: number
+}
+
+/**
+ * Chart types for chart elements
+ */
+export type ChartType = 'bar' | 'line' | 'pie' | 'area'
+
+/**
+ * A named row of chart values, one value per category
+ */
+export interface ChartSeries {
+  name: string
+  values: number[]
+  /** Series color; omitted to take a color from the theme palette */
+  color?: string
+}
+
+/**
+ * Chart element drawn from an editable data grid.
+ * Pie charts show the first series, one slice per category.
+ */
+export interface ChartElement extends BaseElement {
+  type: 'chart'
+  chartType: ChartType
+  /** Category labels along the x-axis, or the slices of a pie chart */
+  categories: string[]
+  series: ChartSeries[]
+  title?: string
+  showLegend: boolean
+  /** Color of the title, labels and legend */
+  textColor: string
+  fontFamily: string
+  fontSize: number
+}
+
+/**
+ * Marker drawn at an end of a connector
+ */
+export type ArrowheadStyle = 'none' | 'arrow' | 'triangle' | 'circle'
+
+/**
+ * Path a connector takes between its endpoints
+ */
+export type ConnectorRouting = 'straight' | 'elbow' | 'curved'
+
+/**
+ * Side of an element whose midpoint is a connection point
+ */
+export type ConnectionSide = 'top' | 'right' | 'bottom' | 'left'
+
+/**
+ * An end of a connector. An attached endpoint follows the connection point
+ * of another element; `position` holds its last resolved location.
+ */
+export interface ConnectorEndpoint {
+  position: Position
+  attachment?: {
+    elementId: string
+    side: ConnectionSide
+  }
+}
+
+/**
+ * Line or arrow between two points or connection points of other elements.
+ * The position and dimensions are the bounds of the routed path, and rotation is always 0.
+ */
+export interface ConnectorElement extends BaseElement {
+  type: 'connector'
+  start: ConnectorEndpoint
+  end: ConnectorEndpoint
+  routing: ConnectorRouting
+  startArrowhead: ArrowheadStyle
+  endArrowhead: ArrowheadStyle
+  strokeColor: string
+  strokeWidth: number
 }
 
 /**
  * Union type of all possible slide elements
  */
-export type SlideElement = TextElement | ShapeElement | ImageElement
+export type SlideElement =
+  | TextElement
+  | ShapeElement
+  | ImageElement
+  | TableElement
+  | ChartElement
+  | ConnectorElement
 
 /**
  * Background image fill mode options
@@ -118,7 +452,7 @@ export interface SlideBackground {
   color?: string
   gradientStart?: string
   gradientEnd?: string
-  gradientDirection?: 'horizontal' | 'vertical' | 'diagonal'
+  gradientDirection?: GradientDirection
   imageSrc?: string
   imageFillMode?: BackgroundImageFillMode
 }
@@ -149,6 +483,54 @@ export interface PresentationTheme {
   fontFamily: string
 }
 
+/**
+ * A named theme offered in the theme gallery
+ */
+export interface ThemePreset {
+  id: string
+  name: string
+  theme: PresentationTheme
+  /** Built-in presets ship with the app and cannot be deleted */
+  builtIn: boolean
+}
+
+/**
+ * Theme color slots that elements and backgrounds can reference
+ */
+export type ThemeColorToken = 'primary' | 'secondary' | 'background' | 'text'
+
+/**
+ * Prefix marking a color or font value as a reference into the presentation theme
+ * (e.g. `theme:primary`). References are resolved at render time, so changing the
+ * theme recolors every element that uses them.
+ */
+export const THEME_TOKEN_PREFIX = 'theme:'
+
+/**
+ * Font family value that resolves to the theme font
+ */
+export const THEME_FONT_TOKEN = `${THEME_TOKEN_PREFIX}font`
+
+/**
+ * Prefix marking an image source as a reference into the asset library
+ * (e.g. `asset:3f2a9c01d4b7e-1k2`). Images are stored once per content and
+ * shared by every element and background that shows them.
+ */
+export const ASSET_REF_PREFIX = 'asset:'
+
+/**
+ * An image in the asset library. The id is derived from the content, so
+ * uploading the same image twice yields the same asset.
+ */
+export interface Asset {
+  id: string
+  mimeType: string
+  dataUrl: string
+  /** Size of the data URL in characters */
+  size: number
+  createdAt: string
+}
+
 /**
  * A complete presentation
  */
@@ -178,16 +560,28 @@ export const DEFAULT_SLIDE_BACKGROUND: SlideBackground = {
   color: '#ffffff',
 }
 
+/**
+ * Solid background that follows the presentation theme's background color
+ */
+export const THEMED_SLIDE_BACKGROUND: SlideBackground = {
+  type: 'solid',
+  color: `${THEME_TOKEN_PREFIX}background`,
+}
+
 /**
  * Creates a new blank slide with default values
  */
-export function createBlankSlide(id: string, title = 'Untitled Slide'): Slide {
+export function createBlankSlide(
+  id: string,
+  title = 'Untitled Slide',
+  background: SlideBackground = DEFAULT_SLIDE_BACKGROUND
+): Slide {
   const now = new Date().toISOString()
   return {
     id,
     title,
     elements: [],
-    background: { ...DEFAULT_SLIDE_BACKGROUND },
+    background: { ...background },
     transition: { ...DEFAULT_SLIDE_TRANSITION },
     notes: '',
     createdAt: now,
@@ -200,7 +594,7 @@ export function createBlankSlide(id: string, title = 'Untitled Slide'): Slide {
  */
 export function createBlankPresentation(id: string, name = 'Untitled Presentation'): Presentation {
   const now = new Date().toISOString()
-  const firstSlide = createBlankSlide(`${id}-slide-1`, 'Title Slide')
+  const firstSlide = createBlankSlide(`${id}-slide-1`, 'Title Slide', THEMED_SLIDE_BACKGROUND)
   return {
     id,
     name,
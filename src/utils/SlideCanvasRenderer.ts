@@ -7,6 +7,18 @@
  * - Viewport transformations (zoom, pan)
  * - Selection and hover visual feedback
  * - Grid overlay rendering
+ * - Theme token resolution for colors and fonts
+ * - Rich text runs with mixed formatting
+ * - Bulleted and numbered lists with hanging indents
+ * - Text autofit: shrinking text to fit its box and measuring box heights
+ * - Group selection frames around grouped elements
+ * - Tables with merged cells, header rows and cell selection highlights
+ * - Bar, line, area and pie charts drawn as vectors in theme colors
+ * - Connectors with arrowheads, routed between the elements they attach to
+ * - Shape library outlines and freeform paths, with outline-accurate hit-testing
+ * - Shape gradient fills, dashed strokes with caps and joins, and drop shadows
+ * - Image crops, masks and adjustments, and the crop mode overlay
+ * - Images referenced from the shared asset library
  */
 
 import type {
@@ -15,11 +27,82 @@ import type {
   TextElement,
   ShapeElement,
   ImageElement,
+  TableElement,
+  ChartElement,
+  ConnectorElement,
+  ArrowheadStyle,
   SlideBackground,
+  GradientStop,
+  GradientDirection,
   Position,
   Dimensions,
+  PresentationTheme,
+  ElementFrame,
 } from '@/types/presentation'
-import type { ViewportState, ResizeHandle } from '@/types/editor'
+import { DEFAULT_THEME } from '@/types/presentation'
+import { resolveAssetUrl } from '@/stores/assetStore'
+import type { ViewportState, ResizeHandle, TableCellSelection } from '@/types/editor'
+import {
+  resolveThemeColor,
+  resolveThemeFont,
+  resolveBackgroundTheme,
+  themeColorRef,
+} from './themeUtils'
+import { getSelectionFrames, getUnitFrame } from './groupUtils'
+import {
+  DEFAULT_GRADIENT_DIRECTION,
+  getShapeGradientStops,
+  getShapeLineCap,
+  getShapeLineJoin,
+  getBackgroundGradientStops,
+  getLinearGradientLine,
+  getRadialGradientCircle,
+  getStrokeDashPattern,
+  getShadowColor,
+  type GradientBounds,
+} from './shapeStyles'
+import {
+  layoutText,
+  fitText,
+  getAutofitFontSize,
+  type TextFit,
+  type TextLayout,
+} from './textLayout'
+import {
+  getCellRects,
+  getCellRange,
+  getCellRangeRect,
+  getCellTextElement,
+  getCellFillColor,
+} from './tableUtils'
+import {
+  getChartLayout,
+  getValueAxis,
+  getValueY,
+  getCategoryX,
+  getChartBars,
+  getSeriesPoints,
+  getPieSlices,
+  getSeriesColor,
+  getPaletteColor,
+  getLegendEntries,
+  formatChartValue,
+  type ChartRect,
+} from './chartUtils'
+import {
+  getConnectorPath,
+  getArrowheadAngle,
+  getDistanceToConnector,
+  resolveEndpoint,
+} from './connectorUtils'
+import { getShapeOutline, isClosedPath, isPointInShape, type PathCommand } from './shapeGeometry'
+import {
+  getImageFit,
+  getImageFilter,
+  getImageMaskOutline,
+  getFullImageFrame,
+  normalizeImageCrop,
+} from './imageUtils'
 
 /**
  * Configuration options for the canvas renderer
@@ -63,6 +146,9 @@ export class SlideCanvasRenderer {
   private config: Required<CanvasRendererConfig>
   private imageCache: Map<string, HTMLImageElement> = new Map()
   private loadingImages: Map<string, Promise<HTMLImageElement>> = new Map()
+  private theme: PresentationTheme = DEFAULT_THEME
+  /** Elements of the slide being rendered, for resolving connector attachments */
+  private elements: SlideElement[] = []
 
   constructor(canvas: HTMLCanvasElement, config: Partial<CanvasRendererConfig> = {}) {
     this.canvas = canvas
@@ -122,6 +208,9 @@ export class SlideCanvasRenderer {
       showGrid?: boolean
       showSelectionHandles?: boolean
       editingElementId?: string | null
+      tableCellSelection?: TableCellSelection | null
+      croppingElementId?: string | null
+      theme?: PresentationTheme
     } = {}
   ): void {
     const {
@@ -130,8 +219,15 @@ export class SlideCanvasRenderer {
       showGrid = false,
       showSelectionHandles = true,
       editingElementId = null,
+      tableCellSelection = null,
+      croppingElementId = null,
+      theme = DEFAULT_THEME,
     } = options
 
+    // Theme references in elements and backgrounds resolve against this theme
+    this.theme = theme
+    this.elements = slide.elements
+
     // Clear canvas
     this.clear()
 
@@ -158,23 +254,53 @@ export class SlideCanvasRenderer {
       this.renderElement(element)
     }
 
-    // Render hover state
+    // Render hover state (the whole group for grouped elements)
     if (hoveredElementId && !selectedElementIds.includes(hoveredElementId)) {
       const hoveredElement = slide.elements.find((el) => el.id === hoveredElementId)
       if (hoveredElement) {
-        this.renderElementOutline(hoveredElement, this.config.hoverColor, 2)
+        const hoveredUnit = hoveredElement.groupId
+          ? slide.elements.filter((el) => el.groupId === hoveredElement.groupId)
+          : [hoveredElement]
+        this.renderElementOutline(getUnitFrame(hoveredUnit), this.config.hoverColor, 2)
       }
     }
 
-    // Render selection state
-    for (const elementId of selectedElementIds) {
-      const selectedElement = slide.elements.find((el) => el.id === elementId)
-      if (selectedElement) {
-        this.renderElementOutline(selectedElement, this.config.selectionColor, 2)
+    // Render selection state: one frame per selected element or group
+    for (const { elementIds, frame, isGroup } of getSelectionFrames(slide.elements, selectedElementIds)) {
+      // A single connector is edited by its endpoints rather than a frame
+      const [firstId] = elementIds
+      const element = slide.elements.find((el) => el.id === firstId)
+      if (!isGroup && element?.type === 'connector') {
         if (showSelectionHandles) {
-          this.renderSelectionHandles(selectedElement)
+          this.renderConnectorHandles(element)
+        }
+        continue
+      }
+      // An image being cropped shows its crop handles instead
+      if (!isGroup && firstId === croppingElementId && element?.type === 'image') {
+        this.renderCropOverlay(element)
+        continue
+      }
+      if (isGroup) {
+        for (const memberId of elementIds) {
+          const member = slide.elements.find((el) => el.id === memberId)
+          if (member) {
+            this.renderElementOutline(member, this.config.selectionColor, 1, [4, 4])
+          }
         }
       }
+      this.renderElementOutline(frame, this.config.selectionColor, 2)
+      if (showSelectionHandles) {
+        this.renderSelectionHandles(frame)
+      }
+    }
+
+    // Render the selected cells of a table
+    if (tableCellSelection && selectedElementIds.includes(tableCellSelection.elementId)) {
+      const table = slide.elements.find((el) => el.id === tableCellSelection.elementId)
+      if (table?.type === 'table') {
+        this.renderTableCellSelection(table, tableCellSelection)
+      }
     }
 
     // Restore context state
@@ -197,36 +323,22 @@ export class SlideCanvasRenderer {
   /**
    * Render the slide background
    */
-  private renderBackground(background: SlideBackground): void {
+  private renderBackground(slideBackground: SlideBackground): void {
     const { width, height } = this.config
+    const background = resolveBackgroundTheme(slideBackground, this.theme)
 
     switch (background.type) {
       case 'solid':
-        this.ctx.fillStyle = background.color || '#ffffff'
+        this.ctx.fillStyle = background.color || this.theme.backgroundColor
         this.ctx.fillRect(0, 0, width, height)
         break
 
       case 'gradient': {
-        const startColor = background.gradientStart || '#ffffff'
-        const endColor = background.gradientEnd || '#000000'
-        let gradient: CanvasGradient
-
-        switch (background.gradientDirection) {
-          case 'horizontal':
-            gradient = this.ctx.createLinearGradient(0, 0, width, 0)
-            break
-          case 'vertical':
-            gradient = this.ctx.createLinearGradient(0, 0, 0, height)
-            break
-          case 'diagonal':
-          default:
-            gradient = this.ctx.createLinearGradient(0, 0, width, height)
-            break
-        }
-
-        gradient.addColorStop(0, startColor)
-        gradient.addColorStop(1, endColor)
-        this.ctx.fillStyle = gradient
+        this.ctx.fillStyle = this.createLinearGradient(
+          background.gradientDirection ?? DEFAULT_GRADIENT_DIRECTION,
+          getBackgroundGradientStops(background),
+          { x: 0, y: 0, width, height }
+        )
         this.ctx.fillRect(0, 0, width, height)
         break
       }
@@ -241,7 +353,7 @@ export class SlideCanvasRenderer {
             // Load image and trigger re-render when done
             void this.loadImage(background.imageSrc)
             // Fill with solid color as fallback while loading
-            this.ctx.fillStyle = background.color || '#ffffff'
+            this.ctx.fillStyle = background.color || this.theme.backgroundColor
             this.ctx.fillRect(0, 0, width, height)
           }
         }
@@ -381,6 +493,15 @@ export class SlideCanvasRenderer {
       case 'image':
         this.renderImageElement(element)
         break
+      case 'table':
+        this.renderTableElement(element)
+        break
+      case 'chart':
+        this.renderChartElement(element)
+        break
+      case 'connector':
+        this.renderConnectorElement(element)
+        break
     }
 
     this.ctx.restore()
@@ -389,7 +510,7 @@ export class SlideCanvasRenderer {
   /**
    * Apply element-level transformations (position and rotation)
    */
-  private applyElementTransform(element: SlideElement): void {
+  private applyElementTransform(element: ElementFrame): void {
     const { position, dimensions, rotation } = element
     const centerX = position.x + dimensions.width / 2
     const centerY = position.y + dimensions.height / 2
@@ -404,82 +525,421 @@ export class SlideCanvasRenderer {
    * Render a text element
    */
   private renderTextElement(element: TextElement): void {
-    const { position, dimensions, content, fontSize, fontFamily, fontWeight, fontStyle, textAlign, color } = element
+    const { position, dimensions } = element
+    const fontSize = getAutofitFontSize(element, this.measureText, { theme: this.theme })
+    const layout = layoutText(element, this.measureText, { theme: this.theme, fontSize })
 
-    this.ctx.fillStyle = color
-    this.ctx.font = `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`
+    if (element.overflow === 'clip') {
+      this.ctx.beginPath()
+      this.ctx.rect(position.x, position.y, dimensions.width, dimensions.height)
+      this.ctx.clip()
+    }
+
+    this.drawTextLayout(layout, position, fontSize)
+  }
+
+  /**
+   * Draw laid out text lines, with list markers and underlines, at a position
+   */
+  private drawTextLayout(layout: TextLayout, position: Position, fontSize: number): void {
     this.ctx.textBaseline = 'top'
+    this.ctx.textAlign = 'left'
 
-    // Calculate text alignment
-    let x = position.x
-    if (textAlign === 'center') {
-      x = position.x + dimensions.width / 2
-      this.ctx.textAlign = 'center'
-    } else if (textAlign === 'right') {
-      x = position.x + dimensions.width
-      this.ctx.textAlign = 'right'
+    for (const line of layout.lines) {
+      const y = position.y + line.y + line.textOffset
+
+      if (line.marker) {
+        this.ctx.font = line.marker.font
+        this.ctx.fillStyle = line.marker.color
+        this.ctx.fillText(line.marker.text, position.x + line.marker.x, y)
+      }
+
+      for (const segment of line.segments) {
+        const x = position.x + segment.x
+        this.ctx.font = segment.font
+        this.ctx.fillStyle = segment.color
+        this.ctx.fillText(segment.text, x, y)
+        if (segment.underline) {
+          const thickness = Math.max(1, fontSize / 15)
+          this.ctx.fillRect(x, y + fontSize, segment.width, thickness)
+        }
+      }
+    }
+  }
+
+  /**
+   * Render a table element: cell fills, cell text, then borders on top
+   */
+  private renderTableElement(element: TableElement): void {
+    const { position, dimensions, borderStyle, borderWidth } = element
+    const rects = getCellRects(element)
+
+    for (const rect of rects) {
+      this.ctx.fillStyle = resolveThemeColor(getCellFillColor(element, rect), this.theme)
+      this.ctx.fillRect(position.x + rect.x, position.y + rect.y, rect.width, rect.height)
+    }
+
+    for (const rect of rects) {
+      if (!rect.cell.content) continue
+      const cellText = getCellTextElement(element, rect)
+      this.ctx.save()
+      this.ctx.beginPath()
+      this.ctx.rect(position.x + rect.x, position.y + rect.y, rect.width, rect.height)
+      this.ctx.clip()
+      this.drawTextLayout(
+        layoutText(cellText, this.measureText, { theme: this.theme }),
+        cellText.position,
+        cellText.fontSize
+      )
+      this.ctx.restore()
+    }
+
+    if (borderStyle === 'none' || borderWidth <= 0) return
+
+    this.ctx.strokeStyle = resolveThemeColor(element.borderColor, this.theme)
+    this.ctx.lineWidth = borderWidth
+    this.ctx.beginPath()
+    if (borderStyle === 'all' || borderStyle === 'horizontal') {
+      for (const rect of rects) {
+        const y = position.y + rect.y + rect.height
+        // The outer bottom edge belongs to the table outline
+        if (rect.row + rect.rowSpan >= element.cells.length) continue
+        this.ctx.moveTo(position.x + rect.x, y)
+        this.ctx.lineTo(position.x + rect.x + rect.width, y)
+      }
+    }
+    if (borderStyle === 'all') {
+      for (const rect of rects) {
+        if (rect.col + rect.colSpan >= (element.cells[0]?.length ?? 0)) continue
+        const x = position.x + rect.x + rect.width
+        this.ctx.moveTo(x, position.y + rect.y)
+        this.ctx.lineTo(x, position.y + rect.y + rect.height)
+      }
+    }
+    if (borderStyle === 'horizontal') {
+      this.ctx.moveTo(position.x, position.y)
+      this.ctx.lineTo(position.x + dimensions.width, position.y)
+      this.ctx.moveTo(position.x, position.y + dimensions.height)
+      this.ctx.lineTo(position.x + dimensions.width, position.y + dimensions.height)
     } else {
-      this.ctx.textAlign = 'left'
+      this.ctx.rect(position.x, position.y, dimensions.width, dimensions.height)
+    }
+    this.ctx.stroke()
+  }
+
+  /**
+   * Render the highlight over the selected cells of a table
+   */
+  private renderTableCellSelection(element: TableElement, selection: TableCellSelection): void {
+    const range = getCellRange(element, selection.anchor, selection.focus)
+    const rect = getCellRangeRect(element, range)
+    const x = element.position.x + rect.x
+    const y = element.position.y + rect.y
+
+    this.ctx.save()
+    this.applyElementTransform(element)
+    this.ctx.globalAlpha = 0.15
+    this.ctx.fillStyle = this.config.selectionColor
+    this.ctx.fillRect(x, y, rect.width, rect.height)
+    this.ctx.globalAlpha = 1
+    this.ctx.strokeStyle = this.config.selectionColor
+    this.ctx.lineWidth = 2
+    this.ctx.strokeRect(x, y, rect.width, rect.height)
+    this.ctx.restore()
+  }
+
+  /**
+   * Measure text width with the canvas context, for the text layout engine
+   */
+  private measureText = (text: string, font: string): number => {
+    this.ctx.font = font
+    return this.ctx.measureText(text).width
+  }
+
+  /**
+   * Shared offscreen context for measuring text without a renderer instance
+   */
+  private static measureContext: CanvasRenderingContext2D | null = null
+
+  /**
+   * Measure how a text element fits its box with canvas text metrics,
+   * for applying autofit outside of rendering (editing, resizing, property changes).
+   * Returns null when no canvas context is available.
+   */
+  public static fitText(
+    element: TextElement,
+    theme: PresentationTheme = DEFAULT_THEME
+  ): TextFit | null {
+    if (!SlideCanvasRenderer.measureContext) {
+      SlideCanvasRenderer.measureContext = document.createElement('canvas').getContext('2d')
     }
+    const ctx = SlideCanvasRenderer.measureContext
+    if (!ctx) return null
+
+    return fitText(
+      element,
+      (text, font) => {
+        ctx.font = font
+        return ctx.measureText(text).width
+      },
+      { theme }
+    )
+  }
 
-    // Word wrap and render text
-    const lines = this.wrapText(content, dimensions.width, fontSize, fontFamily, fontWeight, fontStyle)
-    const lineHeight = fontSize * 1.2
+  /**
+   * Render a chart element: title, plot and legend
+   */
+  private renderChartElement(element: ChartElement): void {
+    const { position, chartType } = element
+    const layout = getChartLayout(element)
+    const textColor = resolveThemeColor(element.textColor, this.theme)
+    const fontFamily = resolveThemeFont(element.fontFamily, this.theme)
+    const font = `${String(element.fontSize)}px ${fontFamily}`
 
-    // Vertical centering
-    const totalHeight = lines.length * lineHeight
-    let y = position.y + (dimensions.height - totalHeight) / 2
+    this.ctx.save()
+    this.ctx.translate(position.x, position.y)
+    this.ctx.fillStyle = textColor
+
+    if (layout.title && element.title) {
+      this.ctx.font = `bold ${String(Math.round(element.fontSize * 1.25))}px ${fontFamily}`
+      this.ctx.textAlign = 'center'
+      this.ctx.textBaseline = 'middle'
+      this.ctx.fillText(
+        element.title,
+        layout.title.x + layout.title.width / 2,
+        layout.title.y + layout.title.height / 2,
+        layout.title.width
+      )
+    }
+
+    this.ctx.font = font
+    if (chartType === 'pie') {
+      this.renderPieChart(element, layout.plot)
+    } else {
+      this.renderAxisChart(element, layout.plot, textColor)
+    }
 
-    for (const line of lines) {
-      this.ctx.fillText(line, x, y)
-      y += lineHeight
+    if (layout.legend) {
+      this.renderChartLegend(element, layout.legend, font, textColor)
     }
+
+    this.ctx.restore()
   }
 
   /**
-   * Wrap text to fit within a specified width
+   * Render the gridlines, axis labels and data of a bar, line or area chart
    */
-  private wrapText(
-    text: string,
-    maxWidth: number,
-    fontSize: number,
-    fontFamily: string,
-    fontWeight: string,
-    fontStyle: string
-  ): string[] {
-    this.ctx.font = `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`
-    const words = text.split(' ')
-    const lines: string[] = []
-    let currentLine = ''
+  private renderAxisChart(element: ChartElement, plot: ChartRect, textColor: string): void {
+    const axis = getValueAxis(element)
+
+    // Gridlines with value labels
+    this.ctx.strokeStyle = textColor
+    this.ctx.fillStyle = textColor
+    this.ctx.lineWidth = 1
+    this.ctx.textAlign = 'right'
+    this.ctx.textBaseline = 'middle'
+    for (const tick of axis.ticks) {
+      const y = getValueY(tick, axis, plot)
+      this.ctx.globalAlpha = tick === 0 ? 0.6 : 0.15
+      this.ctx.beginPath()
+      this.ctx.moveTo(plot.x, y)
+      this.ctx.lineTo(plot.x + plot.width, y)
+      this.ctx.stroke()
+      this.ctx.globalAlpha = 1
+      this.ctx.fillText(formatChartValue(tick), plot.x - 6, y)
+    }
+
+    // Category labels
+    this.ctx.textAlign = 'center'
+    this.ctx.textBaseline = 'top'
+    const bandWidth = plot.width / Math.max(1, element.categories.length)
+    element.categories.forEach((category, index) => {
+      this.ctx.fillText(category, getCategoryX(element, index, plot), plot.y + plot.height + 6, bandWidth)
+    })
+
+    if (element.chartType === 'bar') {
+      for (const bar of getChartBars(element, plot, axis)) {
+        this.ctx.fillStyle = getSeriesColor(element, bar.seriesIndex, this.theme)
+        this.ctx.fillRect(bar.x, bar.y, bar.width, bar.height)
+      }
+      return
+    }
+
+    const baseline = getValueY(Math.max(axis.min, Math.min(0, axis.max)), axis, plot)
+    element.series.forEach((_, seriesIndex) => {
+      const points = getSeriesPoints(element, seriesIndex, plot, axis)
+      const first = points[0]
+      const last = points[points.length - 1]
+      if (!first || !last) return
+      const color = getSeriesColor(element, seriesIndex, this.theme)
+
+      if (element.chartType === 'area') {
+        this.ctx.beginPath()
+        this.ctx.moveTo(first.x, baseline)
+        for (const point of points) this.ctx.lineTo(point.x, point.y)
+        this.ctx.lineTo(last.x, baseline)
+        this.ctx.closePath()
+        this.ctx.globalAlpha = 0.35
+        this.ctx.fillStyle = color
+        this.ctx.fill()
+        this.ctx.globalAlpha = 1
+      }
 
-    for (const word of words) {
-      const testLine = currentLine ? `${currentLine} ${word}` : word
-      const metrics = this.ctx.measureText(testLine)
+      this.ctx.beginPath()
+      points.forEach((point, index) => {
+        if (index === 0) this.ctx.moveTo(point.x, point.y)
+        else this.ctx.lineTo(point.x, point.y)
+      })
+      this.ctx.strokeStyle = color
+      this.ctx.lineWidth = 2
+      this.ctx.lineJoin = 'round'
+      this.ctx.stroke()
 
-      if (metrics.width > maxWidth && currentLine) {
-        lines.push(currentLine)
-        currentLine = word
-      } else {
-        currentLine = testLine
+      if (element.chartType === 'line') {
+        this.ctx.fillStyle = color
+        for (const point of points) {
+          this.ctx.beginPath()
+          this.ctx.arc(point.x, point.y, 3, 0, Math.PI * 2)
+          this.ctx.fill()
+        }
       }
+    })
+  }
+
+  /**
+   * Render the slices of a pie chart, centered in the plot
+   */
+  private renderPieChart(element: ChartElement, plot: ChartRect): void {
+    const radius = Math.max(0, Math.min(plot.width, plot.height) / 2)
+    const centerX = plot.x + plot.width / 2
+    const centerY = plot.y + plot.height / 2
+
+    this.ctx.strokeStyle = resolveThemeColor(themeColorRef('background'), this.theme)
+    this.ctx.lineWidth = 1.5
+    for (const slice of getPieSlices(element)) {
+      this.ctx.beginPath()
+      this.ctx.moveTo(centerX, centerY)
+      this.ctx.arc(centerX, centerY, radius, slice.startAngle, slice.endAngle)
+      this.ctx.closePath()
+      this.ctx.fillStyle = getPaletteColor(slice.categoryIndex, this.theme)
+      this.ctx.fill()
+      this.ctx.stroke()
     }
+  }
+
+  /**
+   * Render the legend of a chart as a centered row of color keys and labels
+   */
+  private renderChartLegend(
+    element: ChartElement,
+    legend: ChartRect,
+    font: string,
+    textColor: string
+  ): void {
+    const entries = getLegendEntries(element, this.theme)
+    const keySize = element.fontSize * 0.8
+    const gap = element.fontSize
+    this.ctx.font = font
+    const widths = entries.map((entry) => keySize + 4 + this.ctx.measureText(entry.label).width)
+    const total = widths.reduce((sum, width) => sum + width, 0) + gap * (entries.length - 1)
+
+    let x = legend.x + Math.max(0, (legend.width - total) / 2)
+    const centerY = legend.y + legend.height / 2
+    this.ctx.textAlign = 'left'
+    this.ctx.textBaseline = 'middle'
+    entries.forEach((entry, index) => {
+      this.ctx.fillStyle = entry.color
+      this.ctx.fillRect(x, centerY - keySize / 2, keySize, keySize)
+      this.ctx.fillStyle = textColor
+      this.ctx.fillText(entry.label, x + keySize + 4, centerY)
+      x += (widths[index] ?? 0) + gap
+    })
+  }
+
+  /**
+   * Render a connector along its routed path, with its arrowheads
+   */
+  private renderConnectorElement(element: ConnectorElement): void {
+    const path = getConnectorPath(element, this.elements)
+    const [first, ...rest] = path.points
+    if (!first) return
+
+    const color = resolveThemeColor(element.strokeColor, this.theme)
+    this.ctx.strokeStyle = color
+    this.ctx.fillStyle = color
+    this.ctx.lineWidth = element.strokeWidth
+    this.ctx.lineCap = 'round'
+    this.ctx.lineJoin = 'round'
 
-    if (currentLine) {
-      lines.push(currentLine)
+    this.ctx.beginPath()
+    this.ctx.moveTo(first.x, first.y)
+    if (path.kind === 'curve') {
+      const [c1, c2, end] = rest
+      if (c1 && c2 && end) {
+        this.ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, end.x, end.y)
+      }
+    } else {
+      for (const point of rest) {
+        this.ctx.lineTo(point.x, point.y)
+      }
     }
+    this.ctx.stroke()
+
+    const last = path.points[path.points.length - 1] ?? first
+    this.renderArrowhead(element.startArrowhead, first, getArrowheadAngle(path, 'start'), element.strokeWidth)
+    this.renderArrowhead(element.endArrowhead, last, getArrowheadAngle(path, 'end'), element.strokeWidth)
+  }
+
+  /**
+   * Render an arrowhead with its tip at `tip`, pointing in the direction of `angle`.
+   * Uses the current stroke and fill styles.
+   */
+  private renderArrowhead(style: ArrowheadStyle, tip: Position, angle: number, strokeWidth: number): void {
+    if (style === 'none') return
+    const size = Math.max(8, strokeWidth * 4)
 
-    return lines.length ? lines : ['']
+    this.ctx.save()
+    this.ctx.translate(tip.x, tip.y)
+    this.ctx.rotate(angle)
+    this.ctx.beginPath()
+    switch (style) {
+      case 'arrow':
+        this.ctx.moveTo(-size, -size / 2)
+        this.ctx.lineTo(0, 0)
+        this.ctx.lineTo(-size, size / 2)
+        this.ctx.stroke()
+        break
+      case 'triangle':
+        this.ctx.moveTo(0, 0)
+        this.ctx.lineTo(-size, -size / 2)
+        this.ctx.lineTo(-size, size / 2)
+        this.ctx.closePath()
+        this.ctx.fill()
+        break
+      case 'circle':
+        this.ctx.arc(0, 0, size / 3, 0, Math.PI * 2)
+        this.ctx.fill()
+        break
+    }
+    this.ctx.restore()
   }
 
   /**
    * Render a shape element
    */
   private renderShapeElement(element: ShapeElement): void {
-    const { position, dimensions, shapeType, fillColor, strokeColor, strokeWidth, cornerRadius } = element
+    const { position, dimensions, shapeType, strokeWidth, cornerRadius } = element
+    const fillColor = resolveThemeColor(element.fillColor, this.theme)
+    const strokeColor = resolveThemeColor(element.strokeColor, this.theme)
+    const lineCap = getShapeLineCap(element)
 
-    this.ctx.fillStyle = fillColor
+    this.ctx.fillStyle = this.getShapeFillStyle(element, fillColor)
     this.ctx.strokeStyle = strokeColor
     this.ctx.lineWidth = strokeWidth
+    this.ctx.lineCap = lineCap
+    this.ctx.lineJoin = getShapeLineJoin(element)
+    this.ctx.setLineDash(getStrokeDashPattern(element.strokeDash, strokeWidth, lineCap))
+    this.applyShapeShadow(element)
 
     switch (shapeType) {
       case 'rectangle': {
@@ -508,10 +968,7 @@ export class SlideCanvasRenderer {
           // Draw regular rectangle
           this.ctx.rect(x, y, width, height)
         }
-        this.ctx.fill()
-        if (strokeWidth > 0) {
-          this.ctx.stroke()
-        }
+        this.paintShapePath(true, strokeWidth > 0)
         break
       }
 
@@ -523,10 +980,7 @@ export class SlideCanvasRenderer {
 
         this.ctx.beginPath()
         this.ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, Math.PI * 2)
-        this.ctx.fill()
-        if (strokeWidth > 0) {
-          this.ctx.stroke()
-        }
+        this.paintShapePath(true, strokeWidth > 0)
         break
       }
 
@@ -539,10 +993,7 @@ export class SlideCanvasRenderer {
         this.ctx.lineTo(x + width, y + height) // Bottom right
         this.ctx.lineTo(x, y + height) // Bottom left
         this.ctx.closePath()
-        this.ctx.fill()
-        if (strokeWidth > 0) {
-          this.ctx.stroke()
-        }
+        this.paintShapePath(true, strokeWidth > 0)
         break
       }
 
@@ -555,17 +1006,132 @@ export class SlideCanvasRenderer {
         this.ctx.lineTo(x + width, y + height)
         this.ctx.strokeStyle = strokeColor || fillColor
         this.ctx.lineWidth = strokeWidth || 2
-        this.ctx.stroke()
+        if (!strokeWidth) {
+          this.ctx.setLineDash(getStrokeDashPattern(element.strokeDash, 2, lineCap))
+        }
+        this.paintShapePath(false, true)
         break
       }
+
+      default: {
+        // Shape library outlines and freeform paths; open paths are only stroked
+        const outline = getShapeOutline(element)
+        this.traceShapePath(outline)
+        this.paintShapePath(isClosedPath(outline), strokeWidth > 0)
+        break
+      }
+    }
+  }
+
+  /**
+   * Get the fill style of a shape: its fill color, or a gradient across its box
+   */
+  private getShapeFillStyle(element: ShapeElement, fillColor: string): string | CanvasGradient {
+    const bounds = { ...element.position, ...element.dimensions }
+    const stops = getShapeGradientStops(element)
+    switch (element.fillType) {
+      case 'linearGradient':
+        return this.createLinearGradient(
+          element.gradientDirection ?? DEFAULT_GRADIENT_DIRECTION,
+          stops,
+          bounds
+        )
+      case 'radialGradient': {
+        const { center, radius } = getRadialGradientCircle(bounds)
+        const gradient = this.ctx.createRadialGradient(center.x, center.y, 0, center.x, center.y, radius)
+        this.addGradientStops(gradient, stops)
+        return gradient
+      }
+      default:
+        return fillColor
+    }
+  }
+
+  /**
+   * Create a linear gradient across a rectangle
+   */
+  private createLinearGradient(
+    direction: GradientDirection,
+    stops: GradientStop[],
+    bounds: GradientBounds
+  ): CanvasGradient {
+    const { start, end } = getLinearGradientLine(direction, bounds)
+    const gradient = this.ctx.createLinearGradient(start.x, start.y, end.x, end.y)
+    this.addGradientStops(gradient, stops)
+    return gradient
+  }
+
+  /**
+   * Add color stops to a canvas gradient, resolving theme colors
+   */
+  private addGradientStops(gradient: CanvasGradient, stops: GradientStop[]): void {
+    for (const stop of stops) {
+      gradient.addColorStop(stop.offset, resolveThemeColor(stop.color, this.theme))
+    }
+  }
+
+  /**
+   * Apply a shape's drop shadow to the context.
+   * Canvas shadows are not affected by the transform, so they are scaled to the
+   * current zoom and export scale here; like slide shadows, they don't rotate with the shape.
+   */
+  private applyShapeShadow(element: ShapeElement): void {
+    const { shadow } = element
+    if (!shadow?.enabled) return
+    const transform = this.ctx.getTransform()
+    const scale = Math.hypot(transform.a, transform.b)
+    this.ctx.shadowColor = getShadowColor(shadow, this.theme)
+    this.ctx.shadowBlur = shadow.blur * scale
+    this.ctx.shadowOffsetX = shadow.offsetX * scale
+    this.ctx.shadowOffsetY = shadow.offsetY * scale
+  }
+
+  /**
+   * Fill and/or stroke the current path. A filled shape casts its shadow
+   * from the fill only, so the stroke doesn't shadow the shape's own interior.
+   */
+  private paintShapePath(fill: boolean, stroke: boolean): void {
+    if (fill) {
+      this.ctx.fill()
+      this.ctx.shadowColor = 'transparent'
+    }
+    if (stroke) {
+      this.ctx.stroke()
+    }
+  }
+
+  /**
+   * Begin a new canvas path from shape outline commands
+   */
+  private traceShapePath(commands: PathCommand[]): void {
+    this.ctx.beginPath()
+    for (const c of commands) {
+      switch (c.type) {
+        case 'M':
+          this.ctx.moveTo(c.x, c.y)
+          break
+        case 'L':
+          this.ctx.lineTo(c.x, c.y)
+          break
+        case 'Q':
+          this.ctx.quadraticCurveTo(c.x1, c.y1, c.x, c.y)
+          break
+        case 'C':
+          this.ctx.bezierCurveTo(c.x1, c.y1, c.x2, c.y2, c.x, c.y)
+          break
+        case 'Z':
+          this.ctx.closePath()
+          break
+      }
     }
   }
 
   /**
-   * Render an image element
+   * Render an image element: the cropped part of the image, fitted into the box,
+   * clipped to its mask (or box) with its adjustments applied as a canvas filter
    */
   private renderImageElement(element: ImageElement): void {
-    const { position, dimensions, src, objectFit } = element
+    const { position, dimensions, src } = element
 
     const cachedImage = this.imageCache.get(src)
     if (!cachedImage?.complete) {
@@ -575,97 +1141,92 @@ export class SlideCanvasRenderer {
       return
     }
 
-    // Calculate source and destination rectangles based on objectFit
-    const { sx, sy, sw, sh, dx, dy, dw, dh } = this.calculateImageFit(
+    // Calculate source and destination rectangles based on crop and objectFit
+    const { sx, sy, sw, sh, dx, dy, dw, dh } = getImageFit(
       cachedImage.width,
       cachedImage.height,
-      position,
-      dimensions,
-      objectFit
+      element
     )
 
+    // Clip to the mask, or to the box so blur and 'none' fits don't spill out of it
+    const mask = getImageMaskOutline(element)
+    if (mask) {
+      this.traceShapePath(mask)
+    } else {
+      this.ctx.beginPath()
+      this.ctx.rect(position.x, position.y, dimensions.width, dimensions.height)
+    }
+    this.ctx.clip()
+
+    // Canvas filters ignore the transform, so scale the blur to the zoom and export scale
+    const transform = this.ctx.getTransform()
+    this.ctx.filter = getImageFilter(element.adjustments, Math.hypot(transform.a, transform.b))
     this.ctx.drawImage(cachedImage, sx, sy, sw, sh, dx, dy, dw, dh)
   }
 
   /**
-   * Calculate image fit dimensions based on objectFit mode
+   * Render crop mode for an image: the whole image dimmed in its full frame,
+   * the cropped part on top of it, and handles on the crop box
    */
-  private calculateImageFit(
-    imageWidth: number,
-    imageHeight: number,
-    position: Position,
-    dimensions: Dimensions,
-    objectFit: 'cover' | 'contain' | 'fill' | 'none'
-  ): { sx: number; sy: number; sw: number; sh: number; dx: number; dy: number; dw: number; dh: number } {
-    const { x, y } = position
-    const { width, height } = dimensions
-
-    switch (objectFit) {
-      case 'cover': {
-        const imageRatio = imageWidth / imageHeight
-        const containerRatio = width / height
-        let sw: number, sh: number, sx: number, sy: number
-
-        if (imageRatio > containerRatio) {
-          sh = imageHeight
-          sw = sh * containerRatio
-          sy = 0
-          sx = (imageWidth - sw) / 2
-        } else {
-          sw = imageWidth
-          sh = sw / containerRatio
-          sx = 0
-          sy = (imageHeight - sh) / 2
-        }
-
-        return { sx, sy, sw, sh, dx: x, dy: y, dw: width, dh: height }
-      }
-
-      case 'contain': {
-        const imageRatio = imageWidth / imageHeight
-        const containerRatio = width / height
-        let dw: number, dh: number, dx: number, dy: number
+  private renderCropOverlay(croppingElement: ImageElement): void {
+    const element = this.getCroppableImage(croppingElement)
+    const full = getFullImageFrame(element)
+    const cachedImage = this.imageCache.get(element.src)
+    const { handleSize, selectionColor } = this.config
 
-        if (imageRatio > containerRatio) {
-          dw = width
-          dh = width / imageRatio
-          dx = x
-          dy = y + (height - dh) / 2
-        } else {
-          dh = height
-          dw = height * imageRatio
-          dy = y
-          dx = x + (width - dw) / 2
-        }
+    this.ctx.save()
+    this.applyElementTransform(element)
+    if (cachedImage?.complete) {
+      this.ctx.globalAlpha = 0.4
+      this.ctx.drawImage(
+        cachedImage,
+        full.position.x,
+        full.position.y,
+        full.dimensions.width,
+        full.dimensions.height
+      )
+      this.ctx.globalAlpha = 1
+    }
+    this.ctx.restore()
 
-        return { sx: 0, sy: 0, sw: imageWidth, sh: imageHeight, dx, dy, dw, dh }
-      }
+    this.ctx.save()
+    this.applyElementTransform(element)
+    this.renderImageElement(element)
+    this.ctx.restore()
 
-      case 'none':
-        return {
-          sx: 0,
-          sy: 0,
-          sw: imageWidth,
-          sh: imageHeight,
-          dx: x,
-          dy: y,
-          dw: imageWidth,
-          dh: imageHeight,
-        }
+    this.renderElementOutline({ ...full, rotation: element.rotation }, selectionColor, 1, [4, 4])
+    this.renderElementOutline(element, selectionColor, 2)
 
-      case 'fill':
-      default:
-        return {
-          sx: 0,
-          sy: 0,
-          sw: imageWidth,
-          sh: imageHeight,
-          dx: x,
-          dy: y,
-          dw: width,
-          dh: height,
-        }
+    // Crop handles: dark bars along the corners and edges of the crop box
+    this.ctx.save()
+    this.applyElementTransform(element)
+    const { x, y } = element.position
+    const { width, height } = element.dimensions
+    const length = Math.min(handleSize * 2, width / 3, height / 3)
+    this.ctx.strokeStyle = '#111827'
+    this.ctx.lineWidth = 4
+    this.ctx.lineCap = 'square'
+    this.ctx.beginPath()
+    for (const [cx, cy, sx, sy] of [
+      [x, y, 1, 1],
+      [x + width, y, -1, 1],
+      [x + width, y + height, -1, -1],
+      [x, y + height, 1, -1],
+    ] as const) {
+      this.ctx.moveTo(cx + sx * length, cy)
+      this.ctx.lineTo(cx, cy)
+      this.ctx.lineTo(cx, cy + sy * length)
     }
+    this.ctx.moveTo(x + width / 2 - length / 2, y)
+    this.ctx.lineTo(x + width / 2 + length / 2, y)
+    this.ctx.moveTo(x + width / 2 - length / 2, y + height)
+    this.ctx.lineTo(x + width / 2 + length / 2, y + height)
+    this.ctx.moveTo(x, y + height / 2 - length / 2)
+    this.ctx.lineTo(x, y + height / 2 + length / 2)
+    this.ctx.moveTo(x + width, y + height / 2 - length / 2)
+    this.ctx.lineTo(x + width, y + height / 2 + length / 2)
+    this.ctx.stroke()
+    this.ctx.restore()
   }
 
   /**
@@ -699,9 +1260,14 @@ export class SlideCanvasRenderer {
   }
 
   /**
-   * Render element selection outline
+   * Render the selection outline of an element or group frame
    */
-  private renderElementOutline(element: SlideElement, color: string, lineWidth: number): void {
+  private renderElementOutline(
+    element: ElementFrame,
+    color: string,
+    lineWidth: number,
+    lineDash: number[] = []
+  ): void {
     this.ctx.save()
     this.applyElementTransform(element)
 
@@ -709,16 +1275,16 @@ export class SlideCanvasRenderer {
 
     this.ctx.strokeStyle = color
     this.ctx.lineWidth = lineWidth
-    this.ctx.setLineDash([])
+    this.ctx.setLineDash(lineDash)
     this.ctx.strokeRect(position.x, position.y, dimensions.width, dimensions.height)
 
     this.ctx.restore()
   }
 
   /**
-   * Render selection handles for a selected element
+   * Render selection handles for a selected element or group frame
    */
-  private renderSelectionHandles(element: SlideElement): void {
+  private renderSelectionHandles(element: ElementFrame): void {
     this.ctx.save()
     this.applyElementTransform(element)
 
@@ -767,6 +1333,27 @@ export class SlideCanvasRenderer {
     this.ctx.restore()
   }
 
+  /**
+   * Render the endpoint handles of a selected connector.
+   * Ends attached to an element are filled with the selection color.
+   */
+  private renderConnectorHandles(connector: ConnectorElement): void {
+    const { handleSize, selectionColor } = this.config
+
+    this.ctx.save()
+    for (const endpoint of [connector.start, connector.end]) {
+      const { position } = resolveEndpoint(endpoint, this.elements)
+      this.ctx.beginPath()
+      this.ctx.arc(position.x, position.y, handleSize / 2 + 1, 0, Math.PI * 2)
+      this.ctx.fillStyle = endpoint.attachment ? selectionColor : '#ffffff'
+      this.ctx.fill()
+      this.ctx.strokeStyle = selectionColor
+      this.ctx.lineWidth = 2
+      this.ctx.stroke()
+    }
+    this.ctx.restore()
+  }
+
   /**
    * Render a selection box (for multi-select drag)
    */
@@ -814,7 +1401,8 @@ export class SlideCanvasRenderer {
         reject(new Error(`Failed to load image: ${src}`))
       }
 
-      img.src = src
+      // Asset references are cached under the reference and loaded from the library
+      img.src = resolveAssetUrl(src)
     })
 
     this.loadingImages.set(src, promise)
@@ -838,7 +1426,7 @@ export class SlideCanvasRenderer {
 
     for (const element of sortedElements) {
       if (element.locked) continue
-      if (this.isPointInElement(slideCoords.x, slideCoords.y, element)) {
+      if (this.isPointInElement(slideCoords.x, slideCoords.y, element, slide.elements)) {
         return element
       }
     }
@@ -875,45 +1463,63 @@ export class SlideCanvasRenderer {
   }
 
   /**
-   * Check if a point is within an element's bounds (considering rotation)
+   * Check if a point is within an element's bounds (considering rotation).
+   * Connectors are hit near their path, shapes other than rectangles
+   * on their outline, and circle-masked images inside the circle,
+   * rather than anywhere in their bounds.
    */
-  private isPointInElement(x: number, y: number, element: SlideElement): boolean {
-    const { position, dimensions, rotation } = element
-
-    // If no rotation, simple bounds check
-    if (rotation === 0) {
-      return (
-        x >= position.x &&
-        x <= position.x + dimensions.width &&
-        y >= position.y &&
-        y <= position.y + dimensions.height
-      )
+  private isPointInElement(
+    x: number,
+    y: number,
+    element: SlideElement,
+    elements: SlideElement[]
+  ): boolean {
+    if (element.type === 'connector') {
+      const tolerance = Math.max(6, element.strokeWidth / 2 + 4)
+      return getDistanceToConnector(element, { x, y }, elements) <= tolerance
     }
 
+    const { position, dimensions, rotation } = element
+
     // For rotated elements, transform the point to element's local space
-    const centerX = position.x + dimensions.width / 2
-    const centerY = position.y + dimensions.height / 2
-    const angleRad = (-rotation * Math.PI) / 180
+    let localX = x
+    let localY = y
+    if (rotation !== 0) {
+      const centerX = position.x + dimensions.width / 2
+      const centerY = position.y + dimensions.height / 2
+      const angleRad = (-rotation * Math.PI) / 180
+
+      const translatedX = x - centerX
+      const translatedY = y - centerY
+
+      localX = translatedX * Math.cos(angleRad) - translatedY * Math.sin(angleRad) + centerX
+      localY = translatedX * Math.sin(angleRad) + translatedY * Math.cos(angleRad) + centerY
+    }
 
-    const translatedX = x - centerX
-    const translatedY = y - centerY
+    // Shapes other than rectangles are hit on their outline rather than their whole box
+    if (element.type === 'shape' && element.shapeType !== 'rectangle') {
+      const tolerance = Math.max(element.strokeWidth / 2, element.shapeType === 'line' ? 4 : 1)
+      return isPointInShape(element, { x: localX, y: localY }, tolerance)
+    }
 
-    const rotatedX = translatedX * Math.cos(angleRad) - translatedY * Math.sin(angleRad) + centerX
-    const rotatedY = translatedX * Math.sin(angleRad) + translatedY * Math.cos(angleRad) + centerY
+    // Images masked to a circle are hit inside the circle
+    if (element.type === 'image' && element.mask === 'circle') {
+      return isPointInShape({ position, dimensions, shapeType: 'ellipse' }, { x: localX, y: localY })
+    }
 
     return (
-      rotatedX >= position.x &&
-      rotatedX <= position.x + dimensions.width &&
-      rotatedY >= position.y &&
-      rotatedY <= position.y + dimensions.height
+      localX >= position.x &&
+      localX <= position.x + dimensions.width &&
+      localY >= position.y &&
+      localY <= position.y + dimensions.height
     )
   }
 
   /**
-   * Get the resize handle at a specific point
+   * Get the resize handle of an element or group frame at a specific point
    */
   public getResizeHandleAtPoint(
-    element: SlideElement,
+    element: ElementFrame,
     viewport: ViewportState,
     canvasX: number,
     canvasY: number
@@ -948,6 +1554,42 @@ export class SlideCanvasRenderer {
 
     return null
   }
+  /**
+   * Get the endpoint handle of a connector at a specific point
+   */
+  public getConnectorHandleAtPoint(
+    connector: ConnectorElement,
+    elements: SlideElement[],
+    viewport: ViewportState,
+    canvasX: number,
+    canvasY: number
+  ): 'start' | 'end' | null {
+    const slideCoords = this.canvasToSlideCoordinates(viewport, canvasX, canvasY)
+    const radius = (this.config.handleSize / 2 + 2) / viewport.zoom
+
+    for (const end of ['start', 'end'] as const) {
+      const { position } = resolveEndpoint(connector[end], elements)
+      if (Math.hypot(slideCoords.x - position.x, slideCoords.y - position.y) <= radius) {
+        return end
+      }
+    }
+
+    return null
+  }
+
+
+  /**
+   * Get an image as it is edited in crop mode: drawn with 'fill' in a box that
+   * shows only the visible part of the image. Images that haven't loaded are returned as is.
+   */
+  public getCroppableImage(element: ImageElement): ImageElement {
+    const cachedImage = this.imageCache.get(element.src)
+    if (!cachedImage?.complete || cachedImage.naturalWidth === 0) return element
+    return {
+      ...element,
+      ...normalizeImageCrop(element, cachedImage.naturalWidth, cachedImage.naturalHeight),
+    }
+  }
 
   /**
    * Preload images for a slide
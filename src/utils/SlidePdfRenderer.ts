@@ -0,0 +1,1410 @@
+/**
+ * SlidePdfRenderer - vector rendering engine for exporting slides to PDF
+ *
+ * Draws slides into a jsPDF document with native PDF primitives instead of a
+ * picture of the slide, so text stays selectable and searchable and shapes stay
+ * sharp at any zoom. Mirrors SlideCanvasRenderer so exports match the editor:
+ * - Slide backgrounds (solid, gradient, image)
+ * - Text with rich runs, lists and autofit, laid out by the shared text layout
+ *   engine and written with embedded fonts, with clickable hyperlinks
+ * - Shapes as paths with solid or gradient fills, dashed strokes and shadows
+ * - Images with crops, masks and adjustments
+ * - Tables, charts and connectors with arrowheads
+ *
+ * Slides are drawn in their 960x540 pixel coordinates, with a transform that maps
+ * them onto the frame they take up on the page. PDF has no blur, so shadows are
+ * drawn hard-edged. Elements with text their fonts can't write, such as Cyrillic,
+ * CJK or emoji, are drawn as pictures by SlideCanvasRenderer instead.
+ */
+
+import { GState, ShadingPattern, type jsPDF } from 'jspdf'
+import type {
+  Slide,
+  SlideElement,
+  TextElement,
+  ShapeElement,
+  ImageElement,
+  TableElement,
+  ChartElement,
+  ConnectorElement,
+  ArrowheadStyle,
+  SlideBackground,
+  GradientStop,
+  GradientDirection,
+  Position,
+  PresentationTheme,
+  ElementFrame,
+} from '@/types/presentation'
+import { DEFAULT_THEME } from '@/types/presentation'
+import { resolveAssetUrl } from '@/stores/assetStore'
+import {
+  resolveThemeColor,
+  resolveThemeFont,
+  resolveBackgroundTheme,
+  themeColorRef,
+} from './themeUtils'
+import {
+  DEFAULT_GRADIENT_DIRECTION,
+  getShapeGradientStops,
+  getShapeLineCap,
+  getShapeLineJoin,
+  getBackgroundGradientStops,
+  getLinearGradientLine,
+  getRadialGradientCircle,
+  getStrokeDashPattern,
+  getShadowColor,
+  type GradientBounds,
+} from './shapeStyles'
+import { layoutText, getAutofitFontSize, parseFontString, type TextLayout } from './textLayout'
+import { getCellRects, getCellTextElement, getCellFillColor } from './tableUtils'
+import {
+  getChartLayout,
+  getValueAxis,
+  getValueY,
+  getCategoryX,
+  getChartBars,
+  getSeriesPoints,
+  getPieSlices,
+  getSeriesColor,
+  getPaletteColor,
+  getLegendEntries,
+  formatChartValue,
+  type ChartRect,
+} from './chartUtils'
+import { getConnectorPath, getArrowheadAngle } from './connectorUtils'
+import { getShapeOutline, isClosedPath, type PathCommand } from './shapeGeometry'
+import { getImageFit, getImageFilter, getImageMaskOutline } from './imageUtils'
+import { decodeDataUrl } from './assetLibrary'
+import {
+  canEncodeText,
+  embedPdfFonts,
+  getSlideFonts,
+  resolvePdfFont,
+  type EmbeddedPdfFonts,
+  type PdfFontRequest,
+} from './pdfFonts'
+import { SlideCanvasRenderer } from './SlideCanvasRenderer'
+import { sanitizeLink } from './richText'
+
+/**
+ * Standard slide dimensions (16:9 aspect ratio)
+ */
+const SLIDE_WIDTH = 960
+const SLIDE_HEIGHT = 540
+
+/**
+ * Distance from the top of the em box to the baseline, as a fraction of the font
+ * size. Text is positioned by its top like canvas text, but PDF text by its baseline.
+ */
+const BASELINE_OFFSET = 0.8
+
+/**
+ * Most copies of a tiled background image drawn on a slide
+ */
+const MAX_BACKGROUND_TILES = 400
+
+/**
+ * Pixels per slide pixel of elements drawn as pictures
+ */
+const RASTER_SCALE = 3
+
+/**
+ * Area of the page a slide is drawn into, in document units
+ */
+export interface PdfFrame {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * An affine transform [a, b, c, d, e, f], mapping (x, y) to
+ * (a * x + c * y + e, b * x + d * y + f) like canvas and PDF transforms
+ */
+type Matrix2D = [number, number, number, number, number, number]
+
+/**
+ * An RGB color with its opacity
+ */
+interface RgbColor {
+  rgb: [number, number, number]
+  alpha: number
+}
+
+/**
+ * A loaded image: data jsPDF can embed as is, and/or a decoded image for
+ * drawing adjustments or formats jsPDF can't read through a canvas
+ */
+interface PdfImage {
+  data: Uint8Array | null
+  format: string
+  element: HTMLImageElement | null
+  width: number
+  height: number
+  /** Name the data is embedded under, so repeated images are stored once */
+  alias: string
+}
+
+/**
+ * A hyperlink area, in page coordinates
+ */
+interface PdfLink {
+  x: number
+  y: number
+  width: number
+  height: number
+  url: string
+}
+
+/**
+ * Named colors that appear in presentations besides hex and rgb() values
+ */
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  white: [255, 255, 255],
+  black: [0, 0, 0],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+}
+
+/**
+ * Parse a CSS color (hex, rgb(), rgba() or a basic named color).
+ * Returns null for transparent colors; unknown colors are treated as black.
+ */
+function parseColor(value: string): RgbColor | null {
+  const color = value.trim().toLowerCase()
+  if (!color || color === 'transparent' || color === 'none') return null
+
+  const hex = /^#([0-9a-f]{3,8})$/.exec(color)?.[1]
+  if (hex) {
+    const digits = hex.length <= 4 ? Array.from(hex, (d) => d + d).join('') : hex
+    const [r = 0, g = 0, b = 0] = [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16) || 0)
+    const alpha = digits.length >= 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+    return alpha > 0 ? { rgb: [r, g, b], alpha } : null
+  }
+
+  const rgb = /^rgba?\(([^)]*)\)$/.exec(color)?.[1]
+  if (rgb) {
+    const [r = 0, g = 0, b = 0, a = 1] = rgb
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .map((part) => (part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part)))
+    const channel = (n: number) => Math.min(255, Math.max(0, Math.round(n)))
+    const alpha = Math.min(1, Math.max(0, a))
+    return alpha > 0 ? { rgb: [channel(r), channel(g), channel(b)], alpha } : null
+  }
+
+  return { rgb: NAMED_COLORS[color] ?? [0, 0, 0], alpha: 1 }
+}
+
+/**
+ * Combine two transforms: the result applies `inner` first, then `outer`
+ */
+function multiply(outer: Matrix2D, inner: Matrix2D): Matrix2D {
+  const [a, b, c, d, e, f] = outer
+  const [a2, b2, c2, d2, e2, f2] = inner
+  return [
+    a * a2 + c * b2,
+    b * a2 + d * b2,
+    a * c2 + c * d2,
+    b * c2 + d * d2,
+    a * e2 + c * f2 + e,
+    b * e2 + d * f2 + f,
+  ]
+}
+
+/**
+ * Get the transform that rotates an element around its center
+ */
+function getRotationMatrix(element: ElementFrame): Matrix2D {
+  const { position, dimensions, rotation } = element
+  const cx = position.x + dimensions.width / 2
+  const cy = position.y + dimensions.height / 2
+  const angle = (rotation * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy]
+}
+
+/**
+ * Convert an arc around a center into cubic Bezier path commands, without the initial move
+ */
+function arcToCurves(
+  center: Position,
+  radius: number,
+  startAngle: number,
+  endAngle: number
+): PathCommand[] {
+  const commands: PathCommand[] = []
+  const segments = Math.max(1, Math.ceil(Math.abs(endAngle - startAngle) / (Math.PI / 2)))
+  const step = (endAngle - startAngle) / segments
+  // Control point distance for a circular arc of `step` radians
+  const k = (4 / 3) * Math.tan(step / 4) * radius
+
+  for (let i = 0; i < segments; i++) {
+    const a1 = startAngle + i * step
+    const a2 = a1 + step
+    commands.push({
+      type: 'C',
+      x1: center.x + radius * Math.cos(a1) - k * Math.sin(a1),
+      y1: center.y + radius * Math.sin(a1) + k * Math.cos(a1),
+      x2: center.x + radius * Math.cos(a2) + k * Math.sin(a2),
+      y2: center.y + radius * Math.sin(a2) - k * Math.cos(a2),
+      x: center.x + radius * Math.cos(a2),
+      y: center.y + radius * Math.sin(a2),
+    })
+  }
+  return commands
+}
+
+/**
+ * Draws slides into a jsPDF document as vector graphics
+ */
+export class SlidePdfRenderer {
+  private pdf: jsPDF
+  private theme: PresentationTheme
+  private fonts: EmbeddedPdfFonts = new Map()
+  private images: Map<string, PdfImage | null> = new Map()
+  private slide: Slide | null = null
+  private elements: SlideElement[] = []
+  /** Transform from slide coordinates to page coordinates, tracked for link areas */
+  private matrix: Matrix2D = [1, 0, 0, 1, 0, 0]
+  private matrixStack: Matrix2D[] = []
+  /** Opacity of the element being drawn, combined with the alpha of its colors */
+  private opacity = 1
+  private links: PdfLink[] = []
+  private gradientCount = 0
+
+  constructor(pdf: jsPDF, theme: PresentationTheme = DEFAULT_THEME) {
+    this.pdf = pdf
+    this.theme = theme
+  }
+
+  /**
+   * Embed the fonts that the text of the slides is drawn with, along with other
+   * fonts the document writes text with. Returns the embedded fonts.
+   */
+  public async embedFonts(
+    slides: Slide[],
+    fonts: PdfFontRequest[] = []
+  ): Promise<EmbeddedPdfFonts> {
+    this.fonts = await embedPdfFonts(this.pdf, [
+      ...slides.flatMap((slide) => getSlideFonts(slide, this.theme)),
+      ...fonts,
+    ])
+    return this.fonts
+  }
+
+  /**
+   * Load the images of a slide. Images that can't be loaded are left out.
+   */
+  public async preloadImages(slide: Slide): Promise<void> {
+    const sources = new Map<string, boolean>()
+    if (slide.background.type === 'image' && slide.background.imageSrc) {
+      sources.set(slide.background.imageSrc, false)
+    }
+    for (const element of slide.elements) {
+      if (element.type !== 'image' || !element.src) continue
+      // Adjusted images are drawn through a canvas, which needs the decoded image
+      const adjusted = getImageFilter(element.adjustments) !== 'none'
+      sources.set(element.src, (sources.get(element.src) ?? false) || adjusted)
+    }
+
+    for (const [src, needsElement] of sources) {
+      const cached = this.images.get(src)
+      if (cached === null || (cached && (cached.element || !needsElement))) continue
+      try {
+        this.images.set(src, await this.loadImage(src, needsElement))
+      } catch {
+        this.images.set(src, null)
+      }
+    }
+  }
+
+  /**
+   * Draw a slide into a frame of the current page
+   */
+  public render(slide: Slide, frame: PdfFrame): void {
+    this.slide = slide
+    this.elements = slide.elements
+    this.links = []
+    const scale = frame.width / SLIDE_WIDTH
+
+    this.pdf.advancedAPI(() => {
+      this.save()
+      this.transform([scale, 0, 0, frame.height / SLIDE_HEIGHT, frame.x, frame.y])
+
+      // Content outside the slide is hidden, like in the editor
+      this.pdf.rect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT, null)
+      this.pdf.clip()
+      this.pdf.discardPath()
+
+      this.renderBackground(slide.background)
+
+      const sortedElements = [...slide.elements].sort((a, b) => a.zIndex - b.zIndex)
+      for (const element of sortedElements) {
+        this.renderElement(element)
+      }
+
+      this.restore()
+    })
+
+    // Annotations are placed in page coordinates, outside the advanced API
+    for (const link of this.links) {
+      this.pdf.link(link.x, link.y, link.width, link.height, { url: link.url })
+    }
+  }
+
+  /**
+   * Load an image source: its data when jsPDF can embed it, and its decoded
+   * image when it must be drawn through a canvas
+   */
+  private async loadImage(src: string, needsElement: boolean): Promise<PdfImage | null> {
+    const url = resolveAssetUrl(src)
+    if (!url) return null
+
+    let data = decodeDataUrl(url)?.data ?? null
+    if (!data) {
+      const response = await fetch(url)
+      if (!response.ok) return null
+      data = new Uint8Array(await response.arrayBuffer())
+    }
+
+    const alias = `image-${String(this.images.size + 1)}`
+    let properties: { width: number; height: number; fileType: string } | null = null
+    try {
+      properties = this.pdf.getImageProperties(data)
+    } catch {
+      // Not a format jsPDF reads, such as SVG or WebP
+    }
+    if (properties && !needsElement) {
+      const { width, height, fileType } = properties
+      return { data, format: fileType, element: null, width, height, alias }
+    }
+
+    const element = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image()
+      img.crossOrigin = 'anonymous'
+      img.onload = () => {
+        resolve(img)
+      }
+      img.onerror = () => {
+        reject(new Error(`Failed to load image: ${src}`))
+      }
+      img.src = url
+    })
+    return {
+      data: properties ? data : null,
+      format: properties?.fileType ?? 'PNG',
+      element,
+      width: element.naturalWidth,
+      height: element.naturalHeight,
+      alias,
+    }
+  }
+
+  /**
+   * Save the graphics state and the tracked transform
+   */
+  private save(): void {
+    this.pdf.saveGraphicsState()
+    this.matrixStack.push(this.matrix)
+  }
+
+  /**
+   * Restore the graphics state and the tracked transform
+   */
+  private restore(): void {
+    this.pdf.restoreGraphicsState()
+    this.matrix = this.matrixStack.pop() ?? [1, 0, 0, 1, 0, 0]
+  }
+
+  /**
+   * Apply a transform on top of the current one
+   */
+  private transform(matrix: Matrix2D): void {
+    this.pdf.setCurrentTransformationMatrix(this.pdf.Matrix(...matrix))
+    this.matrix = multiply(this.matrix, matrix)
+  }
+
+  /**
+   * Set the fill and stroke opacity, combined with the element's opacity
+   */
+  private setAlpha(fillAlpha: number, strokeAlpha = fillAlpha): void {
+    this.pdf.setGState(
+      new GState({
+        opacity: this.opacity * fillAlpha,
+        'stroke-opacity': this.opacity * strokeAlpha,
+      })
+    )
+  }
+
+  /**
+   * Resolve a theme color reference and parse it
+   */
+  private color(value: string): RgbColor | null {
+    return parseColor(resolveThemeColor(value, this.theme))
+  }
+
+  /**
+   * Register a linear or radial gradient for filling paths
+   */
+  private createGradient(
+    direction: GradientDirection | 'radial',
+    stops: GradientStop[],
+    bounds: GradientBounds
+  ): string {
+    const colors = stops.map((stop) => ({
+      offset: stop.offset,
+      color: this.color(stop.color)?.rgb ?? [255, 255, 255],
+    }))
+    let pattern: ShadingPattern
+    if (direction === 'radial') {
+      const { center, radius } = getRadialGradientCircle(bounds)
+      pattern = new ShadingPattern(
+        'radial',
+        [center.x, center.y, 0, center.x, center.y, radius],
+        colors
+      )
+    } else {
+      const { start, end } = getLinearGradientLine(direction, bounds)
+      pattern = new ShadingPattern('axial', [start.x, start.y, end.x, end.y], colors)
+    }
+    const key = `gradient-${String(++this.gradientCount)}`
+    this.pdf.addShadingPattern(key, pattern)
+    return key
+  }
+
+  /**
+   * Begin a new path from shape outline commands
+   */
+  private tracePath(commands: PathCommand[]): void {
+    let current: Position = { x: 0, y: 0 }
+    let start: Position = current
+    for (const c of commands) {
+      switch (c.type) {
+        case 'M':
+          this.pdf.moveTo(c.x, c.y)
+          current = start = c
+          break
+        case 'L':
+          this.pdf.lineTo(c.x, c.y)
+          current = c
+          break
+        case 'Q':
+          // PDF only has cubic curves; raise the quadratic curve's degree
+          this.pdf.curveTo(
+            current.x + ((c.x1 - current.x) * 2) / 3,
+            current.y + ((c.y1 - current.y) * 2) / 3,
+            c.x + ((c.x1 - c.x) * 2) / 3,
+            c.y + ((c.y1 - c.y) * 2) / 3,
+            c.x,
+            c.y
+          )
+          current = c
+          break
+        case 'C':
+          this.pdf.curveTo(c.x1, c.y1, c.x2, c.y2, c.x, c.y)
+          current = c
+          break
+        case 'Z':
+          this.pdf.close()
+          current = start
+          break
+      }
+    }
+  }
+
+  /**
+   * Fill and/or stroke a path with the given paint. A gradient fill consumes
+   * the path, so the path is traced again for its stroke.
+   */
+  private paintPath(
+    commands: PathCommand[],
+    fill: RgbColor | string | null,
+    stroke: RgbColor | null
+  ): void {
+    if (typeof fill === 'string') {
+      this.setAlpha(1)
+      this.tracePath(commands)
+      this.pdf.fill({ key: fill, matrix: this.pdf.unitMatrix })
+      fill = null
+    }
+    if (!fill && !stroke) return
+
+    if (fill) this.pdf.setFillColor(...fill.rgb)
+    if (stroke) this.pdf.setDrawColor(...stroke.rgb)
+    this.setAlpha(fill?.alpha ?? 1, stroke?.alpha ?? 1)
+    this.tracePath(commands)
+    if (fill && stroke) this.pdf.fillStroke()
+    else if (fill) this.pdf.fill()
+    else this.pdf.stroke()
+  }
+
+  /**
+   * Fill a rectangle with a solid color
+   */
+  private fillRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: RgbColor | null
+  ): void {
+    if (!color) return
+    this.pdf.setFillColor(...color.rgb)
+    this.setAlpha(color.alpha)
+    this.pdf.rect(x, y, width, height, 'F')
+  }
+
+  /**
+   * Clip further drawing to a path
+   */
+  private clipPath(commands: PathCommand[]): void {
+    this.tracePath(commands)
+    this.pdf.clip()
+    this.pdf.discardPath()
+  }
+
+  /**
+   * Clip further drawing to a rectangle
+   */
+  private clipRect(x: number, y: number, width: number, height: number): void {
+    this.pdf.rect(x, y, width, height, null)
+    this.pdf.clip()
+    this.pdf.discardPath()
+  }
+
+  /**
+   * Select the font of a CSS font string, with its size in slide pixels
+   */
+  private applyFont(font: string): number {
+    const { family, size, bold, italic } = parseFontString(font)
+    const { fontName, fontStyle } = resolvePdfFont(family, bold, italic, this.fonts)
+    this.pdf.setFont(fontName, fontStyle)
+    // jsPDF takes font sizes in points and scales them to document units
+    this.pdf.setFontSize(size * this.pdf.internal.scaleFactor)
+    return size
+  }
+
+  /**
+   * Measure text width in slide pixels, for the text layout engine
+   */
+  private measureText = (text: string, font: string): number => {
+    this.applyFont(font)
+    return this.pdf.getTextWidth(text)
+  }
+
+  /**
+   * Draw a line of text positioned by the top of its em box, or by its middle
+   */
+  private drawText(
+    text: string,
+    font: string,
+    color: string,
+    x: number,
+    y: number,
+    options: { align?: 'left' | 'center' | 'right'; middle?: boolean } = {}
+  ): void {
+    const parsed = this.color(color)
+    if (!parsed || !text) return
+    const size = this.applyFont(font)
+    this.pdf.setTextColor(...parsed.rgb)
+    this.setAlpha(parsed.alpha)
+    const baseline = y + size * (options.middle ? BASELINE_OFFSET - 0.5 : BASELINE_OFFSET)
+    this.pdf.text(text, x, baseline, { align: options.align ?? 'left' })
+  }
+
+  /**
+   * Record a hyperlink over an area of the slide, in page coordinates
+   */
+  private addLink(x: number, y: number, width: number, height: number, url: string): void {
+    const [a, b, c, d, e, f] = this.matrix
+    const corners = [
+      [x, y],
+      [x + width, y],
+      [x, y + height],
+      [x + width, y + height],
+    ].map(([px = 0, py = 0]) => ({ x: a * px + c * py + e, y: b * px + d * py + f }))
+    const xs = corners.map((p) => p.x)
+    const ys = corners.map((p) => p.y)
+    const left = Math.min(...xs)
+    const top = Math.min(...ys)
+    this.links.push({
+      x: left,
+      y: top,
+      width: Math.max(...xs) - left,
+      height: Math.max(...ys) - top,
+      url,
+    })
+  }
+
+  /**
+   * Render the slide background
+   */
+  private renderBackground(slideBackground: SlideBackground): void {
+    const background = resolveBackgroundTheme(slideBackground, this.theme)
+    this.opacity = 1
+
+    switch (background.type) {
+      case 'solid':
+        this.fillRect(
+          0,
+          0,
+          SLIDE_WIDTH,
+          SLIDE_HEIGHT,
+          this.color(background.color || this.theme.backgroundColor)
+        )
+        break
+
+      case 'gradient': {
+        const key = this.createGradient(
+          background.gradientDirection ?? DEFAULT_GRADIENT_DIRECTION,
+          getBackgroundGradientStops(background),
+          { x: 0, y: 0, width: SLIDE_WIDTH, height: SLIDE_HEIGHT }
+        )
+        this.pdf.rect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT, null)
+        this.pdf.fill({ key, matrix: this.pdf.unitMatrix })
+        break
+      }
+
+      case 'image': {
+        const image = background.imageSrc ? this.images.get(background.imageSrc) : null
+        if (!image) {
+          this.fillRect(
+            0,
+            0,
+            SLIDE_WIDTH,
+            SLIDE_HEIGHT,
+            this.color(background.color || this.theme.backgroundColor)
+          )
+          break
+        }
+        this.renderBackgroundImage(image, background.imageFillMode || 'cover')
+        break
+      }
+    }
+  }
+
+  /**
+   * Render a background image with the specified fill mode
+   */
+  private renderBackgroundImage(
+    image: PdfImage,
+    fillMode: 'stretch' | 'tile' | 'cover' | 'contain'
+  ): void {
+    const imageRatio = image.width / image.height
+    const slideRatio = SLIDE_WIDTH / SLIDE_HEIGHT
+
+    switch (fillMode) {
+      case 'stretch':
+        this.placeImage(image, 0, 0, SLIDE_WIDTH, SLIDE_HEIGHT)
+        break
+
+      case 'tile': {
+        const columns = Math.ceil(SLIDE_WIDTH / image.width)
+        const rows = Math.ceil(SLIDE_HEIGHT / image.height)
+        if (columns * rows > MAX_BACKGROUND_TILES) {
+          // Too small to tile one by one; stretch instead of writing thousands of copies
+          this.placeImage(image, 0, 0, SLIDE_WIDTH, SLIDE_HEIGHT)
+          break
+        }
+        for (let row = 0; row < rows; row++) {
+          for (let column = 0; column < columns; column++) {
+            this.placeImage(
+              image,
+              column * image.width,
+              row * image.height,
+              image.width,
+              image.height
+            )
+          }
+        }
+        break
+      }
+
+      case 'cover': {
+        // Scale the image to cover the slide; the clip crops what sticks out
+        const width = imageRatio > slideRatio ? SLIDE_HEIGHT * imageRatio : SLIDE_WIDTH
+        const height = imageRatio > slideRatio ? SLIDE_HEIGHT : SLIDE_WIDTH / imageRatio
+        this.placeImage(
+          image,
+          (SLIDE_WIDTH - width) / 2,
+          (SLIDE_HEIGHT - height) / 2,
+          width,
+          height
+        )
+        break
+      }
+
+      case 'contain': {
+        this.fillRect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT, parseColor('#ffffff'))
+        const width = imageRatio > slideRatio ? SLIDE_WIDTH : SLIDE_HEIGHT * imageRatio
+        const height = imageRatio > slideRatio ? SLIDE_WIDTH / imageRatio : SLIDE_HEIGHT
+        this.placeImage(
+          image,
+          (SLIDE_WIDTH - width) / 2,
+          (SLIDE_HEIGHT - height) / 2,
+          width,
+          height
+        )
+        break
+      }
+    }
+  }
+
+  /**
+   * Place a whole image in a rectangle. Images with a filter, or in formats
+   * jsPDF can't embed, are drawn through a canvas first.
+   */
+  private placeImage(
+    image: PdfImage,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    filter = 'none'
+  ): void {
+    this.setAlpha(1)
+    if (image.data && filter === 'none') {
+      this.pdf.addImage(image.data, image.format, x, y, width, height, image.alias)
+      return
+    }
+    if (!image.element) return
+
+    const canvas = document.createElement('canvas')
+    canvas.width = image.width
+    canvas.height = image.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    ctx.filter = filter
+    ctx.drawImage(image.element, 0, 0)
+    this.pdf.addImage(canvas, 'PNG', x, y, width, height)
+  }
+
+  /**
+   * Render a single element based on its type
+   */
+  private renderElement(element: SlideElement): void {
+    // Text the fonts can't write is drawn as a picture instead of garbled
+    if (!this.canWriteText(element) && this.rasterizeElement(element)) return
+
+    this.save()
+
+    // Apply element transformations
+    this.transform(getRotationMatrix(element))
+    this.opacity = element.opacity
+
+    switch (element.type) {
+      case 'text':
+        this.renderTextElement(element)
+        break
+      case 'shape':
+        this.renderShapeElement(element)
+        break
+      case 'image':
+        this.renderImageElement(element)
+        break
+      case 'table':
+        this.renderTableElement(element)
+        break
+      case 'chart':
+        this.renderChartElement(element)
+        break
+      case 'connector':
+        this.renderConnectorElement(element)
+        break
+    }
+
+    this.restore()
+  }
+
+  /**
+   * Get the lines of text of an element, each with the font it's drawn with
+   */
+  private getElementTexts(element: SlideElement): { text: string; font: string }[] {
+    const layouts: TextLayout[] = []
+    switch (element.type) {
+      case 'text':
+        layouts.push(this.layoutTextElement(element).layout)
+        break
+      case 'table':
+        for (const rect of getCellRects(element)) {
+          if (!rect.cell.content) continue
+          layouts.push(
+            layoutText(getCellTextElement(element, rect), this.measureText, { theme: this.theme })
+          )
+        }
+        break
+      case 'chart': {
+        const fontFamily = resolveThemeFont(element.fontFamily, this.theme)
+        const font = `${String(element.fontSize)}px ${fontFamily}`
+        const labels = [...element.categories, ...element.series.map((series) => series.name)]
+        return [
+          ...(element.title ? [{ text: element.title, font: `bold ${font}` }] : []),
+          ...labels.map((text) => ({ text, font })),
+        ]
+      }
+      default:
+        return []
+    }
+
+    return layouts.flatMap((layout) =>
+      layout.lines.flatMap((line) => [...(line.marker ? [line.marker] : []), ...line.segments])
+    )
+  }
+
+  /**
+   * Check whether the fonts of an element can write all of its text
+   */
+  private canWriteText(element: SlideElement): boolean {
+    return this.getElementTexts(element).every(({ text, font }) => {
+      const { family, bold, italic } = parseFontString(font)
+      return canEncodeText(this.pdf, resolvePdfFont(family, bold, italic, this.fonts), text)
+    })
+  }
+
+  /**
+   * Draw an element as a picture with the canvas renderer, over the whole slide so
+   * rotation, shadows and overflowing text come along. Links in it aren't clickable.
+   * False when no canvas is available to draw with.
+   */
+  private rasterizeElement(element: SlideElement): boolean {
+    if (!this.slide) return false
+    const canvas = document.createElement('canvas')
+    try {
+      const renderer = new SlideCanvasRenderer(canvas, {
+        width: SLIDE_WIDTH,
+        height: SLIDE_HEIGHT,
+        devicePixelRatio: RASTER_SCALE,
+      })
+      renderer.render(
+        {
+          ...this.slide,
+          elements: [element],
+          background: { type: 'solid', color: 'transparent' },
+        },
+        { zoom: 1, panX: 0, panY: 0 },
+        { showSelectionHandles: false, theme: this.theme }
+      )
+    } catch {
+      return false
+    }
+
+    // The canvas renderer applies the element opacity itself
+    this.opacity = 1
+    this.setAlpha(1)
+    this.pdf.addImage(canvas, 'PNG', 0, 0, SLIDE_WIDTH, SLIDE_HEIGHT)
+    return true
+  }
+
+  /**
+   * Lay out the text of a text element at its autofit font size
+   */
+  private layoutTextElement(element: TextElement): { layout: TextLayout; fontSize: number } {
+    const fontSize = getAutofitFontSize(element, this.measureText, { theme: this.theme })
+    const layout = layoutText(element, this.measureText, { theme: this.theme, fontSize })
+    return { layout, fontSize }
+  }
+
+  /**
+   * Render a text element
+   */
+  private renderTextElement(element: TextElement): void {
+    const { position, dimensions } = element
+    const { layout, fontSize } = this.layoutTextElement(element)
+
+    if (element.overflow === 'clip') {
+      this.clipRect(position.x, position.y, dimensions.width, dimensions.height)
+    }
+
+    this.drawTextLayout(layout, position, fontSize)
+  }
+
+  /**
+   * Draw laid out text lines, with list markers, underlines and links, at a position
+   */
+  private drawTextLayout(layout: TextLayout, position: Position, fontSize: number): void {
+    for (const line of layout.lines) {
+      const y = position.y + line.y + line.textOffset
+
+      if (line.marker) {
+        this.drawText(
+          line.marker.text,
+          line.marker.font,
+          line.marker.color,
+          position.x + line.marker.x,
+          y
+        )
+      }
+
+      for (const segment of line.segments) {
+        const x = position.x + segment.x
+        this.drawText(segment.text, segment.font, segment.color, x, y)
+        if (segment.underline) {
+          const thickness = Math.max(1, fontSize / 15)
+          this.fillRect(x, y + fontSize, segment.width, thickness, this.color(segment.color))
+        }
+        // Slides may hold links saved before they were checked
+        const link = segment.link ? sanitizeLink(segment.link) : null
+        if (link) {
+          this.addLink(x, position.y + line.y, segment.width, line.height, link)
+        }
+      }
+    }
+  }
+
+  /**
+   * Render a table element: cell fills, cell text, then borders on top
+   */
+  private renderTableElement(element: TableElement): void {
+    const { position, dimensions, borderStyle, borderWidth } = element
+    const rects = getCellRects(element)
+
+    for (const rect of rects) {
+      this.fillRect(
+        position.x + rect.x,
+        position.y + rect.y,
+        rect.width,
+        rect.height,
+        this.color(getCellFillColor(element, rect))
+      )
+    }
+
+    for (const rect of rects) {
+      if (!rect.cell.content) continue
+      const cellText = getCellTextElement(element, rect)
+      this.save()
+      this.clipRect(position.x + rect.x, position.y + rect.y, rect.width, rect.height)
+      this.drawTextLayout(
+        layoutText(cellText, this.measureText, { theme: this.theme }),
+        cellText.position,
+        cellText.fontSize
+      )
+      this.restore()
+    }
+
+    const borderColor = this.color(element.borderColor)
+    if (borderStyle === 'none' || borderWidth <= 0 || !borderColor) return
+
+    const lines: PathCommand[] = []
+    const segment = (x1: number, y1: number, x2: number, y2: number) => {
+      lines.push({ type: 'M', x: x1, y: y1 }, { type: 'L', x: x2, y: y2 })
+    }
+    if (borderStyle === 'all' || borderStyle === 'horizontal') {
+      for (const rect of rects) {
+        // The outer bottom edge belongs to the table outline
+        if (rect.row + rect.rowSpan >= element.cells.length) continue
+        const y = position.y + rect.y + rect.height
+        segment(position.x + rect.x, y, position.x + rect.x + rect.width, y)
+      }
+    }
+    if (borderStyle === 'all') {
+      for (const rect of rects) {
+        if (rect.col + rect.colSpan >= (element.cells[0]?.length ?? 0)) continue
+        const x = position.x + rect.x + rect.width
+        segment(x, position.y + rect.y, x, position.y + rect.y + rect.height)
+      }
+    }
+    const { x, y } = position
+    const { width, height } = dimensions
+    segment(x, y, x + width, y)
+    segment(x, y + height, x + width, y + height)
+    if (borderStyle !== 'horizontal') {
+      segment(x, y, x, y + height)
+      segment(x + width, y, x + width, y + height)
+    }
+
+    this.pdf.setLineWidth(borderWidth)
+    this.pdf.setLineCap('butt')
+    this.pdf.setLineDashPattern([], 0)
+    this.paintPath(lines, null, borderColor)
+  }
+
+  /**
+   * Render a chart element: title, plot and legend
+   */
+  private renderChartElement(element: ChartElement): void {
+    const { position, chartType } = element
+    const layout = getChartLayout(element)
+    const textColor = resolveThemeColor(element.textColor, this.theme)
+    const fontFamily = resolveThemeFont(element.fontFamily, this.theme)
+    const font = `${String(element.fontSize)}px ${fontFamily}`
+
+    this.save()
+    this.transform([1, 0, 0, 1, position.x, position.y])
+
+    if (layout.title && element.title) {
+      this.drawText(
+        element.title,
+        `bold ${String(Math.round(element.fontSize * 1.25))}px ${fontFamily}`,
+        textColor,
+        layout.title.x + layout.title.width / 2,
+        layout.title.y + layout.title.height / 2,
+        { align: 'center', middle: true }
+      )
+    }
+
+    if (chartType === 'pie') {
+      this.renderPieChart(element, layout.plot)
+    } else {
+      this.renderAxisChart(element, layout.plot, font, textColor)
+    }
+
+    if (layout.legend) {
+      this.renderChartLegend(element, layout.legend, font, textColor)
+    }
+
+    this.restore()
+  }
+
+  /**
+   * Render the gridlines, axis labels and data of a bar, line or area chart
+   */
+  private renderAxisChart(
+    element: ChartElement,
+    plot: ChartRect,
+    font: string,
+    textColor: string
+  ): void {
+    const axis = getValueAxis(element)
+    const text = this.color(textColor)
+
+    // Gridlines with value labels
+    this.pdf.setLineWidth(1)
+    this.pdf.setLineCap('butt')
+    this.pdf.setLineDashPattern([], 0)
+    for (const tick of axis.ticks) {
+      const y = getValueY(tick, axis, plot)
+      if (text) {
+        const gridline: PathCommand[] = [
+          { type: 'M', x: plot.x, y },
+          { type: 'L', x: plot.x + plot.width, y },
+        ]
+        this.paintPath(gridline, null, { ...text, alpha: text.alpha * (tick === 0 ? 0.6 : 0.15) })
+      }
+      this.drawText(formatChartValue(tick), font, textColor, plot.x - 6, y, {
+        align: 'right',
+        middle: true,
+      })
+    }
+
+    // Category labels
+    element.categories.forEach((category, index) => {
+      this.drawText(
+        category,
+        font,
+        textColor,
+        getCategoryX(element, index, plot),
+        plot.y + plot.height + 6,
+        {
+          align: 'center',
+        }
+      )
+    })
+
+    if (element.chartType === 'bar') {
+      for (const bar of getChartBars(element, plot, axis)) {
+        this.fillRect(
+          bar.x,
+          bar.y,
+          bar.width,
+          bar.height,
+          parseColor(getSeriesColor(element, bar.seriesIndex, this.theme))
+        )
+      }
+      return
+    }
+
+    const baseline = getValueY(Math.max(axis.min, Math.min(0, axis.max)), axis, plot)
+    element.series.forEach((_, seriesIndex) => {
+      const points = getSeriesPoints(element, seriesIndex, plot, axis)
+      const first = points[0]
+      const last = points[points.length - 1]
+      const color = parseColor(getSeriesColor(element, seriesIndex, this.theme))
+      if (!first || !last || !color) return
+
+      if (element.chartType === 'area') {
+        const area: PathCommand[] = [
+          { type: 'M', x: first.x, y: baseline },
+          ...points.map((point) => ({ type: 'L' as const, ...point })),
+          { type: 'L', x: last.x, y: baseline },
+          { type: 'Z' },
+        ]
+        this.paintPath(area, { ...color, alpha: color.alpha * 0.35 }, null)
+      }
+
+      this.pdf.setLineWidth(2)
+      this.pdf.setLineJoin('round')
+      this.paintPath(
+        points.map((point, index) => ({ type: index === 0 ? 'M' : 'L', ...point })),
+        null,
+        color
+      )
+
+      if (element.chartType === 'line') {
+        this.pdf.setFillColor(...color.rgb)
+        this.setAlpha(color.alpha)
+        for (const point of points) {
+          this.pdf.circle(point.x, point.y, 3, 'F')
+        }
+      }
+    })
+  }
+
+  /**
+   * Render the slices of a pie chart, centered in the plot
+   */
+  private renderPieChart(element: ChartElement, plot: ChartRect): void {
+    const radius = Math.max(0, Math.min(plot.width, plot.height) / 2)
+    const center = { x: plot.x + plot.width / 2, y: plot.y + plot.height / 2 }
+    const border = this.color(themeColorRef('background'))
+
+    this.pdf.setLineWidth(1.5)
+    this.pdf.setLineJoin('miter')
+    this.pdf.setLineDashPattern([], 0)
+    for (const slice of getPieSlices(element)) {
+      const startX = center.x + radius * Math.cos(slice.startAngle)
+      const startY = center.y + radius * Math.sin(slice.startAngle)
+      this.paintPath(
+        [
+          { type: 'M', ...center },
+          { type: 'L', x: startX, y: startY },
+          ...arcToCurves(center, radius, slice.startAngle, slice.endAngle),
+          { type: 'Z' },
+        ],
+        parseColor(getPaletteColor(slice.categoryIndex, this.theme)),
+        border
+      )
+    }
+  }
+
+  /**
+   * Render the legend of a chart as a centered row of color keys and labels
+   */
+  private renderChartLegend(
+    element: ChartElement,
+    legend: ChartRect,
+    font: string,
+    textColor: string
+  ): void {
+    const entries = getLegendEntries(element, this.theme)
+    const keySize = element.fontSize * 0.8
+    const gap = element.fontSize
+    const widths = entries.map((entry) => keySize + 4 + this.measureText(entry.label, font))
+    const total = widths.reduce((sum, width) => sum + width, 0) + gap * (entries.length - 1)
+
+    let x = legend.x + Math.max(0, (legend.width - total) / 2)
+    const centerY = legend.y + legend.height / 2
+    entries.forEach((entry, index) => {
+      this.fillRect(x, centerY - keySize / 2, keySize, keySize, parseColor(entry.color))
+      this.drawText(entry.label, font, textColor, x + keySize + 4, centerY, { middle: true })
+      x += (widths[index] ?? 0) + gap
+    })
+  }
+
+  /**
+   * Render a connector along its routed path, with its arrowheads
+   */
+  private renderConnectorElement(element: ConnectorElement): void {
+    const path = getConnectorPath(element, this.elements)
+    const [first, ...rest] = path.points
+    const color = this.color(element.strokeColor)
+    if (!first || !color) return
+
+    this.pdf.setLineWidth(element.strokeWidth)
+    this.pdf.setLineCap('round')
+    this.pdf.setLineJoin('round')
+    this.pdf.setLineDashPattern([], 0)
+
+    const commands: PathCommand[] = [{ type: 'M', ...first }]
+    if (path.kind === 'curve') {
+      const [c1, c2, end] = rest
+      if (c1 && c2 && end) {
+        commands.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y })
+      }
+    } else {
+      commands.push(...rest.map((point) => ({ type: 'L' as const, ...point })))
+    }
+    this.paintPath(commands, null, color)
+
+    const last = path.points[path.points.length - 1] ?? first
+    this.renderArrowhead(
+      element.startArrowhead,
+      first,
+      getArrowheadAngle(path, 'start'),
+      element.strokeWidth,
+      color
+    )
+    this.renderArrowhead(
+      element.endArrowhead,
+      last,
+      getArrowheadAngle(path, 'end'),
+      element.strokeWidth,
+      color
+    )
+  }
+
+  /**
+   * Render an arrowhead with its tip at `tip`, pointing in the direction of `angle`
+   */
+  private renderArrowhead(
+    style: ArrowheadStyle,
+    tip: Position,
+    angle: number,
+    strokeWidth: number,
+    color: RgbColor
+  ): void {
+    if (style === 'none') return
+    const size = Math.max(8, strokeWidth * 4)
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    // Point at (x, y) in the arrowhead's frame, where the tip is the origin
+    const at = (x: number, y: number) => ({
+      x: tip.x + x * cos - y * sin,
+      y: tip.y + x * sin + y * cos,
+    })
+
+    switch (style) {
+      case 'arrow':
+        this.paintPath(
+          [
+            { type: 'M', ...at(-size, -size / 2) },
+            { type: 'L', ...tip },
+            { type: 'L', ...at(-size, size / 2) },
+          ],
+          null,
+          color
+        )
+        break
+      case 'triangle':
+        this.paintPath(
+          [
+            { type: 'M', ...tip },
+            { type: 'L', ...at(-size, -size / 2) },
+            { type: 'L', ...at(-size, size / 2) },
+            { type: 'Z' },
+          ],
+          color,
+          null
+        )
+        break
+      case 'circle':
+        this.pdf.setFillColor(...color.rgb)
+        this.setAlpha(color.alpha)
+        this.pdf.circle(tip.x, tip.y, size / 3, 'F')
+        break
+    }
+  }
+
+  /**
+   * Render a shape element: its shadow, then its fill and outline
+   */
+  private renderShapeElement(element: ShapeElement): void {
+    const { strokeWidth, shapeType } = element
+    const outline = getShapeOutline(element)
+    const fillColor = this.color(element.fillColor)
+    const strokeColor = this.color(element.strokeColor)
+    const lineCap = getShapeLineCap(element)
+
+    this.pdf.setLineCap(lineCap)
+    this.pdf.setLineJoin(getShapeLineJoin(element))
+
+    if (shapeType === 'line') {
+      // Lines are drawn with their fill color when they have no outline
+      const width = strokeWidth || 2
+      this.pdf.setLineWidth(width)
+      this.pdf.setLineDashPattern(getStrokeDashPattern(element.strokeDash, width, lineCap), 0)
+      this.paintPath(outline, null, strokeColor ?? fillColor)
+      return
+    }
+
+    const closed = isClosedPath(outline)
+    const fill = closed ? this.getShapeFill(element, fillColor) : null
+    if (fill && element.shadow?.enabled) {
+      this.renderShapeShadow(element, outline)
+    }
+
+    this.pdf.setLineWidth(strokeWidth)
+    this.pdf.setLineDashPattern(getStrokeDashPattern(element.strokeDash, strokeWidth, lineCap), 0)
+    this.paintPath(outline, fill, strokeWidth > 0 ? strokeColor : null)
+  }
+
+  /**
+   * Get the fill of a shape: its fill color, or a gradient across its box
+   */
+  private getShapeFill(
+    element: ShapeElement,
+    fillColor: RgbColor | null
+  ): RgbColor | string | null {
+    const bounds = { ...element.position, ...element.dimensions }
+    const stops = getShapeGradientStops(element)
+    switch (element.fillType) {
+      case 'linearGradient':
+        return this.createGradient(
+          element.gradientDirection ?? DEFAULT_GRADIENT_DIRECTION,
+          stops,
+          bounds
+        )
+      case 'radialGradient':
+        return this.createGradient('radial', stops, bounds)
+      default:
+        return fillColor
+    }
+  }
+
+  /**
+   * Render a shape's drop shadow as a copy of its outline behind it.
+   * Like slide shadows, the offset doesn't rotate with the shape.
+   */
+  private renderShapeShadow(element: ShapeElement, outline: PathCommand[]): void {
+    const { shadow } = element
+    if (!shadow) return
+    // The current transform rotates the shape, so rotate the offset back
+    const [cos, sin] = getRotationMatrix(element)
+    const ox = cos * shadow.offsetX + sin * shadow.offsetY
+    const oy = cos * shadow.offsetY - sin * shadow.offsetX
+
+    this.save()
+    this.transform([1, 0, 0, 1, ox, oy])
+    this.paintPath(outline, parseColor(getShadowColor(shadow, this.theme)), null)
+    this.restore()
+  }
+
+  /**
+   * Render an image element: the whole image placed so its cropped part fills
+   * the box, clipped to its mask (or box) with its adjustments applied
+   */
+  private renderImageElement(element: ImageElement): void {
+    const { position, dimensions, src } = element
+    const image = this.images.get(src)
+    if (!image) return
+
+    // Place the whole image at the scale its cropped part is drawn at
+    const { sx, sy, sw, sh, dx, dy, dw, dh } = getImageFit(image.width, image.height, element)
+    if (sw <= 0 || sh <= 0) return
+    const scaleX = dw / sw
+    const scaleY = dh / sh
+
+    const mask = getImageMaskOutline(element)
+    if (mask) {
+      this.clipPath(mask)
+    } else {
+      this.clipRect(position.x, position.y, dimensions.width, dimensions.height)
+    }
+
+    this.placeImage(
+      image,
+      dx - sx * scaleX,
+      dy - sy * scaleY,
+      image.width * scaleX,
+      image.height * scaleY,
+      getImageFilter(element.adjustments, 1 / Math.min(scaleX, scaleY))
+    )
+  }
+}
+
+export default SlidePdfRenderer
@@ -0,0 +1,1178 @@
+/**
+ * SlideSvgRenderer - vector rendering engine for exporting slides to SVG
+ *
+ * Writes slides as SVG documents instead of pictures of the slide, so text stays
+ * selectable and everything stays sharp at any size. Mirrors SlideCanvasRenderer
+ * so exports match the editor:
+ * - Slide backgrounds (solid, gradient, image)
+ * - Text with rich runs, lists and autofit, laid out by the shared text layout
+ *   engine, with clickable hyperlinks
+ * - Shapes as paths with solid or gradient fills, dashed strokes and blurred shadows
+ * - Images with crops, masks and adjustments (as SVG filters)
+ * - Tables, charts and connectors with arrowheads
+ *
+ * Images are embedded as data URLs, so the output doesn't depend on any other
+ * file. Slides are written in their 960x540 pixel coordinates.
+ */
+
+import type {
+  Slide,
+  SlideElement,
+  TextElement,
+  ShapeElement,
+  ImageElement,
+  ImageAdjustments,
+  TableElement,
+  ChartElement,
+  ConnectorElement,
+  ArrowheadStyle,
+  SlideBackground,
+  GradientStop,
+  GradientDirection,
+  Position,
+  PresentationTheme,
+  Dimensions,
+} from '@/types/presentation'
+import { DEFAULT_THEME } from '@/types/presentation'
+import { resolveAssetUrl } from '@/stores/assetStore'
+import {
+  resolveThemeColor,
+  resolveThemeFont,
+  resolveBackgroundTheme,
+  themeColorRef,
+} from './themeUtils'
+import {
+  DEFAULT_GRADIENT_DIRECTION,
+  getShapeGradientStops,
+  getShapeLineCap,
+  getShapeLineJoin,
+  getBackgroundGradientStops,
+  getLinearGradientLine,
+  getRadialGradientCircle,
+  getStrokeDashPattern,
+  getShadowColor,
+  type GradientBounds,
+} from './shapeStyles'
+import {
+  layoutText,
+  getAutofitFontSize,
+  parseFontString,
+  type MeasureText,
+  type TextLayout,
+  type TextSegment,
+} from './textLayout'
+import { getCellRects, getCellTextElement, getCellFillColor } from './tableUtils'
+import {
+  getChartLayout,
+  getValueAxis,
+  getValueY,
+  getCategoryX,
+  getChartBars,
+  getSeriesPoints,
+  getPieSlices,
+  getSeriesColor,
+  getPaletteColor,
+  getLegendEntries,
+  formatChartValue,
+  type ChartRect,
+} from './chartUtils'
+import { getConnectorPath, getArrowheadAngle } from './connectorUtils'
+import { getShapeOutline, isClosedPath, serializePathData, type PathCommand } from './shapeGeometry'
+import { getImageFit, getImageMaskOutline, readImageSize } from './imageUtils'
+import { decodeDataUrl, encodeDataUrl } from './assetLibrary'
+import { sanitizeLink } from './richText'
+
+/**
+ * Standard slide dimensions (16:9 aspect ratio)
+ */
+const SLIDE_WIDTH = 960
+const SLIDE_HEIGHT = 540
+
+/**
+ * Distance from the top of the em box to the baseline, as a fraction of the font
+ * size. Text is positioned by its top like canvas text, but SVG text by its baseline.
+ */
+const BASELINE_OFFSET = 0.8
+
+/**
+ * Namespaces of SVG documents
+ */
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink'
+
+/**
+ * Options for creating a renderer
+ */
+export interface SvgRendererOptions {
+  theme?: PresentationTheme
+  /** Measures text for layout; defaults to a canvas measuring with the page's fonts */
+  measureText?: MeasureText
+}
+
+/**
+ * A loaded image, ready to be linked from the document
+ */
+interface SvgImage {
+  /** Data URL of the image */
+  href: string
+  width: number
+  height: number
+}
+
+/**
+ * Attribute values of an SVG element. Undefined values are left out and
+ * numbers are rounded to two decimals.
+ */
+type SvgAttributes = Record<string, string | number | undefined>
+
+/**
+ * Format a number for SVG output
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+/**
+ * Escape text for XML, dropping characters XML documents can't contain
+ */
+function escapeXml(text: string): string {
+  const valid = Array.from(text)
+    .filter((char) => {
+      const code = char.charCodeAt(0)
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d
+    })
+    .join('')
+  return valid
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Write an SVG element, self-closing when it has no children
+ */
+function el(
+  name: string,
+  attributes: SvgAttributes = {},
+  children: string | string[] = ''
+): string {
+  const attrs = Object.entries(attributes)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .map(([key, value]) => {
+      const text = typeof value === 'number' ? formatNumber(value) : escapeXml(value)
+      return ` ${key}="${text}"`
+    })
+    .join('')
+  const content = Array.isArray(children) ? children.join('') : children
+  return content ? `<${name}${attrs}>${content}</${name}>` : `<${name}${attrs}/>`
+}
+
+/**
+ * Get the SVG paint of a CSS color: 'none' for transparent colors
+ */
+function paint(color: string): string {
+  const value = color.trim()
+  return !value || value === 'transparent' || value === 'none' ? 'none' : value
+}
+
+/**
+ * Join adjacent segments of a line that share their style, so each run of text
+ * is one text element rather than one per word
+ */
+function mergeSegments(segments: TextSegment[]): TextSegment[] {
+  const merged: TextSegment[] = []
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1]
+    if (
+      previous?.font === segment.font &&
+      previous.color === segment.color &&
+      previous.underline === segment.underline &&
+      previous.link === segment.link &&
+      Math.abs(previous.x + previous.width - segment.x) < 0.5
+    ) {
+      merged[merged.length - 1] = {
+        ...previous,
+        text: previous.text + segment.text,
+        width: segment.x + segment.width - previous.x,
+      }
+    } else {
+      merged.push(segment)
+    }
+  }
+  return merged
+}
+
+/**
+ * Canvas context for measuring text, created on first use; null when the
+ * environment has no canvas
+ */
+let measureContext: CanvasRenderingContext2D | null | undefined
+
+/**
+ * Measure text with a canvas, or estimate its width without one
+ */
+function measureWithCanvas(text: string, font: string): number {
+  if (measureContext === undefined) {
+    measureContext = document.createElement('canvas').getContext('2d')
+  }
+  if (!measureContext) return text.length * parseFontString(font).size * 0.5
+  measureContext.font = font
+  return measureContext.measureText(text).width
+}
+
+/**
+ * Read the size of an image through an image element, for formats without a
+ * size header the renderer reads, such as SVG or WebP
+ */
+function loadImageSize(url: string): Promise<Dimensions> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => {
+      resolve({ width: img.naturalWidth, height: img.naturalHeight })
+    }
+    img.onerror = () => {
+      reject(new Error(`Failed to load image: ${url}`))
+    }
+    img.src = url
+  })
+}
+
+/**
+ * Writes slides as SVG documents
+ */
+export class SlideSvgRenderer {
+  private theme: PresentationTheme
+  private measureText: MeasureText
+  private images: Map<string, SvgImage | null> = new Map()
+  private elements: SlideElement[] = []
+  /** Definitions (gradients, clip paths, filters) of the slide being written */
+  private defs: string[] = []
+  /** Counter for definition ids, unique across all slides of the renderer */
+  private idCount = 0
+
+  constructor(options: SvgRendererOptions = {}) {
+    this.theme = options.theme ?? DEFAULT_THEME
+    this.measureText = options.measureText ?? measureWithCanvas
+  }
+
+  /**
+   * Load the images of a slide. Images that can't be loaded are left out.
+   */
+  public async preloadImages(slide: Slide): Promise<void> {
+    const sources = new Set<string>()
+    if (slide.background.type === 'image' && slide.background.imageSrc) {
+      sources.add(slide.background.imageSrc)
+    }
+    for (const element of slide.elements) {
+      if (element.type === 'image' && element.src) sources.add(element.src)
+    }
+
+    for (const src of sources) {
+      if (this.images.has(src)) continue
+      try {
+        this.images.set(src, await this.loadImage(src))
+      } catch {
+        this.images.set(src, null)
+      }
+    }
+  }
+
+  /**
+   * Write a slide as an SVG document, shown at the given size
+   */
+  public render(
+    slide: Slide,
+    size: Dimensions = { width: SLIDE_WIDTH, height: SLIDE_HEIGHT }
+  ): string {
+    this.elements = slide.elements
+    this.defs = []
+
+    // Content outside the slide is hidden, like in the editor
+    const content = [this.renderBackground(slide.background)]
+    const sortedElements = [...slide.elements].sort((a, b) => a.zIndex - b.zIndex)
+    for (const element of sortedElements) {
+      content.push(this.renderElement(element))
+    }
+
+    return el(
+      'svg',
+      {
+        xmlns: SVG_NAMESPACE,
+        'xmlns:xlink': XLINK_NAMESPACE,
+        viewBox: `0 0 ${String(SLIDE_WIDTH)} ${String(SLIDE_HEIGHT)}`,
+        width: size.width,
+        height: size.height,
+        overflow: 'hidden',
+      },
+      [
+        ...(slide.title ? [el('title', {}, escapeXml(slide.title))] : []),
+        el('defs', {}, this.defs),
+        ...content,
+      ]
+    )
+  }
+
+  /**
+   * Load an image source as a data URL with its pixel size
+   */
+  private async loadImage(src: string): Promise<SvgImage | null> {
+    const url = resolveAssetUrl(src)
+    if (!url) return null
+
+    let href = url
+    let data = decodeDataUrl(url)?.data ?? null
+    if (!data) {
+      const response = await fetch(url)
+      if (!response.ok) return null
+      data = new Uint8Array(await response.arrayBuffer())
+      const mimeType = response.headers.get('content-type')?.split(';')[0] ?? 'image/png'
+      href = encodeDataUrl(mimeType, data)
+    }
+
+    const size = readImageSize(data) ?? (await loadImageSize(href))
+    if (size.width <= 0 || size.height <= 0) return null
+    return { href, ...size }
+  }
+
+  /**
+   * Get a new id for a definition
+   */
+  private nextId(kind: string): string {
+    return `slide-${kind}-${String(++this.idCount)}`
+  }
+
+  /**
+   * Resolve a theme color reference to an SVG paint
+   */
+  private color(value: string): string {
+    return paint(resolveThemeColor(value, this.theme))
+  }
+
+  /**
+   * Define a linear or radial gradient and get its paint
+   */
+  private createGradient(
+    direction: GradientDirection | 'radial',
+    stops: GradientStop[],
+    bounds: GradientBounds
+  ): string {
+    const id = this.nextId('gradient')
+    const stopElements = stops.map((stop) =>
+      el('stop', { offset: stop.offset, 'stop-color': this.color(stop.color) })
+    )
+    if (direction === 'radial') {
+      const { center, radius } = getRadialGradientCircle(bounds)
+      this.defs.push(
+        el(
+          'radialGradient',
+          { id, gradientUnits: 'userSpaceOnUse', cx: center.x, cy: center.y, r: radius },
+          stopElements
+        )
+      )
+    } else {
+      const { start, end } = getLinearGradientLine(direction, bounds)
+      this.defs.push(
+        el(
+          'linearGradient',
+          { id, gradientUnits: 'userSpaceOnUse', x1: start.x, y1: start.y, x2: end.x, y2: end.y },
+          stopElements
+        )
+      )
+    }
+    return `url(#${id})`
+  }
+
+  /**
+   * Define a clip path and get the attribute value that applies it
+   */
+  private createClipPath(shape: string): string {
+    const id = this.nextId('clip')
+    this.defs.push(el('clipPath', { id }, shape))
+    return `url(#${id})`
+  }
+
+  /**
+   * Wrap content in a group clipped to a rectangle
+   */
+  private clipToRect(
+    content: string | string[],
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): string {
+    const clip = this.createClipPath(el('rect', { x, y, width, height }))
+    return el('g', { 'clip-path': clip }, content)
+  }
+
+  /**
+   * Write a filled rectangle
+   */
+  private rect(x: number, y: number, width: number, height: number, fill: string): string {
+    return fill === 'none' ? '' : el('rect', { x, y, width, height, fill })
+  }
+
+  /**
+   * Write a line of text positioned by the top of its em box, or by its middle
+   */
+  private text(
+    text: string,
+    font: string,
+    color: string,
+    x: number,
+    y: number,
+    options: { align?: 'left' | 'center' | 'right'; middle?: boolean } = {}
+  ): string {
+    const fill = this.color(color)
+    if (fill === 'none' || !text) return ''
+    const { family, size, bold, italic } = parseFontString(font)
+    const anchor = { left: undefined, center: 'middle', right: 'end' }[options.align ?? 'left']
+    return el(
+      'text',
+      {
+        x,
+        y: y + size * (options.middle ? BASELINE_OFFSET - 0.5 : BASELINE_OFFSET),
+        'font-family': family,
+        'font-size': size,
+        'font-weight': bold ? 'bold' : undefined,
+        'font-style': italic ? 'italic' : undefined,
+        'text-anchor': anchor,
+        fill,
+        'xml:space': 'preserve',
+      },
+      escapeXml(text)
+    )
+  }
+
+  /**
+   * Render the slide background
+   */
+  private renderBackground(slideBackground: SlideBackground): string {
+    const background = resolveBackgroundTheme(slideBackground, this.theme)
+    const fallback = this.color(background.color || this.theme.backgroundColor)
+
+    switch (background.type) {
+      case 'solid':
+        return this.rect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT, fallback)
+
+      case 'gradient':
+        return this.rect(
+          0,
+          0,
+          SLIDE_WIDTH,
+          SLIDE_HEIGHT,
+          this.createGradient(
+            background.gradientDirection ?? DEFAULT_GRADIENT_DIRECTION,
+            getBackgroundGradientStops(background),
+            { x: 0, y: 0, width: SLIDE_WIDTH, height: SLIDE_HEIGHT }
+          )
+        )
+
+      case 'image': {
+        const image = background.imageSrc ? this.images.get(background.imageSrc) : null
+        if (!image) return this.rect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT, fallback)
+        return this.renderBackgroundImage(image, background.imageFillMode || 'cover')
+      }
+    }
+  }
+
+  /**
+   * Render a background image with the specified fill mode
+   */
+  private renderBackgroundImage(
+    image: SvgImage,
+    fillMode: 'stretch' | 'tile' | 'cover' | 'contain'
+  ): string {
+    const imageRatio = image.width / image.height
+    const slideRatio = SLIDE_WIDTH / SLIDE_HEIGHT
+    const place = (x: number, y: number, width: number, height: number) =>
+      el('image', {
+        'xlink:href': image.href,
+        x,
+        y,
+        width,
+        height,
+        preserveAspectRatio: 'none',
+      })
+
+    switch (fillMode) {
+      case 'stretch':
+        return place(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT)
+
+      case 'tile': {
+        const id = this.nextId('tile')
+        this.defs.push(
+          el(
+            'pattern',
+            { id, patternUnits: 'userSpaceOnUse', width: image.width, height: image.height },
+            place(0, 0, image.width, image.height)
+          )
+        )
+        return this.rect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT, `url(#${id})`)
+      }
+
+      case 'cover': {
+        // Scale the image to cover the slide; the slide's edges crop what sticks out
+        const width = imageRatio > slideRatio ? SLIDE_HEIGHT * imageRatio : SLIDE_WIDTH
+        const height = imageRatio > slideRatio ? SLIDE_HEIGHT : SLIDE_WIDTH / imageRatio
+        return place((SLIDE_WIDTH - width) / 2, (SLIDE_HEIGHT - height) / 2, width, height)
+      }
+
+      case 'contain': {
+        const width = imageRatio > slideRatio ? SLIDE_WIDTH : SLIDE_HEIGHT * imageRatio
+        const height = imageRatio > slideRatio ? SLIDE_WIDTH / imageRatio : SLIDE_HEIGHT
+        return (
+          this.rect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT, '#ffffff') +
+          place((SLIDE_WIDTH - width) / 2, (SLIDE_HEIGHT - height) / 2, width, height)
+        )
+      }
+    }
+  }
+
+  /**
+   * Render a single element based on its type, rotated around its center
+   */
+  private renderElement(element: SlideElement): string {
+    let content: string
+    switch (element.type) {
+      case 'text':
+        content = this.renderTextElement(element)
+        break
+      case 'shape':
+        content = this.renderShapeElement(element)
+        break
+      case 'image':
+        content = this.renderImageElement(element)
+        break
+      case 'table':
+        content = this.renderTableElement(element)
+        break
+      case 'chart':
+        content = this.renderChartElement(element)
+        break
+      case 'connector':
+        content = this.renderConnectorElement(element)
+        break
+    }
+    if (!content) return ''
+
+    const { position, dimensions, rotation, opacity } = element
+    const cx = position.x + dimensions.width / 2
+    const cy = position.y + dimensions.height / 2
+    return el(
+      'g',
+      {
+        transform: rotation
+          ? `rotate(${[rotation, cx, cy].map(formatNumber).join(' ')})`
+          : undefined,
+        opacity: opacity < 1 ? opacity : undefined,
+      },
+      content
+    )
+  }
+
+  /**
+   * Render a text element
+   */
+  private renderTextElement(element: TextElement): string {
+    const { position, dimensions } = element
+    const fontSize = getAutofitFontSize(element, this.measureText, { theme: this.theme })
+    const layout = layoutText(element, this.measureText, { theme: this.theme, fontSize })
+    const content = this.renderTextLayout(layout, position, fontSize)
+
+    if (element.overflow === 'clip') {
+      return this.clipToRect(content, position.x, position.y, dimensions.width, dimensions.height)
+    }
+    return content.join('')
+  }
+
+  /**
+   * Write laid out text lines, with list markers, underlines and links, at a position
+   */
+  private renderTextLayout(layout: TextLayout, position: Position, fontSize: number): string[] {
+    const content: string[] = []
+    for (const line of layout.lines) {
+      const y = position.y + line.y + line.textOffset
+
+      if (line.marker) {
+        content.push(
+          this.text(
+            line.marker.text,
+            line.marker.font,
+            line.marker.color,
+            position.x + line.marker.x,
+            y
+          )
+        )
+      }
+
+      for (const segment of mergeSegments(line.segments)) {
+        const x = position.x + segment.x
+        let text = this.text(segment.text, segment.font, segment.color, x, y)
+        if (segment.underline) {
+          const thickness = Math.max(1, fontSize / 15)
+          text += this.rect(x, y + fontSize, segment.width, thickness, this.color(segment.color))
+        }
+        // Slides may hold links saved before they were checked
+        const link = segment.link ? sanitizeLink(segment.link) : null
+        if (link && text) {
+          text = el('a', { 'xlink:href': link, target: '_blank' }, text)
+        }
+        content.push(text)
+      }
+    }
+    return content
+  }
+
+  /**
+   * Render a table element: cell fills, cell text, then borders on top
+   */
+  private renderTableElement(element: TableElement): string {
+    const { position, dimensions, borderStyle, borderWidth } = element
+    const rects = getCellRects(element)
+    const content: string[] = []
+
+    for (const rect of rects) {
+      content.push(
+        this.rect(
+          position.x + rect.x,
+          position.y + rect.y,
+          rect.width,
+          rect.height,
+          this.color(getCellFillColor(element, rect))
+        )
+      )
+    }
+
+    for (const rect of rects) {
+      if (!rect.cell.content) continue
+      const cellText = getCellTextElement(element, rect)
+      const lines = this.renderTextLayout(
+        layoutText(cellText, this.measureText, { theme: this.theme }),
+        cellText.position,
+        cellText.fontSize
+      )
+      content.push(
+        this.clipToRect(lines, position.x + rect.x, position.y + rect.y, rect.width, rect.height)
+      )
+    }
+
+    const borderColor = this.color(element.borderColor)
+    if (borderStyle === 'none' || borderWidth <= 0 || borderColor === 'none') {
+      return content.join('')
+    }
+
+    const lines: PathCommand[] = []
+    const segment = (x1: number, y1: number, x2: number, y2: number) => {
+      lines.push({ type: 'M', x: x1, y: y1 }, { type: 'L', x: x2, y: y2 })
+    }
+    if (borderStyle === 'all' || borderStyle === 'horizontal') {
+      for (const rect of rects) {
+        // The outer bottom edge belongs to the table outline
+        if (rect.row + rect.rowSpan >= element.cells.length) continue
+        const y = position.y + rect.y + rect.height
+        segment(position.x + rect.x, y, position.x + rect.x + rect.width, y)
+      }
+    }
+    if (borderStyle === 'all') {
+      for (const rect of rects) {
+        if (rect.col + rect.colSpan >= (element.cells[0]?.length ?? 0)) continue
+        const x = position.x + rect.x + rect.width
+        segment(x, position.y + rect.y, x, position.y + rect.y + rect.height)
+      }
+    }
+    const { x, y } = position
+    const { width, height } = dimensions
+    segment(x, y, x + width, y)
+    segment(x, y + height, x + width, y + height)
+    if (borderStyle !== 'horizontal') {
+      segment(x, y, x, y + height)
+      segment(x + width, y, x + width, y + height)
+    }
+
+    content.push(
+      el('path', {
+        d: serializePathData(lines),
+        fill: 'none',
+        stroke: borderColor,
+        'stroke-width': borderWidth,
+      })
+    )
+    return content.join('')
+  }
+
+  /**
+   * Render a chart element: title, plot and legend
+   */
+  private renderChartElement(element: ChartElement): string {
+    const { position, chartType } = element
+    const layout = getChartLayout(element)
+    const textColor = resolveThemeColor(element.textColor, this.theme)
+    const fontFamily = resolveThemeFont(element.fontFamily, this.theme)
+    const font = `${String(element.fontSize)}px ${fontFamily}`
+    const content: string[] = []
+
+    if (layout.title && element.title) {
+      content.push(
+        this.text(
+          element.title,
+          `bold ${String(Math.round(element.fontSize * 1.25))}px ${fontFamily}`,
+          textColor,
+          layout.title.x + layout.title.width / 2,
+          layout.title.y + layout.title.height / 2,
+          { align: 'center', middle: true }
+        )
+      )
+    }
+
+    if (chartType === 'pie') {
+      content.push(this.renderPieChart(element, layout.plot))
+    } else {
+      content.push(this.renderAxisChart(element, layout.plot, font, textColor))
+    }
+
+    if (layout.legend) {
+      content.push(this.renderChartLegend(element, layout.legend, font, textColor))
+    }
+
+    return el(
+      'g',
+      { transform: `translate(${formatNumber(position.x)} ${formatNumber(position.y)})` },
+      content
+    )
+  }
+
+  /**
+   * Render the gridlines, axis labels and data of a bar, line or area chart
+   */
+  private renderAxisChart(
+    element: ChartElement,
+    plot: ChartRect,
+    font: string,
+    textColor: string
+  ): string {
+    const axis = getValueAxis(element)
+    const text = this.color(textColor)
+    const content: string[] = []
+
+    // Gridlines with value labels
+    for (const tick of axis.ticks) {
+      const y = getValueY(tick, axis, plot)
+      if (text !== 'none') {
+        content.push(
+          el('line', {
+            x1: plot.x,
+            y1: y,
+            x2: plot.x + plot.width,
+            y2: y,
+            stroke: text,
+            'stroke-opacity': tick === 0 ? 0.6 : 0.15,
+          })
+        )
+      }
+      content.push(
+        this.text(formatChartValue(tick), font, textColor, plot.x - 6, y, {
+          align: 'right',
+          middle: true,
+        })
+      )
+    }
+
+    // Category labels
+    element.categories.forEach((category, index) => {
+      content.push(
+        this.text(
+          category,
+          font,
+          textColor,
+          getCategoryX(element, index, plot),
+          plot.y + plot.height + 6,
+          { align: 'center' }
+        )
+      )
+    })
+
+    if (element.chartType === 'bar') {
+      for (const bar of getChartBars(element, plot, axis)) {
+        content.push(
+          this.rect(
+            bar.x,
+            bar.y,
+            bar.width,
+            bar.height,
+            paint(getSeriesColor(element, bar.seriesIndex, this.theme))
+          )
+        )
+      }
+      return content.join('')
+    }
+
+    const baseline = getValueY(Math.max(axis.min, Math.min(0, axis.max)), axis, plot)
+    element.series.forEach((_, seriesIndex) => {
+      const points = getSeriesPoints(element, seriesIndex, plot, axis)
+      const first = points[0]
+      const last = points[points.length - 1]
+      const color = paint(getSeriesColor(element, seriesIndex, this.theme))
+      if (!first || !last || color === 'none') return
+
+      if (element.chartType === 'area') {
+        const area: PathCommand[] = [
+          { type: 'M', x: first.x, y: baseline },
+          ...points.map((point) => ({ type: 'L' as const, ...point })),
+          { type: 'L', x: last.x, y: baseline },
+          { type: 'Z' },
+        ]
+        content.push(el('path', { d: serializePathData(area), fill: color, 'fill-opacity': 0.35 }))
+      }
+
+      content.push(
+        el('path', {
+          d: serializePathData(
+            points.map((point, index) => ({ type: index === 0 ? 'M' : 'L', ...point }))
+          ),
+          fill: 'none',
+          stroke: color,
+          'stroke-width': 2,
+          'stroke-linejoin': 'round',
+        })
+      )
+
+      if (element.chartType === 'line') {
+        for (const point of points) {
+          content.push(el('circle', { cx: point.x, cy: point.y, r: 3, fill: color }))
+        }
+      }
+    })
+    return content.join('')
+  }
+
+  /**
+   * Render the slices of a pie chart, centered in the plot
+   */
+  private renderPieChart(element: ChartElement, plot: ChartRect): string {
+    const radius = Math.max(0, Math.min(plot.width, plot.height) / 2)
+    const center = { x: plot.x + plot.width / 2, y: plot.y + plot.height / 2 }
+    const border = this.color(themeColorRef('background'))
+    const point = (angle: number) =>
+      `${formatNumber(center.x + radius * Math.cos(angle))} ${formatNumber(center.y + radius * Math.sin(angle))}`
+    const r = formatNumber(radius)
+
+    return getPieSlices(element)
+      .map((slice) => {
+        // The arc is drawn in two halves, so a slice of the whole pie is still drawn
+        const middle = (slice.startAngle + slice.endAngle) / 2
+        const d = [
+          `M ${formatNumber(center.x)} ${formatNumber(center.y)}`,
+          `L ${point(slice.startAngle)}`,
+          `A ${r} ${r} 0 0 1 ${point(middle)}`,
+          `A ${r} ${r} 0 0 1 ${point(slice.endAngle)}`,
+          'Z',
+        ].join(' ')
+        return el('path', {
+          d,
+          fill: paint(getPaletteColor(slice.categoryIndex, this.theme)),
+          stroke: border,
+          'stroke-width': 1.5,
+        })
+      })
+      .join('')
+  }
+
+  /**
+   * Render the legend of a chart as a centered row of color keys and labels
+   */
+  private renderChartLegend(
+    element: ChartElement,
+    legend: ChartRect,
+    font: string,
+    textColor: string
+  ): string {
+    const entries = getLegendEntries(element, this.theme)
+    const keySize = element.fontSize * 0.8
+    const gap = element.fontSize
+    const widths = entries.map((entry) => keySize + 4 + this.measureText(entry.label, font))
+    const total = widths.reduce((sum, width) => sum + width, 0) + gap * (entries.length - 1)
+    const content: string[] = []
+
+    let x = legend.x + Math.max(0, (legend.width - total) / 2)
+    const centerY = legend.y + legend.height / 2
+    entries.forEach((entry, index) => {
+      content.push(
+        this.rect(x, centerY - keySize / 2, keySize, keySize, paint(entry.color)),
+        this.text(entry.label, font, textColor, x + keySize + 4, centerY, { middle: true })
+      )
+      x += (widths[index] ?? 0) + gap
+    })
+    return content.join('')
+  }
+
+  /**
+   * Render a connector along its routed path, with its arrowheads
+   */
+  private renderConnectorElement(element: ConnectorElement): string {
+    const path = getConnectorPath(element, this.elements)
+    const [first, ...rest] = path.points
+    const color = this.color(element.strokeColor)
+    if (!first || color === 'none') return ''
+
+    const commands: PathCommand[] = [{ type: 'M', ...first }]
+    if (path.kind === 'curve') {
+      const [c1, c2, end] = rest
+      if (c1 && c2 && end) {
+        commands.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y })
+      }
+    } else {
+      commands.push(...rest.map((point) => ({ type: 'L' as const, ...point })))
+    }
+
+    const last = path.points[path.points.length - 1] ?? first
+    return el('g', { 'stroke-linecap': 'round', 'stroke-linejoin': 'round' }, [
+      el('path', {
+        d: serializePathData(commands),
+        fill: 'none',
+        stroke: color,
+        'stroke-width': element.strokeWidth,
+      }),
+      this.renderArrowhead(
+        element.startArrowhead,
+        first,
+        getArrowheadAngle(path, 'start'),
+        element.strokeWidth,
+        color
+      ),
+      this.renderArrowhead(
+        element.endArrowhead,
+        last,
+        getArrowheadAngle(path, 'end'),
+        element.strokeWidth,
+        color
+      ),
+    ])
+  }
+
+  /**
+   * Render an arrowhead with its tip at `tip`, pointing in the direction of `angle`
+   */
+  private renderArrowhead(
+    style: ArrowheadStyle,
+    tip: Position,
+    angle: number,
+    strokeWidth: number,
+    color: string
+  ): string {
+    const size = Math.max(8, strokeWidth * 4)
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    // Point at (x, y) in the arrowhead's frame, where the tip is the origin
+    const at = (x: number, y: number) => ({
+      x: tip.x + x * cos - y * sin,
+      y: tip.y + x * sin + y * cos,
+    })
+
+    switch (style) {
+      case 'none':
+        return ''
+      case 'arrow':
+        return el('path', {
+          d: serializePathData([
+            { type: 'M', ...at(-size, -size / 2) },
+            { type: 'L', ...tip },
+            { type: 'L', ...at(-size, size / 2) },
+          ]),
+          fill: 'none',
+          stroke: color,
+          'stroke-width': strokeWidth,
+        })
+      case 'triangle':
+        return el('path', {
+          d: serializePathData([
+            { type: 'M', ...tip },
+            { type: 'L', ...at(-size, -size / 2) },
+            { type: 'L', ...at(-size, size / 2) },
+            { type: 'Z' },
+          ]),
+          fill: color,
+        })
+      case 'circle':
+        return el('circle', { cx: tip.x, cy: tip.y, r: size / 3, fill: color })
+    }
+  }
+
+  /**
+   * Render a shape element: its shadow, then its fill and outline
+   */
+  private renderShapeElement(element: ShapeElement): string {
+    const { strokeWidth, shapeType } = element
+    const outline = getShapeOutline(element)
+    const d = serializePathData(outline)
+    const fillColor = this.color(element.fillColor)
+    const strokeColor = this.color(element.strokeColor)
+    const lineCap = getShapeLineCap(element)
+    const strokeAttributes = (width: number): SvgAttributes => {
+      const dashes = getStrokeDashPattern(element.strokeDash, width, lineCap)
+      return {
+        'stroke-width': width,
+        'stroke-linecap': lineCap,
+        'stroke-linejoin': getShapeLineJoin(element),
+        'stroke-dasharray': dashes.length > 0 ? dashes.map(formatNumber).join(' ') : undefined,
+      }
+    }
+
+    if (shapeType === 'line') {
+      // Lines are drawn with their fill color when they have no outline
+      const stroke = strokeColor !== 'none' ? strokeColor : fillColor
+      if (stroke === 'none') return ''
+      return el('path', { d, fill: 'none', stroke, ...strokeAttributes(strokeWidth || 2) })
+    }
+
+    const fill = isClosedPath(outline) ? this.getShapeFill(element, fillColor) : 'none'
+    const stroke = strokeWidth > 0 ? strokeColor : 'none'
+    if (fill === 'none' && stroke === 'none') return ''
+
+    const shadow = fill !== 'none' ? this.renderShapeShadow(element, d) : ''
+    return (
+      shadow +
+      el('path', { d, fill, stroke, ...(stroke !== 'none' && strokeAttributes(strokeWidth)) })
+    )
+  }
+
+  /**
+   * Get the fill of a shape: its fill color, or a gradient across its box
+   */
+  private getShapeFill(element: ShapeElement, fillColor: string): string {
+    const bounds = { ...element.position, ...element.dimensions }
+    const stops = getShapeGradientStops(element)
+    switch (element.fillType) {
+      case 'linearGradient':
+        return this.createGradient(
+          element.gradientDirection ?? DEFAULT_GRADIENT_DIRECTION,
+          stops,
+          bounds
+        )
+      case 'radialGradient':
+        return this.createGradient('radial', stops, bounds)
+      default:
+        return fillColor
+    }
+  }
+
+  /**
+   * Render a shape's drop shadow as a blurred copy of its outline behind it.
+   * Like slide shadows, the offset doesn't rotate with the shape.
+   */
+  private renderShapeShadow(element: ShapeElement, d: string): string {
+    const { shadow } = element
+    if (!shadow?.enabled) return ''
+    // The element group rotates the shape, so rotate the offset back
+    const angle = (element.rotation * Math.PI) / 180
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    const ox = cos * shadow.offsetX + sin * shadow.offsetY
+    const oy = cos * shadow.offsetY - sin * shadow.offsetX
+
+    let filter: string | undefined
+    if (shadow.blur > 0) {
+      // Canvas shadow blur is twice the standard deviation of the blur
+      const id = this.nextId('shadow')
+      this.defs.push(
+        el(
+          'filter',
+          {
+            id,
+            filterUnits: 'userSpaceOnUse',
+            x: -SLIDE_WIDTH,
+            y: -SLIDE_HEIGHT,
+            width: SLIDE_WIDTH * 3,
+            height: SLIDE_HEIGHT * 3,
+          },
+          el('feGaussianBlur', { stdDeviation: shadow.blur / 2 })
+        )
+      )
+      filter = `url(#${id})`
+    }
+
+    return el('path', {
+      d,
+      fill: paint(getShadowColor(shadow, this.theme)),
+      transform: `translate(${formatNumber(ox)} ${formatNumber(oy)})`,
+      filter,
+    })
+  }
+
+  /**
+   * Define the filter for an image's adjustments, or get undefined when it is unchanged
+   */
+  private createImageFilter(adjustments: ImageAdjustments | undefined): string | undefined {
+    if (!adjustments) return undefined
+    const primitives: string[] = []
+    const linear = (slope: number, intercept = 0) =>
+      el(
+        'feComponentTransfer',
+        {},
+        ['feFuncR', 'feFuncG', 'feFuncB'].map((name) =>
+          el(name, { type: 'linear', slope, intercept })
+        )
+      )
+
+    // Same order and meaning as the CSS filter functions the editor draws with
+    if (adjustments.brightness !== 100) primitives.push(linear(adjustments.brightness / 100))
+    if (adjustments.contrast !== 100) {
+      const contrast = adjustments.contrast / 100
+      primitives.push(linear(contrast, 0.5 - contrast / 2))
+    }
+    if (adjustments.grayscale > 0) {
+      const saturation = 1 - Math.min(1, adjustments.grayscale / 100)
+      primitives.push(el('feColorMatrix', { type: 'saturate', values: saturation }))
+    }
+    if (adjustments.blur > 0) {
+      primitives.push(el('feGaussianBlur', { stdDeviation: adjustments.blur }))
+    }
+    if (primitives.length === 0) return undefined
+
+    const id = this.nextId('adjust')
+    this.defs.push(el('filter', { id, 'color-interpolation-filters': 'sRGB' }, primitives))
+    return `url(#${id})`
+  }
+
+  /**
+   * Render an image element: the whole image placed so its cropped part fills
+   * the box, clipped to its mask (or box) with its adjustments applied
+   */
+  private renderImageElement(element: ImageElement): string {
+    const { position, dimensions, src } = element
+    const image = this.images.get(src)
+    if (!image) return ''
+
+    // Place the whole image at the scale its cropped part is drawn at
+    const { sx, sy, sw, sh, dx, dy, dw, dh } = getImageFit(image.width, image.height, element)
+    if (sw <= 0 || sh <= 0) return ''
+    const scaleX = dw / sw
+    const scaleY = dh / sh
+
+    const mask = getImageMaskOutline(element)
+    const clip = this.createClipPath(
+      mask
+        ? el('path', { d: serializePathData(mask) })
+        : el('rect', { x: position.x, y: position.y, ...dimensions })
+    )
+
+    return el('g', { 'clip-path': clip }, [
+      el(
+        'image',
+        {
+          'xlink:href': image.href,
+          x: dx - sx * scaleX,
+          y: dy - sy * scaleY,
+          width: image.width * scaleX,
+          height: image.height * scaleY,
+          preserveAspectRatio: 'none',
+          filter: this.createImageFilter(element.adjustments),
+        },
+        element.alt ? el('title', {}, escapeXml(element.alt)) : ''
+      ),
+    ])
+  }
+}
+
+export default SlideSvgRenderer
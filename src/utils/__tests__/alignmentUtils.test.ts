@@ -177,6 +177,33 @@ describe('alignmentUtils', () => {
         expect(result[1]?.position.y).toBe(150)
       })
     })
+
+    describe('grouped elements', () => {
+      it('should align a group as a unit', () => {
+        const elements: SlideElement[] = [
+          { ...createTestElement('1', 200, 100, 50, 50), groupId: 'g' },
+          { ...createTestElement('2', 300, 200, 50, 50), groupId: 'g' },
+          createTestElement('3', 100, 100, 40, 40),
+        ]
+
+        const result = calculateAlignmentPositions(elements, 'left')
+
+        // The group's left edge moves to 100, keeping its members' spacing
+        expect(result).toEqual([
+          { id: '1', position: { x: 100, y: 100 } },
+          { id: '2', position: { x: 200, y: 200 } },
+          { id: '3', position: { x: 100, y: 100 } },
+        ])
+      })
+
+      it('should not align the members of a single group', () => {
+        const elements: SlideElement[] = [
+          { ...createTestElement('1', 200, 100, 50, 50), groupId: 'g' },
+          { ...createTestElement('2', 300, 200, 50, 50), groupId: 'g' },
+        ]
+        expect(calculateAlignmentPositions(elements, 'left')).toEqual([])
+      })
+    })
   })
 
   describe('calculateDistributionPositions', () => {
@@ -235,5 +262,21 @@ describe('alignmentUtils', () => {
         expect(result[1]?.position.y).toBe(250)
       })
     })
+
+    describe('grouped elements', () => {
+      it('should distribute a group as a unit', () => {
+        const elements: SlideElement[] = [
+          createTestElement('1', 0, 0, 50, 50),
+          { ...createTestElement('2', 60, 0, 20, 20), groupId: 'g' },
+          { ...createTestElement('3', 90, 0, 20, 20), groupId: 'g' },
+          createTestElement('4', 250, 0, 50, 50),
+        ]
+
+        const result = calculateDistributionPositions(elements, 'horizontal')
+
+        // Span 300, sizes 50 + 50 + 50, gap 75: the group starts at 125
+        expect(result.map((update) => update.position.x)).toEqual([0, 125, 155, 250])
+      })
+    })
   })
 })
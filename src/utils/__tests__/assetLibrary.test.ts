@@ -0,0 +1,146 @@
+/**
+ * Unit tests for asset library utilities
+ */
+
+import {
+  hashAssetData,
+  addAsset,
+  assetRef,
+  getAssetRefId,
+  resolveAssetSrc,
+  internAssets,
+  inlineAssets,
+  countAssetReferences,
+  removeUnusedAssets,
+  decodeDataUrl,
+  encodeDataUrl,
+} from '../assetLibrary'
+import { createBlankPresentation, createBlankSlide } from '@/types/presentation'
+import type { ImageElement, Presentation } from '@/types/presentation'
+
+const RED = 'data:image/png;base64,cmVk'
+const BLUE = 'data:image/png;base64,Ymx1ZQ=='
+
+// Helper to create test images
+function createTestImage(id: string, src: string): ImageElement {
+  return {
+    id,
+    type: 'image',
+    position: { x: 0, y: 0 },
+    dimensions: { width: 100, height: 100 },
+    rotation: 0,
+    zIndex: 0,
+    opacity: 1,
+    locked: false,
+    src,
+    alt: '',
+    objectFit: 'fill',
+  }
+}
+
+// Helper to create a presentation with one slide showing the given images
+function createTestPresentation(sources: string[], backgroundSrc?: string): Presentation {
+  const slide = createBlankSlide('slide')
+  return {
+    ...createBlankPresentation('presentation'),
+    slides: [
+      {
+        ...slide,
+        elements: sources.map((src, i) => createTestImage(`image-${String(i)}`, src)),
+        background: backgroundSrc ? { type: 'image', imageSrc: backgroundSrc } : slide.background,
+      },
+    ],
+  }
+}
+
+describe('assetLibrary', () => {
+  describe('hashAssetData', () => {
+    it('should hash the same content to the same id', () => {
+      expect(hashAssetData(RED)).toBe(hashAssetData(RED))
+      expect(hashAssetData(RED)).not.toBe(hashAssetData(BLUE))
+    })
+  })
+
+  describe('addAsset', () => {
+    it('should store each content once', () => {
+      const first = addAsset({}, RED)
+      const second = addAsset(first.library, RED)
+      expect(second.id).toBe(first.id)
+      expect(second.library).toBe(first.library)
+      expect(first.library[first.id]).toMatchObject({ mimeType: 'image/png', dataUrl: RED })
+    })
+
+    it('should give colliding content a new id', () => {
+      const { id } = addAsset({}, RED)
+      const collided = { [id]: { id, mimeType: 'image/png', dataUrl: BLUE, size: 0, createdAt: '' } }
+      const result = addAsset(collided, RED)
+      expect(result.id).toBe(`${id}-1`)
+      expect(result.library[result.id]?.dataUrl).toBe(RED)
+    })
+  })
+
+  describe('references', () => {
+    it('should resolve asset references and leave other sources as they are', () => {
+      const { library, id } = addAsset({}, RED)
+      expect(getAssetRefId(assetRef(id))).toBe(id)
+      expect(resolveAssetSrc(assetRef(id), library)).toBe(RED)
+      expect(resolveAssetSrc('https://example.com/a.png', library)).toBe('https://example.com/a.png')
+      expect(resolveAssetSrc(assetRef('missing'), library)).toBe('')
+    })
+  })
+
+  describe('decodeDataUrl', () => {
+    it('should decode base64 and percent-encoded payloads', () => {
+      expect(decodeDataUrl(RED)).toEqual({ mimeType: 'image/png', data: new Uint8Array([114, 101, 100]) })
+      expect(decodeDataUrl('data:IMAGE/SVG+XML;charset=utf-8,%3Csvg%3E')).toEqual({
+        mimeType: 'image/svg+xml',
+        data: new Uint8Array([60, 115, 118, 103, 62]),
+      })
+      expect(decodeDataUrl('https://example.com/a.png')).toBeNull()
+    })
+
+    it('should encode bytes back into the same data URL', () => {
+      const decoded = decodeDataUrl(BLUE)
+      expect(decoded && encodeDataUrl(decoded.mimeType, decoded.data)).toBe(BLUE)
+    })
+  })
+
+  describe('internAssets', () => {
+    it('should replace embedded images with shared references', () => {
+      const { presentation, library } = internAssets(
+        createTestPresentation([RED, RED, 'https://example.com/a.png'], BLUE),
+        {}
+      )
+      const slide = presentation.slides[0]
+      const sources = slide?.elements.map((element) => (element.type === 'image' ? element.src : ''))
+      expect(Object.keys(library)).toHaveLength(2)
+      expect(sources?.[0]).toBe(sources?.[1])
+      expect(getAssetRefId(sources?.[0])).not.toBeNull()
+      expect(sources?.[2]).toBe('https://example.com/a.png')
+      expect(getAssetRefId(slide?.background.imageSrc)).not.toBeNull()
+    })
+
+    it('should round-trip through inlineAssets', () => {
+      const original = createTestPresentation([RED], BLUE)
+      const { presentation, library } = internAssets(original, {})
+      expect(inlineAssets(presentation, library)).toEqual(original)
+    })
+  })
+
+  describe('garbage collection', () => {
+    it('should count references across presentations', () => {
+      const { presentation, library } = internAssets(createTestPresentation([RED, RED], RED), {})
+      const [id] = Object.keys(library)
+      expect(countAssetReferences([presentation, presentation]).get(id ?? '')).toBe(6)
+    })
+
+    it('should remove only unreferenced assets', () => {
+      const { presentation, library } = internAssets(createTestPresentation([RED, BLUE]), {})
+      expect(removeUnusedAssets(library, [presentation])).toBe(library)
+
+      const withoutBlue = internAssets(createTestPresentation([RED]), library).presentation
+      const collected = removeUnusedAssets(library, [withoutBlue])
+      expect(Object.values(collected).map((asset) => asset.dataUrl)).toEqual([RED])
+    })
+  })
+})
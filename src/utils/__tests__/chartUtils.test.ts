@@ -0,0 +1,200 @@
+/**
+ * Unit tests for chart utilities
+ */
+
+import {
+  createChartElement,
+  getChartPalette,
+  getSeriesColor,
+  getChartLayout,
+  getValueAxis,
+  getValueY,
+  getChartBars,
+  getSeriesPoints,
+  getPieSlices,
+  getLegendEntries,
+  formatChartValue,
+  setChartValue,
+  setCategoryName,
+  setSeriesName,
+  addCategory,
+  removeCategory,
+  addSeries,
+  removeSeries,
+  CHART_PADDING,
+} from '../chartUtils'
+import type { ChartElement, PresentationTheme } from '@/types/presentation'
+
+const theme: PresentationTheme = {
+  primaryColor: '#ff0000',
+  secondaryColor: '#0000ff',
+  backgroundColor: '#ffffff',
+  textColor: '#000000',
+  fontFamily: 'Arial',
+}
+
+function createTestChart(overrides: Partial<ChartElement> = {}): ChartElement {
+  return {
+    ...createChartElement('chart-1', { x: 0, y: 0 }, 0),
+    categories: ['A', 'B'],
+    series: [
+      { name: 'One', values: [10, 20] },
+      { name: 'Two', values: [30, 40] },
+    ],
+    ...overrides,
+  }
+}
+
+const plot = { x: 0, y: 0, width: 200, height: 100 }
+
+describe('chartUtils', () => {
+  describe('colors', () => {
+    it('should derive the palette from the theme', () => {
+      const palette = getChartPalette(theme)
+      expect(palette.slice(0, 2)).toEqual(['#ff0000', '#0000ff'])
+      expect(palette[2]).toBe('#ff7373')
+      expect(palette[4]).toBe('#990000')
+    })
+
+    it('should use a series color when set and the palette otherwise', () => {
+      const chart = createTestChart({
+        series: [
+          { name: 'One', values: [], color: 'theme:secondary' },
+          { name: 'Two', values: [] },
+        ],
+      })
+      expect(getSeriesColor(chart, 0, theme)).toBe('#0000ff')
+      expect(getSeriesColor(chart, 1, theme)).toBe('#0000ff')
+      expect(getSeriesColor(chart, 7, theme)).toBe('#0000ff')
+    })
+
+    it('should list categories in the legend of pie charts', () => {
+      expect(getLegendEntries(createTestChart(), theme).map((e) => e.label)).toEqual(['One', 'Two'])
+      expect(getLegendEntries(createTestChart({ chartType: 'pie' }), theme)).toEqual([
+        { label: 'A', color: '#ff0000' },
+        { label: 'B', color: '#0000ff' },
+      ])
+    })
+  })
+
+  describe('getChartLayout', () => {
+    it('should leave room for the title, legend and axis labels', () => {
+      const layout = getChartLayout(createTestChart({ title: 'Sales', fontSize: 10 }))
+      expect(layout.title).toEqual({ x: CHART_PADDING, y: CHART_PADDING, width: 456, height: 20 })
+      expect(layout.legend).toEqual({ x: CHART_PADDING, y: 272, width: 456, height: 16 })
+      expect(layout.plot).toEqual({ x: CHART_PADDING + 35, y: CHART_PADDING + 20, width: 421, height: 224 })
+    })
+
+    it('should not reserve axis space for pie charts', () => {
+      const layout = getChartLayout(createTestChart({ chartType: 'pie', showLegend: false }))
+      expect(layout.title).toBeNull()
+      expect(layout.legend).toBeNull()
+      expect(layout.plot).toEqual({ x: CHART_PADDING, y: CHART_PADDING, width: 456, height: 276 })
+    })
+  })
+
+  describe('getValueAxis', () => {
+    it('should use round steps from zero', () => {
+      expect(getValueAxis(createTestChart())).toEqual({
+        min: 0,
+        max: 40,
+        ticks: [0, 10, 20, 30, 40],
+      })
+    })
+
+    it('should include negative values', () => {
+      const axis = getValueAxis(createTestChart({ series: [{ name: 'x', values: [-3, 7] }] }))
+      expect(axis.min).toBe(-4)
+      expect(axis.max).toBe(8)
+      expect(axis.ticks).toEqual([-4, -2, 0, 2, 4, 6, 8])
+    })
+
+    it('should handle charts without values', () => {
+      expect(getValueAxis(createTestChart({ series: [{ name: 'x', values: [0, 0] }] }))).toEqual({
+        min: 0,
+        max: 1,
+        ticks: [0, 1],
+      })
+    })
+
+    it('should map values to plot positions', () => {
+      const axis = getValueAxis(createTestChart())
+      expect(getValueY(0, axis, plot)).toBe(100)
+      expect(getValueY(40, axis, plot)).toBe(0)
+    })
+  })
+
+  describe('geometry', () => {
+    it('should place series bars side by side in each category', () => {
+      const bars = getChartBars(createTestChart(), plot)
+      expect(bars).toHaveLength(4)
+      expect(bars[0]).toMatchObject({ seriesIndex: 0, categoryIndex: 0, width: 40, y: 75, height: 25 })
+      expect(bars[0]?.x).toBeCloseTo(10)
+      expect(bars[1]).toMatchObject({ seriesIndex: 1, categoryIndex: 0 })
+      expect(bars[1]?.x).toBeCloseTo(50)
+      expect(bars[3]).toMatchObject({ categoryIndex: 1, y: 0, height: 100 })
+      expect(bars[3]?.x).toBeCloseTo(150)
+    })
+
+    it('should grow negative bars down from zero', () => {
+      const chart = createTestChart({ series: [{ name: 'x', values: [-4, 8] }] })
+      // The axis runs from -5 to 10, so zero sits two thirds down the plot
+      const [negative] = getChartBars(chart, plot)
+      expect(negative?.y).toBeCloseTo(200 / 3)
+      expect(negative?.height).toBeCloseTo(80 / 3)
+    })
+
+    it('should place line points at category centers', () => {
+      expect(getSeriesPoints(createTestChart(), 1, plot)).toEqual([
+        { x: 50, y: 25 },
+        { x: 150, y: 0 },
+      ])
+    })
+
+    it('should split the first series into pie slices', () => {
+      const slices = getPieSlices(
+        createTestChart({ categories: ['A', 'B', 'C'], series: [{ name: 'x', values: [1, 0, 3] }] })
+      )
+      expect(slices.map((slice) => slice.categoryIndex)).toEqual([0, 2])
+      expect(slices[0]?.startAngle).toBeCloseTo(-Math.PI / 2)
+      expect(slices[0]?.endAngle).toBeCloseTo(0)
+      expect(slices[1]?.endAngle).toBeCloseTo((Math.PI * 3) / 2)
+    })
+
+    it('should format axis values', () => {
+      expect(formatChartValue(2500)).toBe('2.5k')
+      expect(formatChartValue(1_200_000)).toBe('1.2M')
+      expect(formatChartValue(0.30000000000000004)).toBe('0.3')
+    })
+  })
+
+  describe('data grid', () => {
+    it('should edit values and names', () => {
+      const chart = createTestChart()
+      expect(setChartValue(chart, 1, 0, 5).series[1]?.values).toEqual([5, 40])
+      expect(setCategoryName(chart, 1, 'Z').categories).toEqual(['A', 'Z'])
+      expect(setSeriesName(chart, 0, 'First').series[0]?.name).toBe('First')
+    })
+
+    it('should add and remove categories across every series', () => {
+      const added = addCategory(createTestChart())
+      expect(added.categories).toEqual(['A', 'B', 'Category 3'])
+      expect(added.series.map((s) => s.values)).toEqual([
+        [10, 20, 0],
+        [30, 40, 0],
+      ])
+      const removed = removeCategory(createTestChart(), 0)
+      expect(removed.categories).toEqual(['B'])
+      expect(removed.series.map((s) => s.values)).toEqual([[20], [40]])
+      expect(removeCategory({ ...removed }, 0)).toEqual(removed)
+    })
+
+    it('should add and remove series', () => {
+      const added = addSeries(createTestChart())
+      expect(added.series[2]).toEqual({ name: 'Series 3', values: [0, 0] })
+      const single = removeSeries(createTestChart(), 0)
+      expect(single.series.map((s) => s.name)).toEqual(['Two'])
+      expect(removeSeries(single, 0)).toEqual(single)
+    })
+  })
+})
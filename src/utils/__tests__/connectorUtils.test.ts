@@ -0,0 +1,227 @@
+/**
+ * Unit tests for connector utilities
+ */
+
+import {
+  createConnectorElement,
+  getConnectionPoints,
+  getNearestConnectionPoint,
+  resolveEndpoint,
+  getConnectorPath,
+  flattenConnectorPath,
+  getArrowheadAngle,
+  getDistanceToConnector,
+  updateConnectors,
+  copyConnector,
+  remapElementIds,
+} from '../connectorUtils'
+import type { ConnectorElement, ShapeElement, SlideElement } from '@/types/presentation'
+
+// Helper to create test shapes
+function createTestShape(id: string, x: number, y: number, rotation = 0): ShapeElement {
+  return {
+    id,
+    type: 'shape',
+    position: { x, y },
+    dimensions: { width: 100, height: 50 },
+    rotation,
+    zIndex: 0,
+    opacity: 1,
+    locked: false,
+    shapeType: 'rectangle',
+    fillColor: '#f97316',
+    strokeColor: '#ea580c',
+    strokeWidth: 2,
+  }
+}
+
+// Connector from the right of shape `a` (100, 25) to the left of shape `b` (300, 125)
+const a = createTestShape('a', 0, 0)
+const b = createTestShape('b', 300, 100)
+const connector = createConnectorElement(
+  'c',
+  { position: { x: 100, y: 25 }, attachment: { elementId: 'a', side: 'right' } },
+  { position: { x: 300, y: 125 }, attachment: { elementId: 'b', side: 'left' } },
+  2
+)
+const elements: SlideElement[] = [a, b, connector]
+
+describe('connectorUtils', () => {
+  describe('createConnectorElement', () => {
+    it('should size the connector to its path', () => {
+      expect(connector.position).toEqual({ x: 100, y: 25 })
+      expect(connector.dimensions).toEqual({ width: 200, height: 100 })
+      expect(connector.routing).toBe('straight')
+      expect(connector.endArrowhead).toBe('arrow')
+    })
+  })
+
+  describe('getConnectionPoints', () => {
+    it('should return the midpoints of the sides', () => {
+      expect(getConnectionPoints(a)).toEqual({
+        top: { x: 50, y: 0 },
+        right: { x: 100, y: 25 },
+        bottom: { x: 50, y: 50 },
+        left: { x: 0, y: 25 },
+      })
+    })
+
+    it('should follow the rotation of the element', () => {
+      const points = getConnectionPoints(createTestShape('r', 0, 0, 90))
+      expect(points.right.x).toBeCloseTo(50)
+      expect(points.right.y).toBeCloseTo(75)
+      expect(points.top.x).toBeCloseTo(75)
+      expect(points.top.y).toBeCloseTo(25)
+    })
+  })
+
+  describe('getNearestConnectionPoint', () => {
+    it('should snap to the closest connection point in range', () => {
+      expect(getNearestConnectionPoint(elements, { x: 295, y: 120 })).toEqual({
+        elementId: 'b',
+        side: 'left',
+        position: { x: 300, y: 125 },
+      })
+    })
+
+    it('should ignore points out of range and excluded elements', () => {
+      expect(getNearestConnectionPoint(elements, { x: 200, y: 200 })).toBeNull()
+      expect(getNearestConnectionPoint(elements, { x: 300, y: 125 }, 16, ['b'])).toBeNull()
+    })
+  })
+
+  describe('resolveEndpoint', () => {
+    it('should follow the attached element', () => {
+      const moved = createTestShape('b', 300, 200)
+      expect(resolveEndpoint(connector.end, [a, moved])).toEqual({
+        position: { x: 300, y: 225 },
+        direction: { x: -1, y: 0 },
+      })
+    })
+
+    it('should keep the stored position of a free endpoint', () => {
+      expect(resolveEndpoint({ position: { x: 5, y: 6 } }, elements)).toEqual({
+        position: { x: 5, y: 6 },
+        direction: null,
+      })
+    })
+  })
+
+  describe('getConnectorPath', () => {
+    it('should route elbow connectors through the horizontal midpoint', () => {
+      const path = getConnectorPath({ ...connector, routing: 'elbow' }, elements)
+      expect(path.points).toEqual([
+        { x: 100, y: 25 },
+        { x: 200, y: 25 },
+        { x: 200, y: 125 },
+        { x: 300, y: 125 },
+      ])
+    })
+
+    it('should turn once between a horizontal and a vertical side', () => {
+      const path = getConnectorPath(
+        {
+          ...connector,
+          routing: 'elbow',
+          end: { position: { x: 350, y: 100 }, attachment: { elementId: 'b', side: 'top' } },
+        },
+        elements
+      )
+      expect(path.points).toEqual([{ x: 100, y: 25 }, { x: 350, y: 25 }, { x: 350, y: 100 }])
+    })
+
+    it('should bend curved connectors out along the attached sides', () => {
+      const path = getConnectorPath({ ...connector, routing: 'curved' }, elements)
+      expect(path.kind).toBe('curve')
+      const [, c1, c2] = path.points
+      expect(c1?.x).toBeGreaterThan(100)
+      expect(c1?.y).toBe(25)
+      expect(c2?.x).toBeLessThan(300)
+      expect(c2?.y).toBe(125)
+    })
+  })
+
+  describe('getArrowheadAngle', () => {
+    it('should point along the last segment at each end', () => {
+      const path = getConnectorPath({ ...connector, routing: 'elbow' }, elements)
+      expect(getArrowheadAngle(path, 'end')).toBeCloseTo(0)
+      expect(getArrowheadAngle(path, 'start')).toBeCloseTo(Math.PI)
+    })
+  })
+
+  describe('getDistanceToConnector', () => {
+    it('should measure the distance to the nearest segment', () => {
+      const elbow = { ...connector, routing: 'elbow' as const }
+      expect(getDistanceToConnector(elbow, { x: 205, y: 80 })).toBeCloseTo(5)
+      expect(getDistanceToConnector(elbow, { x: 150, y: 100 })).toBeGreaterThan(20)
+    })
+
+    it('should follow curved paths', () => {
+      const curved = { ...connector, routing: 'curved' as const }
+      const points = flattenConnectorPath(getConnectorPath(curved))
+      const middle = points[Math.floor(points.length / 2)] ?? { x: 0, y: 0 }
+      expect(getDistanceToConnector(curved, middle)).toBeCloseTo(0)
+    })
+  })
+
+  describe('updateConnectors', () => {
+    it('should re-route connectors attached to changed elements', () => {
+      const moved = createTestShape('b', 300, 200)
+      const [, , updated] = updateConnectors(elements, [a, moved, connector], new Set(['b']))
+      expect((updated as ConnectorElement).end.position).toEqual({ x: 300, y: 225 })
+      expect(updated?.dimensions).toEqual({ width: 200, height: 200 })
+    })
+
+    it('should leave unaffected connectors unchanged', () => {
+      const result = updateConnectors(elements, elements, new Set(['other']))
+      expect(result[2]).toBe(connector)
+    })
+
+    it('should scale the ends of a resized connector and detach them', () => {
+      const resized: ConnectorElement = { ...connector, dimensions: { width: 400, height: 100 } }
+      const [, , updated] = updateConnectors(elements, [a, b, resized], new Set(['c']))
+      const result = updated as ConnectorElement
+      expect(result.start).toEqual({ position: { x: 100, y: 25 } })
+      expect(result.end).toEqual({ position: { x: 500, y: 125 } })
+    })
+
+    it('should straighten a rotated connector into its endpoints', () => {
+      const rotated: ConnectorElement = { ...connector, rotation: 90 }
+      const [, , updated] = updateConnectors(elements, [a, b, rotated], new Set(['c']))
+      const result = updated as ConnectorElement
+      expect(result.rotation).toBe(0)
+      expect(result.start.position.x).toBeCloseTo(250)
+      expect(result.start.position.y).toBeCloseTo(-25)
+      expect(result.end.position.x).toBeCloseTo(150)
+      expect(result.end.position.y).toBeCloseTo(175)
+    })
+
+    it('should keep attachments to elements that are not added yet', () => {
+      const [updated] = updateConnectors([], [connector], new Set(['c']))
+      expect((updated as ConnectorElement).end.attachment?.elementId).toBe('b')
+    })
+  })
+
+  describe('copyConnector', () => {
+    it('should offset the ends and remap attachments to copied elements', () => {
+      const copy = copyConnector(connector, new Map([['a', 'a2']]), { x: 10, y: 10 })
+      expect(copy.start).toEqual({
+        position: { x: 110, y: 35 },
+        attachment: { elementId: 'a2', side: 'right' },
+      })
+      expect(copy.end).toEqual({ position: { x: 310, y: 135 } })
+      expect(copy.position).toEqual({ x: 110, y: 35 })
+    })
+  })
+
+  describe('remapElementIds', () => {
+    it('should keep connectors attached to the renamed elements', () => {
+      let next = 0
+      const result = remapElementIds(elements, () => `n${String(++next)}`)
+      expect(result.map((el) => el.id)).toEqual(['n1', 'n2', 'n3'])
+      const copy = result[2] as ConnectorElement
+      expect(copy.start.attachment?.elementId).toBe('n1')
+      expect(copy.end.attachment?.elementId).toBe('n2')
+    })
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for element grouping utilities
+ */
+
+import {
+  expandToGroups,
+  getSelectionUnits,
+  getRotatedBounds,
+  getUnitFrame,
+  getSelectionFrames,
+  canGroup,
+  canUngroup,
+  groupElements,
+  ungroupElements,
+  remapGroupIds,
+  resizeGroup,
+  rotateGroup,
+} from '../groupUtils'
+import type { ShapeElement } from '@/types/presentation'
+
+// Helper to create test elements
+function createTestElement(
+  id: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  groupId?: string
+): ShapeElement {
+  return {
+    id,
+    type: 'shape',
+    position: { x, y },
+    dimensions: { width, height },
+    rotation: 0,
+    zIndex: 0,
+    opacity: 1,
+    locked: false,
+    shapeType: 'rectangle',
+    fillColor: '#f97316',
+    strokeColor: '#ea580c',
+    strokeWidth: 2,
+    ...(groupId && { groupId }),
+  }
+}
+
+const elements = [
+  createTestElement('a', 0, 0, 50, 50, 'g1'),
+  createTestElement('b', 100, 100, 50, 50, 'g1'),
+  createTestElement('c', 300, 0, 20, 20),
+  createTestElement('d', 400, 0, 20, 20, 'g2'),
+]
+
+describe('groupUtils', () => {
+  describe('expandToGroups', () => {
+    it('should add the other members of selected groups', () => {
+      expect(expandToGroups(elements, ['b', 'c'])).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should ignore unknown ids', () => {
+      expect(expandToGroups(elements, ['missing'])).toEqual([])
+    })
+  })
+
+  describe('getSelectionUnits', () => {
+    it('should make one unit per group and per ungrouped element', () => {
+      const units = getSelectionUnits(elements)
+      expect(units.map((unit) => unit.map((el) => el.id))).toEqual([['a', 'b'], ['c'], ['d']])
+    })
+  })
+
+  describe('getRotatedBounds', () => {
+    it('should cover a rotated element', () => {
+      const bounds = getRotatedBounds({
+        position: { x: 0, y: 0 },
+        dimensions: { width: 100, height: 20 },
+        rotation: 90,
+      })
+      expect(bounds.left).toBeCloseTo(40)
+      expect(bounds.right).toBeCloseTo(60)
+      expect(bounds.top).toBeCloseTo(-40)
+      expect(bounds.bottom).toBeCloseTo(60)
+    })
+  })
+
+  describe('getUnitFrame', () => {
+    it('should keep the frame of an ungrouped element', () => {
+      const element = { ...createTestElement('x', 10, 20, 30, 40), rotation: 45 }
+      expect(getUnitFrame([element])).toEqual({
+        position: { x: 10, y: 20 },
+        dimensions: { width: 30, height: 40 },
+        rotation: 45,
+      })
+    })
+
+    it('should use the bounding box of a group', () => {
+      expect(getUnitFrame(elements.slice(0, 2))).toEqual({
+        position: { x: 0, y: 0 },
+        dimensions: { width: 150, height: 150 },
+        rotation: 0,
+      })
+    })
+  })
+
+  describe('getSelectionFrames', () => {
+    it('should frame whole groups even when only some members are selected', () => {
+      const frames = getSelectionFrames(elements, ['a', 'c'])
+      expect(frames).toHaveLength(2)
+      expect(frames[0]).toMatchObject({ elementIds: ['a', 'b'], isGroup: true })
+      expect(frames[1]).toMatchObject({ elementIds: ['c'], isGroup: false })
+    })
+  })
+
+  describe('canGroup and canUngroup', () => {
+    it('should need at least two units to group', () => {
+      expect(canGroup(elements.slice(0, 2))).toBe(false)
+      expect(canGroup(elements.slice(0, 3))).toBe(true)
+    })
+
+    it('should need a grouped element to ungroup', () => {
+      expect(canUngroup([elements[2] as ShapeElement])).toBe(false)
+      expect(canUngroup(elements)).toBe(true)
+    })
+  })
+
+  describe('groupElements', () => {
+    it('should merge selected elements and their groups into one group', () => {
+      const result = groupElements(elements, ['b', 'c'], 'g3')
+      expect(result.map((el) => el.groupId)).toEqual(['g3', 'g3', 'g3', 'g2'])
+    })
+  })
+
+  describe('ungroupElements', () => {
+    it('should dissolve the groups of the given elements', () => {
+      const result = ungroupElements(elements, ['a'])
+      expect(result.map((el) => el.groupId)).toEqual([undefined, undefined, undefined, 'g2'])
+      expect('groupId' in (result[1] ?? {})).toBe(false)
+    })
+  })
+
+  describe('remapGroupIds', () => {
+    it('should give each copied group a new shared id', () => {
+      let next = 0
+      const result = remapGroupIds(elements, () => `new-${String(++next)}`)
+      expect(result.map((el) => el.groupId)).toEqual(['new-1', 'new-1', undefined, 'new-2'])
+    })
+  })
+
+  describe('resizeGroup', () => {
+    it('should scale member positions and sizes with the group', () => {
+      const from = getUnitFrame(elements.slice(0, 2))
+      const updates = resizeGroup(elements.slice(0, 2), from, {
+        position: { x: 10, y: 10 },
+        dimensions: { width: 300, height: 75 },
+        rotation: 0,
+      })
+      expect(updates).toEqual([
+        {
+          id: 'a',
+          changes: { position: { x: 10, y: 10 }, dimensions: { width: 100, height: 25 } },
+        },
+        {
+          id: 'b',
+          changes: { position: { x: 210, y: 60 }, dimensions: { width: 100, height: 25 } },
+        },
+      ])
+    })
+  })
+
+  describe('rotateGroup', () => {
+    it('should rotate members around the group center', () => {
+      const members = elements.slice(0, 2)
+      const updates = rotateGroup(members, getUnitFrame(members), 90)
+      // Group center is (75, 75); member a's center (25, 25) rotates to (125, 25)
+      expect(updates[0]?.changes.position?.x).toBeCloseTo(100)
+      expect(updates[0]?.changes.position?.y).toBeCloseTo(0)
+      expect(updates[0]?.changes.rotation).toBe(90)
+      // Member b's center (125, 125) rotates to (25, 125)
+      expect(updates[1]?.changes.position?.x).toBeCloseTo(0)
+      expect(updates[1]?.changes.position?.y).toBeCloseTo(100)
+    })
+
+    it('should normalize rotations to [0, 360)', () => {
+      const member = { ...createTestElement('x', 0, 0, 10, 10, 'g'), rotation: 10 }
+      const [update] = rotateGroup([member], getUnitFrame([member]), -30)
+      expect(update?.changes.rotation).toBe(340)
+    })
+  })
+})
@@ -0,0 +1,217 @@
+/**
+ * Unit tests for the HTML slideshow exporter
+ */
+
+import { createHtmlSlideshow } from '../htmlExporter'
+import { parseFontString } from '../textLayout'
+import { decodeDataUrl } from '../assetLibrary'
+import {
+  createBlankPresentation,
+  type ImageElement,
+  type Presentation,
+  type ShapeElement,
+  type Slide,
+  type TextElement,
+} from '@/types/presentation'
+
+/** A 1x1 transparent PNG */
+const PNG_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+const base = { rotation: 0, opacity: 1, locked: false }
+
+const text: TextElement = {
+  ...base,
+  id: 'text-1',
+  type: 'text',
+  position: { x: 100, y: 50 },
+  dimensions: { width: 400, height: 80 },
+  zIndex: 0,
+  content: 'Q&A <live>',
+  runs: [{ text: 'Q&A ' }, { text: '<live>', link: 'https://example.com/' }],
+  fontSize: 24,
+  fontFamily: 'Arial',
+  fontWeight: 'normal',
+  fontStyle: 'normal',
+  textAlign: 'left',
+  color: '#ff0000',
+  verticalAlign: 'top',
+}
+
+const rectangle: ShapeElement = {
+  ...base,
+  id: 'shape-1',
+  type: 'shape',
+  position: { x: 10, y: 20 },
+  dimensions: { width: 200, height: 100 },
+  zIndex: 1,
+  shapeType: 'rectangle',
+  fillColor: '#3b82f6',
+  strokeColor: '#000000',
+  strokeWidth: 2,
+  shadow: { enabled: true, color: '#000000', opacity: 0.5, blur: 8, offsetX: 4, offsetY: 4 },
+}
+
+const image: ImageElement = {
+  ...base,
+  id: 'image-1',
+  type: 'image',
+  position: { x: 600, y: 100 },
+  dimensions: { width: 100, height: 100 },
+  zIndex: 2,
+  src: PNG_DATA_URL,
+  alt: 'Logo',
+  objectFit: 'fill',
+}
+
+/**
+ * Estimate text widths, as tests have no canvas to measure with
+ */
+const measureText = (value: string, font: string) => value.length * parseFontString(font).size * 0.5
+
+/**
+ * Create a presentation with two slides, the first holding the given elements
+ */
+function createTestPresentation(slide: Partial<Slide> = {}): Presentation {
+  const presentation = createBlankPresentation('p1', 'Quarterly Review')
+  const [first] = presentation.slides
+  if (!first) throw new Error('Blank presentation has no slide')
+  return {
+    ...presentation,
+    slides: [
+      {
+        ...first,
+        elements: [text, rectangle, image],
+        notes: 'Welcome everyone',
+        transition: { type: 'fade', duration: 800 },
+        ...slide,
+      },
+      { ...first, id: 'slide-2', transition: { type: 'zoom', duration: 300 } },
+    ],
+  }
+}
+
+/**
+ * Parse an exported slideshow
+ */
+function parseHtml(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html')
+}
+
+describe('htmlExporter', () => {
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    global.fetch = jest.fn().mockRejectedValue(new Error('offline'))
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  describe('createHtmlSlideshow', () => {
+    it('should write each slide as inline SVG with its transition', async () => {
+      const doc = parseHtml(await createHtmlSlideshow(createTestPresentation(), { measureText }))
+      const sections = Array.from(doc.querySelectorAll('section.slide'))
+
+      expect(doc.title).toBe('Quarterly Review')
+      expect(sections).toHaveLength(2)
+      expect(sections.map((section) => section.querySelectorAll('svg').length)).toEqual([1, 1])
+      expect(sections[0]?.getAttribute('data-transition')).toBe('fade')
+      expect(sections[0]?.getAttribute('data-duration')).toBe('800')
+      expect(sections[1]?.getAttribute('data-transition')).toBe('zoom')
+    })
+
+    it('should keep text as escaped, linked SVG text', async () => {
+      const html = await createHtmlSlideshow(createTestPresentation(), { measureText })
+      const doc = parseHtml(html)
+      const texts = Array.from(doc.querySelectorAll('svg text')).map((node) => node.textContent)
+
+      expect(html).toContain('Q&amp;A')
+      expect(html).toContain('&lt;live&gt;')
+      expect(texts).toEqual(['Q&A ', '<live>'])
+      expect(doc.querySelector('svg a text')?.textContent).toBe('<live>')
+    })
+
+    it('should drop links that are not web or mail links', async () => {
+      const unsafe: TextElement = {
+        ...text,
+        runs: [{ text: 'Q&A ', link: 'javascript:alert(1)' }, { text: '<live>' }],
+      }
+      const doc = parseHtml(
+        await createHtmlSlideshow(createTestPresentation({ elements: [unsafe] }), { measureText })
+      )
+
+      expect(doc.querySelectorAll('svg a')).toHaveLength(0)
+      expect(doc.querySelector('svg')?.outerHTML).not.toContain('javascript:')
+    })
+
+    it('should draw shapes as paths with blurred shadows', async () => {
+      const doc = parseHtml(await createHtmlSlideshow(createTestPresentation(), { measureText }))
+      const paths = Array.from(doc.querySelectorAll('svg path'))
+
+      expect(paths.some((path) => path.getAttribute('fill') === '#3b82f6')).toBe(true)
+      expect(doc.querySelector('svg filter feGaussianBlur')?.getAttribute('stdDeviation')).toBe('4')
+    })
+
+    it('should be self-contained', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        headers: { get: () => 'image/png' },
+        arrayBuffer: () => Promise.resolve(decodeDataUrl(PNG_DATA_URL)?.data.buffer),
+      })
+      const remote: ImageElement = { ...image, id: 'image-2', src: 'https://example.com/a.png' }
+      const html = await createHtmlSlideshow(
+        createTestPresentation({ elements: [image, remote] }),
+        { measureText, embedFonts: false }
+      )
+      const doc = parseHtml(html)
+      const hrefs = Array.from(doc.querySelectorAll('image')).map((node) =>
+        node.getAttribute('xlink:href')
+      )
+
+      expect(hrefs).toHaveLength(2)
+      expect(hrefs.every((href) => href?.startsWith('data:image/png;base64,'))).toBe(true)
+      expect(doc.querySelectorAll('link, script[src], img')).toHaveLength(0)
+    })
+
+    it('should include speaker notes only when asked', async () => {
+      const withNotes = parseHtml(
+        await createHtmlSlideshow(createTestPresentation(), { measureText })
+      )
+      const withoutNotes = parseHtml(
+        await createHtmlSlideshow(createTestPresentation(), { measureText, includeNotes: false })
+      )
+
+      const notes = withNotes.querySelector<HTMLTemplateElement>('template.slide-notes')
+      expect(notes?.content.textContent).toBe('Welcome everyone')
+      expect(withNotes.getElementById('notes')).not.toBeNull()
+      expect(withoutNotes.querySelector('template.slide-notes')).toBeNull()
+      expect(withoutNotes.getElementById('notes')).toBeNull()
+    })
+
+    it('should embed the web fonts the slides use', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        arrayBuffer: () => Promise.resolve(new Uint8Array([1, 2, 3]).buffer),
+      })
+      global.fetch = fetchMock
+      const html = await createHtmlSlideshow(
+        createTestPresentation({ elements: [{ ...text, fontFamily: 'Outfit, sans-serif' }] }),
+        { measureText }
+      )
+
+      expect(fetchMock).toHaveBeenCalledWith(expect.stringContaining('/outfit@5.3.0/'))
+      expect(html).toMatch(/@font-face \{ font-family: 'outfit'; font-weight: 400;/)
+      expect(html).toContain('url(data:font/ttf;base64,AQID)')
+    })
+
+    it('should report progress up to completion', async () => {
+      const onProgress = jest.fn()
+      await createHtmlSlideshow(createTestPresentation(), { measureText, onProgress })
+
+      expect(onProgress).toHaveBeenCalledWith(50)
+      expect(onProgress).toHaveBeenLastCalledWith(100)
+    })
+  })
+})
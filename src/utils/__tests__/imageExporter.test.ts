@@ -0,0 +1,212 @@
+/**
+ * Unit tests for the image exporter
+ */
+
+import { unzipSync, strFromU8 } from 'fflate'
+import {
+  MANIFEST_FILENAME,
+  createSlideImageArchive,
+  estimateImageSize,
+  exportSlideToImage,
+  exportSlidesToImages,
+  getSlideImageFilename,
+  type ImageExportManifest,
+} from '../imageExporter'
+import {
+  createBlankPresentation,
+  type ShapeElement,
+  type Slide,
+  type TextElement,
+} from '@/types/presentation'
+
+const base = { rotation: 0, opacity: 1, locked: false }
+
+const text: TextElement = {
+  ...base,
+  id: 'text-1',
+  type: 'text',
+  position: { x: 100, y: 50 },
+  dimensions: { width: 400, height: 80 },
+  zIndex: 0,
+  content: 'Quarterly results',
+  fontSize: 24,
+  fontFamily: 'Arial',
+  fontWeight: 'bold',
+  fontStyle: 'normal',
+  textAlign: 'left',
+  color: '#ff0000',
+  verticalAlign: 'top',
+}
+
+const rectangle: ShapeElement = {
+  ...base,
+  id: 'shape-1',
+  type: 'shape',
+  position: { x: 10, y: 20 },
+  dimensions: { width: 200, height: 100 },
+  zIndex: 1,
+  shapeType: 'rectangle',
+  fillColor: '#3b82f6',
+  strokeColor: '#000000',
+  strokeWidth: 2,
+}
+
+/**
+ * Create a slide with a text box and a rectangle on a gradient background
+ */
+function createTestSlide(): Slide {
+  const [slide] = createBlankPresentation('p1', 'Quarterly Review').slides
+  if (!slide) throw new Error('Blank presentation has no slide')
+  return {
+    ...slide,
+    elements: [text, rectangle],
+    background: { type: 'gradient', gradientStart: '#000000', gradientEnd: '#ffffff' },
+  }
+}
+
+/**
+ * Read a blob as text, as jsdom blobs have no text()
+ */
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      resolve(reader.result as string)
+    }
+    reader.readAsText(blob)
+  })
+}
+
+/**
+ * Create slides with titles and notes, in SVG as tests have no canvas for raster images
+ */
+function createTestSlides(count: number): Slide[] {
+  const slide = createTestSlide()
+  return Array.from({ length: count }, (_, index) => ({
+    ...slide,
+    id: `slide-${String(index)}`,
+    title: `Topic ${String(index + 1)}`,
+    notes: index === 0 ? 'Open with the numbers' : '',
+  }))
+}
+
+describe('imageExporter', () => {
+  let downloads: { filename: string; blob: Blob }[]
+
+  beforeEach(() => {
+    downloads = []
+    // Text is measured without a canvas in tests
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null)
+    let pending: Blob | null = null
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      pending = blob
+      return 'blob:image'
+    })
+    URL.revokeObjectURL = jest.fn()
+    jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (
+      this: HTMLAnchorElement
+    ) {
+      if (pending) downloads.push({ filename: this.download, blob: pending })
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('SVG export', () => {
+    it('should download the slide as a vector SVG file', async () => {
+      const result = await exportSlideToImage(createTestSlide(), 'Quarterly Review', 2, {
+        format: 'svg',
+      })
+
+      expect(result).toEqual({ success: true, exportedCount: 1 })
+      expect(downloads).toHaveLength(1)
+      const [download] = downloads
+      expect(download?.filename).toBe('quarterly_review_slide_3.svg')
+      expect(download?.blob.type).toBe('image/svg+xml')
+
+      const svg = download && (await readBlob(download.blob))
+      expect(svg).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<svg /)
+      expect(svg).toContain('viewBox="0 0 960 540"')
+      expect(svg).toContain('<linearGradient')
+      expect(svg).toMatch(/<path d="M 10 20 L 210 20 L 210 120 L 10 120 Z" fill="#3b82f6"/)
+      expect(svg).toMatch(/<text [^>]*font-weight="bold"[^>]*>Quarterly results<\/text>/)
+    })
+  })
+
+  describe('getSlideImageFilename', () => {
+    it('should pad slide numbers so files sort in slide order', () => {
+      expect(getSlideImageFilename('Q3 Review', 0, 9, 'png')).toBe('q3_review_slide_1.png')
+      expect(getSlideImageFilename('Q3 Review', 4, 40, 'jpg')).toBe('q3_review_slide_05.jpg')
+      expect(getSlideImageFilename('Q3 Review', 99, 120, 'svg')).toBe('q3_review_slide_100.svg')
+    })
+  })
+
+  describe('createSlideImageArchive', () => {
+    it('should put every slide in the archive with a manifest', async () => {
+      const archive = unzipSync(
+        await createSlideImageArchive(createTestSlides(12), 'Quarterly Review', { format: 'svg' })
+      )
+
+      expect(Object.keys(archive)).toHaveLength(13)
+      expect(strFromU8(archive['quarterly_review_slide_01.svg'] ?? new Uint8Array())).toContain(
+        '<svg '
+      )
+      const manifest = JSON.parse(
+        strFromU8(archive[MANIFEST_FILENAME] ?? new Uint8Array())
+      ) as ImageExportManifest
+      expect(manifest.presentation).toBe('Quarterly Review')
+      expect(manifest.slides).toHaveLength(12)
+      expect(manifest.slides[0]).toEqual({
+        number: 1,
+        file: 'quarterly_review_slide_01.svg',
+        title: 'Topic 1',
+        notes: 'Open with the numbers',
+      })
+      expect(manifest.slides[11]?.file).toBe('quarterly_review_slide_12.svg')
+    })
+
+    it('should leave the manifest out when not wanted', async () => {
+      const archive = unzipSync(
+        await createSlideImageArchive(createTestSlides(2), 'Deck', {
+          format: 'svg',
+          includeManifest: false,
+        })
+      )
+
+      expect(Object.keys(archive)).toEqual(['deck_slide_1.svg', 'deck_slide_2.svg'])
+    })
+
+    it('should leave the end of the progress for zipping', async () => {
+      const onProgress = jest.fn()
+      await createSlideImageArchive(createTestSlides(2), 'Deck', { format: 'svg', onProgress })
+
+      expect(onProgress.mock.calls.map(([progress]: [number]) => progress)).toEqual([
+        23, 45, 68, 90, 100,
+      ])
+    })
+  })
+
+  describe('exportSlidesToImages', () => {
+    it('should download all slides as a single ZIP file', async () => {
+      const result = await exportSlidesToImages(createTestSlides(3), 'Quarterly Review', {
+        format: 'svg',
+      })
+
+      expect(result).toEqual({ success: true, exportedCount: 3 })
+      expect(downloads.map((download) => download.filename)).toEqual([
+        'quarterly_review_slides.zip',
+      ])
+      expect(downloads[0]?.blob.type).toBe('application/zip')
+    })
+  })
+
+  describe('estimateImageSize', () => {
+    it('should estimate SVG files independently of the resolution', () => {
+      expect(estimateImageSize(2, 'svg', 'standard')).toBe('~60 KB')
+      expect(estimateImageSize(2, 'svg', 'ultra')).toBe('~60 KB')
+      expect(estimateImageSize(1, 'png', 'standard')).toBe('~1013 KB')
+    })
+  })
+})
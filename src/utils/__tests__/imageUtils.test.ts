@@ -0,0 +1,174 @@
+/**
+ * Unit tests for image utilities
+ */
+
+import {
+  getImageFit,
+  getImageFilter,
+  getImageMaskOutline,
+  isImageCropped,
+  getFullImageFrame,
+  normalizeImageCrop,
+  resizeCrop,
+  panCrop,
+  resetCrop,
+  DEFAULT_IMAGE_ADJUSTMENTS,
+  FULL_IMAGE_CROP,
+  readImageSize,
+} from '../imageUtils'
+import type { ImageElement } from '@/types/presentation'
+
+/** A 1x1 transparent PNG */
+const PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+// Helper to create test images
+function createTestImage(overrides: Partial<ImageElement> = {}): ImageElement {
+  return {
+    id: 'image',
+    type: 'image',
+    position: { x: 100, y: 100 },
+    dimensions: { width: 200, height: 100 },
+    rotation: 0,
+    zIndex: 0,
+    opacity: 1,
+    locked: false,
+    src: 'data:image/png;base64,',
+    alt: '',
+    objectFit: 'fill',
+    ...overrides,
+  }
+}
+
+// The right half of the image, shown in a 100x100 box
+const cropped = createTestImage({
+  position: { x: 200, y: 100 },
+  dimensions: { width: 100, height: 100 },
+  crop: { x: 0.5, y: 0, width: 0.5, height: 1 },
+})
+
+describe('imageUtils', () => {
+  describe('getImageFit', () => {
+    it('should draw the whole image without a crop', () => {
+      expect(getImageFit(400, 200, createTestImage())).toEqual({
+        sx: 0,
+        sy: 0,
+        sw: 400,
+        sh: 200,
+        dx: 100,
+        dy: 100,
+        dw: 200,
+        dh: 100,
+      })
+    })
+
+    it('should draw only the cropped part of the image', () => {
+      const fit = getImageFit(400, 200, cropped)
+      expect(fit).toMatchObject({ sx: 200, sy: 0, sw: 200, sh: 200, dw: 100, dh: 100 })
+    })
+
+    it('should fit the cropped part with cover', () => {
+      const fit = getImageFit(400, 200, { ...cropped, objectFit: 'cover', dimensions: { width: 100, height: 50 } })
+      expect(fit).toMatchObject({ sx: 200, sy: 50, sw: 200, sh: 100 })
+    })
+  })
+
+  describe('getImageFilter', () => {
+    it('should leave unadjusted images unfiltered', () => {
+      expect(getImageFilter(undefined)).toBe('none')
+      expect(getImageFilter(DEFAULT_IMAGE_ADJUSTMENTS)).toBe('none')
+    })
+
+    it('should combine adjustments and scale the blur', () => {
+      expect(
+        getImageFilter({ brightness: 150, contrast: 80, grayscale: 100, blur: 2 }, 2)
+      ).toBe('brightness(1.5) contrast(0.8) grayscale(1) blur(4px)')
+    })
+  })
+
+  describe('getImageMaskOutline', () => {
+    it('should return no outline without a mask', () => {
+      expect(getImageMaskOutline(createTestImage())).toBeNull()
+      expect(getImageMaskOutline(createTestImage({ mask: 'none' }))).toBeNull()
+    })
+
+    it('should outline circle and rounded rectangle masks', () => {
+      expect(getImageMaskOutline(createTestImage({ mask: 'circle' }))?.[0]).toEqual({
+        type: 'M',
+        x: 300,
+        y: 150,
+      })
+      const rounded = getImageMaskOutline(createTestImage({ mask: 'roundedRect', maskCornerRadius: 10 }))
+      expect(rounded?.[0]).toEqual({ type: 'M', x: 110, y: 100 })
+    })
+  })
+
+  describe('crop geometry', () => {
+    it('should detect cropped images', () => {
+      expect(isImageCropped(createTestImage())).toBe(false)
+      expect(isImageCropped(cropped)).toBe(true)
+    })
+
+    it('should find the frame of the whole image', () => {
+      expect(getFullImageFrame(cropped)).toEqual({
+        position: { x: 100, y: 100 },
+        dimensions: { width: 200, height: 100 },
+      })
+    })
+
+    it('should express contained and covering images as filled crops', () => {
+      const box = { position: { x: 0, y: 0 }, dimensions: { width: 200, height: 200 } }
+      expect(normalizeImageCrop(createTestImage({ ...box, objectFit: 'contain' }), 400, 200)).toEqual({
+        position: { x: 0, y: 50 },
+        dimensions: { width: 200, height: 100 },
+        objectFit: 'fill',
+        crop: FULL_IMAGE_CROP,
+      })
+      expect(normalizeImageCrop(createTestImage({ ...box, objectFit: 'cover' }), 400, 200)).toEqual({
+        ...box,
+        objectFit: 'fill',
+        crop: { x: 0.25, y: 0, width: 0.5, height: 1 },
+      })
+    })
+
+    it('should move the dragged edges and keep the image scale', () => {
+      const result = resizeCrop(createTestImage(), 'top-left', 50, 25)
+      expect(result.position).toEqual({ x: 150, y: 125 })
+      expect(result.dimensions).toEqual({ width: 150, height: 75 })
+      expect(result.crop).toEqual({ x: 0.25, y: 0.25, width: 0.75, height: 0.75 })
+    })
+
+    it('should keep the crop inside the image and above the minimum size', () => {
+      const grown = resizeCrop(cropped, 'left', -500, 0)
+      expect(grown.position.x).toBe(100)
+      expect(grown.crop).toEqual(FULL_IMAGE_CROP)
+
+      const shrunk = resizeCrop(cropped, 'right', -500, 0)
+      expect(shrunk.dimensions.width).toBe(10)
+    })
+
+    it('should pan the image under the crop within its edges', () => {
+      expect(panCrop(cropped, 40, 0).crop).toEqual({ x: 0.3, y: 0, width: 0.5, height: 1 })
+      expect(panCrop(cropped, -40, 0).crop?.x).toBe(0.5)
+    })
+
+    it('should reset to the whole image', () => {
+      expect(resetCrop(cropped)).toEqual({
+        position: { x: 100, y: 100 },
+        dimensions: { width: 200, height: 100 },
+        crop: FULL_IMAGE_CROP,
+      })
+    })
+  })
+
+  describe('readImageSize', () => {
+    it('should read the size of a PNG', () => {
+      const data = Uint8Array.from(atob(PNG_BASE64), (c) => c.charCodeAt(0))
+      expect(readImageSize(data)).toEqual({ width: 1, height: 1 })
+    })
+
+    it('should return null for unknown formats', () => {
+      expect(readImageSize(new Uint8Array([1, 2, 3]))).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for import conflict resolution
+ */
+
+import {
+  matchImportedPresentations,
+  getDefaultResolution,
+  getResolutionOptions,
+  getResolutionLabel,
+  planImport,
+} from '../importConflicts'
+import { createBlankPresentation } from '@/types/presentation'
+
+describe('importConflicts', () => {
+  const existing = [
+    createBlankPresentation('a', 'Quarterly Review'),
+    createBlankPresentation('b', 'Roadmap'),
+  ]
+
+  describe('matchImportedPresentations', () => {
+    it('should match by ID before name', () => {
+      const items = matchImportedPresentations(
+        [createBlankPresentation('b', 'Renamed'), createBlankPresentation('c', ' quarterly review ')],
+        existing
+      )
+
+      expect(items.map((item) => [item.match?.id, item.matchedBy])).toEqual([
+        ['b', 'id'],
+        ['a', 'name'],
+      ])
+    })
+
+    it('should treat unmatched presentations as new', () => {
+      const [item] = matchImportedPresentations([createBlankPresentation('c', 'Launch')], existing)
+
+      expect(item).toMatchObject({ match: null, matchedBy: null })
+    })
+
+    it('should match each existing presentation at most once', () => {
+      const items = matchImportedPresentations(
+        [createBlankPresentation('x', 'Roadmap'), createBlankPresentation('b', 'Roadmap')],
+        existing
+      )
+
+      expect(items.map((item) => item.match?.id ?? null)).toEqual([null, 'b'])
+    })
+  })
+
+  describe('resolutions', () => {
+    const [byId, byName, fresh] = matchImportedPresentations(
+      [
+        createBlankPresentation('a', 'Other'),
+        createBlankPresentation('c', 'Roadmap'),
+        createBlankPresentation('d', 'Launch'),
+      ],
+      existing
+    )
+
+    it('should overwrite only presentations matched by ID by default', () => {
+      expect([byId, byName, fresh].map((item) => item && getDefaultResolution(item))).toEqual([
+        'overwrite',
+        'add',
+        'add',
+      ])
+    })
+
+    it('should only offer overwriting for conflicts', () => {
+      expect(fresh && getResolutionOptions(fresh)).toEqual(['add', 'skip'])
+      expect(fresh && getResolutionLabel(fresh, 'add')).toBe('Import')
+      expect(byName && getResolutionLabel(byName, 'add')).toBe('Keep both')
+    })
+
+    it('should plan overwrites, additions and skips', () => {
+      const plan = planImport([byId, byName, fresh].filter((item) => item !== undefined), [
+        'overwrite',
+        'skip',
+        'overwrite',
+      ])
+
+      expect(plan.overwritten.map((o) => [o.targetId, o.presentation.name])).toEqual([['a', 'Other']])
+      expect(plan.added.map((p) => p.name)).toEqual(['Launch'])
+      expect(plan.skippedCount).toBe(1)
+    })
+  })
+})
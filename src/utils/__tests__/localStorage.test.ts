@@ -0,0 +1,48 @@
+/**
+ * Unit tests for localStorage persistence helpers
+ */
+
+import { loadCustomThemes, saveCustomThemes, STORAGE_KEYS } from '../localStorage'
+import { createCustomTheme } from '../themeUtils'
+
+describe('localStorage', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  describe('custom themes', () => {
+    it('should return an empty list when nothing is saved', () => {
+      expect(loadCustomThemes()).toEqual({ success: true, data: [] })
+    })
+
+    it('should round-trip saved themes', () => {
+      const themes = [createCustomTheme('Brand', { primaryColor: '#ff0000' })]
+
+      expect(saveCustomThemes(themes).success).toBe(true)
+      expect(loadCustomThemes().data).toEqual(themes)
+    })
+
+    it('should drop invalid entries', () => {
+      const valid = createCustomTheme('Valid')
+      localStorage.setItem(
+        STORAGE_KEYS.CUSTOM_THEMES,
+        JSON.stringify([valid, { id: 'broken', name: 'Broken', theme: { primaryColor: 1 } }])
+      )
+
+      expect(loadCustomThemes().data).toEqual([valid])
+    })
+
+    it('should never load saved themes as built-in', () => {
+      const preset = { ...createCustomTheme('Sneaky'), builtIn: true }
+      localStorage.setItem(STORAGE_KEYS.CUSTOM_THEMES, JSON.stringify([preset]))
+
+      expect(loadCustomThemes().data?.[0]?.builtIn).toBe(false)
+    })
+
+    it('should report malformed data', () => {
+      localStorage.setItem(STORAGE_KEYS.CUSTOM_THEMES, '{"not":"a list"}')
+
+      expect(loadCustomThemes().success).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,276 @@
+/**
+ * Unit tests for the PDF exporter
+ */
+
+import type { jsPDF } from 'jspdf'
+import { createPdf, estimatePdfSize } from '../pdfExporter'
+import { SlideCanvasRenderer } from '../SlideCanvasRenderer'
+import {
+  createBlankPresentation,
+  type ImageElement,
+  type Presentation,
+  type ShapeElement,
+  type Slide,
+  type TextElement,
+} from '@/types/presentation'
+
+/** A 1x1 transparent PNG */
+const PNG_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+const base = { rotation: 0, opacity: 1, locked: false }
+
+const text: TextElement = {
+  ...base,
+  id: 'text-1',
+  type: 'text',
+  position: { x: 100, y: 50 },
+  dimensions: { width: 400, height: 80 },
+  zIndex: 0,
+  content: 'Quarterly results',
+  runs: [{ text: 'Quarterly ' }, { text: 'results', link: 'https://example.com/' }],
+  fontSize: 24,
+  fontFamily: 'Arial',
+  fontWeight: 'normal',
+  fontStyle: 'normal',
+  textAlign: 'left',
+  color: '#ff0000',
+  verticalAlign: 'top',
+}
+
+const rectangle: ShapeElement = {
+  ...base,
+  id: 'shape-1',
+  type: 'shape',
+  position: { x: 10, y: 20 },
+  dimensions: { width: 200, height: 100 },
+  zIndex: 1,
+  shapeType: 'rectangle',
+  fillColor: '#3b82f6',
+  strokeColor: '#000000',
+  strokeWidth: 2,
+}
+
+const image: ImageElement = {
+  ...base,
+  id: 'image-1',
+  type: 'image',
+  position: { x: 600, y: 100 },
+  dimensions: { width: 100, height: 100 },
+  zIndex: 2,
+  src: PNG_DATA_URL,
+  alt: 'Logo',
+  objectFit: 'fill',
+}
+
+/**
+ * Create a presentation with one slide holding the given elements
+ */
+function createTestPresentation(slide: Partial<Slide> = {}): Presentation {
+  const presentation = createBlankPresentation('p1', 'Quarterly Review')
+  const [first] = presentation.slides
+  if (!first) throw new Error('Blank presentation has no slide')
+  return {
+    ...presentation,
+    slides: [{ ...first, elements: [text, rectangle, image], ...slide }],
+  }
+}
+
+/**
+ * Get the uncompressed content stream of a page
+ */
+function getPageContent(pdf: jsPDF, page = 1): string {
+  const pages = (pdf.internal as unknown as { pages: string[][] }).pages
+  return (pages[page] ?? []).join('\n')
+}
+
+describe('pdfExporter', () => {
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    // Web fonts can't be downloaded in tests, so text falls back to standard fonts
+    global.fetch = jest.fn().mockRejectedValue(new Error('offline'))
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+    jest.restoreAllMocks()
+  })
+
+  describe('vector output', () => {
+    it('should write text as selectable text', async () => {
+      const pdf = await createPdf(createTestPresentation())
+      const content = getPageContent(pdf)
+
+      expect(content).toMatch(/\(Quarterly\) Tj/)
+      expect(content).toMatch(/\(results\) Tj/)
+      expect(pdf.getFontList()).toHaveProperty('helvetica')
+    })
+
+    it('should draw shapes as paths and embed images', async () => {
+      const pdf = await createPdf(createTestPresentation())
+      const content = getPageContent(pdf)
+
+      // The rectangle is filled and stroked in one operation
+      expect(content).toMatch(/10\. 20\. m\n210\. 20\. l\n210\. 120\. l\n10\. 120\. l\nh\nB\n/)
+      expect(content.match(/\/I\d+ Do/g)).toHaveLength(1)
+    })
+
+    it('should fill gradient backgrounds with shadings', async () => {
+      const pdf = await createPdf(
+        createTestPresentation({
+          background: { type: 'gradient', gradientStart: '#000000', gradientEnd: '#ffffff' },
+        })
+      )
+
+      expect(getPageContent(pdf)).toMatch(/\/Sh\d+ sh/)
+    })
+
+    it('should draw text the fonts cannot write as a picture', async () => {
+      jest
+        .spyOn(HTMLCanvasElement.prototype, 'getContext')
+        .mockReturnValue({ scale: jest.fn() } as unknown as CanvasRenderingContext2D)
+      jest.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(PNG_DATA_URL)
+      const render = jest.spyOn(SlideCanvasRenderer.prototype, 'render').mockReturnValue()
+      const pdf = await createPdf(
+        createTestPresentation({
+          elements: [
+            { ...text, content: 'Привет 你好', runs: [{ text: 'Привет 你好' }] },
+            rectangle,
+          ],
+        })
+      )
+      const content = getPageContent(pdf)
+
+      expect(render).toHaveBeenCalledTimes(1)
+      expect(render.mock.calls[0]?.[0].elements).toEqual([
+        expect.objectContaining({ id: 'text-1' }),
+      ])
+      expect(content).not.toContain('Tj')
+      expect(content.match(/\/I\d+ Do/g)).toHaveLength(1)
+      // Shapes stay vector
+      expect(content).toMatch(/h\nB\n/)
+    })
+
+    it('should keep text links clickable', async () => {
+      const pdf = await createPdf(createTestPresentation())
+
+      expect(pdf.output()).toContain('/URI (https://example.com/)')
+    })
+  })
+
+  describe('page layouts', () => {
+    /**
+     * Create a presentation with the given number of slides, each with notes
+     */
+    function createDeck(count: number): Presentation {
+      const presentation = createTestPresentation({ elements: [] })
+      const [slide] = presentation.slides
+      if (!slide) throw new Error('Test presentation has no slide')
+      return {
+        ...presentation,
+        slides: Array.from({ length: count }, (_, index) => ({
+          ...slide,
+          id: `slide-${String(index)}`,
+          notes: `Talking point ${String(index + 1)}`,
+        })),
+      }
+    }
+
+    it('should print several slides on each handout page', async () => {
+      const pdf = await createPdf(createDeck(7), { printLayout: 'handout-6' })
+
+      expect(pdf.getNumberOfPages()).toBe(2)
+      expect(getPageContent(pdf, 2).match(/960\. 540\. re\nf/g)).toHaveLength(1)
+    })
+
+    it('should rule note lines on 3-up handouts', async () => {
+      const pdf = await createPdf(createDeck(1), { printLayout: 'handout-3', layout: 'portrait' })
+
+      expect(getPageContent(pdf).match(/ l\nS/g)?.length).toBeGreaterThan(3)
+    })
+
+    it('should write speaker notes below the slide on notes pages', async () => {
+      const pdf = await createPdf(createDeck(2), { printLayout: 'notes', layout: 'portrait' })
+
+      expect(pdf.getNumberOfPages()).toBe(2)
+      expect(getPageContent(pdf, 2)).toContain('(Talking point 2) Tj')
+    })
+
+    it('should continue long notes on the next page', async () => {
+      const deck = createDeck(1)
+      const [slide] = deck.slides
+      if (!slide) throw new Error('Test presentation has no slide')
+      const notes = Array.from({ length: 80 }, (_, index) => `Line ${String(index)}`).join('\n')
+      const pdf = await createPdf(
+        { ...deck, slides: [{ ...slide, notes }] },
+        { printLayout: 'notes', layout: 'portrait' }
+      )
+
+      expect(pdf.getNumberOfPages()).toBe(2)
+      expect(getPageContent(pdf, 2)).toContain('(Line 79) Tj')
+    })
+
+    it('should add headers, footers and page numbers to every page', async () => {
+      const pdf = await createPdf(createDeck(2), {
+        header: 'Quarterly Review',
+        footer: 'Confidential',
+        pageNumbers: true,
+      })
+
+      for (const page of [1, 2]) {
+        const content = getPageContent(pdf, page)
+        expect(content).toContain('(Quarterly Review) Tj')
+        expect(content).toContain('(Confidential) Tj')
+        expect(content).toContain(`(${String(page)}) Tj`)
+      }
+    })
+
+    it('should draw notes and headers the fonts cannot write as pictures', async () => {
+      const fillText = jest.fn()
+      jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+        fillText,
+        measureText: (line: string) => ({ width: line.length * 10 }),
+      } as unknown as CanvasRenderingContext2D)
+      jest.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(PNG_DATA_URL)
+      const deck = createDeck(1)
+      const [slide] = deck.slides
+      if (!slide) throw new Error('Test presentation has no slide')
+      const pdf = await createPdf(
+        { ...deck, slides: [{ ...slide, notes: 'Привет 你好' }] },
+        { printLayout: 'notes', layout: 'portrait', header: 'Отчёт', pageNumbers: true }
+      )
+      const content = getPageContent(pdf)
+
+      expect(fillText.mock.calls.map(([line]) => line as string)).toEqual(['Привет 你好', 'Отчёт'])
+      expect(content.match(/\/I\d+ Do/g)).toHaveLength(2)
+      // Text the font can write stays text
+      expect(content.match(/Tj/g)).toEqual(['Tj'])
+      expect(content).toContain('(1) Tj')
+    })
+
+    it('should use the chosen paper size', async () => {
+      const pdf = await createPdf(createDeck(1), { paperSize: 'letter', layout: 'portrait' })
+
+      expect(pdf.internal.pageSize.getWidth()).toBeCloseTo(215.9)
+      expect(pdf.internal.pageSize.getHeight()).toBeCloseTo(279.4)
+    })
+  })
+
+  describe('progress', () => {
+    it('should report progress up to completion', async () => {
+      const presentation = createTestPresentation({ elements: [] })
+      const onProgress = jest.fn()
+      await createPdf(presentation, { onProgress })
+
+      expect(onProgress).toHaveBeenLastCalledWith(100)
+    })
+  })
+
+  describe('estimatePdfSize', () => {
+    it('should estimate vector files smaller than images', () => {
+      expect(estimatePdfSize(10, 'high', 'vector')).toBe('~307 KB')
+      expect(estimatePdfSize(10, 'high', 'raster')).toBe('~6.0 MB')
+    })
+  })
+})
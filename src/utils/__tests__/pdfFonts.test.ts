@@ -0,0 +1,119 @@
+/**
+ * Unit tests for PDF font selection
+ */
+
+import { jsPDF } from 'jspdf'
+import {
+  canEncodeText,
+  embedPdfFonts,
+  PDF_FONT_FILES,
+  resolvePdfFont,
+  type EmbeddedPdfFonts,
+} from '../pdfFonts'
+
+describe('pdfFonts', () => {
+  describe('resolvePdfFont', () => {
+    const embedded: EmbeddedPdfFonts = new Map([['outfit', new Set(['normal', 'bold'] as const)]])
+
+    it('should use the first family that is embedded or standard', () => {
+      expect(resolvePdfFont("'Outfit', sans-serif", true, false, embedded)).toEqual({
+        fontName: 'outfit',
+        fontStyle: 'bold',
+      })
+      expect(resolvePdfFont('Unknown, Georgia, serif', false, true, embedded)).toEqual({
+        fontName: 'times',
+        fontStyle: 'italic',
+      })
+      expect(resolvePdfFont('"Courier New"', true, true, embedded)).toEqual({
+        fontName: 'courier',
+        fontStyle: 'bolditalic',
+      })
+    })
+
+    it('should fall back to the closest embedded style', () => {
+      expect(resolvePdfFont('Outfit', true, true, embedded)).toEqual({
+        fontName: 'outfit',
+        fontStyle: 'bold',
+      })
+      expect(resolvePdfFont('Outfit', false, true, embedded)).toEqual({
+        fontName: 'outfit',
+        fontStyle: 'normal',
+      })
+    })
+
+    it('should use Helvetica for unknown families', () => {
+      expect(resolvePdfFont('Comic Sans MS', false, false, new Map())).toEqual({
+        fontName: 'helvetica',
+        fontStyle: 'normal',
+      })
+    })
+  })
+
+  describe('PDF_FONT_FILES', () => {
+    it('should download fonts at pinned versions', () => {
+      const urls = Object.values(PDF_FONT_FILES).flatMap((files) => Object.values(files))
+
+      expect(urls.length).toBeGreaterThan(0)
+      for (const url of urls) {
+        expect(url).toMatch(/@\d+\.\d+\.\d+\//)
+      }
+    })
+  })
+
+  describe('embedPdfFonts', () => {
+    const originalFetch = global.fetch
+
+    afterEach(() => {
+      global.fetch = originalFetch
+      jest.restoreAllMocks()
+    })
+
+    it('should skip fonts that cannot be downloaded or read', async () => {
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: false })
+        .mockResolvedValueOnce({ ok: true, arrayBuffer: () => Promise.resolve(new ArrayBuffer(4)) })
+      global.fetch = fetchMock
+      // jsPDF logs the font it fails to parse
+      jest.spyOn(console, 'error').mockImplementation(() => undefined)
+      const pdf = new jsPDF()
+
+      const embedded = await embedPdfFonts(
+        pdf,
+        [
+          { fontFamily: 'Brand, Arial', bold: false, italic: false },
+          { fontFamily: 'Brand', bold: true, italic: false },
+          { fontFamily: 'Brand', bold: false, italic: false },
+          { fontFamily: 'Arial', bold: false, italic: false },
+        ],
+        {
+          brand: {
+            normal: 'https://fonts.test/brand.ttf',
+            bold: 'https://fonts.test/brand-bold.ttf',
+          },
+        }
+      )
+
+      // Each file is requested once, and standard families need no download
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(embedded.size).toBe(0)
+    })
+  })
+
+  describe('canEncodeText', () => {
+    const helvetica = { fontName: 'helvetica', fontStyle: 'normal' } as const
+
+    it('should accept WinAnsi text in standard fonts', () => {
+      expect(canEncodeText(new jsPDF(), helvetica, 'Café “déjà vu” – 5 €\t')).toBe(true)
+    })
+
+    it('should reject text beyond WinAnsi in standard fonts', () => {
+      const pdf = new jsPDF()
+
+      expect(canEncodeText(pdf, helvetica, 'Привет')).toBe(false)
+      expect(canEncodeText(pdf, helvetica, 'Ωmega')).toBe(false)
+      expect(canEncodeText(pdf, helvetica, '你好')).toBe(false)
+      expect(canEncodeText(pdf, helvetica, 'Launch 🚀')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for PDF page layouts
+ */
+
+import {
+  PAGE_MARGIN,
+  fitSlide,
+  getContentArea,
+  getHandoutSlots,
+  getNoteLines,
+  getNotesPageSlot,
+  getPageSize,
+  getSlidesPerPage,
+} from '../pdfLayouts'
+
+const A4_PORTRAIT_AREA = getContentArea(getPageSize('a4', 'portrait'), {
+  header: false,
+  footer: false,
+})
+
+/**
+ * Check that a frame has the slide aspect ratio and lies within an area
+ */
+function expectSlideWithin(
+  frame: { x: number; y: number; width: number; height: number },
+  area: typeof frame
+): void {
+  expect(frame.width / frame.height).toBeCloseTo(16 / 9)
+  expect(frame.x).toBeGreaterThanOrEqual(area.x - 1e-9)
+  expect(frame.y).toBeGreaterThanOrEqual(area.y - 1e-9)
+  expect(frame.x + frame.width).toBeLessThanOrEqual(area.x + area.width + 1e-9)
+  expect(frame.y + frame.height).toBeLessThanOrEqual(area.y + area.height + 1e-9)
+}
+
+describe('pdfLayouts', () => {
+  describe('getPageSize', () => {
+    it('should turn paper sideways for landscape pages', () => {
+      expect(getPageSize('a4', 'portrait')).toEqual({ width: 210, height: 297 })
+      expect(getPageSize('letter', 'landscape')).toEqual({ width: 279.4, height: 215.9 })
+      expect(getPageSize('widescreen', 'landscape')).toEqual({ width: 254, height: 142.875 })
+    })
+  })
+
+  describe('getContentArea', () => {
+    it('should leave room for the header and footer bands in use', () => {
+      const page = getPageSize('a4', 'landscape')
+      const plain = getContentArea(page, { header: false, footer: false })
+      const banded = getContentArea(page, { header: true, footer: true })
+
+      expect(plain).toEqual({ x: PAGE_MARGIN, y: PAGE_MARGIN, width: 277, height: 190 })
+      expect(banded.y).toBeGreaterThan(plain.y)
+      expect(banded.y + banded.height).toBeLessThan(plain.y + plain.height)
+    })
+  })
+
+  describe('fitSlide', () => {
+    it('should center the largest 16:9 frame in the area', () => {
+      expect(fitSlide({ x: 0, y: 0, width: 320, height: 90 })).toEqual({
+        x: 80,
+        y: 0,
+        width: 160,
+        height: 90,
+      })
+    })
+
+    it('should fill 16:9 paper edge to edge', () => {
+      const { width, height } = getPageSize('widescreen', 'landscape')
+      expect(fitSlide({ x: 0, y: 0, width, height })).toEqual({ x: 0, y: 0, width, height })
+    })
+  })
+
+  describe('getSlidesPerPage', () => {
+    it('should read the count from handout layouts', () => {
+      expect(getSlidesPerPage('slides')).toBe(1)
+      expect(getSlidesPerPage('notes')).toBe(1)
+      expect(getSlidesPerPage('handout-6')).toBe(6)
+    })
+  })
+
+  describe('getHandoutSlots', () => {
+    it.each([2, 4, 6, 9])('should place %i slides in reading order', (count) => {
+      const slots = getHandoutSlots(A4_PORTRAIT_AREA, count, 'portrait')
+
+      expect(slots).toHaveLength(count)
+      for (const slot of slots) {
+        expectSlideWithin(slot.slide, A4_PORTRAIT_AREA)
+        expect(slot.notes).toBeUndefined()
+      }
+      const [first, second] = slots
+      expect(
+        second && first && (second.slide.y > first.slide.y || second.slide.x > first.slide.x)
+      ).toBe(true)
+    })
+
+    it('should lay out 2-up landscape handouts side by side', () => {
+      const area = getContentArea(getPageSize('a4', 'landscape'), { header: false, footer: false })
+      const [left, right] = getHandoutSlots(area, 2, 'landscape')
+
+      expect(right?.slide.x).toBeGreaterThan((left?.slide.x ?? 0) + (left?.slide.width ?? 0))
+      expect(right?.slide.y).toBeCloseTo(left?.slide.y ?? 0)
+    })
+
+    it('should give 3-up handouts a note area beside each slide', () => {
+      const slots = getHandoutSlots(A4_PORTRAIT_AREA, 3, 'portrait')
+
+      expect(slots).toHaveLength(3)
+      for (const { slide, notes } of slots) {
+        expectSlideWithin(slide, A4_PORTRAIT_AREA)
+        expect(notes?.x).toBeGreaterThan(slide.x + slide.width)
+        expect(notes?.y).toBe(slide.y)
+        expect((notes?.x ?? 0) + (notes?.width ?? 0)).toBeCloseTo(
+          A4_PORTRAIT_AREA.x + A4_PORTRAIT_AREA.width
+        )
+      }
+    })
+  })
+
+  describe('getNotesPageSlot', () => {
+    it('should put the slide on top and the notes below it', () => {
+      const { slide, notes } = getNotesPageSlot(A4_PORTRAIT_AREA)
+
+      expectSlideWithin(slide, A4_PORTRAIT_AREA)
+      expect(slide.y).toBe(A4_PORTRAIT_AREA.y)
+      expect(notes.y).toBeGreaterThan(slide.y + slide.height)
+      expect(notes.y + notes.height).toBeCloseTo(A4_PORTRAIT_AREA.y + A4_PORTRAIT_AREA.height)
+    })
+  })
+
+  describe('getNoteLines', () => {
+    it('should rule lines within the note area', () => {
+      const lines = getNoteLines({ x: 0, y: 10, width: 50, height: 30 })
+
+      expect(lines).toEqual([18, 26, 34])
+    })
+  })
+})
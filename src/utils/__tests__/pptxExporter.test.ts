@@ -0,0 +1,241 @@
+/**
+ * Unit tests for the PPTX exporter
+ */
+
+import { strFromU8, unzipSync } from 'fflate'
+import { createPptx, EMU_PER_PX } from '../pptxExporter'
+import {
+  createBlankPresentation,
+  type ImageElement,
+  type Presentation,
+  type ShapeElement,
+  type SlideElement,
+  type TextElement,
+} from '@/types/presentation'
+
+/** A 1x1 transparent PNG */
+const PNG_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+const base = { rotation: 0, opacity: 1, locked: false }
+
+const text: TextElement = {
+  ...base,
+  id: 'text-1',
+  type: 'text',
+  position: { x: 100, y: 50 },
+  dimensions: { width: 400, height: 80 },
+  zIndex: 2,
+  content: 'Hello & welcome\nSecond line',
+  fontSize: 24,
+  fontFamily: 'Georgia, serif',
+  fontWeight: 'bold',
+  fontStyle: 'normal',
+  textAlign: 'center',
+  color: '#ff0000',
+}
+
+const rectangle: ShapeElement = {
+  ...base,
+  id: 'shape-1',
+  type: 'shape',
+  position: { x: 0, y: 0 },
+  dimensions: { width: 200, height: 100 },
+  zIndex: 1,
+  shapeType: 'rectangle',
+  fillColor: '#3b82f6',
+  strokeColor: '#000000',
+  strokeWidth: 2,
+}
+
+const star: ShapeElement = {
+  ...rectangle,
+  id: 'shape-2',
+  zIndex: 3,
+  shapeType: 'star',
+}
+
+const image: ImageElement = {
+  ...base,
+  id: 'image-1',
+  type: 'image',
+  position: { x: 600, y: 100 },
+  dimensions: { width: 100, height: 100 },
+  zIndex: 4,
+  src: PNG_DATA_URL,
+  alt: 'Logo',
+  objectFit: 'fill',
+}
+
+/**
+ * Create a presentation whose first slide has one element of each tested kind,
+ * or the given elements
+ */
+function createTestPresentation(
+  elements: SlideElement[] = [image, star, text, rectangle]
+): Presentation {
+  const presentation = createBlankPresentation('p1', 'Quarterly Review')
+  const [slide] = presentation.slides
+  if (!slide) throw new Error('Blank presentation has no slide')
+  return {
+    ...presentation,
+    slides: [
+      {
+        ...slide,
+        elements,
+        background: { type: 'solid', color: '#101820' },
+        transition: { type: 'fade', duration: 500 },
+        notes: 'Remember the numbers',
+      },
+    ],
+  }
+}
+
+/**
+ * Build a presentation and read back the text parts of the package
+ */
+async function exportParts(
+  presentation: Presentation,
+  options: Parameters<typeof createPptx>[1] = {}
+): Promise<{ files: Record<string, Uint8Array>; read: (path: string) => string }> {
+  const { data } = await createPptx(presentation, options)
+  const files = unzipSync(data)
+  return {
+    files,
+    read: (path) => {
+      const file = files[path]
+      if (!file) throw new Error(`Missing part ${path}`)
+      return strFromU8(file)
+    },
+  }
+}
+
+describe('pptxExporter', () => {
+  it('should write the package parts PowerPoint needs', async () => {
+    const { files, read } = await exportParts(createTestPresentation())
+
+    expect(Object.keys(files)[0]).toBe('[Content_Types].xml')
+    expect(read('[Content_Types].xml')).toContain('PartName="/ppt/slides/slide1.xml"')
+    expect(read('ppt/presentation.xml')).toContain(
+      `<p:sldSz cx="${String(960 * EMU_PER_PX)}" cy="${String(540 * EMU_PER_PX)}"/>`
+    )
+    expect(read('docProps/core.xml')).toContain('<dc:title>Quarterly Review</dc:title>')
+  })
+
+  it('should write text as an editable text box', async () => {
+    const { read } = await exportParts(createTestPresentation())
+    const slide = read('ppt/slides/slide1.xml')
+
+    expect(slide).toContain('txBox="1"')
+    expect(slide).toContain('<a:t>Hello &amp; welcome</a:t>')
+    expect(slide).toContain('<a:t>Second line</a:t>')
+    expect(slide).toContain('algn="ctr"')
+    expect(slide).toMatch(/<a:rPr [^>]*sz="2400" b="1"/)
+    expect(slide).toContain('<a:latin typeface="Georgia"/>')
+    expect(slide).toContain('<a:srgbClr val="FF0000"/>')
+  })
+
+  it('should write only web and mail links as hyperlinks', async () => {
+    const linked: TextElement = {
+      ...text,
+      content: 'Site Script',
+      runs: [
+        { text: 'Site', link: 'https://example.com/' },
+        { text: ' Script', link: 'javascript:alert(1)' },
+      ],
+    }
+    const { read } = await exportParts(createTestPresentation([linked]))
+    const slide = read('ppt/slides/slide1.xml')
+    const rels = read('ppt/slides/_rels/slide1.xml.rels')
+
+    expect(slide.match(/<a:hlinkClick /g)).toHaveLength(1)
+    expect(rels).toContain('Target="https://example.com/" TargetMode="External"')
+    expect(rels).not.toContain('javascript:')
+  })
+
+  it('should write shapes as preset or custom geometry', async () => {
+    const { read } = await exportParts(createTestPresentation())
+    const slide = read('ppt/slides/slide1.xml')
+
+    expect(slide).toContain('<a:prstGeom prst="rect">')
+    expect(slide).toContain('<a:custGeom>')
+    expect(slide).toContain('<a:srgbClr val="3B82F6"/>')
+    expect(slide).toContain(`<a:ln w="${String(2 * EMU_PER_PX)}"`)
+  })
+
+  it('should write elements in stacking order', async () => {
+    const { read } = await exportParts(createTestPresentation())
+    const slide = read('ppt/slides/slide1.xml')
+
+    const order = ['<a:prstGeom prst="rect">', 'txBox="1"', '<a:custGeom>', '<p:pic>'].map(
+      (marker) => slide.indexOf(marker)
+    )
+    expect(order).toEqual([...order].sort((a, b) => a - b))
+  })
+
+  it('should embed images as pictures', async () => {
+    const { files, read } = await exportParts(createTestPresentation())
+    const slide = read('ppt/slides/slide1.xml')
+
+    expect(files['ppt/media/image1.png']).toBeDefined()
+    expect(slide).toContain('<p:pic>')
+    expect(slide).toContain('descr="Logo"')
+    expect(read('ppt/slides/_rels/slide1.xml.rels')).toContain('Target="../media/image1.png"')
+    expect(read('[Content_Types].xml')).toContain('Extension="png"')
+  })
+
+  it('should leave out images that cannot be loaded', async () => {
+    const presentation = createTestPresentation()
+    const [slide] = presentation.slides
+    if (!slide) throw new Error('Missing slide')
+    slide.elements = [{ ...image, src: 'data:text/plain,not-an-image' }]
+
+    const { data, skippedImageCount } = await createPptx(presentation)
+
+    expect(skippedImageCount).toBe(1)
+    expect(strFromU8(unzipSync(data)['ppt/slides/slide1.xml'] ?? new Uint8Array())).not.toContain(
+      '<p:pic>'
+    )
+  })
+
+  it('should write the slide background and transition', async () => {
+    const { read } = await exportParts(createTestPresentation())
+    const slide = read('ppt/slides/slide1.xml')
+
+    expect(slide).toContain(
+      '<p:bg><p:bgPr><a:solidFill><a:srgbClr val="101820"/></a:solidFill><a:effectLst/></p:bgPr></p:bg>'
+    )
+    expect(slide).toContain('<p:transition spd="fast" p14:dur="500"><p:fade/></p:transition>')
+  })
+
+  it('should write speaker notes as a notes slide', async () => {
+    const { read } = await exportParts(createTestPresentation())
+
+    expect(read('ppt/notesSlides/notesSlide1.xml')).toContain('<a:t>Remember the numbers</a:t>')
+    expect(read('ppt/slides/_rels/slide1.xml.rels')).toContain('notesSlide1.xml')
+    expect(read('ppt/presentation.xml')).toContain('<p:notesMasterIdLst>')
+  })
+
+  it('should leave out notes and transitions when disabled', async () => {
+    const { files, read } = await exportParts(createTestPresentation(), {
+      includeNotes: false,
+      includeTransitions: false,
+    })
+
+    expect(files['ppt/notesSlides/notesSlide1.xml']).toBeUndefined()
+    expect(read('ppt/slides/slide1.xml')).not.toContain('<p:transition')
+    expect(read('ppt/presentation.xml')).not.toContain('notesMaster')
+  })
+
+  it('should report progress per slide', async () => {
+    const presentation = createTestPresentation()
+    const [slide] = presentation.slides
+    if (!slide) throw new Error('Missing slide')
+    presentation.slides.push({ ...slide, id: 'slide-2' })
+    const onProgress = jest.fn()
+
+    await createPptx(presentation, { onProgress })
+
+    expect(onProgress.mock.calls).toEqual([[50], [100]])
+  })
+})
@@ -0,0 +1,264 @@
+/**
+ * Unit tests for the PPTX importer
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
+import { importPresentationFromPptx, parsePptx } from '../pptxImporter'
+import { createPptx } from '../pptxExporter'
+import {
+  createBlankPresentation,
+  type ChartElement,
+  type ImageElement,
+  type Presentation,
+  type ShapeElement,
+  type Slide,
+  type TextElement,
+} from '@/types/presentation'
+
+/** A 1x1 transparent PNG */
+const PNG_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+const base = { rotation: 0, opacity: 1, locked: false }
+
+const text: TextElement = {
+  ...base,
+  id: 'text-1',
+  type: 'text',
+  position: { x: 100, y: 50 },
+  dimensions: { width: 400, height: 80 },
+  zIndex: 0,
+  content: 'Hello world\nSecond line',
+  runs: [{ text: 'Hello ' }, { text: 'world', fontWeight: 'bold' }, { text: '\nSecond line' }],
+  fontSize: 24,
+  fontFamily: 'Georgia',
+  fontWeight: 'normal',
+  fontStyle: 'normal',
+  textAlign: 'center',
+  color: '#ff0000',
+  verticalAlign: 'top',
+}
+
+const rectangle: ShapeElement = {
+  ...base,
+  id: 'shape-1',
+  type: 'shape',
+  position: { x: 10, y: 20 },
+  dimensions: { width: 200, height: 100 },
+  zIndex: 1,
+  shapeType: 'rectangle',
+  fillColor: '#3b82f6',
+  strokeColor: '#000000',
+  strokeWidth: 2,
+}
+
+const image: ImageElement = {
+  ...base,
+  id: 'image-1',
+  type: 'image',
+  position: { x: 600, y: 100 },
+  dimensions: { width: 100, height: 100 },
+  zIndex: 2,
+  src: PNG_DATA_URL,
+  alt: 'Logo',
+  objectFit: 'fill',
+}
+
+const chart: ChartElement = {
+  ...base,
+  id: 'chart-1',
+  type: 'chart',
+  position: { x: 0, y: 300 },
+  dimensions: { width: 300, height: 200 },
+  zIndex: 3,
+  chartType: 'bar',
+  categories: ['Q1', 'Q2'],
+  series: [{ name: 'Sales', values: [1, 2] }],
+  showLegend: true,
+  textColor: '#000000',
+  fontFamily: 'Arial',
+  fontSize: 12,
+}
+
+/**
+ * Create a presentation with one slide holding the given elements
+ */
+function createTestPresentation(slide: Partial<Slide> = {}): Presentation {
+  const presentation = createBlankPresentation('p1', 'Quarterly Review')
+  const [first] = presentation.slides
+  if (!first) throw new Error('Blank presentation has no slide')
+  return {
+    ...presentation,
+    slides: [
+      {
+        ...first,
+        elements: [text, rectangle, image],
+        background: { type: 'solid', color: '#101820' },
+        transition: { type: 'fade', duration: 500 },
+        notes: 'Remember the numbers',
+        ...slide,
+      },
+    ],
+  }
+}
+
+/**
+ * Export a presentation and import it back, returning its first slide
+ */
+async function roundTrip(
+  presentation: Presentation
+): Promise<{ slide: Slide; result: ReturnType<typeof parsePptx> }> {
+  const { data } = await createPptx(presentation)
+  const result = parsePptx(data, 'deck.pptx')
+  const [slide] = result.presentation.slides
+  if (!slide) throw new Error('Imported presentation has no slide')
+  return { slide, result }
+}
+
+describe('pptxImporter', () => {
+  it('should import text boxes with their formatting', async () => {
+    const { slide } = await roundTrip(createTestPresentation())
+    const imported = slide.elements.find((el) => el.type === 'text')
+
+    expect(imported).toMatchObject({
+      content: 'Hello world\nSecond line',
+      runs: [{ text: 'Hello ' }, { text: 'world', fontWeight: 'bold' }, { text: '\nSecond line' }],
+      fontSize: 24,
+      fontFamily: 'Georgia',
+      textAlign: 'center',
+      color: '#ff0000',
+      verticalAlign: 'top',
+      position: { x: 100, y: 50 },
+      dimensions: { width: 400, height: 80 },
+    })
+  })
+
+  it('should keep only web and mail links', async () => {
+    const linked: TextElement = {
+      ...text,
+      content: 'Site Script',
+      runs: [
+        { text: 'Site', link: 'https://example.com/' },
+        { text: ' Script', link: 'javascript:alert(1)' },
+      ],
+    }
+    const { slide } = await roundTrip(createTestPresentation({ elements: [linked] }))
+    const imported = slide.elements.find((el) => el.type === 'text')
+    const links = imported?.runs?.map((run) => run.link)
+
+    expect(links).toEqual(['https://example.com/', undefined])
+  })
+
+  it('should import shapes with their fill and outline', async () => {
+    const { slide } = await roundTrip(
+      createTestPresentation({
+        elements: [rectangle, { ...rectangle, id: 'star', shapeType: 'star' }],
+      })
+    )
+
+    expect(slide.elements[0]).toMatchObject({
+      type: 'shape',
+      shapeType: 'rectangle',
+      fillColor: '#3b82f6',
+      strokeColor: '#000000',
+      strokeWidth: 2,
+      position: { x: 10, y: 20 },
+    })
+    // Shapes without a preset equivalent come back as freeform paths
+    expect(slide.elements[1]).toMatchObject({ type: 'shape', shapeType: 'path' })
+  })
+
+  it('should import pictures as embedded images', async () => {
+    const { slide } = await roundTrip(createTestPresentation())
+    const imported = slide.elements.find((el) => el.type === 'image')
+
+    expect(imported).toMatchObject({
+      src: expect.stringMatching(/^data:image\/png;base64,/) as string,
+      alt: 'Logo',
+      position: { x: 600, y: 100 },
+    })
+  })
+
+  it('should keep stacking order', async () => {
+    const { slide } = await roundTrip(createTestPresentation())
+
+    expect(slide.elements.map((el) => [el.type, el.zIndex])).toEqual([
+      ['text', 0],
+      ['shape', 1],
+      ['image', 2],
+    ])
+  })
+
+  it('should import the background, transition and notes', async () => {
+    const { slide } = await roundTrip(createTestPresentation())
+
+    expect(slide.background).toEqual({ type: 'solid', color: '#101820' })
+    expect(slide.transition).toEqual({ type: 'fade', duration: 500 })
+    expect(slide.notes).toBe('Remember the numbers')
+  })
+
+  it('should take the name and theme from the file', async () => {
+    const { result } = await roundTrip(createTestPresentation())
+
+    expect(result.presentation.name).toBe('Quarterly Review')
+    expect(result.presentation.theme.textColor).toBe('#1e293b')
+  })
+
+  it('should report content that was left out', async () => {
+    const { slide, result } = await roundTrip(
+      createTestPresentation({ elements: [chart, rectangle] })
+    )
+
+    expect(slide.elements).toHaveLength(1)
+    expect(result.unsupported).toEqual([{ feature: 'Charts', count: 1, slides: [1] }])
+  })
+
+  it('should place placeholders where their layout puts them', async () => {
+    const { data } = await createPptx(createTestPresentation({ elements: [] }))
+    const files = unzipSync(data)
+    const layoutPath = 'ppt/slideLayouts/slideLayout1.xml'
+    const slidePath = 'ppt/slides/slide1.xml'
+    const placeholder = (content: string) =>
+      `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Title"/><p:cNvSpPr/><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr>${content}</p:sp>`
+
+    // The layout positions the title; the slide only has its text
+    files[layoutPath] = strToU8(
+      strFromU8(files[layoutPath] ?? new Uint8Array()).replace(
+        '</p:spTree>',
+        placeholder(
+          '<p:spPr><a:xfrm><a:off x="127000" y="254000"/><a:ext cx="2540000" cy="1270000"/></a:xfrm></p:spPr>' +
+            '<p:txBody><a:bodyPr lIns="0" tIns="0" rIns="0" bIns="0"/><a:lstStyle/><a:p/></p:txBody>'
+        ) + '</p:spTree>'
+      )
+    )
+    files[slidePath] = strToU8(
+      strFromU8(files[slidePath] ?? new Uint8Array()).replace(
+        '</p:spTree>',
+        placeholder(
+          '<p:spPr/><p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:t>Agenda</a:t></a:r></a:p></p:txBody>'
+        ) + '</p:spTree>'
+      )
+    )
+
+    const { presentation } = parsePptx(zipSync(files))
+    const [slide] = presentation.slides
+
+    expect(slide?.title).toBe('Agenda')
+    expect(slide?.elements).toEqual([
+      expect.objectContaining({
+        type: 'text',
+        content: 'Agenda',
+        position: { x: 10, y: 20 },
+        dimensions: { width: 200, height: 100 },
+        fontSize: 44,
+      }),
+    ])
+  })
+
+  it('should fail for files that are not PowerPoint files', () => {
+    const result = importPresentationFromPptx(strToU8('not a zip'), 'notes.pptx')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toMatch(/^Failed to import PowerPoint file/)
+  })
+})
@@ -0,0 +1,222 @@
+/**
+ * Unit tests for persisting the stores through storage adapters
+ */
+
+import {
+  createAssetStorage,
+  createPresentationStorage,
+  mergePersistedPresentations,
+} from '../presentationPersistence'
+import { createLocalStorageAdapter, type StorageAdapter } from '../storageAdapters'
+import { STORAGE_KEYS } from '../localStorage'
+import { CURRENT_STORAGE_VERSION } from '../storageMigrations'
+import { createBlankPresentation } from '@/types/presentation'
+import type { Asset, Presentation } from '@/types/presentation'
+
+const ASSET: Asset = {
+  id: 'red',
+  mimeType: 'image/png',
+  dataUrl: 'data:image/png;base64,cmVk',
+  size: 26,
+  createdAt: '2024-01-01T00:00:00.000Z',
+}
+
+// Helper to create the storage of the presentation store over a fresh adapter
+function createTestStorage(adapter: StorageAdapter = createLocalStorageAdapter('test')) {
+  const onError = jest.fn()
+  const storage = createPresentationStorage({ getAdapter: () => Promise.resolve(adapter), onError })
+  return { adapter, storage, onError }
+}
+
+// Helper to build the persisted state of the presentation store
+function persisted(
+  presentations: Presentation[],
+  currentPresentationId: string | null,
+  unloadedPresentationIds: string[] = []
+) {
+  return { state: { presentations, currentPresentationId, unloadedPresentationIds }, version: 0 }
+}
+
+describe('presentationPersistence', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  describe('createPresentationStorage', () => {
+    it('should load only the slides of the current presentation', async () => {
+      const adapter = createLocalStorageAdapter('test')
+      const first = createBlankPresentation('p1', 'First')
+      const second = createBlankPresentation('p2', 'Second')
+      await adapter.savePresentation(first)
+      await adapter.savePresentation(second)
+      await adapter.saveCurrentPresentationId('p2')
+      await adapter.saveStorageVersion(CURRENT_STORAGE_VERSION)
+      const loadSlides = jest.spyOn(adapter, 'loadSlides')
+
+      const { storage } = createTestStorage(adapter)
+      const value = await storage.getItem('presentation-storage')
+
+      expect(loadSlides).toHaveBeenCalledTimes(1)
+      expect(value?.state.currentPresentationId).toBe('p2')
+      expect(value?.state.unloadedPresentationIds).toEqual(['p1'])
+      expect(value?.state.presentations.map((p) => p.slides.length)).toEqual([0, 1])
+      expect(await storage.loadSlides('p1')).toEqual(first.slides)
+    })
+
+    it('should ignore writes made before the stored state is loaded', async () => {
+      const { adapter, storage } = createTestStorage()
+      await adapter.savePresentation(createBlankPresentation('p1'))
+
+      await storage.setItem('presentation-storage', persisted([], null))
+      await storage.flush()
+
+      expect(await adapter.loadPresentations()).toHaveLength(1)
+    })
+
+    it('should write only the presentations that changed', async () => {
+      const { adapter, storage } = createTestStorage()
+      await storage.getItem('presentation-storage')
+      const save = jest.spyOn(adapter, 'savePresentation')
+      const first = createBlankPresentation('p1')
+      const second = createBlankPresentation('p2')
+
+      await storage.setItem('presentation-storage', persisted([first, second], 'p1'))
+      await storage.setItem('presentation-storage', persisted([first, { ...second, name: 'Renamed' }], 'p1'))
+      await storage.setItem('presentation-storage', persisted([second], null))
+      await storage.flush()
+
+      expect(save.mock.calls.map(([p]) => p.id)).toEqual(['p1', 'p2', 'p2', 'p2'])
+      expect((await adapter.loadPresentations()).map((p) => p.id)).toEqual(['p2'])
+      expect(await adapter.loadCurrentPresentationId()).toBeNull()
+    })
+
+    it('should keep the stored slides of presentations changed without loading them', async () => {
+      const adapter = createLocalStorageAdapter('test')
+      const presentation = createBlankPresentation('p1')
+      await adapter.savePresentation(presentation)
+
+      const { storage } = createTestStorage(adapter)
+      const value = await storage.getItem('presentation-storage')
+      const [listed] = value?.state.presentations ?? []
+      if (!listed) throw new Error('Presentation not listed')
+
+      await storage.setItem('presentation-storage', persisted([{ ...listed, name: 'Renamed' }], null, ['p1']))
+      await storage.flush()
+
+      expect(await adapter.loadSlides('p1')).toEqual(presentation.slides)
+      expect((await adapter.loadPresentations())[0]?.name).toBe('Renamed')
+    })
+
+    it('should upgrade presentations stored in an earlier format', async () => {
+      const adapter = createLocalStorageAdapter('test')
+      const presentation = createBlankPresentation('p1')
+      const [slide] = presentation.slides
+      if (!slide) throw new Error('Presentation has no slide')
+      await adapter.savePresentation({
+        ...presentation,
+        slides: [{ ...slide, transition: { type: 'fade', duration: 9000 } }],
+      })
+      await adapter.saveStorageVersion(1)
+      const onMigrate = jest.fn()
+      const storage = createPresentationStorage({ getAdapter: () => Promise.resolve(adapter), onMigrate })
+
+      await storage.getItem('presentation-storage')
+
+      expect((await adapter.loadSlides('p1'))[0]?.transition).toEqual({ type: 'fade', duration: 2000 })
+      expect(await adapter.loadStorageVersion()).toBe(CURRENT_STORAGE_VERSION)
+      expect(onMigrate).toHaveBeenCalledWith(expect.objectContaining({ fromVersion: 1 }))
+    })
+
+    it('should migrate presentations from the legacy storage key', async () => {
+      const presentation = createBlankPresentation('p1')
+      localStorage.setItem(
+        STORAGE_KEYS.PRESENTATIONS,
+        JSON.stringify({ state: { presentations: [presentation], currentPresentationId: 'p1' }, version: 1 })
+      )
+      const { adapter, storage } = createTestStorage()
+
+      const value = await storage.getItem('presentation-storage')
+
+      expect(value?.state.presentations).toEqual([presentation])
+      expect(localStorage.getItem(STORAGE_KEYS.PRESENTATIONS)).toBeNull()
+      expect(await adapter.loadSlides('p1')).toEqual(presentation.slides)
+      expect(await adapter.loadCurrentPresentationId()).toBe('p1')
+    })
+
+    it('should keep the legacy data and report an error when the migration fails', async () => {
+      const presentation = createBlankPresentation('p1')
+      const raw = JSON.stringify({ state: { presentations: [presentation], currentPresentationId: null } })
+      localStorage.setItem(STORAGE_KEYS.PRESENTATIONS, raw)
+      const adapter = createLocalStorageAdapter('test')
+      jest.spyOn(adapter, 'savePresentation').mockRejectedValueOnce(new Error('Disk full'))
+      const { storage, onError } = createTestStorage(adapter)
+
+      const value = await storage.getItem('presentation-storage')
+
+      expect(value?.state.presentations).toEqual([presentation])
+      expect(localStorage.getItem(STORAGE_KEYS.PRESENTATIONS)).toBe(raw)
+      expect(onError).toHaveBeenCalledWith('Disk full')
+      expect(storage.getLastError()).toBe('Disk full')
+
+      await storage.setItem('presentation-storage', persisted([presentation], null))
+      await storage.flush()
+
+      expect(storage.getLastError()).toBeNull()
+      expect(localStorage.getItem(STORAGE_KEYS.PRESENTATIONS)).toBeNull()
+      expect(await adapter.loadPresentations()).toHaveLength(1)
+    })
+  })
+
+  describe('mergePersistedPresentations', () => {
+    it('should keep presentations created while loading', () => {
+      const stored = persisted([createBlankPresentation('p1', 'Stored')], 'p1', ['p1']).state
+      const created = createBlankPresentation('p2', 'Created')
+      const current = {
+        presentations: [created],
+        currentPresentationId: 'p2',
+        unloadedPresentationIds: [],
+      }
+
+      expect(mergePersistedPresentations(stored, current)).toEqual({
+        presentations: [...stored.presentations, created],
+        currentPresentationId: 'p2',
+        unloadedPresentationIds: ['p1'],
+      })
+    })
+
+    it('should take the stored state when nothing changed while loading', () => {
+      const stored = persisted([createBlankPresentation('p1', 'Stored')], 'p1').state
+      const current = {
+        presentations: [],
+        currentPresentationId: null,
+        unloadedPresentationIds: [],
+      }
+
+      expect(mergePersistedPresentations(stored, current)).toEqual(stored)
+      expect(mergePersistedPresentations(undefined, current)).toBe(current)
+    })
+  })
+
+  describe('createAssetStorage', () => {
+    it('should migrate assets from the legacy storage key and write only new assets', async () => {
+      localStorage.setItem(
+        STORAGE_KEYS.ASSETS,
+        JSON.stringify({ state: { assets: { [ASSET.id]: ASSET } }, version: 0 })
+      )
+      const adapter = createLocalStorageAdapter('test')
+      const storage = createAssetStorage({ getAdapter: () => Promise.resolve(adapter) })
+
+      const value = await storage.getItem('presentation-assets')
+      expect(value?.state.assets).toEqual({ [ASSET.id]: ASSET })
+      expect(localStorage.getItem(STORAGE_KEYS.ASSETS)).toBeNull()
+
+      const save = jest.spyOn(adapter, 'saveAsset')
+      const blue = { ...ASSET, id: 'blue' }
+      await storage.setItem('presentation-assets', { state: { assets: { blue } }, version: 0 })
+      await storage.flush()
+
+      expect(save).toHaveBeenCalledTimes(1)
+      expect(await adapter.loadAssets()).toEqual([blue])
+    })
+  })
+})
@@ -0,0 +1,277 @@
+/**
+ * Unit tests for presentation schema validation
+ */
+
+import { formatValidationIssues, validatePresentation } from '../presentationSchema'
+import { importAllPresentationsFromJson } from '../localStorage'
+import { createConnectorElement } from '../connectorUtils'
+import { createChartElement } from '../chartUtils'
+import { createTableElement } from '../tableUtils'
+import { createBlankPresentation, DEFAULT_SLIDE_TRANSITION } from '@/types/presentation'
+import type { Presentation, SlideElement } from '@/types/presentation'
+
+// Helper to create a presentation with one element of every type
+function createTestPresentation(): Presentation {
+  const presentation = createBlankPresentation('p1', 'Deck')
+  const elements: SlideElement[] = [
+    {
+      id: 'text',
+      type: 'text',
+      position: { x: 0, y: 0 },
+      dimensions: { width: 200, height: 50 },
+      rotation: 0,
+      zIndex: 0,
+      opacity: 1,
+      locked: false,
+      content: 'Hello',
+      runs: [{ text: 'Hello', fontWeight: 'bold' }],
+      fontSize: 24,
+      fontFamily: 'Arial',
+      fontWeight: 'normal',
+      fontStyle: 'normal',
+      textAlign: 'left',
+      color: '#000000',
+    },
+    {
+      id: 'shape',
+      type: 'shape',
+      position: { x: 10, y: 10 },
+      dimensions: { width: 100, height: 100 },
+      rotation: 45,
+      zIndex: 1,
+      opacity: 0.5,
+      locked: false,
+      shapeType: 'star',
+      fillColor: '#ff0000',
+      strokeColor: '#000000',
+      strokeWidth: 2,
+      pointCount: 5,
+      shadow: { enabled: true, color: '#000000', opacity: 0.3, blur: 4, offsetX: 2, offsetY: 2 },
+    },
+    {
+      id: 'image',
+      type: 'image',
+      position: { x: 20, y: 20 },
+      dimensions: { width: 100, height: 100 },
+      rotation: 0,
+      zIndex: 2,
+      opacity: 1,
+      locked: false,
+      src: 'https://example.com/a.png',
+      alt: '',
+      objectFit: 'cover',
+      crop: { x: 0, y: 0, width: 0.5, height: 0.5 },
+    },
+    createTableElement('table', { x: 0, y: 200 }, 3),
+    createChartElement('chart', { x: 300, y: 200 }, 4),
+    createConnectorElement('connector', { position: { x: 0, y: 0 } }, { position: { x: 50, y: 50 } }, 5),
+  ]
+  return {
+    ...presentation,
+    slides: presentation.slides.map((slide) => ({ ...slide, elements })),
+  }
+}
+
+// Helper to replace the first slide's element at an index
+function withElement(index: number, element: unknown): unknown {
+  const presentation = createTestPresentation()
+  const [slide] = presentation.slides
+  if (!slide) throw new Error('Presentation has no slide')
+  const elements: unknown[] = [...slide.elements]
+  elements[index] = element
+  return { ...presentation, slides: [{ ...slide, elements }] }
+}
+
+describe('presentationSchema', () => {
+  describe('validatePresentation', () => {
+    it('should accept every element type', () => {
+      const presentation = createTestPresentation()
+      const result = validatePresentation(presentation)
+
+      expect(result.issues).toEqual([])
+      expect(result.presentation).toBe(presentation)
+    })
+
+    it('should reject values that are not presentations', () => {
+      expect(validatePresentation(null).presentation).toBeNull()
+      expect(validatePresentation({ id: 'p1', slides: [] }).issues).toEqual([
+        { path: 'name', message: 'Missing a string', action: 'dropped' },
+      ])
+    })
+
+    it('should report the path of each invalid value', () => {
+      const element = { ...createTestPresentation().slides[0]?.elements[0], fontSize: 'large', opacity: 3 }
+      const { presentation, issues } = validatePresentation(withElement(0, element), {
+        path: 'presentations[0]',
+      })
+
+      expect(presentation).toBeNull()
+      expect(issues.map((issue) => issue.path)).toEqual([
+        'presentations[0].slides[0].elements[0].opacity',
+        'presentations[0].slides[0].elements[0].fontSize',
+      ])
+    })
+
+    it('should report elements that cannot be repaired once', () => {
+      const element = { ...createTestPresentation().slides[0]?.elements[1], position: null, fillColor: 1 }
+      const { issues } = validatePresentation(withElement(1, element))
+
+      expect(issues).toEqual([
+        { path: 'slides[0].elements[1].position', message: 'Expected a position', action: 'dropped' },
+      ])
+    })
+
+    it('should check that table cells match the grid', () => {
+      const table = createTableElement('table', { x: 0, y: 0 }, 3, 2, 2)
+      const { issues } = validatePresentation(
+        withElement(3, { ...table, rowHeights: [1] })
+      )
+
+      expect(issues).toEqual([
+        {
+          path: 'slides[0].elements[3].cells',
+          message: 'Expected one row height per row',
+          action: 'dropped',
+        },
+      ])
+    })
+
+    it('should check that image crops are fractions of the image', () => {
+      const image = createTestPresentation().slides[0]?.elements[2]
+      const { issues } = validatePresentation(
+        withElement(2, { ...image, crop: { x: 5, y: 0, width: 40, height: 0.5 } })
+      )
+
+      expect(issues).toEqual([
+        { path: 'slides[0].elements[2].crop', message: 'Expected a crop rectangle', action: 'removed' },
+      ])
+    })
+
+    it('should check backgrounds and transitions', () => {
+      const presentation = createTestPresentation()
+      const [slide] = presentation.slides
+      if (!slide) throw new Error('Presentation has no slide')
+      const { issues } = validatePresentation({
+        ...presentation,
+        slides: [
+          { ...slide, background: { type: 'video' }, transition: { type: 'fade', duration: 5000 } },
+        ],
+      })
+
+      expect(issues.map((issue) => [issue.path, issue.action])).toEqual([
+        ['slides[0].background.type', 'reset'],
+        ['slides[0].transition.duration', 'reset'],
+      ])
+    })
+  })
+
+  describe('repairing', () => {
+    it('should reset, remove and drop invalid values', () => {
+      const presentation = createTestPresentation()
+      const [slide] = presentation.slides
+      if (!slide) throw new Error('Presentation has no slide')
+      const [text, shape] = slide.elements
+      const broken = {
+        ...presentation,
+        slides: [
+          {
+            ...slide,
+            transition: { type: 'spin', duration: 500 },
+            elements: [
+              { ...text, fontSize: -4, verticalAlign: 'sideways' },
+              { ...shape, position: 'top' },
+              { id: 'video', type: 'video', position: { x: 0, y: 0 }, dimensions: { width: 1, height: 1 } },
+            ],
+          },
+        ],
+      }
+
+      const { presentation: repaired, issues } = validatePresentation(broken, { repair: true })
+      const repairedSlide = repaired?.slides[0]
+
+      expect(issues.map((issue) => issue.action)).toEqual([
+        'reset',
+        'reset',
+        'removed',
+        'dropped',
+        'dropped',
+      ])
+      expect(repairedSlide?.transition).toEqual(DEFAULT_SLIDE_TRANSITION)
+      expect(repairedSlide?.elements).toHaveLength(1)
+      expect(repairedSlide?.elements[0]).toMatchObject({ id: 'text', fontSize: 24 })
+      expect(repairedSlide?.elements[0]).not.toHaveProperty('verticalAlign')
+      expect(validatePresentation(repaired).issues).toEqual([])
+    })
+
+    it('should remove links that are not web or mail links', () => {
+      const text = createTestPresentation().slides[0]?.elements[0]
+      const runs = [
+        { text: 'Site', link: 'example.com' },
+        { text: ' Script', fontWeight: 'bold', link: 'javascript:alert(1)' },
+      ]
+
+      const { presentation: repaired, issues } = validatePresentation(
+        withElement(0, { ...text, content: 'Site Script', runs }),
+        { repair: true }
+      )
+
+      expect(issues).toEqual([
+        {
+          path: 'slides[0].elements[0].runs[1].link',
+          message: 'Expected a web or mail link',
+          action: 'removed',
+        },
+      ])
+      expect(repaired?.slides[0]?.elements[0]).toMatchObject({
+        runs: [
+          { text: 'Site', link: 'example.com' },
+          { text: ' Script', fontWeight: 'bold' },
+        ],
+      })
+      expect(validatePresentation(repaired).issues).toEqual([])
+    })
+
+    it('should not repair presentations without an id', () => {
+      const { presentation } = validatePresentation({ name: 'Deck', slides: [] }, { repair: true })
+      expect(presentation).toBeNull()
+    })
+  })
+
+  describe('importing', () => {
+    const json = JSON.stringify({
+      version: 3,
+      presentations: [createTestPresentation(), withElement(0, { id: 'broken', type: 'text' })],
+    })
+
+    it('should reject imports with invalid content', () => {
+      const result = importAllPresentationsFromJson(json)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Found 2 problems in the imported presentations')
+      expect(result.issues?.map((issue) => issue.path)).toEqual([
+        'presentations[1].slides[0].elements[0].position',
+        'presentations[1].slides[0].elements[0].dimensions',
+      ])
+    })
+
+    it('should import repaired presentations when asked to', () => {
+      const result = importAllPresentationsFromJson(json, { repair: true })
+
+      expect(result.success).toBe(true)
+      expect(result.data).toHaveLength(2)
+      expect(result.data?.[1]?.slides[0]?.elements.map((element) => element.id)).not.toContain('broken')
+    })
+  })
+
+  describe('formatValidationIssues', () => {
+    it('should list the first issues and count the rest', () => {
+      const issues = ['a', 'b', 'c', 'd', 'e'].map((path) => ({
+        path,
+        message: 'Invalid',
+        action: 'removed' as const,
+      }))
+
+      expect(formatValidationIssues(issues)).toBe('a: Invalid; b: Invalid; c: Invalid; and 2 more')
+    })
+  })
+})
@@ -0,0 +1,212 @@
+/**
+ * Unit tests for rich text run utilities
+ */
+
+import {
+  getTextRuns,
+  runsToPlainText,
+  normalizeRuns,
+  applyFormatToRange,
+  getFormatInRange,
+  spliceRunsText,
+  trimRuns,
+  sliceRuns,
+  updateTextContent,
+  hasRunFormatting,
+  sanitizeLink,
+} from '../richText'
+import type { TextRun } from '@/types/presentation'
+
+const mixedRuns: TextRun[] = [
+  { text: 'Hello ' },
+  { text: 'bold', fontWeight: 'bold' },
+  { text: ' world', color: '#ff0000' },
+]
+
+describe('richText', () => {
+  describe('getTextRuns', () => {
+    it('should migrate plain content to a single run', () => {
+      expect(getTextRuns({ content: 'Plain text' })).toEqual([{ text: 'Plain text' }])
+    })
+
+    it('should return existing runs', () => {
+      expect(getTextRuns({ content: 'Hello bold world', runs: mixedRuns })).toBe(mixedRuns)
+    })
+
+    it('should treat an empty run list as plain content', () => {
+      expect(getTextRuns({ content: 'Text', runs: [] })).toEqual([{ text: 'Text' }])
+    })
+  })
+
+  describe('runsToPlainText', () => {
+    it('should concatenate run text', () => {
+      expect(runsToPlainText(mixedRuns)).toBe('Hello bold world')
+    })
+  })
+
+  describe('normalizeRuns', () => {
+    it('should merge adjacent runs with the same formatting', () => {
+      expect(
+        normalizeRuns([
+          { text: 'a', fontWeight: 'bold' },
+          { text: 'b', fontWeight: 'bold' },
+          { text: 'c' },
+        ])
+      ).toEqual([{ text: 'ab', fontWeight: 'bold' }, { text: 'c' }])
+    })
+
+    it('should drop empty runs', () => {
+      expect(normalizeRuns([{ text: '' }, { text: 'x', underline: true }])).toEqual([
+        { text: 'x', underline: true },
+      ])
+    })
+  })
+
+  describe('applyFormatToRange', () => {
+    it('should split runs at the range boundaries', () => {
+      const runs = applyFormatToRange([{ text: 'Hello world' }], 6, 11, { fontStyle: 'italic' })
+      expect(runs).toEqual([{ text: 'Hello ' }, { text: 'world', fontStyle: 'italic' }])
+    })
+
+    it('should apply across several runs', () => {
+      const runs = applyFormatToRange(mixedRuns, 3, 13, { underline: true })
+      expect(runsToPlainText(runs)).toBe('Hello bold world')
+      expect(runs).toEqual([
+        { text: 'Hel' },
+        { text: 'lo ', underline: true },
+        { text: 'bold', fontWeight: 'bold', underline: true },
+        { text: ' wo', color: '#ff0000', underline: true },
+        { text: 'rld', color: '#ff0000' },
+      ])
+    })
+
+    it('should remove overrides patched with null', () => {
+      const runs = applyFormatToRange(mixedRuns, 6, 10, { fontWeight: null })
+      expect(runs).toEqual([{ text: 'Hello bold' }, { text: ' world', color: '#ff0000' }])
+    })
+
+    it('should leave runs unchanged for an empty range', () => {
+      expect(applyFormatToRange(mixedRuns, 4, 4, { underline: true })).toBe(mixedRuns)
+    })
+  })
+
+  describe('getFormatInRange', () => {
+    it('should return formatting shared by the whole range', () => {
+      expect(getFormatInRange(mixedRuns, 6, 10)).toEqual({ fontWeight: 'bold' })
+      expect(getFormatInRange(mixedRuns, 6, 12)).toEqual({})
+    })
+
+    it('should return the inherited formatting at a caret', () => {
+      expect(getFormatInRange(mixedRuns, 10, 10)).toEqual({ fontWeight: 'bold' })
+      expect(getFormatInRange(mixedRuns, 0, 0)).toEqual({})
+    })
+  })
+
+  describe('spliceRunsText', () => {
+    it('should give inserted text the formatting of the preceding character', () => {
+      const runs = spliceRunsText(mixedRuns, 'Hello bold world', 'Hello bolder world')
+      expect(runs).toEqual([
+        { text: 'Hello ' },
+        { text: 'bolder', fontWeight: 'bold' },
+        { text: ' world', color: '#ff0000' },
+      ])
+    })
+
+    it('should remove deleted text from the right runs', () => {
+      const runs = spliceRunsText(mixedRuns, 'Hello bold world', 'Hello world')
+      expect(runs).toEqual([{ text: 'Hello ' }, { text: 'world', color: '#ff0000' }])
+    })
+
+    it('should replace a selection spanning runs', () => {
+      const runs = spliceRunsText(mixedRuns, 'Hello bold world', 'Hello X')
+      expect(runs).toEqual([{ text: 'Hello X' }])
+    })
+
+    it('should apply the insert format to new text', () => {
+      const runs = spliceRunsText([{ text: 'ab' }], 'ab', 'aXb', { fontWeight: 'bold' })
+      expect(runs).toEqual([{ text: 'a' }, { text: 'X', fontWeight: 'bold' }, { text: 'b' }])
+    })
+
+    it('should preserve formatting of untouched text', () => {
+      const runs = spliceRunsText(mixedRuns, 'Hello bold world', 'Oh, Hello bold world')
+      expect(runsToPlainText(runs)).toBe('Oh, Hello bold world')
+      expect(runs.slice(1)).toEqual(mixedRuns.slice(1))
+    })
+  })
+
+  describe('sliceRuns', () => {
+    it('should return the runs covering a range', () => {
+      expect(sliceRuns(mixedRuns, 4, 8)).toEqual([
+        { text: 'o ' },
+        { text: 'bo', fontWeight: 'bold' },
+      ])
+    })
+  })
+
+  describe('trimRuns', () => {
+    it('should trim whitespace across runs', () => {
+      expect(trimRuns([{ text: '  ' }, { text: ' hi ', underline: true }, { text: ' ' }])).toEqual([
+        { text: 'hi', underline: true },
+      ])
+    })
+
+    it('should return no runs for blank text', () => {
+      expect(trimRuns([{ text: '   ' }])).toEqual([])
+    })
+  })
+
+  describe('updateTextContent', () => {
+    it('should only update content for plain elements', () => {
+      expect(updateTextContent({ content: 'Old' }, 'New')).toEqual({ content: 'New' })
+    })
+
+    it('should keep runs in sync for formatted elements', () => {
+      const update = updateTextContent(
+        { content: 'Hello bold world', runs: mixedRuns },
+        'Hello bold world!'
+      )
+      expect(update.content).toBe('Hello bold world!')
+      expect(update.runs?.[2]).toEqual({ text: ' world!', color: '#ff0000' })
+    })
+
+    it('should keep paragraph formatting in sync', () => {
+      const update = updateTextContent(
+        { content: 'one', paragraphs: [{ listType: 'bullet', indentLevel: 0 }] },
+        'one\ntwo'
+      )
+      expect(update.paragraphs).toEqual([
+        { listType: 'bullet', indentLevel: 0 },
+        { listType: 'bullet', indentLevel: 0 },
+      ])
+      expect(update.runs).toBeUndefined()
+    })
+  })
+
+  describe('hasRunFormatting', () => {
+    it('should detect formatted runs', () => {
+      expect(hasRunFormatting(mixedRuns)).toBe(true)
+      expect(hasRunFormatting([{ text: 'plain' }])).toBe(false)
+    })
+  })
+
+  describe('sanitizeLink', () => {
+    it('should keep web and mail links', () => {
+      expect(sanitizeLink(' https://example.com/a?b=1 ')).toBe('https://example.com/a?b=1')
+      expect(sanitizeLink('http://example.com')).toBe('http://example.com')
+      expect(sanitizeLink('mailto:team@example.com')).toBe('mailto:team@example.com')
+    })
+
+    it('should take links without a scheme as https links', () => {
+      expect(sanitizeLink('example.com/pricing')).toBe('https://example.com/pricing')
+    })
+
+    it('should drop links with other schemes', () => {
+      expect(sanitizeLink('javascript:alert(1)')).toBeNull()
+      expect(sanitizeLink('JavaScript:alert(1)')).toBeNull()
+      expect(sanitizeLink('java\tscript:alert(1)')).toBeNull()
+      expect(sanitizeLink('data:text/html,<script>alert(1)</script>')).toBeNull()
+      expect(sanitizeLink('file:///etc/passwd')).toBeNull()
+      expect(sanitizeLink('  ')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Unit tests for shape geometry utilities
+ */
+
+import {
+  parsePathData,
+  serializePathData,
+  getShapeOutline,
+  flattenPath,
+  isClosedPath,
+  isPointInShape,
+  simplifyPoints,
+  createFreeformShape,
+} from '../shapeGeometry'
+import type { ShapeElement, ShapeType } from '@/types/presentation'
+
+// Helper to create test shapes
+function createTestShape(shapeType: ShapeType, overrides: Partial<ShapeElement> = {}): ShapeElement {
+  return {
+    id: 'shape',
+    type: 'shape',
+    position: { x: 0, y: 0 },
+    dimensions: { width: 100, height: 50 },
+    rotation: 0,
+    zIndex: 0,
+    opacity: 1,
+    locked: false,
+    shapeType,
+    fillColor: '#f97316',
+    strokeColor: '#ea580c',
+    strokeWidth: 2,
+    ...overrides,
+  }
+}
+
+describe('shapeGeometry', () => {
+  describe('parsePathData', () => {
+    it('should round-trip absolute path data', () => {
+      const d = 'M 0 0 L 10 0 Q 20 0 20 10 C 20 20 10 30 0 20 Z'
+      expect(serializePathData(parsePathData(d))).toBe(d)
+    })
+
+    it('should convert relative and axis commands to absolute ones', () => {
+      expect(parsePathData('m10,10 h5 v5 l-5,0 z')).toEqual([
+        { type: 'M', x: 10, y: 10 },
+        { type: 'L', x: 15, y: 10 },
+        { type: 'L', x: 15, y: 15 },
+        { type: 'L', x: 10, y: 15 },
+        { type: 'Z' },
+      ])
+    })
+  })
+
+  describe('getShapeOutline', () => {
+    it('should alternate outer and inner points for stars', () => {
+      const outline = getShapeOutline(createTestShape('star', { pointCount: 6 }))
+      expect(outline.filter((c) => c.type !== 'Z')).toHaveLength(12)
+      expect(isClosedPath(outline)).toBe(true)
+    })
+
+    it('should point arrows in their direction', () => {
+      const right = flattenPath(getShapeOutline(createTestShape('arrow')))[0]?.points ?? []
+      expect(right).toContainEqual({ x: 100, y: 25 })
+
+      const up = flattenPath(
+        getShapeOutline(createTestShape('arrow', { direction: 'up', dimensions: { width: 50, height: 100 } }))
+      )[0]?.points ?? []
+      expect(up).toContainEqual({ x: 25, y: 0 })
+    })
+
+    it('should scale freeform paths from their view box', () => {
+      const outline = getShapeOutline(
+        createTestShape('path', {
+          position: { x: 10, y: 20 },
+          dimensions: { width: 200, height: 100 },
+          pathData: 'M 0 0 L 100 50',
+          pathViewBox: { width: 100, height: 50 },
+        })
+      )
+      expect(outline).toEqual([
+        { type: 'M', x: 10, y: 20 },
+        { type: 'L', x: 210, y: 120 },
+      ])
+    })
+  })
+
+  describe('isPointInShape', () => {
+    it('should exclude the corners of an ellipse', () => {
+      const shape = createTestShape('ellipse')
+      expect(isPointInShape(shape, { x: 50, y: 25 })).toBe(true)
+      expect(isPointInShape(shape, { x: 3, y: 3 })).toBe(false)
+    })
+
+    it('should hit open lines within the tolerance', () => {
+      const shape = createTestShape('line')
+      expect(isPointInShape(shape, { x: 50, y: 28 }, 4)).toBe(true)
+      expect(isPointInShape(shape, { x: 50, y: 40 }, 4)).toBe(false)
+    })
+  })
+
+  describe('simplifyPoints', () => {
+    it('should drop points close to the simplified line', () => {
+      const points = [
+        { x: 0, y: 0 },
+        { x: 5, y: 0.5 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+      ]
+      expect(simplifyPoints(points, 1)).toEqual([
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+      ])
+    })
+  })
+
+  describe('createFreeformShape', () => {
+    it('should close strokes that end near their start', () => {
+      const shape = createFreeformShape(
+        'pen',
+        [
+          { x: 100, y: 100 },
+          { x: 200, y: 100 },
+          { x: 200, y: 200 },
+          { x: 104, y: 103 },
+        ],
+        3
+      )
+      expect(shape?.shapeType).toBe('path')
+      expect(shape?.position).toEqual({ x: 100, y: 100 })
+      expect(shape?.pathViewBox).toEqual({ width: 100, height: 100 })
+      expect(isClosedPath(parsePathData(shape?.pathData ?? ''))).toBe(true)
+    })
+
+    it('should keep other strokes open', () => {
+      const shape = createFreeformShape(
+        'pen',
+        [
+          { x: 0, y: 0 },
+          { x: 50, y: 40 },
+          { x: 100, y: 0 },
+        ],
+        0
+      )
+      expect(isClosedPath(parsePathData(shape?.pathData ?? ''))).toBe(false)
+    })
+
+    it('should ignore strokes that are too small', () => {
+      expect(
+        createFreeformShape(
+          'pen',
+          [
+            { x: 0, y: 0 },
+            { x: 2, y: 2 },
+          ],
+          0
+        )
+      ).toBeNull()
+    })
+  })
+})
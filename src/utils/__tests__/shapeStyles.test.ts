@@ -0,0 +1,139 @@
+/**
+ * Unit tests for shape style utilities
+ */
+
+import {
+  getShapeGradientStops,
+  getBackgroundGradientStops,
+  getLinearGradientLine,
+  getRadialGradientCircle,
+  getGradientColorAt,
+  addGradientStop,
+  updateGradientStop,
+  removeGradientStop,
+  getShapeLineCap,
+  getShapeLineJoin,
+  getStrokeDashPattern,
+  getShadowColor,
+  DEFAULT_SHAPE_SHADOW,
+} from '../shapeStyles'
+import { themeColorRef } from '../themeUtils'
+import { DEFAULT_THEME } from '@/types/presentation'
+import type { GradientStop } from '@/types/presentation'
+
+const stops: GradientStop[] = [
+  { offset: 1, color: '#ffffff' },
+  { offset: 0, color: '#000000' },
+]
+
+describe('shapeStyles', () => {
+  describe('getShapeGradientStops', () => {
+    it('should sort the stored stops', () => {
+      expect(getShapeGradientStops({ fillColor: '#f97316', gradientStops: stops })).toEqual([
+        { offset: 0, color: '#000000' },
+        { offset: 1, color: '#ffffff' },
+      ])
+    })
+
+    it('should fade from the fill color to white by default', () => {
+      expect(getShapeGradientStops({ fillColor: '#f97316' })).toEqual([
+        { offset: 0, color: '#f97316' },
+        { offset: 1, color: '#ffffff' },
+      ])
+    })
+  })
+
+  describe('getBackgroundGradientStops', () => {
+    it('should use the start and end colors of the background', () => {
+      expect(
+        getBackgroundGradientStops({ type: 'gradient', gradientStart: '#111111', gradientEnd: '#222222' })
+      ).toEqual([
+        { offset: 0, color: '#111111' },
+        { offset: 1, color: '#222222' },
+      ])
+    })
+  })
+
+  describe('gradient geometry', () => {
+    const bounds = { x: 10, y: 20, width: 100, height: 50 }
+
+    it('should run linear gradients across the box in their direction', () => {
+      expect(getLinearGradientLine('horizontal', bounds)).toEqual({
+        start: { x: 10, y: 20 },
+        end: { x: 110, y: 20 },
+      })
+      expect(getLinearGradientLine('diagonal', bounds).end).toEqual({ x: 110, y: 70 })
+    })
+
+    it('should center radial gradients and reach the corners', () => {
+      const { center, radius } = getRadialGradientCircle(bounds)
+      expect(center).toEqual({ x: 60, y: 45 })
+      expect(radius).toBeCloseTo(Math.hypot(50, 25))
+    })
+  })
+
+  describe('gradient stop editing', () => {
+    it('should blend the surrounding stops', () => {
+      expect(getGradientColorAt(stops, 0.5, DEFAULT_THEME)).toBe('#808080')
+    })
+
+    it('should resolve theme colors when blending', () => {
+      const themed = [
+        { offset: 0, color: themeColorRef('primary') },
+        { offset: 1, color: themeColorRef('primary') },
+      ]
+      expect(getGradientColorAt(themed, 0.3, DEFAULT_THEME)).toBe(
+        DEFAULT_THEME.primaryColor.toLowerCase()
+      )
+    })
+
+    it('should add a stop in the widest gap', () => {
+      const result = addGradientStop(
+        [
+          { offset: 0, color: '#000000' },
+          { offset: 0.2, color: '#000000' },
+          { offset: 1, color: '#ffffff' },
+        ],
+        DEFAULT_THEME
+      )
+      expect(result).toHaveLength(4)
+      expect(result[2]?.offset).toBeCloseTo(0.6)
+    })
+
+    it('should clamp offsets and keep the order of the stops', () => {
+      const result = updateGradientStop(stops, 1, { offset: 1.5 })
+      expect(result.map((stop) => stop.offset)).toEqual([1, 1])
+    })
+
+    it('should keep at least two stops', () => {
+      expect(removeGradientStop(stops, 0)).toBe(stops)
+      const three = addGradientStop(stops, DEFAULT_THEME)
+      expect(removeGradientStop(three, 1)).toHaveLength(2)
+    })
+  })
+
+  describe('stroke styles', () => {
+    it('should default to flat caps and miter joins for basic shapes only', () => {
+      expect(getShapeLineCap({ shapeType: 'rectangle' })).toBe('butt')
+      expect(getShapeLineJoin({ shapeType: 'rectangle' })).toBe('miter')
+      expect(getShapeLineCap({ shapeType: 'star' })).toBe('round')
+      expect(getShapeLineJoin({ shapeType: 'path', strokeLineJoin: 'bevel' })).toBe('bevel')
+    })
+
+    it('should scale dash patterns with the stroke width', () => {
+      expect(getStrokeDashPattern('solid', 2)).toEqual([])
+      expect(getStrokeDashPattern('dash', 2)).toEqual([8, 6])
+      expect(getStrokeDashPattern('dashDot', 1)).toEqual([4, 3, 1, 3])
+    })
+
+    it('should make room for round caps', () => {
+      expect(getStrokeDashPattern('dot', 4, 'round')).toEqual([0, 8])
+    })
+  })
+
+  describe('getShadowColor', () => {
+    it('should apply the opacity to the color', () => {
+      expect(getShadowColor(DEFAULT_SHAPE_SHADOW, DEFAULT_THEME)).toBe('rgba(0, 0, 0, 0.35)')
+    })
+  })
+})
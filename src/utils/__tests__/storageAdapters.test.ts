@@ -0,0 +1,130 @@
+/**
+ * Unit tests for storage adapters
+ */
+
+import {
+  createLocalStorageAdapter,
+  getStorageAdapter,
+  getStorageInfo,
+  type StorageAdapter,
+} from '../storageAdapters'
+import { createBlankPresentation } from '@/types/presentation'
+import type { Asset } from '@/types/presentation'
+
+const ASSET: Asset = {
+  id: 'red',
+  mimeType: 'image/png',
+  dataUrl: 'data:image/png;base64,cmVk',
+  size: 26,
+  createdAt: '2024-01-01T00:00:00.000Z',
+}
+
+describe('storageAdapters', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  describe('localStorage adapter', () => {
+    it('should store presentations and their slides as separate records', async () => {
+      const adapter = createLocalStorageAdapter('test')
+      const presentation = createBlankPresentation('p1', 'First')
+
+      await adapter.savePresentation(presentation)
+
+      const { slides, ...summary } = presentation
+      expect(await adapter.loadPresentations()).toEqual([summary])
+      expect(await adapter.loadSlides('p1')).toEqual(slides)
+      expect(localStorage.getItem('test:slides:p1')).not.toBeNull()
+    })
+
+    it('should keep the order of presentations when one is saved again', async () => {
+      const adapter = createLocalStorageAdapter('test')
+      await adapter.savePresentation(createBlankPresentation('p1', 'First'))
+      await adapter.savePresentation(createBlankPresentation('p2', 'Second'))
+      await adapter.savePresentation(createBlankPresentation('p1', 'Renamed'))
+
+      const names = (await adapter.loadPresentations()).map((p) => p.name)
+      expect(names).toEqual(['Renamed', 'Second'])
+    })
+
+    it('should delete presentations with their slides', async () => {
+      const adapter = createLocalStorageAdapter('test')
+      await adapter.savePresentation(createBlankPresentation('p1'))
+      await adapter.deletePresentation('p1')
+
+      expect(await adapter.loadPresentations()).toEqual([])
+      expect(await adapter.loadSlides('p1')).toEqual([])
+    })
+
+    it('should round-trip the current presentation id and assets', async () => {
+      const adapter = createLocalStorageAdapter('test')
+      await adapter.saveCurrentPresentationId('p1')
+      await adapter.saveAsset(ASSET)
+
+      expect(await adapter.loadCurrentPresentationId()).toBe('p1')
+      expect(await adapter.loadAssets()).toEqual([ASSET])
+
+      await adapter.deleteAsset(ASSET.id)
+      expect(await adapter.loadAssets()).toEqual([])
+    })
+
+    it('should clear only its own records', async () => {
+      localStorage.setItem('other', 'kept')
+      const adapter = createLocalStorageAdapter('test')
+      await adapter.savePresentation(createBlankPresentation('p1'))
+      await adapter.clear()
+
+      expect(await adapter.loadPresentations()).toEqual([])
+      expect(localStorage.getItem('other')).toBe('kept')
+    })
+
+    it('should reject writes that exceed the quota', async () => {
+      const adapter = createLocalStorageAdapter('test')
+      jest.spyOn(Storage.prototype, 'setItem').mockImplementationOnce(() => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError')
+      })
+
+      await expect(adapter.savePresentation(createBlankPresentation('p1'))).rejects.toThrow()
+    })
+  })
+
+  describe('getStorageAdapter', () => {
+    it('should fall back to localStorage when IndexedDB is unavailable', async () => {
+      expect((await getStorageAdapter()).name).toBe('localStorage')
+    })
+  })
+
+  describe('getStorageInfo', () => {
+    const originalStorage = navigator.storage
+
+    afterEach(() => {
+      Object.defineProperty(navigator, 'storage', { value: originalStorage, configurable: true })
+    })
+
+    it('should measure the content of localStorage in bytes', async () => {
+      const adapter = createLocalStorageAdapter('test')
+      await adapter.savePresentation(createBlankPresentation('p1', 'Stored'))
+
+      const info = await getStorageInfo(() => Promise.resolve(adapter))
+
+      expect(info.backend).toBe('localStorage')
+      expect(info.used).toBeGreaterThan(0)
+      expect(info.used + info.available).toBe(info.total)
+    })
+
+    it('should report the estimate of the site for IndexedDB', async () => {
+      Object.defineProperty(navigator, 'storage', {
+        value: { estimate: () => Promise.resolve({ usage: 2_000_000, quota: 50_000_000 }) },
+        configurable: true,
+      })
+      const adapter = { name: 'indexedDB' } as StorageAdapter
+
+      expect(await getStorageInfo(() => Promise.resolve(adapter))).toEqual({
+        backend: 'indexedDB',
+        used: 2_000_000,
+        available: 48_000_000,
+        total: 50_000_000,
+      })
+    })
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for storage schema migrations.
+ * Each fixture holds the same presentation as saved by one storage version; every
+ * fixture must migrate to the one saved by the current version.
+ */
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import {
+  CURRENT_STORAGE_VERSION,
+  STORAGE_MIGRATIONS,
+  describeMigration,
+  getStorageVersion,
+  migratePresentations,
+} from '../storageMigrations'
+import {
+  STORAGE_KEYS,
+  importAllPresentationsFromJson,
+  importPresentationFromJson,
+  loadFromLocalStorage,
+} from '../localStorage'
+import { createBlankPresentation } from '@/types/presentation'
+
+// Helper to read the raw fixture saved by a storage version
+function readFixture(version: number): string {
+  return readFileSync(join(__dirname, 'fixtures', 'storage', `v${String(version)}.json`), 'utf8')
+}
+
+// Helper to read the presentations of a fixture
+function readFixturePresentations(version: number): unknown[] {
+  const parsed = JSON.parse(readFixture(version)) as {
+    presentations?: unknown[]
+    state?: { presentations: unknown[] }
+  }
+  return parsed.presentations ?? parsed.state?.presentations ?? []
+}
+
+const VERSIONS = Array.from({ length: CURRENT_STORAGE_VERSION + 1 }, (_, version) => version)
+const current = readFixturePresentations(CURRENT_STORAGE_VERSION)
+
+describe('storageMigrations', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should register one migration per version, in order', () => {
+    expect(STORAGE_MIGRATIONS.map((migration) => migration.version)).toEqual(VERSIONS.slice(1))
+  })
+
+  describe.each(VERSIONS)('fixture of version %i', (version) => {
+    it('should migrate to the current format', () => {
+      const { presentations, report } = migratePresentations(readFixturePresentations(version), version)
+
+      expect(presentations).toEqual(current)
+      expect(report.fromVersion).toBe(version)
+      expect(report.toVersion).toBe(CURRENT_STORAGE_VERSION)
+      expect(report.applied.map((migration) => migration.version)).toEqual(VERSIONS.slice(version + 1))
+    })
+
+    it('should not change when migrated again', () => {
+      const { presentations: migrated } = migratePresentations(readFixturePresentations(version), version)
+
+      expect(migratePresentations(migrated, version).report.applied).toEqual([])
+    })
+  })
+
+  describe('migrations', () => {
+    it('should fill in missing slide and element fields', () => {
+      const [presentation] = migratePresentations(readFixturePresentations(0), 0).presentations
+      const [slide] = presentation?.slides ?? []
+
+      expect(presentation?.description).toBe('')
+      expect(slide?.notes).toBe('')
+      expect(slide?.elements.map((element) => element.zIndex)).toEqual([0, 1])
+      expect(slide?.elements[0]).toMatchObject({ rotation: 0, opacity: 1, locked: false })
+    })
+
+    it('should replace unknown transitions and clamp durations', () => {
+      const [presentation] = migratePresentations(readFixturePresentations(1), 1).presentations
+
+      expect(presentation?.slides.map((slide) => slide.transition)).toEqual([
+        { type: 'fade', duration: 400 },
+        { type: 'none', duration: 2000 },
+      ])
+    })
+
+    it('should sync text content with its runs and paragraphs', () => {
+      const [presentation] = migratePresentations(readFixturePresentations(2), 2).presentations
+      const element = presentation?.slides[0]?.elements[0]
+
+      expect(element).toMatchObject({
+        content: 'Quarterly Review 2024',
+        paragraphs: [{ listType: 'none', indentLevel: 0 }],
+      })
+    })
+
+    it('should leave documents from a newer version as they are', () => {
+      const presentations = readFixturePresentations(CURRENT_STORAGE_VERSION)
+      const { presentations: migrated, report } = migratePresentations(
+        presentations,
+        CURRENT_STORAGE_VERSION + 1
+      )
+
+      expect(migrated).toEqual(presentations)
+      expect(report.applied).toEqual([])
+    })
+  })
+
+  describe('getStorageVersion', () => {
+    it('should treat documents without a valid version as version 0', () => {
+      expect(getStorageVersion(2)).toBe(2)
+      expect(getStorageVersion(undefined)).toBe(0)
+      expect(getStorageVersion('1')).toBe(0)
+    })
+  })
+
+  describe('describeMigration', () => {
+    it('should describe the applied migrations', () => {
+      const { report } = migratePresentations(readFixturePresentations(1), 1)
+
+      expect(describeMigration(report)).toBe(
+        'Upgraded from format version 1: normalized slide transitions, synced text content with its formatting.'
+      )
+      expect(describeMigration({ ...report, applied: [] })).toBeNull()
+    })
+  })
+
+  describe('loading and importing', () => {
+    it('should migrate presentations loaded from localStorage', () => {
+      localStorage.setItem(STORAGE_KEYS.PRESENTATIONS, readFixture(0))
+
+      const result = loadFromLocalStorage()
+
+      expect(result.data?.presentations).toEqual(current)
+      expect(result.migration?.fromVersion).toBe(0)
+    })
+
+    it.each(VERSIONS.slice(1))('should migrate imported exports of version %i', (version) => {
+      const result = importAllPresentationsFromJson(readFixture(version))
+
+      expect(result.data).toEqual(current)
+      expect(result.migration?.fromVersion).toBe(version)
+    })
+
+    it('should import presentations exported by the current version unchanged', () => {
+      const presentation = createBlankPresentation('p1')
+
+      const result = importPresentationFromJson(JSON.stringify(presentation))
+
+      expect(result.data).toEqual(presentation)
+      expect(result.migration?.applied).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,248 @@
+/**
+ * Unit tests for table utilities
+ */
+
+import {
+  createTableElement,
+  getRowCount,
+  getColumnCount,
+  getCellAnchor,
+  isCovered,
+  getCellRects,
+  getCellAtPoint,
+  getCellRange,
+  getCellRangeRect,
+  setCellContent,
+  insertRow,
+  deleteRow,
+  insertColumn,
+  deleteColumn,
+  canMergeCells,
+  mergeCells,
+  unmergeCell,
+  isMergedCell,
+  getCellTextElement,
+  TABLE_CELL_PADDING,
+} from '../tableUtils'
+import type { TableElement } from '@/types/presentation'
+
+/**
+ * Create a 3x3 table whose cells contain their grid position, e.g. "1,2"
+ */
+function createTestTable(overrides: Partial<TableElement> = {}): TableElement {
+  const table = createTableElement('table-1', { x: 100, y: 50 }, 0)
+  return {
+    ...table,
+    dimensions: { width: 300, height: 150 },
+    cells: table.cells.map((row, r) =>
+      row.map((_, c) => ({ content: `${String(r)},${String(c)}` }))
+    ),
+    ...overrides,
+  }
+}
+
+/**
+ * Create a 3x3 test table with the top-left 2x2 block merged
+ */
+function createMergedTable(): TableElement {
+  const table = createTestTable()
+  return { ...table, ...mergeCells(table, { top: 0, left: 0, bottom: 1, right: 1 }) }
+}
+
+describe('tableUtils', () => {
+  describe('createTableElement', () => {
+    it('should create an empty grid with equal rows and columns', () => {
+      const table = createTableElement('t', { x: 0, y: 0 }, 2, 2, 4)
+      expect(getRowCount(table)).toBe(2)
+      expect(getColumnCount(table)).toBe(4)
+      expect(table.columnWidths).toEqual([0.25, 0.25, 0.25, 0.25])
+      expect(table.rowHeights).toEqual([0.5, 0.5])
+      expect(table.dimensions).toEqual({ width: 480, height: 80 })
+      expect(table.zIndex).toBe(2)
+      expect(table.headerRow).toBe(true)
+    })
+  })
+
+  describe('getCellRects', () => {
+    it('should place cells by their relative sizes', () => {
+      const table = createTestTable({ columnWidths: [0.5, 0.25, 0.25] })
+      const rects = getCellRects(table)
+      expect(rects).toHaveLength(9)
+      expect(rects[1]).toMatchObject({ row: 0, col: 1, x: 150, y: 0, width: 75, height: 50 })
+      expect(rects[5]).toMatchObject({ row: 1, col: 2, x: 225, y: 50 })
+    })
+
+    it('should skip covered cells and size merged cells by their spans', () => {
+      const rects = getCellRects(createMergedTable())
+      expect(rects).toHaveLength(6)
+      expect(rects[0]).toMatchObject({ row: 0, col: 0, rowSpan: 2, colSpan: 2, width: 200, height: 100 })
+    })
+  })
+
+  describe('merged cells', () => {
+    it('should resolve covered positions to the merged cell', () => {
+      const table = createMergedTable()
+      expect(isCovered(table, 1, 1)).toBe(true)
+      expect(isCovered(table, 0, 2)).toBe(false)
+      expect(getCellAnchor(table, 1, 1)).toEqual({ row: 0, col: 0 })
+      expect(getCellAnchor(table, 2, 2)).toEqual({ row: 2, col: 2 })
+      expect(isMergedCell(table, 1, 0)).toBe(true)
+      expect(isMergedCell(table, 2, 0)).toBe(false)
+    })
+
+    it('should join the text of merged cells', () => {
+      const table = createMergedTable()
+      expect(table.cells[0]?.[0]).toEqual({ content: '0,0\n0,1\n1,0\n1,1', rowSpan: 2, colSpan: 2 })
+      expect(table.cells[1]?.[1]).toEqual({ content: '' })
+    })
+
+    it('should only merge ranges of several cells', () => {
+      const table = createMergedTable()
+      expect(canMergeCells(table, { top: 2, left: 2, bottom: 2, right: 2 })).toBe(false)
+      expect(canMergeCells(table, { top: 0, left: 0, bottom: 1, right: 1 })).toBe(false)
+      expect(canMergeCells(table, { top: 0, left: 0, bottom: 1, right: 2 })).toBe(true)
+    })
+
+    it('should split a merged cell from any covered position', () => {
+      const table = createMergedTable()
+      const { cells } = unmergeCell(table, 1, 1)
+      expect(cells[0]?.[0]).toEqual({ content: '0,0\n0,1\n1,0\n1,1' })
+      expect(getCellRects({ ...table, cells })).toHaveLength(9)
+    })
+  })
+
+  describe('getCellRange', () => {
+    it('should normalize the corners', () => {
+      expect(getCellRange(createTestTable(), { row: 2, col: 1 }, { row: 0, col: 2 })).toEqual({
+        top: 0,
+        left: 1,
+        bottom: 2,
+        right: 2,
+      })
+    })
+
+    it('should grow to contain merged cells it touches', () => {
+      const table = createMergedTable()
+      expect(getCellRange(table, { row: 1, col: 1 }, { row: 2, col: 1 })).toEqual({
+        top: 0,
+        left: 0,
+        bottom: 2,
+        right: 1,
+      })
+    })
+
+    it('should get the area of a range', () => {
+      const table = createTestTable()
+      expect(getCellRangeRect(table, { top: 1, left: 1, bottom: 2, right: 2 })).toEqual({
+        x: 100,
+        y: 50,
+        width: 200,
+        height: 100,
+      })
+    })
+  })
+
+  describe('getCellAtPoint', () => {
+    it('should find the cell under a point', () => {
+      const table = createTestTable()
+      expect(getCellAtPoint(table, { x: 350, y: 160 })).toEqual({ row: 2, col: 2 })
+      expect(getCellAtPoint(table, { x: 50, y: 60 })).toBeNull()
+    })
+
+    it('should find merged cells and account for rotation', () => {
+      expect(getCellAtPoint(createMergedTable(), { x: 250, y: 120 })).toEqual({ row: 0, col: 0 })
+      const rotated = createTestTable({ rotation: 180 })
+      // Rotated half a turn, the top-left corner of the slide box shows the last cell
+      expect(getCellAtPoint(rotated, { x: 110, y: 60 })).toEqual({ row: 2, col: 2 })
+    })
+  })
+
+  describe('setCellContent', () => {
+    it('should only change the given cell', () => {
+      const table = createTestTable()
+      const { cells } = setCellContent(table, 1, 2, 'new')
+      expect(cells[1]?.[2]?.content).toBe('new')
+      expect(cells[1]?.[1]).toBe(table.cells[1]?.[1])
+      expect(cells[0]).toBe(table.cells[0])
+    })
+  })
+
+  describe('rows', () => {
+    it('should insert an empty row and grow the table by an average row', () => {
+      const { cells, rowHeights, dimensions } = insertRow(createTestTable(), 1)
+      expect(cells.map((row) => row[0]?.content)).toEqual(['0,0', '', '1,0', '2,0'])
+      expect(rowHeights).toEqual([0.25, 0.25, 0.25, 0.25])
+      expect(dimensions.height).toBe(200)
+    })
+
+    it('should grow merged cells crossing an inserted row', () => {
+      const { cells } = insertRow(createMergedTable(), 1)
+      expect(cells[0]?.[0]?.rowSpan).toBe(3)
+    })
+
+    it('should delete a row, renormalize heights and shrink the table', () => {
+      const { cells, rowHeights, dimensions } = deleteRow(
+        createTestTable({ rowHeights: [0.5, 0.25, 0.25] }),
+        0
+      )
+      expect(cells.map((row) => row[0]?.content)).toEqual(['1,0', '2,0'])
+      expect(rowHeights).toEqual([0.5, 0.5])
+      expect(dimensions.height).toBe(75)
+    })
+
+    it('should shrink or move merged cells on a deleted row', () => {
+      const merged = createMergedTable()
+      expect(deleteRow(merged, 1).cells[0]?.[0]).toMatchObject({ colSpan: 2 })
+      expect(deleteRow(merged, 1).cells[0]?.[0]?.rowSpan).toBeUndefined()
+      const moved = deleteRow(merged, 0).cells[0]?.[0]
+      expect(moved).toMatchObject({ content: '0,0\n0,1\n1,0\n1,1', colSpan: 2 })
+    })
+
+    it('should keep the last row', () => {
+      const table = createTableElement('t', { x: 0, y: 0 }, 0, 1, 2)
+      expect(deleteRow(table, 0).cells).toBe(table.cells)
+    })
+  })
+
+  describe('columns', () => {
+    it('should insert an empty column', () => {
+      const { cells, columnWidths, dimensions } = insertColumn(createTestTable(), 3)
+      expect(cells[0]?.map((cell) => cell.content)).toEqual(['0,0', '0,1', '0,2', ''])
+      expect(columnWidths).toEqual([0.25, 0.25, 0.25, 0.25])
+      expect(dimensions.width).toBe(400)
+    })
+
+    it('should grow merged cells crossing an inserted column', () => {
+      const { cells } = insertColumn(createMergedTable(), 1)
+      expect(cells[0]?.[0]).toMatchObject({ rowSpan: 2, colSpan: 3 })
+    })
+
+    it('should delete a column', () => {
+      const { cells, columnWidths, dimensions } = deleteColumn(createTestTable(), 1)
+      expect(cells[2]?.map((cell) => cell.content)).toEqual(['2,0', '2,2'])
+      expect(columnWidths).toEqual([0.5, 0.5])
+      expect(dimensions.width).toBeCloseTo(200)
+    })
+  })
+
+  describe('getCellTextElement', () => {
+    it('should inset the text box and style header cells', () => {
+      const table = createTestTable()
+      const [header] = getCellRects(table)
+      const body = getCellRects(table)[3]
+      if (!header || !body) throw new Error('Missing cells')
+
+      const headerText = getCellTextElement(table, header)
+      expect(headerText.position).toEqual({ x: 100 + TABLE_CELL_PADDING, y: 50 + TABLE_CELL_PADDING })
+      expect(headerText.dimensions.width).toBe(100 - TABLE_CELL_PADDING * 2)
+      expect(headerText.fontWeight).toBe('bold')
+      expect(headerText.color).toBe(table.headerTextColor)
+
+      const bodyText = getCellTextElement(table, body)
+      expect(bodyText.content).toBe('1,0')
+      expect(bodyText.fontWeight).toBe('normal')
+      expect(bodyText.color).toBe(table.textColor)
+      expect(getCellTextElement({ ...table, headerRow: false }, header).fontWeight).toBe('normal')
+    })
+  })
+})
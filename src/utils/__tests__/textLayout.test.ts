@@ -0,0 +1,333 @@
+/**
+ * Unit tests for the text layout engine
+ */
+
+import {
+  layoutText,
+  fitFontSize,
+  fitText,
+  getAutofitFontSize,
+  getAutofitHeight,
+  MIN_AUTOFIT_HEIGHT,
+  LINE_BREAK,
+  MIN_AUTOFIT_FONT_SIZE,
+  parseFontString,
+  type MeasureText,
+  type TextLine,
+} from '../textLayout'
+import type { TextElement } from '@/types/presentation'
+
+/**
+ * Monospace measurement: 10px per character, 12px when the font is bold
+ */
+const monospace: MeasureText = (text, font) => text.length * (font.includes('bold') ? 12 : 10)
+let measureText: jest.MockedFunction<MeasureText>
+
+function createTextElement(overrides: Partial<TextElement> = {}): TextElement {
+  return {
+    id: 'text-1',
+    type: 'text',
+    position: { x: 0, y: 0 },
+    dimensions: { width: 100, height: 100 },
+    rotation: 0,
+    zIndex: 0,
+    opacity: 1,
+    locked: false,
+    content: '',
+    fontSize: 10,
+    fontFamily: 'Arial',
+    fontWeight: 'normal',
+    fontStyle: 'normal',
+    textAlign: 'left',
+    color: '#000000',
+    ...overrides,
+  }
+}
+
+/**
+ * Get the text of each line
+ */
+function lineTexts(lines: TextLine[]): string[] {
+  return lines.map((line) => line.segments.map((segment) => segment.text).join(''))
+}
+
+describe('textLayout', () => {
+  beforeEach(() => {
+    measureText = jest.fn(monospace)
+  })
+
+  describe('wrapping', () => {
+    it('should keep text that fits on one line', () => {
+      const layout = layoutText(createTextElement({ content: 'Hello' }), measureText)
+      expect(lineTexts(layout.lines)).toEqual(['Hello'])
+      expect(layout.lines[0]?.width).toBe(50)
+    })
+
+    it('should wrap at spaces', () => {
+      const layout = layoutText(createTextElement({ content: 'aaaa bbbb cccc' }), measureText)
+      expect(lineTexts(layout.lines)).toEqual(['aaaa bbbb', 'cccc'])
+    })
+
+    it('should break words wider than the line', () => {
+      const layout = layoutText(createTextElement({ content: 'abcdefghijklmnopqrstuvwxy' }), measureText)
+      expect(lineTexts(layout.lines)).toEqual(['abcdefghij', 'klmnopqrst', 'uvwxy'])
+    })
+
+    it('should continue after a broken word on the same line', () => {
+      const layout = layoutText(createTextElement({ content: 'abcdefghijkl mn' }), measureText)
+      expect(lineTexts(layout.lines)).toEqual(['abcdefghij', 'kl mn'])
+    })
+
+    it('should always place at least one character per line', () => {
+      const layout = layoutText(
+        createTextElement({ content: 'abc', dimensions: { width: 5, height: 100 } }),
+        measureText
+      )
+      expect(lineTexts(layout.lines)).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should measure each run with its own font', () => {
+      const layout = layoutText(
+        createTextElement({
+          content: 'aaaa bbbb',
+          runs: [{ text: 'aaaa ' }, { text: 'bbbb', fontWeight: 'bold' }],
+        }),
+        measureText
+      )
+      expect(lineTexts(layout.lines)).toEqual(['aaaa bbbb'])
+      expect(layout.lines[0]?.width).toBe(40 + 10 + 48)
+      expect(layout.lines[0]?.segments[2]?.x).toBe(50)
+    })
+
+    it('should keep words spanning runs together', () => {
+      const layout = layoutText(
+        createTextElement({
+          content: 'aaaaaaa bbcc',
+          runs: [{ text: 'aaaaaaa bb' }, { text: 'cc', underline: true }],
+        }),
+        measureText
+      )
+      expect(lineTexts(layout.lines)).toEqual(['aaaaaaa', 'bbcc'])
+      expect(layout.lines[1]?.segments[1]?.underline).toBe(true)
+    })
+  })
+
+  describe('paragraphs and breaks', () => {
+    it('should start a new line for each paragraph', () => {
+      const layout = layoutText(createTextElement({ content: 'one\ntwo\n\nfour' }), measureText)
+      expect(lineTexts(layout.lines)).toEqual(['one', 'two', '', 'four'])
+      expect(layout.lines.map((line) => line.paragraphIndex)).toEqual([0, 1, 2, 3])
+    })
+
+    it('should honor hard line breaks within a paragraph', () => {
+      const layout = layoutText(
+        createTextElement({ content: `one${LINE_BREAK}two` }),
+        measureText
+      )
+      expect(lineTexts(layout.lines)).toEqual(['one', 'two'])
+      expect(layout.lines.map((line) => line.paragraphIndex)).toEqual([0, 0])
+    })
+
+    it('should add paragraph spacing between paragraphs only', () => {
+      const layout = layoutText(
+        createTextElement({
+          content: `a${LINE_BREAK}b\nc`,
+          paragraphSpacing: 5,
+          verticalAlign: 'top',
+        }),
+        measureText
+      )
+      expect(layout.lines.map((line) => line.y)).toEqual([0, 12, 29])
+      expect(layout.contentHeight).toBe(41)
+    })
+  })
+
+  describe('line spacing', () => {
+    it('should use 1.2 line spacing by default', () => {
+      const layout = layoutText(
+        createTextElement({ content: 'a\nb', verticalAlign: 'top' }),
+        measureText
+      )
+      expect(layout.lines.map((line) => line.y)).toEqual([0, 12])
+      expect(layout.lines[0]?.textOffset).toBe(0)
+    })
+
+    it('should apply configured line spacing and center the extra leading', () => {
+      const layout = layoutText(
+        createTextElement({ content: 'a\nb', lineSpacing: 2, verticalAlign: 'top' }),
+        measureText
+      )
+      expect(layout.lines.map((line) => line.y)).toEqual([0, 20])
+      expect(layout.lines[0]?.textOffset).toBe(4)
+      expect(layout.contentHeight).toBe(40)
+    })
+  })
+
+  describe('alignment', () => {
+    it('should align lines horizontally', () => {
+      const center = layoutText(createTextElement({ content: 'abcd', textAlign: 'center' }), measureText)
+      const right = layoutText(createTextElement({ content: 'abcd', textAlign: 'right' }), measureText)
+      expect(center.lines[0]?.segments[0]?.x).toBe(30)
+      expect(right.lines[0]?.segments[0]?.x).toBe(60)
+    })
+
+    it('should anchor text vertically', () => {
+      const top = layoutText(createTextElement({ content: 'a', verticalAlign: 'top' }), measureText)
+      const middle = layoutText(createTextElement({ content: 'a' }), measureText)
+      const bottom = layoutText(createTextElement({ content: 'a', verticalAlign: 'bottom' }), measureText)
+      expect(top.lines[0]?.y).toBe(0)
+      expect(middle.lines[0]?.y).toBe(44)
+      expect(bottom.lines[0]?.y).toBe(88)
+    })
+  })
+
+  describe('lists', () => {
+    it('should indent list paragraphs and place markers in the hanging indent', () => {
+      const layout = layoutText(
+        createTextElement({
+          content: 'aaaa bbbb\nc',
+          paragraphs: [
+            { listType: 'bullet', indentLevel: 0 },
+            { listType: 'numbered', indentLevel: 1 },
+          ],
+        }),
+        measureText
+      )
+      // Bullet paragraph: text indented by one 15px marker step, wraps within 85px
+      expect(lineTexts(layout.lines)).toEqual(['aaaa', 'bbbb', 'c'])
+      expect(layout.lines[0]?.marker).toMatchObject({ text: '•', x: 0 })
+      expect(layout.lines[0]?.segments[0]?.x).toBe(15)
+      expect(layout.lines[1]?.marker).toBeNull()
+      expect(layout.lines[1]?.segments[0]?.x).toBe(15)
+      // Nested numbered paragraph: one level plus the marker step
+      expect(layout.lines[2]?.marker).toMatchObject({ text: 'a.', x: 15 })
+      expect(layout.lines[2]?.segments[0]?.x).toBe(30)
+    })
+  })
+
+  describe('overflow', () => {
+    it('should report text taller than the box', () => {
+      const fits = layoutText(createTextElement({ content: 'a\nb' }), measureText)
+      const tall = layoutText(
+        createTextElement({ content: 'a\nb', dimensions: { width: 100, height: 20 } }),
+        measureText
+      )
+      expect(fits.overflows).toBe(false)
+      expect(tall.overflows).toBe(true)
+    })
+
+    it('should report characters wider than the box', () => {
+      const layout = layoutText(
+        createTextElement({ content: 'abc', dimensions: { width: 5, height: 100 } }),
+        measureText
+      )
+      expect(layout.overflows).toBe(true)
+    })
+
+    it('should lay out with overridden dimensions and font size', () => {
+      const layout = layoutText(createTextElement({ content: 'aaaa bbbb' }), measureText, {
+        width: 50,
+        fontSize: 20,
+      })
+      expect(lineTexts(layout.lines)).toEqual(['aaaa', 'bbbb'])
+      expect(layout.lines.map((line) => line.height)).toEqual([24, 24])
+      expect(measureText).toHaveBeenCalledWith('aaaa', 'normal normal 20px Arial')
+    })
+  })
+
+  describe('styles', () => {
+    it('should resolve theme tokens and style links', () => {
+      const layout = layoutText(
+        createTextElement({
+          content: 'link',
+          color: 'theme:text',
+          runs: [{ text: 'link', link: 'https://example.com' }],
+        }),
+        measureText,
+        {
+          theme: {
+            primaryColor: '#0000ff',
+            secondaryColor: '#00ff00',
+            backgroundColor: '#ffffff',
+            textColor: '#111111',
+            fontFamily: 'Georgia',
+          },
+        }
+      )
+      expect(layout.lines[0]?.segments[0]).toMatchObject({
+        color: '#0000ff',
+        underline: true,
+        link: 'https://example.com',
+      })
+    })
+  })
+
+  describe('autofit', () => {
+    it('should keep the font size when the text fits', () => {
+      expect(fitFontSize(createTextElement({ content: 'a\nb' }), measureText)).toBe(10)
+    })
+
+    it('should shrink the font size until the text fits', () => {
+      const element = createTextElement({
+        content: 'a\nb\nc',
+        dimensions: { width: 100, height: 24 },
+      })
+      const size = fitFontSize(element, measureText)
+      expect(size).toBeLessThan(10)
+      expect(layoutText(element, measureText, { fontSize: size }).overflows).toBe(false)
+      expect(layoutText(element, measureText, { fontSize: size + 0.5 }).overflows).toBe(true)
+    })
+
+    it('should not shrink below the minimum font size', () => {
+      const element = createTextElement({
+        content: 'a\nb\nc\nd\ne',
+        dimensions: { width: 100, height: 1 },
+      })
+      expect(fitFontSize(element, measureText)).toBe(MIN_AUTOFIT_FONT_SIZE)
+    })
+
+    it('should measure the height needed for the text', () => {
+      const fit = fitText(
+        createTextElement({ content: 'aaaa bbbb cccc', dimensions: { width: 50, height: 10 } }),
+        measureText
+      )
+      expect(fit.height).toBe(36)
+    })
+
+    it('should only shrink elements in shrink mode', () => {
+      const element = createTextElement({
+        content: 'a\nb\nc',
+        dimensions: { width: 100, height: 24 },
+      })
+      expect(getAutofitFontSize(element, measureText)).toBe(10)
+      expect(getAutofitFontSize({ ...element, autofit: 'shrink' }, measureText)).toBeLessThan(10)
+    })
+
+    it('should only resize elements in resize mode', () => {
+      const element = createTextElement({ dimensions: { width: 100, height: 80 } })
+      expect(getAutofitHeight(element, { fontSize: 10, height: 36 })).toBe(80)
+      expect(getAutofitHeight({ ...element, autofit: 'resize' }, { fontSize: 10, height: 36 })).toBe(36)
+      expect(getAutofitHeight({ ...element, autofit: 'resize' }, { fontSize: 10, height: 12 })).toBe(
+        MIN_AUTOFIT_HEIGHT
+      )
+      expect(getAutofitHeight({ ...element, autofit: 'resize' }, null)).toBe(80)
+    })
+  })
+
+  describe('parseFontString', () => {
+    it('should read the family, size and style of a font string', () => {
+      expect(parseFontString('italic bold 24px "DM Sans", sans-serif')).toEqual({
+        family: '"DM Sans", sans-serif',
+        size: 24,
+        bold: true,
+        italic: true,
+      })
+      expect(parseFontString('12.5px Arial')).toEqual({
+        family: 'Arial',
+        size: 12.5,
+        bold: false,
+        italic: false,
+      })
+    })
+  })
+})
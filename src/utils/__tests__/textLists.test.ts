@@ -0,0 +1,147 @@
+/**
+ * Unit tests for text list utilities
+ */
+
+import {
+  countParagraphs,
+  getTextParagraphs,
+  getParagraphRange,
+  spliceParagraphsText,
+  toggleListType,
+  changeIndentLevel,
+  getListMarkers,
+  hasParagraphFormatting,
+  MAX_INDENT_LEVEL,
+  PLAIN_PARAGRAPH,
+} from '../textLists'
+import type { TextParagraph } from '@/types/presentation'
+
+const bullet = (indentLevel = 0): TextParagraph => ({ listType: 'bullet', indentLevel })
+const numbered = (indentLevel = 0): TextParagraph => ({ listType: 'numbered', indentLevel })
+
+describe('textLists', () => {
+  describe('countParagraphs', () => {
+    it('should count newline-separated paragraphs', () => {
+      expect(countParagraphs('')).toBe(1)
+      expect(countParagraphs('a\nb\n')).toBe(3)
+    })
+  })
+
+  describe('getTextParagraphs', () => {
+    it('should give plain paragraphs to elements without paragraph formatting', () => {
+      expect(getTextParagraphs({ content: 'a\nb' })).toEqual([PLAIN_PARAGRAPH, PLAIN_PARAGRAPH])
+    })
+
+    it('should pad missing entries and ignore extra ones', () => {
+      expect(getTextParagraphs({ content: 'a\nb', paragraphs: [bullet()] })).toEqual([
+        bullet(),
+        PLAIN_PARAGRAPH,
+      ])
+      expect(getTextParagraphs({ content: 'a', paragraphs: [bullet(), numbered()] })).toEqual([
+        bullet(),
+      ])
+    })
+  })
+
+  describe('getParagraphRange', () => {
+    it('should return the paragraphs touched by a selection', () => {
+      const text = 'one\ntwo\nthree'
+      expect(getParagraphRange(text, 0, 0)).toEqual({ first: 0, last: 0 })
+      expect(getParagraphRange(text, 5, 10)).toEqual({ first: 1, last: 2 })
+    })
+  })
+
+  describe('spliceParagraphsText', () => {
+    it('should continue the list when a line break is inserted', () => {
+      expect(spliceParagraphsText([bullet(1)], 'item', 'item\nnext')).toEqual([bullet(1), bullet(1)])
+    })
+
+    it('should merge paragraphs when a line break is removed', () => {
+      expect(spliceParagraphsText([bullet(), numbered()], 'a\nb', 'ab')).toEqual([bullet()])
+    })
+
+    it('should keep formatting of untouched paragraphs', () => {
+      const paragraphs = [bullet(), PLAIN_PARAGRAPH, numbered(2)]
+      expect(spliceParagraphsText(paragraphs, 'a\nb\nc', 'a\nbb\nc')).toEqual(paragraphs)
+    })
+  })
+
+  describe('toggleListType', () => {
+    it('should set the list type on the range', () => {
+      expect(toggleListType([PLAIN_PARAGRAPH, PLAIN_PARAGRAPH], 1, 1, 'bullet')).toEqual([
+        PLAIN_PARAGRAPH,
+        bullet(),
+      ])
+    })
+
+    it('should remove the list when every paragraph already has it', () => {
+      expect(toggleListType([bullet(), bullet()], 0, 1, 'bullet')).toEqual([
+        PLAIN_PARAGRAPH,
+        PLAIN_PARAGRAPH,
+      ])
+    })
+
+    it('should convert mixed lists to the requested type', () => {
+      expect(toggleListType([bullet(), numbered()], 0, 1, 'numbered')).toEqual([
+        numbered(),
+        numbered(),
+      ])
+    })
+  })
+
+  describe('changeIndentLevel', () => {
+    it('should clamp indent levels', () => {
+      expect(changeIndentLevel([bullet()], 0, 0, -1)).toEqual([bullet()])
+      expect(changeIndentLevel([bullet(MAX_INDENT_LEVEL)], 0, 0, 1)).toEqual([
+        bullet(MAX_INDENT_LEVEL),
+      ])
+      expect(changeIndentLevel([bullet(), bullet()], 1, 1, 1)).toEqual([bullet(), bullet(1)])
+    })
+  })
+
+  describe('getListMarkers', () => {
+    it('should return null for plain paragraphs', () => {
+      expect(getListMarkers([PLAIN_PARAGRAPH])).toEqual([null])
+    })
+
+    it('should vary bullets by level', () => {
+      expect(getListMarkers([bullet(), bullet(1), bullet(2), bullet(3)])).toEqual([
+        '•',
+        '◦',
+        '▪',
+        '•',
+      ])
+    })
+
+    it('should number items with a style per level', () => {
+      expect(
+        getListMarkers([numbered(), numbered(1), numbered(1), numbered(2), numbered()])
+      ).toEqual(['1.', 'a.', 'b.', 'i.', '2.'])
+    })
+
+    it('should restart nested numbering under a new parent item', () => {
+      expect(getListMarkers([numbered(), numbered(1), numbered(), numbered(1)])).toEqual([
+        '1.',
+        'a.',
+        '2.',
+        'a.',
+      ])
+    })
+
+    it('should restart numbering after a plain paragraph', () => {
+      expect(getListMarkers([numbered(), PLAIN_PARAGRAPH, numbered()])).toEqual([
+        '1.',
+        null,
+        '1.',
+      ])
+    })
+  })
+
+  describe('hasParagraphFormatting', () => {
+    it('should detect lists and indents', () => {
+      expect(hasParagraphFormatting([PLAIN_PARAGRAPH])).toBe(false)
+      expect(hasParagraphFormatting([{ listType: 'none', indentLevel: 1 }])).toBe(true)
+      expect(hasParagraphFormatting([bullet()])).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for theme utility functions
+ */
+
+import {
+  themeColorRef,
+  isThemeReference,
+  getThemeColorToken,
+  resolveThemeColor,
+  resolveThemeFont,
+  resolveBackgroundTheme,
+  BUILT_IN_THEMES,
+  THEME_FONT_FAMILIES,
+  createCustomTheme,
+  themesEqual,
+} from '../themeUtils'
+import { DEFAULT_THEME, THEME_FONT_TOKEN } from '@/types/presentation'
+import type { PresentationTheme } from '@/types/presentation'
+
+const customTheme: PresentationTheme = {
+  primaryColor: '#2563eb',
+  secondaryColor: '#16a34a',
+  backgroundColor: '#0f172a',
+  textColor: '#f8fafc',
+  fontFamily: 'Georgia',
+}
+
+describe('themeUtils', () => {
+  describe('themeColorRef', () => {
+    it('should build a prefixed reference', () => {
+      expect(themeColorRef('primary')).toBe('theme:primary')
+      expect(themeColorRef('background')).toBe('theme:background')
+    })
+  })
+
+  describe('isThemeReference', () => {
+    it('should detect theme references', () => {
+      expect(isThemeReference('theme:text')).toBe(true)
+      expect(isThemeReference(THEME_FONT_TOKEN)).toBe(true)
+    })
+
+    it('should return false for literal values', () => {
+      expect(isThemeReference('#ffffff')).toBe(false)
+      expect(isThemeReference('Arial')).toBe(false)
+      expect(isThemeReference(undefined)).toBe(false)
+    })
+  })
+
+  describe('getThemeColorToken', () => {
+    it('should return the referenced token', () => {
+      expect(getThemeColorToken('theme:secondary')).toBe('secondary')
+    })
+
+    it('should return null for literal colors and unknown tokens', () => {
+      expect(getThemeColorToken('#000000')).toBeNull()
+      expect(getThemeColorToken('theme:accent')).toBeNull()
+      expect(getThemeColorToken(undefined)).toBeNull()
+    })
+  })
+
+  describe('resolveThemeColor', () => {
+    it('should resolve each token to the matching theme color', () => {
+      expect(resolveThemeColor('theme:primary', customTheme)).toBe('#2563eb')
+      expect(resolveThemeColor('theme:secondary', customTheme)).toBe('#16a34a')
+      expect(resolveThemeColor('theme:background', customTheme)).toBe('#0f172a')
+      expect(resolveThemeColor('theme:text', customTheme)).toBe('#f8fafc')
+    })
+
+    it('should pass literal colors through unchanged', () => {
+      expect(resolveThemeColor('#123456', customTheme)).toBe('#123456')
+    })
+
+    it('should fall back to the text color for unknown tokens', () => {
+      expect(resolveThemeColor('theme:accent', customTheme)).toBe('#f8fafc')
+    })
+
+    it('should follow theme changes', () => {
+      expect(resolveThemeColor('theme:primary', DEFAULT_THEME)).toBe(DEFAULT_THEME.primaryColor)
+      expect(resolveThemeColor('theme:primary', customTheme)).toBe(customTheme.primaryColor)
+    })
+  })
+
+  describe('resolveThemeFont', () => {
+    it('should resolve the theme font token', () => {
+      expect(resolveThemeFont(THEME_FONT_TOKEN, customTheme)).toBe('Georgia')
+    })
+
+    it('should pass literal fonts through unchanged', () => {
+      expect(resolveThemeFont('Arial', customTheme)).toBe('Arial')
+    })
+  })
+
+  describe('resolveBackgroundTheme', () => {
+    it('should resolve solid background colors', () => {
+      const resolved = resolveBackgroundTheme(
+        { type: 'solid', color: 'theme:background' },
+        customTheme
+      )
+      expect(resolved).toEqual({ type: 'solid', color: '#0f172a' })
+    })
+
+    it('should resolve gradient stops', () => {
+      const resolved = resolveBackgroundTheme(
+        {
+          type: 'gradient',
+          gradientStart: 'theme:primary',
+          gradientEnd: '#000000',
+          gradientDirection: 'vertical',
+        },
+        customTheme
+      )
+      expect(resolved.gradientStart).toBe('#2563eb')
+      expect(resolved.gradientEnd).toBe('#000000')
+      expect(resolved.gradientDirection).toBe('vertical')
+    })
+
+    it('should not mutate the original background', () => {
+      const background = { type: 'solid' as const, color: 'theme:primary' }
+      resolveBackgroundTheme(background, customTheme)
+      expect(background.color).toBe('theme:primary')
+    })
+  })
+
+  describe('BUILT_IN_THEMES', () => {
+    it('should start with the default theme', () => {
+      expect(BUILT_IN_THEMES[0]?.theme).toEqual(DEFAULT_THEME)
+    })
+
+    it('should have unique ids and be marked built-in', () => {
+      const ids = BUILT_IN_THEMES.map((preset) => preset.id)
+      expect(new Set(ids).size).toBe(ids.length)
+      expect(BUILT_IN_THEMES.every((preset) => preset.builtIn)).toBe(true)
+    })
+  })
+
+  describe('THEME_FONT_FAMILIES', () => {
+    it('should offer the font of every built-in theme', () => {
+      const fonts = THEME_FONT_FAMILIES.map((font) => font.value)
+      for (const preset of BUILT_IN_THEMES) {
+        expect(fonts).toContain(preset.theme.fontFamily)
+      }
+    })
+  })
+
+  describe('createCustomTheme', () => {
+    it('should derive missing values from the default theme', () => {
+      const preset = createCustomTheme('Brand', { primaryColor: '#ff0000' })
+      expect(preset.theme).toEqual({ ...DEFAULT_THEME, primaryColor: '#ff0000' })
+      expect(preset.name).toBe('Brand')
+      expect(preset.builtIn).toBe(false)
+    })
+
+    it('should fall back to a default name for blank names', () => {
+      expect(createCustomTheme('   ').name).toBe('Custom Theme')
+    })
+
+    it('should generate unique ids', () => {
+      expect(createCustomTheme('A').id).not.toBe(createCustomTheme('A').id)
+    })
+  })
+
+  describe('themesEqual', () => {
+    it('should compare every theme value', () => {
+      expect(themesEqual(customTheme, { ...customTheme })).toBe(true)
+      expect(themesEqual(customTheme, { ...customTheme, fontFamily: 'Arial' })).toBe(false)
+    })
+  })
+})
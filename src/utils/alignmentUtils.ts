@@ -1,9 +1,11 @@
 /**
  * Alignment and Distribution Utilities
  * Provides functions for aligning and distributing multiple elements on a slide.
+ * Grouped elements are aligned and distributed as a single unit.
  */
 
 import type { SlideElement, Position } from '../types/presentation'
+import { getSelectionUnits, getUnitFrame } from './groupUtils'
 
 /**
  * Alignment types for elements
@@ -16,10 +18,9 @@ export type AlignmentType = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bo
 export type DistributionType = 'horizontal' | 'vertical'
 
 /**
- * Element bounds interface for calculations
+ * Bounds of an element or a group for calculations
  */
-interface ElementBounds {
-  id: string
+interface UnitBounds {
   left: number
   right: number
   top: number
@@ -31,31 +32,43 @@ interface ElementBounds {
 }
 
 /**
- * Get the bounds of an element
+ * Elements that align and distribute together: a group, or a single element
  */
-function getElementBounds(element: SlideElement): ElementBounds {
-  const left = element.position.x
-  const top = element.position.y
-  const width = element.dimensions.width
-  const height = element.dimensions.height
+interface AlignmentUnit {
+  elements: SlideElement[]
+  bounds: UnitBounds
+}
 
-  return {
-    id: element.id,
-    left,
-    right: left + width,
-    top,
-    bottom: top + height,
-    centerX: left + width / 2,
-    centerY: top + height / 2,
-    width,
-    height,
-  }
+/**
+ * Split elements into alignment units. Grouped elements are aligned as one unit.
+ */
+function getAlignmentUnits(elements: SlideElement[]): AlignmentUnit[] {
+  return getSelectionUnits(elements).map((unit) => {
+    const { position, dimensions } = getUnitFrame(unit)
+    const left = position.x
+    const top = position.y
+    const { width, height } = dimensions
+
+    return {
+      elements: unit,
+      bounds: {
+        left,
+        right: left + width,
+        top,
+        bottom: top + height,
+        centerX: left + width / 2,
+        centerY: top + height / 2,
+        width,
+        height,
+      },
+    }
+  })
 }
 
 /**
- * Get the bounding box of all elements combined
+ * Get the bounding box of all units combined
  */
-function getCombinedBounds(elements: SlideElement[]): {
+function getCombinedBounds(units: AlignmentUnit[]): {
   minX: number
   maxX: number
   minY: number
@@ -63,7 +76,7 @@ function getCombinedBounds(elements: SlideElement[]): {
   centerX: number
   centerY: number
 } {
-  const bounds = elements.map(getElementBounds)
+  const bounds = units.map((unit) => unit.bounds)
 
   const minX = Math.min(...bounds.map(b => b.left))
   const maxX = Math.max(...bounds.map(b => b.right))
@@ -81,7 +94,24 @@ function getCombinedBounds(elements: SlideElement[]): {
 }
 
 /**
- * Calculate new positions for aligning elements
+ * Move every element of a unit so the unit's top-left corner lands on (left, top)
+ */
+function moveUnit(
+  unit: AlignmentUnit,
+  left: number,
+  top: number
+): Array<{ id: string; position: Position }> {
+  const deltaX = left - unit.bounds.left
+  const deltaY = top - unit.bounds.top
+  return unit.elements.map(element => ({
+    id: element.id,
+    position: { x: element.position.x + deltaX, y: element.position.y + deltaY },
+  }))
+}
+
+/**
+ * Calculate new positions for aligning elements.
+ * Grouped elements move as a unit, keeping their layout within the group.
  * @param elements - The elements to align
  * @param alignmentType - The type of alignment
  * @returns Array of position updates for each element
@@ -90,16 +120,17 @@ export function calculateAlignmentPositions(
   elements: SlideElement[],
   alignmentType: AlignmentType
 ): Array<{ id: string; position: Position }> {
-  if (elements.length < 2) {
+  const units = getAlignmentUnits(elements)
+  if (units.length < 2) {
     return []
   }
 
-  const combined = getCombinedBounds(elements)
+  const combined = getCombinedBounds(units)
 
-  return elements.map(element => {
-    const bounds = getElementBounds(element)
-    let newX = element.position.x
-    let newY = element.position.y
+  return units.flatMap(unit => {
+    const { bounds } = unit
+    let newX = bounds.left
+    let newY = bounds.top
 
     switch (alignmentType) {
       case 'left':
@@ -122,145 +153,55 @@ export function calculateAlignmentPositions(
         break
     }
 
-    return {
-      id: element.id,
-      position: { x: newX, y: newY },
-    }
+    return moveUnit(unit, newX, newY)
   })
 }
 
 /**
- * Calculate new positions for distributing elements evenly
+ * Calculate new positions for distributing elements evenly.
+ * The first and last elements stay in place and the gaps between all elements are equalized.
+ * Grouped elements are distributed as a unit.
  * @param elements - The elements to distribute
  * @param distributionType - The type of distribution (horizontal or vertical)
- * @returns Array of position updates for each element
+ * @returns Array of position updates for each element, in distribution order
  */
 export function calculateDistributionPositions(
   elements: SlideElement[],
   distributionType: DistributionType
 ): Array<{ id: string; position: Position }> {
-  if (elements.length < 3) {
-    // Need at least 3 elements to distribute
+  const units = getAlignmentUnits(elements)
+  if (units.length < 3) {
+    // Need at least 3 units to distribute
     return []
   }
 
-  const bounds = elements.map(el => ({
-    element: el,
-    bounds: getElementBounds(el),
-  }))
-
-  if (distributionType === 'horizontal') {
-    // Sort by x position (left edge)
-    bounds.sort((a, b) => a.bounds.left - b.bounds.left)
-
-    // Get the leftmost and rightmost elements
-    const first = bounds[0]
-    const last = bounds[bounds.length - 1]
-
-    if (!first || !last) return []
-
-    // Calculate total space and element widths
-    const totalWidth = last.bounds.right - first.bounds.left
-    const totalElementWidth = bounds.reduce((sum, b) => sum + b.bounds.width, 0)
-    const totalGap = totalWidth - totalElementWidth
-    const gapBetweenElements = totalGap / (bounds.length - 1)
-
-    // Calculate new positions
-    let currentX = first.bounds.left
-
-    return bounds.map((item, index) => {
-      let newX: number
-
-      if (index === 0) {
-        // Keep first element in place
-        newX = item.bounds.left
-      } else if (index === bounds.length - 1) {
-        // Keep last element in place
-        newX = item.bounds.left
-      } else {
-        // Position this element after the previous one
-        newX = currentX
-      }
+  const isHorizontal = distributionType === 'horizontal'
+  const start = (unit: AlignmentUnit) => (isHorizontal ? unit.bounds.left : unit.bounds.top)
+  const end = (unit: AlignmentUnit) => (isHorizontal ? unit.bounds.right : unit.bounds.bottom)
+  const size = (unit: AlignmentUnit) => (isHorizontal ? unit.bounds.width : unit.bounds.height)
 
-      currentX = newX + item.bounds.width + gapBetweenElements
+  // Sort by leading edge
+  units.sort((a, b) => start(a) - start(b))
 
-      // Only update middle elements, keep first and last in place
-      if (index === 0 || index === bounds.length - 1) {
-        return {
-          id: item.element.id,
-          position: item.element.position,
-        }
-      }
+  const first = units[0]
+  const last = units[units.length - 1]
+  if (!first || !last) return []
 
-      return {
-        id: item.element.id,
-        position: { x: newX, y: item.element.position.y },
-      }
-    }).map(item => {
-      // Fix: recalculate middle elements based on even distribution
-      const elem = bounds.find(b => b.element.id === item.id)
-      if (!elem) return item
+  // Calculate total space and unit sizes
+  const totalSpan = end(last) - start(first)
+  const totalSize = units.reduce((sum, unit) => sum + size(unit), 0)
+  const gapBetweenUnits = (totalSpan - totalSize) / (units.length - 1)
 
-      const index = bounds.indexOf(elem)
-      if (index === 0 || index === bounds.length - 1) {
-        return item
-      }
+  // Place middle units one after another, keeping first and last in place
+  let offset = start(first)
+  return units.flatMap((unit, index) => {
+    const target = index === 0 || index === units.length - 1 ? start(unit) : offset
+    offset = target + size(unit) + gapBetweenUnits
 
-      // Calculate the target position for even distribution
-      let accumulatedX = first.bounds.left + first.bounds.width + gapBetweenElements
-      for (let i = 1; i < index; i++) {
-        const prevElem = bounds[i]
-        if (prevElem) {
-          accumulatedX += prevElem.bounds.width + gapBetweenElements
-        }
-      }
-
-      return {
-        id: item.id,
-        position: { x: accumulatedX, y: elem.element.position.y },
-      }
-    })
-  } else {
-    // Vertical distribution
-    // Sort by y position (top edge)
-    bounds.sort((a, b) => a.bounds.top - b.bounds.top)
-
-    // Get the topmost and bottommost elements
-    const first = bounds[0]
-    const last = bounds[bounds.length - 1]
-
-    if (!first || !last) return []
-
-    // Calculate total space and element heights
-    const totalHeight = last.bounds.bottom - first.bounds.top
-    const totalElementHeight = bounds.reduce((sum, b) => sum + b.bounds.height, 0)
-    const totalGap = totalHeight - totalElementHeight
-    const gapBetweenElements = totalGap / (bounds.length - 1)
-
-    // Calculate new positions
-    return bounds.map((item, index) => {
-      if (index === 0 || index === bounds.length - 1) {
-        return {
-          id: item.element.id,
-          position: item.element.position,
-        }
-      }
-
-      // Calculate the target position for even distribution
-      let accumulatedY = first.bounds.top + first.bounds.height + gapBetweenElements
-      for (let i = 1; i < index; i++) {
-        const prevElem = bounds[i]
-        if (prevElem) {
-          accumulatedY += prevElem.bounds.height + gapBetweenElements
-        }
-      }
-
-      return {
-        id: item.element.id,
-        position: { x: item.element.position.x, y: accumulatedY },
-      }
-    })
-  }
+    return isHorizontal
+      ? moveUnit(unit, target, unit.bounds.top)
+      : moveUnit(unit, unit.bounds.left, target)
+  })
 }
 
 /**
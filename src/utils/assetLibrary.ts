@@ -0,0 +1,223 @@
+/**
+ * Asset Library Utilities
+ * Provides the content-addressed storage of images: hashing image data into
+ * asset ids, replacing embedded data URLs in presentations with asset references
+ * (and back, for export), and counting references for garbage collection.
+ *
+ * Libraries are plain records keyed by asset id, and every function returns a new
+ * record instead of changing the one it is given, so they work inside store updates.
+ */
+
+import { strToU8 } from 'fflate'
+import type { Asset, Presentation, Slide } from '../types/presentation'
+import { ASSET_REF_PREFIX } from '../types/presentation'
+
+/**
+ * Assets keyed by id
+ */
+export type AssetLibrary = Record<string, Asset>
+
+/**
+ * Hash image data into an asset id: a 53-bit hash of the content and its length.
+ * Not cryptographic, but collisions are handled by `addAsset`.
+ */
+export function hashAssetData(data: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < data.length; i++) {
+    const code = data.charCodeAt(i)
+    h1 = Math.imul(h1 ^ code, 2654435761)
+    h2 = Math.imul(h2 ^ code, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0)
+  return `${hash.toString(16).padStart(14, '0')}-${data.length.toString(36)}`
+}
+
+/**
+ * Check whether an image source is an embedded data URL
+ */
+export function isDataUrl(src: string): boolean {
+  return src.startsWith('data:')
+}
+
+/**
+ * Decode a data URL into its MIME type and bytes, or null when it isn't one
+ */
+export function decodeDataUrl(url: string): { mimeType: string; data: Uint8Array } | null {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(url)
+  if (!match) return null
+  const [, mimeType = '', parameters = '', payload = ''] = match
+  const data = parameters.includes(';base64')
+    ? Uint8Array.from(atob(payload), (char) => char.charCodeAt(0))
+    : strToU8(decodeURIComponent(payload))
+  return { mimeType: mimeType.toLowerCase(), data }
+}
+
+/**
+ * Encode bytes as base64, in chunks to stay within argument limits
+ */
+export function encodeBase64(data: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Encode bytes as a base64 data URL
+ */
+export function encodeDataUrl(mimeType: string, data: Uint8Array): string {
+  return `data:${mimeType};base64,${encodeBase64(data)}`
+}
+
+/**
+ * Check whether an image source references the asset library
+ */
+export function isAssetRef(src: string | undefined): src is string {
+  return typeof src === 'string' && src.startsWith(ASSET_REF_PREFIX)
+}
+
+/**
+ * Create the image source that references an asset
+ */
+export function assetRef(id: string): string {
+  return `${ASSET_REF_PREFIX}${id}`
+}
+
+/**
+ * Get the id of the asset an image source references, or null for other sources
+ */
+export function getAssetRefId(src: string | undefined): string | null {
+  return isAssetRef(src) ? src.slice(ASSET_REF_PREFIX.length) : null
+}
+
+/**
+ * Add image data to a library, reusing the asset that already holds the same data.
+ * Returns the library (unchanged when the data was already stored) and the asset id.
+ */
+export function addAsset(
+  library: AssetLibrary,
+  dataUrl: string
+): { library: AssetLibrary; id: string } {
+  const hash = hashAssetData(dataUrl)
+  let id = hash
+  for (let n = 1; library[id]; n++) {
+    if (library[id]?.dataUrl === dataUrl) return { library, id }
+    id = `${hash}-${String(n)}`
+  }
+
+  const mimeType = /^data:([^;,]+)/.exec(dataUrl)?.[1] ?? 'application/octet-stream'
+  const asset: Asset = {
+    id,
+    mimeType,
+    dataUrl,
+    size: dataUrl.length,
+    createdAt: new Date().toISOString(),
+  }
+  return { library: { ...library, [id]: asset }, id }
+}
+
+/**
+ * Get the URL an image source is loaded from: the data of a referenced asset,
+ * or the source itself. References to missing assets resolve to an empty string.
+ */
+export function resolveAssetSrc(src: string, library: AssetLibrary): string {
+  const id = getAssetRefId(src)
+  if (id === null) return src
+  return library[id]?.dataUrl ?? ''
+}
+
+/**
+ * Apply a function to every image source of a slide: image elements and the background image
+ */
+function mapSlideImageSources(slide: Slide, map: (src: string) => string): Slide {
+  let changed = false
+  const elements = slide.elements.map((element) => {
+    if (element.type !== 'image') return element
+    const src = map(element.src)
+    if (src === element.src) return element
+    changed = true
+    return { ...element, src }
+  })
+
+  let background = slide.background
+  if (background.imageSrc) {
+    const imageSrc = map(background.imageSrc)
+    if (imageSrc !== background.imageSrc) {
+      changed = true
+      background = { ...background, imageSrc }
+    }
+  }
+
+  return changed ? { ...slide, elements, background } : slide
+}
+
+/**
+ * Apply a function to every image source of a presentation, keeping unchanged slides as they are
+ */
+export function mapImageSources(
+  presentation: Presentation,
+  map: (src: string) => string
+): Presentation {
+  const slides = presentation.slides.map((slide) => mapSlideImageSources(slide, map))
+  return slides.some((slide, i) => slide !== presentation.slides[i])
+    ? { ...presentation, slides }
+    : presentation
+}
+
+/**
+ * Move the embedded images of a presentation into a library, replacing them with references
+ */
+export function internAssets(
+  presentation: Presentation,
+  library: AssetLibrary
+): { presentation: Presentation; library: AssetLibrary } {
+  let result = library
+  const interned = mapImageSources(presentation, (src) => {
+    if (!isDataUrl(src)) return src
+    const added = addAsset(result, src)
+    result = added.library
+    return assetRef(added.id)
+  })
+  return { presentation: interned, library: result }
+}
+
+/**
+ * Replace the asset references of a presentation with the image data, so it can be
+ * exported without the library. References to missing assets are kept.
+ */
+export function inlineAssets(presentation: Presentation, library: AssetLibrary): Presentation {
+  return mapImageSources(presentation, (src) => resolveAssetSrc(src, library) || src)
+}
+
+/**
+ * Count the references to each asset in a set of presentations
+ */
+export function countAssetReferences(presentations: Presentation[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const presentation of presentations) {
+    mapImageSources(presentation, (src) => {
+      const id = getAssetRefId(src)
+      if (id !== null) counts.set(id, (counts.get(id) ?? 0) + 1)
+      return src
+    })
+  }
+  return counts
+}
+
+/**
+ * Remove the assets that none of the presentations reference.
+ * Returns the library unchanged when every asset is still in use.
+ */
+export function removeUnusedAssets(
+  library: AssetLibrary,
+  presentations: Presentation[]
+): AssetLibrary {
+  const counts = countAssetReferences(presentations)
+  const entries = Object.entries(library)
+  if (entries.every(([id]) => counts.has(id))) return library
+  return Object.fromEntries(entries.filter(([id]) => counts.has(id)))
+}
@@ -0,0 +1,462 @@
+/**
+ * Chart Utilities
+ * Provides functions for chart elements: creation, editing the data grid,
+ * theme palette colors, and the geometry of axes, bars, lines and pie slices.
+ *
+ * Geometry is computed relative to the chart's top-left corner so it can be
+ * drawn by the canvas renderer at any scale and tested without a canvas.
+ */
+
+import type {
+  ChartElement,
+  ChartType,
+  Position,
+  PresentationTheme,
+} from '../types/presentation'
+import { THEME_FONT_TOKEN } from '../types/presentation'
+import { resolveThemeColor, themeColorRef } from './themeUtils'
+
+/**
+ * Space between the chart's edge and its content
+ */
+export const CHART_PADDING = 12
+
+/**
+ * Share of each category's width taken up by its bars
+ */
+const BAR_GROUP_FILL = 0.8
+
+/**
+ * Number of value axis intervals to aim for
+ */
+const TARGET_TICK_COUNT = 5
+
+/**
+ * Rectangle relative to the chart's top-left corner
+ */
+export interface ChartRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Areas of a chart: the title, the plot and the legend
+ */
+export interface ChartLayout {
+  title: ChartRect | null
+  plot: ChartRect
+  legend: ChartRect | null
+}
+
+/**
+ * Value axis range and the values of its gridlines
+ */
+export interface ValueAxis {
+  min: number
+  max: number
+  ticks: number[]
+}
+
+/**
+ * A bar of a bar chart
+ */
+export interface ChartBar extends ChartRect {
+  seriesIndex: number
+  categoryIndex: number
+  value: number
+}
+
+/**
+ * A slice of a pie chart, with angles in radians clockwise from the x-axis
+ */
+export interface PieSlice {
+  categoryIndex: number
+  value: number
+  startAngle: number
+  endAngle: number
+}
+
+/**
+ * Create a chart element with sample data and theme colors
+ */
+export function createChartElement(
+  id: string,
+  position: Position,
+  zIndex: number,
+  chartType: ChartType = 'bar'
+): ChartElement {
+  return {
+    id,
+    type: 'chart',
+    position,
+    dimensions: { width: 480, height: 300 },
+    rotation: 0,
+    zIndex,
+    opacity: 1,
+    locked: false,
+    chartType,
+    categories: ['Q1', 'Q2', 'Q3', 'Q4'],
+    series: [
+      { name: 'Series 1', values: [4, 6, 5, 8] },
+      { name: 'Series 2', values: [3, 4, 6, 7] },
+    ],
+    showLegend: true,
+    textColor: themeColorRef('text'),
+    fontFamily: THEME_FONT_TOKEN,
+    fontSize: 12,
+  }
+}
+
+/**
+ * Mix two hex colors; `amount` is the share of the second color.
+ * Returns the first color unchanged when either isn't a hex color.
+ */
+function mixColors(first: string, second: string, amount: number): string {
+  const parse = (color: string): number[] | null => {
+    const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color)?.[1]
+    if (!hex) return null
+    const full = hex.length === 3 ? hex.replace(/./g, '$&$&') : hex
+    return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16))
+  }
+  const a = parse(first)
+  const b = parse(second)
+  if (!a || !b) return first
+  return `#${a
+    .map((channel, i) => Math.round(channel + ((b[i] ?? channel) - channel) * amount))
+    .map((channel) => channel.toString(16).padStart(2, '0'))
+    .join('')}`
+}
+
+/**
+ * Get the colors given to series and pie slices, derived from the theme
+ * so charts recolor when the theme changes
+ */
+export function getChartPalette(theme: PresentationTheme): string[] {
+  const { primaryColor, secondaryColor, backgroundColor, textColor } = theme
+  return [
+    primaryColor,
+    secondaryColor,
+    mixColors(primaryColor, backgroundColor, 0.45),
+    mixColors(secondaryColor, backgroundColor, 0.45),
+    mixColors(primaryColor, textColor, 0.4),
+    mixColors(secondaryColor, textColor, 0.4),
+  ]
+}
+
+/**
+ * Get the color of a series: its own color, or the palette color for its position
+ */
+export function getSeriesColor(
+  chart: Pick<ChartElement, 'series'>,
+  seriesIndex: number,
+  theme: PresentationTheme
+): string {
+  const color = chart.series[seriesIndex]?.color
+  if (color) return resolveThemeColor(color, theme)
+  return getPaletteColor(seriesIndex, theme)
+}
+
+/**
+ * Get the palette color at an index, repeating the palette as needed
+ */
+export function getPaletteColor(index: number, theme: PresentationTheme): string {
+  const palette = getChartPalette(theme)
+  return palette[index % palette.length] ?? theme.primaryColor
+}
+
+/**
+ * Split a chart's box into its title, plot and legend areas.
+ * Axis charts leave room left of and below the plot for the axis labels.
+ */
+export function getChartLayout(
+  chart: Pick<ChartElement, 'chartType' | 'dimensions' | 'title' | 'showLegend' | 'fontSize'>
+): ChartLayout {
+  const { width, height } = chart.dimensions
+  const lineHeight = chart.fontSize * 1.6
+  const titleHeight = chart.title ? chart.fontSize * 2 : 0
+  const legendHeight = chart.showLegend ? lineHeight : 0
+  const isPie = chart.chartType === 'pie'
+  const axisWidth = isPie ? 0 : chart.fontSize * 3.5
+  const labelHeight = isPie ? 0 : lineHeight
+
+  const innerWidth = Math.max(0, width - CHART_PADDING * 2)
+  const plot: ChartRect = {
+    x: CHART_PADDING + axisWidth,
+    y: CHART_PADDING + titleHeight,
+    width: Math.max(0, innerWidth - axisWidth),
+    height: Math.max(0, height - CHART_PADDING * 2 - titleHeight - legendHeight - labelHeight),
+  }
+
+  return {
+    title: chart.title
+      ? { x: CHART_PADDING, y: CHART_PADDING, width: innerWidth, height: titleHeight }
+      : null,
+    plot,
+    legend: chart.showLegend
+      ? {
+          x: CHART_PADDING,
+          y: height - CHART_PADDING - legendHeight,
+          width: innerWidth,
+          height: legendHeight,
+        }
+      : null,
+  }
+}
+
+/**
+ * Round a step up to 1, 2 or 5 times a power of ten
+ */
+function getNiceStep(roughStep: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(roughStep))
+  const normalized = roughStep / magnitude
+  const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10
+  return nice * magnitude
+}
+
+/**
+ * Get the value axis for a chart: a range with round gridline values that
+ * covers every value and includes zero
+ */
+export function getValueAxis(chart: Pick<ChartElement, 'series'>): ValueAxis {
+  const values = chart.series.flatMap((series) => series.values).filter(Number.isFinite)
+  const low = Math.min(0, ...values)
+  const high = Math.max(0, ...values)
+  if (low === high) {
+    return { min: 0, max: 1, ticks: [0, 1] }
+  }
+
+  const step = getNiceStep((high - low) / TARGET_TICK_COUNT)
+  const min = Math.floor(low / step) * step
+  const max = Math.ceil(high / step) * step
+  const ticks: number[] = []
+  for (let value = min; value <= max + step / 2; value += step) {
+    // Round away floating point drift, e.g. 0.30000000000000004
+    ticks.push(Number(value.toPrecision(12)))
+  }
+  return { min, max, ticks }
+}
+
+/**
+ * Get the y position of a value in the plot
+ */
+export function getValueY(value: number, axis: ValueAxis, plot: ChartRect): number {
+  const range = axis.max - axis.min || 1
+  return plot.y + plot.height - ((value - axis.min) / range) * plot.height
+}
+
+/**
+ * Get the x position of the center of a category in the plot
+ */
+export function getCategoryX(
+  chart: Pick<ChartElement, 'categories'>,
+  categoryIndex: number,
+  plot: ChartRect
+): number {
+  const bandWidth = plot.width / Math.max(1, chart.categories.length)
+  return plot.x + bandWidth * (categoryIndex + 0.5)
+}
+
+/**
+ * Get the bars of a bar chart: series side by side within each category
+ */
+export function getChartBars(
+  chart: Pick<ChartElement, 'categories' | 'series'>,
+  plot: ChartRect,
+  axis: ValueAxis = getValueAxis(chart)
+): ChartBar[] {
+  const bandWidth = plot.width / Math.max(1, chart.categories.length)
+  const barWidth = (bandWidth * BAR_GROUP_FILL) / Math.max(1, chart.series.length)
+  const baseline = getValueY(Math.max(axis.min, Math.min(0, axis.max)), axis, plot)
+  const bars: ChartBar[] = []
+
+  chart.categories.forEach((_, categoryIndex) => {
+    const groupX = plot.x + bandWidth * categoryIndex + (bandWidth * (1 - BAR_GROUP_FILL)) / 2
+    chart.series.forEach((series, seriesIndex) => {
+      const value = series.values[categoryIndex] ?? 0
+      const y = getValueY(value, axis, plot)
+      bars.push({
+        seriesIndex,
+        categoryIndex,
+        value,
+        x: groupX + barWidth * seriesIndex,
+        y: Math.min(y, baseline),
+        width: barWidth,
+        height: Math.abs(baseline - y),
+      })
+    })
+  })
+
+  return bars
+}
+
+/**
+ * Get the points of a series in a line or area chart, one per category
+ */
+export function getSeriesPoints(
+  chart: Pick<ChartElement, 'categories' | 'series'>,
+  seriesIndex: number,
+  plot: ChartRect,
+  axis: ValueAxis = getValueAxis(chart)
+): Position[] {
+  const values = chart.series[seriesIndex]?.values ?? []
+  return chart.categories.map((_, categoryIndex) => ({
+    x: getCategoryX(chart, categoryIndex, plot),
+    y: getValueY(values[categoryIndex] ?? 0, axis, plot),
+  }))
+}
+
+/**
+ * Get the slices of a pie chart from the first series, starting at twelve o'clock.
+ * Zero and negative values get no slice.
+ */
+export function getPieSlices(chart: Pick<ChartElement, 'categories' | 'series'>): PieSlice[] {
+  const values = chart.series[0]?.values ?? []
+  const total = chart.categories.reduce(
+    (sum, _, index) => sum + Math.max(0, values[index] ?? 0),
+    0
+  )
+  if (total <= 0) return []
+
+  const slices: PieSlice[] = []
+  let angle = -Math.PI / 2
+  chart.categories.forEach((_, categoryIndex) => {
+    const value = values[categoryIndex] ?? 0
+    if (value <= 0) return
+    const sweep = (value / total) * Math.PI * 2
+    slices.push({ categoryIndex, value, startAngle: angle, endAngle: angle + sweep })
+    angle += sweep
+  })
+  return slices
+}
+
+/**
+ * Get the legend entries of a chart: categories for pie charts, series otherwise
+ */
+export function getLegendEntries(
+  chart: Pick<ChartElement, 'chartType' | 'categories' | 'series'>,
+  theme: PresentationTheme
+): Array<{ label: string; color: string }> {
+  if (chart.chartType === 'pie') {
+    return chart.categories.map((label, index) => ({ label, color: getPaletteColor(index, theme) }))
+  }
+  return chart.series.map((series, index) => ({
+    label: series.name,
+    color: getSeriesColor(chart, index, theme),
+  }))
+}
+
+/**
+ * Format a value for an axis label, shortening thousands and millions
+ */
+export function formatChartValue(value: number): string {
+  const abs = Math.abs(value)
+  if (abs >= 1_000_000) return `${String(Number((value / 1_000_000).toPrecision(3)))}M`
+  if (abs >= 1_000) return `${String(Number((value / 1_000).toPrecision(3)))}k`
+  return String(Number(value.toPrecision(6)))
+}
+
+/**
+ * Set one value of the data grid
+ */
+export function setChartValue(
+  chart: Pick<ChartElement, 'series'>,
+  seriesIndex: number,
+  categoryIndex: number,
+  value: number
+): Pick<ChartElement, 'series'> {
+  return {
+    series: chart.series.map((series, index) =>
+      index === seriesIndex
+        ? { ...series, values: series.values.map((v, i) => (i === categoryIndex ? value : v)) }
+        : series
+    ),
+  }
+}
+
+/**
+ * Rename a category
+ */
+export function setCategoryName(
+  chart: Pick<ChartElement, 'categories'>,
+  categoryIndex: number,
+  name: string
+): Pick<ChartElement, 'categories'> {
+  return { categories: chart.categories.map((c, i) => (i === categoryIndex ? name : c)) }
+}
+
+/**
+ * Rename a series
+ */
+export function setSeriesName(
+  chart: Pick<ChartElement, 'series'>,
+  seriesIndex: number,
+  name: string
+): Pick<ChartElement, 'series'> {
+  return {
+    series: chart.series.map((series, index) => (index === seriesIndex ? { ...series, name } : series)),
+  }
+}
+
+/**
+ * Add a category at the end, with a zero value in every series
+ */
+export function addCategory(
+  chart: Pick<ChartElement, 'categories' | 'series'>
+): Pick<ChartElement, 'categories' | 'series'> {
+  return {
+    categories: [...chart.categories, `Category ${String(chart.categories.length + 1)}`],
+    series: chart.series.map((series) => ({
+      ...series,
+      values: [...chart.categories.map((_, i) => series.values[i] ?? 0), 0],
+    })),
+  }
+}
+
+/**
+ * Remove a category and its values. A chart always keeps at least one category.
+ */
+export function removeCategory(
+  chart: Pick<ChartElement, 'categories' | 'series'>,
+  categoryIndex: number
+): Pick<ChartElement, 'categories' | 'series'> {
+  if (chart.categories.length <= 1) {
+    return { categories: chart.categories, series: chart.series }
+  }
+  return {
+    categories: chart.categories.filter((_, i) => i !== categoryIndex),
+    series: chart.series.map((series) => ({
+      ...series,
+      values: series.values.filter((_, i) => i !== categoryIndex),
+    })),
+  }
+}
+
+/**
+ * Add a series at the end with a zero value for every category
+ */
+export function addSeries(
+  chart: Pick<ChartElement, 'categories' | 'series'>
+): Pick<ChartElement, 'series'> {
+  return {
+    series: [
+      ...chart.series,
+      {
+        name: `Series ${String(chart.series.length + 1)}`,
+        values: chart.categories.map(() => 0),
+      },
+    ],
+  }
+}
+
+/**
+ * Remove a series. A chart always keeps at least one series.
+ */
+export function removeSeries(
+  chart: Pick<ChartElement, 'series'>,
+  seriesIndex: number
+): Pick<ChartElement, 'series'> {
+  if (chart.series.length <= 1) return { series: chart.series }
+  return { series: chart.series.filter((_, i) => i !== seriesIndex) }
+}
@@ -0,0 +1,497 @@
+/**
+ * Connector Utilities
+ * Provides functions for connector elements: creation, connection points,
+ * routing (straight, elbow and curved), arrowhead placement, hit-testing,
+ * and keeping attachments intact as elements move, are deleted or copied.
+ *
+ * An endpoint attached to another element stores the element and the side it
+ * connects to. Its position is re-resolved whenever that element changes, so
+ * moving a shape re-routes every connector attached to it.
+ */
+
+import type {
+  ConnectionSide,
+  ConnectorElement,
+  ConnectorEndpoint,
+  ElementFrame,
+  Position,
+  SlideElement,
+} from '../types/presentation'
+import { themeColorRef } from './themeUtils'
+
+/**
+ * Distance within which a dragged endpoint snaps to a connection point
+ */
+export const CONNECTION_SNAP_DISTANCE = 16
+
+/**
+ * Shortest distance the control points of a curved connector reach out from its ends
+ */
+const MIN_CURVE_OFFSET = 30
+
+/**
+ * Number of straight segments used to approximate a curved connector
+ */
+const CURVE_SEGMENTS = 24
+
+/**
+ * Sides in the order their connection points are listed
+ */
+const CONNECTION_SIDES: ConnectionSide[] = ['top', 'right', 'bottom', 'left']
+
+/**
+ * Outward direction of each side of an unrotated element
+ */
+const SIDE_NORMALS: Record<ConnectionSide, Position> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+}
+
+/**
+ * A connection point of an element
+ */
+export interface ConnectionPoint {
+  elementId: string
+  side: ConnectionSide
+  position: Position
+}
+
+/**
+ * Location of a connector end, and the direction the connector leaves it in
+ * when the end is attached to a side of an element
+ */
+export interface ResolvedEndpoint {
+  position: Position
+  direction: Position | null
+}
+
+/**
+ * Routed path of a connector. Polylines list their corners;
+ * curves list the start, the two control points and the end of a cubic Bézier.
+ */
+export interface ConnectorPath {
+  kind: 'polyline' | 'curve'
+  points: Position[]
+}
+
+/**
+ * Create a straight connector between two ends, with an arrowhead at its end.
+ * Attached ends are resolved against `elements`.
+ */
+export function createConnectorElement(
+  id: string,
+  start: ConnectorEndpoint,
+  end: ConnectorEndpoint,
+  zIndex: number,
+  elements: SlideElement[] = []
+): ConnectorElement {
+  const connector: ConnectorElement = {
+    id,
+    type: 'connector',
+    position: { x: 0, y: 0 },
+    dimensions: { width: 0, height: 0 },
+    rotation: 0,
+    zIndex,
+    opacity: 1,
+    locked: false,
+    start,
+    end,
+    routing: 'straight',
+    startArrowhead: 'none',
+    endArrowhead: 'arrow',
+    strokeColor: themeColorRef('text'),
+    strokeWidth: 2,
+  }
+  return syncConnectorBounds(connector, elements)
+}
+
+/**
+ * Rotate a vector by `degrees`
+ */
+function rotateVector(vector: Position, degrees: number): Position {
+  if (degrees === 0) return vector
+  const angle = (degrees * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return { x: vector.x * cos - vector.y * sin, y: vector.x * sin + vector.y * cos }
+}
+
+/**
+ * Get the connection points of an element: the midpoints of its four sides,
+ * following the element's rotation
+ */
+export function getConnectionPoints(element: ElementFrame): Record<ConnectionSide, Position> {
+  const { position, dimensions, rotation } = element
+  const centerX = position.x + dimensions.width / 2
+  const centerY = position.y + dimensions.height / 2
+  const point = (side: ConnectionSide): Position => {
+    const normal = SIDE_NORMALS[side]
+    const offset = rotateVector(
+      { x: (normal.x * dimensions.width) / 2, y: (normal.y * dimensions.height) / 2 },
+      rotation
+    )
+    return { x: centerX + offset.x, y: centerY + offset.y }
+  }
+
+  return { top: point('top'), right: point('right'), bottom: point('bottom'), left: point('left') }
+}
+
+/**
+ * Check whether connectors can attach to an element. Connectors can't attach to other connectors.
+ */
+export function isConnectable(element: SlideElement): boolean {
+  return element.type !== 'connector'
+}
+
+/**
+ * Find the connection point closest to `point` within `maxDistance`,
+ * ignoring locked elements, connectors and the elements in `excludeIds`
+ */
+export function getNearestConnectionPoint(
+  elements: SlideElement[],
+  point: Position,
+  maxDistance: number = CONNECTION_SNAP_DISTANCE,
+  excludeIds: string[] = []
+): ConnectionPoint | null {
+  let nearest: ConnectionPoint | null = null
+  let nearestDistance = maxDistance
+
+  for (const element of elements) {
+    if (!isConnectable(element) || element.locked || excludeIds.includes(element.id)) continue
+    const points = getConnectionPoints(element)
+    for (const side of CONNECTION_SIDES) {
+      const position = points[side]
+      const distance = Math.hypot(position.x - point.x, position.y - point.y)
+      if (distance <= nearestDistance) {
+        nearest = { elementId: element.id, side, position }
+        nearestDistance = distance
+      }
+    }
+  }
+
+  return nearest
+}
+
+/**
+ * Resolve where a connector end is. Attached ends follow their element's
+ * connection point; ends whose element isn't in `elements` keep their stored
+ * position and leave it perpendicular to the unrotated side.
+ */
+export function resolveEndpoint(endpoint: ConnectorEndpoint, elements: SlideElement[]): ResolvedEndpoint {
+  const { attachment } = endpoint
+  if (!attachment) return { position: endpoint.position, direction: null }
+
+  const target = elements.find((el) => el.id === attachment.elementId)
+  if (!target || !isConnectable(target)) {
+    return { position: endpoint.position, direction: SIDE_NORMALS[attachment.side] }
+  }
+
+  return {
+    position: getConnectionPoints(target)[attachment.side],
+    direction: rotateVector(SIDE_NORMALS[attachment.side], target.rotation),
+  }
+}
+
+/**
+ * Check whether a direction is closer to horizontal than vertical
+ */
+function isHorizontal(direction: Position): boolean {
+  return Math.abs(direction.x) >= Math.abs(direction.y)
+}
+
+/**
+ * Get the elbow route between two ends: horizontal and vertical segments,
+ * leaving attached ends perpendicular to their side
+ */
+function getElbowPoints(start: ResolvedEndpoint, end: ResolvedEndpoint): Position[] {
+  const s = start.position
+  const e = end.position
+  const fallback = { x: e.x - s.x, y: e.y - s.y }
+  const startHorizontal = isHorizontal(start.direction ?? end.direction ?? fallback)
+  const endHorizontal = end.direction ? isHorizontal(end.direction) : startHorizontal
+
+  if (startHorizontal && endHorizontal) {
+    const midX = (s.x + e.x) / 2
+    return [s, { x: midX, y: s.y }, { x: midX, y: e.y }, e]
+  }
+  if (!startHorizontal && !endHorizontal) {
+    const midY = (s.y + e.y) / 2
+    return [s, { x: s.x, y: midY }, { x: e.x, y: midY }, e]
+  }
+  return startHorizontal ? [s, { x: e.x, y: s.y }, e] : [s, { x: s.x, y: e.y }, e]
+}
+
+/**
+ * Get the control point that bends a curve out of one of its ends:
+ * along the side's outward direction for attached ends, or toward the other end otherwise
+ */
+function getCurveControlPoint(from: ResolvedEndpoint, to: Position, offset: number): Position {
+  const p = from.position
+  let direction = from.direction
+  if (!direction) {
+    const dx = to.x - p.x
+    const dy = to.y - p.y
+    direction = Math.abs(dx) >= Math.abs(dy) ? { x: Math.sign(dx), y: 0 } : { x: 0, y: Math.sign(dy) }
+  }
+  return { x: p.x + direction.x * offset, y: p.y + direction.y * offset }
+}
+
+/**
+ * Get the routed path of a connector, resolving its attached ends against `elements`
+ */
+export function getConnectorPath(
+  connector: Pick<ConnectorElement, 'start' | 'end' | 'routing'>,
+  elements: SlideElement[] = []
+): ConnectorPath {
+  const start = resolveEndpoint(connector.start, elements)
+  const end = resolveEndpoint(connector.end, elements)
+
+  switch (connector.routing) {
+    case 'elbow':
+      return { kind: 'polyline', points: getElbowPoints(start, end) }
+    case 'curved': {
+      const distance = Math.hypot(end.position.x - start.position.x, end.position.y - start.position.y)
+      const offset = Math.max(MIN_CURVE_OFFSET, distance / 2)
+      return {
+        kind: 'curve',
+        points: [
+          start.position,
+          getCurveControlPoint(start, end.position, offset),
+          getCurveControlPoint(end, start.position, offset),
+          end.position,
+        ],
+      }
+    }
+    default:
+      return { kind: 'polyline', points: [start.position, end.position] }
+  }
+}
+
+/**
+ * Get a point of a cubic Bézier curve at parameter `t`
+ */
+function getCurvePoint([p0, p1, p2, p3]: Position[], t: number): Position {
+  const a = p0 ?? { x: 0, y: 0 }
+  const b = p1 ?? a
+  const c = p2 ?? b
+  const d = p3 ?? c
+  const u = 1 - t
+  return {
+    x: u * u * u * a.x + 3 * u * u * t * b.x + 3 * u * t * t * c.x + t * t * t * d.x,
+    y: u * u * u * a.y + 3 * u * u * t * b.y + 3 * u * t * t * c.y + t * t * t * d.y,
+  }
+}
+
+/**
+ * Approximate a connector path by straight segments
+ */
+export function flattenConnectorPath(path: ConnectorPath): Position[] {
+  if (path.kind === 'polyline') return path.points
+  return Array.from({ length: CURVE_SEGMENTS + 1 }, (_, i) => getCurvePoint(path.points, i / CURVE_SEGMENTS))
+}
+
+/**
+ * Get the angle, in radians, an arrowhead at one end of a path points in.
+ * The arrowhead points away from the path, along its last non-empty segment.
+ */
+export function getArrowheadAngle(path: ConnectorPath, end: 'start' | 'end'): number {
+  const points = end === 'end' ? path.points : [...path.points].reverse()
+  const tip = points[points.length - 1]
+  if (!tip) return 0
+
+  for (let i = points.length - 2; i >= 0; i--) {
+    const from = points[i]
+    if (from && (from.x !== tip.x || from.y !== tip.y)) {
+      return Math.atan2(tip.y - from.y, tip.x - from.x)
+    }
+  }
+  return 0
+}
+
+/**
+ * Get the shortest distance from a point to a connector's path
+ */
+export function getDistanceToConnector(
+  connector: Pick<ConnectorElement, 'start' | 'end' | 'routing'>,
+  point: Position,
+  elements: SlideElement[] = []
+): number {
+  const points = flattenConnectorPath(getConnectorPath(connector, elements))
+  let distance = Infinity
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i]
+    const b = points[i + 1]
+    if (!a || !b) continue
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const lengthSquared = dx * dx + dy * dy
+    const t =
+      lengthSquared > 0
+        ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+        : 0
+    distance = Math.min(distance, Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy)))
+  }
+
+  return points.length === 1 && points[0]
+    ? Math.hypot(point.x - points[0].x, point.y - points[0].y)
+    : distance
+}
+
+/**
+ * Set a connector's position and dimensions to the bounds of its routed path
+ */
+export function syncConnectorBounds(
+  connector: ConnectorElement,
+  elements: SlideElement[] = []
+): ConnectorElement {
+  const points = flattenConnectorPath(getConnectorPath(connector, elements))
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const left = Math.min(...xs)
+  const top = Math.min(...ys)
+
+  return {
+    ...connector,
+    position: { x: left, y: top },
+    dimensions: { width: Math.max(...xs) - left, height: Math.max(...ys) - top },
+    rotation: 0,
+  }
+}
+
+/**
+ * Map a point from one frame to another, keeping its place relative to the frame
+ * and turning it with the new frame's rotation
+ */
+function mapPointToFrame(point: Position, from: ElementFrame, to: ElementFrame): Position {
+  const u = from.dimensions.width > 0 ? (point.x - from.position.x) / from.dimensions.width : 0.5
+  const v = from.dimensions.height > 0 ? (point.y - from.position.y) / from.dimensions.height : 0.5
+  const offset = rotateVector(
+    { x: (u - 0.5) * to.dimensions.width, y: (v - 0.5) * to.dimensions.height },
+    to.rotation
+  )
+  return {
+    x: to.position.x + to.dimensions.width / 2 + offset.x,
+    y: to.position.y + to.dimensions.height / 2 + offset.y,
+  }
+}
+
+/**
+ * Check whether two frames differ
+ */
+function framesDiffer(a: ElementFrame, b: ElementFrame): boolean {
+  return (
+    a.position.x !== b.position.x ||
+    a.position.y !== b.position.y ||
+    a.dimensions.width !== b.dimensions.width ||
+    a.dimensions.height !== b.dimensions.height ||
+    a.rotation !== b.rotation
+  )
+}
+
+/**
+ * Keep connectors consistent after elements change.
+ *
+ * - A connector whose frame was moved, resized or rotated carries its ends along;
+ *   an end stays attached only if the element it's attached to changed too.
+ * - Attached ends follow their elements, and ends whose element was removed are detached.
+ *   Ends attached to elements not added yet, as while pasting, keep their attachment.
+ * - Connector bounds are re-synced to the routed path.
+ *
+ * Connectors unaffected by the change are returned unchanged.
+ */
+export function updateConnectors(
+  previous: SlideElement[],
+  elements: SlideElement[],
+  changedIds: ReadonlySet<string>
+): SlideElement[] {
+  const isAffected = (endpoint: ConnectorEndpoint): boolean =>
+    endpoint.attachment !== undefined && changedIds.has(endpoint.attachment.elementId)
+
+  return elements.map((element) => {
+    if (element.type !== 'connector') return element
+    const prior = previous.find((el) => el.id === element.id)
+    const changed = changedIds.has(element.id)
+    if (!changed && !isAffected(element.start) && !isAffected(element.end)) return element
+
+    let { start, end } = element
+    // The connector itself was transformed, not its endpoints
+    if (
+      changed &&
+      prior?.type === 'connector' &&
+      prior.start === start &&
+      prior.end === end &&
+      framesDiffer(prior, element)
+    ) {
+      const carry = (endpoint: ConnectorEndpoint): ConnectorEndpoint => {
+        const position = mapPointToFrame(endpoint.position, prior, element)
+        return isAffected(endpoint) && endpoint.attachment
+          ? { position, attachment: endpoint.attachment }
+          : { position }
+      }
+      start = carry(start)
+      end = carry(end)
+    }
+
+    // Follow attached elements, detaching from elements that were removed
+    const follow = (endpoint: ConnectorEndpoint): ConnectorEndpoint => {
+      const { attachment } = endpoint
+      if (!attachment) return endpoint
+      const target = elements.find((el) => el.id === attachment.elementId)
+      if (!target) {
+        const wasRemoved = previous.some((el) => el.id === attachment.elementId)
+        return wasRemoved ? { position: endpoint.position } : endpoint
+      }
+      return { position: resolveEndpoint(endpoint, elements).position, attachment }
+    }
+
+    return syncConnectorBounds({ ...element, start: follow(start), end: follow(end) }, elements)
+  })
+}
+
+/**
+ * Copy a connector for pasting: ends move by `offset`, and attachments are remapped
+ * to the copies in `idMap`. Ends attached to elements that weren't copied are detached.
+ */
+export function copyConnector(
+  connector: ConnectorElement,
+  idMap: ReadonlyMap<string, string>,
+  offset: Position
+): ConnectorElement {
+  const copyEndpoint = ({ position, attachment }: ConnectorEndpoint): ConnectorEndpoint => {
+    const moved = { x: position.x + offset.x, y: position.y + offset.y }
+    const elementId = attachment && idMap.get(attachment.elementId)
+    return attachment && elementId
+      ? { position: moved, attachment: { elementId, side: attachment.side } }
+      : { position: moved }
+  }
+
+  return syncConnectorBounds({
+    ...connector,
+    start: copyEndpoint(connector.start),
+    end: copyEndpoint(connector.end),
+  })
+}
+
+/**
+ * Give every element of a slide a new ID, keeping connectors attached
+ * to the same elements under their new IDs
+ */
+export function remapElementIds(elements: SlideElement[], createId: () => string): SlideElement[] {
+  const idMap = new Map(elements.map((el) => [el.id, createId()]))
+  const remap = (endpoint: ConnectorEndpoint): ConnectorEndpoint => {
+    const elementId = endpoint.attachment && idMap.get(endpoint.attachment.elementId)
+    return endpoint.attachment && elementId
+      ? { ...endpoint, attachment: { ...endpoint.attachment, elementId } }
+      : endpoint
+  }
+
+  return elements.map((el) => {
+    const id = idMap.get(el.id) ?? createId()
+    return el.type === 'connector'
+      ? { ...el, id, start: remap(el.start), end: remap(el.end) }
+      : { ...el, id }
+  })
+}
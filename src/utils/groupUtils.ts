@@ -0,0 +1,272 @@
+/**
+ * Element Grouping Utilities
+ * Provides functions for grouping elements on a slide and transforming groups as a unit.
+ *
+ * Groups are stored as membership: every element of a group carries the same
+ * `groupId`. A group is flat, so grouping elements that already belong to
+ * groups merges them into one new group.
+ */
+
+import type { ElementFrame, SlideElement } from '../types/presentation'
+
+/**
+ * Axis-aligned bounds of an element or a group
+ */
+export interface Bounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/**
+ * A selected element, or a selected group, and the frame it is transformed by
+ */
+export interface SelectionFrame {
+  /** IDs of the elements in the unit */
+  elementIds: string[]
+  /** Placement of the unit; groups use their unrotated bounding box */
+  frame: ElementFrame
+  /** Whether the unit is a group of elements */
+  isGroup: boolean
+}
+
+/**
+ * Changes to apply to an element, in the shape accepted by `updateElements`
+ */
+export interface ElementUpdate {
+  id: string
+  changes: Partial<SlideElement>
+}
+
+/**
+ * Get the IDs of the given elements plus every other member of their groups.
+ * Order follows the given IDs, with group members added after the first member found.
+ */
+export function expandToGroups(elements: SlideElement[], elementIds: string[]): string[] {
+  const result = new Set<string>()
+  for (const id of elementIds) {
+    const element = elements.find((el) => el.id === id)
+    if (!element) continue
+    if (element.groupId) {
+      for (const member of elements) {
+        if (member.groupId === element.groupId) result.add(member.id)
+      }
+    } else {
+      result.add(id)
+    }
+  }
+  return [...result]
+}
+
+/**
+ * Split elements into units that move together: one unit per group,
+ * and one unit for each ungrouped element. Units keep the order of their first element.
+ */
+export function getSelectionUnits(elements: SlideElement[]): SlideElement[][] {
+  const units: SlideElement[][] = []
+  const groups = new Map<string, SlideElement[]>()
+
+  for (const element of elements) {
+    if (!element.groupId) {
+      units.push([element])
+      continue
+    }
+    const group = groups.get(element.groupId)
+    if (group) {
+      group.push(element)
+    } else {
+      const unit = [element]
+      groups.set(element.groupId, unit)
+      units.push(unit)
+    }
+  }
+
+  return units
+}
+
+/**
+ * Get the axis-aligned bounds of an element, including its rotation
+ */
+export function getRotatedBounds(element: ElementFrame): Bounds {
+  const { position, dimensions, rotation } = element
+  const centerX = position.x + dimensions.width / 2
+  const centerY = position.y + dimensions.height / 2
+  const angle = (rotation * Math.PI) / 180
+  const cos = Math.abs(Math.cos(angle))
+  const sin = Math.abs(Math.sin(angle))
+  const halfWidth = (dimensions.width * cos + dimensions.height * sin) / 2
+  const halfHeight = (dimensions.width * sin + dimensions.height * cos) / 2
+
+  return {
+    left: centerX - halfWidth,
+    top: centerY - halfHeight,
+    right: centerX + halfWidth,
+    bottom: centerY + halfHeight,
+  }
+}
+
+/**
+ * Get the frame of a unit: an ungrouped element keeps its own frame,
+ * a group gets the unrotated bounding box of all its members
+ */
+export function getUnitFrame(unit: SlideElement[]): ElementFrame {
+  const [first] = unit
+  if (unit.length === 1 && first && !first.groupId) {
+    return { position: first.position, dimensions: first.dimensions, rotation: first.rotation }
+  }
+
+  const bounds = unit.map(getRotatedBounds)
+  const left = Math.min(...bounds.map((b) => b.left))
+  const top = Math.min(...bounds.map((b) => b.top))
+  const right = Math.max(...bounds.map((b) => b.right))
+  const bottom = Math.max(...bounds.map((b) => b.bottom))
+
+  return {
+    position: { x: left, y: top },
+    dimensions: { width: right - left, height: bottom - top },
+    rotation: 0,
+  }
+}
+
+/**
+ * Get the frames of the selected elements, one per element or group
+ */
+export function getSelectionFrames(
+  elements: SlideElement[],
+  selectedElementIds: string[]
+): SelectionFrame[] {
+  const selected = selectedElementIds
+    .map((id) => elements.find((el) => el.id === id))
+    .filter((el): el is SlideElement => el !== undefined)
+
+  return getSelectionUnits(selected).map((unit) => {
+    // Frames cover every member of a group, even ones missing from the selection
+    const groupId = unit[0]?.groupId
+    const members = groupId ? elements.filter((el) => el.groupId === groupId) : unit
+    return {
+      elementIds: members.map((el) => el.id),
+      frame: getUnitFrame(members),
+      isGroup: groupId !== undefined,
+    }
+  })
+}
+
+/**
+ * Check whether the elements can be grouped: at least two units,
+ * so a selection that already is exactly one group can't be grouped again
+ */
+export function canGroup(elements: SlideElement[]): boolean {
+  return getSelectionUnits(elements).length >= 2
+}
+
+/**
+ * Check whether any of the elements belongs to a group
+ */
+export function canUngroup(elements: SlideElement[]): boolean {
+  return elements.some((el) => el.groupId !== undefined)
+}
+
+/**
+ * Put the given elements, and the members of groups they belong to, into one group
+ */
+export function groupElements(
+  elements: SlideElement[],
+  elementIds: string[],
+  groupId: string
+): SlideElement[] {
+  const memberIds = new Set(expandToGroups(elements, elementIds))
+  return elements.map((el) => (memberIds.has(el.id) ? { ...el, groupId } : el))
+}
+
+/**
+ * Dissolve the groups that any of the given elements belong to
+ */
+export function ungroupElements(elements: SlideElement[], elementIds: string[]): SlideElement[] {
+  const groupIds = new Set(
+    elements
+      .filter((el) => elementIds.includes(el.id) && el.groupId)
+      .map((el) => el.groupId)
+  )
+  return elements.map((el) => {
+    if (!el.groupId || !groupIds.has(el.groupId)) return el
+    const { groupId: _groupId, ...rest } = el
+    return rest as SlideElement
+  })
+}
+
+/**
+ * Give copied elements fresh group IDs, keeping copies of the same group together,
+ * so pasted copies don't join the groups of their originals
+ */
+export function remapGroupIds(elements: SlideElement[], createId: () => string): SlideElement[] {
+  const mapping = new Map<string, string>()
+  return elements.map((el) => {
+    if (!el.groupId) return el
+    let groupId = mapping.get(el.groupId)
+    if (!groupId) {
+      groupId = createId()
+      mapping.set(el.groupId, groupId)
+    }
+    return { ...el, groupId }
+  })
+}
+
+/**
+ * Scale the members of a group from one frame to another,
+ * keeping each member's placement relative to the group
+ */
+export function resizeGroup(
+  members: SlideElement[],
+  from: ElementFrame,
+  to: ElementFrame
+): ElementUpdate[] {
+  const scaleX = from.dimensions.width > 0 ? to.dimensions.width / from.dimensions.width : 1
+  const scaleY = from.dimensions.height > 0 ? to.dimensions.height / from.dimensions.height : 1
+
+  return members.map((el) => ({
+    id: el.id,
+    changes: {
+      position: {
+        x: to.position.x + (el.position.x - from.position.x) * scaleX,
+        y: to.position.y + (el.position.y - from.position.y) * scaleY,
+      },
+      dimensions: {
+        width: el.dimensions.width * scaleX,
+        height: el.dimensions.height * scaleY,
+      },
+    },
+  }))
+}
+
+/**
+ * Rotate the members of a group by `degrees` around the center of the group frame
+ */
+export function rotateGroup(
+  members: SlideElement[],
+  frame: ElementFrame,
+  degrees: number
+): ElementUpdate[] {
+  const pivotX = frame.position.x + frame.dimensions.width / 2
+  const pivotY = frame.position.y + frame.dimensions.height / 2
+  const angle = (degrees * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+
+  return members.map((el) => {
+    const centerX = el.position.x + el.dimensions.width / 2 - pivotX
+    const centerY = el.position.y + el.dimensions.height / 2 - pivotY
+    const rotatedX = centerX * cos - centerY * sin + pivotX
+    const rotatedY = centerX * sin + centerY * cos + pivotY
+    return {
+      id: el.id,
+      changes: {
+        position: {
+          x: rotatedX - el.dimensions.width / 2,
+          y: rotatedY - el.dimensions.height / 2,
+        },
+        rotation: (((el.rotation + degrees) % 360) + 360) % 360,
+      },
+    }
+  })
+}
@@ -0,0 +1,425 @@
+/**
+ * HTML Exporter utility for exporting presentations as a web slideshow.
+ * Writes a single HTML file that plays the presentation in any browser, so decks
+ * can be sent to people without the app. Slides are written as inline SVG with
+ * SlideSvgRenderer, with images and fonts embedded as data URLs, and a small
+ * player script offers the keyboard navigation, transitions, jump-to-slide and
+ * speaker notes of presentation mode.
+ */
+
+import type { Presentation, Slide } from '@/types/presentation'
+import { SlideSvgRenderer } from './SlideSvgRenderer'
+import { findFontFile, getSlideFonts, loadFontFile } from './pdfFonts'
+import type { MeasureText } from './textLayout'
+import { downloadFile } from './localStorage'
+
+/**
+ * Configuration options for HTML export
+ */
+export interface HtmlExportOptions {
+  /** Whether to include speaker notes, shown with the N key */
+  includeNotes: boolean
+  /** Whether to embed the web fonts the slides use */
+  embedFonts: boolean
+  /** Callback for progress updates (0-100) */
+  onProgress?: (progress: number) => void
+  /** Measures text for layout; defaults to measuring with the page's fonts */
+  measureText?: MeasureText
+}
+
+/**
+ * Default export options
+ */
+export const DEFAULT_HTML_OPTIONS: HtmlExportOptions = {
+  includeNotes: true,
+  embedFonts: true,
+}
+
+/**
+ * Result type for HTML export operations
+ */
+export interface HtmlExportResult {
+  success: boolean
+  error?: string
+}
+
+/**
+ * Styles of the slideshow. Transitions use the keyframes of presentation mode.
+ */
+const SLIDESHOW_CSS = `
+*, *::before, *::after { box-sizing: border-box; }
+html, body { margin: 0; height: 100%; background: #000; overflow: hidden; }
+body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #fff; }
+.sr-only { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; }
+.stage { position: fixed; inset: 0; display: flex; align-items: center; justify-content: center; outline: none; }
+.slide { display: none; width: min(100vw, calc(100vh * 16 / 9)); height: min(100vh, calc(100vw * 9 / 16)); }
+.slide.current { display: block; }
+.slide svg { display: block; width: 100%; height: 100%; }
+.nav-bar { position: fixed; bottom: 1.5rem; left: 50%; transform: translateX(-50%); display: flex; align-items: center; gap: 0.5rem; padding: 0.5rem; border-radius: 9999px; background: rgba(0, 0, 0, 0.7); opacity: 0; transition: opacity 0.3s ease; }
+.controls-visible .nav-bar, .nav-bar:focus-within { opacity: 1; }
+.nav-bar button { border: 0; border-radius: 9999px; padding: 0.5rem 0.875rem; background: transparent; color: inherit; font: inherit; font-size: 0.875rem; cursor: pointer; }
+.nav-bar button:hover:not(:disabled) { background: rgba(255, 255, 255, 0.15); }
+.nav-bar button:disabled { opacity: 0.4; cursor: default; }
+.jump { position: fixed; top: 50%; left: 50%; transform: translate(-50%, -50%); padding: 1.5rem; border-radius: 0.75rem; background: #1f2937; }
+.jump label { display: block; margin-bottom: 0.75rem; }
+.jump input { width: 8rem; padding: 0.5rem; border: 1px solid #4b5563; border-radius: 0.375rem; background: #111827; color: inherit; font: inherit; }
+.notes { position: fixed; bottom: 6.5rem; left: 50%; transform: translateX(-50%); width: min(90vw, 48rem); max-height: 30vh; overflow-y: auto; padding: 1rem 1.25rem; border-radius: 0.75rem; background: rgba(0, 0, 0, 0.85); white-space: pre-wrap; line-height: 1.5; }
+.notes h2 { margin: 0 0 0.5rem; font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; opacity: 0.7; }
+[hidden] { display: none !important; }
+
+@keyframes transitionFadeIn {
+  from { opacity: 0; }
+  to { opacity: 1; }
+}
+@keyframes transitionSlideInFromRight {
+  from { transform: translateX(100%); opacity: 0; }
+  to { transform: translateX(0); opacity: 1; }
+}
+@keyframes transitionSlideInFromLeft {
+  from { transform: translateX(-100%); opacity: 0; }
+  to { transform: translateX(0); opacity: 1; }
+}
+@keyframes transitionZoomIn {
+  from { transform: scale(0.5); opacity: 0; }
+  to { transform: scale(1); opacity: 1; }
+}
+@keyframes transitionZoomOut {
+  from { transform: scale(1.5); opacity: 0; }
+  to { transform: scale(1); opacity: 1; }
+}
+.slide.transition-fade { animation: transitionFadeIn var(--transition-duration, 500ms) ease-out; }
+.slide.transition-slide.transition-forward { animation: transitionSlideInFromRight var(--transition-duration, 500ms) ease-out; }
+.slide.transition-slide.transition-backward { animation: transitionSlideInFromLeft var(--transition-duration, 500ms) ease-out; }
+.slide.transition-zoom.transition-forward { animation: transitionZoomIn var(--transition-duration, 500ms) ease-out; }
+.slide.transition-zoom.transition-backward { animation: transitionZoomOut var(--transition-duration, 500ms) ease-out; }
+@media (prefers-reduced-motion: reduce) {
+  .slide.transition-fade, .slide.transition-slide, .slide.transition-zoom { animation: none !important; }
+}
+`
+
+/**
+ * Styles that list every slide when scripts are disabled
+ */
+const NOSCRIPT_CSS = `
+html, body { overflow: auto; height: auto; }
+.stage { position: static; display: block; }
+.slide { display: block; margin: 0 auto 1rem; }
+.nav-bar { display: none; }
+`
+
+/**
+ * Player script: the keyboard, click and button navigation of presentation mode,
+ * plus fullscreen and a link to each slide in the address
+ */
+const PLAYER_SCRIPT = `
+(function () {
+  var root = document.documentElement;
+  var stage = document.getElementById('stage');
+  var slides = Array.prototype.slice.call(document.querySelectorAll('.slide'));
+  var prevButton = document.getElementById('prev-slide');
+  var nextButton = document.getElementById('next-slide');
+  var counter = document.getElementById('slide-counter');
+  var announcer = document.getElementById('announcer');
+  var jump = document.getElementById('jump');
+  var jumpInput = document.getElementById('jump-input');
+  var notes = document.getElementById('notes');
+  var notesText = document.getElementById('notes-text');
+  var current = -1;
+  var transitionTimer = 0;
+  var controlsTimer = 0;
+  var announceTimer = 0;
+
+  function announce(message) {
+    announcer.textContent = message;
+    clearTimeout(announceTimer);
+    announceTimer = setTimeout(function () { announcer.textContent = ''; }, 1000);
+  }
+
+  function updateNotes() {
+    if (!notes) return;
+    var template = slides[current].querySelector('template.slide-notes');
+    var text = template ? template.content.textContent : '';
+    notesText.textContent = text || 'No notes for this slide.';
+  }
+
+  function show(index, direction) {
+    index = Math.max(0, Math.min(index, slides.length - 1));
+    if (index === current) return;
+    if (current >= 0) slides[current].className = 'slide';
+    var slide = slides[index];
+    slide.className = 'slide current';
+    clearTimeout(transitionTimer);
+
+    var type = slide.getAttribute('data-transition');
+    var duration = Number(slide.getAttribute('data-duration')) || 500;
+    if (direction && type && type !== 'none') {
+      slide.style.setProperty('--transition-duration', duration + 'ms');
+      slide.className += ' transition-' + type + ' transition-' + direction;
+      transitionTimer = setTimeout(function () { slide.className = 'slide current'; }, duration);
+    }
+
+    current = index;
+    var label = 'Slide ' + (index + 1) + ' of ' + slides.length;
+    counter.textContent = label;
+    counter.setAttribute('aria-label', label + '. Click to jump to slide.');
+    prevButton.disabled = index === 0;
+    nextButton.disabled = index === slides.length - 1;
+    updateNotes();
+    announce(label);
+    if (history.replaceState) history.replaceState(null, '', '#' + (index + 1));
+  }
+
+  function next() { if (current < slides.length - 1) show(current + 1, 'forward'); }
+  function prev() { if (current > 0) show(current - 1, 'backward'); }
+
+  function openJump() {
+    jump.hidden = false;
+    jumpInput.value = '';
+    jumpInput.focus();
+  }
+
+  function closeJump() {
+    jump.hidden = true;
+    stage.focus();
+  }
+
+  function toggleFullscreen() {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(function () {});
+    } else if (root.requestFullscreen) {
+      root.requestFullscreen().catch(function () {});
+    }
+  }
+
+  function showControls() {
+    root.classList.add('controls-visible');
+    clearTimeout(controlsTimer);
+    controlsTimer = setTimeout(function () {
+      if (jump.hidden) root.classList.remove('controls-visible');
+    }, 3000);
+  }
+
+  document.addEventListener('keydown', function (e) {
+    if (!jump.hidden || e.ctrlKey || e.metaKey || e.altKey) return;
+    switch (e.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+      case ' ':
+      case 'PageDown':
+        e.preventDefault();
+        next();
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+      case 'PageUp':
+        e.preventDefault();
+        prev();
+        break;
+      case 'Home':
+        e.preventDefault();
+        show(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        show(slides.length - 1);
+        break;
+      case 'g':
+      case 'G':
+        e.preventDefault();
+        openJump();
+        break;
+      case 'n':
+      case 'N':
+        if (!notes) break;
+        e.preventDefault();
+        notes.hidden = !notes.hidden;
+        break;
+      case 'f':
+      case 'F':
+        e.preventDefault();
+        toggleFullscreen();
+        break;
+      case 'Escape':
+        if (document.fullscreenElement) {
+          e.preventDefault();
+          toggleFullscreen();
+        } else if (notes && !notes.hidden) {
+          e.preventDefault();
+          notes.hidden = true;
+        }
+        break;
+    }
+  });
+
+  jump.addEventListener('submit', function (e) {
+    e.preventDefault();
+    var number = parseInt(jumpInput.value, 10);
+    if (!isNaN(number) && number >= 1 && number <= slides.length) {
+      show(number - 1, number - 1 > current ? 'forward' : 'backward');
+      closeJump();
+    }
+  });
+
+  jumpInput.addEventListener('keydown', function (e) {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      closeJump();
+    }
+  });
+
+  // Click on left 30% goes back, right 70% goes forward
+  stage.addEventListener('click', function (e) {
+    if (e.target.closest && e.target.closest('a')) return;
+    if (e.clientX < window.innerWidth * 0.3) prev();
+    else next();
+  });
+
+  prevButton.addEventListener('click', prev);
+  nextButton.addEventListener('click', next);
+  counter.addEventListener('click', openJump);
+  document.addEventListener('mousemove', showControls);
+
+  var start = parseInt(location.hash.slice(1), 10);
+  show(isNaN(start) ? 0 : start - 1);
+  stage.focus();
+})();
+`
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Get the @font-face rules that embed the web fonts the slides use.
+ * Fonts that can't be downloaded are left out, so their text uses the
+ * viewer's fallback fonts.
+ */
+async function getFontFaces(presentation: Presentation): Promise<string[]> {
+  const rules: string[] = []
+  const embedded = new Set<string>()
+  for (const request of presentation.slides.flatMap((slide) =>
+    getSlideFonts(slide, presentation.theme)
+  )) {
+    const fontFile = findFontFile(request)
+    if (!fontFile || embedded.has(fontFile.url)) continue
+    embedded.add(fontFile.url)
+
+    const file = await loadFontFile(fontFile.url)
+    if (!file) continue
+    rules.push(
+      `@font-face { font-family: '${fontFile.family}'; ` +
+        `font-weight: ${request.bold ? '700' : '400'}; ` +
+        `font-style: ${request.italic ? 'italic' : 'normal'}; ` +
+        `src: url(data:font/ttf;base64,${file}) format('truetype'); }`
+    )
+  }
+  return rules
+}
+
+/**
+ * Write the section holding a slide, with its transition and notes
+ */
+function slideSection(slide: Slide, index: number, svg: string, includeNotes: boolean): string {
+  const label = `Slide ${String(index + 1)}: ${slide.title || 'Untitled'}`
+  const notes =
+    includeNotes && slide.notes.trim()
+      ? `<template class="slide-notes">${escapeHtml(slide.notes)}</template>`
+      : ''
+  return (
+    `<section class="slide" role="group" aria-roledescription="slide" ` +
+    `aria-label="${escapeHtml(label)}" data-transition="${slide.transition.type}" ` +
+    `data-duration="${String(slide.transition.duration)}">${svg}${notes}</section>`
+  )
+}
+
+/**
+ * Create a self-contained HTML slideshow of a presentation
+ */
+export async function createHtmlSlideshow(
+  presentation: Presentation,
+  options: Partial<HtmlExportOptions> = {}
+): Promise<string> {
+  const { includeNotes, embedFonts, onProgress, measureText } = {
+    ...DEFAULT_HTML_OPTIONS,
+    ...options,
+  }
+  const { slides } = presentation
+  const renderer = new SlideSvgRenderer({
+    theme: presentation.theme,
+    ...(measureText && { measureText }),
+  })
+
+  const fontFaces = embedFonts ? await getFontFaces(presentation) : []
+
+  const sections: string[] = []
+  for (const [index, slide] of slides.entries()) {
+    await renderer.preloadImages(slide)
+    sections.push(slideSection(slide, index, renderer.render(slide), includeNotes))
+    onProgress?.(Math.round(((index + 1) / slides.length) * 100))
+  }
+
+  const hasNotes = includeNotes && slides.some((slide) => slide.notes.trim())
+  const title = escapeHtml(presentation.name)
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="Presentation slideshow export">
+<title>${title}</title>
+<style>${[...fontFaces, SLIDESHOW_CSS].join('\n')}</style>
+<noscript><style>${NOSCRIPT_CSS}</style></noscript>
+</head>
+<body>
+<main id="stage" class="stage" tabindex="-1" aria-label="${title}">
+${sections.join('\n')}
+</main>
+<div id="announcer" class="sr-only" role="status" aria-live="polite" aria-atomic="true"></div>
+<nav class="nav-bar" aria-label="Presentation navigation">
+<button type="button" id="prev-slide" aria-label="Previous slide">&#8592;</button>
+<button type="button" id="slide-counter"></button>
+<button type="button" id="next-slide" aria-label="Next slide">&#8594;</button>
+</nav>
+<form id="jump" class="jump" hidden>
+<label for="jump-input">Go to slide (1-${String(slides.length)})</label>
+<input id="jump-input" type="number" min="1" max="${String(slides.length)}" inputmode="numeric">
+</form>
+${hasNotes ? '<aside id="notes" class="notes" hidden aria-label="Speaker notes"><h2>Speaker notes</h2><div id="notes-text"></div></aside>' : ''}
+<script>${PLAYER_SCRIPT}</script>
+</body>
+</html>
+`
+}
+
+/**
+ * Export a presentation as a web slideshow and download it
+ */
+export async function exportToHtml(
+  presentation: Presentation,
+  options: Partial<HtmlExportOptions> = {}
+): Promise<HtmlExportResult> {
+  if (presentation.slides.length === 0) {
+    return { success: false, error: 'Presentation has no slides to export' }
+  }
+
+  try {
+    const html = await createHtmlSlideshow(presentation, options)
+
+    // Generate filename
+    const sanitizedName = presentation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()
+    downloadFile(html, `${sanitizedName}.html`, 'text/html')
+
+    return { success: true }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    return { success: false, error: `Failed to export HTML: ${errorMessage}` }
+  }
+}
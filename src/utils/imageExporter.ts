@@ -1,15 +1,23 @@
 /**
- * Image Exporter utility for exporting slides as PNG/JPG images.
+ * Image Exporter utility for exporting slides as PNG/JPG/SVG images.
  * Supports exporting individual slides or all slides with configurable resolution and format.
+ * SVG images are written with SlideSvgRenderer, so text, shapes and backgrounds stay
+ * vectors (with images embedded) and can be edited in design tools.
+ * Multiple slides are downloaded as one ZIP archive, optionally with a manifest
+ * listing each slide's file, title and notes.
  */
 
-import type { Presentation, Slide } from '@/types/presentation'
+import { strToU8, zip, type Zippable } from 'fflate'
+import type { Presentation, Slide, PresentationTheme } from '@/types/presentation'
 import { SlideCanvasRenderer } from './SlideCanvasRenderer'
+import { SlideSvgRenderer } from './SlideSvgRenderer'
+import { decodeDataUrl, encodeDataUrl } from './assetLibrary'
+import { downloadFile } from './localStorage'
 
 /**
  * Supported image formats
  */
-export type ImageFormat = 'png' | 'jpg'
+export type ImageFormat = 'png' | 'jpg' | 'svg'
 
 /**
  * Resolution presets for image export
@@ -25,9 +33,9 @@ export type ExportRange = 'current' | 'all'
  * Configuration options for image export
  */
 export interface ImageExportOptions {
-  /** Image format (PNG or JPG) */
+  /** Image format (PNG, JPG or SVG) */
   format: ImageFormat
-  /** Resolution preset */
+  /** Resolution preset, for PNG and JPG */
   resolution: ResolutionPreset
   /** Export range (current slide or all slides) */
   range: ExportRange
@@ -35,8 +43,12 @@ export interface ImageExportOptions {
   jpegQuality: number
   /** Callback for progress updates (0-100) */
   onProgress?: (progress: number) => void
+  /** Whether to add a manifest of slide titles and notes to the archive of all slides */
+  includeManifest: boolean
   /** Current slide ID (required when range is 'current') */
   currentSlideId?: string
+  /** Theme used to resolve theme-referenced colors and fonts */
+  theme?: PresentationTheme
 }
 
 /**
@@ -47,6 +59,7 @@ export const DEFAULT_IMAGE_OPTIONS: ImageExportOptions = {
   resolution: 'high',
   range: 'current',
   jpegQuality: 90,
+  includeManifest: true,
 }
 
 /**
@@ -64,6 +77,16 @@ export const RESOLUTION_SETTINGS: Record<ResolutionPreset, { scale: number; labe
 export const FORMAT_LABELS: Record<ImageFormat, string> = {
   png: 'PNG (Lossless)',
   jpg: 'JPEG (Smaller size)',
+  svg: 'SVG (Vector)',
+}
+
+/**
+ * Format descriptions
+ */
+export const FORMAT_DESCRIPTIONS: Record<ImageFormat, string> = {
+  png: 'Lossless quality, best for graphics and text',
+  jpg: 'Smaller file size, best for photos',
+  svg: 'Scalable artwork with editable text and shapes, best for design tools',
 }
 
 /**
@@ -80,6 +103,26 @@ export const RANGE_LABELS: Record<ExportRange, string> = {
 const SLIDE_WIDTH = 960
 const SLIDE_HEIGHT = 540
 
+/**
+ * Name of the manifest file in slide archives
+ */
+export const MANIFEST_FILENAME = 'manifest.json'
+
+/**
+ * Manifest of a slide archive, describing each image
+ */
+export interface ImageExportManifest {
+  presentation: string
+  format: ImageFormat
+  slides: {
+    /** 1-based slide number */
+    number: number
+    file: string
+    title: string
+    notes: string
+  }[]
+}
+
 /**
  * Result type for image export operations
  */
@@ -89,15 +132,41 @@ export interface ImageExportResult {
   error?: string
 }
 
+/**
+ * Declaration at the start of SVG files
+ */
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n'
+
+/**
+ * Approximate size of an SVG slide without images, in bytes
+ */
+const SVG_BYTES_PER_SLIDE = 30 * 1024
+
+/**
+ * Write a slide as an SVG image data URL, at the slide's own size
+ */
+async function renderSlideToSvg(slide: Slide, theme: PresentationTheme | undefined): Promise<string> {
+  const renderer = new SlideSvgRenderer(theme && { theme })
+  await renderer.preloadImages(slide)
+  const svg = XML_DECLARATION + renderer.render(slide)
+  return encodeDataUrl('image/svg+xml', strToU8(svg))
+}
+
 /**
  * Render a slide to an image data URL
  */
 async function renderSlideToImage(
   slide: Slide,
+  theme: PresentationTheme | undefined,
   format: ImageFormat,
   resolution: ResolutionPreset,
   jpegQuality: number
 ): Promise<string> {
+  // Vector images don't depend on the resolution
+  if (format === 'svg') {
+    return renderSlideToSvg(slide, theme)
+  }
+
   // Create an offscreen canvas
   const canvas = document.createElement('canvas')
   const { scale } = RESOLUTION_SETTINGS[resolution]
@@ -126,6 +195,7 @@ async function renderSlideToImage(
     showSelectionHandles: false,
     selectedElementIds: [],
     hoveredElementId: null,
+    ...(theme && { theme }),
   })
 
   // Convert to data URL with appropriate format and quality
@@ -185,16 +255,15 @@ export async function exportSlideToImage(
   options: Partial<ImageExportOptions> = {}
 ): Promise<ImageExportResult> {
   const config = { ...DEFAULT_IMAGE_OPTIONS, ...options }
-  const { format, resolution, jpegQuality } = config
+  const { format, resolution, jpegQuality, theme } = config
 
   try {
     // Render slide to image
-    const imageData = await renderSlideToImage(slide, format, resolution, jpegQuality)
+    const imageData = await renderSlideToImage(slide, theme, format, resolution, jpegQuality)
 
     // Generate filename
     const sanitizedName = sanitizeFilename(presentationName)
-    const extension = format === 'png' ? 'png' : 'jpg'
-    const filename = `${sanitizedName}_slide_${slideIndex + 1}.${extension}`
+    const filename = `${sanitizedName}_slide_${slideIndex + 1}.${format}`
 
     // Download the image
     downloadImage(imageData, filename)
@@ -207,55 +276,100 @@ export async function exportSlideToImage(
 }
 
 /**
- * Export multiple slides as images
+ * Get the file name of a slide image in an archive. Slide numbers are padded to
+ * the same length, so files sort in slide order.
  */
-export async function exportSlidesToImages(
+export function getSlideImageFilename(
+  presentationName: string,
+  slideIndex: number,
+  slideCount: number,
+  format: ImageFormat
+): string {
+  const number = String(slideIndex + 1).padStart(String(slideCount).length, '0')
+  return `${sanitizeFilename(presentationName)}_slide_${number}.${format}`
+}
+
+/**
+ * Share of the progress of an archive export spent rendering slides; the rest is zipping
+ */
+const RENDER_PROGRESS_SHARE = 0.9
+
+/**
+ * Zip files without blocking the page, which large decks would freeze
+ */
+function zipFiles(files: Zippable): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    zip(files, (error, data) => {
+      if (error) reject(error)
+      else resolve(data)
+    })
+  })
+}
+
+/**
+ * Render slides into a ZIP archive of images, with an optional manifest.
+ * Progress reaches 100 only once the archive is zipped.
+ */
+export async function createSlideImageArchive(
   slides: Slide[],
   presentationName: string,
   options: Partial<ImageExportOptions> = {}
-): Promise<ImageExportResult> {
+): Promise<Uint8Array> {
   const config = { ...DEFAULT_IMAGE_OPTIONS, ...options }
-  const { format, resolution, jpegQuality, onProgress } = config
-
-  if (slides.length === 0) {
-    return { success: false, error: 'No slides to export' }
+  const { format, resolution, jpegQuality, includeManifest, onProgress, theme } = config
+  const totalSlides = slides.length
+  const files: Zippable = {}
+  const manifest: ImageExportManifest = { presentation: presentationName, format, slides: [] }
+  const reportProgress = (renderedSlides: number) => {
+    onProgress?.(Math.round((renderedSlides / totalSlides) * RENDER_PROGRESS_SHARE * 100))
   }
 
-  try {
-    const totalSlides = slides.length
-    const sanitizedName = sanitizeFilename(presentationName)
-    const extension = format === 'png' ? 'png' : 'jpg'
+  for (const [i, slide] of slides.entries()) {
+    // Report progress
+    reportProgress(i + 0.5)
 
-    for (let i = 0; i < totalSlides; i++) {
-      const slide = slides[i]
-      if (!slide) continue
+    // Render slide to image
+    const imageData = await renderSlideToImage(slide, theme, format, resolution, jpegQuality)
+    const image = decodeDataUrl(imageData)
+    if (!image) throw new Error(`Slide ${String(i + 1)} could not be rendered`)
 
-      // Report progress
-      if (onProgress) {
-        onProgress(Math.round(((i + 0.5) / totalSlides) * 100))
-      }
+    // PNG and JPEG data is already compressed, so it is stored as is
+    const filename = getSlideImageFilename(presentationName, i, totalSlides, format)
+    files[filename] = [image.data, { level: format === 'svg' ? 6 : 0 }]
+    manifest.slides.push({ number: i + 1, file: filename, title: slide.title, notes: slide.notes })
 
-      // Render slide to image
-      const imageData = await renderSlideToImage(slide, format, resolution, jpegQuality)
+    // Report progress
+    reportProgress(i + 1)
+  }
 
-      // Generate filename
-      const filename = `${sanitizedName}_slide_${i + 1}.${extension}`
+  if (includeManifest) {
+    files[MANIFEST_FILENAME] = strToU8(JSON.stringify(manifest, null, 2))
+  }
+  const archive = await zipFiles(files)
+  onProgress?.(100)
+  return archive
+}
 
-      // Download the image with a small delay to prevent browser blocking
-      downloadImage(imageData, filename)
+/**
+ * Export multiple slides as images, downloaded together as a ZIP archive
+ */
+export async function exportSlidesToImages(
+  slides: Slide[],
+  presentationName: string,
+  options: Partial<ImageExportOptions> = {}
+): Promise<ImageExportResult> {
+  if (slides.length === 0) {
+    return { success: false, error: 'No slides to export' }
+  }
 
-      // Small delay between downloads to prevent browser from blocking
-      if (i < totalSlides - 1) {
-        await new Promise(resolve => setTimeout(resolve, 100))
-      }
+  try {
+    const archive = await createSlideImageArchive(slides, presentationName, options)
 
-      // Report progress
-      if (onProgress) {
-        onProgress(Math.round(((i + 1) / totalSlides) * 100))
-      }
-    }
+    // Download all images at once, as browsers block many separate downloads
+    const sanitizedName = sanitizeFilename(presentationName)
+    downloadFile(archive as Uint8Array<ArrayBuffer>, `${sanitizedName}_slides.zip`, 'application/zip')
 
-    return { success: true, exportedCount: totalSlides }
+    return { success: true, exportedCount: slides.length }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
     return { success: false, error: `Failed to export slides: ${errorMessage}` }
@@ -269,7 +383,7 @@ export async function exportToImages(
   presentation: Presentation,
   options: Partial<ImageExportOptions> = {}
 ): Promise<ImageExportResult> {
-  const config = { ...DEFAULT_IMAGE_OPTIONS, ...options }
+  const config = { ...DEFAULT_IMAGE_OPTIONS, theme: presentation.theme, ...options }
   const { range, currentSlideId, onProgress } = config
 
   if (presentation.slides.length === 0) {
@@ -309,14 +423,15 @@ export function estimateImageSize(
   const pixelCount = SLIDE_WIDTH * scale * SLIDE_HEIGHT * scale
 
   // Rough estimates based on typical compression
-  let bytesPerPixel: number
-  if (format === 'png') {
-    bytesPerPixel = 2 // PNG with compression
+  let bytesPerSlide: number
+  if (format === 'svg') {
+    bytesPerSlide = SVG_BYTES_PER_SLIDE // Vectors, whatever the resolution
+  } else if (format === 'png') {
+    bytesPerSlide = pixelCount * 2 // PNG with compression
   } else {
-    bytesPerPixel = 0.5 // JPEG with high quality
+    bytesPerSlide = pixelCount * 0.5 // JPEG with high quality
   }
 
-  const bytesPerSlide = pixelCount * bytesPerPixel
   const totalBytes = bytesPerSlide * slideCount
 
   if (totalBytes < 1024) {
@@ -0,0 +1,359 @@
+/**
+ * Image Utilities
+ * Provides functions for image elements: fitting the (cropped) source image
+ * into the element's box, canvas filters for adjustments, mask outlines,
+ * the pixel size of encoded images, and the crop geometry edited in crop mode.
+ *
+ * A crop is stored as fractions of the source image, so it survives resizing
+ * and never changes the image data itself. In crop mode, an image is drawn with
+ * 'fill' and its box shows the cropped part of a "full frame" that the whole
+ * image would fill at the same scale.
+ */
+
+import type {
+  Dimensions,
+  ImageAdjustments,
+  ImageCrop,
+  ImageElement,
+  Position,
+} from '../types/presentation'
+import type { ResizeHandle } from '../types/editor'
+import { getShapeOutline, type PathCommand } from './shapeGeometry'
+
+/**
+ * Crop that shows the whole image
+ */
+export const FULL_IMAGE_CROP: ImageCrop = { x: 0, y: 0, width: 1, height: 1 }
+
+/**
+ * Adjustments that leave an image unchanged
+ */
+export const DEFAULT_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 100,
+  contrast: 100,
+  grayscale: 0,
+  blur: 0,
+}
+
+/**
+ * Corner radius of a rounded rectangle mask without an explicit radius
+ */
+export const DEFAULT_MASK_CORNER_RADIUS = 16
+
+/**
+ * Smallest width or height a crop can be dragged to, in pixels
+ */
+export const MIN_CROP_SIZE = 10
+
+/**
+ * Source and destination rectangles for drawing an image
+ */
+export interface ImageFit {
+  sx: number
+  sy: number
+  sw: number
+  sh: number
+  dx: number
+  dy: number
+  dw: number
+  dh: number
+}
+
+/**
+ * Calculate where the cropped part of an image is drawn, based on the objectFit mode
+ */
+export function getImageFit(
+  imageWidth: number,
+  imageHeight: number,
+  element: Pick<ImageElement, 'position' | 'dimensions' | 'objectFit' | 'crop'>
+): ImageFit {
+  const { x, y } = element.position
+  const { width, height } = element.dimensions
+  const crop = element.crop ?? FULL_IMAGE_CROP
+  const offsetX = crop.x * imageWidth
+  const offsetY = crop.y * imageHeight
+  const cropWidth = crop.width * imageWidth
+  const cropHeight = crop.height * imageHeight
+
+  switch (element.objectFit) {
+    case 'cover': {
+      const imageRatio = cropWidth / cropHeight
+      const containerRatio = width / height
+      let sw: number, sh: number, sx: number, sy: number
+
+      if (imageRatio > containerRatio) {
+        sh = cropHeight
+        sw = cropHeight * containerRatio
+        sx = (cropWidth - sw) / 2
+        sy = 0
+      } else {
+        sw = cropWidth
+        sh = cropWidth / containerRatio
+        sx = 0
+        sy = (cropHeight - sh) / 2
+      }
+
+      return { sx: offsetX + sx, sy: offsetY + sy, sw, sh, dx: x, dy: y, dw: width, dh: height }
+    }
+
+    case 'contain': {
+      const imageRatio = cropWidth / cropHeight
+      const containerRatio = width / height
+      let dw: number, dh: number, dx: number, dy: number
+
+      if (imageRatio > containerRatio) {
+        dw = width
+        dh = width / imageRatio
+        dx = x
+        dy = y + (height - dh) / 2
+      } else {
+        dh = height
+        dw = height * imageRatio
+        dy = y
+        dx = x + (width - dw) / 2
+      }
+
+      return { sx: offsetX, sy: offsetY, sw: cropWidth, sh: cropHeight, dx, dy, dw, dh }
+    }
+
+    case 'none':
+      return {
+        sx: offsetX,
+        sy: offsetY,
+        sw: cropWidth,
+        sh: cropHeight,
+        dx: x,
+        dy: y,
+        dw: cropWidth,
+        dh: cropHeight,
+      }
+
+    case 'fill':
+    default:
+      return {
+        sx: offsetX,
+        sy: offsetY,
+        sw: cropWidth,
+        sh: cropHeight,
+        dx: x,
+        dy: y,
+        dw: width,
+        dh: height,
+      }
+  }
+}
+
+/**
+ * Get the canvas filter for an image's adjustments, or 'none' when it is unchanged.
+ * Canvas filters ignore the transform, so the blur radius is multiplied by `scale`.
+ */
+export function getImageFilter(adjustments: ImageAdjustments | undefined, scale = 1): string {
+  if (!adjustments) return 'none'
+  const filters: string[] = []
+  if (adjustments.brightness !== 100) filters.push(`brightness(${String(adjustments.brightness / 100)})`)
+  if (adjustments.contrast !== 100) filters.push(`contrast(${String(adjustments.contrast / 100)})`)
+  if (adjustments.grayscale > 0) filters.push(`grayscale(${String(adjustments.grayscale / 100)})`)
+  if (adjustments.blur > 0) filters.push(`blur(${String(adjustments.blur * scale)}px)`)
+  return filters.length > 0 ? filters.join(' ') : 'none'
+}
+
+/**
+ * Read the pixel size of a PNG, GIF or JPEG image, or null for other formats
+ */
+export function readImageSize(data: Uint8Array): Dimensions | null {
+  const byte = (i: number) => data[i] ?? 0
+  const uint16 = (i: number, littleEndian = false) =>
+    littleEndian ? byte(i) | (byte(i + 1) << 8) : (byte(i) << 8) | byte(i + 1)
+
+  // PNG: signature, then the IHDR chunk with the width and height
+  if (byte(0) === 0x89 && byte(1) === 0x50 && byte(2) === 0x4e && byte(3) === 0x47) {
+    return {
+      width: (uint16(16) << 16) | uint16(18),
+      height: (uint16(20) << 16) | uint16(22),
+    }
+  }
+  // GIF: logical screen size after the signature
+  if (byte(0) === 0x47 && byte(1) === 0x49 && byte(2) === 0x46) {
+    return { width: uint16(6, true), height: uint16(8, true) }
+  }
+  // JPEG: the size is in the first start-of-frame segment
+  if (byte(0) === 0xff && byte(1) === 0xd8) {
+    let offset = 2
+    while (offset + 9 < data.length) {
+      if (byte(offset) !== 0xff) return null
+      const marker = byte(offset + 1)
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)
+      if (isFrame) return { width: uint16(offset + 7), height: uint16(offset + 5) }
+      offset += 2 + uint16(offset + 2)
+    }
+  }
+  return null
+}
+
+/**
+ * Get the outline an image is clipped to, or null when it has no mask
+ */
+export function getImageMaskOutline(
+  element: Pick<ImageElement, 'position' | 'dimensions' | 'mask' | 'maskCornerRadius'>
+): PathCommand[] | null {
+  const { position, dimensions } = element
+  switch (element.mask) {
+    case 'circle':
+      return getShapeOutline({ position, dimensions, shapeType: 'ellipse' })
+    case 'roundedRect':
+      return getShapeOutline({
+        position,
+        dimensions,
+        shapeType: 'rectangle',
+        cornerRadius: element.maskCornerRadius ?? DEFAULT_MASK_CORNER_RADIUS,
+      })
+    default:
+      return null
+  }
+}
+
+/**
+ * Check whether an image shows only part of its source
+ */
+export function isImageCropped(element: Pick<ImageElement, 'crop'>): boolean {
+  const crop = element.crop ?? FULL_IMAGE_CROP
+  return crop.x > 0 || crop.y > 0 || crop.width < 1 || crop.height < 1
+}
+
+/**
+ * Get the frame the whole image would fill at the scale of the cropped box
+ */
+export function getFullImageFrame(
+  element: Pick<ImageElement, 'position' | 'dimensions' | 'crop'>
+): { position: Position; dimensions: Dimensions } {
+  const crop = element.crop ?? FULL_IMAGE_CROP
+  const width = element.dimensions.width / crop.width
+  const height = element.dimensions.height / crop.height
+  return {
+    position: {
+      x: element.position.x - crop.x * width,
+      y: element.position.y - crop.y * height,
+    },
+    dimensions: { width, height },
+  }
+}
+
+/**
+ * Express what an image shows as a crop drawn with 'fill': the box shrinks to the
+ * visible part of the image and the crop selects the matching part of the source.
+ * The image looks the same, and its crop can then be edited in the box's coordinates.
+ */
+export function normalizeImageCrop(
+  element: Pick<ImageElement, 'position' | 'dimensions' | 'objectFit' | 'crop'>,
+  imageWidth: number,
+  imageHeight: number
+): Pick<ImageElement, 'position' | 'dimensions' | 'objectFit' | 'crop'> {
+  const fit = getImageFit(imageWidth, imageHeight, element)
+  const left = Math.max(fit.dx, element.position.x)
+  const top = Math.max(fit.dy, element.position.y)
+  const right = Math.min(fit.dx + fit.dw, element.position.x + element.dimensions.width)
+  const bottom = Math.min(fit.dy + fit.dh, element.position.y + element.dimensions.height)
+  if (right <= left || bottom <= top || imageWidth <= 0 || imageHeight <= 0) {
+    return { ...element, objectFit: 'fill' }
+  }
+
+  const scaleX = fit.sw / fit.dw
+  const scaleY = fit.sh / fit.dh
+  return {
+    position: { x: left, y: top },
+    dimensions: { width: right - left, height: bottom - top },
+    objectFit: 'fill',
+    crop: {
+      x: (fit.sx + (left - fit.dx) * scaleX) / imageWidth,
+      y: (fit.sy + (top - fit.dy) * scaleY) / imageHeight,
+      width: ((right - left) * scaleX) / imageWidth,
+      height: ((bottom - top) * scaleY) / imageHeight,
+    },
+  }
+}
+
+/**
+ * Clamp a value between a minimum and a maximum
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+/**
+ * Drag a crop handle: move the edges of the box by a delta, keeping them inside
+ * the full image frame so the image keeps its scale.
+ * `element` is the image as it was when the drag started.
+ */
+export function resizeCrop(
+  element: Pick<ImageElement, 'position' | 'dimensions' | 'crop'>,
+  handle: ResizeHandle,
+  deltaX: number,
+  deltaY: number
+): Pick<ImageElement, 'position' | 'dimensions' | 'crop'> {
+  const full = getFullImageFrame(element)
+  const fullRight = full.position.x + full.dimensions.width
+  const fullBottom = full.position.y + full.dimensions.height
+  const minWidth = Math.min(MIN_CROP_SIZE, full.dimensions.width)
+  const minHeight = Math.min(MIN_CROP_SIZE, full.dimensions.height)
+
+  let left = element.position.x
+  let top = element.position.y
+  let right = left + element.dimensions.width
+  let bottom = top + element.dimensions.height
+
+  if (handle.includes('left')) left = clamp(left + deltaX, full.position.x, right - minWidth)
+  if (handle.includes('right')) right = clamp(right + deltaX, left + minWidth, fullRight)
+  if (handle.includes('top')) top = clamp(top + deltaY, full.position.y, bottom - minHeight)
+  if (handle.includes('bottom')) bottom = clamp(bottom + deltaY, top + minHeight, fullBottom)
+
+  return {
+    position: { x: left, y: top },
+    dimensions: { width: right - left, height: bottom - top },
+    crop: {
+      x: (left - full.position.x) / full.dimensions.width,
+      y: (top - full.position.y) / full.dimensions.height,
+      width: (right - left) / full.dimensions.width,
+      height: (bottom - top) / full.dimensions.height,
+    },
+  }
+}
+
+/**
+ * Drag the image under its crop: move the full image frame by a delta while the box
+ * stays in place, keeping the box covered by the image.
+ * `element` is the image as it was when the drag started.
+ */
+export function panCrop(
+  element: Pick<ImageElement, 'position' | 'dimensions' | 'crop'>,
+  deltaX: number,
+  deltaY: number
+): Pick<ImageElement, 'crop'> {
+  const full = getFullImageFrame(element)
+  const crop = element.crop ?? FULL_IMAGE_CROP
+  const x = clamp(
+    full.position.x + deltaX,
+    element.position.x + element.dimensions.width - full.dimensions.width,
+    element.position.x
+  )
+  const y = clamp(
+    full.position.y + deltaY,
+    element.position.y + element.dimensions.height - full.dimensions.height,
+    element.position.y
+  )
+  return {
+    crop: {
+      ...crop,
+      x: (element.position.x - x) / full.dimensions.width,
+      y: (element.position.y - y) / full.dimensions.height,
+    },
+  }
+}
+
+/**
+ * Remove an image's crop, growing its box back to the full image frame
+ */
+export function resetCrop(
+  element: Pick<ImageElement, 'position' | 'dimensions' | 'crop'>
+): Pick<ImageElement, 'position' | 'dimensions' | 'crop'> {
+  return { ...getFullImageFrame(element), crop: FULL_IMAGE_CROP }
+}
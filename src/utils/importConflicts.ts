@@ -0,0 +1,139 @@
+/**
+ * Import Conflict Resolution
+ * Matches imported presentations against the ones already in the app, so restoring a
+ * backup can replace the presentations it was made from instead of duplicating them.
+ *
+ * An imported presentation matches an existing one with the same ID, which is kept in
+ * export files, or else one with the same name. Each existing presentation is matched
+ * at most once. The user then chooses per item whether to overwrite the match in place,
+ * keep both, or skip the imported presentation.
+ */
+
+import type { Presentation } from '../types/presentation'
+
+/**
+ * How an imported presentation is added
+ * - add: as a new presentation, keeping any match as well ("keep both")
+ * - overwrite: replacing the matched presentation in place
+ * - skip: not at all
+ */
+export type ImportResolution = 'add' | 'overwrite' | 'skip'
+
+/**
+ * How an imported presentation was matched to an existing one
+ */
+export type ImportMatchType = 'id' | 'name'
+
+/**
+ * An imported presentation, with the existing presentation it conflicts with
+ */
+export interface ImportPreviewItem {
+  /** Presentation as read from the import */
+  presentation: Presentation
+  /** Existing presentation with the same ID or name, or null for new presentations */
+  match: Presentation | null
+  matchedBy: ImportMatchType | null
+}
+
+/**
+ * Presentations to add and replace when applying resolutions to a preview
+ */
+export interface ImportPlan {
+  /** Presentations to add as new presentations */
+  added: Presentation[]
+  /** Presentations to store in place of the existing presentation with `targetId` */
+  overwritten: { targetId: string; presentation: Presentation }[]
+  skippedCount: number
+}
+
+/**
+ * Labels of the resolutions of conflicting items
+ */
+export const RESOLUTION_LABELS: Record<ImportResolution, string> = {
+  add: 'Keep both',
+  overwrite: 'Overwrite',
+  skip: 'Skip',
+}
+
+/**
+ * Get the label of a resolution for an item. Adding a new presentation is just importing it.
+ */
+export function getResolutionLabel(item: ImportPreviewItem, resolution: ImportResolution): string {
+  return resolution === 'add' && !item.match ? 'Import' : RESOLUTION_LABELS[resolution]
+}
+
+/**
+ * Normalize a presentation name for matching
+ */
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+/**
+ * Match imported presentations against existing ones, by ID first and then by name
+ */
+export function matchImportedPresentations(
+  incoming: Presentation[],
+  existing: Presentation[]
+): ImportPreviewItem[] {
+  const byId = new Map(existing.map((p) => [p.id, p]))
+  const claimed = new Set<string>()
+
+  // IDs are matched first, so a presentation renamed since the backup still finds its original
+  const idMatches = incoming.map((presentation) => {
+    const match = byId.get(presentation.id)
+    if (!match || claimed.has(match.id)) return null
+    claimed.add(match.id)
+    return match
+  })
+
+  return incoming.map((presentation, index) => {
+    const idMatch = idMatches[index]
+    if (idMatch) return { presentation, match: idMatch, matchedBy: 'id' }
+
+    const name = normalizeName(presentation.name)
+    const nameMatch = existing.find((p) => !claimed.has(p.id) && normalizeName(p.name) === name)
+    if (!nameMatch) return { presentation, match: null, matchedBy: null }
+    claimed.add(nameMatch.id)
+    return { presentation, match: nameMatch, matchedBy: 'name' }
+  })
+}
+
+/**
+ * Get the resolution an item starts with. Presentations matched by ID come from a backup
+ * of the existing one and overwrite it; those matched only by name keep both copies,
+ * since they may be unrelated decks that happen to share a name.
+ */
+export function getDefaultResolution(item: ImportPreviewItem): ImportResolution {
+  return item.matchedBy === 'id' ? 'overwrite' : 'add'
+}
+
+/**
+ * Get the resolutions an item can be given. Only conflicting items can overwrite.
+ */
+export function getResolutionOptions(item: ImportPreviewItem): ImportResolution[] {
+  return item.match ? ['overwrite', 'add', 'skip'] : ['add', 'skip']
+}
+
+/**
+ * Sort preview items into the presentations to add and to overwrite.
+ * Items without a resolution get their default one, and items that can't
+ * overwrite are added instead.
+ */
+export function planImport(
+  items: ImportPreviewItem[],
+  resolutions: (ImportResolution | undefined)[]
+): ImportPlan {
+  const plan: ImportPlan = { added: [], overwritten: [], skippedCount: 0 }
+  items.forEach((item, index) => {
+    const resolution = resolutions[index] ?? getDefaultResolution(item)
+    if (resolution === 'skip') {
+      plan.skippedCount++
+    } else if (resolution === 'overwrite' && item.match) {
+      plan.overwritten.push({ targetId: item.match.id, presentation: item.presentation })
+    } else {
+      plan.added.push(item.presentation)
+    }
+  })
+  return plan
+}
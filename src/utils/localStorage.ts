@@ -3,16 +3,26 @@
  * Provides save, load, export, and import functionality with JSON serialization.
  */
 
-import type { Presentation } from '../types/presentation'
+import type { Presentation, ThemePreset } from '../types/presentation'
+import {
+  CURRENT_STORAGE_VERSION,
+  getStorageVersion,
+  migratePresentations,
+  type MigrationReport,
+} from './storageMigrations'
+import { validatePresentation, type ValidationIssue } from './presentationSchema'
+import type { UnsupportedFeature } from './pptxImporter'
 
 // Storage keys
 export const STORAGE_KEYS = {
   PRESENTATIONS: 'presentation-storage',
   STORAGE_VERSION: 'presentation-storage-version',
+  CUSTOM_THEMES: 'presentation-custom-themes',
+  ASSETS: 'presentation-assets',
 } as const
 
 // Current storage version for migration support
-export const CURRENT_STORAGE_VERSION = 1
+export { CURRENT_STORAGE_VERSION }
 
 /**
  * Storage data structure that matches Zustand persist format
@@ -32,6 +42,20 @@ export interface StorageResult<T> {
   success: boolean
   data?: T
   error?: string
+  /** Migrations applied to data saved by an earlier version */
+  migration?: MigrationReport
+  /** Problems found in imported data, and how they were (or would be) repaired */
+  issues?: ValidationIssue[]
+  /** Content of an imported file that the app can't represent and left out */
+  unsupported?: UnsupportedFeature[]
+}
+
+/**
+ * Options for importing presentations
+ */
+export interface ImportOptions {
+  /** Repair invalid presentations instead of rejecting the import */
+  repair?: boolean
 }
 
 /**
@@ -49,9 +73,10 @@ export function isLocalStorageAvailable(): boolean {
 }
 
 /**
- * Get storage usage information
+ * Get how much of localStorage is used, in characters.
+ * Presentations are kept by a storage adapter, whose usage getStorageInfo reports.
  */
-export function getStorageInfo(): { used: number; available: number; total: number } {
+export function getLocalStorageInfo(): { used: number; available: number; total: number } {
   if (!isLocalStorageAvailable()) {
     return { used: 0, available: 0, total: 0 }
   }
@@ -104,12 +129,17 @@ export function loadFromLocalStorage(): StorageResult<{
       return { success: false, error: 'Invalid storage data format' }
     }
 
+    const { presentations, report } = migratePresentations(
+      parsed.state.presentations,
+      getStorageVersion(parsed.version)
+    )
     return {
       success: true,
       data: {
-        presentations: parsed.state.presentations,
+        presentations,
         currentPresentationId: parsed.state.currentPresentationId ?? null,
       },
+      migration: report,
     }
   } catch (error) {
     return {
@@ -143,7 +173,7 @@ export function saveToLocalStorage(
     const serialized = JSON.stringify(data)
 
     // Check if data will exceed storage limit
-    const storageInfo = getStorageInfo()
+    const storageInfo = getLocalStorageInfo()
     if (serialized.length > storageInfo.available) {
       return {
         success: false,
@@ -183,6 +213,60 @@ export function clearLocalStorage(): StorageResult<void> {
   }
 }
 
+/**
+ * Load user-saved themes from localStorage.
+ * Entries that are not valid theme presets are dropped.
+ */
+export function loadCustomThemes(): StorageResult<ThemePreset[]> {
+  if (!isLocalStorageAvailable()) {
+    return { success: false, error: 'localStorage is not available' }
+  }
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.CUSTOM_THEMES)
+    if (!raw) {
+      return { success: true, data: [] }
+    }
+
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) {
+      return { success: false, error: 'Invalid custom theme data format' }
+    }
+
+    const themes = parsed
+      .filter(isValidThemePreset)
+      .map((preset) => ({ ...preset, builtIn: false }))
+    return { success: true, data: themes }
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse custom themes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    }
+  }
+}
+
+/**
+ * Save user-saved themes to localStorage, replacing any previously saved list
+ */
+export function saveCustomThemes(themes: ThemePreset[]): StorageResult<void> {
+  if (!isLocalStorageAvailable()) {
+    return { success: false, error: 'localStorage is not available' }
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_THEMES, JSON.stringify(themes))
+    return { success: true }
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      return { success: false, error: 'Storage quota exceeded' }
+    }
+    return {
+      success: false,
+      error: `Failed to save custom themes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    }
+  }
+}
+
 /**
  * Export a single presentation to JSON string
  */
@@ -205,16 +289,14 @@ export function exportAllPresentationsToJson(presentations: Presentation[]): str
 /**
  * Import a presentation from JSON string
  */
-export function importPresentationFromJson(jsonString: string): StorageResult<Presentation> {
+export function importPresentationFromJson(
+  jsonString: string,
+  options: ImportOptions = {}
+): StorageResult<Presentation> {
   try {
-    const parsed = JSON.parse(jsonString)
-
-    // Check if it's a valid presentation object
-    if (!isValidPresentation(parsed)) {
-      return { success: false, error: 'Invalid presentation format' }
-    }
-
-    return { success: true, data: parsed as Presentation }
+    // Single presentations are exported without a version
+    const { data, ...result } = importValidPresentations([JSON.parse(jsonString)], 0, options, '')
+    return data?.[0] ? { ...result, data: data[0] } : result
   } catch (error) {
     return {
       success: false,
@@ -227,32 +309,29 @@ export function importPresentationFromJson(jsonString: string): StorageResult<Pr
  * Import multiple presentations from JSON string (export format)
  */
 export function importAllPresentationsFromJson(
-  jsonString: string
+  jsonString: string,
+  options: ImportOptions = {}
 ): StorageResult<Presentation[]> {
   try {
     const parsed = JSON.parse(jsonString)
 
     // Check if it's an array of presentations directly
     if (Array.isArray(parsed)) {
-      const validPresentations = parsed.filter(isValidPresentation)
-      if (validPresentations.length === 0) {
-        return { success: false, error: 'No valid presentations found in import' }
-      }
-      return { success: true, data: validPresentations as Presentation[] }
+      return importValidPresentations(parsed, 0, options)
     }
 
     // Check if it's an export object with presentations array
     if (parsed.presentations && Array.isArray(parsed.presentations)) {
-      const validPresentations = parsed.presentations.filter(isValidPresentation)
-      if (validPresentations.length === 0) {
-        return { success: false, error: 'No valid presentations found in import' }
-      }
-      return { success: true, data: validPresentations as Presentation[] }
+      return importValidPresentations(
+        parsed.presentations,
+        getStorageVersion(parsed.version),
+        options
+      )
     }
 
     // Check if it's a single presentation
-    if (isValidPresentation(parsed)) {
-      return { success: true, data: [parsed as Presentation] }
+    if (isPresentationLike(parsed)) {
+      return importValidPresentations([parsed], 0, options, '')
     }
 
     return { success: false, error: 'Invalid import format' }
@@ -265,34 +344,76 @@ export function importAllPresentationsFromJson(
 }
 
 /**
- * Validate if an object is a valid Presentation
+ * Upgrade the presentations of an import from the version they were exported with and
+ * validate them. Any problem rejects the import, unless repairing is requested, in which
+ * case the presentations are repaired and those that can't be are left out.
+ */
+function importValidPresentations(
+  candidates: unknown[],
+  version: number,
+  { repair = false }: ImportOptions,
+  path = 'presentations'
+): StorageResult<Presentation[]> {
+  const { presentations: migrated, report } = migratePresentations(candidates, version)
+  const issues: ValidationIssue[] = []
+  const presentations: Presentation[] = []
+  migrated.forEach((candidate, index) => {
+    const result = validatePresentation(candidate, {
+      repair,
+      path: path && `${path}[${String(index)}]`,
+    })
+    issues.push(...result.issues)
+    if (result.presentation) presentations.push(result.presentation)
+  })
+
+  if (!repair && issues.length > 0) {
+    const count = `${String(issues.length)} problem${issues.length === 1 ? '' : 's'}`
+    return {
+      success: false,
+      error: `Found ${count} in the imported presentations`,
+      migration: report,
+      issues,
+    }
+  }
+  if (presentations.length === 0) {
+    return { success: false, error: 'No valid presentations found in import', migration: report, issues }
+  }
+  return { success: true, data: presentations, migration: report, issues }
+}
+
+/**
+ * Check if an object looks like a single presentation rather than an export
+ */
+function isPresentationLike(obj: unknown): boolean {
+  return !!obj && typeof obj === 'object' && Array.isArray((obj as Record<string, unknown>)['slides'])
+}
+
+/**
+ * Validate if an object is a valid ThemePreset
  */
-function isValidPresentation(obj: unknown): boolean {
+function isValidThemePreset(obj: unknown): obj is ThemePreset {
   if (!obj || typeof obj !== 'object') return false
 
   const p = obj as Record<string, unknown>
-
-  // Check required fields using bracket notation for index signatures
   if (typeof p['id'] !== 'string' || (p['id']).length === 0) return false
   if (typeof p['name'] !== 'string') return false
-  if (!Array.isArray(p['slides'])) return false
-
-  // Validate each slide has required fields
-  const slides = p['slides'] as unknown[]
-  for (const slide of slides) {
-    if (!slide || typeof slide !== 'object') return false
-    const s = slide as Record<string, unknown>
-    if (typeof s['id'] !== 'string') return false
-    if (!Array.isArray(s['elements'])) return false
-  }
 
-  return true
+  const theme = p['theme']
+  if (!theme || typeof theme !== 'object') return false
+  const t = theme as Record<string, unknown>
+  return (
+    typeof t['primaryColor'] === 'string' &&
+    typeof t['secondaryColor'] === 'string' &&
+    typeof t['backgroundColor'] === 'string' &&
+    typeof t['textColor'] === 'string' &&
+    typeof t['fontFamily'] === 'string'
+  )
 }
 
 /**
- * Download a file with the given content
+ * Download a file with the given content, text or binary
  */
-export function downloadFile(content: string, filename: string, mimeType = 'application/json'): void {
+export function downloadFile(content: BlobPart, filename: string, mimeType = 'application/json'): void {
   const blob = new Blob([content], { type: mimeType })
   const url = URL.createObjectURL(blob)
   const link = document.createElement('a')
@@ -325,3 +446,28 @@ export function triggerFileImport(onFileContent: (content: string) => void): voi
   }
   input.click()
 }
+
+/**
+ * Trigger file input for importing a binary file, such as a PowerPoint file
+ */
+export function triggerBinaryFileImport(
+  accept: string,
+  onFileData: (data: Uint8Array, fileName: string) => void
+): void {
+  const input = document.createElement('input')
+  input.type = 'file'
+  input.accept = accept
+  input.onchange = (event) => {
+    const target = event.target as HTMLInputElement
+    const file = target.files?.[0]
+    if (file) {
+      const reader = new FileReader()
+      reader.onload = (e) => {
+        const content = e.target?.result as ArrayBuffer
+        onFileData(new Uint8Array(content), file.name)
+      }
+      reader.readAsArrayBuffer(file)
+    }
+  }
+  input.click()
+}
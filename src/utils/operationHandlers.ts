@@ -6,6 +6,7 @@
 
 import { useNotificationStore } from '@stores/notificationStore'
 import type { StorageResult } from './localStorage'
+import { describeMigration } from './storageMigrations'
 
 /**
  * Configuration for operation execution
@@ -277,9 +278,18 @@ export const operationHandlers = {
    * Handle import operation
    */
   import: (result: StorageResult<unknown>): boolean => {
+    const repaired = result.issues?.length
+      ? `Repaired ${String(result.issues.length)} problem${result.issues.length === 1 ? '' : 's'}.`
+      : null
+    const migration = result.migration ? describeMigration(result.migration) : null
+    const leftOut = result.unsupported?.length
+      ? `Left out ${String(result.unsupported.length)} unsupported feature${result.unsupported.length === 1 ? '' : 's'}.`
+      : null
     return handleStorageResult(result, {
       successTitle: 'Imported',
-      successMessage: 'Presentation imported successfully.',
+      successMessage: ['Presentation imported successfully.', migration, repaired, leftOut]
+        .filter(Boolean)
+        .join(' '),
       errorTitle: 'Import Failed',
       errorMessage: 'Failed to import presentation. Please check the file format.',
     })
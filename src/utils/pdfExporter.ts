@@ -1,32 +1,78 @@
 /**
  * PDF Exporter utility for exporting presentations to PDF format.
- * Uses jsPDF library for PDF generation and SlideCanvasRenderer for slide rendering.
+ * Uses jsPDF library for PDF generation. Slides are drawn as vectors with
+ * SlidePdfRenderer, keeping text selectable and searchable, or rasterized with
+ * SlideCanvasRenderer as a fallback that looks exactly like the editor.
+ * Pages hold one slide, a handout of several slides, or a slide with its notes,
+ * on the paper size of choice with optional headers, footers and page numbers.
+ * Notes, headers and footers are written in the theme font.
  */
 
 import { jsPDF } from 'jspdf'
-import type { Presentation, Slide } from '@/types/presentation'
+import type { Presentation, Slide, PresentationTheme } from '@/types/presentation'
 import { SlideCanvasRenderer } from './SlideCanvasRenderer'
+import { SlidePdfRenderer, type PdfFrame } from './SlidePdfRenderer'
+import {
+  canEncodeText,
+  embedPdfFonts,
+  resolvePdfFont,
+  type PdfFont,
+  type PdfFontRequest,
+} from './pdfFonts'
+import {
+  fitSlide,
+  getBandBaselines,
+  getContentArea,
+  getHandoutSlots,
+  getNoteLines,
+  getNotesPageSlot,
+  getPageSize,
+  getSlidesPerPage,
+  type PageOrientation,
+  type PageSize,
+  type PaperSize,
+  type PrintLayout,
+} from './pdfLayouts'
+
+export type { PaperSize, PrintLayout } from './pdfLayouts'
 
 /**
  * Page layout options for PDF export
  */
-export type PageLayout = 'landscape' | 'portrait'
+export type PageLayout = PageOrientation
 
 /**
  * Quality settings for PDF export
  */
 export type QualitySetting = 'low' | 'medium' | 'high'
 
+/**
+ * How slides are drawn: as native text, shapes and images, or as one image per slide
+ */
+export type RenderMode = 'vector' | 'raster'
+
 /**
  * Configuration options for PDF export
  */
 export interface PdfExportOptions {
   /** Page layout orientation */
   layout: PageLayout
-  /** Export quality setting */
+  /** Paper size of the pages */
+  paperSize: PaperSize
+  /** What each page holds */
+  printLayout: PrintLayout
+  /** How slides are drawn */
+  renderMode: RenderMode
+  /** Export quality setting, for raster output */
   quality: QualitySetting
-  /** Whether to include slide notes */
+  /** Whether to include slide notes below full page slides */
   includeNotes: boolean
+  /** Text at the top of every page */
+  header: string
+  /** Text at the bottom of every page */
+  footer: string
+  /** Whether to number the pages */
+  pageNumbers: boolean
   /** Callback for progress updates (0-100) */
   onProgress?: (progress: number) => void
 }
@@ -36,8 +82,14 @@ export interface PdfExportOptions {
  */
 export const DEFAULT_PDF_OPTIONS: PdfExportOptions = {
   layout: 'landscape',
+  paperSize: 'a4',
+  printLayout: 'slides',
+  renderMode: 'vector',
   quality: 'high',
   includeNotes: false,
+  header: '',
+  footer: '',
+  pageNumbers: false,
 }
 
 /**
@@ -55,14 +107,6 @@ const QUALITY_SETTINGS: Record<QualitySetting, { dpi: number; compression: 'NONE
 const SLIDE_WIDTH = 960
 const SLIDE_HEIGHT = 540
 
-/**
- * PDF page dimensions in mm (A4 based)
- */
-const PAGE_DIMENSIONS = {
-  landscape: { width: 297, height: 210 }, // A4 landscape
-  portrait: { width: 210, height: 297 }, // A4 portrait
-}
-
 /**
  * Result type for PDF export operations
  */
@@ -76,6 +120,7 @@ export interface PdfExportResult {
  */
 async function renderSlideToImage(
   slide: Slide,
+  theme: PresentationTheme,
   quality: QualitySetting
 ): Promise<string> {
   // Create an offscreen canvas
@@ -109,6 +154,7 @@ async function renderSlideToImage(
     showSelectionHandles: false,
     selectedElementIds: [],
     hoveredElementId: null,
+    theme,
   })
 
   // Convert to data URL with appropriate quality
@@ -117,103 +163,351 @@ async function renderSlideToImage(
 }
 
 /**
- * Export a presentation to PDF format
+ * Draws slides into frames on the current page
  */
-export async function exportToPdf(
-  presentation: Presentation,
-  options: Partial<PdfExportOptions> = {}
-): Promise<PdfExportResult> {
-  const config: PdfExportOptions = { ...DEFAULT_PDF_OPTIONS, ...options }
-  const { layout, quality, includeNotes, onProgress } = config
+type SlideDrawer = (slide: Slide, frame: PdfFrame) => Promise<void>
 
-  try {
-    // Initialize PDF document
-    const pageSize = PAGE_DIMENSIONS[layout]
-    const pdf = new jsPDF({
-      orientation: layout,
-      unit: 'mm',
-      format: 'a4',
-      compress: true,
-    })
-
-    const totalSlides = presentation.slides.length
-
-    if (totalSlides === 0) {
-      return { success: false, error: 'Presentation has no slides to export' }
-    }
+/**
+ * Font size of speaker notes on notes pages, in points
+ */
+const NOTES_FONT_SIZE = 11
 
-    // Calculate slide area on page (with margins)
-    const margin = 10 // mm
-    const availableWidth = pageSize.width - (margin * 2)
-    const availableHeight = pageSize.height - (margin * 2)
+/**
+ * Font size of headers, footers and page numbers, in points
+ */
+const BAND_FONT_SIZE = 9
 
-    // Calculate slide dimensions maintaining aspect ratio
-    const slideAspectRatio = SLIDE_WIDTH / SLIDE_HEIGHT
-    const pageAspectRatio = availableWidth / availableHeight
+/**
+ * Pixels per millimeter of page text drawn as a picture, about 300 DPI
+ */
+const RASTER_PX_PER_MM = 12
 
-    let slideWidth: number
-    let slideHeight: number
+/**
+ * Font that notes, headers, footers and page numbers are written with
+ */
+interface PageFont {
+  /** CSS font family list, for drawing text the font can't write */
+  fontFamily: string
+  font: PdfFont
+}
 
-    if (slideAspectRatio > pageAspectRatio) {
-      // Slide is wider than available area
-      slideWidth = availableWidth
-      slideHeight = slideWidth / slideAspectRatio
-    } else {
-      // Slide is taller than available area
-      slideHeight = availableHeight
-      slideWidth = slideHeight * slideAspectRatio
-    }
+/**
+ * Options for writing page text, as jsPDF takes them
+ */
+interface PageTextOptions {
+  baseline?: 'top' | 'alphabetic'
+  align?: 'left' | 'right'
+}
 
-    // Center the slide on the page
-    const xOffset = margin + (availableWidth - slideWidth) / 2
-    const yOffset = margin + (availableHeight - slideHeight) / 2
+/**
+ * Select the page font at a size and color, for writing or measuring page text
+ */
+function setPageFont(pdf: jsPDF, pageFont: PageFont, fontSize: number, gray: number): void {
+  pdf.setFont(pageFont.font.fontName, pageFont.font.fontStyle)
+  pdf.setFontSize(fontSize)
+  pdf.setTextColor(gray, gray, gray)
+}
+
+/**
+ * Draw lines of page text as a picture with the canvas, at the current font size
+ * and color. False when no canvas is available to draw with.
+ */
+function rasterizePageText(
+  pdf: jsPDF,
+  fontFamily: string,
+  lines: string[],
+  x: number,
+  y: number,
+  { baseline = 'alphabetic', align = 'left' }: PageTextOptions
+): boolean {
+  const canvas = document.createElement('canvas')
+  const context = canvas.getContext('2d')
+  if (!context) return false
+
+  const fontSize = ((pdf.getFontSize() * 25.4) / 72) * RASTER_PX_PER_MM
+  const lineHeight = fontSize * pdf.getLineHeightFactor()
+  const font = `${String(fontSize)}px ${fontFamily}`
+  context.font = font
+  const width = Math.max(1, ...lines.map((line) => context.measureText(line).width))
+  // Room above the first baseline for the ascent of alphabetic text
+  const top = baseline === 'top' ? 0 : fontSize
+  canvas.width = Math.ceil(width)
+  canvas.height = Math.ceil(top + lines.length * lineHeight)
+
+  // Resizing the canvas resets its context
+  context.font = font
+  context.fillStyle = pdf.getTextColor()
+  context.textBaseline = baseline
+  lines.forEach((line, index) => {
+    context.fillText(line, 0, top + index * lineHeight)
+  })
 
-    // Process each slide
-    for (let i = 0; i < totalSlides; i++) {
-      const slide = presentation.slides[i]
+  const imageWidth = canvas.width / RASTER_PX_PER_MM
+  pdf.addImage(
+    canvas,
+    'PNG',
+    align === 'right' ? x - imageWidth : x,
+    y - top / RASTER_PX_PER_MM,
+    imageWidth,
+    canvas.height / RASTER_PX_PER_MM
+  )
+  return true
+}
 
-      if (!slide) continue
+/**
+ * Write lines of page text with the page font. Text the font can't write is
+ * drawn as a picture instead of garbled, like slide text.
+ */
+function writePageText(
+  pdf: jsPDF,
+  pageFont: PageFont,
+  lines: string[],
+  x: number,
+  y: number,
+  options: PageTextOptions = {}
+): void {
+  if (
+    !canEncodeText(pdf, pageFont.font, lines.join('\n')) &&
+    rasterizePageText(pdf, pageFont.fontFamily, lines, x, y, options)
+  ) {
+    return
+  }
+  pdf.text(lines, x, y, options)
+}
 
-      // Add new page for slides after the first
-      if (i > 0) {
-        pdf.addPage()
+/**
+ * Outline slides on handout and notes pages so white slides stand out
+ */
+function outlineSlide(pdf: jsPDF, frame: PdfFrame): void {
+  pdf.setDrawColor(180, 180, 180)
+  pdf.setLineWidth(0.2)
+  pdf.rect(frame.x, frame.y, frame.width, frame.height, 'S')
+}
+
+/**
+ * Add pages with one slide each, optionally with its notes below
+ */
+async function addSlidePages(
+  pdf: jsPDF,
+  slides: Slide[],
+  area: PdfFrame,
+  includeNotes: boolean,
+  pageFont: PageFont,
+  drawSlide: SlideDrawer
+): Promise<void> {
+  for (const [index, slide] of slides.entries()) {
+    if (index > 0) pdf.addPage()
+    const frame = fitSlide(area)
+    await drawSlide(slide, frame)
+
+    // Add slide notes if enabled
+    if (includeNotes && slide.notes.trim()) {
+      setPageFont(pdf, pageFont, 8, 100)
+      const notesY = frame.y + frame.height + 5
+      const notesText = `Notes: ${slide.notes}`
+      const splitNotes = pdf.splitTextToSize(notesText, area.width) as string[]
+      writePageText(pdf, pageFont, splitNotes, area.x, notesY)
+    }
+  }
+}
+
+/**
+ * Add handout pages holding several slides each, with note lines on 3-up handouts
+ */
+async function addHandoutPages(
+  pdf: jsPDF,
+  slides: Slide[],
+  area: PdfFrame,
+  slidesPerPage: number,
+  orientation: PageLayout,
+  drawSlide: SlideDrawer
+): Promise<void> {
+  const slots = getHandoutSlots(area, slidesPerPage, orientation)
+
+  for (let first = 0; first < slides.length; first += slidesPerPage) {
+    if (first > 0) pdf.addPage()
+    for (const [index, slide] of slides.slice(first, first + slidesPerPage).entries()) {
+      const slot = slots[index]
+      if (!slot) continue
+      await drawSlide(slide, slot.slide)
+      outlineSlide(pdf, slot.slide)
+
+      if (slot.notes) {
+        pdf.setDrawColor(200, 200, 200)
+        pdf.setLineWidth(0.2)
+        for (const y of getNoteLines(slot.notes)) {
+          pdf.line(slot.notes.x, y, slot.notes.x + slot.notes.width, y)
+        }
       }
+    }
+  }
+}
 
-      // Report progress
-      if (onProgress) {
-        onProgress(Math.round(((i + 0.5) / totalSlides) * 100))
+/**
+ * Add notes pages with the slide on top and its speaker notes below.
+ * Notes too long for the page continue on the pages after it.
+ */
+async function addNotesPages(
+  pdf: jsPDF,
+  slides: Slide[],
+  area: PdfFrame,
+  pageFont: PageFont,
+  drawSlide: SlideDrawer
+): Promise<void> {
+  const slot = getNotesPageSlot(area)
+  const lineHeight = (NOTES_FONT_SIZE * pdf.getLineHeightFactor() * 25.4) / 72
+
+  for (const [index, slide] of slides.entries()) {
+    if (index > 0) pdf.addPage()
+    await drawSlide(slide, slot.slide)
+    outlineSlide(pdf, slot.slide)
+
+    setPageFont(pdf, pageFont, NOTES_FONT_SIZE, 30)
+    let lines = pdf.splitTextToSize(slide.notes.trim(), slot.notes.width) as string[]
+    let box = slot.notes
+    while (lines.length > 0) {
+      const fitting = Math.max(1, Math.floor(box.height / lineHeight))
+      writePageText(pdf, pageFont, lines.slice(0, fitting), box.x, box.y, { baseline: 'top' })
+      lines = lines.slice(fitting)
+      if (lines.length > 0) {
+        pdf.addPage()
+        box = area
       }
+    }
+  }
+}
+
+/**
+ * Write the header, footer and page number on every page
+ */
+function addPageBands(
+  pdf: jsPDF,
+  page: PageSize,
+  area: PdfFrame,
+  header: string,
+  footer: string,
+  pageNumbers: boolean,
+  pageFont: PageFont
+): void {
+  const baselines = getBandBaselines(page)
+  const pageCount = pdf.getNumberOfPages()
+
+  for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+    pdf.setPage(pageNumber)
+    setPageFont(pdf, pageFont, BAND_FONT_SIZE, 100)
+    if (header) {
+      const lines = pdf.splitTextToSize(header, area.width) as string[]
+      writePageText(pdf, pageFont, lines, area.x, baselines.header)
+    }
+    if (footer) {
+      const lines = pdf.splitTextToSize(footer, area.width * 0.8) as string[]
+      writePageText(pdf, pageFont, lines, area.x, baselines.footer)
+    }
+    if (pageNumbers) {
+      writePageText(pdf, pageFont, [String(pageNumber)], area.x + area.width, baselines.footer, {
+        align: 'right',
+      })
+    }
+  }
+}
+
+/**
+ * Build the PDF document of a presentation
+ */
+export async function createPdf(
+  presentation: Presentation,
+  options: Partial<PdfExportOptions> = {}
+): Promise<jsPDF> {
+  const config: PdfExportOptions = { ...DEFAULT_PDF_OPTIONS, ...options }
+  const { layout, paperSize, printLayout, renderMode, quality, includeNotes, onProgress } = config
+  const header = config.header.trim()
+  const footer = config.footer.trim()
+
+  // Initialize PDF document
+  const pageSize = getPageSize(paperSize, layout)
+  const pdf = new jsPDF({
+    orientation: layout,
+    unit: 'mm',
+    format: [pageSize.width, pageSize.height],
+    compress: true,
+  })
+  pdf.setProperties({ title: presentation.name })
 
+  const area = getContentArea(pageSize, {
+    header: header !== '',
+    footer: footer !== '' || config.pageNumbers,
+  })
+  const totalSlides = presentation.slides.length
+  let drawnSlides = 0
+
+  // Notes, headers, footers and page numbers are written in the theme font
+  const { fontFamily } = presentation.theme
+  const hasPageText =
+    includeNotes || printLayout === 'notes' || header !== '' || footer !== '' || config.pageNumbers
+  const pageFonts: PdfFontRequest[] = hasPageText ? [{ fontFamily, bold: false, italic: false }] : []
+
+  // Vector output embeds the fonts of all slides up front
+  const vectorRenderer = renderMode === 'vector' ? new SlidePdfRenderer(pdf, presentation.theme) : null
+  const fonts = vectorRenderer
+    ? await vectorRenderer.embedFonts(presentation.slides, pageFonts)
+    : await embedPdfFonts(pdf, pageFonts)
+  const pageFont: PageFont = { fontFamily, font: resolvePdfFont(fontFamily, false, false, fonts) }
+
+  const drawSlide: SlideDrawer = async (slide, frame) => {
+    // Report progress
+    onProgress?.(Math.round(((drawnSlides + 0.5) / totalSlides) * 100))
+
+    if (vectorRenderer) {
+      // Draw the slide as native text, shapes and images
+      await vectorRenderer.preloadImages(slide)
+      vectorRenderer.render(slide, frame)
+    } else {
       // Render slide to image
-      const imageData = await renderSlideToImage(slide, quality)
+      const imageData = await renderSlideToImage(slide, presentation.theme, quality)
 
       // Add image to PDF
       pdf.addImage(
         imageData,
         'JPEG',
-        xOffset,
-        yOffset,
-        slideWidth,
-        slideHeight,
+        frame.x,
+        frame.y,
+        frame.width,
+        frame.height,
         undefined,
         QUALITY_SETTINGS[quality].compression
       )
+    }
 
-      // Add slide notes if enabled
-      if (includeNotes && slide.notes?.trim()) {
-        pdf.setFontSize(8)
-        pdf.setTextColor(100, 100, 100)
-        const notesY = yOffset + slideHeight + 5
-        const notesText = `Notes: ${slide.notes}`
-        const splitNotes = pdf.splitTextToSize(notesText, availableWidth) as string[]
-        pdf.text(splitNotes, margin, notesY)
-      }
+    drawnSlides++
+    onProgress?.(Math.round((drawnSlides / totalSlides) * 100))
+  }
 
-      // Report progress
-      if (onProgress) {
-        onProgress(Math.round(((i + 1) / totalSlides) * 100))
-      }
-    }
+  if (printLayout === 'notes') {
+    await addNotesPages(pdf, presentation.slides, area, pageFont, drawSlide)
+  } else if (printLayout === 'slides') {
+    await addSlidePages(pdf, presentation.slides, area, includeNotes, pageFont, drawSlide)
+  } else {
+    await addHandoutPages(pdf, presentation.slides, area, getSlidesPerPage(printLayout), layout, drawSlide)
+  }
+
+  addPageBands(pdf, pageSize, area, header, footer, config.pageNumbers, pageFont)
+
+  return pdf
+}
+
+/**
+ * Export a presentation to PDF format
+ */
+export async function exportToPdf(
+  presentation: Presentation,
+  options: Partial<PdfExportOptions> = {}
+): Promise<PdfExportResult> {
+  if (presentation.slides.length === 0) {
+    return { success: false, error: 'Presentation has no slides to export' }
+  }
+
+  try {
+    const pdf = await createPdf(presentation, options)
 
     // Generate filename
     const sanitizedName = presentation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()
@@ -232,7 +526,11 @@ export async function exportToPdf(
 /**
  * Get estimated file size for PDF export (in MB)
  */
-export function estimatePdfSize(slideCount: number, quality: QualitySetting): string {
+export function estimatePdfSize(
+  slideCount: number,
+  quality: QualitySetting,
+  renderMode: RenderMode = DEFAULT_PDF_OPTIONS.renderMode
+): string {
   // Rough estimates based on quality and slide count
   const sizePerSlide: Record<QualitySetting, number> = {
     low: 0.1, // ~100KB per slide
@@ -240,7 +538,8 @@ export function estimatePdfSize(slideCount: number, quality: QualitySetting): st
     high: 0.6, // ~600KB per slide
   }
 
-  const estimatedMB = slideCount * sizePerSlide[quality]
+  // Vector slides hold little besides their images, which can't be estimated here
+  const estimatedMB = slideCount * (renderMode === 'vector' ? 0.03 : sizePerSlide[quality])
 
   if (estimatedMB < 1) {
     return `~${Math.round(estimatedMB * 1024)} KB`
@@ -264,3 +563,33 @@ export const LAYOUT_LABELS: Record<PageLayout, string> = {
   landscape: 'Landscape',
   portrait: 'Portrait',
 }
+
+/**
+ * Paper size display names
+ */
+export const PAPER_SIZE_LABELS: Record<PaperSize, string> = {
+  a4: 'A4 (210 × 297 mm)',
+  letter: 'Letter (8.5 × 11 in)',
+  widescreen: '16:9 (254 × 143 mm)',
+}
+
+/**
+ * Print layout display names
+ */
+export const PRINT_LAYOUT_LABELS: Record<PrintLayout, string> = {
+  slides: 'Full page slides',
+  'handout-2': 'Handout, 2 slides per page',
+  'handout-3': 'Handout, 3 slides with note lines',
+  'handout-4': 'Handout, 4 slides per page',
+  'handout-6': 'Handout, 6 slides per page',
+  'handout-9': 'Handout, 9 slides per page',
+  notes: 'Notes pages',
+}
+
+/**
+ * Render mode display names
+ */
+export const RENDER_MODE_LABELS: Record<RenderMode, string> = {
+  vector: 'Vector (selectable text)',
+  raster: 'Image (exact look)',
+}
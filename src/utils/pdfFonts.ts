@@ -0,0 +1,308 @@
+/**
+ * PDF Fonts
+ * Chooses the fonts that vector PDF exports write text with. The web fonts the app
+ * offers are fetched as TrueType files from the Fontsource CDN, at pinned versions
+ * so exports don't change when a font is updated, and embedded, so text keeps its
+ * typeface. Exports made offline write that text with standard fonts instead.
+ * Other families are written with the closest standard font (Helvetica, Times or
+ * Courier), which every PDF viewer provides.
+ *
+ * Both only cover Latin text: the standard fonts encode WinAnsi characters and the
+ * embedded files are Latin subsets. canEncodeText tells whether a font can write
+ * some text, so text it can't is drawn another way instead of garbled.
+ *
+ * A CSS font family list is resolved like a browser would: the first family that
+ * is embedded or has a standard equivalent wins.
+ */
+
+import type { jsPDF } from 'jspdf'
+import type { PresentationTheme, Slide, TextElement } from '@/types/presentation'
+import { resolveThemeFont } from './themeUtils'
+import { getTextRuns } from './richText'
+import { getCellRects, getCellTextElement } from './tableUtils'
+import { encodeBase64 } from './assetLibrary'
+
+/**
+ * Style of a font within its family, as jsPDF names them
+ */
+export type PdfFontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic'
+
+/**
+ * URLs of the TrueType files of a font family, by style
+ */
+export type PdfFontFiles = Partial<Record<PdfFontStyle, string>>
+
+/**
+ * A font that text in the document is drawn with
+ */
+export interface PdfFontRequest {
+  /** CSS font family list, with theme fonts already resolved */
+  fontFamily: string
+  bold: boolean
+  italic: boolean
+}
+
+/**
+ * A font selected for drawing text
+ */
+export interface PdfFont {
+  /** Name the font is registered under in the document */
+  fontName: string
+  fontStyle: PdfFontStyle
+}
+
+/**
+ * Styles of the families embedded in a document, keyed by lowercase family name
+ */
+export type EmbeddedPdfFonts = Map<string, Set<PdfFontStyle>>
+
+/**
+ * Standard PDF font families
+ */
+type StandardPdfFont = 'helvetica' | 'times' | 'courier'
+
+/**
+ * CDN serving static TrueType builds of open source fonts
+ */
+const FONTSOURCE_CDN = 'https://cdn.jsdelivr.net/fontsource/fonts'
+
+/**
+ * Get the Latin regular and bold files of a version of a font on the CDN, with
+ * italics when the font has them
+ */
+function fontsourceFiles(id: string, version: string, hasItalics = true): PdfFontFiles {
+  const file = (weight: number, style: string) =>
+    `${FONTSOURCE_CDN}/${id}@${version}/latin-${String(weight)}-${style}.ttf`
+  return {
+    normal: file(400, 'normal'),
+    bold: file(700, 'normal'),
+    ...(hasItalics && { italic: file(400, 'italic'), bolditalic: file(700, 'italic') }),
+  }
+}
+
+/**
+ * Font files embedded for families, keyed by lowercase family name.
+ * Covers the theme fonts and the fonts the app itself loads.
+ */
+export const PDF_FONT_FILES: Record<string, PdfFontFiles> = {
+  'dm sans': fontsourceFiles('dm-sans', '5.3.0'),
+  inter: fontsourceFiles('inter', '5.3.0'),
+  roboto: fontsourceFiles('roboto', '5.3.0'),
+  outfit: fontsourceFiles('outfit', '5.3.0', false),
+  'jetbrains mono': fontsourceFiles('jetbrains-mono', '5.3.0'),
+}
+
+/**
+ * Standard fonts used for families that aren't embedded, keyed by lowercase family name
+ */
+const STANDARD_FONTS: Record<string, StandardPdfFont> = {
+  arial: 'helvetica',
+  helvetica: 'helvetica',
+  verdana: 'helvetica',
+  'system-ui': 'helvetica',
+  'sans-serif': 'helvetica',
+  'times new roman': 'times',
+  times: 'times',
+  georgia: 'times',
+  serif: 'times',
+  'courier new': 'courier',
+  courier: 'courier',
+  monospace: 'courier',
+}
+
+/**
+ * Characters of the WinAnsi encoding of the standard fonts beyond Latin-1
+ */
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ')
+
+/**
+ * Downloaded font files as base64, shared between exports
+ */
+const fontFileCache = new Map<string, Promise<string | null>>()
+
+/**
+ * Get the jsPDF style for a weight and slant
+ */
+export function getPdfFontStyle(bold: boolean, italic: boolean): PdfFontStyle {
+  if (bold && italic) return 'bolditalic'
+  if (bold) return 'bold'
+  return italic ? 'italic' : 'normal'
+}
+
+/**
+ * Split a CSS font family list into lowercase family names without quotes
+ */
+function getFamilyNames(fontFamily: string): string[] {
+  return fontFamily
+    .split(',')
+    .map((name) =>
+      name
+        .trim()
+        .replace(/^["']|["']$/g, '')
+        .toLowerCase()
+    )
+    .filter(Boolean)
+}
+
+/**
+ * Find the file a font is drawn from: that of the first family of the list that
+ * has files or a standard equivalent. Null when that family is standard or has no
+ * file for the style.
+ */
+export function findFontFile(
+  request: PdfFontRequest,
+  files: Record<string, PdfFontFiles> = PDF_FONT_FILES
+): { family: string; style: PdfFontStyle; url: string } | null {
+  const family = getFamilyNames(request.fontFamily).find(
+    (name) => name in files || name in STANDARD_FONTS
+  )
+  const style = getPdfFontStyle(request.bold, request.italic)
+  const url = family ? files[family]?.[style] : undefined
+  return family && url ? { family, style, url } : null
+}
+
+/**
+ * Download a font file as base64, or null when it can't be loaded
+ */
+export function loadFontFile(url: string): Promise<string | null> {
+  let file = fontFileCache.get(url)
+  if (!file) {
+    file = fetch(url)
+      .then(async (response) =>
+        response.ok ? encodeBase64(new Uint8Array(await response.arrayBuffer())) : null
+      )
+      .catch(() => null)
+    fontFileCache.set(url, file)
+  }
+  return file
+}
+
+/**
+ * Get the fonts the text of a slide is drawn with, for embedding
+ */
+export function getSlideFonts(slide: Slide, theme: PresentationTheme): PdfFontRequest[] {
+  const fonts: PdfFontRequest[] = []
+  const addTextFonts = (element: TextElement) => {
+    const fontFamily = resolveThemeFont(element.fontFamily, theme)
+    for (const run of getTextRuns(element)) {
+      fonts.push({
+        fontFamily,
+        bold: (run.fontWeight ?? element.fontWeight) === 'bold',
+        italic: (run.fontStyle ?? element.fontStyle) === 'italic',
+      })
+    }
+  }
+
+  for (const element of slide.elements) {
+    switch (element.type) {
+      case 'text':
+        addTextFonts(element)
+        break
+      case 'table':
+        for (const rect of getCellRects(element)) {
+          if (rect.cell.content) addTextFonts(getCellTextElement(element, rect))
+        }
+        break
+      case 'chart': {
+        const fontFamily = resolveThemeFont(element.fontFamily, theme)
+        fonts.push({ fontFamily, bold: false, italic: false })
+        if (element.title) fonts.push({ fontFamily, bold: true, italic: false })
+        break
+      }
+    }
+  }
+  return fonts
+}
+
+/**
+ * Embed the font files the requested fonts need into a document.
+ * Files that can't be downloaded or read are skipped, so their text falls back
+ * to another style of the family or to a standard font.
+ */
+export async function embedPdfFonts(
+  pdf: jsPDF,
+  requests: PdfFontRequest[],
+  files: Record<string, PdfFontFiles> = PDF_FONT_FILES
+): Promise<EmbeddedPdfFonts> {
+  const embedded: EmbeddedPdfFonts = new Map()
+  const attempted = new Set<string>()
+  const { fontName, fontStyle } = pdf.getFont()
+
+  for (const request of requests) {
+    const fontFile = findFontFile(request, files)
+    if (!fontFile) continue
+    const { family, style, url } = fontFile
+    const key = `${family}/${style}`
+    if (attempted.has(key)) continue
+    attempted.add(key)
+
+    const file = await loadFontFile(url)
+    if (!file) continue
+    try {
+      const fileName = `${family.replace(/\s+/g, '-')}-${style}.ttf`
+      pdf.addFileToVFS(fileName, file)
+      pdf.addFont(fileName, family, style, undefined, 'Identity-H')
+      // jsPDF only logs files it can't parse; measuring text fails for them
+      pdf.setFont(family, style)
+      pdf.getTextWidth(' ')
+      const styles = embedded.get(family) ?? new Set<PdfFontStyle>()
+      styles.add(style)
+      embedded.set(family, styles)
+    } catch {
+      // Not a font jsPDF can read; its text uses a fallback font
+    }
+  }
+
+  pdf.setFont(fontName, fontStyle)
+  return embedded
+}
+
+/**
+ * Select the font to draw text with: the first family of the list that is embedded
+ * (in the closest available style) or has a standard equivalent, else Helvetica
+ */
+export function resolvePdfFont(
+  fontFamily: string,
+  bold: boolean,
+  italic: boolean,
+  embedded: EmbeddedPdfFonts
+): PdfFont {
+  const style = getPdfFontStyle(bold, italic)
+  for (const name of getFamilyNames(fontFamily)) {
+    const styles = embedded.get(name)
+    if (styles) {
+      const fallbacks: PdfFontStyle[] = [style, getPdfFontStyle(bold, false), 'normal']
+      const available = fallbacks.find((candidate) => styles.has(candidate))
+      if (available) return { fontName: name, fontStyle: available }
+    }
+    const standard = STANDARD_FONTS[name]
+    if (standard) return { fontName: standard, fontStyle: style }
+  }
+  return { fontName: 'helvetica', fontStyle: style }
+}
+
+/**
+ * Check whether a font can write text: standard fonts write WinAnsi characters,
+ * embedded fonts the characters their file has glyphs for. Selects the font.
+ */
+export function canEncodeText(pdf: jsPDF, font: PdfFont, text: string): boolean {
+  pdf.setFont(font.fontName, font.fontStyle)
+  const codeMap = (
+    pdf.getFont().metadata as
+      | { cmap?: { unicode?: { codeMap: Record<number, number | undefined> } } }
+      | undefined
+  )?.cmap?.unicode?.codeMap
+
+  for (const character of text) {
+    const code = character.codePointAt(0) ?? 0
+    // Control characters such as tabs are never drawn
+    if (code < 0x20) continue
+    if (codeMap) {
+      // jsPDF writes characters as single UTF-16 code units
+      if (code > 0xffff || !codeMap[code]) return false
+    } else if (!(code < 0x7f || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(character))) {
+      return false
+    }
+  }
+  return true
+}
@@ -0,0 +1,209 @@
+/**
+ * PDF Layouts
+ * Page geometry for PDF exports: paper sizes, the area left for content once the
+ * header and footer bands are reserved, and where slides and notes go on full
+ * page, handout and notes pages. All measurements are in millimetres with the
+ * origin at the top left of the page.
+ */
+
+import type { PdfFrame } from './SlidePdfRenderer'
+
+/**
+ * Page orientation
+ */
+export type PageOrientation = 'landscape' | 'portrait'
+
+/**
+ * Paper sizes pages can be printed on
+ */
+export type PaperSize = 'a4' | 'letter' | 'widescreen'
+
+/**
+ * What each page holds: one slide, a handout of several slides, or a slide with its notes
+ */
+export type PrintLayout =
+  | 'slides'
+  | 'handout-2'
+  | 'handout-3'
+  | 'handout-4'
+  | 'handout-6'
+  | 'handout-9'
+  | 'notes'
+
+/**
+ * Width and height of a page
+ */
+export interface PageSize {
+  width: number
+  height: number
+}
+
+/**
+ * Place of one slide on a page, with the area for writing notes next to it
+ */
+export interface SlideSlot {
+  slide: PdfFrame
+  notes?: PdfFrame
+}
+
+/**
+ * Paper sizes in portrait orientation. The 16:9 size matches widescreen slides.
+ */
+export const PAPER_SIZES: Record<PaperSize, PageSize> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 },
+  widescreen: { width: 142.875, height: 254 },
+}
+
+/**
+ * Distance of content from the edges of the page
+ */
+export const PAGE_MARGIN = 10
+
+/**
+ * Height of the header and footer bands, between the margin and the content
+ */
+const BAND_HEIGHT = 8
+
+/**
+ * Space between slides on handouts, and between a slide and its notes
+ */
+const SLOT_GAP = 6
+
+/**
+ * Share of the content height the slide takes on notes pages
+ */
+const NOTES_PAGE_SLIDE_SHARE = 0.45
+
+/**
+ * Distance between the lines of the note area on 3-up handouts
+ */
+const NOTE_LINE_SPACING = 8
+
+/**
+ * Slide aspect ratio (16:9)
+ */
+const SLIDE_ASPECT_RATIO = 960 / 540
+
+/**
+ * Columns and rows of handout grids, by slides per page
+ */
+const HANDOUT_GRIDS: Record<number, Record<PageOrientation, [columns: number, rows: number]>> = {
+  2: { portrait: [1, 2], landscape: [2, 1] },
+  4: { portrait: [2, 2], landscape: [2, 2] },
+  6: { portrait: [2, 3], landscape: [3, 2] },
+  9: { portrait: [3, 3], landscape: [3, 3] },
+}
+
+/**
+ * Get the size of a page in the given orientation
+ */
+export function getPageSize(paperSize: PaperSize, orientation: PageOrientation): PageSize {
+  const { width, height } = PAPER_SIZES[paperSize]
+  return orientation === 'landscape' ? { width: height, height: width } : { width, height }
+}
+
+/**
+ * Get the area of a page inside its margins, leaving room for the bands in use
+ */
+export function getContentArea(
+  page: PageSize,
+  bands: { header: boolean; footer: boolean }
+): PdfFrame {
+  const top = PAGE_MARGIN + (bands.header ? BAND_HEIGHT : 0)
+  const bottom = PAGE_MARGIN + (bands.footer ? BAND_HEIGHT : 0)
+  return {
+    x: PAGE_MARGIN,
+    y: top,
+    width: page.width - PAGE_MARGIN * 2,
+    height: page.height - top - bottom,
+  }
+}
+
+/**
+ * Get the baselines of header and footer text on a page
+ */
+export function getBandBaselines(page: PageSize): { header: number; footer: number } {
+  return { header: PAGE_MARGIN + BAND_HEIGHT / 2, footer: page.height - PAGE_MARGIN - 1 }
+}
+
+/**
+ * Get the largest slide frame that fits in an area, centered in it
+ */
+export function fitSlide(area: PdfFrame): PdfFrame {
+  const width = Math.min(area.width, area.height * SLIDE_ASPECT_RATIO)
+  const height = width / SLIDE_ASPECT_RATIO
+  return {
+    x: area.x + (area.width - width) / 2,
+    y: area.y + (area.height - height) / 2,
+    width,
+    height,
+  }
+}
+
+/**
+ * Get the number of slides a page of the layout holds
+ */
+export function getSlidesPerPage(layout: PrintLayout): number {
+  return layout.startsWith('handout-') ? Number(layout.slice('handout-'.length)) : 1
+}
+
+/**
+ * Get where the slides of a handout page go, in reading order.
+ * 3-up handouts put the slides in a column with note areas to their right.
+ */
+export function getHandoutSlots(
+  area: PdfFrame,
+  slidesPerPage: number,
+  orientation: PageOrientation
+): SlideSlot[] {
+  if (slidesPerPage === 3) {
+    const rowHeight = (area.height - SLOT_GAP * 2) / 3
+    const columnWidth = (area.width - SLOT_GAP) / 2
+    return [0, 1, 2].map((row) => {
+      const slide = fitSlide({
+        x: area.x,
+        y: area.y + row * (rowHeight + SLOT_GAP),
+        width: columnWidth,
+        height: rowHeight,
+      })
+      const notesX = slide.x + slide.width + SLOT_GAP
+      return {
+        slide,
+        notes: { x: notesX, y: slide.y, width: area.x + area.width - notesX, height: slide.height },
+      }
+    })
+  }
+
+  const [columns, rows] = HANDOUT_GRIDS[slidesPerPage]?.[orientation] ?? [1, 1]
+  const cellWidth = (area.width - SLOT_GAP * (columns - 1)) / columns
+  const cellHeight = (area.height - SLOT_GAP * (rows - 1)) / rows
+  return Array.from({ length: columns * rows }, (_, index) => ({
+    slide: fitSlide({
+      x: area.x + (index % columns) * (cellWidth + SLOT_GAP),
+      y: area.y + Math.floor(index / columns) * (cellHeight + SLOT_GAP),
+      width: cellWidth,
+      height: cellHeight,
+    }),
+  }))
+}
+
+/**
+ * Get where the slide and its speaker notes go on a notes page
+ */
+export function getNotesPageSlot(area: PdfFrame): Required<SlideSlot> {
+  const slide = fitSlide({ ...area, height: area.height * NOTES_PAGE_SLIDE_SHARE })
+  const notesY = area.y + area.height * NOTES_PAGE_SLIDE_SHARE + SLOT_GAP
+  return {
+    slide: { ...slide, y: area.y },
+    notes: { x: area.x, y: notesY, width: area.width, height: area.y + area.height - notesY },
+  }
+}
+
+/**
+ * Get the heights at which the lines of a note area are drawn
+ */
+export function getNoteLines(notes: PdfFrame): number[] {
+  const count = Math.floor(notes.height / NOTE_LINE_SPACING)
+  return Array.from({ length: count }, (_, index) => notes.y + (index + 1) * NOTE_LINE_SPACING)
+}
@@ -0,0 +1,1935 @@
+/**
+ * PPTX Exporter utility for exporting presentations to PowerPoint format.
+ * Writes every element as a native PowerPoint object rather than a picture of the
+ * slide: text boxes keep their runs, lists and alignment, shapes become preset or
+ * custom geometry with their fills, strokes and shadows, and images, tables, charts
+ * and connectors map to pictures, tables, charts and connection shapes. Slide
+ * backgrounds, transitions and speaker notes are exported as well.
+ *
+ * Slides are 960x540 pixels and are written at PowerPoint's 16:9 slide size of
+ * 13.333x7.5 inches, so one slide pixel is one point.
+ */
+
+import { strToU8, zipSync } from 'fflate'
+import type {
+  ChartElement,
+  ConnectorElement,
+  ArrowheadStyle,
+  Dimensions,
+  GradientDirection,
+  GradientStop,
+  ImageElement,
+  Position,
+  Presentation,
+  PresentationTheme,
+  ShapeElement,
+  Slide,
+  SlideElement,
+  SlideTransition,
+  TableElement,
+  TextElement,
+  TextRun,
+} from '@/types/presentation'
+import { resolveAssetUrl } from '@/stores/assetStore'
+import { getTextRuns, sanitizeLink, sliceRuns } from './richText'
+import { getListMarkers, getTextParagraphs, INDENT_PER_LEVEL_EM } from './textLists'
+import { DEFAULT_LINE_SPACING, DEFAULT_VERTICAL_ALIGN, LINE_BREAK } from './textLayout'
+import { resolveBackgroundTheme, resolveThemeColor, resolveThemeFont } from './themeUtils'
+import { getShapeOutline, isClosedPath, type PathCommand } from './shapeGeometry'
+import {
+  DEFAULT_GRADIENT_DIRECTION,
+  getBackgroundGradientStops,
+  getShapeGradientStops,
+  getShapeLineCap,
+  getShapeLineJoin,
+} from './shapeStyles'
+import { DEFAULT_MASK_CORNER_RADIUS, getImageFit, readImageSize } from './imageUtils'
+import { decodeDataUrl } from './assetLibrary'
+import {
+  getCellAnchor,
+  getCellFillColor,
+  getCellRects,
+  getCellTextElement,
+  getColumnCount,
+  getRowCount,
+  isCovered,
+  TABLE_CELL_PADDING,
+  type TableCellRect,
+} from './tableUtils'
+import { getPaletteColor, getSeriesColor } from './chartUtils'
+import { getConnectorPath } from './connectorUtils'
+import { downloadFile } from './localStorage'
+
+/**
+ * Configuration options for PPTX export
+ */
+export interface PptxExportOptions {
+  /** Whether to export speaker notes */
+  includeNotes: boolean
+  /** Whether to export slide transitions */
+  includeTransitions: boolean
+  /** Callback for progress updates (0-100) */
+  onProgress?: (progress: number) => void
+}
+
+/**
+ * Default export options
+ */
+export const DEFAULT_PPTX_OPTIONS: PptxExportOptions = {
+  includeNotes: true,
+  includeTransitions: true,
+}
+
+/**
+ * Result type for PPTX export operations
+ */
+export interface PptxExportResult {
+  success: boolean
+  error?: string
+  /** Number of images left out because they couldn't be loaded */
+  skippedImageCount?: number
+}
+
+/**
+ * MIME type of PowerPoint presentations
+ */
+export const PPTX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+
+/**
+ * Size of a slide pixel in English Metric Units, the unit of PowerPoint coordinates
+ */
+export const EMU_PER_PX = 12700
+
+/**
+ * Standard slide dimensions (16:9 aspect ratio)
+ */
+const SLIDE_WIDTH = 960
+const SLIDE_HEIGHT = 540
+
+/**
+ * Size of the notes page in EMU (7.5x10 inches, portrait)
+ */
+const NOTES_WIDTH = 6858000
+const NOTES_HEIGHT = 9144000
+
+/**
+ * XML namespaces of the package parts
+ */
+const NS = {
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  c: 'http://schemas.openxmlformats.org/drawingml/2006/chart',
+  mc: 'http://schemas.openxmlformats.org/markup-compatibility/2006',
+  p14: 'http://schemas.microsoft.com/office/powerpoint/2010/main',
+  relationships: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  contentTypes: 'http://schemas.openxmlformats.org/package/2006/content-types',
+}
+
+/**
+ * Relationship types between package parts
+ */
+const REL = {
+  officeDocument: `${NS.r}/officeDocument`,
+  coreProperties:
+    'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  extendedProperties: `${NS.r}/extended-properties`,
+  slideMaster: `${NS.r}/slideMaster`,
+  slideLayout: `${NS.r}/slideLayout`,
+  slide: `${NS.r}/slide`,
+  notesMaster: `${NS.r}/notesMaster`,
+  notesSlide: `${NS.r}/notesSlide`,
+  theme: `${NS.r}/theme`,
+  image: `${NS.r}/image`,
+  chart: `${NS.r}/chart`,
+  hyperlink: `${NS.r}/hyperlink`,
+  presProps: `${NS.r}/presProps`,
+  viewProps: `${NS.r}/viewProps`,
+  tableStyles: `${NS.r}/tableStyles`,
+}
+
+/**
+ * Content types of the package parts
+ */
+const CONTENT_TYPE = {
+  presentation:
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml',
+  slideMaster: 'application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml',
+  slideLayout: 'application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml',
+  slide: 'application/vnd.openxmlformats-officedocument.presentationml.slide+xml',
+  notesMaster: 'application/vnd.openxmlformats-officedocument.presentationml.notesMaster+xml',
+  notesSlide: 'application/vnd.openxmlformats-officedocument.presentationml.notesSlide+xml',
+  theme: 'application/vnd.openxmlformats-officedocument.theme+xml',
+  chart: 'application/vnd.openxmlformats-officedocument.drawingml.chart+xml',
+  presProps: 'application/vnd.openxmlformats-officedocument.presentationml.presProps+xml',
+  viewProps: 'application/vnd.openxmlformats-officedocument.presentationml.viewProps+xml',
+  tableStyles: 'application/vnd.openxmlformats-officedocument.presentationml.tableStyles+xml',
+  coreProperties: 'application/vnd.openxmlformats-package.core-properties+xml',
+  extendedProperties: 'application/vnd.openxmlformats-officedocument.extended-properties+xml',
+  relationships: 'application/vnd.openxmlformats-package.relationships+xml',
+}
+
+/**
+ * Image file extensions by MIME type, for the image types PowerPoint can show
+ */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg',
+}
+
+/**
+ * Preset shapes drawn by PowerPoint the same way as shape types of the app.
+ * Other shape types are exported as custom geometry from their outline.
+ */
+const PRESET_SHAPES: Partial<Record<ShapeElement['shapeType'], string>> = {
+  circle: 'ellipse',
+  ellipse: 'ellipse',
+  triangle: 'triangle',
+  line: 'line',
+}
+
+/**
+ * PowerPoint line end types of arrowhead styles
+ */
+const ARROWHEAD_TYPES: Record<ArrowheadStyle, string | null> = {
+  none: null,
+  arrow: 'arrow',
+  triangle: 'triangle',
+  circle: 'oval',
+}
+
+/**
+ * PowerPoint dash presets of stroke dash styles
+ */
+const DASH_PRESETS: Record<NonNullable<ShapeElement['strokeDash']>, string> = {
+  solid: 'solid',
+  dash: 'dash',
+  dot: 'sysDot',
+  dashDot: 'dashDot',
+}
+
+/**
+ * Angles of linear gradients, in 60,000ths of a degree
+ */
+const GRADIENT_ANGLES: Record<GradientDirection, number> = {
+  horizontal: 0,
+  vertical: 5400000,
+  diagonal: 2700000,
+}
+
+/**
+ * Numbering schemes of numbered lists at each indent level, repeating for deeper levels
+ */
+const NUMBERING_SCHEMES = ['arabicPeriod', 'alphaLcPeriod', 'romanLcPeriod']
+
+// ============================================================================
+// XML helpers
+// ============================================================================
+
+/**
+ * Attributes of an XML element. Undefined and false attributes are left out,
+ * and numbers are rounded, since every numeric attribute written is an integer.
+ */
+type Attributes = Record<string, string | number | boolean | undefined>
+
+/**
+ * Declaration at the start of every XML part
+ */
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+/**
+ * Escape text for XML, dropping characters XML documents can't contain
+ */
+function escapeXml(text: string): string {
+  const valid = Array.from(text)
+    .filter((char) => {
+      const code = char.charCodeAt(0)
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d
+    })
+    .join('')
+  return valid
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Write the attributes of an XML element
+ */
+function attributesXml(attributes: Attributes): string {
+  return Object.entries(attributes)
+    .filter(
+      (entry): entry is [string, string | number | true] =>
+        entry[1] !== undefined && entry[1] !== false
+    )
+    .map(([key, value]) => {
+      const text =
+        value === true
+          ? '1'
+          : typeof value === 'number'
+            ? String(Math.round(value))
+            : escapeXml(value)
+      return ` ${key}="${text}"`
+    })
+    .join('')
+}
+
+/**
+ * Write an XML element, self-closing when it has no children
+ */
+function el(name: string, attributes: Attributes = {}, children: string | string[] = ''): string {
+  const attrs = attributesXml(attributes)
+  const content = Array.isArray(children) ? children.join('') : children
+  return content ? `<${name}${attrs}>${content}</${name}>` : `<${name}${attrs}/>`
+}
+
+/**
+ * Write an element containing text
+ */
+function textNode(name: string, text: string, attributes: Attributes = {}): string {
+  return `<${name}${attributesXml(attributes)}>${escapeXml(text)}</${name}>`
+}
+
+/**
+ * Write a complete XML part
+ */
+function xmlPart(root: string): Uint8Array {
+  return strToU8(XML_DECLARATION + root)
+}
+
+/**
+ * Convert slide pixels to EMU
+ */
+function emu(px: number): number {
+  return Math.round(px * EMU_PER_PX)
+}
+
+/**
+ * Convert a fraction to the 1/100,000 units of PowerPoint percentages
+ */
+function percent(fraction: number): number {
+  return Math.round(fraction * 100000)
+}
+
+// ============================================================================
+// Colors and fills
+// ============================================================================
+
+/**
+ * An RGB color with its opacity
+ */
+interface RgbColor {
+  /** Six hex digits, uppercase */
+  hex: string
+  alpha: number
+}
+
+/**
+ * Named colors that appear in presentations besides hex and rgb() values
+ */
+const NAMED_COLORS: Record<string, string> = {
+  white: 'FFFFFF',
+  black: '000000',
+  red: 'FF0000',
+  green: '008000',
+  blue: '0000FF',
+  gray: '808080',
+  grey: '808080',
+}
+
+/**
+ * Parse a color value, resolving theme references.
+ * Returns null for transparent colors; unknown colors are treated as black.
+ */
+function parseColor(value: string, theme: PresentationTheme): RgbColor | null {
+  const color = resolveThemeColor(value, theme).trim().toLowerCase()
+  if (!color || color === 'transparent' || color === 'none') return null
+
+  const hex = /^#([0-9a-f]{3,8})$/.exec(color)?.[1]
+  if (hex) {
+    const digits = hex.length <= 4 ? Array.from(hex, (d) => d + d).join('') : hex
+    const alpha = digits.length >= 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1
+    return { hex: digits.slice(0, 6).toUpperCase().padEnd(6, '0'), alpha }
+  }
+
+  const rgb = /^rgba?\(([^)]*)\)$/.exec(color)?.[1]
+  if (rgb) {
+    const [r = 0, g = 0, b = 0, a = 1] = rgb
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .map((part) => (part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part)))
+    const channel = (n: number) =>
+      Math.min(255, Math.max(0, Math.round(n)))
+        .toString(16)
+        .padStart(2, '0')
+        .toUpperCase()
+    return { hex: channel(r) + channel(g) + channel(b), alpha: Math.min(1, Math.max(0, a)) }
+  }
+
+  return { hex: NAMED_COLORS[color] ?? '000000', alpha: 1 }
+}
+
+/**
+ * Write a color with an extra opacity applied
+ */
+function colorXml(color: RgbColor, opacity = 1): string {
+  const alpha = color.alpha * opacity
+  return el(
+    'a:srgbClr',
+    { val: color.hex },
+    alpha < 1 ? el('a:alpha', { val: percent(alpha) }) : ''
+  )
+}
+
+/**
+ * Write a solid fill, or no fill for transparent colors
+ */
+function solidFillXml(value: string, theme: PresentationTheme, opacity = 1): string {
+  const color = parseColor(value, theme)
+  return color ? el('a:solidFill', {}, colorXml(color, opacity)) : '<a:noFill/>'
+}
+
+/**
+ * Write a linear or radial gradient fill
+ */
+function gradientFillXml(
+  stops: GradientStop[],
+  direction: GradientDirection | 'radial',
+  theme: PresentationTheme,
+  opacity = 1
+): string {
+  const stopsXml = stops.map((stop) => {
+    const color = parseColor(stop.color, theme) ?? { hex: 'FFFFFF', alpha: 0 }
+    return el('a:gs', { pos: percent(stop.offset) }, colorXml(color, opacity))
+  })
+  const shade =
+    direction === 'radial'
+      ? el(
+          'a:path',
+          { path: 'circle' },
+          el('a:fillToRect', { l: 50000, t: 50000, r: 50000, b: 50000 })
+        )
+      : el('a:lin', { ang: GRADIENT_ANGLES[direction], scaled: true })
+  return el('a:gradFill', { rotWithShape: true }, [el('a:gsLst', {}, stopsXml), shade])
+}
+
+/**
+ * Get the first family of a CSS font family list, resolving the theme font
+ */
+function primaryFont(fontFamily: string, theme: PresentationTheme): string {
+  const [first = ''] = resolveThemeFont(fontFamily, theme).split(',')
+  return first.trim().replace(/^["']|["']$/g, '') || 'Arial'
+}
+
+// ============================================================================
+// Slide building
+// ============================================================================
+
+/**
+ * A relationship from a part to another part or an external target
+ */
+interface Relationship {
+  id: string
+  type: string
+  target: string
+  external?: boolean
+}
+
+/**
+ * An image stored in the package's media folder
+ */
+interface MediaFile {
+  /** File name in ppt/media */
+  name: string
+  data: Uint8Array
+  /** Pixel size of the image, when its format could be read */
+  size: Dimensions | null
+}
+
+/**
+ * State shared by the writers of one slide
+ */
+interface SlideContext {
+  theme: PresentationTheme
+  elements: SlideElement[]
+  relationships: Relationship[]
+  /** Images by source, or null for images that couldn't be loaded */
+  media: Map<string, MediaFile | null>
+  /** Add a chart part to the package, returning its path relative to the slide */
+  addChart: (xml: string) => string
+  nextShapeId: number
+  skippedImageCount: number
+}
+
+/**
+ * Add a relationship from the slide, reusing an existing one to the same target
+ */
+function addRelationship(
+  ctx: SlideContext,
+  type: string,
+  target: string,
+  external = false
+): string {
+  const existing = ctx.relationships.find((r) => r.type === type && r.target === target)
+  if (existing) return existing.id
+  const id = `rId${String(ctx.relationships.length + 1)}`
+  ctx.relationships.push({ id, type, target, ...(external && { external }) })
+  return id
+}
+
+/**
+ * Write the relationships part of a part
+ */
+function relationshipsXml(relationships: Relationship[]): string {
+  return el(
+    'Relationships',
+    { xmlns: NS.relationships },
+    relationships.map((r) =>
+      el('Relationship', {
+        Id: r.id,
+        Type: r.type,
+        Target: r.target,
+        TargetMode: r.external ? 'External' : undefined,
+      })
+    )
+  )
+}
+
+/**
+ * Write the non-visual properties shared by every shape: its id, name and description
+ */
+function shapePropertiesXml(ctx: SlideContext, name: string, description?: string): string {
+  const id = ctx.nextShapeId++
+  return el('p:cNvPr', { id, name: `${name} ${String(id)}`, descr: description || undefined })
+}
+
+/**
+ * Write the position, size and rotation of an object
+ */
+function transformXml(
+  position: Position,
+  dimensions: Dimensions,
+  rotation = 0,
+  tag = 'a:xfrm'
+): string {
+  const rot = ((rotation % 360) + 360) % 360
+  return el(tag, { rot: rot ? rot * 60000 : undefined }, [
+    el('a:off', { x: emu(position.x), y: emu(position.y) }),
+    el('a:ext', {
+      cx: emu(Math.max(0, dimensions.width)),
+      cy: emu(Math.max(0, dimensions.height)),
+    }),
+  ])
+}
+
+/**
+ * Write a preset geometry, with optional adjustment values
+ */
+function presetGeometryXml(preset: string, adjustments: Record<string, number> = {}): string {
+  const guides = Object.entries(adjustments).map(([name, value]) =>
+    el('a:gd', { name, fmla: `val ${String(Math.round(value))}` })
+  )
+  return el('a:prstGeom', { prst: preset }, el('a:avLst', {}, guides))
+}
+
+/**
+ * Write a custom geometry from path commands in slide coordinates
+ */
+function customGeometryXml(
+  commands: PathCommand[],
+  origin: Position,
+  dimensions: Dimensions,
+  closed: boolean
+): string {
+  const point = (x: number, y: number) => el('a:pt', { x: emu(x - origin.x), y: emu(y - origin.y) })
+  const segments = commands.map((command) => {
+    switch (command.type) {
+      case 'M':
+        return el('a:moveTo', {}, point(command.x, command.y))
+      case 'L':
+        return el('a:lnTo', {}, point(command.x, command.y))
+      case 'Q':
+        return el('a:quadBezTo', {}, [point(command.x1, command.y1), point(command.x, command.y)])
+      case 'C':
+        return el('a:cubicBezTo', {}, [
+          point(command.x1, command.y1),
+          point(command.x2, command.y2),
+          point(command.x, command.y),
+        ])
+      case 'Z':
+        return '<a:close/>'
+    }
+  })
+  const w = Math.max(1, emu(dimensions.width))
+  const h = Math.max(1, emu(dimensions.height))
+  return el('a:custGeom', {}, [
+    '<a:avLst/><a:gdLst/><a:ahLst/><a:cxnLst/>',
+    el('a:rect', { l: 0, t: 0, r: 'r', b: 'b' }),
+    el('a:pathLst', {}, el('a:path', { w, h, fill: closed ? undefined : 'none' }, segments)),
+  ])
+}
+
+/**
+ * Write an outline
+ */
+function lineXml(options: {
+  color: string
+  width: number
+  theme: PresentationTheme
+  opacity?: number
+  dash?: ShapeElement['strokeDash']
+  cap?: ShapeElement['strokeLineCap']
+  join?: ShapeElement['strokeLineJoin']
+  headEnd?: ArrowheadStyle
+  tailEnd?: ArrowheadStyle
+}): string {
+  const color = parseColor(options.color, options.theme)
+  if (!color || options.width <= 0) return el('a:ln', {}, '<a:noFill/>')
+
+  const caps = { butt: 'flat', round: 'rnd', square: 'sq' } as const
+  const join =
+    options.join === 'round'
+      ? '<a:round/>'
+      : options.join === 'bevel'
+        ? '<a:bevel/>'
+        : options.join === 'miter'
+          ? el('a:miter', { lim: 800000 })
+          : ''
+  const end = (tag: string, style: ArrowheadStyle | undefined) => {
+    const type = style && ARROWHEAD_TYPES[style]
+    return type ? el(tag, { type }) : ''
+  }
+  return el('a:ln', { w: emu(options.width), cap: options.cap && caps[options.cap] }, [
+    el('a:solidFill', {}, colorXml(color, options.opacity)),
+    options.dash ? el('a:prstDash', { val: DASH_PRESETS[options.dash] }) : '',
+    join,
+    end('a:headEnd', options.headEnd),
+    end('a:tailEnd', options.tailEnd),
+  ])
+}
+
+/**
+ * Write a shape with its properties, and optionally a text body
+ */
+function spXml(
+  ctx: SlideContext,
+  name: string,
+  shapeProperties: string[],
+  options: { textBox?: boolean; textBody?: string } = {}
+): string {
+  return el('p:sp', {}, [
+    el('p:nvSpPr', {}, [
+      shapePropertiesXml(ctx, name),
+      el('p:cNvSpPr', { txBox: options.textBox }),
+      '<p:nvPr/>',
+    ]),
+    el('p:spPr', {}, shapeProperties),
+    options.textBody ?? '',
+  ])
+}
+
+// ============================================================================
+// Text
+// ============================================================================
+
+/**
+ * Write the runs of a paragraph. Line breaks within runs become PowerPoint line breaks.
+ */
+function runsXml(runs: TextRun[], element: TextElement, ctx: SlideContext): string[] {
+  const fontSize = Math.round(element.fontSize * 100)
+  const font = primaryFont(element.fontFamily, ctx.theme)
+
+  return runs.flatMap((run) => {
+    // Slides may hold links saved before they were checked
+    const link = run.link ? sanitizeLink(run.link) : null
+    const runProperties = (tag: string) =>
+      el(
+        tag,
+        {
+          lang: 'en-US',
+          sz: fontSize,
+          b: (run.fontWeight ?? element.fontWeight) === 'bold',
+          i: (run.fontStyle ?? element.fontStyle) === 'italic',
+          u: run.underline ? 'sng' : undefined,
+          dirty: '0',
+        },
+        [
+          solidFillXml(run.color ?? element.color, ctx.theme, element.opacity),
+          el('a:latin', { typeface: font }),
+          link
+            ? el('a:hlinkClick', {
+                'r:id': addRelationship(ctx, REL.hyperlink, link, true),
+              })
+            : '',
+        ]
+      )
+
+    return run.text
+      .split(LINE_BREAK)
+      .flatMap((text, index) => [
+        index > 0 ? el('a:br', {}, runProperties('a:rPr')) : '',
+        text ? el('a:r', {}, [runProperties('a:rPr'), textNode('a:t', text)]) : '',
+      ])
+  })
+}
+
+/**
+ * Write the paragraphs of a text element, with their alignment, spacing and list formatting
+ */
+function paragraphsXml(element: TextElement, ctx: SlideContext): string[] {
+  const runs = getTextRuns(element)
+  const formats = getTextParagraphs(element)
+  const markers = getListMarkers(formats)
+  const indent = emu(element.fontSize * INDENT_PER_LEVEL_EM)
+  const align = { left: 'l', center: 'ctr', right: 'r' } as const
+  let offset = 0
+
+  return element.content.split('\n').map((text, index) => {
+    const start = offset
+    offset += text.length + 1
+    const format = formats[index] ?? { listType: 'none', indentLevel: 0 }
+    const isList = format.listType !== 'none'
+
+    const bullet =
+      format.listType === 'bullet'
+        ? el('a:buFont', { typeface: 'Arial' }) + el('a:buChar', { char: markers[index] ?? '•' })
+        : format.listType === 'numbered'
+          ? el('a:buAutoNum', {
+              type:
+                NUMBERING_SCHEMES[format.indentLevel % NUMBERING_SCHEMES.length] ?? 'arabicPeriod',
+            })
+          : '<a:buNone/>'
+    const paragraphProperties = el(
+      'a:pPr',
+      {
+        algn: align[element.textAlign],
+        lvl: format.indentLevel || undefined,
+        marL: (format.indentLevel + (isList ? 1 : 0)) * indent || undefined,
+        indent: isList ? -indent : undefined,
+      },
+      [
+        el(
+          'a:lnSpc',
+          {},
+          el('a:spcPct', { val: percent(element.lineSpacing ?? DEFAULT_LINE_SPACING) })
+        ),
+        element.paragraphSpacing
+          ? el('a:spcAft', {}, el('a:spcPts', { val: element.paragraphSpacing * 100 }))
+          : '',
+        bullet,
+      ]
+    )
+
+    return el('a:p', {}, [
+      paragraphProperties,
+      ...runsXml(sliceRuns(runs, start, start + text.length), element, ctx),
+      el('a:endParaRPr', { lang: 'en-US', sz: Math.round(element.fontSize * 100), dirty: '0' }),
+    ])
+  })
+}
+
+/**
+ * Write a text element as a text box
+ */
+function textElementXml(element: TextElement, ctx: SlideContext): string {
+  const anchor = { top: 't', middle: 'ctr', bottom: 'b' } as const
+  const autofit =
+    element.autofit === 'shrink'
+      ? '<a:normAutofit/>'
+      : element.autofit === 'resize'
+        ? '<a:spAutoFit/>'
+        : ''
+  const textBody = el('p:txBody', {}, [
+    el(
+      'a:bodyPr',
+      {
+        wrap: 'square',
+        lIns: 0,
+        tIns: 0,
+        rIns: 0,
+        bIns: 0,
+        anchor: anchor[element.verticalAlign ?? DEFAULT_VERTICAL_ALIGN],
+        rtlCol: '0',
+      },
+      autofit
+    ),
+    '<a:lstStyle/>',
+    ...paragraphsXml(element, ctx),
+  ])
+
+  return spXml(
+    ctx,
+    'TextBox',
+    [
+      transformXml(element.position, element.dimensions, element.rotation),
+      presetGeometryXml('rect'),
+      '<a:noFill/>',
+    ],
+    { textBox: true, textBody }
+  )
+}
+
+// ============================================================================
+// Shapes and connectors
+// ============================================================================
+
+/**
+ * Write the geometry of a shape: a preset when PowerPoint has a matching one,
+ * otherwise its outline as custom geometry
+ */
+function shapeGeometryXml(shape: ShapeElement): { geometry: string; closed: boolean } {
+  const { width, height } = shape.dimensions
+  if (shape.shapeType === 'rectangle') {
+    const radius = Math.min(shape.cornerRadius ?? 0, width / 2, height / 2)
+    return {
+      geometry:
+        radius > 0
+          ? presetGeometryXml('roundRect', { adj: (radius / Math.min(width, height)) * 100000 })
+          : presetGeometryXml('rect'),
+      closed: true,
+    }
+  }
+
+  const preset = PRESET_SHAPES[shape.shapeType]
+  if (preset) return { geometry: presetGeometryXml(preset), closed: preset !== 'line' }
+
+  const outline = getShapeOutline(shape)
+  const closed = isClosedPath(outline)
+  return {
+    geometry: customGeometryXml(outline, shape.position, shape.dimensions, closed),
+    closed,
+  }
+}
+
+/**
+ * Write the fill of a shape
+ */
+function shapeFillXml(shape: ShapeElement, theme: PresentationTheme): string {
+  switch (shape.fillType) {
+    case 'linearGradient':
+      return gradientFillXml(
+        getShapeGradientStops(shape),
+        shape.gradientDirection ?? DEFAULT_GRADIENT_DIRECTION,
+        theme,
+        shape.opacity
+      )
+    case 'radialGradient':
+      return gradientFillXml(getShapeGradientStops(shape), 'radial', theme, shape.opacity)
+    default:
+      return solidFillXml(shape.fillColor, theme, shape.opacity)
+  }
+}
+
+/**
+ * Write the drop shadow of a shape, if it has one
+ */
+function shadowXml(shape: ShapeElement, theme: PresentationTheme): string {
+  const shadow = shape.shadow
+  if (!shadow?.enabled) return ''
+  const color = parseColor(shadow.color, theme) ?? { hex: '000000', alpha: 1 }
+  const angle = (Math.atan2(shadow.offsetY, shadow.offsetX) * 180) / Math.PI
+  return el(
+    'a:effectLst',
+    {},
+    el(
+      'a:outerShdw',
+      {
+        blurRad: emu(shadow.blur),
+        dist: emu(Math.hypot(shadow.offsetX, shadow.offsetY)),
+        dir: (((angle % 360) + 360) % 360) * 60000,
+        algn: 'ctr',
+        rotWithShape: '0',
+      },
+      colorXml(color, shadow.opacity * shape.opacity)
+    )
+  )
+}
+
+/**
+ * Write a shape element
+ */
+function shapeElementXml(shape: ShapeElement, ctx: SlideContext): string {
+  const { geometry, closed } = shapeGeometryXml(shape)
+  return spXml(ctx, 'Shape', [
+    transformXml(shape.position, shape.dimensions, shape.rotation),
+    geometry,
+    closed ? shapeFillXml(shape, ctx.theme) : '<a:noFill/>',
+    lineXml({
+      color: shape.strokeColor,
+      width: shape.strokeWidth,
+      theme: ctx.theme,
+      opacity: shape.opacity,
+      dash: shape.strokeDash,
+      cap: getShapeLineCap(shape),
+      join: getShapeLineJoin(shape),
+    }),
+    shadowXml(shape, ctx.theme),
+  ])
+}
+
+/**
+ * Write a connector as a connection shape following its routed path
+ */
+function connectorElementXml(connector: ConnectorElement, ctx: SlideContext): string {
+  const path = getConnectorPath(connector, ctx.elements)
+  const [start, ...rest] = path.points
+  const commands: PathCommand[] = start ? [{ type: 'M', x: start.x, y: start.y }] : []
+  if (path.kind === 'curve') {
+    const [c1, c2, end] = rest
+    if (c1 && c2 && end) {
+      commands.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y })
+    }
+  } else {
+    rest.forEach((point) => commands.push({ type: 'L', x: point.x, y: point.y }))
+  }
+
+  return el('p:cxnSp', {}, [
+    el('p:nvCxnSpPr', {}, [shapePropertiesXml(ctx, 'Connector'), '<p:cNvCxnSpPr/>', '<p:nvPr/>']),
+    el('p:spPr', {}, [
+      transformXml(connector.position, connector.dimensions),
+      customGeometryXml(commands, connector.position, connector.dimensions, false),
+      '<a:noFill/>',
+      lineXml({
+        color: connector.strokeColor,
+        width: connector.strokeWidth,
+        theme: ctx.theme,
+        opacity: connector.opacity,
+        cap: 'round',
+        join: 'round',
+        headEnd: connector.startArrowhead,
+        tailEnd: connector.endArrowhead,
+      }),
+    ]),
+  ])
+}
+
+// ============================================================================
+// Images
+// ============================================================================
+
+/**
+ * Write the part of an image to show, as insets from its edges
+ */
+function sourceRectXml(left: number, top: number, right: number, bottom: number): string {
+  const inset = (fraction: number) => (Math.abs(fraction) < 1e-6 ? undefined : percent(fraction))
+  return el('a:srcRect', { l: inset(left), t: inset(top), r: inset(right), b: inset(bottom) })
+}
+
+/**
+ * Write the effects applied to a picture: opacity and color adjustments
+ */
+function blipEffectsXml(image: ImageElement): string[] {
+  const adjustments = image.adjustments
+  const effects = [image.opacity < 1 ? el('a:alphaModFix', { amt: percent(image.opacity) }) : '']
+  if (adjustments) {
+    if (adjustments.blur > 0) effects.push(el('a:blur', { rad: emu(adjustments.blur) }))
+    // PowerPoint pictures are either grayscale or not
+    if (adjustments.grayscale >= 50) effects.push('<a:grayscl/>')
+    if (adjustments.brightness !== 100 || adjustments.contrast !== 100) {
+      effects.push(
+        el('a:lum', {
+          bright: (adjustments.brightness - 100) * 1000 || undefined,
+          contrast: (adjustments.contrast - 100) * 1000 || undefined,
+        })
+      )
+    }
+  }
+  return effects
+}
+
+/**
+ * Write an image element as a picture. Images that couldn't be loaded are left out.
+ */
+function imageElementXml(image: ImageElement, ctx: SlideContext): string {
+  const media = ctx.media.get(image.src)
+  if (!media) {
+    ctx.skippedImageCount++
+    return ''
+  }
+
+  // Fit the image into its box the way the canvas draws it, when its size is known
+  const { width: imageWidth, height: imageHeight } = media.size ?? { width: 1, height: 1 }
+  const fit = getImageFit(
+    imageWidth,
+    imageHeight,
+    media.size ? image : { ...image, objectFit: 'fill' }
+  )
+  const frame = {
+    position: { x: fit.dx, y: fit.dy },
+    dimensions: { width: fit.dw, height: fit.dh },
+  }
+
+  const geometry =
+    image.mask === 'circle'
+      ? presetGeometryXml('ellipse')
+      : image.mask === 'roundedRect'
+        ? presetGeometryXml('roundRect', {
+            adj:
+              (Math.min(
+                image.maskCornerRadius ?? DEFAULT_MASK_CORNER_RADIUS,
+                fit.dw / 2,
+                fit.dh / 2
+              ) /
+                Math.max(1, Math.min(fit.dw, fit.dh))) *
+              100000,
+          })
+        : presetGeometryXml('rect')
+
+  return el('p:pic', {}, [
+    el('p:nvPicPr', {}, [
+      shapePropertiesXml(ctx, 'Picture', image.alt),
+      el('p:cNvPicPr', {}, el('a:picLocks', { noChangeAspect: true })),
+      '<p:nvPr/>',
+    ]),
+    el('p:blipFill', {}, [
+      el(
+        'a:blip',
+        { 'r:embed': addRelationship(ctx, REL.image, `../media/${media.name}`) },
+        blipEffectsXml(image)
+      ),
+      sourceRectXml(
+        fit.sx / imageWidth,
+        fit.sy / imageHeight,
+        1 - (fit.sx + fit.sw) / imageWidth,
+        1 - (fit.sy + fit.sh) / imageHeight
+      ),
+      el('a:stretch', {}, '<a:fillRect/>'),
+    ]),
+    el('p:spPr', {}, [transformXml(frame.position, frame.dimensions, image.rotation), geometry]),
+  ])
+}
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+/**
+ * Write the borders of a table cell according to the table's border style
+ */
+function cellBordersXml(table: TableElement, rect: TableCellRect, ctx: SlideContext): string[] {
+  const rows = getRowCount(table)
+  const cols = getColumnCount(table)
+  const edges = {
+    lnL: rect.col === 0,
+    lnR: rect.col + rect.colSpan === cols,
+    lnT: rect.row === 0,
+    lnB: rect.row + rect.rowSpan === rows,
+  }
+  const shown = (side: keyof typeof edges): boolean => {
+    switch (table.borderStyle) {
+      case 'all':
+        return true
+      case 'outer':
+        return edges[side]
+      case 'horizontal':
+        return side === 'lnT' || side === 'lnB'
+      case 'none':
+        return false
+    }
+  }
+  return (Object.keys(edges) as (keyof typeof edges)[]).map((side) =>
+    shown(side)
+      ? el(
+          `a:${side}`,
+          { w: emu(table.borderWidth) },
+          solidFillXml(table.borderColor, ctx.theme, table.opacity)
+        )
+      : el(`a:${side}`, {}, '<a:noFill/>')
+  )
+}
+
+/**
+ * Write a table element as a native table
+ */
+function tableElementXml(table: TableElement, ctx: SlideContext): string {
+  const rows = getRowCount(table)
+  const cols = getColumnCount(table)
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0) || 1
+  const columnTotal = sum(table.columnWidths)
+  const rowTotal = sum(table.rowHeights)
+  const rects = new Map(
+    getCellRects(table).map((rect) => [`${String(rect.row)},${String(rect.col)}`, rect])
+  )
+  const emptyBody = '<a:txBody><a:bodyPr/><a:lstStyle/><a:p/></a:txBody><a:tcPr/>'
+
+  const rowsXml = Array.from({ length: rows }, (_, row) => {
+    const cells = Array.from({ length: cols }, (_, col) => {
+      const rect = rects.get(`${String(row)},${String(col)}`)
+      if (!rect || isCovered(table, row, col)) {
+        // Cells under a merged cell are kept, marked as merged into it
+        const anchor = getCellAnchor(table, row, col)
+        return el('a:tc', { hMerge: anchor.col < col, vMerge: anchor.row < row }, emptyBody)
+      }
+
+      const text = getCellTextElement(table, rect)
+      return el(
+        'a:tc',
+        {
+          gridSpan: rect.colSpan > 1 ? rect.colSpan : undefined,
+          rowSpan: rect.rowSpan > 1 ? rect.rowSpan : undefined,
+        },
+        [
+          el('a:txBody', {}, [
+            '<a:bodyPr/><a:lstStyle/>',
+            ...paragraphsXml({ ...text, opacity: table.opacity }, ctx),
+          ]),
+          el(
+            'a:tcPr',
+            {
+              marL: emu(TABLE_CELL_PADDING),
+              marR: emu(TABLE_CELL_PADDING),
+              marT: emu(TABLE_CELL_PADDING),
+              marB: emu(TABLE_CELL_PADDING),
+              anchor: 'ctr',
+            },
+            [
+              ...cellBordersXml(table, rect, ctx),
+              solidFillXml(getCellFillColor(table, rect), ctx.theme, table.opacity),
+            ]
+          ),
+        ]
+      )
+    })
+    const height = ((table.rowHeights[row] ?? 0) / rowTotal) * table.dimensions.height
+    return el('a:tr', { h: emu(height) }, cells)
+  })
+
+  const grid = Array.from({ length: cols }, (_, col) =>
+    el('a:gridCol', {
+      w: emu(((table.columnWidths[col] ?? 0) / columnTotal) * table.dimensions.width),
+    })
+  )
+
+  return el('p:graphicFrame', {}, [
+    el('p:nvGraphicFramePr', {}, [
+      shapePropertiesXml(ctx, 'Table'),
+      el('p:cNvGraphicFramePr', {}, el('a:graphicFrameLocks', { noGrp: true })),
+      '<p:nvPr/>',
+    ]),
+    transformXml(table.position, table.dimensions, table.rotation, 'p:xfrm'),
+    el(
+      'a:graphic',
+      {},
+      el('a:graphicData', { uri: 'http://schemas.openxmlformats.org/drawingml/2006/table' }, [
+        el('a:tbl', {}, [
+          el('a:tblPr', { firstRow: table.headerRow }),
+          el('a:tblGrid', {}, grid),
+          ...rowsXml,
+        ]),
+      ])
+    ),
+  ])
+}
+
+// ============================================================================
+// Charts
+// ============================================================================
+
+/**
+ * Write chart categories or values as literal data, since no workbook is embedded
+ */
+function chartDataXml(tag: 'c:cat' | 'c:val', values: (string | number)[]): string {
+  const literal = tag === 'c:cat' ? 'c:strLit' : 'c:numLit'
+  return el(tag, {}, [
+    el(literal, {}, [
+      el('c:ptCount', { val: values.length }),
+      ...values.map((value, idx) => el('c:pt', { idx }, textNode('c:v', String(value)))),
+    ]),
+  ])
+}
+
+/**
+ * Write the chart part of a chart element, with its data stored in the chart
+ */
+function chartXml(chart: ChartElement, theme: PresentationTheme): string {
+  const fill = (color: string) => solidFillXml(color, theme)
+  const series = chart.chartType === 'pie' ? chart.series.slice(0, 1) : chart.series
+
+  const seriesXml = series.map((s, index) => {
+    const color = getSeriesColor(chart, index, theme)
+    const properties =
+      chart.chartType === 'line'
+        ? el('c:spPr', {}, lineXml({ color, width: 2.25, theme, cap: 'round' }))
+        : el('c:spPr', {}, fill(color))
+    const points =
+      chart.chartType === 'pie'
+        ? chart.categories.map((_, idx) =>
+            el('c:dPt', {}, [
+              el('c:idx', { val: idx }),
+              el('c:bubble3D', { val: '0' }),
+              el('c:spPr', {}, fill(getPaletteColor(idx, theme))),
+            ])
+          )
+        : []
+    return el('c:ser', {}, [
+      el('c:idx', { val: index }),
+      el('c:order', { val: index }),
+      el('c:tx', {}, textNode('c:v', s.name)),
+      properties,
+      chart.chartType === 'bar' ? el('c:invertIfNegative', { val: '0' }) : '',
+      chart.chartType === 'line' ? el('c:marker', {}, el('c:symbol', { val: 'circle' })) : '',
+      ...points,
+      chartDataXml('c:cat', chart.categories),
+      chartDataXml(
+        'c:val',
+        chart.categories.map((_, i) => s.values[i] ?? 0)
+      ),
+      chart.chartType === 'line' ? el('c:smooth', { val: '0' }) : '',
+    ])
+  })
+
+  const axisIds = [el('c:axId', { val: 1 }), el('c:axId', { val: 2 })]
+  let plot: string
+  switch (chart.chartType) {
+    case 'bar':
+      plot = el('c:barChart', {}, [
+        el('c:barDir', { val: 'col' }),
+        el('c:grouping', { val: 'clustered' }),
+        el('c:varyColors', { val: '0' }),
+        ...seriesXml,
+        el('c:gapWidth', { val: 100 }),
+        ...axisIds,
+      ])
+      break
+    case 'line':
+      plot = el('c:lineChart', {}, [
+        el('c:grouping', { val: 'standard' }),
+        el('c:varyColors', { val: '0' }),
+        ...seriesXml,
+        el('c:marker', { val: true }),
+        ...axisIds,
+      ])
+      break
+    case 'area':
+      plot = el('c:areaChart', {}, [
+        el('c:grouping', { val: 'standard' }),
+        el('c:varyColors', { val: '0' }),
+        ...seriesXml,
+        ...axisIds,
+      ])
+      break
+    case 'pie':
+      plot = el('c:pieChart', {}, [
+        el('c:varyColors', { val: true }),
+        ...seriesXml,
+        el('c:firstSliceAng', { val: 0 }),
+      ])
+      break
+  }
+
+  const axes =
+    chart.chartType === 'pie'
+      ? []
+      : [
+          el('c:catAx', {}, [
+            el('c:axId', { val: 1 }),
+            el('c:scaling', {}, el('c:orientation', { val: 'minMax' })),
+            el('c:delete', { val: '0' }),
+            el('c:axPos', { val: 'b' }),
+            el('c:majorTickMark', { val: 'none' }),
+            el('c:minorTickMark', { val: 'none' }),
+            el('c:tickLblPos', { val: 'nextTo' }),
+            el('c:crossAx', { val: 2 }),
+            el('c:crosses', { val: 'autoZero' }),
+          ]),
+          el('c:valAx', {}, [
+            el('c:axId', { val: 2 }),
+            el('c:scaling', {}, el('c:orientation', { val: 'minMax' })),
+            el('c:delete', { val: '0' }),
+            el('c:axPos', { val: 'l' }),
+            '<c:majorGridlines/>',
+            el('c:majorTickMark', { val: 'none' }),
+            el('c:minorTickMark', { val: 'none' }),
+            el('c:tickLblPos', { val: 'nextTo' }),
+            el('c:crossAx', { val: 1 }),
+            el('c:crosses', { val: 'autoZero' }),
+            el('c:crossBetween', { val: 'between' }),
+          ]),
+        ]
+
+  const textProperties = (size: number, bold = false) =>
+    el('c:txPr', {}, [
+      '<a:bodyPr/><a:lstStyle/>',
+      el('a:p', {}, [
+        el(
+          'a:pPr',
+          {},
+          el('a:defRPr', { sz: size * 100, b: bold }, [
+            fill(chart.textColor),
+            el('a:latin', { typeface: primaryFont(chart.fontFamily, theme) }),
+          ])
+        ),
+        el('a:endParaRPr', { lang: 'en-US' }),
+      ]),
+    ])
+
+  const title = chart.title
+    ? el('c:title', {}, [
+        el(
+          'c:tx',
+          {},
+          el('c:rich', {}, [
+            '<a:bodyPr/><a:lstStyle/>',
+            el('a:p', {}, [
+              el('a:pPr', {}, el('a:defRPr', { sz: chart.fontSize * 120, b: true })),
+              el('a:r', {}, [
+                el(
+                  'a:rPr',
+                  { lang: 'en-US', sz: chart.fontSize * 120, b: true },
+                  fill(chart.textColor)
+                ),
+                textNode('a:t', chart.title),
+              ]),
+            ]),
+          ])
+        ),
+        el('c:overlay', { val: '0' }),
+      ])
+    : el('c:autoTitleDeleted', { val: true })
+
+  return el('c:chartSpace', { 'xmlns:c': NS.c, 'xmlns:a': NS.a, 'xmlns:r': NS.r }, [
+    el('c:roundedCorners', { val: '0' }),
+    el('c:chart', {}, [
+      title,
+      el('c:plotArea', {}, ['<c:layout/>', plot, ...axes]),
+      chart.showLegend
+        ? el('c:legend', {}, [el('c:legendPos', { val: 'b' }), el('c:overlay', { val: '0' })])
+        : '',
+      el('c:plotVisOnly', { val: true }),
+    ]),
+    el('c:spPr', {}, ['<a:noFill/>', el('a:ln', {}, '<a:noFill/>')]),
+    textProperties(chart.fontSize),
+  ])
+}
+
+/**
+ * Write a chart element as a native chart
+ */
+function chartElementXml(chart: ChartElement, ctx: SlideContext): string {
+  const target = ctx.addChart(chartXml(chart, ctx.theme))
+  return el('p:graphicFrame', {}, [
+    el('p:nvGraphicFramePr', {}, [
+      shapePropertiesXml(ctx, 'Chart'),
+      '<p:cNvGraphicFramePr/>',
+      '<p:nvPr/>',
+    ]),
+    transformXml(chart.position, chart.dimensions, chart.rotation, 'p:xfrm'),
+    el(
+      'a:graphic',
+      {},
+      el(
+        'a:graphicData',
+        { uri: NS.c },
+        el('c:chart', { 'xmlns:c': NS.c, 'r:id': addRelationship(ctx, REL.chart, target) })
+      )
+    ),
+  ])
+}
+
+// ============================================================================
+// Slides
+// ============================================================================
+
+/**
+ * Write an element as the PowerPoint object it maps to
+ */
+function elementXml(element: SlideElement, ctx: SlideContext): string {
+  switch (element.type) {
+    case 'text':
+      return textElementXml(element, ctx)
+    case 'shape':
+      return shapeElementXml(element, ctx)
+    case 'image':
+      return imageElementXml(element, ctx)
+    case 'table':
+      return tableElementXml(element, ctx)
+    case 'chart':
+      return chartElementXml(element, ctx)
+    case 'connector':
+      return connectorElementXml(element, ctx)
+  }
+}
+
+/**
+ * Write the background of a slide
+ */
+function backgroundXml(slide: Slide, ctx: SlideContext): string {
+  const background = resolveBackgroundTheme(slide.background, ctx.theme)
+  let fill: string
+
+  const media =
+    background.type === 'image' && background.imageSrc ? ctx.media.get(background.imageSrc) : null
+  if (background.type === 'gradient') {
+    fill = gradientFillXml(
+      getBackgroundGradientStops(background),
+      background.gradientDirection ?? DEFAULT_GRADIENT_DIRECTION,
+      ctx.theme
+    )
+  } else if (media) {
+    const embed = addRelationship(ctx, REL.image, `../media/${media.name}`)
+    const slideRatio = SLIDE_WIDTH / SLIDE_HEIGHT
+    const imageRatio = media.size ? media.size.width / media.size.height : slideRatio
+    // Cover crops the image to the slide; contain insets it, keeping its aspect ratio
+    const excess = (ratio: number) => (1 - ratio) / 2
+    let mode: string
+    switch (background.imageFillMode) {
+      case 'tile':
+        mode = el('a:tile', { tx: 0, ty: 0, sx: 100000, sy: 100000, flip: 'none', algn: 'tl' })
+        break
+      case 'contain': {
+        const inset =
+          imageRatio > slideRatio
+            ? {
+                t: percent(excess(slideRatio / imageRatio)),
+                b: percent(excess(slideRatio / imageRatio)),
+              }
+            : {
+                l: percent(excess(imageRatio / slideRatio)),
+                r: percent(excess(imageRatio / slideRatio)),
+              }
+        mode = el('a:stretch', {}, el('a:fillRect', inset))
+        break
+      }
+      default:
+        mode = el('a:stretch', {}, '<a:fillRect/>')
+    }
+    const crop =
+      background.imageFillMode === 'cover'
+        ? imageRatio > slideRatio
+          ? sourceRectXml(excess(slideRatio / imageRatio), 0, excess(slideRatio / imageRatio), 0)
+          : sourceRectXml(0, excess(imageRatio / slideRatio), 0, excess(imageRatio / slideRatio))
+        : '<a:srcRect/>'
+    fill = el('a:blipFill', { dpi: 0, rotWithShape: true }, [
+      el('a:blip', { 'r:embed': embed }),
+      crop,
+      mode,
+    ])
+  } else {
+    if (background.type === 'image' && background.imageSrc) ctx.skippedImageCount++
+    fill = solidFillXml(
+      background.type === 'solid' ? (background.color ?? '#ffffff') : '#ffffff',
+      ctx.theme
+    )
+  }
+
+  return el('p:bg', {}, el('p:bgPr', {}, [fill, '<a:effectLst/>']))
+}
+
+/**
+ * Write the transition into a slide, or nothing for slides without one
+ */
+function transitionXml(transition: SlideTransition): string {
+  const effects: Record<SlideTransition['type'], string | null> = {
+    none: null,
+    fade: '<p:fade/>',
+    // Slides enter from the right in presentation mode, pushing the previous one left
+    slide: el('p:push', { dir: 'l' }),
+    zoom: '<p:zoom/>',
+  }
+  const effect = effects[transition.type]
+  if (!effect) return ''
+  // The speed is for older readers; PowerPoint 2010 and later read the exact duration
+  const speed = transition.duration < 625 ? 'fast' : transition.duration < 875 ? 'med' : 'slow'
+  return el('p:transition', { spd: speed, 'p14:dur': transition.duration }, effect)
+}
+
+/**
+ * Group shape properties every shape tree starts with
+ */
+const SHAPE_TREE_HEADER =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/>' +
+  '<a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>'
+
+/**
+ * Namespace declarations of presentation parts
+ */
+const PRESENTATION_NAMESPACES = { 'xmlns:a': NS.a, 'xmlns:r': NS.r, 'xmlns:p': NS.p }
+
+/**
+ * Write a slide, with its elements in stacking order
+ */
+function slideXml(slide: Slide, ctx: SlideContext, includeTransitions: boolean): string {
+  const elements = [...slide.elements].sort((a, b) => a.zIndex - b.zIndex)
+  const background = backgroundXml(slide, ctx)
+  const shapes = elements.map((element) => elementXml(element, ctx))
+
+  return el(
+    'p:sld',
+    {
+      ...PRESENTATION_NAMESPACES,
+      'xmlns:mc': NS.mc,
+      'xmlns:p14': NS.p14,
+      'mc:Ignorable': 'p14',
+    },
+    [
+      el('p:cSld', { name: slide.title || undefined }, [
+        background,
+        el('p:spTree', {}, [SHAPE_TREE_HEADER, ...shapes]),
+      ]),
+      '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>',
+      includeTransitions ? transitionXml(slide.transition) : '',
+    ]
+  )
+}
+
+/**
+ * Write the notes page of a slide, with the slide image on top and the notes below
+ */
+function notesSlideXml(notes: string): string {
+  const paragraphs = notes
+    .split('\n')
+    .map((line) =>
+      el(
+        'a:p',
+        {},
+        line
+          ? el('a:r', {}, [el('a:rPr', { lang: 'en-US', dirty: '0' }), textNode('a:t', line)])
+          : ''
+      )
+    )
+  return el('p:notes', PRESENTATION_NAMESPACES, [
+    el('p:cSld', {}, [
+      el('p:spTree', {}, [
+        SHAPE_TREE_HEADER,
+        '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/>' +
+          '<p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr>' +
+          '<p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>',
+        el('p:sp', {}, [
+          '<p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/>' +
+            '<p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>' +
+            '<p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/>',
+          el('p:txBody', {}, ['<a:bodyPr/><a:lstStyle/>', ...paragraphs]),
+        ]),
+      ]),
+    ]),
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>',
+  ])
+}
+
+// ============================================================================
+// Package parts shared by every slide
+// ============================================================================
+
+/**
+ * Color map of the masters, mapping background and text colors to the theme's light and dark colors
+ */
+const COLOR_MAP =
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" ' +
+  'accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>'
+
+/**
+ * Write a theme part from the presentation theme
+ */
+function themeXml(theme: PresentationTheme, name: string): string {
+  const color = (value: string, fallback: string) => parseColor(value, theme)?.hex ?? fallback
+  const scheme = (tag: string, hex: string) => el(`a:${tag}`, {}, el('a:srgbClr', { val: hex }))
+  const font = primaryFont(theme.fontFamily, theme)
+  const fonts = (tag: string) =>
+    el(`a:${tag}`, {}, [
+      el('a:latin', { typeface: font }),
+      el('a:ea', { typeface: '' }),
+      el('a:cs', { typeface: '' }),
+    ])
+  const solid = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'
+  const line = (w: number) => el('a:ln', { w }, [solid, el('a:prstDash', { val: 'solid' })])
+
+  return el('a:theme', { 'xmlns:a': NS.a, name }, [
+    el('a:themeElements', {}, [
+      el('a:clrScheme', { name }, [
+        scheme('dk1', color(theme.textColor, '000000')),
+        scheme('lt1', color(theme.backgroundColor, 'FFFFFF')),
+        scheme('dk2', color(theme.secondaryColor, '44546A')),
+        scheme('lt2', 'E7E6E6'),
+        ...[0, 1, 2, 3, 4, 5].map((i) =>
+          scheme(`accent${String(i + 1)}`, color(getPaletteColor(i, theme), '4472C4'))
+        ),
+        scheme('hlink', color(theme.primaryColor, '0563C1')),
+        scheme('folHlink', color(theme.secondaryColor, '954F72')),
+      ]),
+      el('a:fontScheme', { name }, [fonts('majorFont'), fonts('minorFont')]),
+      el('a:fmtScheme', { name }, [
+        el('a:fillStyleLst', {}, [solid, solid, solid]),
+        el('a:lnStyleLst', {}, [line(6350), line(12700), line(19050)]),
+        el(
+          'a:effectStyleLst',
+          {},
+          Array(3).fill('<a:effectStyle><a:effectLst/></a:effectStyle>') as string[]
+        ),
+        el('a:bgFillStyleLst', {}, [solid, solid, solid]),
+      ]),
+    ]),
+  ])
+}
+
+/**
+ * Write the slide master, on which the single blank layout is based
+ */
+function slideMasterXml(): string {
+  return el('p:sldMaster', PRESENTATION_NAMESPACES, [
+    el('p:cSld', {}, [
+      '<p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>',
+      el('p:spTree', {}, SHAPE_TREE_HEADER),
+    ]),
+    COLOR_MAP,
+    el('p:sldLayoutIdLst', {}, el('p:sldLayoutId', { id: '2147483649', 'r:id': 'rId1' })),
+    '<p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles>',
+  ])
+}
+
+/**
+ * Write the blank layout every slide uses
+ */
+function slideLayoutXml(): string {
+  return el('p:sldLayout', { ...PRESENTATION_NAMESPACES, type: 'blank', preserve: true }, [
+    el('p:cSld', { name: 'Blank' }, el('p:spTree', {}, SHAPE_TREE_HEADER)),
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>',
+  ])
+}
+
+/**
+ * Write the notes master, placing the slide image and the notes on the notes page
+ */
+function notesMasterXml(): string {
+  const placeholder = (
+    id: number,
+    name: string,
+    type: string,
+    frame: [number, number, number, number]
+  ) =>
+    el('p:sp', {}, [
+      el('p:nvSpPr', {}, [
+        el('p:cNvPr', { id, name }),
+        '<p:cNvSpPr/>',
+        el('p:nvPr', {}, el('p:ph', { type, idx: type === 'body' ? 1 : undefined })),
+      ]),
+      el(
+        'p:spPr',
+        {},
+        el('a:xfrm', {}, [
+          el('a:off', { x: frame[0], y: frame[1] }),
+          el('a:ext', { cx: frame[2], cy: frame[3] }),
+        ])
+      ),
+    ])
+
+  return el('p:notesMaster', PRESENTATION_NAMESPACES, [
+    el('p:cSld', {}, [
+      '<p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>',
+      el('p:spTree', {}, [
+        SHAPE_TREE_HEADER,
+        placeholder(2, 'Slide Image Placeholder 1', 'sldImg', [381000, 685800, 6096000, 3429000]),
+        placeholder(3, 'Notes Placeholder 2', 'body', [685800, 4400550, 5486400, 3600450]),
+      ]),
+    ]),
+    COLOR_MAP,
+  ])
+}
+
+/**
+ * Write the document properties: title and timestamps
+ */
+function corePropertiesXml(presentation: Presentation): string {
+  const date = (value: string) =>
+    textNode('dcterms:' + (value === presentation.createdAt ? 'created' : 'modified'), value, {
+      'xsi:type': 'dcterms:W3CDTF',
+    })
+  return el(
+    'cp:coreProperties',
+    {
+      'xmlns:cp': 'http://schemas.openxmlformats.org/package/2006/metadata/core-properties',
+      'xmlns:dc': 'http://purl.org/dc/elements/1.1/',
+      'xmlns:dcterms': 'http://purl.org/dc/terms/',
+      'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    },
+    [
+      textNode('dc:title', presentation.name),
+      presentation.description ? textNode('dc:description', presentation.description) : '',
+      presentation.createdAt ? date(presentation.createdAt) : '',
+      presentation.updatedAt && presentation.updatedAt !== presentation.createdAt
+        ? date(presentation.updatedAt)
+        : '',
+    ]
+  )
+}
+
+// ============================================================================
+// Images
+// ============================================================================
+
+/**
+ * Load the data of an image source: an asset reference, a data URL or a URL
+ */
+async function loadImage(src: string): Promise<{ data: Uint8Array; extension: string } | null> {
+  const url = resolveAssetUrl(src)
+  if (!url) return null
+
+  const decoded = decodeDataUrl(url)
+  if (decoded) {
+    const extension = IMAGE_EXTENSIONS[decoded.mimeType]
+    return extension ? { data: decoded.data, extension } : null
+  }
+
+  const response = await fetch(url)
+  if (!response.ok) return null
+  const mimeType =
+    (response.headers.get('content-type') ?? '').split(';')[0]?.trim().toLowerCase() ?? ''
+  const extension = IMAGE_EXTENSIONS[mimeType]
+  return extension ? { data: new Uint8Array(await response.arrayBuffer()), extension } : null
+}
+
+/**
+ * Load every image the slides show, once per source.
+ * Images that can't be loaded are stored as null and left out of the export.
+ */
+async function loadSlideImages(slides: Slide[]): Promise<Map<string, MediaFile | null>> {
+  const sources = new Set<string>()
+  for (const slide of slides) {
+    if (slide.background.type === 'image' && slide.background.imageSrc) {
+      sources.add(slide.background.imageSrc)
+    }
+    for (const element of slide.elements) {
+      if (element.type === 'image' && element.src) sources.add(element.src)
+    }
+  }
+
+  const media = new Map<string, MediaFile | null>()
+  for (const src of sources) {
+    try {
+      const image = await loadImage(src)
+      media.set(
+        src,
+        image && {
+          name: `image${String(media.size + 1)}.${image.extension}`,
+          data: image.data,
+          size: readImageSize(image.data),
+        }
+      )
+    } catch {
+      media.set(src, null)
+    }
+  }
+  return media
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Build the PPTX file of a presentation
+ */
+export async function createPptx(
+  presentation: Presentation,
+  options: Partial<PptxExportOptions> = {}
+): Promise<{ data: Uint8Array; skippedImageCount: number }> {
+  const { includeNotes, includeTransitions, onProgress } = { ...DEFAULT_PPTX_OPTIONS, ...options }
+  const { slides, theme } = presentation
+  const media = await loadSlideImages(slides)
+
+  const parts: Record<string, Uint8Array> = {}
+  const overrides: Record<string, string> = {}
+  const addPart = (path: string, xml: string, contentType?: string) => {
+    parts[path] = xmlPart(xml)
+    if (contentType) overrides[`/${path}`] = contentType
+  }
+
+  let chartCount = 0
+  let skippedImageCount = 0
+  const slideIds: string[] = []
+  const hasNotes = includeNotes && slides.some((slide) => slide.notes.trim())
+
+  slides.forEach((slide, index) => {
+    const number = String(index + 1)
+    const ctx: SlideContext = {
+      theme,
+      elements: slide.elements,
+      relationships: [],
+      media,
+      addChart: (xml) => {
+        chartCount++
+        addPart(`ppt/charts/chart${String(chartCount)}.xml`, xml, CONTENT_TYPE.chart)
+        return `../charts/chart${String(chartCount)}.xml`
+      },
+      nextShapeId: 2,
+      skippedImageCount: 0,
+    }
+    addRelationship(ctx, REL.slideLayout, '../slideLayouts/slideLayout1.xml')
+    addPart(
+      `ppt/slides/slide${number}.xml`,
+      slideXml(slide, ctx, includeTransitions),
+      CONTENT_TYPE.slide
+    )
+
+    if (includeNotes && slide.notes.trim()) {
+      addRelationship(ctx, REL.notesSlide, `../notesSlides/notesSlide${number}.xml`)
+      addPart(
+        `ppt/notesSlides/notesSlide${number}.xml`,
+        notesSlideXml(slide.notes),
+        CONTENT_TYPE.notesSlide
+      )
+      addPart(
+        `ppt/notesSlides/_rels/notesSlide${number}.xml.rels`,
+        relationshipsXml([
+          { id: 'rId1', type: REL.notesMaster, target: '../notesMasters/notesMaster1.xml' },
+          { id: 'rId2', type: REL.slide, target: `../slides/slide${number}.xml` },
+        ])
+      )
+    }
+    addPart(`ppt/slides/_rels/slide${number}.xml.rels`, relationshipsXml(ctx.relationships))
+    skippedImageCount += ctx.skippedImageCount
+    slideIds.push(number)
+    onProgress?.(Math.round(((index + 1) / slides.length) * 100))
+  })
+
+  // Presentation part, linking the masters, slides and settings
+  const presentationRels: Relationship[] = [
+    { id: 'rId1', type: REL.slideMaster, target: 'slideMasters/slideMaster1.xml' },
+    { id: 'rId2', type: REL.theme, target: 'theme/theme1.xml' },
+    { id: 'rId3', type: REL.presProps, target: 'presProps.xml' },
+    { id: 'rId4', type: REL.viewProps, target: 'viewProps.xml' },
+    { id: 'rId5', type: REL.tableStyles, target: 'tableStyles.xml' },
+    ...(hasNotes
+      ? [{ id: 'rId6', type: REL.notesMaster, target: 'notesMasters/notesMaster1.xml' }]
+      : []),
+    ...slideIds.map((number) => ({
+      id: `rId${number}00`,
+      type: REL.slide,
+      target: `slides/slide${number}.xml`,
+    })),
+  ]
+  addPart(
+    'ppt/presentation.xml',
+    el('p:presentation', { ...PRESENTATION_NAMESPACES, saveSubsetFonts: true }, [
+      el('p:sldMasterIdLst', {}, el('p:sldMasterId', { id: '2147483648', 'r:id': 'rId1' })),
+      hasNotes ? el('p:notesMasterIdLst', {}, el('p:notesMasterId', { 'r:id': 'rId6' })) : '',
+      el(
+        'p:sldIdLst',
+        {},
+        slideIds.map((number, index) =>
+          el('p:sldId', { id: 256 + index, 'r:id': `rId${number}00` })
+        )
+      ),
+      el('p:sldSz', { cx: emu(SLIDE_WIDTH), cy: emu(SLIDE_HEIGHT) }),
+      el('p:notesSz', { cx: NOTES_WIDTH, cy: NOTES_HEIGHT }),
+    ]),
+    CONTENT_TYPE.presentation
+  )
+  addPart('ppt/_rels/presentation.xml.rels', relationshipsXml(presentationRels))
+
+  addPart('ppt/slideMasters/slideMaster1.xml', slideMasterXml(), CONTENT_TYPE.slideMaster)
+  addPart(
+    'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+    relationshipsXml([
+      { id: 'rId1', type: REL.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+      { id: 'rId2', type: REL.theme, target: '../theme/theme1.xml' },
+    ])
+  )
+  addPart('ppt/slideLayouts/slideLayout1.xml', slideLayoutXml(), CONTENT_TYPE.slideLayout)
+  addPart(
+    'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+    relationshipsXml([
+      { id: 'rId1', type: REL.slideMaster, target: '../slideMasters/slideMaster1.xml' },
+    ])
+  )
+  addPart('ppt/theme/theme1.xml', themeXml(theme, presentation.name), CONTENT_TYPE.theme)
+  if (hasNotes) {
+    addPart('ppt/notesMasters/notesMaster1.xml', notesMasterXml(), CONTENT_TYPE.notesMaster)
+    addPart(
+      'ppt/notesMasters/_rels/notesMaster1.xml.rels',
+      relationshipsXml([{ id: 'rId1', type: REL.theme, target: '../theme/theme2.xml' }])
+    )
+    addPart('ppt/theme/theme2.xml', themeXml(theme, 'Notes'), CONTENT_TYPE.theme)
+  }
+  addPart(
+    'ppt/presProps.xml',
+    el('p:presentationPr', PRESENTATION_NAMESPACES),
+    CONTENT_TYPE.presProps
+  )
+  addPart('ppt/viewProps.xml', el('p:viewPr', PRESENTATION_NAMESPACES), CONTENT_TYPE.viewProps)
+  addPart(
+    'ppt/tableStyles.xml',
+    el('a:tblStyleLst', { 'xmlns:a': NS.a, def: '{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}' }),
+    CONTENT_TYPE.tableStyles
+  )
+
+  // Document properties
+  addPart('docProps/core.xml', corePropertiesXml(presentation), CONTENT_TYPE.coreProperties)
+  addPart(
+    'docProps/app.xml',
+    el(
+      'Properties',
+      { xmlns: 'http://schemas.openxmlformats.org/officeDocument/2006/extended-properties' },
+      [
+        textNode('Application', 'Microsoft Office PowerPoint'),
+        textNode('Slides', String(slides.length)),
+      ]
+    ),
+    CONTENT_TYPE.extendedProperties
+  )
+  addPart(
+    '_rels/.rels',
+    relationshipsXml([
+      { id: 'rId1', type: REL.officeDocument, target: 'ppt/presentation.xml' },
+      { id: 'rId2', type: REL.coreProperties, target: 'docProps/core.xml' },
+      { id: 'rId3', type: REL.extendedProperties, target: 'docProps/app.xml' },
+    ])
+  )
+
+  // Images, written once however many slides show them
+  const extensions = new Set<string>()
+  for (const file of media.values()) {
+    if (!file) continue
+    parts[`ppt/media/${file.name}`] = file.data
+    extensions.add(file.name.split('.').pop() ?? 'png')
+  }
+
+  const contentTypes = el('Types', { xmlns: NS.contentTypes }, [
+    el('Default', { Extension: 'rels', ContentType: CONTENT_TYPE.relationships }),
+    el('Default', { Extension: 'xml', ContentType: 'application/xml' }),
+    ...[...extensions].map((extension) =>
+      el('Default', {
+        Extension: extension,
+        ContentType: extension === 'svg' ? 'image/svg+xml' : `image/${extension}`,
+      })
+    ),
+    ...Object.entries(overrides).map(([partName, contentType]) =>
+      el('Override', { PartName: partName, ContentType: contentType })
+    ),
+  ])
+
+  // The content types part comes first, as some readers expect
+  const data = zipSync({ '[Content_Types].xml': xmlPart(contentTypes), ...parts })
+  return { data, skippedImageCount }
+}
+
+/**
+ * Export a presentation to a PowerPoint file and download it
+ */
+export async function exportToPptx(
+  presentation: Presentation,
+  options: Partial<PptxExportOptions> = {}
+): Promise<PptxExportResult> {
+  if (presentation.slides.length === 0) {
+    return { success: false, error: 'Presentation has no slides to export' }
+  }
+
+  try {
+    const { data, skippedImageCount } = await createPptx(presentation, options)
+
+    // Generate filename
+    const sanitizedName = presentation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()
+    downloadFile(data as Uint8Array<ArrayBuffer>, `${sanitizedName}.pptx`, PPTX_MIME_TYPE)
+
+    return { success: true, skippedImageCount }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    return { success: false, error: `Failed to export PPTX: ${errorMessage}` }
+  }
+}
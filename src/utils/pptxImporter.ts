@@ -0,0 +1,1980 @@
+/**
+ * PPTX Importer utility for reading PowerPoint files into presentations.
+ * Converts the slides of a .pptx file into the app's model: text boxes and the text
+ * of placeholders become text elements, basic preset shapes and freeform shapes
+ * become shape elements, lines and connectors become connectors, and pictures,
+ * slide backgrounds, transitions and speaker notes are kept.
+ *
+ * Text formatting, placeholder positions and backgrounds that slides inherit from
+ * their layout and master are resolved, and the decorations of layouts and masters
+ * are copied onto the slides that show them. Content the model has no equivalent
+ * for, such as tables, charts or animations, is left out and listed in a report.
+ *
+ * Slides are scaled to fit the app's 960x540 slide, centered when their aspect
+ * ratio differs.
+ */
+
+import { strFromU8, unzipSync } from 'fflate'
+import type {
+  ArrowheadStyle,
+  BaseElement,
+  ConnectorElement,
+  ConnectorRouting,
+  Dimensions,
+  GradientDirection,
+  GradientStop,
+  ImageAdjustments,
+  ImageElement,
+  ListType,
+  Position,
+  Presentation,
+  PresentationTheme,
+  ShapeElement,
+  ShapeShadow,
+  Slide,
+  SlideBackground,
+  SlideElement,
+  SlideTransition,
+  StrokeDashStyle,
+  TextElement,
+  TextParagraph,
+  TextRun,
+  ThemeColorToken,
+} from '@/types/presentation'
+import { DEFAULT_THEME, THEME_FONT_TOKEN } from '@/types/presentation'
+import { hasRunFormatting, normalizeRuns, sanitizeLink } from './richText'
+import { hasParagraphFormatting, MAX_INDENT_LEVEL } from './textLists'
+import { DEFAULT_LINE_SPACING, LINE_BREAK } from './textLayout'
+import { themeColorRef } from './themeUtils'
+import { serializePathData, type PathCommand } from './shapeGeometry'
+import { createConnectorElement } from './connectorUtils'
+import type { StorageResult } from './localStorage'
+
+/**
+ * A kind of content that was left out of an import because the app can't represent it
+ */
+export interface UnsupportedFeature {
+  /** Description of the content, e.g. "Charts" */
+  feature: string
+  /** Number of times it was left out */
+  count: number
+  /** Numbers of the slides it was left out of, starting at 1 */
+  slides: number[]
+}
+
+/**
+ * A presentation read from a PowerPoint file, with the content that was left out
+ */
+export interface PptxImportResult {
+  presentation: Presentation
+  unsupported: UnsupportedFeature[]
+}
+
+/**
+ * File types offered when selecting a PowerPoint file to import
+ */
+export const PPTX_FILE_ACCEPT =
+  '.pptx,application/vnd.openxmlformats-officedocument.presentationml.presentation'
+
+/**
+ * Standard slide dimensions (16:9 aspect ratio)
+ */
+const SLIDE_WIDTH = 960
+const SLIDE_HEIGHT = 540
+
+/**
+ * Size of a point in English Metric Units, the unit of PowerPoint coordinates
+ */
+const EMU_PER_PT = 12700
+
+/**
+ * Default slide size of PowerPoint files that don't give one (10x7.5 inches)
+ */
+const DEFAULT_SLIDE_SIZE = { cx: 9144000, cy: 6858000 }
+
+/**
+ * Default text box insets in EMU: 0.1 inch on the sides, 0.05 inch at the top and bottom
+ */
+const DEFAULT_INSETS = { lIns: 91440, tIns: 45720, rIns: 91440, bIns: 45720 }
+
+/**
+ * Default font sizes in points of text that inherits no size, as in PowerPoint
+ */
+const DEFAULT_TITLE_FONT_SIZE = 44
+const DEFAULT_FONT_SIZE = 18
+
+/**
+ * Namespace of relationship attributes such as `r:embed`
+ */
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+/**
+ * Relationship types the importer follows, by the last segment of their URI
+ */
+const REL = {
+  officeDocument: 'officeDocument',
+  slide: 'slide',
+  slideLayout: 'slideLayout',
+  slideMaster: 'slideMaster',
+  notesSlide: 'notesSlide',
+  theme: 'theme',
+  image: 'image',
+  hyperlink: 'hyperlink',
+  comments: 'comments',
+}
+
+/**
+ * Image file MIME types by extension, for the image formats browsers can show
+ */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+}
+
+/**
+ * Theme colors that map onto the presentation theme, so they follow theme changes
+ */
+const SCHEME_TOKENS: Partial<Record<string, ThemeColorToken>> = {
+  dk1: 'text',
+  lt1: 'background',
+  accent1: 'primary',
+  accent2: 'secondary',
+}
+
+/**
+ * Colors of the preset color names files use most
+ */
+const PRESET_COLORS: Record<string, string> = {
+  black: '000000',
+  white: 'FFFFFF',
+  red: 'FF0000',
+  green: '008000',
+  blue: '0000FF',
+  yellow: 'FFFF00',
+  gray: '808080',
+  grey: '808080',
+  orange: 'FFA500',
+  purple: '800080',
+}
+
+/**
+ * Preset shapes that have an equivalent shape type, with the properties they map to
+ */
+const PRESET_SHAPES: Record<string, Pick<ShapeElement, 'shapeType'> & Partial<ShapeElement>> = {
+  rect: { shapeType: 'rectangle' },
+  roundRect: { shapeType: 'rectangle' },
+  ellipse: { shapeType: 'ellipse' },
+  triangle: { shapeType: 'triangle' },
+  diamond: { shapeType: 'polygon', pointCount: 4 },
+  pentagon: { shapeType: 'polygon', pointCount: 5 },
+  star4: { shapeType: 'star', pointCount: 4 },
+  star5: { shapeType: 'star', pointCount: 5 },
+  star6: { shapeType: 'star', pointCount: 6 },
+  star7: { shapeType: 'star', pointCount: 7 },
+  star8: { shapeType: 'star', pointCount: 8 },
+  star10: { shapeType: 'star', pointCount: 10 },
+  star12: { shapeType: 'star', pointCount: 12 },
+  rightArrow: { shapeType: 'arrow', direction: 'right' },
+  leftArrow: { shapeType: 'arrow', direction: 'left' },
+  upArrow: { shapeType: 'arrow', direction: 'up' },
+  downArrow: { shapeType: 'arrow', direction: 'down' },
+  chevron: { shapeType: 'chevron', direction: 'right' },
+  wedgeRectCallout: { shapeType: 'callout' },
+  wedgeRoundRectCallout: { shapeType: 'speechBubble' },
+}
+
+/**
+ * Routing of connector presets; other line presets are straight
+ */
+const CONNECTOR_ROUTING: Record<string, ConnectorRouting> = {
+  bentConnector2: 'elbow',
+  bentConnector3: 'elbow',
+  bentConnector4: 'elbow',
+  bentConnector5: 'elbow',
+  curvedConnector2: 'curved',
+  curvedConnector3: 'curved',
+  curvedConnector4: 'curved',
+  curvedConnector5: 'curved',
+}
+
+/**
+ * Arrowhead styles of line end types. Other end types are drawn as arrows.
+ */
+const ARROWHEAD_STYLES: Record<string, ArrowheadStyle> = {
+  none: 'none',
+  arrow: 'arrow',
+  triangle: 'triangle',
+  stealth: 'triangle',
+  oval: 'circle',
+}
+
+/**
+ * Stroke dash styles of dash presets. Other presets are solid.
+ */
+const DASH_STYLES: Record<string, StrokeDashStyle> = {
+  dash: 'dash',
+  lgDash: 'dash',
+  sysDash: 'dash',
+  dot: 'dot',
+  sysDot: 'dot',
+  dashDot: 'dashDot',
+  lgDashDot: 'dashDot',
+  sysDashDot: 'dashDot',
+  lgDashDotDot: 'dashDot',
+  sysDashDotDot: 'dashDot',
+}
+
+/**
+ * Transition types of PowerPoint transition effects that have an equivalent
+ */
+const TRANSITION_TYPES: Record<string, SlideTransition['type']> = {
+  fade: 'fade',
+  dissolve: 'fade',
+  push: 'slide',
+  cover: 'slide',
+  pull: 'slide',
+  wipe: 'slide',
+  zoom: 'zoom',
+  cut: 'none',
+}
+
+/**
+ * Transition durations in milliseconds of the legacy speed settings
+ */
+const TRANSITION_SPEEDS: Record<string, number> = { fast: 500, med: 750, slow: 1000 }
+
+/**
+ * Labels of graphic objects that can't be imported, by their data URI
+ */
+const GRAPHIC_FRAME_LABELS: Record<string, string> = {
+  'http://schemas.openxmlformats.org/drawingml/2006/table': 'Tables',
+  'http://schemas.openxmlformats.org/drawingml/2006/chart': 'Charts',
+  'http://schemas.openxmlformats.org/drawingml/2006/diagram': 'SmartArt graphics',
+  'http://schemas.openxmlformats.org/presentationml/2006/ole': 'Embedded objects',
+}
+
+// ============================================================================
+// XML helpers
+// ============================================================================
+
+/**
+ * Get the child elements of a node, optionally only those with a local name
+ */
+function childElements(node: Element | null | undefined, name?: string): Element[] {
+  if (!node) return []
+  return Array.from(node.children).filter((c) => !name || c.localName === name)
+}
+
+/**
+ * Follow a path of child element names from a node
+ */
+function child(node: Element | null | undefined, ...path: string[]): Element | undefined {
+  let current: Element | undefined = node ?? undefined
+  for (const name of path) {
+    current = childElements(current, name)[0]
+    if (!current) return undefined
+  }
+  return current
+}
+
+/**
+ * Get the first descendant of a node with a local name
+ */
+function descendant(node: Element | Document, name: string): Element | undefined {
+  return node.getElementsByTagNameNS('*', name)[0]
+}
+
+/**
+ * Get a numeric attribute, or the fallback when it is missing or not a number
+ */
+function numberAttr(node: Element | null | undefined, name: string, fallback: number): number
+function numberAttr(node: Element | null | undefined, name: string): number | undefined
+function numberAttr(node: Element | null | undefined, name: string, fallback?: number) {
+  const value = node?.getAttribute(name)
+  const number = value ? Number(value) : NaN
+  return Number.isFinite(number) ? number : fallback
+}
+
+/**
+ * Check a boolean attribute, written as 1 or true
+ */
+function boolAttr(node: Element | null | undefined, name: string): boolean | undefined {
+  const value = node?.getAttribute(name)
+  return value ? value === '1' || value === 'true' : undefined
+}
+
+/**
+ * Get a relationship ID attribute, such as `r:embed`
+ */
+function relAttr(node: Element | null | undefined, name: string): string | null {
+  return node?.getAttributeNS(NS_R, name) || null
+}
+
+/**
+ * Parse an XML part
+ */
+function parseXml(text: string, path: string): Element {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0 || !doc.documentElement) {
+    throw new Error(`Invalid XML in ${path}`)
+  }
+  return doc.documentElement
+}
+
+// ============================================================================
+// Package reading
+// ============================================================================
+
+/**
+ * A relationship from a part to another part or an external target
+ */
+interface Relationship {
+  type: string
+  /** Path of the target part in the package, or the external URL */
+  target: string
+  external: boolean
+}
+
+/**
+ * Reads the parts of a PowerPoint package
+ */
+interface PackageReader {
+  /** Read an XML part, or undefined if the package doesn't have it */
+  xml: (path: string) => Element | undefined
+  /** Read a binary part */
+  binary: (path: string) => Uint8Array | undefined
+  /** Read the relationships of a part, by relationship ID */
+  rels: (path: string) => Map<string, Relationship>
+}
+
+/**
+ * Resolve a relationship target against the path of its source part
+ */
+function resolvePartPath(source: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1)
+  const parts = source.split('/').slice(0, -1)
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop()
+    else if (segment && segment !== '.') parts.push(segment)
+  }
+  return parts.join('/')
+}
+
+/**
+ * Create a reader over the files of an unzipped package, caching parsed parts
+ */
+function createPackageReader(files: Record<string, Uint8Array>): PackageReader {
+  const xmlCache = new Map<string, Element | undefined>()
+  const relsCache = new Map<string, Map<string, Relationship>>()
+
+  const xml = (path: string) => {
+    if (!xmlCache.has(path)) {
+      const file = files[path]
+      xmlCache.set(path, file ? parseXml(strFromU8(file), path) : undefined)
+    }
+    return xmlCache.get(path)
+  }
+
+  const rels = (path: string) => {
+    let map = relsCache.get(path)
+    if (!map) {
+      const slash = path.lastIndexOf('/')
+      const relsPath = `${path.slice(0, slash + 1)}_rels/${path.slice(slash + 1)}.rels`
+      map = new Map()
+      for (const rel of childElements(xml(relsPath), 'Relationship')) {
+        const id = rel.getAttribute('Id')
+        const target = rel.getAttribute('Target')
+        if (!id || !target) continue
+        const external = rel.getAttribute('TargetMode') === 'External'
+        map.set(id, {
+          type: rel.getAttribute('Type')?.split('/').pop() ?? '',
+          target: external ? target : resolvePartPath(path, decodeURIComponent(target)),
+          external,
+        })
+      }
+      relsCache.set(path, map)
+    }
+    return map
+  }
+
+  return { xml, binary: (path) => files[path], rels }
+}
+
+/**
+ * Find the target of the first relationship of a type
+ */
+function findRelTarget(rels: Map<string, Relationship>, type: string): string | undefined {
+  for (const rel of rels.values()) {
+    if (rel.type === type && !rel.external) return rel.target
+  }
+  return undefined
+}
+
+// ============================================================================
+// Import state
+// ============================================================================
+
+/**
+ * Colors and fonts of the PowerPoint theme
+ */
+interface ThemeInfo {
+  /** Hex colors (without #) by scheme color name, e.g. accent1 */
+  colors: Record<string, string>
+  /** Scheme color names that slide color names such as tx1 map to */
+  colorMap: Record<string, string>
+  majorFont: string
+  minorFont: string
+}
+
+/**
+ * Maps child coordinates in EMU to slide pixels
+ */
+interface Transform {
+  scaleX: number
+  scaleY: number
+  offsetX: number
+  offsetY: number
+}
+
+/**
+ * Position, size and orientation of a shape in slide pixels
+ */
+interface Frame {
+  position: Position
+  dimensions: Dimensions
+  rotation: number
+  flipH: boolean
+  flipV: boolean
+}
+
+/**
+ * Counts content that was left out, per feature
+ */
+class UnsupportedReport {
+  private features = new Map<string, { count: number; slides: Set<number> }>()
+
+  /** Record that content was left out of a slide */
+  add(feature: string, slideNumber: number): void {
+    const entry = this.features.get(feature) ?? { count: 0, slides: new Set<number>() }
+    entry.count++
+    entry.slides.add(slideNumber)
+    this.features.set(feature, entry)
+  }
+
+  /** Get the features that were left out, in the order they were first found */
+  toList(): UnsupportedFeature[] {
+    return [...this.features].map(([feature, { count, slides }]) => ({
+      feature,
+      count,
+      slides: [...slides].sort((a, b) => a - b),
+    }))
+  }
+}
+
+/**
+ * State shared while converting the shapes of one part: a slide, layout or master
+ */
+interface PartContext {
+  pkg: PackageReader
+  /** Path of the part the shapes belong to, for resolving its relationships */
+  path: string
+  theme: ThemeInfo
+  /** Slide pixels per EMU, for font sizes and line widths */
+  pxPerEmu: number
+  /** Transform of the slide's own coordinates */
+  rootTransform: Transform
+  slideNumber: number
+  report: UnsupportedReport
+  nextId: () => string
+  /** Placeholders of the slide's layout and master, for inheriting positions and text styles */
+  layout: PlaceholderSource | null
+  master: PlaceholderSource | null
+  /** Group the shapes being converted belong to */
+  groupId?: string
+}
+
+/**
+ * Placeholders of a layout or master, with the text styles of a master
+ */
+interface PlaceholderSource {
+  placeholders: { type: string; idx: string | null; shape: Element }[]
+  /** Text styles of a master: title, body and other text */
+  textStyles: Record<'title' | 'body' | 'other', Element | undefined>
+}
+
+/**
+ * Normalize a placeholder type for matching against layouts and masters.
+ * Placeholders without a type are body placeholders.
+ */
+function placeholderKind(type: string | null): string {
+  switch (type) {
+    case 'title':
+    case 'ctrTitle':
+      return 'title'
+    case null:
+    case 'body':
+    case 'subTitle':
+    case 'obj':
+      return 'body'
+    default:
+      return type
+  }
+}
+
+/**
+ * Get the placeholder properties of a shape, if it is a placeholder
+ */
+function getPlaceholder(shape: Element): { type: string | null; idx: string | null } | null {
+  const nvPr = childElements(shape).find((c) => c.localName.startsWith('nv'))
+  const ph = child(nvPr, 'nvPr', 'ph')
+  return ph ? { type: ph.getAttribute('type'), idx: ph.getAttribute('idx') } : null
+}
+
+/**
+ * Collect the placeholders of a layout or master
+ */
+function readPlaceholders(root: Element | undefined): PlaceholderSource {
+  const spTree = child(root, 'cSld', 'spTree')
+  const placeholders = childElements(spTree, 'sp').flatMap((shape) => {
+    const ph = getPlaceholder(shape)
+    return ph ? [{ type: placeholderKind(ph.type), idx: ph.idx, shape }] : []
+  })
+  const txStyles = child(root, 'txStyles')
+  return {
+    placeholders,
+    textStyles: {
+      title: child(txStyles, 'titleStyle'),
+      body: child(txStyles, 'bodyStyle'),
+      other: child(txStyles, 'otherStyle'),
+    },
+  }
+}
+
+/**
+ * Find the placeholder a slide placeholder inherits from: by index, then by type
+ */
+function findPlaceholder(
+  source: PlaceholderSource | null,
+  ph: { type: string | null; idx: string | null }
+): Element | undefined {
+  if (!source) return undefined
+  const kind = placeholderKind(ph.type)
+  return (
+    (ph.idx !== null && source.placeholders.find((p) => p.idx === ph.idx)?.shape) ||
+    source.placeholders.find((p) => p.type === kind)?.shape
+  )
+}
+
+// ============================================================================
+// Colors and fills
+// ============================================================================
+
+/**
+ * Convert an RGB color to HSL, with all components from 0 to 1
+ */
+function rgbToHsl([r, g, b]: number[]): [number, number, number] {
+  const [rn = 0, gn = 0, bn = 0] = [r, g, b].map((c) => (c ?? 0) / 255)
+  const max = Math.max(rn, gn, bn)
+  const min = Math.min(rn, gn, bn)
+  const l = (max + min) / 2
+  if (max === min) return [0, 0, l]
+  const d = max - min
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min)
+  const h =
+    max === rn
+      ? (gn - bn) / d + (gn < bn ? 6 : 0)
+      : max === gn
+        ? (bn - rn) / d + 2
+        : (rn - gn) / d + 4
+  return [h / 6, s, l]
+}
+
+/**
+ * Convert an HSL color to RGB
+ */
+function hslToRgb([h, s, l]: [number, number, number]): number[] {
+  if (s === 0) return [l * 255, l * 255, l * 255]
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s
+  const p = 2 * l - q
+  const hue = (t: number) => {
+    const tn = t < 0 ? t + 1 : t > 1 ? t - 1 : t
+    if (tn < 1 / 6) return p + (q - p) * 6 * tn
+    if (tn < 1 / 2) return q
+    if (tn < 2 / 3) return p + (q - p) * (2 / 3 - tn) * 6
+    return p
+  }
+  return [hue(h + 1 / 3), hue(h), hue(h - 1 / 3)].map((c) => c * 255)
+}
+
+/**
+ * Read a color element (srgbClr, schemeClr, ...) with its modifiers into a color value.
+ * Unmodified theme colors that match the presentation theme become theme references.
+ */
+function readColorElement(node: Element, ctx: Pick<PartContext, 'theme'>): string | null {
+  let hex: string | undefined
+  let token: ThemeColorToken | undefined
+  switch (node.localName) {
+    case 'srgbClr':
+      hex = node.getAttribute('val') ?? undefined
+      break
+    case 'sysClr':
+      hex =
+        node.getAttribute('lastClr') ??
+        (node.getAttribute('val') === 'window' ? 'FFFFFF' : '000000')
+      break
+    case 'prstClr':
+      hex = PRESET_COLORS[node.getAttribute('val') ?? ''] ?? '000000'
+      break
+    case 'schemeClr': {
+      const val = node.getAttribute('val') ?? ''
+      const name = ctx.theme.colorMap[val] ?? val
+      hex = ctx.theme.colors[name]
+      token = SCHEME_TOKENS[name]
+      break
+    }
+    case 'scrgbClr':
+      hex = ['r', 'g', 'b']
+        .map((c) =>
+          Math.round((numberAttr(node, c, 0) / 100000) * 255)
+            .toString(16)
+            .padStart(2, '0')
+        )
+        .join('')
+      break
+    default:
+      return null
+  }
+  if (!hex || !/^[0-9a-f]{6}$/i.test(hex)) return null
+
+  let rgb = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16))
+  let alpha = 1
+  let modified = false
+  for (const modifier of childElements(node)) {
+    const value = numberAttr(modifier, 'val', 100000) / 100000
+    switch (modifier.localName) {
+      case 'alpha':
+        alpha = value
+        break
+      case 'lumMod':
+      case 'lumOff': {
+        const [h, s, l] = rgbToHsl(rgb)
+        rgb = hslToRgb([
+          h,
+          s,
+          Math.min(1, Math.max(0, modifier.localName === 'lumMod' ? l * value : l + value)),
+        ])
+        modified = true
+        break
+      }
+      case 'tint':
+        rgb = rgb.map((c) => c + (255 - c) * (1 - value))
+        modified = true
+        break
+      case 'shade':
+        rgb = rgb.map((c) => c * value)
+        modified = true
+        break
+    }
+  }
+
+  if (token && !modified && alpha >= 1) return themeColorRef(token)
+  const channels = rgb.map((c) => Math.min(255, Math.max(0, Math.round(c))))
+  if (alpha < 1) {
+    return `rgba(${channels.join(', ')}, ${String(Math.round(alpha * 1000) / 1000)})`
+  }
+  return `#${channels.map((c) => c.toString(16).padStart(2, '0')).join('')}`
+}
+
+/**
+ * Read the first color of a node that has a color element child
+ */
+function readColor(node: Element | undefined, ctx: Pick<PartContext, 'theme'>): string | null {
+  for (const c of childElements(node)) {
+    const color = readColorElement(c, ctx)
+    if (color) return color
+  }
+  return null
+}
+
+/**
+ * A fill read from shape or background properties
+ */
+type Fill =
+  | { kind: 'none' }
+  | { kind: 'solid'; color: string }
+  | { kind: 'gradient'; stops: GradientStop[]; direction: GradientDirection | 'radial' }
+  | { kind: 'picture'; src: string | null; tile: boolean }
+  | { kind: 'pattern'; color: string }
+
+/**
+ * Get the gradient direction closest to a linear gradient angle, and whether its
+ * stops run the opposite way
+ */
+function getGradientDirection(angle: number): { direction: GradientDirection; reversed: boolean } {
+  const degrees = (((angle / 60000) % 360) + 360) % 360
+  const reversed = degrees >= 112.5 && degrees < 292.5
+  const axis = degrees % 180
+  const direction =
+    axis < 22.5 || axis >= 157.5
+      ? 'horizontal'
+      : axis >= 67.5 && axis < 112.5
+        ? 'vertical'
+        : 'diagonal'
+  return { direction, reversed }
+}
+
+/**
+ * Read the fill of shape or background properties, or null when they don't set one
+ */
+function readFill(properties: Element | undefined, ctx: PartContext): Fill | null {
+  for (const node of childElements(properties)) {
+    switch (node.localName) {
+      case 'noFill':
+        return { kind: 'none' }
+      case 'solidFill':
+        return { kind: 'solid', color: readColor(node, ctx) ?? '#000000' }
+      case 'gradFill': {
+        const stops = childElements(child(node, 'gsLst'), 'gs')
+          .map((gs) => ({
+            offset: numberAttr(gs, 'pos', 0) / 100000,
+            color: readColor(gs, ctx) ?? '#ffffff',
+          }))
+          .sort((a, b) => a.offset - b.offset)
+        if (stops.length === 0) return null
+        if (child(node, 'path')) return { kind: 'gradient', stops, direction: 'radial' }
+        const { direction, reversed } = getGradientDirection(
+          numberAttr(child(node, 'lin'), 'ang', 0)
+        )
+        return {
+          kind: 'gradient',
+          stops: reversed ? stops.map((s) => ({ ...s, offset: 1 - s.offset })).reverse() : stops,
+          direction,
+        }
+      }
+      case 'blipFill':
+        return {
+          kind: 'picture',
+          src: readImage(child(node, 'blip'), ctx),
+          tile: !!child(node, 'tile'),
+        }
+      case 'pattFill':
+        return { kind: 'pattern', color: readColor(child(node, 'fgClr'), ctx) ?? '#000000' }
+      case 'grpFill':
+        return { kind: 'none' }
+    }
+  }
+  return null
+}
+
+/**
+ * Read the color a shape style reference (fillRef, lnRef) sets, unless its index is 0 (none)
+ */
+function readStyleColor(shape: Element, ref: string, ctx: PartContext): string | null {
+  const node = child(shape, 'style', ref)
+  return node && numberAttr(node, 'idx', 0) > 0 ? readColor(node, ctx) : null
+}
+
+// ============================================================================
+// Images
+// ============================================================================
+
+/**
+ * Encode binary data as base64
+ */
+function toBase64(data: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Read the image a blip embeds as a data URL. Linked and unsupported images are
+ * reported and read as null.
+ */
+function readImage(blip: Element | undefined, ctx: PartContext): string | null {
+  const embed = relAttr(blip, 'embed')
+  const rel = embed ? ctx.pkg.rels(ctx.path).get(embed) : undefined
+  if (!rel || rel.external) {
+    if (relAttr(blip, 'link')) ctx.report.add('Linked pictures', ctx.slideNumber)
+    return null
+  }
+
+  const extension = rel.target.split('.').pop()?.toLowerCase() ?? ''
+  const mimeType = IMAGE_MIME_TYPES[extension]
+  const data = ctx.pkg.binary(rel.target)
+  if (!mimeType) {
+    ctx.report.add(`Pictures in ${extension.toUpperCase() || 'unknown'} format`, ctx.slideNumber)
+    return null
+  }
+  return data ? `data:${mimeType};base64,${toBase64(data)}` : null
+}
+
+// ============================================================================
+// Frames
+// ============================================================================
+
+/**
+ * Read the frame of a transform (a:xfrm or p:xfrm) in slide pixels
+ */
+function readFrame(xfrm: Element | undefined, transform: Transform): Frame | null {
+  const off = child(xfrm, 'off')
+  const ext = child(xfrm, 'ext')
+  if (!off || !ext) return null
+  return {
+    position: {
+      x: transform.offsetX + numberAttr(off, 'x', 0) * transform.scaleX,
+      y: transform.offsetY + numberAttr(off, 'y', 0) * transform.scaleY,
+    },
+    dimensions: {
+      width: numberAttr(ext, 'cx', 0) * transform.scaleX,
+      height: numberAttr(ext, 'cy', 0) * transform.scaleY,
+    },
+    rotation: numberAttr(xfrm, 'rot', 0) / 60000,
+    flipH: boolAttr(xfrm, 'flipH') ?? false,
+    flipV: boolAttr(xfrm, 'flipV') ?? false,
+  }
+}
+
+/**
+ * Get the transform of the children of a group, mapping its child space onto its frame
+ */
+function getGroupTransform(group: Element, transform: Transform): Transform {
+  const xfrm = child(group, 'grpSpPr', 'xfrm')
+  const off = child(xfrm, 'off')
+  const ext = child(xfrm, 'ext')
+  const chOff = child(xfrm, 'chOff')
+  const chExt = child(xfrm, 'chExt')
+  if (!off || !ext || !chOff || !chExt) return transform
+
+  const ratio = (size: 'cx' | 'cy') => {
+    const childSize = numberAttr(chExt, size, 0)
+    return childSize > 0 ? numberAttr(ext, size, 0) / childSize : 1
+  }
+  const kx = ratio('cx')
+  const ky = ratio('cy')
+  return {
+    scaleX: transform.scaleX * kx,
+    scaleY: transform.scaleY * ky,
+    offsetX:
+      transform.offsetX +
+      transform.scaleX * (numberAttr(off, 'x', 0) - numberAttr(chOff, 'x', 0) * kx),
+    offsetY:
+      transform.offsetY +
+      transform.scaleY * (numberAttr(off, 'y', 0) - numberAttr(chOff, 'y', 0) * ky),
+  }
+}
+
+/**
+ * Create the properties shared by every element
+ */
+function baseElement(frame: Frame, ctx: PartContext): Omit<BaseElement, 'type'> {
+  return {
+    id: ctx.nextId(),
+    position: frame.position,
+    dimensions: frame.dimensions,
+    rotation: ((frame.rotation % 360) + 360) % 360,
+    zIndex: 0,
+    opacity: 1,
+    locked: false,
+    ...(ctx.groupId && { groupId: ctx.groupId }),
+  }
+}
+
+// ============================================================================
+// Text
+// ============================================================================
+
+/**
+ * Text styles a text body inherits, from the nearest to the furthest
+ */
+type TextStyleChain = Element[]
+
+/**
+ * Get the level properties (lvl1pPr, ...) of a level from a chain of list styles
+ */
+function getLevelProperties(styles: TextStyleChain, level: number): Element[] {
+  const name = `lvl${String(level + 1)}pPr`
+  return styles.flatMap((style) => {
+    const properties = child(style, name)
+    return properties ? [properties] : []
+  })
+}
+
+/**
+ * Find the first of a chain of property elements that has an attribute
+ */
+function inheritedAttr(chain: (Element | undefined)[], name: string): string | undefined {
+  for (const node of chain) {
+    const value = node?.getAttribute(name)
+    if (value) return value
+  }
+  return undefined
+}
+
+/**
+ * Find the first of a chain of property elements that has a child
+ */
+function inheritedChild(chain: (Element | undefined)[], ...names: string[]): Element | undefined {
+  for (const node of chain) {
+    const found = childElements(node).find((c) => names.includes(c.localName))
+    if (found) return found
+  }
+  return undefined
+}
+
+/**
+ * Resolve a theme font reference such as +mn-lt to the theme's font
+ */
+function resolveTypeface(typeface: string | undefined, theme: ThemeInfo): string | undefined {
+  if (!typeface) return undefined
+  if (typeface.startsWith('+mj')) return theme.majorFont
+  if (typeface.startsWith('+mn')) return theme.minorFont
+  return typeface
+}
+
+/**
+ * Character formatting of a run, with the element-level properties it sets
+ */
+interface RunFormat extends Omit<TextRun, 'text'> {
+  /** Font size in points */
+  size: number | undefined
+  fontFamily: string | undefined
+}
+
+/**
+ * Read the formatting of a run from its properties and the styles it inherits
+ */
+function readRunFormat(chain: (Element | undefined)[], ctx: PartContext): RunFormat {
+  const sz = inheritedAttr(chain, 'sz')
+  const b = inheritedAttr(chain, 'b')
+  const i = inheritedAttr(chain, 'i')
+  const u = inheritedAttr(chain, 'u')
+  const fill = inheritedChild(chain, 'solidFill', 'noFill')
+  const [runProperties] = chain
+  const link = relAttr(child(runProperties, 'hlinkClick'), 'id')
+  const linkTarget = link ? ctx.pkg.rels(ctx.path).get(link) : undefined
+  const color = fill?.localName === 'solidFill' ? readColor(fill, ctx) : null
+  // Files can link anywhere, including to scripts; only web and mail links are kept
+  const url = linkTarget?.external ? sanitizeLink(linkTarget.target) : null
+
+  return {
+    size: sz ? Number(sz) / 100 : undefined,
+    fontFamily: resolveTypeface(
+      inheritedChild(chain, 'latin')?.getAttribute('typeface') ?? undefined,
+      ctx.theme
+    ),
+    fontWeight: b === '1' || b === 'true' ? 'bold' : 'normal',
+    fontStyle: i === '1' || i === 'true' ? 'italic' : 'normal',
+    underline: !!u && u !== 'none',
+    ...(color && { color }),
+    ...(url && { link: url }),
+  }
+}
+
+/**
+ * Read the list type of a paragraph from its properties and the styles it inherits
+ */
+function readListType(chain: Element[]): ListType {
+  const bullet = inheritedChild(chain, 'buNone', 'buChar', 'buAutoNum', 'buBlip')
+  switch (bullet?.localName) {
+    case 'buChar':
+    case 'buBlip':
+      return 'bullet'
+    case 'buAutoNum':
+      return 'numbered'
+    default:
+      return 'none'
+  }
+}
+
+/**
+ * Read the text of a text body into a text element. Text styles are inherited from
+ * `styles`, and `titleText` picks the default font size of titles.
+ */
+function convertTextBody(
+  txBody: Element,
+  frame: Frame,
+  bodyProperties: Element[],
+  styles: TextStyleChain,
+  isTitle: boolean,
+  ctx: PartContext
+): TextElement | null {
+  const normAutofit = inheritedChild(bodyProperties, 'normAutofit', 'spAutoFit', 'noAutofit')
+  const fontScale =
+    normAutofit?.localName === 'normAutofit'
+      ? numberAttr(normAutofit, 'fontScale', 100000) / 100000
+      : 1
+  const pxPerPt = EMU_PER_PT * ctx.pxPerEmu
+
+  const lines: string[] = []
+  const paragraphs: TextParagraph[] = []
+  const runs: TextRun[] = []
+  const formats: RunFormat[] = []
+  let firstParagraph: {
+    align: string | undefined
+    lineSpacing: Element | undefined
+    spaceAfter: Element | undefined
+  } | null = null
+
+  for (const p of childElements(txBody, 'p')) {
+    const pPr = child(p, 'pPr')
+    const level = Math.min(MAX_INDENT_LEVEL, numberAttr(pPr, 'lvl', 0))
+    const paragraphChain = [pPr, ...getLevelProperties(styles, level)].filter(
+      (e): e is Element => !!e
+    )
+    firstParagraph ??= {
+      align: inheritedAttr(paragraphChain, 'algn'),
+      lineSpacing: inheritedChild(paragraphChain, 'lnSpc'),
+      spaceAfter: inheritedChild(paragraphChain, 'spcAft'),
+    }
+
+    if (lines.length > 0) runs.push({ text: '\n' })
+    let text = ''
+    for (const node of childElements(p)) {
+      if (node.localName !== 'r' && node.localName !== 'fld' && node.localName !== 'br') continue
+      const format = readRunFormat(
+        [child(node, 'rPr'), ...paragraphChain.map((e) => child(e, 'defRPr'))],
+        ctx
+      )
+      const runText =
+        node.localName === 'br'
+          ? LINE_BREAK
+          : (child(node, 't')?.textContent ?? '').replace(/\n/g, ' ')
+      if (!runText) continue
+      text += runText
+      formats.push(format)
+      const { size: _size, fontFamily: _fontFamily, ...runFormat } = format
+      runs.push({ ...runFormat, text: runText })
+    }
+
+    lines.push(text)
+    paragraphs.push({ listType: text ? readListType(paragraphChain) : 'none', indentLevel: level })
+  }
+
+  const content = lines.join('\n')
+  if (!content.trim()) return null
+
+  // Element-level formatting comes from the first run; runs keep what differs from it
+  const first = formats[0]
+  const sizes = new Set(formats.map((f) => f.size))
+  if (sizes.size > 1) ctx.report.add('Mixed font sizes within a text box', ctx.slideNumber)
+  const fontSize =
+    (first?.size ?? (isTitle ? DEFAULT_TITLE_FONT_SIZE : DEFAULT_FONT_SIZE)) * fontScale
+  const fontWeight = first?.fontWeight ?? 'normal'
+  const fontStyle = first?.fontStyle ?? 'normal'
+  const color = first?.color ?? themeColorRef('text')
+  const fontFamily =
+    !first?.fontFamily || first.fontFamily === ctx.theme.minorFont
+      ? THEME_FONT_TOKEN
+      : first.fontFamily
+  const elementRuns = normalizeRuns(
+    runs.map((run) => ({
+      text: run.text,
+      ...(run.fontWeight !== fontWeight && { fontWeight: run.fontWeight }),
+      ...(run.fontStyle !== fontStyle && { fontStyle: run.fontStyle }),
+      ...(run.underline && { underline: true }),
+      ...(run.color && run.color !== color && { color: run.color }),
+      ...(run.link && { link: run.link }),
+    }))
+  )
+
+  // The text box is the shape's frame less the text insets
+  const insets = Object.fromEntries(
+    (Object.keys(DEFAULT_INSETS) as (keyof typeof DEFAULT_INSETS)[]).map((key) => [
+      key,
+      Number(inheritedAttr(bodyProperties, key) ?? DEFAULT_INSETS[key]) * ctx.pxPerEmu,
+    ])
+  ) as Record<keyof typeof DEFAULT_INSETS, number>
+  const vertical = inheritedAttr(bodyProperties, 'vert')
+  if (vertical && vertical !== 'horz') ctx.report.add('Vertical text', ctx.slideNumber)
+  if (Number(inheritedAttr(bodyProperties, 'numCol') ?? 1) > 1)
+    ctx.report.add('Text columns', ctx.slideNumber)
+
+  const anchor = inheritedAttr(bodyProperties, 'anchor')
+  const align = firstParagraph?.align
+  const lineSpacingPercent = numberAttr(child(firstParagraph?.lineSpacing, 'spcPct'), 'val')
+  const spaceAfterPoints = numberAttr(child(firstParagraph?.spaceAfter, 'spcPts'), 'val')
+  const lineSpacing = lineSpacingPercent !== undefined ? lineSpacingPercent / 100000 : undefined
+
+  return {
+    ...baseElement(
+      {
+        ...frame,
+        position: { x: frame.position.x + insets.lIns, y: frame.position.y + insets.tIns },
+        dimensions: {
+          width: Math.max(1, frame.dimensions.width - insets.lIns - insets.rIns),
+          height: Math.max(1, frame.dimensions.height - insets.tIns - insets.bIns),
+        },
+      },
+      ctx
+    ),
+    type: 'text',
+    content,
+    ...(hasRunFormatting(elementRuns) && { runs: elementRuns }),
+    ...(hasParagraphFormatting(paragraphs) && { paragraphs }),
+    fontSize: Math.round(fontSize * pxPerPt * 10) / 10,
+    fontFamily,
+    fontWeight,
+    fontStyle,
+    textAlign: align === 'ctr' ? 'center' : align === 'r' ? 'right' : 'left',
+    color,
+    ...(lineSpacing !== undefined && lineSpacing !== DEFAULT_LINE_SPACING && { lineSpacing }),
+    ...(spaceAfterPoints && { paragraphSpacing: (spaceAfterPoints / 100) * pxPerPt }),
+    verticalAlign: anchor === 'ctr' ? 'middle' : anchor === 'b' ? 'bottom' : 'top',
+    ...(normAutofit?.localName === 'normAutofit' && { autofit: 'shrink' }),
+    ...(normAutofit?.localName === 'spAutoFit' && { autofit: 'resize' }),
+  }
+}
+
+// ============================================================================
+// Shapes
+// ============================================================================
+
+/**
+ * An outline read from line properties
+ */
+interface Line {
+  color: string
+  width: number
+  dash?: StrokeDashStyle
+  cap?: ShapeElement['strokeLineCap']
+  join?: ShapeElement['strokeLineJoin']
+  headEnd: ArrowheadStyle
+  tailEnd: ArrowheadStyle
+}
+
+/**
+ * Read the outline of a shape, or null when it has none
+ */
+function readLine(shape: Element, ctx: PartContext): Line | null {
+  const ln = child(shape, 'spPr', 'ln')
+  const fill = ln ? readFill(ln, ctx) : null
+  let color: string | null
+  switch (fill?.kind) {
+    case 'none':
+      color = null
+      break
+    case 'solid':
+    case 'pattern':
+      color = fill.color
+      break
+    case 'gradient':
+      color = fill.stops[0]?.color ?? null
+      break
+    default:
+      // Outlines without a fill of their own take the color of the shape's style
+      color = readStyleColor(shape, 'lnRef', ctx)
+  }
+  if (!color) return null
+
+  const arrowhead = (name: string): ArrowheadStyle => {
+    const type = child(ln, name)?.getAttribute('type') ?? 'none'
+    return ARROWHEAD_STYLES[type] ?? 'arrow'
+  }
+  const cap = ln?.getAttribute('cap')
+  const join = childElements(ln).find((c) =>
+    ['round', 'bevel', 'miter'].includes(c.localName)
+  )?.localName
+  const dash = child(ln, 'prstDash')?.getAttribute('val')
+  return {
+    color,
+    width: numberAttr(ln, 'w', 9525) * ctx.pxPerEmu,
+    ...(dash && DASH_STYLES[dash] && { dash: DASH_STYLES[dash] }),
+    ...(cap && { cap: cap === 'rnd' ? 'round' : cap === 'sq' ? 'square' : 'butt' }),
+    ...(join && { join: join as NonNullable<ShapeElement['strokeLineJoin']> }),
+    headEnd: arrowhead('headEnd'),
+    tailEnd: arrowhead('tailEnd'),
+  }
+}
+
+/**
+ * Read the shadow of a shape's effects, reporting the effects that can't be kept
+ */
+function readShadow(shape: Element, ctx: PartContext): ShapeShadow | undefined {
+  const spPr = child(shape, 'spPr')
+  if (child(spPr, 'scene3d') || child(spPr, 'sp3d')) ctx.report.add('3D effects', ctx.slideNumber)
+
+  let shadow: ShapeShadow | undefined
+  for (const effect of childElements(child(spPr, 'effectLst'))) {
+    if (effect.localName !== 'outerShdw') {
+      ctx.report.add('Shape effects other than shadows', ctx.slideNumber)
+      continue
+    }
+    const distance = numberAttr(effect, 'dist', 0) * ctx.pxPerEmu
+    const angle = ((numberAttr(effect, 'dir', 0) / 60000) * Math.PI) / 180
+    const color = readColor(effect, ctx) ?? '#000000'
+    const alpha = /rgba\(.*, ([\d.]+)\)$/.exec(color)?.[1]
+    shadow = {
+      enabled: true,
+      color: alpha
+        ? color.replace(/^rgba\((\d+), (\d+), (\d+), [\d.]+\)$/, 'rgb($1, $2, $3)')
+        : color,
+      opacity: alpha ? Number(alpha) : 1,
+      blur: numberAttr(effect, 'blurRad', 0) * ctx.pxPerEmu,
+      offsetX: Math.round(Math.cos(angle) * distance * 10) / 10,
+      offsetY: Math.round(Math.sin(angle) * distance * 10) / 10,
+    }
+  }
+  return shadow
+}
+
+/**
+ * Read a custom geometry into path data in the coordinates of the shape's box.
+ * Returns null for geometry with formulas, which can't be evaluated.
+ */
+function readCustomGeometry(custGeom: Element, frame: Frame, ext: Dimensions): string | null {
+  const { width, height } = frame.dimensions
+  const commands: PathCommand[] = []
+  for (const path of childElements(child(custGeom, 'pathLst'), 'path')) {
+    const sx = width / (numberAttr(path, 'w') || ext.width || 1)
+    const sy = height / (numberAttr(path, 'h') || ext.height || 1)
+    let current: Position = { x: 0, y: 0 }
+    const point = (node: Element): Position | null => {
+      const x = Number(node.getAttribute('x'))
+      const y = Number(node.getAttribute('y'))
+      return Number.isFinite(x) && Number.isFinite(y) ? { x: x * sx, y: y * sy } : null
+    }
+
+    for (const segment of childElements(path)) {
+      const points = childElements(segment, 'pt').map(point)
+      if (points.some((p) => !p)) return null
+      const [p1, p2, p3] = points as Position[]
+      switch (segment.localName) {
+        case 'moveTo':
+        case 'lnTo':
+          if (!p1) return null
+          commands.push({ type: segment.localName === 'moveTo' ? 'M' : 'L', x: p1.x, y: p1.y })
+          current = p1
+          break
+        case 'quadBezTo':
+          if (!p1 || !p2) return null
+          commands.push({ type: 'Q', x1: p1.x, y1: p1.y, x: p2.x, y: p2.y })
+          current = p2
+          break
+        case 'cubicBezTo':
+          if (!p1 || !p2 || !p3) return null
+          commands.push({ type: 'C', x1: p1.x, y1: p1.y, x2: p2.x, y2: p2.y, x: p3.x, y: p3.y })
+          current = p3
+          break
+        case 'arcTo': {
+          // Arcs are flattened into short segments along the ellipse they belong to
+          const rx = Number(segment.getAttribute('wR')) * sx
+          const ry = Number(segment.getAttribute('hR')) * sy
+          const start = (Number(segment.getAttribute('stAng')) / 60000) * (Math.PI / 180)
+          const sweep = (Number(segment.getAttribute('swAng')) / 60000) * (Math.PI / 180)
+          if (![rx, ry, start, sweep].every(Number.isFinite)) return null
+          const cx = current.x - rx * Math.cos(start)
+          const cy = current.y - ry * Math.sin(start)
+          const steps = Math.max(2, Math.ceil(Math.abs(sweep) / (Math.PI / 18)))
+          for (let i = 1; i <= steps; i++) {
+            const angle = start + (sweep * i) / steps
+            current = { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) }
+            commands.push({ type: 'L', x: current.x, y: current.y })
+          }
+          break
+        }
+        case 'close':
+          commands.push({ type: 'Z' })
+          break
+      }
+    }
+  }
+  if (commands.length === 0) return null
+
+  // Flips mirror the path within its box
+  const fx = (x: number) => (frame.flipH ? width - x : x)
+  const fy = (y: number) => (frame.flipV ? height - y : y)
+  return serializePathData(
+    commands.map((c): PathCommand => {
+      switch (c.type) {
+        case 'M':
+        case 'L':
+          return { type: c.type, x: fx(c.x), y: fy(c.y) }
+        case 'Q':
+          return { type: 'Q', x1: fx(c.x1), y1: fy(c.y1), x: fx(c.x), y: fy(c.y) }
+        case 'C':
+          return {
+            type: 'C',
+            x1: fx(c.x1),
+            y1: fy(c.y1),
+            x2: fx(c.x2),
+            y2: fy(c.y2),
+            x: fx(c.x),
+            y: fy(c.y),
+          }
+        case 'Z':
+          return c
+      }
+    })
+  )
+}
+
+/**
+ * Apply a fill to the properties of a shape element
+ */
+function shapeFillProperties(fill: Fill | null, ctx: PartContext): Partial<ShapeElement> {
+  switch (fill?.kind) {
+    case 'solid':
+      return { fillColor: fill.color }
+    case 'gradient':
+      return {
+        fillColor: fill.stops[0]?.color ?? '#ffffff',
+        fillType: fill.direction === 'radial' ? 'radialGradient' : 'linearGradient',
+        gradientStops: fill.stops,
+        ...(fill.direction !== 'radial' && { gradientDirection: fill.direction }),
+      }
+    case 'picture':
+      ctx.report.add('Picture fills in shapes', ctx.slideNumber)
+      return { fillColor: 'transparent' }
+    case 'pattern':
+      ctx.report.add('Pattern fills (imported as solid)', ctx.slideNumber)
+      return { fillColor: fill.color }
+    default:
+      return { fillColor: 'transparent' }
+  }
+}
+
+/**
+ * Convert a line or connector shape into a connector between its ends
+ */
+function convertLine(
+  shape: Element,
+  frame: Frame,
+  preset: string,
+  ctx: PartContext
+): ConnectorElement | null {
+  const line = readLine(shape, ctx)
+  if (!line) return null
+
+  const { position, dimensions } = frame
+  const center = { x: position.x + dimensions.width / 2, y: position.y + dimensions.height / 2 }
+  const angle = (frame.rotation * Math.PI) / 180
+  // Ends of the line before rotation, swapped by flips
+  const end = (u: number, v: number): Position => {
+    const dx = ((frame.flipH ? 1 - u : u) - 0.5) * dimensions.width
+    const dy = ((frame.flipV ? 1 - v : v) - 0.5) * dimensions.height
+    return {
+      x: center.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+      y: center.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+    }
+  }
+
+  const connector = createConnectorElement(
+    ctx.nextId(),
+    { position: end(0, 0) },
+    { position: end(1, 1) },
+    0
+  )
+  return {
+    ...connector,
+    ...(ctx.groupId && { groupId: ctx.groupId }),
+    routing: CONNECTOR_ROUTING[preset] ?? 'straight',
+    startArrowhead: line.headEnd,
+    endArrowhead: line.tailEnd,
+    strokeColor: line.color,
+    strokeWidth: line.width,
+  }
+}
+
+/**
+ * Convert a shape (p:sp) into a shape element and a text element for its text
+ */
+function convertShape(
+  shape: Element,
+  transform: Transform,
+  ctx: PartContext,
+  inherited: boolean
+): SlideElement[] {
+  const ph = getPlaceholder(shape)
+  // Placeholders of layouts and masters only show their prompt text while editing
+  if (ph && inherited) return []
+
+  const layoutShape = ph ? findPlaceholder(ctx.layout, ph) : undefined
+  const masterShape = ph
+    ? findPlaceholder(ctx.master, layoutShape ? (getPlaceholder(layoutShape) ?? ph) : ph)
+    : undefined
+  const chain = [shape, layoutShape, masterShape].filter((e): e is Element => !!e)
+
+  const xfrm = chain.map((s) => child(s, 'spPr', 'xfrm')).find((x) => x && child(x, 'off'))
+  // Inherited placeholder positions are in slide coordinates
+  const frame = readFrame(
+    xfrm,
+    xfrm && child(shape, 'spPr', 'xfrm') === xfrm ? transform : ctx.rootTransform
+  )
+  if (!frame) return []
+
+  const spPr = child(shape, 'spPr')
+  const prstGeom = child(spPr, 'prstGeom')
+  const custGeom = child(spPr, 'custGeom')
+  const preset = prstGeom?.getAttribute('prst') ?? (custGeom ? null : 'rect')
+  if (preset === 'line' || preset === 'straightConnector1') {
+    const line = convertLine(shape, frame, preset, ctx)
+    return line ? [line] : []
+  }
+
+  const elements: SlideElement[] = []
+  const styleFill = readStyleColor(shape, 'fillRef', ctx)
+  const fill: Fill | null =
+    readFill(spPr, ctx) ?? (styleFill ? { kind: 'solid', color: styleFill } : null)
+  const line = readLine(shape, ctx)
+  const visible = (fill && fill.kind !== 'none') || line
+
+  if (visible) {
+    const mapped = preset ? PRESET_SHAPES[preset] : undefined
+    const adjust = (name: string, fallback: number) => {
+      const guide = childElements(child(prstGeom, 'avLst'), 'gd').find(
+        (gd) => gd.getAttribute('name') === name
+      )
+      const value = Number(guide?.getAttribute('fmla')?.replace(/^val\s+/, ''))
+      return Number.isFinite(value) && guide ? value : fallback
+    }
+    let geometry: Partial<ShapeElement> | null = null
+    let rotation = frame.rotation
+
+    if (mapped) {
+      geometry = { ...mapped }
+      const { width, height } = frame.dimensions
+      if (preset === 'roundRect') {
+        geometry.cornerRadius = (adjust('adj', 16667) / 100000) * Math.min(width, height)
+      }
+      if (mapped.shapeType === 'callout' || mapped.shapeType === 'speechBubble') {
+        const x = 0.5 + adjust('adj1', -20833) / 100000
+        geometry.tailPosition = {
+          x: frame.flipH ? 1 - x : x,
+          y: 0.5 + adjust('adj2', 62500) / 100000,
+        }
+      }
+      if (mapped.direction) {
+        const opposite = { right: 'left', left: 'right', up: 'down', down: 'up' } as const
+        const horizontal = mapped.direction === 'left' || mapped.direction === 'right'
+        if ((horizontal && frame.flipH) || (!horizontal && frame.flipV)) {
+          geometry.direction = opposite[mapped.direction]
+        }
+      } else if (
+        frame.flipV &&
+        mapped.shapeType !== 'callout' &&
+        mapped.shapeType !== 'speechBubble'
+      ) {
+        // Shapes other than arrows are symmetric left to right, so flipping them
+        // upside down is the same as turning them half way round
+        rotation += 180
+      }
+    } else if (custGeom) {
+      const ext = {
+        width: numberAttr(child(xfrm, 'ext'), 'cx', 0),
+        height: numberAttr(child(xfrm, 'ext'), 'cy', 0),
+      }
+      const pathData = readCustomGeometry(custGeom, frame, ext)
+      if (pathData) {
+        geometry = { shapeType: 'path', pathData, pathViewBox: { ...frame.dimensions } }
+      } else {
+        ctx.report.add('Freeform shapes with formulas', ctx.slideNumber)
+      }
+    } else {
+      ctx.report.add(`Shapes of type "${preset ?? 'unknown'}"`, ctx.slideNumber)
+    }
+
+    if (geometry?.shapeType) {
+      const shadow = readShadow(shape, ctx)
+      elements.push({
+        ...baseElement({ ...frame, rotation }, ctx),
+        type: 'shape',
+        shapeType: geometry.shapeType,
+        ...geometry,
+        fillColor: 'transparent',
+        ...shapeFillProperties(fill, ctx),
+        strokeColor: line?.color ?? 'transparent',
+        strokeWidth: line?.width ?? 0,
+        ...(line?.dash && { strokeDash: line.dash }),
+        ...(line?.cap && { strokeLineCap: line.cap }),
+        ...(line?.join && { strokeLineJoin: line.join }),
+        ...(shadow && { shadow }),
+      })
+    }
+  }
+
+  const txBody = child(shape, 'txBody')
+  if (txBody) {
+    const kind = ph ? placeholderKind(ph.type) : null
+    const masterStyle =
+      kind === 'title'
+        ? ctx.master?.textStyles.title
+        : kind === 'body'
+          ? ctx.master?.textStyles.body
+          : ctx.master?.textStyles.other
+    const styles = [...chain.map((s) => child(s, 'txBody', 'lstStyle')), masterStyle].filter(
+      (e): e is Element => !!e
+    )
+    const bodyProperties = chain
+      .map((s) => child(s, 'txBody', 'bodyPr'))
+      .filter((e): e is Element => !!e)
+    const text = convertTextBody(txBody, frame, bodyProperties, styles, kind === 'title', ctx)
+    if (text) elements.push(text)
+  }
+
+  return elements
+}
+
+/**
+ * Convert a picture (p:pic) into an image element
+ */
+function convertPicture(
+  picture: Element,
+  transform: Transform,
+  ctx: PartContext
+): ImageElement | null {
+  const nvPr = child(picture, 'nvPicPr', 'nvPr')
+  if (
+    childElements(nvPr).some((c) => c.localName === 'videoFile' || c.localName === 'audioFile') ||
+    descendant(picture, 'media')
+  ) {
+    ctx.report.add('Video and audio', ctx.slideNumber)
+  }
+
+  const frame = readFrame(child(picture, 'spPr', 'xfrm'), transform)
+  const blipFill = child(picture, 'blipFill')
+  const blip = child(blipFill, 'blip')
+  const src = readImage(blip, ctx)
+  if (!frame || !src) return null
+  if (frame.flipH || frame.flipV) ctx.report.add('Flipped pictures', ctx.slideNumber)
+  if (readLine(picture, ctx)) ctx.report.add('Picture borders', ctx.slideNumber)
+
+  const srcRect = child(blipFill, 'srcRect')
+  const inset = (name: string) => Math.max(0, numberAttr(srcRect, name, 0) / 100000)
+  const crop = {
+    x: inset('l'),
+    y: inset('t'),
+    width: Math.max(0.01, 1 - inset('l') - inset('r')),
+    height: Math.max(0.01, 1 - inset('t') - inset('b')),
+  }
+  const isCropped = crop.x > 0 || crop.y > 0 || crop.width < 1 || crop.height < 1
+
+  const preset = child(picture, 'spPr', 'prstGeom')?.getAttribute('prst')
+  const adjustment = childElements(child(child(picture, 'spPr', 'prstGeom'), 'avLst'), 'gd')[0]
+  const cornerRatio =
+    Number(adjustment?.getAttribute('fmla')?.replace(/^val\s+/, '') ?? 16667) / 100000
+
+  const adjustments: ImageAdjustments = { brightness: 100, contrast: 100, grayscale: 0, blur: 0 }
+  for (const effect of childElements(blip)) {
+    switch (effect.localName) {
+      case 'grayscl':
+        adjustments.grayscale = 100
+        break
+      case 'lum':
+        adjustments.brightness = Math.min(
+          200,
+          Math.max(0, 100 + numberAttr(effect, 'bright', 0) / 1000)
+        )
+        adjustments.contrast = Math.min(
+          200,
+          Math.max(0, 100 + numberAttr(effect, 'contrast', 0) / 1000)
+        )
+        break
+      case 'blur':
+        adjustments.blur = Math.min(20, numberAttr(effect, 'rad', 0) * ctx.pxPerEmu)
+        break
+    }
+  }
+  const isAdjusted =
+    adjustments.brightness !== 100 ||
+    adjustments.contrast !== 100 ||
+    adjustments.grayscale > 0 ||
+    adjustments.blur > 0
+
+  return {
+    ...baseElement(frame, ctx),
+    opacity: numberAttr(child(blip, 'alphaModFix'), 'amt', 100000) / 100000,
+    type: 'image',
+    src,
+    alt: child(picture, 'nvPicPr', 'cNvPr')?.getAttribute('descr') ?? '',
+    objectFit: 'fill',
+    ...(isCropped && { crop }),
+    ...(preset === 'ellipse' && { mask: 'circle' }),
+    ...(preset === 'roundRect' && {
+      mask: 'roundedRect',
+      maskCornerRadius: cornerRatio * Math.min(frame.dimensions.width, frame.dimensions.height),
+    }),
+    ...(isAdjusted && { adjustments }),
+  }
+}
+
+/**
+ * Convert the shapes of a shape tree or group, in stacking order
+ */
+function convertShapeTree(
+  tree: Element | undefined,
+  transform: Transform,
+  ctx: PartContext,
+  inherited = false
+): SlideElement[] {
+  return childElements(tree).flatMap((node): SlideElement[] => {
+    switch (node.localName) {
+      case 'sp':
+        return convertShape(node, transform, ctx, inherited)
+      case 'cxnSp': {
+        const frame = readFrame(child(node, 'spPr', 'xfrm'), transform)
+        const preset = child(node, 'spPr', 'prstGeom')?.getAttribute('prst') ?? 'straightConnector1'
+        const line = frame && convertLine(node, frame, preset, ctx)
+        return line ? [line] : []
+      }
+      case 'pic': {
+        const image = convertPicture(node, transform, ctx)
+        return image ? [image] : []
+      }
+      case 'grpSp': {
+        if (numberAttr(child(node, 'grpSpPr', 'xfrm'), 'rot', 0) !== 0) {
+          ctx.report.add('Rotated groups (imported unrotated)', ctx.slideNumber)
+        }
+        const groupCtx = { ...ctx, groupId: ctx.nextId() }
+        const members = convertShapeTree(
+          node,
+          getGroupTransform(node, transform),
+          groupCtx,
+          inherited
+        )
+        // A group of one element is just that element
+        return members.length === 1
+          ? members.map(({ groupId: _groupId, ...el }) => el as SlideElement)
+          : members
+      }
+      case 'graphicFrame': {
+        const uri = descendant(node, 'graphicData')?.getAttribute('uri') ?? ''
+        ctx.report.add(GRAPHIC_FRAME_LABELS[uri] ?? 'Other graphic objects', ctx.slideNumber)
+        return []
+      }
+      case 'contentPart':
+        ctx.report.add('Ink drawings', ctx.slideNumber)
+        return []
+      case 'AlternateContent': {
+        // Use the fallback content written for readers that don't know the newer markup
+        const content = child(node, 'Fallback') ?? child(node, 'Choice')
+        return convertShapeTree(content, transform, ctx, inherited)
+      }
+      default:
+        return []
+    }
+  })
+}
+
+// ============================================================================
+// Slides
+// ============================================================================
+
+/**
+ * Read the colors, color map and fonts of a theme part
+ */
+function readTheme(root: Element | undefined, master: Element | undefined): ThemeInfo {
+  const colors: Record<string, string> = {}
+  for (const node of childElements(root && descendant(root, 'clrScheme'))) {
+    const color =
+      child(node, 'srgbClr')?.getAttribute('val') ?? child(node, 'sysClr')?.getAttribute('lastClr')
+    if (color) colors[node.localName] = color
+  }
+
+  const colorMap: Record<string, string> = { bg1: 'lt1', tx1: 'dk1', bg2: 'lt2', tx2: 'dk2' }
+  const clrMap = child(master, 'clrMap')
+  for (const name of Object.keys(colorMap)) {
+    const value = clrMap?.getAttribute(name)
+    if (value) colorMap[name] = value
+  }
+
+  const font = (name: string) =>
+    child(root && descendant(root, name), 'latin')?.getAttribute('typeface') || undefined
+  return {
+    colors,
+    colorMap,
+    majorFont: font('majorFont') ?? 'Calibri Light',
+    minorFont: font('minorFont') ?? 'Calibri',
+  }
+}
+
+/**
+ * Create the presentation theme from the PowerPoint theme
+ */
+function toPresentationTheme(theme: ThemeInfo): PresentationTheme {
+  const color = (name: string, fallback: string) => {
+    const hex = theme.colors[name]
+    return hex ? `#${hex.toLowerCase()}` : fallback
+  }
+  return {
+    primaryColor: color('accent1', DEFAULT_THEME.primaryColor),
+    secondaryColor: color('accent2', DEFAULT_THEME.secondaryColor),
+    backgroundColor: color('lt1', DEFAULT_THEME.backgroundColor),
+    textColor: color('dk1', DEFAULT_THEME.textColor),
+    fontFamily: theme.minorFont,
+  }
+}
+
+/**
+ * Read the background of a slide, layout or master, or null if it doesn't set one
+ */
+function readBackground(root: Element | undefined, ctx: PartContext): SlideBackground | null {
+  const bg = child(root, 'cSld', 'bg')
+  if (!bg) return null
+
+  const bgRef = child(bg, 'bgRef')
+  const fill: Fill | null = bgRef
+    ? { kind: 'solid', color: readColor(bgRef, ctx) ?? themeColorRef('background') }
+    : readFill(child(bg, 'bgPr'), ctx)
+
+  switch (fill?.kind) {
+    case 'solid':
+    case 'pattern':
+      return { type: 'solid', color: fill.color }
+    case 'gradient': {
+      if (fill.stops.length > 2)
+        ctx.report.add('Background gradients with more than two colors', ctx.slideNumber)
+      return {
+        type: 'gradient',
+        gradientStart: fill.stops[0]?.color ?? '#ffffff',
+        gradientEnd: fill.stops[fill.stops.length - 1]?.color ?? '#ffffff',
+        gradientDirection: fill.direction === 'radial' ? 'diagonal' : fill.direction,
+      }
+    }
+    case 'picture':
+      return fill.src
+        ? { type: 'image', imageSrc: fill.src, imageFillMode: fill.tile ? 'tile' : 'stretch' }
+        : null
+    case 'none':
+      return { type: 'solid', color: '#ffffff' }
+    default:
+      return null
+  }
+}
+
+/**
+ * Read the transition into a slide
+ */
+function readTransition(root: Element, ctx: PartContext): SlideTransition {
+  const transition = descendant(root, 'transition')
+  const effect = childElements(transition).find(
+    (c) => c.localName !== 'sndAc' && c.localName !== 'extLst'
+  )
+  if (!transition || !effect) return { type: 'none', duration: 500 }
+
+  let type = TRANSITION_TYPES[effect.localName]
+  if (!type) {
+    ctx.report.add(`Transition effect "${effect.localName}" (imported as fade)`, ctx.slideNumber)
+    type = 'fade'
+  }
+  const duration =
+    numberAttr(transition, 'p14:dur') ??
+    numberAttr(transition, 'dur') ??
+    TRANSITION_SPEEDS[transition.getAttribute('spd') ?? 'fast'] ??
+    500
+  return { type, duration: Math.min(2000, Math.max(100, duration)) }
+}
+
+/**
+ * Read the speaker notes of a notes slide as plain text
+ */
+function readNotes(root: Element | undefined): string {
+  const body = childElements(child(root, 'cSld', 'spTree'), 'sp').find((shape) => {
+    const ph = getPlaceholder(shape)
+    return ph && placeholderKind(ph.type) === 'body'
+  })
+  return childElements(child(body, 'txBody'), 'p')
+    .map((p) =>
+      childElements(p)
+        .map((node) => (node.localName === 'br' ? '\n' : (child(node, 't')?.textContent ?? '')))
+        .join('')
+    )
+    .join('\n')
+    .trim()
+}
+
+/**
+ * Get the text of a slide's title placeholder, to use as the slide's title
+ */
+function readSlideTitle(root: Element): string | null {
+  const title = childElements(child(root, 'cSld', 'spTree'), 'sp').find(
+    (shape) => placeholderKind(getPlaceholder(shape)?.type ?? 'none') === 'title'
+  )
+  const text = Array.from(title?.getElementsByTagNameNS('*', 't') ?? [])
+    .map((t) => t.textContent)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return text || null
+}
+
+/**
+ * Convert a slide part, including the layout and master content it shows
+ */
+function convertSlide(
+  path: string,
+  slideNumber: number,
+  shared: Omit<PartContext, 'path' | 'slideNumber' | 'layout' | 'master' | 'theme'>,
+  themes: Map<string, ThemeInfo>
+): Slide {
+  const { pkg, report } = shared
+  const root = pkg.xml(path)
+  if (!root) throw new Error(`Missing slide ${path}`)
+
+  const rels = pkg.rels(path)
+  const layoutPath = findRelTarget(rels, REL.slideLayout)
+  const layoutRoot = layoutPath ? pkg.xml(layoutPath) : undefined
+  const masterPath = layoutPath ? findRelTarget(pkg.rels(layoutPath), REL.slideMaster) : undefined
+  const masterRoot = masterPath ? pkg.xml(masterPath) : undefined
+
+  // Each master has its own theme
+  const themeKey = masterPath ?? ''
+  let theme = themes.get(themeKey)
+  if (!theme) {
+    const themePath = masterPath ? findRelTarget(pkg.rels(masterPath), REL.theme) : undefined
+    theme = readTheme(themePath ? pkg.xml(themePath) : undefined, masterRoot)
+    themes.set(themeKey, theme)
+  }
+
+  const layout = readPlaceholders(layoutRoot)
+  const master = readPlaceholders(masterRoot)
+  const ctx = (partPath: string): PartContext => ({
+    ...shared,
+    path: partPath,
+    slideNumber,
+    theme,
+    layout,
+    master,
+  })
+  const slideCtx = ctx(path)
+
+  // Layout and master decorations show unless the slide or layout hides them
+  const showLayoutShapes = root.getAttribute('showMasterSp') !== '0'
+  const showMasterShapes = showLayoutShapes && layoutRoot?.getAttribute('showMasterSp') !== '0'
+  const elements = [
+    ...(showMasterShapes && masterPath
+      ? convertShapeTree(
+          child(masterRoot, 'cSld', 'spTree'),
+          shared.rootTransform,
+          ctx(masterPath),
+          true
+        )
+      : []),
+    ...(showLayoutShapes && layoutPath
+      ? convertShapeTree(
+          child(layoutRoot, 'cSld', 'spTree'),
+          shared.rootTransform,
+          ctx(layoutPath),
+          true
+        )
+      : []),
+    ...convertShapeTree(child(root, 'cSld', 'spTree'), shared.rootTransform, slideCtx),
+  ].map((element, zIndex) => ({ ...element, zIndex }))
+
+  const background = readBackground(root, slideCtx) ??
+    (layoutPath ? readBackground(layoutRoot, ctx(layoutPath)) : null) ??
+    (masterPath ? readBackground(masterRoot, ctx(masterPath)) : null) ?? {
+      type: 'solid',
+      color: themeColorRef('background'),
+    }
+
+  if (childElements(child(root, 'timing')).length > 0) report.add('Animations', slideNumber)
+  if (root.getAttribute('show') === '0')
+    report.add('Hidden slides (imported as shown)', slideNumber)
+  if (findRelTarget(rels, REL.comments)) report.add('Comments', slideNumber)
+
+  const notesPath = findRelTarget(rels, REL.notesSlide)
+  const now = new Date().toISOString()
+  return {
+    id: shared.nextId(),
+    title: readSlideTitle(root) ?? `Slide ${String(slideNumber)}`,
+    elements,
+    background,
+    transition: readTransition(root, slideCtx),
+    notes: notesPath ? readNotes(pkg.xml(notesPath)) : '',
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Read a PowerPoint file into a presentation, with a report of the content that
+ * couldn't be imported. Throws if the file isn't a readable PowerPoint file.
+ */
+export function parsePptx(data: Uint8Array, fileName = 'Imported Presentation'): PptxImportResult {
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(data)
+  } catch {
+    throw new Error('The file is not a PowerPoint (.pptx) file')
+  }
+  const pkg = createPackageReader(files)
+  const presentationPath = findRelTarget(pkg.rels(''), REL.officeDocument)
+  const root = presentationPath ? pkg.xml(presentationPath) : undefined
+  if (!presentationPath || root?.localName !== 'presentation') {
+    throw new Error('The file is not a PowerPoint (.pptx) file')
+  }
+
+  // Slides are scaled to fit the app's slide and centered
+  const size = child(root, 'sldSz')
+  const cx = numberAttr(size, 'cx', DEFAULT_SLIDE_SIZE.cx)
+  const cy = numberAttr(size, 'cy', DEFAULT_SLIDE_SIZE.cy)
+  const pxPerEmu = Math.min(SLIDE_WIDTH / cx, SLIDE_HEIGHT / cy)
+  const rootTransform: Transform = {
+    scaleX: pxPerEmu,
+    scaleY: pxPerEmu,
+    offsetX: (SLIDE_WIDTH - cx * pxPerEmu) / 2,
+    offsetY: (SLIDE_HEIGHT - cy * pxPerEmu) / 2,
+  }
+
+  let counter = 0
+  const report = new UnsupportedReport()
+  const themes = new Map<string, ThemeInfo>()
+  const shared = { pkg, pxPerEmu, rootTransform, report, nextId: () => `pptx-${String(++counter)}` }
+
+  const presentationRels = pkg.rels(presentationPath)
+  const slides = childElements(child(root, 'sldIdLst'), 'sldId').flatMap((sldId, index) => {
+    const rel = presentationRels.get(relAttr(sldId, 'id') ?? '')
+    return rel && !rel.external ? [convertSlide(rel.target, index + 1, shared, themes)] : []
+  })
+  if (slides.length === 0) {
+    throw new Error('The presentation has no slides')
+  }
+
+  // The presentation takes the theme of its first master
+  const [theme] = themes.values()
+  const title = pkg
+    .xml('docProps/core.xml')
+    ?.getElementsByTagNameNS('*', 'title')[0]
+    ?.textContent?.trim()
+  const now = new Date().toISOString()
+  return {
+    presentation: {
+      id: `pptx-${String(Date.now())}`,
+      name: title || fileName.replace(/\.pptx$/i, ''),
+      description: '',
+      slides,
+      theme: theme ? toPresentationTheme(theme) : { ...DEFAULT_THEME },
+      createdAt: now,
+      updatedAt: now,
+    },
+    unsupported: report.toList(),
+  }
+}
+
+/**
+ * Import a presentation from the data of a PowerPoint file
+ */
+export function importPresentationFromPptx(
+  data: Uint8Array,
+  fileName?: string
+): StorageResult<Presentation> {
+  try {
+    const { presentation, unsupported } = parsePptx(data, fileName)
+    return { success: true, data: presentation, ...(unsupported.length > 0 && { unsupported }) }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    return { success: false, error: `Failed to import PowerPoint file: ${errorMessage}` }
+  }
+}
@@ -0,0 +1,397 @@
+/**
+ * Persistence of the presentation and asset stores through a storage adapter.
+ * Provides the storages passed to Zustand `persist`: instead of serializing the
+ * whole state on every change, they write only the presentations and assets that
+ * changed since the last write, each as its own record.
+ *
+ * Presentations are loaded lazily: on startup only the current presentation's
+ * slides are read, and the others are listed without slides until they are opened.
+ * Data stored by earlier versions under single localStorage keys is moved into
+ * the adapter the first time the app starts with it, and presentations stored in an
+ * earlier storage format are upgraded by the storage migrations.
+ *
+ * Loading is asynchronous, so the store may change before it finishes, such as
+ * when a presentation is created. Those changes are merged into the loaded state.
+ */
+
+import type { PersistStorage, StorageValue } from 'zustand/middleware'
+import type { Presentation, Slide } from '../types/presentation'
+import type { AssetLibrary } from './assetLibrary'
+import { getStorageAdapter, type StorageAdapter } from './storageAdapters'
+import { loadFromLocalStorage, isLocalStorageAvailable, STORAGE_KEYS } from './localStorage'
+import {
+  CURRENT_STORAGE_VERSION,
+  getStorageVersion,
+  migratePresentations,
+  type MigrationReport,
+} from './storageMigrations'
+
+/**
+ * Persisted part of the presentation store
+ */
+export interface PersistedPresentationState {
+  presentations: Presentation[]
+  currentPresentationId: string | null
+  /** Presentations whose slides haven't been loaded from storage yet */
+  unloadedPresentationIds: string[]
+}
+
+/**
+ * Persisted part of the asset store
+ */
+export interface PersistedAssetState {
+  assets: AssetLibrary
+}
+
+/**
+ * Storage of the presentation store, with access to the slides it hasn't loaded
+ */
+export interface PresentationStorage extends PersistStorage<PersistedPresentationState> {
+  /** Load the slides of a presentation that was listed without them */
+  loadSlides: (presentationId: string) => Promise<Slide[]>
+  /** Error of the last failed write, or null when every change has been saved */
+  getLastError: () => string | null
+  /** Wait for the pending writes */
+  flush: () => Promise<void>
+}
+
+/**
+ * Storage of the asset store
+ */
+export interface AssetStorage extends PersistStorage<PersistedAssetState> {
+  /** Wait for the pending writes */
+  flush: () => Promise<void>
+}
+
+/**
+ * Options for creating the storages
+ */
+export interface PersistenceOptions {
+  /** Get the adapter to store records with */
+  getAdapter?: () => Promise<StorageAdapter>
+  /** Called when a write fails after the previous write succeeded */
+  onError?: (message: string) => void
+  /** Called when stored presentations were upgraded from an earlier storage format */
+  onMigrate?: (report: MigrationReport) => void
+}
+
+/**
+ * Merge the loaded state into the state of the store. Presentations created while
+ * the stored ones were loading are kept after them, and the one opened stays current.
+ */
+export function mergePersistedPresentations<S extends PersistedPresentationState>(
+  persisted: unknown,
+  current: S
+): S {
+  const stored = persisted as PersistedPresentationState | undefined
+  if (!stored) return current
+
+  const storedIds = new Set(stored.presentations.map((p) => p.id))
+  const created = current.presentations.filter((p) => !storedIds.has(p.id))
+  return {
+    ...current,
+    ...stored,
+    presentations: [...stored.presentations, ...created],
+    currentPresentationId: created.some((p) => p.id === current.currentPresentationId)
+      ? current.currentPresentationId
+      : stored.currentPresentationId,
+  }
+}
+
+/**
+ * Describe a failed write
+ */
+function describeError(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Storage quota exceeded'
+  }
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+/**
+ * Create the storage of the presentation store
+ */
+export function createPresentationStorage({
+  getAdapter = getStorageAdapter,
+  onError,
+  onMigrate,
+}: PersistenceOptions = {}): PresentationStorage {
+  // Presentations as last written or loaded, by id
+  const written = new Map<string, Presentation>()
+  let writtenCurrentId: string | null = null
+  // Writes are ignored until the stored state has been loaded, so the empty
+  // initial state of the store never replaces it
+  let loaded = false
+  // Whether legacy data failed to move into the adapter and is kept until a write succeeds
+  let legacyPending = false
+  let pending: Promise<void> = Promise.resolve()
+  let lastError: string | null = null
+
+  const reportError = (error: unknown) => {
+    const message = describeError(error)
+    if (lastError === null) onError?.(message)
+    lastError = message
+  }
+
+  /**
+   * Move presentations stored under the legacy `presentation-storage` key into the adapter.
+   * The key is removed first, since both copies may not fit in localStorage; when a write
+   * fails it is put back, and the presentations are kept until a later write succeeds.
+   */
+  const migrateLegacyState = async (
+    adapter: StorageAdapter,
+    raw: string,
+    legacy: Omit<PersistedPresentationState, 'unloadedPresentationIds'>
+  ): Promise<PersistedPresentationState> => {
+    localStorage.removeItem(STORAGE_KEYS.PRESENTATIONS)
+    try {
+      for (const presentation of legacy.presentations) {
+        await adapter.savePresentation(presentation)
+        written.set(presentation.id, presentation)
+      }
+      await adapter.saveCurrentPresentationId(legacy.currentPresentationId)
+      await adapter.saveStorageVersion(CURRENT_STORAGE_VERSION)
+      writtenCurrentId = legacy.currentPresentationId
+    } catch (error) {
+      written.clear()
+      writtenCurrentId = null
+      legacyPending = true
+      try {
+        localStorage.setItem(STORAGE_KEYS.PRESENTATIONS, raw)
+      } catch {
+        // The presentations are still in memory and are written by the next successful save
+      }
+      reportError(error)
+    }
+    return { ...legacy, unloadedPresentationIds: [] }
+  }
+
+  /**
+   * Upgrade the presentations in the adapter when they were stored in an earlier format,
+   * returning their summaries. Migrations work on whole presentations, so every
+   * presentation is loaded for the upgrade.
+   */
+  const upgradeStoredPresentations = async (adapter: StorageAdapter) => {
+    const summaries = await adapter.loadPresentations()
+    const version = await adapter.loadStorageVersion()
+    if (version !== null && version >= CURRENT_STORAGE_VERSION) return summaries
+
+    const stored: Presentation[] = []
+    for (const summary of summaries) {
+      stored.push({ ...summary, slides: await adapter.loadSlides(summary.id) })
+    }
+    const { presentations, report } = migratePresentations(stored, getStorageVersion(version))
+    for (const [index, presentation] of presentations.entries()) {
+      if (presentation !== stored[index]) await adapter.savePresentation(presentation)
+    }
+    await adapter.saveStorageVersion(CURRENT_STORAGE_VERSION)
+
+    if (report.applied.length === 0) return summaries
+    onMigrate?.(report)
+    return adapter.loadPresentations()
+  }
+
+  const load = async (): Promise<PersistedPresentationState | null> => {
+    const adapter = await getAdapter()
+
+    const raw = isLocalStorageAvailable() ? localStorage.getItem(STORAGE_KEYS.PRESENTATIONS) : null
+    const legacy = raw ? loadFromLocalStorage() : null
+    if (raw && legacy?.data && legacy.data.presentations.length > 0) {
+      if (legacy.migration?.applied.length) onMigrate?.(legacy.migration)
+      return migrateLegacyState(adapter, raw, legacy.data)
+    }
+
+    const summaries = await upgradeStoredPresentations(adapter)
+    if (summaries.length === 0) return null
+
+    const storedCurrentId = await adapter.loadCurrentPresentationId()
+    const currentPresentationId = summaries.some((p) => p.id === storedCurrentId)
+      ? storedCurrentId
+      : null
+    const currentSlides = currentPresentationId ? await adapter.loadSlides(currentPresentationId) : []
+
+    const presentations = summaries.map((summary) => {
+      const isCurrent = summary.id === currentPresentationId
+      const presentation: Presentation = { ...summary, slides: isCurrent ? currentSlides : [] }
+      written.set(summary.id, presentation)
+      return presentation
+    })
+    writtenCurrentId = storedCurrentId
+    return {
+      presentations,
+      currentPresentationId,
+      unloadedPresentationIds: summaries
+        .map((summary) => summary.id)
+        .filter((id) => id !== currentPresentationId),
+    }
+  }
+
+  const write = async (state: PersistedPresentationState) => {
+    const adapter = await getAdapter()
+    const unloaded = new Set(state.unloadedPresentationIds)
+    const ids = new Set(state.presentations.map((p) => p.id))
+
+    for (const presentation of state.presentations) {
+      if (written.get(presentation.id) === presentation) continue
+      // A presentation changed without loading its slides (e.g. renamed) keeps its stored slides
+      await adapter.savePresentation(
+        unloaded.has(presentation.id)
+          ? { ...presentation, slides: await adapter.loadSlides(presentation.id) }
+          : presentation
+      )
+      written.set(presentation.id, presentation)
+    }
+    for (const id of [...written.keys()]) {
+      if (ids.has(id)) continue
+      await adapter.deletePresentation(id)
+      written.delete(id)
+    }
+    if (state.currentPresentationId !== writtenCurrentId) {
+      await adapter.saveCurrentPresentationId(state.currentPresentationId)
+      writtenCurrentId = state.currentPresentationId
+    }
+    if (legacyPending) {
+      localStorage.removeItem(STORAGE_KEYS.PRESENTATIONS)
+      legacyPending = false
+    }
+  }
+
+  return {
+    getItem: async () => {
+      try {
+        const state = await load()
+        return state ? { state, version: 0 } : null
+      } finally {
+        loaded = true
+      }
+    },
+
+    setItem: (_name, value: StorageValue<PersistedPresentationState>) => {
+      if (!loaded) return
+      pending = pending
+        .then(() => write(value.state))
+        .then(() => {
+          lastError = null
+        })
+        .catch(reportError)
+    },
+
+    removeItem: () => {
+      const ids = [...written.keys()]
+      written.clear()
+      writtenCurrentId = null
+      pending = pending
+        .then(async () => {
+          const adapter = await getAdapter()
+          for (const id of ids) await adapter.deletePresentation(id)
+          await adapter.saveCurrentPresentationId(null)
+        })
+        .catch(reportError)
+    },
+
+    loadSlides: async (presentationId) => {
+      const adapter = await getAdapter()
+      return adapter.loadSlides(presentationId)
+    },
+
+    getLastError: () => lastError,
+
+    flush: () => pending,
+  }
+}
+
+/**
+ * Create the storage of the asset store
+ */
+export function createAssetStorage({
+  getAdapter = getStorageAdapter,
+  onError,
+}: PersistenceOptions = {}): AssetStorage {
+  const written = new Set<string>()
+  let loaded = false
+  let pending: Promise<void> = Promise.resolve()
+  let failed = false
+
+  const reportError = (error: unknown) => {
+    if (!failed) onError?.(describeError(error))
+    failed = true
+  }
+
+  /**
+   * Move assets stored under the legacy `presentation-assets` key into the adapter.
+   * Assets that fail to move stay in memory and are written by the next save.
+   */
+  const migrateLegacyAssets = async (adapter: StorageAdapter, raw: string) => {
+    const legacy = JSON.parse(raw) as Partial<StorageValue<Partial<PersistedAssetState>>>
+    const assets = legacy.state?.assets ?? {}
+    localStorage.removeItem(STORAGE_KEYS.ASSETS)
+    try {
+      for (const asset of Object.values(assets)) {
+        await adapter.saveAsset(asset)
+        written.add(asset.id)
+      }
+    } catch (error) {
+      reportError(error)
+    }
+    return assets
+  }
+
+  const load = async (): Promise<AssetLibrary | null> => {
+    const adapter = await getAdapter()
+    const stored = await adapter.loadAssets()
+    stored.forEach((asset) => written.add(asset.id))
+    const assets: AssetLibrary = Object.fromEntries(stored.map((asset) => [asset.id, asset]))
+
+    const raw = isLocalStorageAvailable() ? localStorage.getItem(STORAGE_KEYS.ASSETS) : null
+    if (raw) Object.assign(assets, await migrateLegacyAssets(adapter, raw))
+    return stored.length > 0 || raw ? assets : null
+  }
+
+  const write = async ({ assets }: PersistedAssetState) => {
+    const adapter = await getAdapter()
+    for (const asset of Object.values(assets)) {
+      if (written.has(asset.id)) continue
+      await adapter.saveAsset(asset)
+      written.add(asset.id)
+    }
+    for (const id of [...written]) {
+      if (assets[id]) continue
+      await adapter.deleteAsset(id)
+      written.delete(id)
+    }
+  }
+
+  return {
+    getItem: async () => {
+      try {
+        const assets = await load()
+        return assets ? { state: { assets }, version: 0 } : null
+      } finally {
+        loaded = true
+      }
+    },
+
+    setItem: (_name, value: StorageValue<PersistedAssetState>) => {
+      if (!loaded) return
+      pending = pending
+        .then(() => write(value.state))
+        .then(() => {
+          failed = false
+        })
+        .catch(reportError)
+    },
+
+    removeItem: () => {
+      const ids = [...written]
+      written.clear()
+      pending = pending
+        .then(async () => {
+          const adapter = await getAdapter()
+          for (const id of ids) await adapter.deleteAsset(id)
+        })
+        .catch(reportError)
+    },
+
+    flush: () => pending,
+  }
+}
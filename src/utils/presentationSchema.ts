@@ -0,0 +1,733 @@
+/**
+ * Presentation Schema Validation
+ * Checks imported presentations against the full data model: every element type,
+ * slide backgrounds and transitions. Each problem is reported with the path of the
+ * invalid value, e.g. `slides[2].elements[0].fontSize`.
+ *
+ * Validation can also repair what it finds: invalid optional fields are removed,
+ * required fields with a sensible default are reset to it, and elements or slides
+ * that can't be fixed (e.g. without a position) are dropped.
+ */
+
+import type {
+  ArrowheadStyle,
+  BackgroundImageFillMode,
+  ChartType,
+  ConnectionSide,
+  ConnectorRouting,
+  ElementType,
+  GradientDirection,
+  ImageMask,
+  ListType,
+  Presentation,
+  ShapeDirection,
+  ShapeFillType,
+  ShapeType,
+  SlideTransitionType,
+  StrokeDashStyle,
+  StrokeLineCap,
+  StrokeLineJoin,
+  TableBorderStyle,
+  TextAutofit,
+  TextOverflow,
+  TextVerticalAlign,
+} from '../types/presentation'
+import {
+  DEFAULT_SLIDE_BACKGROUND,
+  DEFAULT_SLIDE_TRANSITION,
+  DEFAULT_THEME,
+} from '../types/presentation'
+import { sanitizeLink } from './richText'
+
+/**
+ * What a repair does about an invalid value
+ */
+export type ValidationAction = 'removed' | 'reset' | 'dropped'
+
+/**
+ * A problem found in a presentation
+ */
+export interface ValidationIssue {
+  /** Path of the invalid value */
+  path: string
+  message: string
+  /** What repairing does (or did) about it */
+  action: ValidationAction
+}
+
+/**
+ * Options for validating presentations
+ */
+export interface ValidationOptions {
+  /** Repair the problems instead of only reporting them */
+  repair?: boolean
+  /** Path prefixed to the reported paths, e.g. `presentations[1]` */
+  path?: string
+}
+
+/**
+ * Result of validating a presentation
+ */
+export interface ValidationResult {
+  /**
+   * The presentation when it is valid, or its repaired copy when repairing.
+   * Null when it has problems (or, when repairing, problems that can't be repaired).
+   */
+  presentation: Presentation | null
+  issues: ValidationIssue[]
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+type UnknownRecord = Record<string, unknown>
+
+/**
+ * Check for a single value, with a description of what it expects
+ */
+interface Rule {
+  check: (value: unknown) => boolean
+  expected: string
+}
+
+/**
+ * Rule for a field of a record
+ */
+interface FieldRule extends Rule {
+  /** Whether the field may be left out; invalid optional fields are removed by repairs */
+  optional?: boolean
+  /** Value repairs reset the field to; required fields without one can't be repaired */
+  fallback?: (index: number) => unknown
+}
+
+type Fields = Record<string, FieldRule>
+
+/**
+ * Issue of a field, with what repairing it needs
+ */
+interface FieldIssue extends ValidationIssue {
+  key: string
+  fallback?: unknown
+}
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const string: Rule = { check: (value) => typeof value === 'string', expected: 'a string' }
+
+const nonEmptyString: Rule = {
+  check: (value) => typeof value === 'string' && value.length > 0,
+  expected: 'a non-empty string',
+}
+
+const boolean: Rule = { check: (value) => typeof value === 'boolean', expected: 'a boolean' }
+
+const link: Rule = {
+  check: (value) => typeof value === 'string' && sanitizeLink(value) !== null,
+  expected: 'a web or mail link',
+}
+
+/**
+ * Rule for a finite number within a range
+ */
+function number(min = -Infinity, max = Infinity): Rule {
+  const range =
+    min === -Infinity && max === Infinity
+      ? ''
+      : max === Infinity
+        ? ` of at least ${String(min)}`
+        : ` between ${String(min)} and ${String(max)}`
+  return {
+    check: (value) =>
+      typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max,
+    expected: `a number${range}`,
+  }
+}
+
+/**
+ * Rule for one of the members of a string union, listed as record keys so that
+ * adding a member to the type without adding it here is a type error
+ */
+function oneOf<T extends string>(members: Record<T, true>): Rule {
+  const values = Object.keys(members)
+  return {
+    check: (value) => typeof value === 'string' && values.includes(value),
+    expected: `one of ${values.join(', ')}`,
+  }
+}
+
+/**
+ * Rule for an array whose items all pass a rule
+ */
+function arrayOf(
+  item: Rule,
+  minLength = 0,
+  expected = `an array of ${item.expected.replace(/^an? /, '')}s`
+): Rule {
+  return {
+    check: (value) => Array.isArray(value) && value.length >= minLength && value.every(item.check),
+    expected,
+  }
+}
+
+/**
+ * Rule for a record whose fields all pass their rules
+ */
+function shape(fields: Fields, expected: string): Rule {
+  return {
+    check: (value) => isRecord(value) && checkFields(value, fields, '').length === 0,
+    expected,
+  }
+}
+
+/**
+ * Make a rule optional
+ */
+function optional(rule: Rule): FieldRule {
+  return { ...rule, optional: true }
+}
+
+/**
+ * Make a rule required, resetting invalid values to a fallback when repairing
+ */
+function withFallback(rule: Rule, fallback: unknown): FieldRule {
+  return { ...rule, fallback: () => cloneFallback(fallback) }
+}
+
+/**
+ * Copy a fallback value, so repaired presentations don't share it.
+ * Fallbacks are flat, so a shallow copy is enough.
+ */
+function cloneFallback(fallback: unknown): unknown {
+  if (Array.isArray(fallback)) return fallback.slice()
+  return isRecord(fallback) ? { ...fallback } : fallback
+}
+
+const position = shape({ x: number(), y: number() }, 'a position')
+const dimensions = shape({ width: number(0), height: number(0) }, 'dimensions')
+const color = string
+const fontWeight = oneOf<'normal' | 'bold'>({ normal: true, bold: true })
+const fontStyle = oneOf<'normal' | 'italic'>({ normal: true, italic: true })
+const textAlign = oneOf<'left' | 'center' | 'right'>({ left: true, center: true, right: true })
+const gradientDirection = oneOf<GradientDirection>({ horizontal: true, vertical: true, diagonal: true })
+
+// ============================================================================
+// Model
+// ============================================================================
+
+const ELEMENT_TYPES: Record<ElementType, true> = {
+  text: true,
+  shape: true,
+  image: true,
+  table: true,
+  chart: true,
+  connector: true,
+}
+
+/**
+ * Fields every element has
+ */
+const BASE_FIELDS: Fields = {
+  id: nonEmptyString,
+  type: oneOf(ELEMENT_TYPES),
+  position,
+  dimensions,
+  rotation: withFallback(number(), 0),
+  zIndex: { ...number(), fallback: (index) => index },
+  opacity: withFallback(number(0, 1), 1),
+  locked: withFallback(boolean, false),
+  groupId: optional(nonEmptyString),
+}
+
+const textRun = shape(
+  {
+    text: string,
+    fontWeight: optional(fontWeight),
+    fontStyle: optional(fontStyle),
+    underline: optional(boolean),
+    color: optional(color),
+    link: optional(link),
+  },
+  'a text run'
+)
+
+const textParagraph = shape(
+  {
+    listType: oneOf<ListType>({ none: true, bullet: true, numbered: true }),
+    indentLevel: number(0),
+  },
+  'a paragraph format'
+)
+
+const gradientStop = shape({ offset: number(0, 1), color }, 'a gradient stop')
+
+const tableCell = shape(
+  {
+    content: string,
+    rowSpan: optional(number(1)),
+    colSpan: optional(number(1)),
+    fillColor: optional(color),
+  },
+  'a table cell'
+)
+
+const chartSeries = shape(
+  { name: string, values: arrayOf(number()), color: optional(color) },
+  'a chart series'
+)
+
+const connectorEndpoint = shape(
+  {
+    position,
+    attachment: optional(
+      shape(
+        {
+          elementId: nonEmptyString,
+          side: oneOf<ConnectionSide>({ top: true, right: true, bottom: true, left: true }),
+        },
+        'an attachment'
+      )
+    ),
+  },
+  'a connector endpoint'
+)
+
+const arrowhead = oneOf<ArrowheadStyle>({ none: true, arrow: true, triangle: true, circle: true })
+
+/**
+ * Fields of each element type, besides the base fields
+ */
+const ELEMENT_FIELDS: Record<ElementType, Fields> = {
+  text: {
+    content: withFallback(string, ''),
+    runs: optional(arrayOf(textRun)),
+    paragraphs: optional(arrayOf(textParagraph)),
+    fontSize: withFallback(number(1), 24),
+    fontFamily: withFallback(string, 'Arial'),
+    fontWeight: withFallback(fontWeight, 'normal'),
+    fontStyle: withFallback(fontStyle, 'normal'),
+    textAlign: withFallback(textAlign, 'left'),
+    color: withFallback(color, '#000000'),
+    lineSpacing: optional(number(0)),
+    paragraphSpacing: optional(number(0)),
+    verticalAlign: optional(oneOf<TextVerticalAlign>({ top: true, middle: true, bottom: true })),
+    overflow: optional(oneOf<TextOverflow>({ visible: true, clip: true })),
+    autofit: optional(oneOf<TextAutofit>({ none: true, shrink: true, resize: true })),
+  },
+  shape: {
+    shapeType: oneOf<ShapeType>({
+      rectangle: true,
+      circle: true,
+      line: true,
+      triangle: true,
+      ellipse: true,
+      star: true,
+      polygon: true,
+      arrow: true,
+      chevron: true,
+      callout: true,
+      speechBubble: true,
+      path: true,
+    }),
+    fillColor: withFallback(color, 'transparent'),
+    strokeColor: withFallback(color, 'transparent'),
+    strokeWidth: withFallback(number(0), 0),
+    cornerRadius: optional(number(0)),
+    pointCount: optional(number(3)),
+    innerRadiusRatio: optional(number(0, 1)),
+    direction: optional(oneOf<ShapeDirection>({ right: true, left: true, up: true, down: true })),
+    tailPosition: optional(position),
+    pathData: optional(string),
+    pathViewBox: optional(dimensions),
+    fillType: optional(
+      oneOf<ShapeFillType>({ solid: true, linearGradient: true, radialGradient: true })
+    ),
+    gradientStops: optional(arrayOf(gradientStop, 2)),
+    gradientDirection: optional(gradientDirection),
+    strokeDash: optional(oneOf<StrokeDashStyle>({ solid: true, dash: true, dot: true, dashDot: true })),
+    strokeLineCap: optional(oneOf<StrokeLineCap>({ butt: true, round: true, square: true })),
+    strokeLineJoin: optional(oneOf<StrokeLineJoin>({ miter: true, round: true, bevel: true })),
+    shadow: optional(
+      shape(
+        {
+          enabled: boolean,
+          color,
+          opacity: number(0, 1),
+          blur: number(0),
+          offsetX: number(),
+          offsetY: number(),
+        },
+        'a shadow'
+      )
+    ),
+  },
+  image: {
+    src: string,
+    alt: withFallback(string, ''),
+    objectFit: withFallback(
+      oneOf<'cover' | 'contain' | 'fill' | 'none'>({ cover: true, contain: true, fill: true, none: true }),
+      'contain'
+    ),
+    crop: optional(
+      shape(
+        { x: number(0, 1), y: number(0, 1), width: number(0, 1), height: number(0, 1) },
+        'a crop rectangle'
+      )
+    ),
+    mask: optional(oneOf<ImageMask>({ none: true, circle: true, roundedRect: true })),
+    maskCornerRadius: optional(number(0)),
+    adjustments: optional(
+      shape(
+        {
+          brightness: number(0, 200),
+          contrast: number(0, 200),
+          grayscale: number(0, 100),
+          blur: number(0, 20),
+        },
+        'image adjustments'
+      )
+    ),
+  },
+  table: {
+    cells: arrayOf(arrayOf(tableCell, 1), 1, 'rows of table cells'),
+    columnWidths: arrayOf(number(0), 1),
+    rowHeights: arrayOf(number(0), 1),
+    headerRow: withFallback(boolean, false),
+    headerFillColor: withFallback(color, '#f1f5f9'),
+    headerTextColor: withFallback(color, '#000000'),
+    fillColor: withFallback(color, 'transparent'),
+    textColor: withFallback(color, '#000000'),
+    fontSize: withFallback(number(1), 14),
+    fontFamily: withFallback(string, 'Arial'),
+    textAlign: withFallback(textAlign, 'left'),
+    borderStyle: withFallback(
+      oneOf<TableBorderStyle>({ all: true, outer: true, horizontal: true, none: true }),
+      'all'
+    ),
+    borderColor: withFallback(color, '#cbd5e1'),
+    borderWidth: withFallback(number(0), 1),
+  },
+  chart: {
+    chartType: oneOf<ChartType>({ bar: true, line: true, pie: true, area: true }),
+    categories: arrayOf(string),
+    series: arrayOf(chartSeries),
+    title: optional(string),
+    showLegend: withFallback(boolean, true),
+    textColor: withFallback(color, '#000000'),
+    fontFamily: withFallback(string, 'Arial'),
+    fontSize: withFallback(number(1), 12),
+  },
+  connector: {
+    start: connectorEndpoint,
+    end: connectorEndpoint,
+    routing: withFallback(
+      oneOf<ConnectorRouting>({ straight: true, elbow: true, curved: true }),
+      'straight'
+    ),
+    startArrowhead: withFallback(arrowhead, 'none'),
+    endArrowhead: withFallback(arrowhead, 'arrow'),
+    strokeColor: withFallback(color, '#000000'),
+    strokeWidth: withFallback(number(0), 2),
+  },
+}
+
+const BACKGROUND_FIELDS: Fields = {
+  type: oneOf<'solid' | 'gradient' | 'image'>({ solid: true, gradient: true, image: true }),
+  color: optional(color),
+  gradientStart: optional(color),
+  gradientEnd: optional(color),
+  gradientDirection: optional(gradientDirection),
+  imageSrc: optional(string),
+  imageFillMode: optional(
+    oneOf<BackgroundImageFillMode>({ stretch: true, tile: true, cover: true, contain: true })
+  ),
+}
+
+const TRANSITION_FIELDS: Fields = {
+  type: oneOf<SlideTransitionType>({ none: true, fade: true, slide: true, zoom: true }),
+  duration: number(100, 2000),
+}
+
+const THEME_FIELDS: Fields = {
+  primaryColor: color,
+  secondaryColor: color,
+  backgroundColor: color,
+  textColor: color,
+  fontFamily: string,
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Append a field name to a path
+ */
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+/**
+ * Strip the repair details of field issues
+ */
+function toIssues(fieldIssues: FieldIssue[]): ValidationIssue[] {
+  return fieldIssues.map(({ path, message, action }) => ({ path, message, action }))
+}
+
+/**
+ * Check the fields of a record, returning the invalid ones with the issues they cause
+ */
+function checkFields(
+  record: UnknownRecord,
+  fields: Fields,
+  path: string,
+  index = 0
+): FieldIssue[] {
+  const issues: FieldIssue[] = []
+  for (const [key, rule] of Object.entries(fields)) {
+    const value = record[key]
+    if (value === undefined && rule.optional) continue
+    if (rule.check(value)) continue
+
+    const message =
+      value === undefined ? `Missing ${rule.expected}` : `Expected ${rule.expected}`
+    const fieldPath = joinPath(path, key)
+    if (rule.optional) {
+      issues.push({ key, path: fieldPath, message, action: 'removed' })
+    } else if (rule.fallback) {
+      issues.push({ key, path: fieldPath, message, action: 'reset', fallback: rule.fallback(index) })
+    } else {
+      issues.push({ key, path: fieldPath, message, action: 'dropped' })
+    }
+  }
+  return issues
+}
+
+/**
+ * Apply the repairs of field issues to a record
+ */
+function repairFields(record: UnknownRecord, issues: FieldIssue[]): UnknownRecord {
+  const removed = new Set(
+    issues.filter((issue) => issue.action === 'removed').map((issue) => issue.key)
+  )
+  const repaired = Object.fromEntries(Object.entries(record).filter(([key]) => !removed.has(key)))
+  for (const issue of issues) {
+    if (issue.action !== 'removed') repaired[issue.key] = issue.fallback
+  }
+  return repaired
+}
+
+/**
+ * Check that the cells of a table match its column widths and row heights
+ */
+function checkTableGrid(table: UnknownRecord): string | null {
+  const cells = table['cells'] as unknown[][]
+  const columns = (table['columnWidths'] as unknown[]).length
+  if ((table['rowHeights'] as unknown[]).length !== cells.length) {
+    return 'Expected one row height per row'
+  }
+  if (cells.some((row) => row.length !== columns)) {
+    return 'Expected one cell per column in every row'
+  }
+  return null
+}
+
+/**
+ * Check the links of text runs one by one, so that repairs only remove the
+ * links instead of all the formatting of the runs
+ */
+function checkRunLinks(
+  runs: unknown,
+  path: string
+): { runs: unknown; issues: ValidationIssue[] } {
+  if (!Array.isArray(runs)) return { runs, issues: [] }
+  const issues: ValidationIssue[] = []
+  const repaired = runs.map((run: unknown, index) => {
+    if (!isRecord(run)) return run
+    const fieldIssues = checkFields(run, { link: optional(link) }, `${path}[${String(index)}]`)
+    issues.push(...toIssues(fieldIssues))
+    return fieldIssues.length > 0 ? repairFields(run, fieldIssues) : run
+  })
+  return { runs: issues.length > 0 ? repaired : runs, issues }
+}
+
+/**
+ * Validate an element. Returns the element (repaired when repairing), or null when
+ * it has to be dropped, along with the problems found.
+ */
+function validateElement(
+  value: unknown,
+  path: string,
+  index: number,
+  repair: boolean
+): { element: UnknownRecord | null; issues: ValidationIssue[] } {
+  if (!isRecord(value)) {
+    return { element: null, issues: [{ path, message: 'Expected an element', action: 'dropped' }] }
+  }
+
+  const type = value['type']
+  const typeFields = typeof type === 'string' && type in ELEMENT_FIELDS
+    ? ELEMENT_FIELDS[type as ElementType]
+    : {}
+  const runLinks =
+    type === 'text' ? checkRunLinks(value['runs'], `${path}.runs`) : { runs: undefined, issues: [] }
+  const element = runLinks.issues.length > 0 ? { ...value, runs: runLinks.runs } : value
+  const fieldIssues = checkFields(element, { ...BASE_FIELDS, ...typeFields }, path, index)
+
+  const issues = [...runLinks.issues, ...toIssues(fieldIssues)]
+  if (type === 'table' && fieldIssues.length === 0) {
+    const gridError = checkTableGrid(value)
+    if (gridError) issues.push({ path: `${path}.cells`, message: gridError, action: 'dropped' })
+  }
+  if (type === 'shape' && value['shapeType'] === 'path' && typeof value['pathData'] !== 'string') {
+    issues.push({ path: `${path}.pathData`, message: 'Missing path data', action: 'dropped' })
+  }
+
+  if (issues.some((issue) => issue.action === 'dropped')) {
+    // Report a dropped element once, instead of every field it would lose
+    return {
+      element: null,
+      issues: issues.filter((issue) => issue.action === 'dropped'),
+    }
+  }
+  return { element: repair ? repairFields(element, fieldIssues) : value, issues }
+}
+
+/**
+ * Validate a nested record that is reset as a whole when invalid, like a background
+ */
+function validateNested(
+  record: UnknownRecord,
+  key: string,
+  fields: Fields,
+  fallback: unknown,
+  path: string
+): { value: unknown; issues: ValidationIssue[] } {
+  const value = record[key]
+  const nestedPath = joinPath(path, key)
+  if (!isRecord(value)) {
+    return {
+      value: cloneFallback(fallback),
+      issues: [{ path: nestedPath, message: `Missing ${key}`, action: 'reset' }],
+    }
+  }
+
+  const fieldIssues = checkFields(value, fields, nestedPath)
+  if (fieldIssues.length === 0) return { value, issues: [] }
+  if (fieldIssues.some((issue) => issue.action === 'dropped')) {
+    return {
+      value: cloneFallback(fallback),
+      issues: fieldIssues.map(({ path, message }) => ({ path, message, action: 'reset' as const })),
+    }
+  }
+  return { value: repairFields(value, fieldIssues), issues: toIssues(fieldIssues) }
+}
+
+/**
+ * Validate a slide. Returns the slide (repaired when repairing), or null when it has
+ * to be dropped, along with the problems found.
+ */
+function validateSlide(
+  value: unknown,
+  path: string,
+  repair: boolean
+): { slide: UnknownRecord | null; issues: ValidationIssue[] } {
+  if (!isRecord(value)) {
+    return { slide: null, issues: [{ path, message: 'Expected a slide', action: 'dropped' }] }
+  }
+
+  const fieldIssues = checkFields(
+    value,
+    {
+      id: nonEmptyString,
+      title: withFallback(string, 'Untitled Slide'),
+      elements: withFallback({ check: Array.isArray, expected: 'an array of elements' }, []),
+      notes: withFallback(string, ''),
+      thumbnail: optional(string),
+      createdAt: withFallback(string, ''),
+      updatedAt: withFallback(string, ''),
+    },
+    path
+  )
+  const dropped = fieldIssues.filter((issue) => issue.action === 'dropped')
+  if (dropped.length > 0) return { slide: null, issues: toIssues(dropped) }
+
+  const issues = toIssues(fieldIssues)
+  const slide = repairFields(value, fieldIssues)
+
+  const background = validateNested(slide, 'background', BACKGROUND_FIELDS, DEFAULT_SLIDE_BACKGROUND, path)
+  const transition = validateNested(slide, 'transition', TRANSITION_FIELDS, DEFAULT_SLIDE_TRANSITION, path)
+  issues.push(...background.issues, ...transition.issues)
+  slide['background'] = background.value
+  slide['transition'] = transition.value
+
+  const elements: UnknownRecord[] = []
+  ;(slide['elements'] as unknown[]).forEach((element, index) => {
+    const result = validateElement(element, `${path}.elements[${String(index)}]`, index, repair)
+    issues.push(...result.issues)
+    if (result.element) elements.push(result.element)
+  })
+  slide['elements'] = elements
+
+  return { slide: repair ? slide : value, issues }
+}
+
+/**
+ * Validate a presentation against the data model, optionally repairing it
+ */
+export function validatePresentation(
+  value: unknown,
+  { repair = false, path = '' }: ValidationOptions = {}
+): ValidationResult {
+  const root = path || 'presentation'
+  if (!isRecord(value)) {
+    return {
+      presentation: null,
+      issues: [{ path: root, message: 'Expected a presentation', action: 'dropped' }],
+    }
+  }
+
+  const fieldIssues = checkFields(
+    value,
+    {
+      id: nonEmptyString,
+      name: string,
+      description: withFallback(string, ''),
+      slides: { check: Array.isArray, expected: 'an array of slides' },
+      createdAt: withFallback(string, ''),
+      updatedAt: withFallback(string, ''),
+    },
+    path
+  )
+  const issues = toIssues(fieldIssues)
+  if (issues.some((issue) => issue.action === 'dropped')) {
+    return { presentation: null, issues: issues.filter((issue) => issue.action === 'dropped') }
+  }
+
+  const presentation = repairFields(value, fieldIssues)
+  const theme = validateNested(presentation, 'theme', THEME_FIELDS, DEFAULT_THEME, path)
+  issues.push(...theme.issues)
+  presentation['theme'] = theme.value
+
+  const slides: UnknownRecord[] = []
+  ;(presentation['slides'] as unknown[]).forEach((slide, index) => {
+    const result = validateSlide(slide, joinPath(path, `slides[${String(index)}]`), repair)
+    issues.push(...result.issues)
+    if (result.slide) slides.push(result.slide)
+  })
+  presentation['slides'] = slides
+
+  if (repair) return { presentation: presentation as unknown as Presentation, issues }
+  return { presentation: issues.length === 0 ? (value as unknown as Presentation) : null, issues }
+}
+
+/**
+ * Summarize validation issues for a notification, listing the first few paths
+ */
+export function formatValidationIssues(issues: ValidationIssue[], limit = 3): string {
+  const listed = issues.slice(0, limit).map((issue) => `${issue.path}: ${issue.message}`)
+  const more = issues.length - listed.length
+  return more > 0 ? `${listed.join('; ')}; and ${String(more)} more` : listed.join('; ')
+}
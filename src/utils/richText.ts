@@ -0,0 +1,313 @@
+/**
+ * Rich Text Utilities
+ * Provides functions for working with the run-based content model of text elements:
+ * migrating plain content, editing text while preserving formatting,
+ * applying formatting to character ranges, and checking hyperlinks.
+ */
+
+import type { TextElement, TextRun, TextRunFormat } from '../types/presentation'
+import { spliceParagraphsText } from './textLists'
+
+/**
+ * Formatting changes to apply to a range.
+ * A null value removes that override so the run falls back to the element.
+ */
+export type TextRunFormatPatch = {
+  [K in keyof TextRunFormat]?: TextRunFormat[K] | null
+}
+
+/**
+ * Every formatting key a run may override, used for comparisons and copying
+ */
+const FORMAT_KEYS: (keyof TextRunFormat)[] = [
+  'fontWeight',
+  'fontStyle',
+  'underline',
+  'color',
+  'link',
+]
+
+/**
+ * URL schemes hyperlinks may use. Others, like javascript:, could run code
+ * when a link in an exported slideshow is clicked.
+ */
+const LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:'])
+
+/**
+ * Check a hyperlink, returning it when it's a web or mail link and null otherwise.
+ * Links without a scheme, like example.com, are taken as https links.
+ */
+export function sanitizeLink(link: string): string | null {
+  const url = link.trim()
+  if (!url) return null
+  const protocol = getProtocol(url)
+  if (protocol) {
+    return LINK_PROTOCOLS.has(protocol) ? url : null
+  }
+  return getProtocol(`https://${url}`) ? `https://${url}` : null
+}
+
+/**
+ * Get the scheme of a URL, like https:, or null when it isn't an absolute URL
+ */
+function getProtocol(url: string): string | null {
+  try {
+    return new URL(url).protocol
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Get the runs of a text element.
+ * Elements saved with only plain `content` are migrated to a single unformatted run.
+ */
+export function getTextRuns(element: Pick<TextElement, 'content' | 'runs'>): TextRun[] {
+  if (element.runs && element.runs.length > 0) {
+    return element.runs
+  }
+  return [{ text: element.content }]
+}
+
+/**
+ * Concatenate the text of all runs
+ */
+export function runsToPlainText(runs: TextRun[]): string {
+  return runs.map((run) => run.text).join('')
+}
+
+/**
+ * Extract the formatting overrides of a run, without its text
+ */
+export function getRunFormat(run: TextRunFormat): TextRunFormat {
+  const format: TextRunFormat = {}
+  for (const key of FORMAT_KEYS) {
+    if (run[key] !== undefined) {
+      Object.assign(format, { [key]: run[key] })
+    }
+  }
+  return format
+}
+
+/**
+ * Check whether two runs have identical formatting overrides
+ */
+export function isSameFormat(a: TextRunFormat, b: TextRunFormat): boolean {
+  return FORMAT_KEYS.every((key) => a[key] === b[key])
+}
+
+/**
+ * Merge adjacent runs with identical formatting and drop empty runs
+ */
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const result: TextRun[] = []
+  for (const run of runs) {
+    if (!run.text) continue
+    const last = result[result.length - 1]
+    if (last && isSameFormat(last, run)) {
+      result[result.length - 1] = { ...last, text: last.text + run.text }
+    } else {
+      result.push({ ...getRunFormat(run), text: run.text })
+    }
+  }
+  return result
+}
+
+/**
+ * Split runs so that `offset` falls on a run boundary.
+ * Returns the new runs and the index of the first run at or after the offset.
+ */
+function splitRunsAt(runs: TextRun[], offset: number): { runs: TextRun[]; index: number } {
+  const result: TextRun[] = []
+  let position = 0
+  let index = -1
+
+  for (const run of runs) {
+    const end = position + run.text.length
+    if (index === -1 && offset > position && offset < end) {
+      const format = getRunFormat(run)
+      result.push({ ...format, text: run.text.slice(0, offset - position) })
+      index = result.length
+      result.push({ ...format, text: run.text.slice(offset - position) })
+    } else {
+      if (index === -1 && offset <= position) {
+        index = result.length
+      }
+      result.push(run)
+    }
+    position = end
+  }
+
+  return { runs: result, index: index === -1 ? result.length : index }
+}
+
+/**
+ * Apply a formatting patch to the characters in [start, end)
+ */
+export function applyFormatToRange(
+  runs: TextRun[],
+  start: number,
+  end: number,
+  patch: TextRunFormatPatch
+): TextRun[] {
+  if (start >= end) return runs
+
+  const atEnd = splitRunsAt(runs, end)
+  const atStart = splitRunsAt(atEnd.runs, start)
+  const endIndex = atEnd.index + (atStart.runs.length - atEnd.runs.length)
+
+  const patched = atStart.runs.map((run, index) => {
+    if (index < atStart.index || index >= endIndex) return run
+    const next: TextRun = { text: run.text }
+    for (const key of FORMAT_KEYS) {
+      const value = key in patch ? patch[key] : run[key]
+      if (value !== null && value !== undefined) {
+        Object.assign(next, { [key]: value })
+      }
+    }
+    return next
+  })
+
+  return normalizeRuns(patched)
+}
+
+/**
+ * Get the formatting overrides shared by every character in [start, end).
+ * For an empty range, returns the formatting that newly typed text would receive.
+ */
+export function getFormatInRange(runs: TextRun[], start: number, end: number): TextRunFormat {
+  if (start >= end) {
+    return getRunFormat(getRunAtInsertionPoint(runs, start) ?? {})
+  }
+
+  let shared: TextRunFormat | null = null
+  let position = 0
+  for (const run of runs) {
+    const runEnd = position + run.text.length
+    if (runEnd > start && position < end) {
+      const format = getRunFormat(run)
+      if (shared === null) {
+        shared = format
+      } else {
+        const current: TextRunFormat = shared
+        const common: TextRunFormat = {}
+        for (const key of FORMAT_KEYS) {
+          if (current[key] !== undefined && current[key] === format[key]) {
+            Object.assign(common, { [key]: current[key] })
+          }
+        }
+        shared = common
+      }
+    }
+    position = runEnd
+  }
+
+  return shared ?? {}
+}
+
+/**
+ * Get the run whose formatting text inserted at `offset` inherits:
+ * the run containing the preceding character, or the first run at the start.
+ */
+function getRunAtInsertionPoint(runs: TextRun[], offset: number): TextRun | undefined {
+  let position = 0
+  for (const run of runs) {
+    const end = position + run.text.length
+    if (offset > position && offset <= end) return run
+    position = end
+  }
+  return runs[0]
+}
+
+/**
+ * Update runs after their plain text changed from `oldText` to `newText`.
+ * The changed region is found by comparing common prefix and suffix; formatting
+ * outside it is preserved and inserted text inherits the formatting of the
+ * preceding character, overridden by `insertFormat` when given.
+ */
+export function spliceRunsText(
+  runs: TextRun[],
+  oldText: string,
+  newText: string,
+  insertFormat?: TextRunFormatPatch
+): TextRun[] {
+  let prefix = 0
+  const maxPrefix = Math.min(oldText.length, newText.length)
+  while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  const maxSuffix = Math.min(oldText.length, newText.length) - prefix
+  while (
+    suffix < maxSuffix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const removeEnd = oldText.length - suffix
+  const inserted = newText.slice(prefix, newText.length - suffix)
+  const inheritFrom = getRunAtInsertionPoint(runs, prefix)
+
+  const atEnd = splitRunsAt(runs, removeEnd)
+  const atStart = splitRunsAt(atEnd.runs, prefix)
+  const removeEndIndex = atEnd.index + (atStart.runs.length - atEnd.runs.length)
+
+  const result = [
+    ...atStart.runs.slice(0, atStart.index),
+    ...(inserted ? [{ ...getRunFormat(inheritFrom ?? {}), text: inserted }] : []),
+    ...atStart.runs.slice(removeEndIndex),
+  ]
+
+  if (inserted && insertFormat) {
+    return applyFormatToRange(result, prefix, prefix + inserted.length, insertFormat)
+  }
+  return normalizeRuns(result)
+}
+
+/**
+ * Remove leading and trailing whitespace across all runs
+ */
+export function trimRuns(runs: TextRun[]): TextRun[] {
+  const text = runsToPlainText(runs)
+  const start = text.length - text.trimStart().length
+  const end = text.trimEnd().length
+  return sliceRuns(runs, start, end)
+}
+
+/**
+ * Get the runs covering the characters in [start, end)
+ */
+export function sliceRuns(runs: TextRun[], start: number, end: number): TextRun[] {
+  if (start >= end) return []
+
+  const atEnd = splitRunsAt(runs, end)
+  const atStart = splitRunsAt(atEnd.runs, start)
+  const endIndex = atEnd.index + (atStart.runs.length - atEnd.runs.length)
+  return normalizeRuns(atStart.runs.slice(atStart.index, endIndex))
+}
+
+/**
+ * Build the content update for changing a text element's plain text.
+ * Run and paragraph formatting are preserved for elements that have them.
+ */
+export function updateTextContent(
+  element: Pick<TextElement, 'content' | 'runs' | 'paragraphs'>,
+  newText: string
+): Pick<TextElement, 'content' | 'runs' | 'paragraphs'> {
+  return {
+    content: newText,
+    ...(element.runs && { runs: spliceRunsText(element.runs, element.content, newText) }),
+    ...(element.paragraphs && {
+      paragraphs: spliceParagraphsText(element.paragraphs, element.content, newText),
+    }),
+  }
+}
+
+/**
+ * Check whether any run carries formatting overrides
+ */
+export function hasRunFormatting(runs: TextRun[]): boolean {
+  return runs.some((run) => Object.keys(getRunFormat(run)).length > 0)
+}
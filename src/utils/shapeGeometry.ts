@@ -0,0 +1,703 @@
+/**
+ * Shape Geometry Utilities
+ * Provides outlines for every shape type as SVG-like path commands, parsing
+ * and serializing path data, freeform paths from pen strokes, and accurate
+ * hit-testing against shape outlines.
+ *
+ * Outlines are computed in slide coordinates from the shape's unrotated box,
+ * so they can be traced onto a canvas, drawn as SVG previews, or tested
+ * without a canvas.
+ */
+
+import type { Position, ShapeDirection, ShapeElement, ShapeType } from '../types/presentation'
+import { themeColorRef } from './themeUtils'
+
+/**
+ * Points of a star when the shape doesn't specify them
+ */
+export const DEFAULT_STAR_POINTS = 5
+
+/**
+ * Sides of a polygon when the shape doesn't specify them
+ */
+export const DEFAULT_POLYGON_SIDES = 6
+
+/**
+ * Inner radius of a star, as a fraction of its outer radius, when the shape doesn't specify it
+ */
+export const DEFAULT_INNER_RADIUS_RATIO = 0.5
+
+/**
+ * Tail tip of callouts and speech bubbles when the shape doesn't specify it
+ */
+export const DEFAULT_TAIL_POSITION: Position = { x: 0.25, y: 1 }
+
+/**
+ * Display names of shape types
+ */
+export const SHAPE_TYPE_LABELS: Record<ShapeType, string> = {
+  rectangle: 'Rectangle',
+  circle: 'Circle',
+  line: 'Line',
+  triangle: 'Triangle',
+  ellipse: 'Ellipse',
+  star: 'Star',
+  polygon: 'Polygon',
+  arrow: 'Arrow',
+  chevron: 'Chevron',
+  callout: 'Callout',
+  speechBubble: 'Speech Bubble',
+  path: 'Freeform',
+}
+
+/**
+ * Share of a callout's height taken up by its body; the tail fills the rest
+ */
+const CALLOUT_BODY_RATIO = 0.8
+
+/**
+ * Number of straight segments used to approximate a curve segment
+ */
+const CURVE_SEGMENTS = 12
+
+/**
+ * Control point distance for approximating a quarter ellipse with a cubic Bézier
+ */
+const KAPPA = 0.5522847498
+
+/**
+ * Distance below which the end of a pen stroke closes the path
+ */
+const CLOSE_PATH_DISTANCE = 10
+
+/**
+ * An absolute path command, as in SVG path data
+ */
+export type PathCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' }
+
+/**
+ * A path flattened into straight segments
+ */
+export interface FlatSubpath {
+  points: Position[]
+  closed: boolean
+}
+
+/**
+ * Parse SVG path data into absolute commands.
+ * Supports M, L, H, V, Q, C and Z in absolute and relative form;
+ * parsing stops at the first unsupported command.
+ */
+export function parsePathData(d: string): PathCommand[] {
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e-?\d+)?/g) ?? []
+  const commands: PathCommand[] = []
+  let x = 0
+  let y = 0
+  let startX = 0
+  let startY = 0
+  let command = ''
+  let i = 0
+
+  const next = (): number => Number(tokens[i++])
+  const hasNumbers = (count: number): boolean => {
+    const args = tokens.slice(i, i + count)
+    return args.length === count && args.every((t) => !/^[a-zA-Z]$/.test(t))
+  }
+
+  while (i < tokens.length) {
+    const token = tokens[i] ?? ''
+    if (/^[a-zA-Z]$/.test(token)) {
+      command = token
+      i++
+    } else if (!command) {
+      break
+    }
+
+    const relative = command === command.toLowerCase()
+    const dx = relative ? x : 0
+    const dy = relative ? y : 0
+
+    switch (command.toUpperCase()) {
+      case 'M':
+        if (!hasNumbers(2)) return commands
+        x = next() + dx
+        y = next() + dy
+        commands.push({ type: 'M', x, y })
+        startX = x
+        startY = y
+        // Coordinates following a moveto are implicit linetos
+        command = relative ? 'l' : 'L'
+        break
+      case 'L':
+        if (!hasNumbers(2)) return commands
+        x = next() + dx
+        y = next() + dy
+        commands.push({ type: 'L', x, y })
+        break
+      case 'H':
+        if (!hasNumbers(1)) return commands
+        x = next() + dx
+        commands.push({ type: 'L', x, y })
+        break
+      case 'V':
+        if (!hasNumbers(1)) return commands
+        y = next() + dy
+        commands.push({ type: 'L', x, y })
+        break
+      case 'Q': {
+        if (!hasNumbers(4)) return commands
+        const x1 = next() + dx
+        const y1 = next() + dy
+        x = next() + dx
+        y = next() + dy
+        commands.push({ type: 'Q', x1, y1, x, y })
+        break
+      }
+      case 'C': {
+        if (!hasNumbers(6)) return commands
+        const x1 = next() + dx
+        const y1 = next() + dy
+        const x2 = next() + dx
+        const y2 = next() + dy
+        x = next() + dx
+        y = next() + dy
+        commands.push({ type: 'C', x1, y1, x2, y2, x, y })
+        break
+      }
+      case 'Z':
+        commands.push({ type: 'Z' })
+        x = startX
+        y = startY
+        command = ''
+        break
+      default:
+        return commands
+    }
+  }
+
+  return commands
+}
+
+/**
+ * Round a coordinate for path data
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+/**
+ * Serialize path commands as SVG path data
+ */
+export function serializePathData(commands: PathCommand[]): string {
+  return commands
+    .map((c) => {
+      switch (c.type) {
+        case 'M':
+        case 'L':
+          return `${c.type} ${formatNumber(c.x)} ${formatNumber(c.y)}`
+        case 'Q':
+          return `Q ${[c.x1, c.y1, c.x, c.y].map(formatNumber).join(' ')}`
+        case 'C':
+          return `C ${[c.x1, c.y1, c.x2, c.y2, c.x, c.y].map(formatNumber).join(' ')}`
+        case 'Z':
+          return 'Z'
+      }
+    })
+    .join(' ')
+}
+
+/**
+ * Build a closed outline through the given points
+ */
+function polygon(points: Position[]): PathCommand[] {
+  const [first, ...rest] = points
+  if (!first) return []
+  return [
+    { type: 'M', x: first.x, y: first.y },
+    ...rest.map((p): PathCommand => ({ type: 'L', x: p.x, y: p.y })),
+    { type: 'Z' },
+  ]
+}
+
+/**
+ * Build the outline of an ellipse from four cubic Béziers
+ */
+function ellipse(cx: number, cy: number, rx: number, ry: number): PathCommand[] {
+  const ox = rx * KAPPA
+  const oy = ry * KAPPA
+  return [
+    { type: 'M', x: cx + rx, y: cy },
+    { type: 'C', x1: cx + rx, y1: cy + oy, x2: cx + ox, y2: cy + ry, x: cx, y: cy + ry },
+    { type: 'C', x1: cx - ox, y1: cy + ry, x2: cx - rx, y2: cy + oy, x: cx - rx, y: cy },
+    { type: 'C', x1: cx - rx, y1: cy - oy, x2: cx - ox, y2: cy - ry, x: cx, y: cy - ry },
+    { type: 'C', x1: cx + ox, y1: cy - ry, x2: cx + rx, y2: cy - oy, x: cx + rx, y: cy },
+    { type: 'Z' },
+  ]
+}
+
+/**
+ * Get the points of a regular polygon or star inscribed in a box, starting at the top
+ */
+function radialPoints(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  count: number,
+  innerRatio: number | null
+): Position[] {
+  const cx = x + width / 2
+  const cy = y + height / 2
+  const vertices = innerRatio === null ? count : count * 2
+  return Array.from({ length: vertices }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / vertices
+    const scale = innerRatio !== null && i % 2 === 1 ? innerRatio : 1
+    return {
+      x: cx + (Math.cos(angle) * width * scale) / 2,
+      y: cy + (Math.sin(angle) * height * scale) / 2,
+    }
+  })
+}
+
+/**
+ * Map points given along a direction onto a box. Points are given as
+ * (distance along the direction, distance across it) for a shape pointing right.
+ */
+function orient(
+  points: [number, number][],
+  direction: ShapeDirection,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): Position[] {
+  const length = direction === 'left' || direction === 'right' ? width : height
+  return points.map(([along, across]) => {
+    switch (direction) {
+      case 'left':
+        return { x: x + length - along, y: y + across }
+      case 'down':
+        return { x: x + across, y: y + along }
+      case 'up':
+        return { x: x + across, y: y + length - along }
+      default:
+        return { x: x + along, y: y + across }
+    }
+  })
+}
+
+/**
+ * Get the points where a callout tail meets the body and its tip
+ */
+function getTail(
+  shape: Pick<ShapeElement, 'position' | 'dimensions' | 'tailPosition'>,
+  bodyBottom: number,
+  inset: number
+): { left: number; right: number; tip: Position } {
+  const { position, dimensions } = shape
+  const tail = shape.tailPosition ?? DEFAULT_TAIL_POSITION
+  const tip = {
+    x: position.x + tail.x * dimensions.width,
+    y: Math.max(bodyBottom, position.y + tail.y * dimensions.height),
+  }
+  const halfBase = Math.min(dimensions.width * 0.08, (dimensions.width - inset * 2) / 4)
+  const center = Math.min(
+    Math.max(tip.x, position.x + inset + halfBase),
+    position.x + dimensions.width - inset - halfBase
+  )
+  return { left: center - halfBase, right: center + halfBase, tip }
+}
+
+/**
+ * Get the outline of a shape as path commands in slide coordinates, ignoring rotation.
+ * Lines and open freeform paths are returned as open paths.
+ */
+export function getShapeOutline(
+  shape: Pick<
+    ShapeElement,
+    | 'position'
+    | 'dimensions'
+    | 'shapeType'
+    | 'cornerRadius'
+    | 'pointCount'
+    | 'innerRadiusRatio'
+    | 'direction'
+    | 'tailPosition'
+    | 'pathData'
+    | 'pathViewBox'
+  >
+): PathCommand[] {
+  const { x, y } = shape.position
+  const { width, height } = shape.dimensions
+
+  switch (shape.shapeType) {
+    case 'rectangle': {
+      const r = Math.min(shape.cornerRadius ?? 0, width / 2, height / 2)
+      if (r <= 0) {
+        return polygon([
+          { x, y },
+          { x: x + width, y },
+          { x: x + width, y: y + height },
+          { x, y: y + height },
+        ])
+      }
+      return [
+        { type: 'M', x: x + r, y },
+        { type: 'L', x: x + width - r, y },
+        { type: 'Q', x1: x + width, y1: y, x: x + width, y: y + r },
+        { type: 'L', x: x + width, y: y + height - r },
+        { type: 'Q', x1: x + width, y1: y + height, x: x + width - r, y: y + height },
+        { type: 'L', x: x + r, y: y + height },
+        { type: 'Q', x1: x, y1: y + height, x, y: y + height - r },
+        { type: 'L', x, y: y + r },
+        { type: 'Q', x1: x, y1: y, x: x + r, y },
+        { type: 'Z' },
+      ]
+    }
+
+    case 'circle':
+    case 'ellipse':
+      return ellipse(x + width / 2, y + height / 2, width / 2, height / 2)
+
+    case 'triangle':
+      return polygon([
+        { x: x + width / 2, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ])
+
+    case 'line':
+      return [
+        { type: 'M', x, y },
+        { type: 'L', x: x + width, y: y + height },
+      ]
+
+    case 'star':
+      return polygon(
+        radialPoints(
+          x,
+          y,
+          width,
+          height,
+          Math.max(3, shape.pointCount ?? DEFAULT_STAR_POINTS),
+          shape.innerRadiusRatio ?? DEFAULT_INNER_RADIUS_RATIO
+        )
+      )
+
+    case 'polygon':
+      return polygon(
+        radialPoints(x, y, width, height, Math.max(3, shape.pointCount ?? DEFAULT_POLYGON_SIDES), null)
+      )
+
+    case 'arrow': {
+      const direction = shape.direction ?? 'right'
+      const horizontal = direction === 'left' || direction === 'right'
+      const length = horizontal ? width : height
+      const thickness = horizontal ? height : width
+      const head = length - Math.min(length * 0.5, thickness * 0.8)
+      return polygon(
+        orient(
+          [
+            [0, thickness * 0.25],
+            [head, thickness * 0.25],
+            [head, 0],
+            [length, thickness / 2],
+            [head, thickness],
+            [head, thickness * 0.75],
+            [0, thickness * 0.75],
+          ],
+          direction,
+          x,
+          y,
+          width,
+          height
+        )
+      )
+    }
+
+    case 'chevron': {
+      const direction = shape.direction ?? 'right'
+      const horizontal = direction === 'left' || direction === 'right'
+      const length = horizontal ? width : height
+      const thickness = horizontal ? height : width
+      const notch = Math.min(length * 0.5, thickness * 0.5)
+      return polygon(
+        orient(
+          [
+            [0, 0],
+            [length - notch, 0],
+            [length, thickness / 2],
+            [length - notch, thickness],
+            [0, thickness],
+            [notch, thickness / 2],
+          ],
+          direction,
+          x,
+          y,
+          width,
+          height
+        )
+      )
+    }
+
+    case 'callout': {
+      const bottom = y + height * CALLOUT_BODY_RATIO
+      const tail = getTail(shape, bottom, 0)
+      return polygon([
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: bottom },
+        { x: tail.right, y: bottom },
+        tail.tip,
+        { x: tail.left, y: bottom },
+        { x, y: bottom },
+      ])
+    }
+
+    case 'speechBubble': {
+      const bottom = y + height * CALLOUT_BODY_RATIO
+      const r = Math.min(width, height * CALLOUT_BODY_RATIO) * 0.2
+      const tail = getTail(shape, bottom, r)
+      return [
+        { type: 'M', x: x + r, y },
+        { type: 'L', x: x + width - r, y },
+        { type: 'Q', x1: x + width, y1: y, x: x + width, y: y + r },
+        { type: 'L', x: x + width, y: bottom - r },
+        { type: 'Q', x1: x + width, y1: bottom, x: x + width - r, y: bottom },
+        { type: 'L', x: tail.right, y: bottom },
+        { type: 'L', x: tail.tip.x, y: tail.tip.y },
+        { type: 'L', x: tail.left, y: bottom },
+        { type: 'L', x: x + r, y: bottom },
+        { type: 'Q', x1: x, y1: bottom, x, y: bottom - r },
+        { type: 'L', x, y: y + r },
+        { type: 'Q', x1: x, y1: y, x: x + r, y },
+        { type: 'Z' },
+      ]
+    }
+
+    case 'path': {
+      const viewBox = shape.pathViewBox ?? shape.dimensions
+      const scaleX = viewBox.width > 0 ? width / viewBox.width : 1
+      const scaleY = viewBox.height > 0 ? height / viewBox.height : 1
+      const px = (value: number): number => x + value * scaleX
+      const py = (value: number): number => y + value * scaleY
+      return parsePathData(shape.pathData ?? '').map((c): PathCommand => {
+        switch (c.type) {
+          case 'M':
+          case 'L':
+            return { type: c.type, x: px(c.x), y: py(c.y) }
+          case 'Q':
+            return { type: 'Q', x1: px(c.x1), y1: py(c.y1), x: px(c.x), y: py(c.y) }
+          case 'C':
+            return {
+              type: 'C',
+              x1: px(c.x1),
+              y1: py(c.y1),
+              x2: px(c.x2),
+              y2: py(c.y2),
+              x: px(c.x),
+              y: py(c.y),
+            }
+          case 'Z':
+            return c
+        }
+      })
+    }
+  }
+}
+
+/**
+ * Flatten path commands into subpaths of straight segments
+ */
+export function flattenPath(commands: PathCommand[]): FlatSubpath[] {
+  const subpaths: FlatSubpath[] = []
+  let current: FlatSubpath | null = null
+  let last: Position = { x: 0, y: 0 }
+
+  for (const c of commands) {
+    if (c.type === 'M') {
+      current = { points: [{ x: c.x, y: c.y }], closed: false }
+      subpaths.push(current)
+      last = { x: c.x, y: c.y }
+      continue
+    }
+    if (c.type === 'Z') {
+      if (current) current.closed = true
+      current = null
+      continue
+    }
+    if (!current) {
+      current = { points: [last], closed: false }
+      subpaths.push(current)
+    }
+
+    if (c.type === 'L') {
+      current.points.push({ x: c.x, y: c.y })
+    } else {
+      for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+        const t = i / CURVE_SEGMENTS
+        const u = 1 - t
+        current.points.push(
+          c.type === 'Q'
+            ? {
+                x: u * u * last.x + 2 * u * t * c.x1 + t * t * c.x,
+                y: u * u * last.y + 2 * u * t * c.y1 + t * t * c.y,
+              }
+            : {
+                x: u * u * u * last.x + 3 * u * u * t * c.x1 + 3 * u * t * t * c.x2 + t * t * t * c.x,
+                y: u * u * u * last.y + 3 * u * u * t * c.y1 + 3 * u * t * t * c.y2 + t * t * t * c.y,
+              }
+        )
+      }
+    }
+    last = { x: c.x, y: c.y }
+  }
+
+  return subpaths
+}
+
+/**
+ * Check whether a path has any closed subpath, and so has an inside to fill
+ */
+export function isClosedPath(commands: PathCommand[]): boolean {
+  return commands.some((c) => c.type === 'Z')
+}
+
+/**
+ * Get the distance from a point to a segment
+ */
+function distanceToSegment(point: Position, a: Position, b: Position): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const t =
+    lengthSquared > 0
+      ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+      : 0
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
+
+/**
+ * Check whether a point (in slide coordinates, with the shape's rotation undone)
+ * is on a shape: inside a closed outline, or within `tolerance` of any outline
+ */
+export function isPointInShape(
+  shape: Parameters<typeof getShapeOutline>[0],
+  point: Position,
+  tolerance = 0
+): boolean {
+  const subpaths = flattenPath(getShapeOutline(shape))
+  let inside = false
+
+  for (const { points, closed } of subpaths) {
+    const segmentCount = closed ? points.length : points.length - 1
+    for (let i = 0; i < segmentCount; i++) {
+      const a = points[i]
+      const b = points[(i + 1) % points.length]
+      if (!a || !b) continue
+      if (tolerance > 0 && distanceToSegment(point, a, b) <= tolerance) return true
+      // Even-odd crossing test along a horizontal ray
+      if (closed && a.y > point.y !== b.y > point.y) {
+        const crossX = a.x + ((point.y - a.y) * (b.x - a.x)) / (b.y - a.y)
+        if (point.x < crossX) inside = !inside
+      }
+    }
+  }
+
+  return inside
+}
+
+/**
+ * Simplify a stroke with the Ramer–Douglas–Peucker algorithm,
+ * dropping points closer than `tolerance` to the simplified line
+ */
+export function simplifyPoints(points: Position[], tolerance: number): Position[] {
+  if (points.length <= 2) return points
+  const first = points[0]
+  const last = points[points.length - 1]
+  if (!first || !last) return points
+
+  let maxDistance = 0
+  let index = 0
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i]
+    if (!p) continue
+    const distance = distanceToSegment(p, first, last)
+    if (distance > maxDistance) {
+      maxDistance = distance
+      index = i
+    }
+  }
+
+  if (maxDistance <= tolerance) return [first, last]
+  return [
+    ...simplifyPoints(points.slice(0, index + 1), tolerance).slice(0, -1),
+    ...simplifyPoints(points.slice(index), tolerance),
+  ]
+}
+
+/**
+ * Create a freeform shape from the points of a pen stroke (slide coordinates).
+ * The stroke is simplified and smoothed into quadratic curves; a stroke that
+ * ends near its start is closed and filled, other strokes are drawn as open lines.
+ * Returns null for strokes too small to keep.
+ */
+export function createFreeformShape(
+  id: string,
+  stroke: Position[],
+  zIndex: number
+): ShapeElement | null {
+  const points = simplifyPoints(stroke, 1.5)
+  const [first] = points
+  const last = points[points.length - 1]
+  if (!first || !last || points.length < 2) return null
+
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const left = Math.min(...xs)
+  const top = Math.min(...ys)
+  const width = Math.max(...xs) - left
+  const height = Math.max(...ys) - top
+  if (width < 4 && height < 4) return null
+
+  const local = points.map((p) => ({ x: p.x - left, y: p.y - top }))
+  const closed =
+    points.length > 2 && Math.hypot(last.x - first.x, last.y - first.y) <= CLOSE_PATH_DISTANCE
+
+  // Smooth the stroke: curve through each point towards the midpoint of the next segment
+  const commands: PathCommand[] = [{ type: 'M', x: local[0]?.x ?? 0, y: local[0]?.y ?? 0 }]
+  for (let i = 1; i < local.length - 1; i++) {
+    const p = local[i]
+    const n = local[i + 1]
+    if (!p || !n) continue
+    commands.push({ type: 'Q', x1: p.x, y1: p.y, x: (p.x + n.x) / 2, y: (p.y + n.y) / 2 })
+  }
+  const end = local[local.length - 1] ?? { x: 0, y: 0 }
+  commands.push({ type: 'L', x: end.x, y: end.y })
+  if (closed) commands.push({ type: 'Z' })
+
+  // Keep a minimum box size so straight strokes can still be scaled
+  const dimensions = { width: Math.max(width, 1), height: Math.max(height, 1) }
+
+  return {
+    id,
+    type: 'shape',
+    position: { x: left, y: top },
+    dimensions,
+    rotation: 0,
+    zIndex,
+    opacity: 1,
+    locked: false,
+    shapeType: 'path',
+    fillColor: themeColorRef('primary'),
+    strokeColor: themeColorRef('text'),
+    strokeWidth: 2,
+    pathData: serializePathData(commands),
+    pathViewBox: dimensions,
+  }
+}
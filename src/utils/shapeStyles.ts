@@ -0,0 +1,276 @@
+/**
+ * Shape Style Utilities
+ * Provides the fill, stroke and shadow styles of shape elements: gradient stops
+ * and geometry (shared with gradient slide backgrounds), stroke dash patterns,
+ * and shadow colors.
+ *
+ * Everything is computed without a canvas so the renderer, the properties panel
+ * and exporters agree on the same values.
+ */
+
+import type {
+  GradientDirection,
+  GradientStop,
+  Position,
+  PresentationTheme,
+  ShapeElement,
+  ShapeShadow,
+  SlideBackground,
+  StrokeDashStyle,
+  StrokeLineCap,
+  StrokeLineJoin,
+} from '../types/presentation'
+import { resolveThemeColor } from './themeUtils'
+
+/**
+ * Direction of a linear gradient without an explicit direction
+ */
+export const DEFAULT_GRADIENT_DIRECTION: GradientDirection = 'diagonal'
+
+/**
+ * Shadow applied when a shape's shadow is first turned on
+ */
+export const DEFAULT_SHAPE_SHADOW: ShapeShadow = {
+  enabled: true,
+  color: '#000000',
+  opacity: 0.35,
+  blur: 8,
+  offsetX: 4,
+  offsetY: 4,
+}
+
+/**
+ * Minimum number of stops in a gradient
+ */
+export const MIN_GRADIENT_STOPS = 2
+
+/**
+ * Rectangle a gradient is laid out in
+ */
+export interface GradientBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Sort gradient stops by offset, clamping offsets to 0-1
+ */
+function sortStops(stops: GradientStop[]): GradientStop[] {
+  return stops
+    .map((stop) => ({ ...stop, offset: Math.min(1, Math.max(0, stop.offset)) }))
+    .sort((a, b) => a.offset - b.offset)
+}
+
+/**
+ * Get the sorted gradient stops of a shape, defaulting to a fade from its fill color to white
+ */
+export function getShapeGradientStops(
+  shape: Pick<ShapeElement, 'fillColor' | 'gradientStops'>
+): GradientStop[] {
+  if (shape.gradientStops && shape.gradientStops.length >= MIN_GRADIENT_STOPS) {
+    return sortStops(shape.gradientStops)
+  }
+  return [
+    { offset: 0, color: shape.fillColor },
+    { offset: 1, color: '#ffffff' },
+  ]
+}
+
+/**
+ * Get the stops of a gradient slide background from its start and end colors
+ */
+export function getBackgroundGradientStops(background: SlideBackground): GradientStop[] {
+  return [
+    { offset: 0, color: background.gradientStart || '#ffffff' },
+    { offset: 1, color: background.gradientEnd || '#000000' },
+  ]
+}
+
+/**
+ * Get the start and end points of a linear gradient across a rectangle
+ */
+export function getLinearGradientLine(
+  direction: GradientDirection,
+  bounds: GradientBounds
+): { start: Position; end: Position } {
+  const { x, y, width, height } = bounds
+  switch (direction) {
+    case 'horizontal':
+      return { start: { x, y }, end: { x: x + width, y } }
+    case 'vertical':
+      return { start: { x, y }, end: { x, y: y + height } }
+    case 'diagonal':
+      return { start: { x, y }, end: { x: x + width, y: y + height } }
+  }
+}
+
+/**
+ * Get the circle of a radial gradient: centered in the rectangle and reaching its corners
+ */
+export function getRadialGradientCircle(bounds: GradientBounds): {
+  center: Position
+  radius: number
+} {
+  const { x, y, width, height } = bounds
+  return {
+    center: { x: x + width / 2, y: y + height / 2 },
+    radius: Math.hypot(width, height) / 2,
+  }
+}
+
+/**
+ * Parse a #rgb or #rrggbb color into its channels
+ */
+function parseHexColor(color: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim())
+  if (!match?.[1]) return null
+  const hex =
+    match[1].length === 3
+      ? match[1]
+          .split('')
+          .map((c) => c + c)
+          .join('')
+      : match[1]
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number]
+}
+
+/**
+ * Format color channels as a #rrggbb color
+ */
+function toHexColor(channels: number[]): string {
+  return `#${channels.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`
+}
+
+/**
+ * Get the color of a gradient at an offset, blending the surrounding stops.
+ * Theme references are resolved; colors that are not hex fall back to the nearest stop.
+ */
+export function getGradientColorAt(
+  stops: GradientStop[],
+  offset: number,
+  theme: PresentationTheme
+): string {
+  const sorted = sortStops(stops)
+  const after = sorted.findIndex((stop) => stop.offset >= offset)
+  const next = sorted[after === -1 ? sorted.length - 1 : after]
+  const previous = sorted[after > 0 ? after - 1 : 0]
+  if (!previous || !next) return '#ffffff'
+
+  const from = resolveThemeColor(previous.color, theme)
+  const to = resolveThemeColor(next.color, theme)
+  const span = next.offset - previous.offset
+  const t = span > 0 ? Math.min(1, Math.max(0, (offset - previous.offset) / span)) : 0
+  const a = parseHexColor(from)
+  const b = parseHexColor(to)
+  if (!a || !b) return t < 0.5 ? from : to
+  return toHexColor(a.map((channel, i) => channel + ((b[i] ?? channel) - channel) * t))
+}
+
+/**
+ * Add a stop to a gradient in the middle of its widest gap, colored to match the gradient there
+ */
+export function addGradientStop(stops: GradientStop[], theme: PresentationTheme): GradientStop[] {
+  const sorted = sortStops(stops)
+  let offset = 0.5
+  let widest = -1
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = (sorted[i]?.offset ?? 0) - (sorted[i - 1]?.offset ?? 0)
+    if (gap > widest) {
+      widest = gap
+      offset = (sorted[i - 1]?.offset ?? 0) + gap / 2
+    }
+  }
+  return sortStops([...sorted, { offset, color: getGradientColorAt(sorted, offset, theme) }])
+}
+
+/**
+ * Update a gradient stop, clamping its offset to 0-1. Stops keep their order
+ * so a stop being edited doesn't jump around; they are sorted when drawn.
+ */
+export function updateGradientStop(
+  stops: GradientStop[],
+  index: number,
+  updates: Partial<GradientStop>
+): GradientStop[] {
+  return stops.map((stop, i) => {
+    if (i !== index) return stop
+    const updated = { ...stop, ...updates }
+    return { ...updated, offset: Math.min(1, Math.max(0, updated.offset)) }
+  })
+}
+
+/**
+ * Remove a gradient stop, keeping at least two
+ */
+export function removeGradientStop(stops: GradientStop[], index: number): GradientStop[] {
+  if (stops.length <= MIN_GRADIENT_STOPS) return stops
+  return stops.filter((_, i) => i !== index)
+}
+
+/**
+ * Check whether a shape is one of the basic shapes, whose strokes default to
+ * flat caps and mitered corners. Library and freeform outlines have sharp
+ * points, so their strokes default to round caps and joins.
+ */
+function isBasicShape(shape: Pick<ShapeElement, 'shapeType'>): boolean {
+  return ['rectangle', 'circle', 'triangle', 'line'].includes(shape.shapeType)
+}
+
+/**
+ * Get the line cap of a shape's stroke
+ */
+export function getShapeLineCap(
+  shape: Pick<ShapeElement, 'shapeType' | 'strokeLineCap'>
+): StrokeLineCap {
+  return shape.strokeLineCap ?? (isBasicShape(shape) ? 'butt' : 'round')
+}
+
+/**
+ * Get the line join of a shape's stroke
+ */
+export function getShapeLineJoin(
+  shape: Pick<ShapeElement, 'shapeType' | 'strokeLineJoin'>
+): StrokeLineJoin {
+  return shape.strokeLineJoin ?? (isBasicShape(shape) ? 'miter' : 'round')
+}
+
+/**
+ * Get the canvas dash pattern of a stroke style.
+ * Round and square caps extend every dash by half the stroke width at each end,
+ * so dashes are shortened and gaps widened to keep the pattern's proportions.
+ */
+export function getStrokeDashPattern(
+  style: StrokeDashStyle | undefined,
+  strokeWidth: number,
+  lineCap: StrokeLineCap = 'butt'
+): number[] {
+  const w = Math.max(1, strokeWidth)
+  let pattern: number[]
+  switch (style) {
+    case 'dash':
+      pattern = [4 * w, 3 * w]
+      break
+    case 'dot':
+      pattern = [w, w]
+      break
+    case 'dashDot':
+      pattern = [4 * w, 3 * w, w, 3 * w]
+      break
+    default:
+      return []
+  }
+  if (lineCap === 'butt') return pattern
+  return pattern.map((length, i) => (i % 2 === 0 ? Math.max(0, length - w) : length + w))
+}
+
+/**
+ * Get the CSS color of a shadow, with its opacity applied
+ */
+export function getShadowColor(shadow: ShapeShadow, theme: PresentationTheme): string {
+  const color = resolveThemeColor(shadow.color, theme)
+  const channels = parseHexColor(color)
+  const opacity = Math.min(1, Math.max(0, shadow.opacity))
+  return channels ? `rgba(${channels.join(', ')}, ${String(opacity)})` : color
+}
@@ -0,0 +1,406 @@
+/**
+ * Storage adapters for presentation persistence.
+ * An adapter stores each presentation as its own record, with its slides in a
+ * separate record so presentations can be listed without reading their slides,
+ * and stores the images of the asset library one record per asset.
+ *
+ * IndexedDB is used when the browser provides it; otherwise presentations are
+ * kept in localStorage with the same record layout.
+ */
+
+import type { Asset, Presentation, Slide } from '../types/presentation'
+import { getLocalStorageInfo, isLocalStorageAvailable } from './localStorage'
+
+/**
+ * A presentation without its slides, as listed before the slides are loaded
+ */
+export type PresentationSummary = Omit<Presentation, 'slides'>
+
+/**
+ * Interface implemented by every storage backend
+ */
+export interface StorageAdapter {
+  /** Name of the backend, for diagnostics */
+  readonly name: string
+  /** Load every presentation without its slides */
+  loadPresentations: () => Promise<PresentationSummary[]>
+  /** Load the slides of a presentation */
+  loadSlides: (presentationId: string) => Promise<Slide[]>
+  /** Store a presentation and its slides */
+  savePresentation: (presentation: Presentation) => Promise<void>
+  deletePresentation: (presentationId: string) => Promise<void>
+  loadCurrentPresentationId: () => Promise<string | null>
+  saveCurrentPresentationId: (presentationId: string | null) => Promise<void>
+  /** Load the storage format version of the stored presentations, or null before one is saved */
+  loadStorageVersion: () => Promise<number | null>
+  saveStorageVersion: (version: number) => Promise<void>
+  /** Load every asset of the asset library */
+  loadAssets: () => Promise<Asset[]>
+  saveAsset: (asset: Asset) => Promise<void>
+  deleteAsset: (assetId: string) => Promise<void>
+  /** Remove everything the adapter has stored */
+  clear: () => Promise<void>
+}
+
+/**
+ * Storage used by the app and left for it, in bytes
+ */
+export interface StorageInfo {
+  /** Name of the adapter presentations are stored with */
+  backend: string
+  used: number
+  available: number
+  total: number
+}
+
+/**
+ * Split a presentation into its summary and its slides
+ */
+function splitPresentation(presentation: Presentation): {
+  summary: PresentationSummary
+  slides: Slide[]
+} {
+  const { slides, ...summary } = presentation
+  return { summary, slides }
+}
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+/**
+ * Name and version of the IndexedDB database
+ */
+export const INDEXED_DB_NAME = 'presentation-db'
+const INDEXED_DB_VERSION = 1
+
+/**
+ * Object stores of the database
+ */
+const STORES = {
+  PRESENTATIONS: 'presentations',
+  SLIDES: 'slides',
+  ASSETS: 'assets',
+  SETTINGS: 'settings',
+} as const
+
+/**
+ * Keys of the current presentation id and the storage version in the settings store
+ */
+const CURRENT_PRESENTATION_KEY = 'currentPresentationId'
+const STORAGE_VERSION_KEY = 'storageVersion'
+
+/**
+ * Check if IndexedDB is available
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+/**
+ * Wait for an IndexedDB request to succeed
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      resolve(request.result)
+    }
+    request.onerror = () => {
+      reject(request.error ?? new Error('IndexedDB request failed'))
+    }
+  })
+}
+
+/**
+ * Wait for an IndexedDB transaction to commit
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      resolve()
+    }
+    transaction.onerror = () => {
+      reject(transaction.error ?? new Error('IndexedDB transaction failed'))
+    }
+    transaction.onabort = () => {
+      reject(transaction.error ?? new Error('IndexedDB transaction aborted'))
+    }
+  })
+}
+
+/**
+ * Open the database, creating its object stores on first use
+ */
+function openDatabase(factory: IDBFactory, name: string): Promise<IDBDatabase> {
+  const request = factory.open(name, INDEXED_DB_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    if (!db.objectStoreNames.contains(STORES.PRESENTATIONS)) {
+      db.createObjectStore(STORES.PRESENTATIONS, { keyPath: 'id' })
+    }
+    if (!db.objectStoreNames.contains(STORES.SLIDES)) {
+      db.createObjectStore(STORES.SLIDES)
+    }
+    if (!db.objectStoreNames.contains(STORES.ASSETS)) {
+      db.createObjectStore(STORES.ASSETS, { keyPath: 'id' })
+    }
+    if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
+      db.createObjectStore(STORES.SETTINGS)
+    }
+  }
+  return requestResult(request)
+}
+
+/**
+ * Create an adapter that stores presentations in IndexedDB.
+ * Rejects when the database can't be opened (e.g. in private browsing modes).
+ */
+export async function createIndexedDbAdapter(
+  factory: IDBFactory = indexedDB,
+  name = INDEXED_DB_NAME
+): Promise<StorageAdapter> {
+  const db = await openDatabase(factory, name)
+
+  const read = async <T>(store: string, query: (objectStore: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const transaction = db.transaction(store, 'readonly')
+    return (await requestResult(query(transaction.objectStore(store)))) as T
+  }
+
+  const write = async (stores: string[], apply: (transaction: IDBTransaction) => void) => {
+    const transaction = db.transaction(stores, 'readwrite')
+    apply(transaction)
+    await transactionDone(transaction)
+  }
+
+  return {
+    name: 'indexedDB',
+
+    loadPresentations: () =>
+      read<PresentationSummary[]>(STORES.PRESENTATIONS, (store) => store.getAll()),
+
+    loadSlides: async (presentationId) => {
+      const slides = await read<Slide[] | undefined>(STORES.SLIDES, (store) => store.get(presentationId))
+      return slides ?? []
+    },
+
+    savePresentation: (presentation) =>
+      write([STORES.PRESENTATIONS, STORES.SLIDES], (transaction) => {
+        const { summary, slides } = splitPresentation(presentation)
+        transaction.objectStore(STORES.PRESENTATIONS).put(summary)
+        transaction.objectStore(STORES.SLIDES).put(slides, presentation.id)
+      }),
+
+    deletePresentation: (presentationId) =>
+      write([STORES.PRESENTATIONS, STORES.SLIDES], (transaction) => {
+        transaction.objectStore(STORES.PRESENTATIONS).delete(presentationId)
+        transaction.objectStore(STORES.SLIDES).delete(presentationId)
+      }),
+
+    loadCurrentPresentationId: async () => {
+      const id = await read<unknown>(STORES.SETTINGS, (store) => store.get(CURRENT_PRESENTATION_KEY))
+      return typeof id === 'string' ? id : null
+    },
+
+    saveCurrentPresentationId: (presentationId) =>
+      write([STORES.SETTINGS], (transaction) => {
+        transaction.objectStore(STORES.SETTINGS).put(presentationId, CURRENT_PRESENTATION_KEY)
+      }),
+
+    loadStorageVersion: async () => {
+      const version = await read<unknown>(STORES.SETTINGS, (store) => store.get(STORAGE_VERSION_KEY))
+      return typeof version === 'number' ? version : null
+    },
+
+    saveStorageVersion: (version) =>
+      write([STORES.SETTINGS], (transaction) => {
+        transaction.objectStore(STORES.SETTINGS).put(version, STORAGE_VERSION_KEY)
+      }),
+
+    loadAssets: () => read<Asset[]>(STORES.ASSETS, (store) => store.getAll()),
+
+    saveAsset: (asset) =>
+      write([STORES.ASSETS], (transaction) => {
+        transaction.objectStore(STORES.ASSETS).put(asset)
+      }),
+
+    deleteAsset: (assetId) =>
+      write([STORES.ASSETS], (transaction) => {
+        transaction.objectStore(STORES.ASSETS).delete(assetId)
+      }),
+
+    clear: () =>
+      write(Object.values(STORES), (transaction) => {
+        for (const store of Object.values(STORES)) {
+          transaction.objectStore(store).clear()
+        }
+      }),
+  }
+}
+
+// ============================================================================
+// localStorage
+// ============================================================================
+
+/**
+ * Prefix of the localStorage keys used by the localStorage adapter
+ */
+export const LOCAL_STORAGE_RECORD_PREFIX = 'presentation-records'
+
+/**
+ * Run a synchronous storage operation as a promise, rejecting when it throws
+ */
+function runSync<T>(operation: () => T): Promise<T> {
+  try {
+    return Promise.resolve(operation())
+  } catch (error) {
+    return Promise.reject(error instanceof Error ? error : new Error(String(error)))
+  }
+}
+
+/**
+ * Create an adapter that stores presentations in localStorage, one key per record.
+ * Writes that exceed the quota reject, so callers can report them.
+ */
+export function createLocalStorageAdapter(prefix = LOCAL_STORAGE_RECORD_PREFIX): StorageAdapter {
+  const keys = {
+    presentations: `${prefix}:presentations`,
+    current: `${prefix}:current`,
+    version: `${prefix}:version`,
+    assets: `${prefix}:assets`,
+    slides: (presentationId: string) => `${prefix}:slides:${presentationId}`,
+    asset: (assetId: string) => `${prefix}:asset:${assetId}`,
+  }
+
+  const readJson = (key: string): unknown => {
+    const raw = localStorage.getItem(key)
+    return raw === null ? null : JSON.parse(raw)
+  }
+
+  const writeJson = (key: string, value: unknown) => {
+    localStorage.setItem(key, JSON.stringify(value))
+  }
+
+  const loadSummaries = () => readJson(keys.presentations) as PresentationSummary[] | null
+  const loadAssetIds = () => readJson(keys.assets) as string[] | null
+
+  return {
+    name: 'localStorage',
+
+    loadPresentations: () => runSync(() => loadSummaries() ?? []),
+
+    loadSlides: (presentationId) =>
+      runSync(() => (readJson(keys.slides(presentationId)) as Slide[] | null) ?? []),
+
+    savePresentation: (presentation) =>
+      runSync(() => {
+        const { summary, slides } = splitPresentation(presentation)
+        writeJson(keys.slides(presentation.id), slides)
+        const summaries = loadSummaries() ?? []
+        writeJson(
+          keys.presentations,
+          summaries.some((p) => p.id === presentation.id)
+            ? summaries.map((p) => (p.id === presentation.id ? summary : p))
+            : [...summaries, summary]
+        )
+      }),
+
+    deletePresentation: (presentationId) =>
+      runSync(() => {
+        localStorage.removeItem(keys.slides(presentationId))
+        const summaries = loadSummaries() ?? []
+        writeJson(keys.presentations, summaries.filter((p) => p.id !== presentationId))
+      }),
+
+    loadCurrentPresentationId: () => runSync(() => readJson(keys.current) as string | null),
+
+    saveCurrentPresentationId: (presentationId) =>
+      runSync(() => {
+        writeJson(keys.current, presentationId)
+      }),
+
+    loadStorageVersion: () => runSync(() => readJson(keys.version) as number | null),
+
+    saveStorageVersion: (version) =>
+      runSync(() => {
+        writeJson(keys.version, version)
+      }),
+
+    loadAssets: () =>
+      runSync(() =>
+        (loadAssetIds() ?? [])
+          .map((id) => readJson(keys.asset(id)) as Asset | null)
+          .filter((asset) => asset !== null)
+      ),
+
+    saveAsset: (asset) =>
+      runSync(() => {
+        writeJson(keys.asset(asset.id), asset)
+        const ids = loadAssetIds() ?? []
+        if (!ids.includes(asset.id)) writeJson(keys.assets, [...ids, asset.id])
+      }),
+
+    deleteAsset: (assetId) =>
+      runSync(() => {
+        localStorage.removeItem(keys.asset(assetId))
+        writeJson(keys.assets, (loadAssetIds() ?? []).filter((id) => id !== assetId))
+      }),
+
+    clear: () =>
+      runSync(() => {
+        const stored: string[] = []
+        for (let i = 0; i < localStorage.length; i++) {
+          const key = localStorage.key(i)
+          if (key?.startsWith(`${prefix}:`)) stored.push(key)
+        }
+        stored.forEach((key) => {
+          localStorage.removeItem(key)
+        })
+      }),
+  }
+}
+
+// ============================================================================
+// Adapter selection
+// ============================================================================
+
+let adapterPromise: Promise<StorageAdapter> | null = null
+
+/**
+ * Get the storage adapter of the app: IndexedDB when it can be opened, localStorage otherwise.
+ * The adapter is opened once and shared by every store.
+ */
+export function getStorageAdapter(): Promise<StorageAdapter> {
+  adapterPromise ??= (async () => {
+    if (isIndexedDbAvailable()) {
+      try {
+        return await createIndexedDbAdapter()
+      } catch (error) {
+        console.warn('IndexedDB is unavailable, falling back to localStorage:', error)
+      }
+    }
+    if (!isLocalStorageAvailable()) {
+      throw new Error('No storage is available')
+    }
+    return createLocalStorageAdapter()
+  })()
+  return adapterPromise
+}
+
+/**
+ * Get how much storage the adapter of the app uses. IndexedDB shares the quota the
+ * browser gives the site, so its usage is the estimate for the site; localStorage is
+ * measured by its content, as UTF-16 characters of two bytes each.
+ */
+export async function getStorageInfo(
+  getAdapter: () => Promise<StorageAdapter> = getStorageAdapter
+): Promise<StorageInfo> {
+  const { name } = await getAdapter()
+  if (name === 'localStorage') {
+    const { used, available, total } = getLocalStorageInfo()
+    return { backend: name, used: used * 2, available: available * 2, total: total * 2 }
+  }
+
+  // navigator.storage is missing in insecure contexts
+  const { usage = 0, quota = 0 } = (await navigator.storage?.estimate()) ?? {}
+  return { backend: name, used: usage, available: Math.max(0, quota - usage), total: quota }
+}
@@ -0,0 +1,277 @@
+/**
+ * Storage Schema Migrations
+ * Upgrades presentations saved or exported by earlier versions of the app to the
+ * current storage format, one version at a time.
+ *
+ * Each migration upgrades documents from the version before it to its own version.
+ * Documents without a version predate versioning and start at version 0. Migrations
+ * only fill in or correct what is missing or invalid, so running one on a document
+ * that is already up to date leaves it unchanged.
+ */
+
+import type { Presentation } from '../types/presentation'
+import {
+  DEFAULT_SLIDE_BACKGROUND,
+  DEFAULT_SLIDE_TRANSITION,
+  DEFAULT_THEME,
+} from '../types/presentation'
+import { countParagraphs, PLAIN_PARAGRAPH } from './textLists'
+
+/**
+ * Current version of the storage format
+ */
+export const CURRENT_STORAGE_VERSION = 3
+
+/**
+ * A presentation as stored by some version of the app, before it is migrated
+ */
+type StoredDocument = Record<string, unknown>
+
+/**
+ * A step upgrading documents to the next storage version
+ */
+export interface StorageMigration {
+  /** Version the migration upgrades documents to */
+  version: number
+  /** What the migration changes, as shown in migration reports */
+  description: string
+  /** Upgrade one presentation, returning it unchanged when there is nothing to do */
+  migrate: (presentation: StoredDocument) => StoredDocument
+}
+
+/**
+ * A migration applied while upgrading a set of presentations
+ */
+export interface AppliedMigration {
+  version: number
+  description: string
+  /** Number of presentations the migration changed */
+  changedCount: number
+}
+
+/**
+ * Report of upgrading a set of presentations to the current storage version
+ */
+export interface MigrationReport {
+  fromVersion: number
+  toVersion: number
+  /** Migrations that changed at least one presentation */
+  applied: AppliedMigration[]
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isRecord(value: unknown): value is StoredDocument {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Add the fields a record is missing, returning it unchanged when it has them all
+ */
+function withDefaults(record: StoredDocument, defaults: StoredDocument): StoredDocument {
+  const missing = Object.keys(defaults).filter((key) => record[key] === undefined)
+  if (missing.length === 0) return record
+  return { ...record, ...Object.fromEntries(missing.map((key) => [key, defaults[key]])) }
+}
+
+/**
+ * Apply a function to every slide of a presentation, keeping it unchanged when no slide changes
+ */
+function mapSlides(
+  presentation: StoredDocument,
+  map: (slide: StoredDocument) => StoredDocument
+): StoredDocument {
+  const slides = presentation['slides']
+  if (!Array.isArray(slides)) return presentation
+  const mapped = slides.map((slide: unknown) => (isRecord(slide) ? map(slide) : slide))
+  return mapped.some((slide, i) => slide !== slides[i])
+    ? { ...presentation, slides: mapped }
+    : presentation
+}
+
+/**
+ * Apply a function to every element of a slide, keeping it unchanged when no element changes
+ */
+function mapElements(
+  slide: StoredDocument,
+  map: (element: StoredDocument, index: number) => StoredDocument
+): StoredDocument {
+  const elements = slide['elements']
+  if (!Array.isArray(elements)) return slide
+  const mapped = elements.map((element: unknown, i) => (isRecord(element) ? map(element, i) : element))
+  return mapped.some((element, i) => element !== elements[i]) ? { ...slide, elements: mapped } : slide
+}
+
+/**
+ * Version 1: fill in the fields that presentations, slides and elements have had since
+ * the storage format was versioned, which unversioned documents may lack
+ */
+function addRequiredFields(presentation: StoredDocument): StoredDocument {
+  const timestamp = typeof presentation['createdAt'] === 'string' ? presentation['createdAt'] : ''
+  const withFields = withDefaults(presentation, {
+    description: '',
+    theme: { ...DEFAULT_THEME },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+
+  return mapSlides(withFields, (slide) =>
+    mapElements(
+      withDefaults(slide, {
+        title: 'Untitled Slide',
+        background: { ...DEFAULT_SLIDE_BACKGROUND },
+        transition: { ...DEFAULT_SLIDE_TRANSITION },
+        notes: '',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      }),
+      (element, index) =>
+        withDefaults(element, { rotation: 0, zIndex: index, opacity: 1, locked: false })
+    )
+  )
+}
+
+/**
+ * Supported transition types and duration range
+ */
+const TRANSITION_TYPES = ['none', 'fade', 'slide', 'zoom']
+const MIN_TRANSITION_DURATION = 100
+const MAX_TRANSITION_DURATION = 2000
+
+/**
+ * Version 2: replace unknown transition types with no transition, and keep durations
+ * within the range presentation mode plays
+ */
+function normalizeTransitions(presentation: StoredDocument): StoredDocument {
+  return mapSlides(presentation, (slide) => {
+    const transition = isRecord(slide['transition']) ? slide['transition'] : {}
+    const type = transition['type']
+    const duration = transition['duration']
+    const normalized = {
+      type:
+        typeof type === 'string' && TRANSITION_TYPES.includes(type)
+          ? type
+          : DEFAULT_SLIDE_TRANSITION.type,
+      duration:
+        typeof duration === 'number' && Number.isFinite(duration)
+          ? Math.min(MAX_TRANSITION_DURATION, Math.max(MIN_TRANSITION_DURATION, duration))
+          : DEFAULT_SLIDE_TRANSITION.duration,
+    }
+    if (normalized.type === type && normalized.duration === duration) return slide
+    return { ...slide, transition: { ...transition, ...normalized } }
+  })
+}
+
+/**
+ * Version 3: make the plain `content` of text elements match their formatted runs,
+ * and give them one paragraph format per line
+ */
+function syncTextContent(presentation: StoredDocument): StoredDocument {
+  return mapSlides(presentation, (slide) =>
+    mapElements(slide, (element) => {
+      if (element['type'] !== 'text') return element
+      let result = element
+
+      const runs = element['runs']
+      if (Array.isArray(runs) && runs.length > 0) {
+        const texts = runs.map((run: unknown) =>
+          isRecord(run) && typeof run['text'] === 'string' ? run['text'] : null
+        )
+        if (texts.includes(null)) {
+          // Runs that can't be read are dropped, keeping the plain content
+          result = Object.fromEntries(Object.entries(result).filter(([key]) => key !== 'runs'))
+        } else if (texts.join('') !== element['content']) {
+          result = { ...result, content: texts.join('') }
+        }
+      }
+      if (typeof result['content'] !== 'string') result = { ...result, content: '' }
+
+      const paragraphs = result['paragraphs']
+      if (Array.isArray(paragraphs)) {
+        const count = countParagraphs(result['content'] as string)
+        if (paragraphs.length !== count) {
+          result = {
+            ...result,
+            paragraphs: Array.from({ length: count }, (_, i) =>
+              isRecord(paragraphs[i]) ? paragraphs[i] : PLAIN_PARAGRAPH
+            ),
+          }
+        }
+      }
+      return result
+    })
+  )
+}
+
+/**
+ * Registry of migrations, in version order. Add a migration here, and a fixture of the
+ * version it upgrades from to the tests, whenever the storage format changes.
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Added missing slide and element fields',
+    migrate: addRequiredFields,
+  },
+  {
+    version: 2,
+    description: 'Normalized slide transitions',
+    migrate: normalizeTransitions,
+  },
+  {
+    version: 3,
+    description: 'Synced text content with its formatting',
+    migrate: syncTextContent,
+  },
+]
+
+/**
+ * Get the storage version of a saved document, treating documents without one as version 0
+ */
+export function getStorageVersion(version: unknown): number {
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0
+}
+
+/**
+ * Upgrade presentations from a storage version to the current one.
+ * Documents from a newer version are returned as they are.
+ */
+export function migratePresentations(
+  presentations: unknown[],
+  fromVersion: number,
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): { presentations: Presentation[]; report: MigrationReport } {
+  let documents = presentations
+  const applied: AppliedMigration[] = []
+
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue
+    const migrated = documents.map((document) =>
+      isRecord(document) ? migration.migrate(document) : document
+    )
+    const changedCount = migrated.filter((document, i) => document !== documents[i]).length
+    if (changedCount > 0) {
+      applied.push({ version: migration.version, description: migration.description, changedCount })
+    }
+    documents = migrated
+  }
+
+  return {
+    presentations: documents as Presentation[],
+    report: {
+      fromVersion,
+      toVersion: Math.max(fromVersion, CURRENT_STORAGE_VERSION),
+      applied,
+    },
+  }
+}
+
+/**
+ * Describe a migration report for notifications, or return null when nothing was migrated
+ */
+export function describeMigration(report: MigrationReport): string | null {
+  if (report.applied.length === 0) return null
+  const steps = report.applied.map((migration) => migration.description.toLowerCase()).join(', ')
+  return `Upgraded from format version ${String(report.fromVersion)}: ${steps}.`
+}
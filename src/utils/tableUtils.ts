@@ -0,0 +1,609 @@
+/**
+ * Table Utilities
+ * Provides functions for table elements: creation, cell geometry and hit testing,
+ * row and column insertion and deletion, and merging cells.
+ *
+ * Tables store a full grid of cells. A merged cell spans rows and columns from its
+ * top-left position and the cells it covers stay in the grid, empty and hidden,
+ * so every row always has one entry per column.
+ */
+
+import type {
+  Position,
+  TableCell,
+  TableElement,
+  TextElement,
+} from '../types/presentation'
+import type { TableCellPosition } from '../types/editor'
+import { THEME_FONT_TOKEN } from '../types/presentation'
+import { themeColorRef } from './themeUtils'
+
+/**
+ * Rows and columns of a newly inserted table
+ */
+export const DEFAULT_TABLE_ROWS = 3
+export const DEFAULT_TABLE_COLUMNS = 3
+
+/**
+ * Space between a cell's border and its text
+ */
+export const TABLE_CELL_PADDING = 6
+
+/**
+ * Size of a cell in a newly inserted table
+ */
+const DEFAULT_CELL_WIDTH = 120
+const DEFAULT_CELL_HEIGHT = 40
+
+/**
+ * Rectangular block of cells, inclusive on all sides
+ */
+export interface TableCellRange {
+  top: number
+  left: number
+  bottom: number
+  right: number
+}
+
+/**
+ * A visible cell with its placement, relative to the table's top-left corner
+ */
+export interface TableCellRect {
+  row: number
+  col: number
+  rowSpan: number
+  colSpan: number
+  x: number
+  y: number
+  width: number
+  height: number
+  cell: TableCell
+}
+
+/**
+ * Create an empty cell
+ */
+function createEmptyCell(): TableCell {
+  return { content: '' }
+}
+
+/**
+ * Create a table element with empty cells, a header row and theme colors
+ */
+export function createTableElement(
+  id: string,
+  position: Position,
+  zIndex: number,
+  rows: number = DEFAULT_TABLE_ROWS,
+  columns: number = DEFAULT_TABLE_COLUMNS
+): TableElement {
+  return {
+    id,
+    type: 'table',
+    position,
+    dimensions: { width: columns * DEFAULT_CELL_WIDTH, height: rows * DEFAULT_CELL_HEIGHT },
+    rotation: 0,
+    zIndex,
+    opacity: 1,
+    locked: false,
+    cells: Array.from({ length: rows }, () => Array.from({ length: columns }, createEmptyCell)),
+    columnWidths: Array.from({ length: columns }, () => 1 / columns),
+    rowHeights: Array.from({ length: rows }, () => 1 / rows),
+    headerRow: true,
+    headerFillColor: themeColorRef('primary'),
+    headerTextColor: themeColorRef('background'),
+    fillColor: themeColorRef('background'),
+    textColor: themeColorRef('text'),
+    fontSize: 16,
+    fontFamily: THEME_FONT_TOKEN,
+    textAlign: 'left',
+    borderStyle: 'all',
+    borderColor: themeColorRef('secondary'),
+    borderWidth: 1,
+  }
+}
+
+/**
+ * Get the number of rows of a table
+ */
+export function getRowCount(table: Pick<TableElement, 'cells'>): number {
+  return table.cells.length
+}
+
+/**
+ * Get the number of columns of a table
+ */
+export function getColumnCount(table: Pick<TableElement, 'cells'>): number {
+  return table.cells[0]?.length ?? 0
+}
+
+/**
+ * Get the cell at a grid position
+ */
+function getCell(table: Pick<TableElement, 'cells'>, row: number, col: number): TableCell | undefined {
+  return table.cells[row]?.[col]
+}
+
+/**
+ * Get the offsets of the grid lines for relative sizes scaled to a total length
+ */
+function getGridOffsets(weights: number[], total: number): number[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0) || 1
+  const offsets = [0]
+  let offset = 0
+  for (const weight of weights) {
+    offset += (weight / sum) * total
+    offsets.push(offset)
+  }
+  return offsets
+}
+
+/**
+ * Get the top-left cell of the merged cell covering a grid position.
+ * Positions outside any merged cell are their own anchor.
+ */
+export function getCellAnchor(
+  table: Pick<TableElement, 'cells'>,
+  row: number,
+  col: number
+): TableCellPosition {
+  for (let r = row; r >= 0; r--) {
+    for (let c = col; c >= 0; c--) {
+      const cell = getCell(table, r, c)
+      if (
+        cell &&
+        r + (cell.rowSpan ?? 1) > row &&
+        c + (cell.colSpan ?? 1) > col &&
+        !isCovered(table, r, c)
+      ) {
+        return { row: r, col: c }
+      }
+    }
+  }
+  return { row, col }
+}
+
+/**
+ * Check whether a grid position is hidden under another merged cell
+ */
+export function isCovered(table: Pick<TableElement, 'cells'>, row: number, col: number): boolean {
+  for (let r = 0; r <= row; r++) {
+    for (let c = 0; c <= col; c++) {
+      if (r === row && c === col) continue
+      const cell = getCell(table, r, c)
+      if (cell && r + (cell.rowSpan ?? 1) > row && c + (cell.colSpan ?? 1) > col) {
+        return true
+      }
+    }
+  }
+  return false
+}
+
+/**
+ * Get the visible cells of a table with their placement, scaled to the table's size
+ */
+export function getCellRects(table: TableElement): TableCellRect[] {
+  const xs = getGridOffsets(table.columnWidths, table.dimensions.width)
+  const ys = getGridOffsets(table.rowHeights, table.dimensions.height)
+  const rects: TableCellRect[] = []
+
+  table.cells.forEach((cells, row) => {
+    cells.forEach((cell, col) => {
+      if (isCovered(table, row, col)) return
+      const rowSpan = Math.min(cell.rowSpan ?? 1, getRowCount(table) - row)
+      const colSpan = Math.min(cell.colSpan ?? 1, getColumnCount(table) - col)
+      const x = xs[col] ?? 0
+      const y = ys[row] ?? 0
+      rects.push({
+        row,
+        col,
+        rowSpan,
+        colSpan,
+        x,
+        y,
+        width: (xs[col + colSpan] ?? x) - x,
+        height: (ys[row + rowSpan] ?? y) - y,
+        cell,
+      })
+    })
+  })
+
+  return rects
+}
+
+/**
+ * Get the visible cell under a point in slide coordinates, taking rotation into account
+ */
+export function getCellAtPoint(table: TableElement, point: Position): TableCellPosition | null {
+  const { position, dimensions, rotation } = table
+  const centerX = position.x + dimensions.width / 2
+  const centerY = position.y + dimensions.height / 2
+  const angle = (-rotation * Math.PI) / 180
+  const dx = point.x - centerX
+  const dy = point.y - centerY
+  const localX = dx * Math.cos(angle) - dy * Math.sin(angle) + centerX - position.x
+  const localY = dx * Math.sin(angle) + dy * Math.cos(angle) + centerY - position.y
+
+  const rect = getCellRects(table).find(
+    (r) => localX >= r.x && localX <= r.x + r.width && localY >= r.y && localY <= r.y + r.height
+  )
+  return rect ? { row: rect.row, col: rect.col } : null
+}
+
+/**
+ * Get the block of cells between two positions, grown to fully contain any merged cells it touches
+ */
+export function getCellRange(
+  table: Pick<TableElement, 'cells'>,
+  from: TableCellPosition,
+  to: TableCellPosition
+): TableCellRange {
+  const range: TableCellRange = {
+    top: Math.min(from.row, to.row),
+    left: Math.min(from.col, to.col),
+    bottom: Math.max(from.row, to.row),
+    right: Math.max(from.col, to.col),
+  }
+
+  // Grow until no merged cell crosses the range boundary
+  let changed = true
+  while (changed) {
+    changed = false
+    for (let row = range.top; row <= range.bottom; row++) {
+      for (let col = range.left; col <= range.right; col++) {
+        const anchor = getCellAnchor(table, row, col)
+        const cell = getCell(table, anchor.row, anchor.col)
+        const bottom = anchor.row + (cell?.rowSpan ?? 1) - 1
+        const right = anchor.col + (cell?.colSpan ?? 1) - 1
+        if (
+          anchor.row < range.top ||
+          anchor.col < range.left ||
+          bottom > range.bottom ||
+          right > range.right
+        ) {
+          range.top = Math.min(range.top, anchor.row)
+          range.left = Math.min(range.left, anchor.col)
+          range.bottom = Math.max(range.bottom, bottom)
+          range.right = Math.max(range.right, right)
+          changed = true
+        }
+      }
+    }
+  }
+
+  return range
+}
+
+/**
+ * Get the area covered by a block of cells, relative to the table's top-left corner
+ */
+export function getCellRangeRect(
+  table: TableElement,
+  range: TableCellRange
+): { x: number; y: number; width: number; height: number } {
+  const xs = getGridOffsets(table.columnWidths, table.dimensions.width)
+  const ys = getGridOffsets(table.rowHeights, table.dimensions.height)
+  const x = xs[range.left] ?? 0
+  const y = ys[range.top] ?? 0
+  return {
+    x,
+    y,
+    width: (xs[range.right + 1] ?? x) - x,
+    height: (ys[range.bottom + 1] ?? y) - y,
+  }
+}
+
+/**
+ * Set the text of a cell
+ */
+export function setCellContent(
+  table: Pick<TableElement, 'cells'>,
+  row: number,
+  col: number,
+  content: string
+): Pick<TableElement, 'cells'> {
+  return {
+    cells: table.cells.map((cells, r) =>
+      r === row ? cells.map((cell, c) => (c === col ? { ...cell, content } : cell)) : cells
+    ),
+  }
+}
+
+/**
+ * Insert a weight at an index, giving it an equal share and scaling the others down
+ */
+function insertWeight(weights: number[], index: number): number[] {
+  const share = 1 / (weights.length + 1)
+  const sum = weights.reduce((acc, weight) => acc + weight, 0) || 1
+  const scaled = weights.map((weight) => (weight / sum) * (1 - share))
+  scaled.splice(index, 0, share)
+  return scaled
+}
+
+/**
+ * Remove a weight and renormalize the rest
+ */
+function removeWeight(weights: number[], index: number): number[] {
+  const remaining = weights.filter((_, i) => i !== index)
+  const sum = remaining.reduce((acc, weight) => acc + weight, 0) || 1
+  return remaining.map((weight) => weight / sum)
+}
+
+/**
+ * Swap rows and columns of a cell grid, including cell spans
+ */
+function transposeCells(cells: TableCell[][]): TableCell[][] {
+  const columns = cells[0]?.length ?? 0
+  return Array.from({ length: columns }, (_, col) =>
+    cells.map((row) => {
+      const cell = row[col] ?? createEmptyCell()
+      const { rowSpan, colSpan, ...rest } = cell
+      return {
+        ...rest,
+        ...(colSpan !== undefined && { rowSpan: colSpan }),
+        ...(rowSpan !== undefined && { colSpan: rowSpan }),
+      }
+    })
+  )
+}
+
+/**
+ * Set the number of rows a cell spans, leaving single-row cells without a span
+ */
+function withRowSpan(cell: TableCell, rowSpan: number): TableCell {
+  const { rowSpan: _rowSpan, ...rest } = cell
+  return rowSpan > 1 ? { ...rest, rowSpan } : rest
+}
+
+/**
+ * Insert an empty row into a cell grid before `index`.
+ * Merged cells crossing the insertion point grow to span the new row.
+ */
+function insertRowCells(cells: TableCell[][], index: number): TableCell[][] {
+  const table = { cells }
+  const columns = getColumnCount(table)
+  const result = cells.map((row, r) =>
+    row.map((cell) => {
+      const rowSpan = cell.rowSpan ?? 1
+      return r < index && r + rowSpan > index ? withRowSpan(cell, rowSpan + 1) : cell
+    })
+  )
+  result.splice(index, 0, Array.from({ length: columns }, createEmptyCell))
+  return result
+}
+
+/**
+ * Remove a row from a cell grid.
+ * Merged cells crossing the row shrink; merged cells starting on it move down a row.
+ */
+function deleteRowCells(cells: TableCell[][], index: number): TableCell[][] {
+  const result = cells.map((row, r) =>
+    row.map((cell, c) => {
+      const rowSpan = cell.rowSpan ?? 1
+      if (r < index && r + rowSpan > index) {
+        return withRowSpan(cell, rowSpan - 1)
+      }
+      // The cell below a merged cell on the deleted row takes over its content and span
+      if (r === index + 1) {
+        const above = cells[index]?.[c]
+        if (above && (above.rowSpan ?? 1) > 1) {
+          return withRowSpan(above, (above.rowSpan ?? 1) - 1)
+        }
+      }
+      return cell
+    })
+  )
+  result.splice(index, 1)
+  return result
+}
+
+/**
+ * Get the share of the total taken by one weight
+ */
+function getWeightShare(weights: number[], index: number): number {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0) || 1
+  return (weights[index] ?? 0) / sum
+}
+
+/**
+ * Insert an empty row before `index`.
+ * The table grows by an average row so existing rows keep their height.
+ */
+export function insertRow(
+  table: TableElement,
+  index: number
+): Pick<TableElement, 'cells' | 'rowHeights' | 'dimensions'> {
+  const rows = getRowCount(table)
+  const at = Math.max(0, Math.min(index, rows))
+  return {
+    cells: insertRowCells(table.cells, at),
+    rowHeights: insertWeight(table.rowHeights, at),
+    dimensions: {
+      ...table.dimensions,
+      height: (table.dimensions.height * (rows + 1)) / Math.max(1, rows),
+    },
+  }
+}
+
+/**
+ * Delete the row at `index`, shrinking the table by the row's height.
+ * A table always keeps at least one row.
+ */
+export function deleteRow(
+  table: TableElement,
+  index: number
+): Pick<TableElement, 'cells' | 'rowHeights' | 'dimensions'> {
+  const { cells, rowHeights, dimensions } = table
+  if (getRowCount(table) <= 1 || index < 0 || index >= getRowCount(table)) {
+    return { cells, rowHeights, dimensions }
+  }
+  return {
+    cells: deleteRowCells(cells, index),
+    rowHeights: removeWeight(rowHeights, index),
+    dimensions: {
+      ...dimensions,
+      height: dimensions.height * (1 - getWeightShare(rowHeights, index)),
+    },
+  }
+}
+
+/**
+ * Insert an empty column before `index`.
+ * The table grows by an average column so existing columns keep their width.
+ */
+export function insertColumn(
+  table: TableElement,
+  index: number
+): Pick<TableElement, 'cells' | 'columnWidths' | 'dimensions'> {
+  const columns = getColumnCount(table)
+  const at = Math.max(0, Math.min(index, columns))
+  return {
+    cells: transposeCells(insertRowCells(transposeCells(table.cells), at)),
+    columnWidths: insertWeight(table.columnWidths, at),
+    dimensions: {
+      ...table.dimensions,
+      width: (table.dimensions.width * (columns + 1)) / Math.max(1, columns),
+    },
+  }
+}
+
+/**
+ * Delete the column at `index`, shrinking the table by the column's width.
+ * A table always keeps at least one column.
+ */
+export function deleteColumn(
+  table: TableElement,
+  index: number
+): Pick<TableElement, 'cells' | 'columnWidths' | 'dimensions'> {
+  const { cells, columnWidths, dimensions } = table
+  if (getColumnCount(table) <= 1 || index < 0 || index >= getColumnCount(table)) {
+    return { cells, columnWidths, dimensions }
+  }
+  return {
+    cells: transposeCells(deleteRowCells(transposeCells(cells), index)),
+    columnWidths: removeWeight(columnWidths, index),
+    dimensions: {
+      ...dimensions,
+      width: dimensions.width * (1 - getWeightShare(columnWidths, index)),
+    },
+  }
+}
+
+/**
+ * Check whether a range covers more than one visible cell and can be merged
+ */
+export function canMergeCells(table: Pick<TableElement, 'cells'>, range: TableCellRange): boolean {
+  const anchor = getCell(table, range.top, range.left)
+  return (
+    (range.bottom > range.top || range.right > range.left) &&
+    ((anchor?.rowSpan ?? 1) !== range.bottom - range.top + 1 ||
+      (anchor?.colSpan ?? 1) !== range.right - range.left + 1)
+  )
+}
+
+/**
+ * Merge a block of cells into its top-left cell, joining the text of the merged cells
+ */
+export function mergeCells(
+  table: Pick<TableElement, 'cells'>,
+  range: TableCellRange
+): Pick<TableElement, 'cells'> {
+  const contents: string[] = []
+  for (let row = range.top; row <= range.bottom; row++) {
+    for (let col = range.left; col <= range.right; col++) {
+      const content = getCell(table, row, col)?.content ?? ''
+      if (content) contents.push(content)
+    }
+  }
+
+  return {
+    cells: table.cells.map((cells, row) =>
+      cells.map((cell, col) => {
+        if (row < range.top || row > range.bottom || col < range.left || col > range.right) {
+          return cell
+        }
+        if (row === range.top && col === range.left) {
+          const { rowSpan: _rowSpan, colSpan: _colSpan, ...rest } = cell
+          const rowSpan = range.bottom - range.top + 1
+          const colSpan = range.right - range.left + 1
+          return {
+            ...rest,
+            content: contents.join('\n'),
+            ...(rowSpan > 1 && { rowSpan }),
+            ...(colSpan > 1 && { colSpan }),
+          }
+        }
+        return createEmptyCell()
+      })
+    ),
+  }
+}
+
+/**
+ * Split a merged cell back into single cells; the text stays in the top-left cell
+ */
+export function unmergeCell(
+  table: Pick<TableElement, 'cells'>,
+  row: number,
+  col: number
+): Pick<TableElement, 'cells'> {
+  const anchor = getCellAnchor(table, row, col)
+  return {
+    cells: table.cells.map((cells, r) =>
+      cells.map((cell, c) => {
+        if (r !== anchor.row || c !== anchor.col) return cell
+        const { rowSpan: _rowSpan, colSpan: _colSpan, ...rest } = cell
+        return rest
+      })
+    ),
+  }
+}
+
+/**
+ * Check whether the cell at a position is merged with others
+ */
+export function isMergedCell(table: Pick<TableElement, 'cells'>, row: number, col: number): boolean {
+  const anchor = getCellAnchor(table, row, col)
+  const cell = getCell(table, anchor.row, anchor.col)
+  return (cell?.rowSpan ?? 1) > 1 || (cell?.colSpan ?? 1) > 1
+}
+
+/**
+ * Get the fill of a cell: its own fill, or the header or body fill of the table
+ */
+export function getCellFillColor(table: TableElement, rect: Pick<TableCellRect, 'row' | 'cell'>): string {
+  const isHeader = table.headerRow && rect.row === 0
+  return rect.cell.fillColor ?? (isHeader ? table.headerFillColor : table.fillColor)
+}
+
+/**
+ * Build the text element for a cell's text, for laying it out with the text layout engine.
+ * The text box is the cell inset by the cell padding; header cells are bold.
+ */
+export function getCellTextElement(table: TableElement, rect: TableCellRect): TextElement {
+  const isHeader = table.headerRow && rect.row === 0
+  return {
+    id: `${table.id}-cell-${String(rect.row)}-${String(rect.col)}`,
+    type: 'text',
+    position: {
+      x: table.position.x + rect.x + TABLE_CELL_PADDING,
+      y: table.position.y + rect.y + TABLE_CELL_PADDING,
+    },
+    dimensions: {
+      width: Math.max(0, rect.width - TABLE_CELL_PADDING * 2),
+      height: Math.max(0, rect.height - TABLE_CELL_PADDING * 2),
+    },
+    rotation: 0,
+    zIndex: table.zIndex,
+    opacity: 1,
+    locked: false,
+    content: rect.cell.content,
+    fontSize: table.fontSize,
+    fontFamily: table.fontFamily,
+    fontWeight: isHeader ? 'bold' : 'normal',
+    fontStyle: 'normal',
+    textAlign: table.textAlign,
+    color: isHeader ? table.headerTextColor : table.textColor,
+    verticalAlign: 'middle',
+  }
+}
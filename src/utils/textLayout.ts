@@ -0,0 +1,507 @@
+/**
+ * Text Layout Engine
+ * Lays out the content of text elements into positioned lines, independent of
+ * any canvas so it can be shared by renderers and exporters and unit tested.
+ *
+ * Supports:
+ * - Paragraphs (newline-separated) with list markers and hanging indents
+ * - Hard line breaks within a paragraph
+ * - Word wrapping, breaking words that are wider than the line
+ * - Configurable line spacing and paragraph spacing
+ * - Vertical anchoring (top, middle, bottom) and overflow detection
+ * - Autofit measurement: shrinking text to fit, or sizing the box to the text
+ */
+
+import type {
+  PresentationTheme,
+  TextElement,
+  TextRun,
+  TextVerticalAlign,
+} from '../types/presentation'
+import { DEFAULT_THEME } from '../types/presentation'
+import { getTextRuns, runsToPlainText, sliceRuns } from './richText'
+import { getTextParagraphs, getListMarkers, INDENT_PER_LEVEL_EM } from './textLists'
+import { resolveThemeColor, resolveThemeFont } from './themeUtils'
+
+/**
+ * Character that breaks a line without starting a new paragraph
+ * (vertical tab, matching the soft return used by office formats)
+ */
+export const LINE_BREAK = '\u000B'
+
+/**
+ * Line height multiplier used when an element doesn't set one
+ */
+export const DEFAULT_LINE_SPACING = 1.2
+
+/**
+ * Vertical anchor used when an element doesn't set one
+ */
+export const DEFAULT_VERTICAL_ALIGN: TextVerticalAlign = 'middle'
+
+/**
+ * Smallest font size that shrink-to-fit will use
+ */
+export const MIN_AUTOFIT_FONT_SIZE = 6
+
+/**
+ * Smallest height of a text box that is resized to fit its text
+ */
+export const MIN_AUTOFIT_HEIGHT = 20
+
+/**
+ * Measure the width of text drawn with a CSS font string
+ */
+export type MeasureText = (text: string, font: string) => number
+
+/**
+ * Family, size and style of a CSS font string
+ */
+export interface FontParts {
+  family: string
+  size: number
+  bold: boolean
+  italic: boolean
+}
+
+/**
+ * A piece of text drawn with a single style
+ */
+export interface TextSegment {
+  text: string
+  /** CSS font string */
+  font: string
+  color: string
+  underline: boolean
+  /** Hyperlink target, when the segment belongs to a linked run */
+  link?: string
+  /** Horizontal offset from the left edge of the element */
+  x: number
+  width: number
+}
+
+/**
+ * A list marker positioned in the hanging indent of a paragraph's first line
+ */
+export interface TextMarker {
+  text: string
+  font: string
+  color: string
+  /** Horizontal offset from the left edge of the element */
+  x: number
+}
+
+/**
+ * A positioned line of text
+ */
+export interface TextLine {
+  segments: TextSegment[]
+  marker: TextMarker | null
+  /** Offset of the top of the line from the top of the element */
+  y: number
+  /** Distance from the top of the line to where glyph tops are drawn */
+  textOffset: number
+  /** Total width of the segments */
+  width: number
+  height: number
+  /** Index of the paragraph the line belongs to */
+  paragraphIndex: number
+}
+
+/**
+ * Result of laying out a text element
+ */
+export interface TextLayout {
+  lines: TextLine[]
+  /** Height of all lines including paragraph spacing */
+  contentHeight: number
+  /** Whether the text extends beyond the element's dimensions */
+  overflows: boolean
+}
+
+/**
+ * Layout settings, taken from the element unless overridden
+ */
+export interface TextLayoutOptions {
+  width?: number
+  height?: number
+  fontSize?: number
+  theme?: PresentationTheme
+}
+
+/**
+ * How a text element's content fits its box
+ */
+export interface TextFit {
+  /** Largest font size, up to the element's own, at which the text fits the box */
+  fontSize: number
+  /** Box height needed to show all text at the element's font size */
+  height: number
+}
+
+/**
+ * Unpositioned styled text used while building lines
+ */
+type Piece = Omit<TextSegment, 'x'>
+
+/**
+ * Unit of wrapping: a word made of one or more styled pieces, or a hard break
+ */
+type Token =
+  | { type: 'word'; pieces: Piece[]; spaceBefore: Piece | null }
+  | { type: 'break' }
+
+/**
+ * Line under construction, before horizontal and vertical positioning
+ */
+interface DraftLine {
+  pieces: Piece[]
+  width: number
+}
+
+/**
+ * Resolve the drawing style of a run against its element and the theme
+ */
+function getRunStyle(
+  element: TextElement,
+  run: TextRun,
+  fontSize: number,
+  theme: PresentationTheme
+): Omit<Piece, 'text' | 'width'> {
+  const fontWeight = run.fontWeight ?? element.fontWeight
+  const fontStyle = run.fontStyle ?? element.fontStyle
+  const fontFamily = resolveThemeFont(element.fontFamily, theme)
+  const defaultColor = run.link ? theme.primaryColor : element.color
+  return {
+    font: `${fontStyle} ${fontWeight} ${String(fontSize)}px ${fontFamily}`,
+    color: resolveThemeColor(run.color ?? defaultColor, theme),
+    underline: run.underline ?? Boolean(run.link),
+    ...(run.link && { link: run.link }),
+  }
+}
+
+/**
+ * Split a paragraph's runs into words and hard breaks.
+ * Words may span several runs; they are separated only by spaces.
+ */
+function tokenize(
+  runs: TextRun[],
+  element: TextElement,
+  fontSize: number,
+  theme: PresentationTheme,
+  measure: MeasureText
+): Token[] {
+  const tokens: Token[] = []
+  let pendingSpace: Piece | null = null
+  let currentWord: Piece[] | null = null
+
+  for (const run of runs) {
+    const style = getRunStyle(element, run, fontSize, theme)
+
+    run.text.split(LINE_BREAK).forEach((line, lineIndex) => {
+      if (lineIndex > 0) {
+        tokens.push({ type: 'break' })
+        currentWord = null
+        pendingSpace = null
+      }
+
+      line.split(' ').forEach((part, index) => {
+        if (index > 0) {
+          // A space ends the current word
+          currentWord = null
+          pendingSpace = { ...style, text: ' ', width: measure(' ', style.font) }
+        }
+        if (!part) return
+        const piece: Piece = { ...style, text: part, width: measure(part, style.font) }
+        if (currentWord) {
+          currentWord.push(piece)
+        } else {
+          currentWord = [piece]
+          tokens.push({ type: 'word', pieces: currentWord, spaceBefore: pendingSpace })
+          pendingSpace = null
+        }
+      })
+    })
+  }
+
+  return tokens
+}
+
+/**
+ * Split a word that is wider than the line into chunks that each fit.
+ * Every chunk holds at least one character so layout always progresses.
+ */
+function breakWord(pieces: Piece[], maxWidth: number, measure: MeasureText): DraftLine[] {
+  const chunks: DraftLine[] = []
+  let chunk: DraftLine = { pieces: [], width: 0 }
+
+  for (const piece of pieces) {
+    let remaining = piece.text
+    while (remaining) {
+      const available = maxWidth - chunk.width
+      // Longest prefix of the remaining text that fits on the current chunk
+      let length = 0
+      let width = 0
+      while (length < remaining.length) {
+        const next = measure(remaining.slice(0, length + 1), piece.font)
+        if (next > available) break
+        length++
+        width = next
+      }
+
+      if (length === 0) {
+        if (chunk.pieces.length > 0) {
+          chunks.push(chunk)
+          chunk = { pieces: [], width: 0 }
+          continue
+        }
+        length = 1
+        width = measure(remaining.slice(0, 1), piece.font)
+      }
+
+      chunk.pieces.push({ ...piece, text: remaining.slice(0, length), width })
+      chunk.width += width
+      remaining = remaining.slice(length)
+      if (remaining) {
+        chunks.push(chunk)
+        chunk = { pieces: [], width: 0 }
+      }
+    }
+  }
+
+  if (chunk.pieces.length > 0) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+/**
+ * Wrap a paragraph's tokens into lines no wider than `maxWidth`
+ */
+function wrapTokens(tokens: Token[], maxWidth: number, measure: MeasureText): DraftLine[] {
+  const lines: DraftLine[] = []
+  let line: DraftLine = { pieces: [], width: 0 }
+
+  for (const token of tokens) {
+    if (token.type === 'break') {
+      lines.push(line)
+      line = { pieces: [], width: 0 }
+      continue
+    }
+
+    const wordWidth = token.pieces.reduce((sum, piece) => sum + piece.width, 0)
+    const spaceWidth = line.pieces.length > 0 && token.spaceBefore ? token.spaceBefore.width : 0
+
+    if (line.pieces.length > 0 && line.width + spaceWidth + wordWidth > maxWidth) {
+      lines.push(line)
+      line = { pieces: [], width: 0 }
+    } else if (spaceWidth > 0 && token.spaceBefore) {
+      line.pieces.push(token.spaceBefore)
+      line.width += spaceWidth
+    }
+
+    if (wordWidth > maxWidth) {
+      // The word doesn't fit on a line of its own, so break it across lines;
+      // the last chunk stays open so following words can join it
+      const chunks = breakWord(token.pieces, maxWidth, measure)
+      line = chunks.pop() ?? line
+      lines.push(...chunks)
+    } else {
+      line.pieces.push(...token.pieces)
+      line.width += wordWidth
+    }
+  }
+
+  lines.push(line)
+  return lines
+}
+
+/**
+ * Lay out a text element into positioned lines.
+ * Positions are relative to the element's top-left corner.
+ */
+export function layoutText(
+  element: TextElement,
+  measure: MeasureText,
+  options: TextLayoutOptions = {}
+): TextLayout {
+  const {
+    width = element.dimensions.width,
+    height = element.dimensions.height,
+    fontSize = element.fontSize,
+    theme = DEFAULT_THEME,
+  } = options
+  const lineSpacing = element.lineSpacing ?? DEFAULT_LINE_SPACING
+  const paragraphSpacing = element.paragraphSpacing ?? 0
+  const verticalAlign = element.verticalAlign ?? DEFAULT_VERTICAL_ALIGN
+
+  const runs = getTextRuns(element)
+  const paragraphs = getTextParagraphs(element)
+  const markers = getListMarkers(paragraphs)
+  const indentStep = fontSize * INDENT_PER_LEVEL_EM
+  const lineHeight = fontSize * lineSpacing
+  // Spread extra leading evenly above and below the glyphs
+  const textOffset = (lineHeight - fontSize * DEFAULT_LINE_SPACING) / 2
+
+  const lines: TextLine[] = []
+  let y = 0
+  let maxLineWidth = 0
+  let overflowsHorizontally = false
+  let offset = 0
+
+  runsToPlainText(runs).split('\n').forEach((text, paragraphIndex) => {
+    const paragraphRuns = sliceRuns(runs, offset, offset + text.length)
+    offset += text.length + 1
+
+    if (paragraphIndex > 0) {
+      y += paragraphSpacing
+    }
+
+    const indentLevel = paragraphs[paragraphIndex]?.indentLevel ?? 0
+    const markerText = markers[paragraphIndex] ?? null
+    const markerIndent = markerText ? indentStep : 0
+    const indent = indentLevel * indentStep + markerIndent
+    const available = Math.max(0, width - indent)
+
+    const tokens = tokenize(paragraphRuns, element, fontSize, theme, measure)
+    const markerStyle = getRunStyle(element, paragraphRuns[0] ?? { text: '' }, fontSize, theme)
+
+    wrapTokens(tokens, available, measure).forEach((draft, lineIndex) => {
+      // Calculate text alignment within the space left after the indent
+      let x = indent
+      if (element.textAlign === 'center') {
+        x += (available - draft.width) / 2
+      } else if (element.textAlign === 'right') {
+        x += available - draft.width
+      }
+
+      const segments: TextSegment[] = []
+      let segmentX = x
+      for (const piece of draft.pieces) {
+        segments.push({ ...piece, x: segmentX })
+        segmentX += piece.width
+      }
+
+      lines.push({
+        segments,
+        // List markers hang in the indent just before the text
+        marker:
+          lineIndex === 0 && markerText
+            ? {
+                text: markerText,
+                font: markerStyle.font,
+                color: markerStyle.color,
+                x: x - markerIndent,
+              }
+            : null,
+        y,
+        textOffset,
+        width: draft.width,
+        height: lineHeight,
+        paragraphIndex,
+      })
+
+      maxLineWidth = Math.max(maxLineWidth, draft.width)
+      if (draft.width > available) overflowsHorizontally = true
+      y += lineHeight
+    })
+  })
+
+  const contentHeight = y
+
+  // Vertical anchoring
+  let anchorOffset = 0
+  if (verticalAlign === 'middle') {
+    anchorOffset = (height - contentHeight) / 2
+  } else if (verticalAlign === 'bottom') {
+    anchorOffset = height - contentHeight
+  }
+  for (const line of lines) {
+    line.y += anchorOffset
+  }
+
+  return {
+    lines,
+    contentHeight,
+    overflows: contentHeight > height || overflowsHorizontally || maxLineWidth > width,
+  }
+}
+
+/**
+ * Find the largest font size, up to the element's own, at which the text
+ * fits the element's box. Sizes are searched in half-pixel steps.
+ */
+export function fitFontSize(
+  element: TextElement,
+  measure: MeasureText,
+  options: Omit<TextLayoutOptions, 'fontSize'> = {}
+): number {
+  const maxSize = element.fontSize
+  if (!layoutText(element, measure, { ...options, fontSize: maxSize }).overflows) {
+    return maxSize
+  }
+
+  // Binary search over half-pixel steps between the minimum and the element's size
+  let low = 0
+  let high = Math.floor((maxSize - MIN_AUTOFIT_FONT_SIZE) * 2)
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    const size = MIN_AUTOFIT_FONT_SIZE + mid / 2
+    if (layoutText(element, measure, { ...options, fontSize: size }).overflows) {
+      high = mid - 1
+    } else {
+      low = mid
+    }
+  }
+  return Math.min(maxSize, MIN_AUTOFIT_FONT_SIZE + low / 2)
+}
+
+/**
+ * Measure how a text element fits its box, for applying autofit modes
+ */
+export function fitText(
+  element: TextElement,
+  measure: MeasureText,
+  options: Omit<TextLayoutOptions, 'fontSize'> = {}
+): TextFit {
+  const { contentHeight } = layoutText(element, measure, options)
+  return {
+    fontSize: fitFontSize(element, measure, options),
+    height: Math.ceil(contentHeight),
+  }
+}
+
+/**
+ * Get the font size a text element is drawn at once its autofit mode is applied
+ */
+export function getAutofitFontSize(
+  element: TextElement,
+  measure: MeasureText,
+  options: Omit<TextLayoutOptions, 'fontSize'> = {}
+): number {
+  return element.autofit === 'shrink' ? fitFontSize(element, measure, options) : element.fontSize
+}
+
+/**
+ * Get the box height of a text element once its autofit mode is applied.
+ * Only elements in resize mode with a measured fit change height.
+ */
+export function getAutofitHeight(element: TextElement, fit: TextFit | null): number {
+  if (element.autofit !== 'resize' || !fit) return element.dimensions.height
+  return Math.max(MIN_AUTOFIT_HEIGHT, fit.height)
+}
+
+/**
+ * Parse a CSS font string as built by the layout engine and chart rendering,
+ * for renderers that set font properties separately
+ */
+export function parseFontString(font: string): FontParts {
+  const match = /^((?:(?:normal|italic|bold)\s+)*)([\d.]+)px\s+(.+)$/.exec(font.trim())
+  const keywords = match?.[1] ?? ''
+  return {
+    family: match?.[3] ?? font,
+    size: parseFloat(match?.[2] ?? '16'),
+    bold: keywords.includes('bold'),
+    italic: keywords.includes('italic'),
+  }
+}
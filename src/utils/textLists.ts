@@ -0,0 +1,211 @@
+/**
+ * Text List Utilities
+ * Provides functions for paragraph-level formatting of text elements:
+ * bulleted and numbered lists, indent levels, and list marker generation.
+ */
+
+import type { ListType, TextElement, TextParagraph } from '../types/presentation'
+
+/**
+ * Deepest indent level a paragraph can have
+ */
+export const MAX_INDENT_LEVEL = 4
+
+/**
+ * Horizontal indent per level, as a multiple of the font size
+ */
+export const INDENT_PER_LEVEL_EM = 1.5
+
+/**
+ * Bullet characters used at each indent level, repeating for deeper levels
+ */
+const BULLET_MARKERS = ['•', '◦', '▪']
+
+/**
+ * Formatting of a paragraph with no list or indent
+ */
+export const PLAIN_PARAGRAPH: TextParagraph = { listType: 'none', indentLevel: 0 }
+
+/**
+ * Get the number of paragraphs in a text
+ */
+export function countParagraphs(text: string): number {
+  return text.split('\n').length
+}
+
+/**
+ * Get the formatting of every paragraph of a text element.
+ * Elements saved before paragraph formatting existed get plain paragraphs.
+ */
+export function getTextParagraphs(
+  element: Pick<TextElement, 'content' | 'paragraphs'>
+): TextParagraph[] {
+  const count = countParagraphs(element.content)
+  return Array.from({ length: count }, (_, index) => element.paragraphs?.[index] ?? PLAIN_PARAGRAPH)
+}
+
+/**
+ * Get the indices of the paragraphs touched by the character range [start, end]
+ */
+export function getParagraphRange(
+  text: string,
+  start: number,
+  end: number
+): { first: number; last: number } {
+  const first = countParagraphs(text.slice(0, start)) - 1
+  const last = countParagraphs(text.slice(0, Math.max(start, end))) - 1
+  return { first, last }
+}
+
+/**
+ * Update paragraph formatting after the text changed from `oldText` to `newText`.
+ * Paragraphs created by inserted line breaks continue the formatting of the
+ * paragraph they were split from, so pressing Enter in a list continues the list.
+ */
+export function spliceParagraphsText(
+  paragraphs: TextParagraph[],
+  oldText: string,
+  newText: string
+): TextParagraph[] {
+  let prefix = 0
+  const maxPrefix = Math.min(oldText.length, newText.length)
+  while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  const maxSuffix = maxPrefix - prefix
+  while (
+    suffix < maxSuffix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const index = countParagraphs(oldText.slice(0, prefix)) - 1
+  const removed = countParagraphs(oldText.slice(prefix, oldText.length - suffix)) - 1
+  const inserted = countParagraphs(newText.slice(prefix, newText.length - suffix)) - 1
+  const current = paragraphs[index] ?? PLAIN_PARAGRAPH
+
+  const result = paragraphs.slice()
+  while (result.length < countParagraphs(oldText)) {
+    result.push(PLAIN_PARAGRAPH)
+  }
+  result.splice(index + 1, removed, ...Array.from({ length: inserted }, () => ({ ...current })))
+  return result.slice(0, countParagraphs(newText))
+}
+
+/**
+ * Set the list type of paragraphs [first, last].
+ * If every one of them already has that list type, the list is removed instead.
+ */
+export function toggleListType(
+  paragraphs: TextParagraph[],
+  first: number,
+  last: number,
+  listType: Exclude<ListType, 'none'>
+): TextParagraph[] {
+  const targets = paragraphs.slice(first, last + 1)
+  const allMatch = targets.length > 0 && targets.every((p) => p.listType === listType)
+  return paragraphs.map((paragraph, index) =>
+    index >= first && index <= last
+      ? { ...paragraph, listType: allMatch ? 'none' : listType }
+      : paragraph
+  )
+}
+
+/**
+ * Change the indent level of paragraphs [first, last] by `delta`, clamped to valid levels
+ */
+export function changeIndentLevel(
+  paragraphs: TextParagraph[],
+  first: number,
+  last: number,
+  delta: number
+): TextParagraph[] {
+  return paragraphs.map((paragraph, index) =>
+    index >= first && index <= last
+      ? {
+          ...paragraph,
+          indentLevel: Math.min(MAX_INDENT_LEVEL, Math.max(0, paragraph.indentLevel + delta)),
+        }
+      : paragraph
+  )
+}
+
+/**
+ * Format a list number for an indent level: 1. → a. → i. and repeating
+ */
+function formatListNumber(value: number, indentLevel: number): string {
+  switch (indentLevel % 3) {
+    case 1: {
+      let label = ''
+      let n = value
+      while (n > 0) {
+        n--
+        label = String.fromCharCode(97 + (n % 26)) + label
+        n = Math.floor(n / 26)
+      }
+      return `${label}.`
+    }
+    case 2:
+      return `${toRoman(value)}.`
+    default:
+      return `${String(value)}.`
+  }
+}
+
+/**
+ * Convert a positive number to lowercase roman numerals
+ */
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ]
+  let remaining = value
+  let result = ''
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral
+      remaining -= amount
+    }
+  }
+  return result
+}
+
+/**
+ * Get the list marker for every paragraph, or null for paragraphs that aren't list items.
+ * Numbering continues across deeper nested items and restarts after a paragraph
+ * at the same or a shallower level that isn't a numbered item.
+ */
+export function getListMarkers(paragraphs: TextParagraph[]): (string | null)[] {
+  // Counters for each indent level of the current numbered list
+  const counters: number[] = []
+
+  return paragraphs.map((paragraph) => {
+    const level = Math.min(MAX_INDENT_LEVEL, Math.max(0, paragraph.indentLevel))
+    // Deeper levels restart whenever a shallower paragraph appears
+    counters.length = Math.min(counters.length, level + 1)
+
+    if (paragraph.listType === 'bullet') {
+      counters[level] = 0
+      return BULLET_MARKERS[level % BULLET_MARKERS.length] ?? '•'
+    }
+    if (paragraph.listType === 'numbered') {
+      const value = (counters[level] ?? 0) + 1
+      counters[level] = value
+      return formatListNumber(value, level)
+    }
+
+    counters[level] = 0
+    return null
+  })
+}
+
+/**
+ * Check whether any paragraph is a list item or indented
+ */
+export function hasParagraphFormatting(paragraphs: TextParagraph[]): boolean {
+  return paragraphs.some((p) => p.listType !== 'none' || p.indentLevel !== 0)
+}
@@ -0,0 +1,190 @@
+/**
+ * Theme Utilities
+ * Provides helpers for referencing presentation theme values from elements
+ * and backgrounds, and for resolving those references to concrete values.
+ */
+
+import type {
+  PresentationTheme,
+  ThemeColorToken,
+  ThemePreset,
+  SlideBackground,
+} from '../types/presentation'
+import { DEFAULT_THEME, THEME_TOKEN_PREFIX, THEME_FONT_TOKEN } from '../types/presentation'
+
+/**
+ * Theme color slots with display labels, in the order they appear in pickers
+ */
+export const THEME_COLOR_TOKENS: { token: ThemeColorToken; label: string }[] = [
+  { token: 'primary', label: 'Primary' },
+  { token: 'secondary', label: 'Secondary' },
+  { token: 'background', label: 'Background' },
+  { token: 'text', label: 'Text' },
+]
+
+/**
+ * Font families offered when customizing a theme. Each is a CSS font family list
+ * ending in a generic family, so text stays readable where a font isn't loaded.
+ */
+export const THEME_FONT_FAMILIES: { value: string; label: string }[] = [
+  { value: 'DM Sans, system-ui, sans-serif', label: 'DM Sans' },
+  { value: 'Inter, system-ui, sans-serif', label: 'Inter' },
+  { value: 'Roboto, system-ui, sans-serif', label: 'Roboto' },
+  { value: 'Outfit, system-ui, sans-serif', label: 'Outfit' },
+  { value: 'Helvetica, Arial, sans-serif', label: 'Helvetica' },
+  { value: 'Georgia, serif', label: 'Georgia' },
+  { value: "'Times New Roman', Times, serif", label: 'Times New Roman' },
+  { value: "'JetBrains Mono', monospace", label: 'JetBrains Mono' },
+]
+
+/**
+ * Themes that ship with the app, shown first in the theme gallery
+ */
+export const BUILT_IN_THEMES: ThemePreset[] = [
+  { id: 'default', name: 'Default', theme: DEFAULT_THEME, builtIn: true },
+  {
+    id: 'midnight',
+    name: 'Midnight',
+    theme: {
+      primaryColor: '#38bdf8',
+      secondaryColor: '#a78bfa',
+      backgroundColor: '#0f172a',
+      textColor: '#f8fafc',
+      fontFamily: 'Inter, system-ui, sans-serif',
+    },
+    builtIn: true,
+  },
+  {
+    id: 'forest',
+    name: 'Forest',
+    theme: {
+      primaryColor: '#16a34a',
+      secondaryColor: '#854d0e',
+      backgroundColor: '#f7fee7',
+      textColor: '#14532d',
+      fontFamily: 'Georgia, serif',
+    },
+    builtIn: true,
+  },
+  {
+    id: 'ocean',
+    name: 'Ocean',
+    theme: {
+      primaryColor: '#0284c7',
+      secondaryColor: '#0d9488',
+      backgroundColor: '#f0f9ff',
+      textColor: '#0c4a6e',
+      fontFamily: 'Roboto, system-ui, sans-serif',
+    },
+    builtIn: true,
+  },
+  {
+    id: 'monochrome',
+    name: 'Monochrome',
+    theme: {
+      primaryColor: '#171717',
+      secondaryColor: '#737373',
+      backgroundColor: '#ffffff',
+      textColor: '#0a0a0a',
+      fontFamily: 'Helvetica, Arial, sans-serif',
+    },
+    builtIn: true,
+  },
+]
+
+/**
+ * Create a user-saved theme preset.
+ * Any theme values not provided are taken from DEFAULT_THEME.
+ */
+export function createCustomTheme(
+  name: string,
+  theme: Partial<PresentationTheme> = {}
+): ThemePreset {
+  return {
+    id: `custom-${String(Date.now())}-${Math.random().toString(36).slice(2, 11)}`,
+    name: name.trim() || 'Custom Theme',
+    theme: { ...DEFAULT_THEME, ...theme },
+    builtIn: false,
+  }
+}
+
+/**
+ * Check whether two themes have identical values
+ */
+export function themesEqual(a: PresentationTheme, b: PresentationTheme): boolean {
+  return (
+    a.primaryColor === b.primaryColor &&
+    a.secondaryColor === b.secondaryColor &&
+    a.backgroundColor === b.backgroundColor &&
+    a.textColor === b.textColor &&
+    a.fontFamily === b.fontFamily
+  )
+}
+
+/**
+ * Maps each color token to the theme property it reads from
+ */
+export const TOKEN_TO_THEME_KEY: Record<ThemeColorToken, keyof PresentationTheme> = {
+  primary: 'primaryColor',
+  secondary: 'secondaryColor',
+  background: 'backgroundColor',
+  text: 'textColor',
+}
+
+/**
+ * Build a color value that references a theme slot
+ */
+export function themeColorRef(token: ThemeColorToken): string {
+  return `${THEME_TOKEN_PREFIX}${token}`
+}
+
+/**
+ * Check whether a color or font value references the theme
+ */
+export function isThemeReference(value: string | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(THEME_TOKEN_PREFIX)
+}
+
+/**
+ * Get the theme color token referenced by a value, or null for literal colors
+ */
+export function getThemeColorToken(value: string | undefined): ThemeColorToken | null {
+  if (!value || !isThemeReference(value)) return null
+  const token = value.slice(THEME_TOKEN_PREFIX.length)
+  return token in TOKEN_TO_THEME_KEY ? (token as ThemeColorToken) : null
+}
+
+/**
+ * Resolve a color value against the theme.
+ * Literal colors are returned unchanged; unknown references fall back to the text color.
+ */
+export function resolveThemeColor(value: string, theme: PresentationTheme): string {
+  if (!isThemeReference(value)) return value
+  const token = getThemeColorToken(value)
+  return token ? theme[TOKEN_TO_THEME_KEY[token]] : theme.textColor
+}
+
+/**
+ * Resolve a font family value against the theme
+ */
+export function resolveThemeFont(value: string, theme: PresentationTheme): string {
+  return value === THEME_FONT_TOKEN ? theme.fontFamily : value
+}
+
+/**
+ * Resolve every theme reference in a slide background
+ */
+export function resolveBackgroundTheme(
+  background: SlideBackground,
+  theme: PresentationTheme
+): SlideBackground {
+  const resolved: SlideBackground = { ...background }
+  if (background.color) resolved.color = resolveThemeColor(background.color, theme)
+  if (background.gradientStart) {
+    resolved.gradientStart = resolveThemeColor(background.gradientStart, theme)
+  }
+  if (background.gradientEnd) {
+    resolved.gradientEnd = resolveThemeColor(background.gradientEnd, theme)
+  }
+  return resolved
+}